@@ -0,0 +1,35 @@
+-- Weekly opening-hour rules that materialize appointment slots
+CREATE TABLE "schedule_templates" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "service_id" UUID NOT NULL,
+  "name" TEXT NOT NULL,
+  "timezone" TEXT NOT NULL,
+  "days_of_week" INTEGER[] NOT NULL,
+  "open_time" TEXT NOT NULL,
+  "close_time" TEXT NOT NULL,
+  "break_start_time" TEXT,
+  "break_end_time" TEXT,
+  "interval_minutes" INTEGER,
+  "capacity" INTEGER NOT NULL DEFAULT 1,
+  "buffer_before_minutes" INTEGER NOT NULL DEFAULT 0,
+  "buffer_after_minutes" INTEGER NOT NULL DEFAULT 0,
+  "horizon_days" INTEGER NOT NULL DEFAULT 28,
+  "valid_from" TIMESTAMP(3),
+  "valid_to" TIMESTAMP(3),
+  "is_active" BOOLEAN NOT NULL DEFAULT true,
+  "last_generated_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "schedule_templates_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "schedule_templates_service_id_fkey" FOREIGN KEY ("service_id") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "schedule_templates_service_id_is_active_idx"
+  ON "schedule_templates" ("service_id", "is_active");
+
+ALTER TABLE "appointment_slots"
+  ADD COLUMN "template_id" UUID,
+  ADD CONSTRAINT "appointment_slots_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "schedule_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "appointment_slots_template_id_start_at_key"
+  ON "appointment_slots" ("template_id", "start_at");
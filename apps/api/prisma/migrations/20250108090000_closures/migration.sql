@@ -0,0 +1,18 @@
+-- Holiday and closure calendar
+CREATE TYPE "ClosureType" AS ENUM ('PUBLIC_HOLIDAY', 'RELIGIOUS_HOLIDAY', 'OFFICE_CLOSURE');
+
+CREATE TABLE "closures" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "type" "ClosureType" NOT NULL,
+  "name" TEXT NOT NULL,
+  "start_date" DATE NOT NULL,
+  "end_date" DATE NOT NULL,
+  "service_id" UUID,
+  "notes" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "closures_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "closures_service_id_fkey" FOREIGN KEY ("service_id") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "closures_start_date_end_date_idx" ON "closures" ("start_date", "end_date");
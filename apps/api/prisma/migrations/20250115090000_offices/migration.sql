@@ -0,0 +1,48 @@
+-- Office locations for services, slots, schedule templates and closures
+CREATE TABLE "offices" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "slug" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "wilaya_code" TEXT NOT NULL,
+  "commune" TEXT NOT NULL,
+  "address" TEXT NOT NULL,
+  "latitude" DOUBLE PRECISION,
+  "longitude" DOUBLE PRECISION,
+  "timezone" TEXT NOT NULL DEFAULT 'Africa/Algiers',
+  "phone_number" TEXT,
+  "opening_hours" JSONB,
+  "is_active" BOOLEAN NOT NULL DEFAULT true,
+  "metadata" JSONB,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "offices_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "offices_slug_key" ON "offices" ("slug");
+CREATE INDEX "offices_wilaya_code_is_active_idx" ON "offices" ("wilaya_code", "is_active");
+
+CREATE TABLE "office_services" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "office_id" UUID NOT NULL,
+  "service_id" UUID NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "office_services_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "office_services_office_id_fkey" FOREIGN KEY ("office_id") REFERENCES "offices"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "office_services_service_id_fkey" FOREIGN KEY ("service_id") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "office_services_office_service_key" ON "office_services" ("office_id", "service_id");
+CREATE INDEX "office_services_service_id_idx" ON "office_services" ("service_id");
+
+ALTER TABLE "appointment_slots" ADD COLUMN "office_id" UUID;
+ALTER TABLE "appointment_slots"
+  ADD CONSTRAINT "appointment_slots_office_id_fkey" FOREIGN KEY ("office_id") REFERENCES "offices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+CREATE INDEX "appointment_slots_office_id_start_at_idx" ON "appointment_slots" ("office_id", "start_at");
+
+ALTER TABLE "schedule_templates" ADD COLUMN "office_id" UUID;
+ALTER TABLE "schedule_templates"
+  ADD CONSTRAINT "schedule_templates_office_id_fkey" FOREIGN KEY ("office_id") REFERENCES "offices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "closures" ADD COLUMN "office_id" UUID;
+ALTER TABLE "closures"
+  ADD CONSTRAINT "closures_office_id_fkey" FOREIGN KEY ("office_id") REFERENCES "offices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- Specialist assignment for slots, schedule templates and appointments
+ALTER TYPE "AppointmentStatusEventType" ADD VALUE 'REASSIGNED';
+
+ALTER TABLE "appointment_slots" ADD COLUMN "specialist_id" UUID;
+ALTER TABLE "appointment_slots"
+  ADD CONSTRAINT "appointment_slots_specialist_id_fkey" FOREIGN KEY ("specialist_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+CREATE INDEX "appointment_slots_specialist_id_start_at_idx" ON "appointment_slots" ("specialist_id", "start_at");
+
+ALTER TABLE "schedule_templates" ADD COLUMN "specialist_id" UUID;
+ALTER TABLE "schedule_templates"
+  ADD CONSTRAINT "schedule_templates_specialist_id_fkey" FOREIGN KEY ("specialist_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "appointments" ADD COLUMN "specialist_id" UUID;
+ALTER TABLE "appointments"
+  ADD CONSTRAINT "appointments_specialist_id_fkey" FOREIGN KEY ("specialist_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+CREATE INDEX "appointments_specialist_id_scheduled_at_idx" ON "appointments" ("specialist_id", "scheduled_at");
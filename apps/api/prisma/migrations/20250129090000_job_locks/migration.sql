@@ -0,0 +1,12 @@
+-- Leases used by the background scheduler so each job runs on one API instance at a time
+CREATE TABLE "job_locks" (
+  "name" TEXT NOT NULL,
+  "locked_by" TEXT,
+  "locked_until" TIMESTAMP(3) NOT NULL,
+  "last_started_at" TIMESTAMP(3),
+  "last_finished_at" TIMESTAMP(3),
+  "last_error" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "job_locks_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,40 @@
+-- Transactional outbox for appointment and queue notifications and their per-channel deliveries
+CREATE TYPE "NotificationChannel" AS ENUM ('EMAIL', 'SMS');
+CREATE TYPE "NotificationOutboxStatus" AS ENUM ('PENDING', 'PROCESSING', 'DISPATCHED', 'FAILED');
+CREATE TYPE "NotificationDeliveryStatus" AS ENUM ('PENDING', 'SENT', 'FAILED', 'SKIPPED');
+
+CREATE TABLE "notification_outbox" (
+  "id" UUID NOT NULL,
+  "type" TEXT NOT NULL,
+  "user_id" UUID,
+  "payload" JSONB NOT NULL,
+  "status" "NotificationOutboxStatus" NOT NULL DEFAULT 'PENDING',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "available_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "processed_at" TIMESTAMP(3),
+  "last_error" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "notification_outbox_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "notification_outbox_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX "notification_outbox_status_available_idx" ON "notification_outbox" ("status", "available_at");
+
+CREATE TABLE "notification_deliveries" (
+  "id" UUID NOT NULL,
+  "outbox_id" UUID NOT NULL,
+  "channel" "NotificationChannel" NOT NULL,
+  "recipient" TEXT,
+  "status" "NotificationDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "provider_message_id" TEXT,
+  "last_error" TEXT,
+  "sent_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "notification_deliveries_outbox_id_fkey" FOREIGN KEY ("outbox_id") REFERENCES "notification_outbox"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "notification_deliveries_outbox_channel_key" ON "notification_deliveries" ("outbox_id", "channel");
@@ -0,0 +1,33 @@
+-- Admin-editable, versioned notification templates per event type, channel and locale
+CREATE TYPE "NotificationTemplateVersionStatus" AS ENUM ('DRAFT', 'ACTIVE', 'ARCHIVED');
+
+CREATE TABLE "notification_templates" (
+  "id" UUID NOT NULL,
+  "type" TEXT NOT NULL,
+  "channel" "NotificationChannel" NOT NULL,
+  "locale" TEXT NOT NULL,
+  "description" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "notification_templates_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "notification_templates_type_channel_locale_key" ON "notification_templates" ("type", "channel", "locale");
+
+CREATE TABLE "notification_template_versions" (
+  "id" UUID NOT NULL,
+  "template_id" UUID NOT NULL,
+  "version_number" INTEGER NOT NULL,
+  "status" "NotificationTemplateVersionStatus" NOT NULL DEFAULT 'DRAFT',
+  "subject" TEXT,
+  "body" TEXT NOT NULL,
+  "change_log" TEXT,
+  "published_at" TIMESTAMP(3),
+  "retired_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "notification_template_versions_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "notification_template_versions_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "notification_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "notification_template_versions_template_version_key" ON "notification_template_versions" ("template_id", "version_number");
@@ -0,0 +1,25 @@
+-- Appointment reminders, attendance confirmation and per-channel reminder opt-outs
+ALTER TYPE "AppointmentStatusEventType" ADD VALUE 'CONFIRMED';
+
+CREATE TYPE "AppointmentReminderStatus" AS ENUM ('PENDING', 'SENT', 'CANCELLED', 'SKIPPED');
+
+ALTER TABLE "users" ADD COLUMN "reminder_opt_outs" "NotificationChannel"[] NOT NULL DEFAULT ARRAY[]::"NotificationChannel"[];
+
+CREATE TABLE "appointment_reminders" (
+  "id" UUID NOT NULL,
+  "appointment_id" UUID NOT NULL,
+  "offset_minutes" INTEGER NOT NULL,
+  "scheduled_for" TIMESTAMP(3) NOT NULL,
+  "due_at" TIMESTAMP(3) NOT NULL,
+  "status" "AppointmentReminderStatus" NOT NULL DEFAULT 'PENDING',
+  "outbox_id" UUID,
+  "sent_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "appointment_reminders_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "appointment_reminders_appointment_id_fkey" FOREIGN KEY ("appointment_id") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "appointment_reminders_appointment_id_offset_minutes_key" ON "appointment_reminders" ("appointment_id", "offset_minutes");
+
+CREATE INDEX "appointment_reminders_status_due_at_idx" ON "appointment_reminders" ("status", "due_at");
@@ -0,0 +1,4 @@
+-- Tokenized iCalendar feeds of upcoming appointments
+ALTER TABLE "users" ADD COLUMN "calendar_feed_token_hash" TEXT;
+
+CREATE UNIQUE INDEX "users_calendar_feed_token_hash_key" ON "users"("calendar_feed_token_hash");
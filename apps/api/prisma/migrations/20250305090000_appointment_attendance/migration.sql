@@ -0,0 +1,17 @@
+-- Check-in, in-progress and no-show states of appointments
+ALTER TYPE "AppointmentStatus" ADD VALUE 'CHECKED_IN';
+ALTER TYPE "AppointmentStatus" ADD VALUE 'IN_PROGRESS';
+ALTER TYPE "AppointmentStatus" ADD VALUE 'NO_SHOW';
+
+ALTER TYPE "AppointmentStatusEventType" ADD VALUE 'CHECKED_IN';
+ALTER TYPE "AppointmentStatusEventType" ADD VALUE 'STARTED';
+ALTER TYPE "AppointmentStatusEventType" ADD VALUE 'COMPLETED';
+ALTER TYPE "AppointmentStatusEventType" ADD VALUE 'NO_SHOW';
+
+ALTER TABLE "appointments"
+  ADD COLUMN "checked_in_at" TIMESTAMP(3),
+  ADD COLUMN "started_at" TIMESTAMP(3),
+  ADD COLUMN "completed_at" TIMESTAMP(3),
+  ADD COLUMN "no_show_at" TIMESTAMP(3);
+
+CREATE INDEX "appointments_status_scheduled_at_idx" ON "appointments" ("status", "scheduled_at");
@@ -0,0 +1,20 @@
+-- Per-service booking policies: lead time, booking horizon, change cutoff and per-user limits
+CREATE TABLE "service_booking_policies" (
+  "id" UUID NOT NULL,
+  "service_id" UUID NOT NULL,
+  "min_lead_minutes" INTEGER,
+  "max_advance_days" INTEGER,
+  "change_cutoff_minutes" INTEGER,
+  "max_active_per_user" INTEGER,
+  "no_show_limit" INTEGER,
+  "no_show_window_days" INTEGER NOT NULL DEFAULT 90,
+  "no_show_cooldown_days" INTEGER NOT NULL DEFAULT 30,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "service_booking_policies_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "service_booking_policies_service_id_fkey" FOREIGN KEY ("service_id") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "service_booking_policies_service_id_key" ON "service_booking_policies" ("service_id");
+
+CREATE INDEX "appointments_user_id_service_id_status_idx" ON "appointments" ("user_id", "service_id", "status");
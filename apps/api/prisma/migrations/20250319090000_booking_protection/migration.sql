@@ -0,0 +1,33 @@
+-- Booking attempts with proof-of-work challenge redemption and anti-hoarding risk flags
+CREATE TYPE "BookingAttemptKind" AS ENUM ('APPOINTMENT', 'QUEUE_TICKET');
+
+CREATE TYPE "BookingRiskFlag" AS ENUM ('SHARED_DEVICE', 'SHARED_IP', 'RAPID_BOOKINGS');
+
+CREATE TABLE "booking_attempts" (
+  "id" UUID NOT NULL,
+  "user_id" UUID NOT NULL,
+  "kind" "BookingAttemptKind" NOT NULL,
+  "service_id" UUID,
+  "appointment_id" UUID,
+  "queue_ticket_id" UUID,
+  "challenge_id" TEXT,
+  "ip_address" TEXT,
+  "fingerprint" TEXT,
+  "flags" "BookingRiskFlag"[] NOT NULL DEFAULT ARRAY[]::"BookingRiskFlag"[],
+  "succeeded" BOOLEAN NOT NULL DEFAULT false,
+  "reviewed_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "booking_attempts_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "booking_attempts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "booking_attempts_service_id_fkey" FOREIGN KEY ("service_id") REFERENCES "services"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+  CONSTRAINT "booking_attempts_appointment_id_fkey" FOREIGN KEY ("appointment_id") REFERENCES "appointments"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+  CONSTRAINT "booking_attempts_queue_ticket_id_fkey" FOREIGN KEY ("queue_ticket_id") REFERENCES "queue_tickets"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "booking_attempts_challenge_id_key" ON "booking_attempts" ("challenge_id");
+
+CREATE INDEX "booking_attempts_fingerprint_created_at_idx" ON "booking_attempts" ("fingerprint", "created_at");
+
+CREATE INDEX "booking_attempts_ip_address_created_at_idx" ON "booking_attempts" ("ip_address", "created_at");
+
+CREATE INDEX "booking_attempts_user_id_created_at_idx" ON "booking_attempts" ("user_id", "created_at");
@@ -0,0 +1,17 @@
+-- Short-lived seat reservations taken while a booking is being confirmed
+CREATE TABLE "slot_holds" (
+  "id" UUID NOT NULL,
+  "slot_id" UUID NOT NULL,
+  "user_id" UUID NOT NULL,
+  "expires_at" TIMESTAMP(3) NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "slot_holds_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "slot_holds_slot_id_fkey" FOREIGN KEY ("slot_id") REFERENCES "appointment_slots"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "slot_holds_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "slot_holds_slot_id_expires_at_idx" ON "slot_holds" ("slot_id", "expires_at");
+
+CREATE INDEX "slot_holds_user_id_idx" ON "slot_holds" ("user_id");
+
+CREATE INDEX "slot_holds_expires_at_idx" ON "slot_holds" ("expires_at");
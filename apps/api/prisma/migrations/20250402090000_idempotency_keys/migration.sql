@@ -0,0 +1,17 @@
+-- Idempotency keys of appointment and queue mutations, with the response replayed to duplicates
+CREATE TABLE "idempotency_keys" (
+  "id" UUID NOT NULL,
+  "user_id" UUID NOT NULL,
+  "key" TEXT NOT NULL,
+  "request_hash" TEXT NOT NULL,
+  "response_body" JSONB,
+  "completed_at" TIMESTAMP(3),
+  "expires_at" TIMESTAMP(3) NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "idempotency_keys_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "idempotency_keys_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "idempotency_keys_user_id_key_key" ON "idempotency_keys" ("user_id", "key");
+
+CREATE INDEX "idempotency_keys_expires_at_idx" ON "idempotency_keys" ("expires_at");
@@ -0,0 +1,39 @@
+-- Priority lanes for the queue: per-class rules, claims on tickets and an audit trail of grants and revocations
+CREATE TYPE "QueuePriorityClass" AS ENUM ('STANDARD', 'ELDERLY', 'DISABILITY', 'PREGNANCY');
+
+ALTER TABLE "queue_tickets"
+  ADD COLUMN "priority_class" "QueuePriorityClass" NOT NULL DEFAULT 'STANDARD',
+  ADD COLUMN "requested_priority_class" "QueuePriorityClass",
+  ADD COLUMN "priority_proof_id" UUID,
+  ADD CONSTRAINT "queue_tickets_priority_proof_id_fkey" FOREIGN KEY ("priority_proof_id") REFERENCES "document_uploads"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE TABLE "queue_priority_rules" (
+  "id" UUID NOT NULL,
+  "priority_class" "QueuePriorityClass" NOT NULL,
+  "lead_minutes" INTEGER NOT NULL DEFAULT 30,
+  "requires_proof" BOOLEAN NOT NULL DEFAULT true,
+  "proof_template_id" UUID,
+  "is_active" BOOLEAN NOT NULL DEFAULT true,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "queue_priority_rules_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "queue_priority_rules_proof_template_id_fkey" FOREIGN KEY ("proof_template_id") REFERENCES "document_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "queue_priority_rules_priority_class_key" ON "queue_priority_rules" ("priority_class");
+
+CREATE TABLE "queue_ticket_priority_history" (
+  "id" UUID NOT NULL,
+  "ticket_id" UUID NOT NULL,
+  "changed_by_id" UUID,
+  "from_class" "QueuePriorityClass" NOT NULL,
+  "to_class" "QueuePriorityClass" NOT NULL,
+  "reason" TEXT,
+  "metadata" JSONB,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "queue_ticket_priority_history_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "queue_ticket_priority_history_ticket_id_fkey" FOREIGN KEY ("ticket_id") REFERENCES "queue_tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "queue_ticket_priority_history_changed_by_id_fkey" FOREIGN KEY ("changed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX "queue_ticket_priority_history_ticket_id_created_at_idx" ON "queue_ticket_priority_history" ("ticket_id", "created_at");
@@ -0,0 +1,33 @@
+-- Dependents booked for by an account holder, with per-dependent booking limits
+CREATE TYPE "DependentRelationship" AS ENUM ('CHILD', 'SPOUSE', 'PARENT', 'SIBLING', 'WARD', 'OTHER');
+
+CREATE TABLE "dependents" (
+  "id" UUID NOT NULL,
+  "user_id" UUID NOT NULL,
+  "first_name" TEXT NOT NULL,
+  "last_name" TEXT NOT NULL,
+  "birth_date" DATE NOT NULL,
+  "relationship" "DependentRelationship" NOT NULL,
+  "national_id" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "dependents_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "dependents_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "dependents_user_id_national_id_key" ON "dependents" ("user_id", "national_id");
+CREATE INDEX "dependents_user_id_idx" ON "dependents" ("user_id");
+
+ALTER TABLE "appointments"
+  ADD COLUMN "dependent_id" UUID,
+  ADD CONSTRAINT "appointments_dependent_id_fkey" FOREIGN KEY ("dependent_id") REFERENCES "dependents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "queue_tickets"
+  ADD COLUMN "dependent_id" UUID,
+  ADD CONSTRAINT "queue_tickets_dependent_id_fkey" FOREIGN KEY ("dependent_id") REFERENCES "dependents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "document_uploads"
+  ADD COLUMN "dependent_id" UUID,
+  ADD CONSTRAINT "document_uploads_dependent_id_fkey" FOREIGN KEY ("dependent_id") REFERENCES "dependents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "service_booking_policies" ADD COLUMN "max_active_per_dependent" INTEGER;
@@ -0,0 +1,6 @@
+-- Staff override of the required-document checklist of an appointment
+ALTER TABLE "appointments"
+  ADD COLUMN "documents_override_by_id" UUID,
+  ADD COLUMN "documents_override_at" TIMESTAMP(3),
+  ADD COLUMN "documents_override_reason" TEXT,
+  ADD CONSTRAINT "appointments_documents_override_by_id_fkey" FOREIGN KEY ("documents_override_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- Document verification records, stage results and logs, previously held in memory
+CREATE TYPE "DocumentVerificationState" AS ENUM ('PENDING', 'REJECTED', 'MANUAL_REVIEW', 'APPROVED');
+CREATE TYPE "DocumentVerificationStage" AS ENUM ('ANTIVIRUS', 'AI', 'RULES');
+CREATE TYPE "DocumentVerificationLogLevel" AS ENUM ('INFO', 'WARNING', 'ERROR');
+
+CREATE TABLE "document_verifications" (
+  "id" UUID NOT NULL,
+  "upload_id" UUID,
+  "doc_type" TEXT NOT NULL,
+  "original_filename" TEXT NOT NULL,
+  "mime_type" TEXT NOT NULL,
+  "file_size" INTEGER NOT NULL,
+  "file_checksum" TEXT NOT NULL,
+  "status" "DocumentVerificationState" NOT NULL DEFAULT 'PENDING',
+  "reasons" TEXT[],
+  "warnings" TEXT[],
+  "metadata" JSONB NOT NULL,
+  "reviewed_by" TEXT,
+  "reviewed_at" TIMESTAMP(3),
+  "review_notes" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "document_verifications_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "document_verifications_upload_id_fkey" FOREIGN KEY ("upload_id") REFERENCES "document_uploads"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX "document_verifications_upload_id_idx" ON "document_verifications" ("upload_id");
+CREATE INDEX "document_verifications_status_created_at_idx" ON "document_verifications" ("status", "created_at");
+
+CREATE TABLE "document_verification_stage_results" (
+  "id" UUID NOT NULL,
+  "verification_id" UUID NOT NULL,
+  "stage" "DocumentVerificationStage" NOT NULL,
+  "passed" BOOLEAN NOT NULL,
+  "message" TEXT NOT NULL,
+  "details" JSONB,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "document_verification_stage_results_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "document_verification_stage_results_verification_id_fkey" FOREIGN KEY ("verification_id") REFERENCES "document_verifications"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "document_verification_stage_results_verification_id_stage_key" ON "document_verification_stage_results" ("verification_id", "stage");
+
+CREATE TABLE "document_verification_logs" (
+  "id" UUID NOT NULL,
+  "verification_id" UUID NOT NULL,
+  "sequence" INTEGER NOT NULL,
+  "stage" TEXT NOT NULL,
+  "severity" "DocumentVerificationLogLevel" NOT NULL DEFAULT 'INFO',
+  "message" TEXT NOT NULL,
+  "metadata" JSONB,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "document_verification_logs_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "document_verification_logs_verification_id_fkey" FOREIGN KEY ("verification_id") REFERENCES "document_verifications"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "document_verification_logs_verification_id_sequence_key" ON "document_verification_logs" ("verification_id", "sequence");
+CREATE INDEX "document_verification_logs_created_at_idx" ON "document_verification_logs" ("created_at");
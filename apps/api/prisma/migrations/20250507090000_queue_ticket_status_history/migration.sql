@@ -0,0 +1,16 @@
+-- Status history for queue tickets, starting with holds that lapse without a booking
+CREATE TABLE "queue_ticket_status_history" (
+  "id" UUID NOT NULL,
+  "ticket_id" UUID NOT NULL,
+  "changed_by_id" UUID,
+  "from_status" "QueueTicketStatus",
+  "to_status" "QueueTicketStatus" NOT NULL,
+  "reason" TEXT,
+  "metadata" JSONB,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "queue_ticket_status_history_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "queue_ticket_status_history_ticket_id_fkey" FOREIGN KEY ("ticket_id") REFERENCES "queue_tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "queue_ticket_status_history_changed_by_id_fkey" FOREIGN KEY ("changed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX "queue_ticket_status_history_ticket_id_created_at_idx" ON "queue_ticket_status_history" ("ticket_id", "created_at");
@@ -12,10 +12,13 @@ import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
 import { RolesGuard } from '@common/guards/roles.guard';
 import appConfig, { AppConfig } from '@config/app.config';
 import authConfig from '@config/auth.config';
+import bookingProtectionConfig from '@config/booking-protection.config';
 import storageConfig from '@config/storage.config';
 import llmConfig from '@config/llm.config';
 import corsConfig from '@config/cors.config';
 import rateLimitConfig, { RateLimitConfig } from '@config/rate-limit.config';
+import jobsConfig from '@config/jobs.config';
+import notificationsConfig from '@config/notifications.config';
 import { AppController } from '@app/app.controller';
 import { AppService } from '@app/app.service';
 import { AiModule } from '@modules/ai/ai.module';
@@ -25,9 +28,11 @@ import { DocumentsModule } from '@modules/documents/documents.module';
 import { DocumentTemplatesModule } from '@modules/document-templates/document-templates.module';
 import { DocumentUploadsModule } from '@modules/document-uploads/document-uploads.module';
 import { DocumentVerificationModule } from '@modules/document-verification/document-verification.module';
+import { OfficesModule } from '@modules/offices/offices.module';
 import { ServicesModule } from '@modules/services/services.module';
 import { UsersModule } from '@modules/users/users.module';
 import { AdminModule } from '@modules/admin/admin.module';
+import { JobsModule } from '@modules/jobs/jobs.module';
 import { PrismaModule } from '@prisma/prisma.module';
 
 const nodeEnv = process.env.NODE_ENV ?? 'development';
@@ -51,7 +56,17 @@ const envFilePath = Array.from(
       cache: true,
       expandVariables: true,
       envFilePath,
-      load: [appConfig, authConfig, storageConfig, llmConfig, corsConfig, rateLimitConfig],
+      load: [
+        appConfig,
+        authConfig,
+        storageConfig,
+        llmConfig,
+        corsConfig,
+        rateLimitConfig,
+        jobsConfig,
+        notificationsConfig,
+        bookingProtectionConfig,
+      ],
     }),
     LoggerModule.forRootAsync({
       imports: [ConfigModule],
@@ -114,6 +129,7 @@ const envFilePath = Array.from(
     AuthModule,
     UsersModule,
     ServicesModule,
+    OfficesModule,
     AppointmentsModule,
     DocumentsModule,
     DocumentTemplatesModule,
@@ -121,6 +137,7 @@ const envFilePath = Array.from(
     DocumentVerificationModule,
     AiModule,
     AdminModule,
+    JobsModule,
   ],
   controllers: [AppController],
   providers: [
@@ -24,6 +24,8 @@ export class HttpExceptionFilter implements ExceptionFilter {
     let status = HttpStatus.INTERNAL_SERVER_ERROR;
     let message: string | string[] = 'Internal server error';
     let error: string | undefined;
+    let code: string | undefined;
+    let details: unknown;
 
     if (exception instanceof HttpException) {
       status = exception.getStatus();
@@ -39,6 +41,9 @@ export class HttpExceptionFilter implements ExceptionFilter {
         if (responseError) {
           error = responseError as string;
         }
+        // Machine-readable error codes let clients localise domain errors.
+        code = (responseBody as Record<string, unknown>).code as string | undefined;
+        details = (responseBody as Record<string, unknown>).details;
       }
     } else if (exception instanceof Error) {
       error = exception.message;
@@ -53,6 +58,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
         requestId: (request as { id?: string }).id,
         message,
         error,
+        code,
       },
       'HTTP exception handled',
     );
@@ -64,6 +70,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
       method: request.method,
       message,
       error,
+      ...(code ? { code, details } : {}),
     });
   }
 }
@@ -5,6 +5,7 @@ export interface AppConfig {
   env: string;
   port: number;
   globalPrefix: string;
+  publicUrl: string;
 }
 
 export default registerAs<AppConfig>('app', () => {
@@ -15,5 +16,6 @@ export default registerAs<AppConfig>('app', () => {
     env: process.env.NODE_ENV ?? 'development',
     port: Number.isNaN(parsedPort) ? 3000 : parsedPort,
     globalPrefix: process.env.GLOBAL_PREFIX ?? 'api',
+    publicUrl: (process.env.API_PUBLIC_URL ?? 'http://localhost:3001/api').replace(/\/+$/, ''),
   };
 });
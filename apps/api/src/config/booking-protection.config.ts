@@ -0,0 +1,50 @@
+import { registerAs } from '@nestjs/config';
+
+export interface BookingProtectionConfig {
+  /** Require a solved proof-of-work challenge on booking endpoints. */
+  challengeEnabled: boolean;
+  challengeSecret: string;
+  /** Leading zero bits required in the solution hash. */
+  challengeDifficulty: number;
+  challengeTtlSeconds: number;
+  /** Window in which bookings from the same device or IP are compared. */
+  lookbackHours: number;
+  maxAccountsPerDevice: number;
+  maxAccountsPerIp: number;
+  burstWindowSeconds: number;
+  burstBookings: number;
+}
+
+const parsePositive = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? `${fallback}`, 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+};
+
+export default registerAs<BookingProtectionConfig>('bookingProtection', () => {
+  const challengeSecret = process.env.BOOKING_CHALLENGE_SECRET ?? 'change-me-challenges';
+
+  if (
+    process.env.NODE_ENV === 'production' &&
+    (challengeSecret === 'change-me-challenges' || challengeSecret.length < 32)
+  ) {
+    throw new Error(
+      'BOOKING_CHALLENGE_SECRET must be set to a secure value (min 32 characters) in production',
+    );
+  }
+
+  const defaultEnabled = process.env.NODE_ENV !== 'test';
+
+  return {
+    challengeEnabled: process.env.BOOKING_CHALLENGE_ENABLED
+      ? process.env.BOOKING_CHALLENGE_ENABLED === 'true'
+      : defaultEnabled,
+    challengeSecret,
+    challengeDifficulty: Math.min(parsePositive(process.env.BOOKING_CHALLENGE_DIFFICULTY, 16), 28),
+    challengeTtlSeconds: parsePositive(process.env.BOOKING_CHALLENGE_TTL_SECONDS, 300),
+    lookbackHours: parsePositive(process.env.BOOKING_PROTECTION_LOOKBACK_HOURS, 24),
+    maxAccountsPerDevice: parsePositive(process.env.BOOKING_PROTECTION_MAX_ACCOUNTS_PER_DEVICE, 2),
+    maxAccountsPerIp: parsePositive(process.env.BOOKING_PROTECTION_MAX_ACCOUNTS_PER_IP, 5),
+    burstWindowSeconds: parsePositive(process.env.BOOKING_PROTECTION_BURST_WINDOW_SECONDS, 60),
+    burstBookings: parsePositive(process.env.BOOKING_PROTECTION_BURST_BOOKINGS, 3),
+  };
+});
@@ -0,0 +1,57 @@
+import { registerAs } from '@nestjs/config';
+
+export interface JobsConfig {
+  enabled: boolean;
+  lockTtlSeconds: number;
+  queueExpiryIntervalSeconds: number;
+  slotHoldExpiryIntervalSeconds: number;
+  uploadExpiryIntervalSeconds: number;
+  slotGenerationIntervalSeconds: number;
+  notificationDispatchIntervalSeconds: number;
+  appointmentReminderIntervalSeconds: number;
+  noShowIntervalSeconds: number;
+  noShowGraceMinutes: number;
+  idempotencyExpiryIntervalSeconds: number;
+}
+
+const parseSeconds = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? `${fallback}`, 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+};
+
+export default registerAs<JobsConfig>('jobs', () => {
+  const defaultEnabled = process.env.NODE_ENV !== 'test';
+
+  return {
+    enabled: process.env.JOBS_ENABLED ? process.env.JOBS_ENABLED === 'true' : defaultEnabled,
+    lockTtlSeconds: parseSeconds(process.env.JOBS_LOCK_TTL_SECONDS, 300),
+    queueExpiryIntervalSeconds: parseSeconds(process.env.JOBS_QUEUE_EXPIRY_INTERVAL_SECONDS, 60),
+    slotHoldExpiryIntervalSeconds: parseSeconds(
+      process.env.JOBS_SLOT_HOLD_EXPIRY_INTERVAL_SECONDS,
+      60,
+    ),
+    uploadExpiryIntervalSeconds: parseSeconds(
+      process.env.JOBS_UPLOAD_EXPIRY_INTERVAL_SECONDS,
+      3600,
+    ),
+    slotGenerationIntervalSeconds: parseSeconds(
+      process.env.JOBS_SLOT_GENERATION_INTERVAL_SECONDS,
+      21600,
+    ),
+    notificationDispatchIntervalSeconds: parseSeconds(
+      process.env.JOBS_NOTIFICATION_DISPATCH_INTERVAL_SECONDS,
+      15,
+    ),
+    appointmentReminderIntervalSeconds: parseSeconds(
+      process.env.JOBS_APPOINTMENT_REMINDER_INTERVAL_SECONDS,
+      60,
+    ),
+    noShowIntervalSeconds: parseSeconds(process.env.JOBS_NO_SHOW_INTERVAL_SECONDS, 300),
+    // Minutes after the scheduled time before an appointment nobody checked in for is a no-show
+    noShowGraceMinutes: parseSeconds(process.env.JOBS_NO_SHOW_GRACE_MINUTES, 30),
+    idempotencyExpiryIntervalSeconds: parseSeconds(
+      process.env.JOBS_IDEMPOTENCY_EXPIRY_INTERVAL_SECONDS,
+      3600,
+    ),
+  };
+});
@@ -0,0 +1,104 @@
+import { registerAs } from '@nestjs/config';
+
+export enum EmailTransportType {
+  SMTP = 'smtp',
+  FILE = 'file',
+}
+
+export enum SmsTransportType {
+  HTTP = 'http',
+  LOG = 'log',
+}
+
+export interface NotificationsConfig {
+  email: {
+    transport: EmailTransportType;
+    from: string;
+    smtp: {
+      host: string;
+      port: number;
+      secure: boolean;
+      user?: string;
+      password?: string;
+    };
+  };
+  sms: {
+    transport: SmsTransportType;
+    gatewayUrl: string;
+    apiKey?: string;
+    sender: string;
+  };
+  reminders: {
+    offsetsMinutes: number[];
+    confirmUrl: string;
+    linkSecret: string;
+  };
+  outputDir: string;
+  batchSize: number;
+  maxAttempts: number;
+  retryBaseSeconds: number;
+}
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? `${fallback}`, 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+};
+
+const parseHours = (value: string | undefined, fallback: number[]): number[] => {
+  const hours = (value ?? '')
+    .split(',')
+    .map((entry) => Number.parseFloat(entry.trim()))
+    .filter((entry) => Number.isFinite(entry) && entry > 0);
+
+  return hours.length ? hours : fallback;
+};
+
+export default registerAs<NotificationsConfig>('notifications', () => {
+  const linkSecret = process.env.NOTIFICATIONS_LINK_SECRET ?? 'change-me-links';
+
+  if (
+    process.env.NODE_ENV === 'production' &&
+    (linkSecret === 'change-me-links' || linkSecret.length < 32)
+  ) {
+    throw new Error(
+      'NOTIFICATIONS_LINK_SECRET must be set to a secure value (min 32 characters) in production',
+    );
+  }
+
+  const emailTransport =
+    (process.env.NOTIFICATIONS_EMAIL_TRANSPORT as EmailTransportType) ?? EmailTransportType.FILE;
+  const smsTransport =
+    (process.env.NOTIFICATIONS_SMS_TRANSPORT as SmsTransportType) ?? SmsTransportType.LOG;
+
+  return {
+    email: {
+      transport: emailTransport,
+      from: process.env.NOTIFICATIONS_EMAIL_FROM ?? 'no-reply@localhost',
+      smtp: {
+        host: process.env.SMTP_HOST ?? 'localhost',
+        port: parsePositiveInt(process.env.SMTP_PORT, 587),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+      },
+    },
+    sms: {
+      transport: smsTransport,
+      gatewayUrl: process.env.SMS_GATEWAY_URL ?? '',
+      apiKey: process.env.SMS_GATEWAY_API_KEY || undefined,
+      sender: process.env.SMS_SENDER ?? 'Appointments',
+    },
+    reminders: {
+      offsetsMinutes: parseHours(process.env.NOTIFICATIONS_REMINDER_OFFSETS_HOURS, [48, 2]).map(
+        (hours) => Math.round(hours * 60),
+      ),
+      confirmUrl:
+        process.env.NOTIFICATIONS_CONFIRM_URL ?? 'http://localhost:3000/fr/appointments/confirm',
+      linkSecret,
+    },
+    outputDir: process.env.NOTIFICATIONS_OUTPUT_DIR ?? 'tmp/notifications',
+    batchSize: parsePositiveInt(process.env.NOTIFICATIONS_BATCH_SIZE, 25),
+    maxAttempts: parsePositiveInt(process.env.NOTIFICATIONS_MAX_ATTEMPTS, 5),
+    retryBaseSeconds: parsePositiveInt(process.env.NOTIFICATIONS_RETRY_BASE_SECONDS, 30),
+  };
+});
@@ -28,7 +28,16 @@ async function bootstrap() {
       origin: corsConfig.origins,
       credentials: corsConfig.credentials,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept'],
+      allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        'X-Requested-With',
+        'Accept',
+        'X-Booking-Challenge',
+        'X-Booking-Solution',
+        'X-Device-Fingerprint',
+        'Idempotency-Key',
+      ],
       exposedHeaders: [
         'X-Total-Count',
         'X-RateLimit-Limit',
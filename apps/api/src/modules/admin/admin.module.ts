@@ -1,8 +1,12 @@
 import { Module } from '@nestjs/common';
 
+import { AppointmentsModule } from '@modules/appointments/appointments.module';
+import { OfficesModule } from '@modules/offices/offices.module';
+import { SchedulingModule } from '@modules/scheduling/scheduling.module';
 import { ServicesModule } from '@modules/services/services.module';
 import { DocumentTemplatesModule } from '@modules/document-templates/document-templates.module';
 import { DocumentUploadsModule } from '@modules/document-uploads/document-uploads.module';
+import { NotificationsModule } from '@modules/notifications/notifications.module';
 
 import { AdminCategoriesController } from './controllers/admin-categories.controller';
 import { AdminServicesController } from './controllers/admin-services.controller';
@@ -11,15 +15,35 @@ import { AdminQueueTicketsController } from './controllers/admin-queue-tickets.c
 import { AdminDocumentTemplatesController } from './controllers/admin-document-templates.controller';
 import { AdminLogsController } from './controllers/admin-logs.controller';
 import { AdminDashboardController } from './controllers/admin-dashboard.controller';
+import { AdminSlotsController } from './controllers/admin-slots.controller';
+import { AdminScheduleTemplatesController } from './controllers/admin-schedule-templates.controller';
+import { AdminClosuresController } from './controllers/admin-closures.controller';
+import { AdminOfficesController } from './controllers/admin-offices.controller';
+import { AdminNotificationTemplatesController } from './controllers/admin-notification-templates.controller';
+import { AdminBookingProtectionController } from './controllers/admin-booking-protection.controller';
 import { AdminServicesService } from './services/admin-services.service';
 import { AdminAppointmentsService } from './services/admin-appointments.service';
 import { AdminQueueTicketsService } from './services/admin-queue-tickets.service';
 import { AdminDocumentTemplatesService } from './services/admin-document-templates.service';
 import { AdminLogsService } from './services/admin-logs.service';
 import { AdminDashboardService } from './services/admin-dashboard.service';
+import { AdminSlotsService } from './services/admin-slots.service';
+import { AdminScheduleTemplatesService } from './services/admin-schedule-templates.service';
+import { AdminClosuresService } from './services/admin-closures.service';
+import { AdminOfficesService } from './services/admin-offices.service';
+import { AdminNotificationTemplatesService } from './services/admin-notification-templates.service';
+import { AdminBookingProtectionService } from './services/admin-booking-protection.service';
 
 @Module({
-  imports: [ServicesModule, DocumentTemplatesModule, DocumentUploadsModule],
+  imports: [
+    AppointmentsModule,
+    OfficesModule,
+    SchedulingModule,
+    ServicesModule,
+    DocumentTemplatesModule,
+    DocumentUploadsModule,
+    NotificationsModule,
+  ],
   controllers: [
     AdminServicesController,
     AdminCategoriesController,
@@ -28,6 +52,12 @@ import { AdminDashboardService } from './services/admin-dashboard.service';
     AdminDocumentTemplatesController,
     AdminLogsController,
     AdminDashboardController,
+    AdminSlotsController,
+    AdminScheduleTemplatesController,
+    AdminClosuresController,
+    AdminOfficesController,
+    AdminNotificationTemplatesController,
+    AdminBookingProtectionController,
   ],
   providers: [
     AdminServicesService,
@@ -36,6 +66,12 @@ import { AdminDashboardService } from './services/admin-dashboard.service';
     AdminDocumentTemplatesService,
     AdminLogsService,
     AdminDashboardService,
+    AdminSlotsService,
+    AdminScheduleTemplatesService,
+    AdminClosuresService,
+    AdminOfficesService,
+    AdminNotificationTemplatesService,
+    AdminBookingProtectionService,
   ],
   exports: [
     AdminServicesService,
@@ -44,6 +80,12 @@ import { AdminDashboardService } from './services/admin-dashboard.service';
     AdminDocumentTemplatesService,
     AdminLogsService,
     AdminDashboardService,
+    AdminSlotsService,
+    AdminScheduleTemplatesService,
+    AdminClosuresService,
+    AdminOfficesService,
+    AdminNotificationTemplatesService,
+    AdminBookingProtectionService,
   ],
 })
 export class AdminModule {}
@@ -7,6 +7,7 @@ import {
   HttpStatus,
   Param,
   Patch,
+  Put,
   Query,
 } from '@nestjs/common';
 import {
@@ -18,10 +19,13 @@ import {
 } from '@nestjs/swagger';
 
 import { ROLE } from '@common/constants/role.constants';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
 import { Roles } from '@common/decorators/roles.decorator';
 import { ResourceIdParamDto } from '@acme/shared-dto';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
 
 import { AdminAppointmentsService } from '../services/admin-appointments.service';
+import { AdminAppointmentDocumentsOverrideDto } from '../dto/admin-appointment-documents-override.dto';
 import { AdminAppointmentsQueryDto } from '../dto/admin-appointments-query.dto';
 import { AdminUpdateAppointmentDto } from '../dto/admin-update-appointment.dto';
 
@@ -53,6 +57,25 @@ export class AdminAppointmentsController {
     return this.adminAppointmentsService.updateAppointment(params.id, dto);
   }
 
+  @Put(':id/documents-override')
+  @ApiOperation({ summary: 'Allow confirming an appointment without its validated documents' })
+  @ApiOkResponse({ description: 'Document override recorded' })
+  overrideDocuments(
+    @Param() params: ResourceIdParamDto,
+    @Body() dto: AdminAppointmentDocumentsOverrideDto,
+    @CurrentUser() admin: AuthenticatedUser,
+  ) {
+    return this.adminAppointmentsService.overrideDocuments(params.id, dto, admin.id);
+  }
+
+  @Delete(':id/documents-override')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Withdraw the document override of an appointment' })
+  @ApiNoContentResponse({ description: 'Document override withdrawn' })
+  clearDocumentsOverride(@Param() params: ResourceIdParamDto) {
+    return this.adminAppointmentsService.clearDocumentsOverride(params.id);
+  }
+
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete an appointment' })
@@ -0,0 +1,47 @@
+import { Body, Controller, Get, Post, Query } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+
+import { ROLE } from '@common/constants/role.constants';
+import { Roles } from '@common/decorators/roles.decorator';
+
+import { AdminBookingProtectionService } from '../services/admin-booking-protection.service';
+import { AdminFlaggedBookingsQueryDto } from '../dto/admin-flagged-bookings-query.dto';
+import {
+  AdminCancelFlaggedBookingsDto,
+  AdminDismissFlaggedBookingsDto,
+} from '../dto/admin-review-flagged-bookings.dto';
+
+@ApiTags('admin-booking-protection')
+@ApiBearerAuth()
+@Controller({ path: 'admin/booking-protection', version: '1' })
+@Roles(ROLE.ADMIN)
+export class AdminBookingProtectionController {
+  constructor(private readonly adminBookingProtectionService: AdminBookingProtectionService) {}
+
+  @Get('flagged')
+  @ApiOperation({ summary: 'List bookings flagged as possible slot hoarding' })
+  @ApiOkResponse({ description: 'Flagged bookings retrieved' })
+  listFlagged(@Query() query: AdminFlaggedBookingsQueryDto) {
+    return this.adminBookingProtectionService.listFlagged(query);
+  }
+
+  @Post('flagged/cancel')
+  @ApiOperation({ summary: 'Cancel flagged bookings and release their seats' })
+  @ApiCreatedResponse({ description: 'Flagged bookings cancelled' })
+  cancelFlagged(@Body() dto: AdminCancelFlaggedBookingsDto) {
+    return this.adminBookingProtectionService.cancelFlagged(dto);
+  }
+
+  @Post('flagged/dismiss')
+  @ApiOperation({ summary: 'Mark flagged bookings as reviewed without cancelling them' })
+  @ApiCreatedResponse({ description: 'Flagged bookings dismissed' })
+  dismissFlagged(@Body() dto: AdminDismissFlaggedBookingsDto) {
+    return this.adminBookingProtectionService.dismissFlagged(dto);
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+
+import { ROLE } from '@common/constants/role.constants';
+import { Roles } from '@common/decorators/roles.decorator';
+import { ResourceIdParamDto } from '@acme/shared-dto';
+
+import { AdminClosuresService } from '../services/admin-closures.service';
+import {
+  AdminClosureCalendarQueryDto,
+  AdminClosuresQueryDto,
+} from '../dto/admin-closures-query.dto';
+import { AdminCreateClosureDto } from '../dto/admin-create-closure.dto';
+import { AdminUpdateClosureDto } from '../dto/admin-update-closure.dto';
+import { AdminCancelClosureAppointmentsDto } from '../dto/admin-cancel-closure-appointments.dto';
+
+@ApiTags('admin-closures')
+@ApiBearerAuth()
+@Controller({ path: 'admin/closures', version: '1' })
+@Roles(ROLE.ADMIN)
+export class AdminClosuresController {
+  constructor(private readonly adminClosuresService: AdminClosuresService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List holidays and office closures entered by admins' })
+  @ApiOkResponse({ description: 'Closures retrieved' })
+  list(@Query() query: AdminClosuresQueryDto) {
+    return this.adminClosuresService.listClosures(query);
+  }
+
+  @Get('calendar')
+  @ApiOperation({ summary: 'Resolve closed days, including fixed public holidays' })
+  @ApiOkResponse({ description: 'Closed days retrieved' })
+  calendar(@Query() query: AdminClosureCalendarQueryDto) {
+    return this.adminClosuresService.getCalendar(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a closure by id' })
+  @ApiOkResponse({ description: 'Closure retrieved' })
+  getById(@Param() params: ResourceIdParamDto) {
+    return this.adminClosuresService.getClosureById(params.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Declare a holiday or office closure' })
+  @ApiCreatedResponse({ description: 'Closure created' })
+  create(@Body() dto: AdminCreateClosureDto) {
+    return this.adminClosuresService.createClosure(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a closure' })
+  @ApiOkResponse({ description: 'Closure updated' })
+  update(@Param() params: ResourceIdParamDto, @Body() dto: AdminUpdateClosureDto) {
+    return this.adminClosuresService.updateClosure(params.id, dto);
+  }
+
+  @Get(':id/appointments')
+  @ApiOperation({ summary: 'List booked appointments falling on the closure' })
+  @ApiOkResponse({ description: 'Affected appointments retrieved' })
+  affectedAppointments(@Param() params: ResourceIdParamDto) {
+    return this.adminClosuresService.listAffectedAppointments(params.id);
+  }
+
+  @Post(':id/cancel-appointments')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel and notify every appointment falling on the closure' })
+  @ApiOkResponse({ description: 'Affected appointments cancelled' })
+  cancelAppointments(
+    @Param() params: ResourceIdParamDto,
+    @Body() dto: AdminCancelClosureAppointmentsDto,
+  ) {
+    return this.adminClosuresService.cancelAffectedAppointments(params.id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a closure' })
+  @ApiNoContentResponse({ description: 'Closure deleted' })
+  remove(@Param() params: ResourceIdParamDto) {
+    return this.adminClosuresService.deleteClosure(params.id);
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+
+import { ROLE } from '@common/constants/role.constants';
+import { Roles } from '@common/decorators/roles.decorator';
+import { ResourceIdParamDto } from '@acme/shared-dto';
+
+import { AdminNotificationTemplatesService } from '../services/admin-notification-templates.service';
+import {
+  AdminCreateNotificationTemplateDto,
+  AdminNotificationTemplateVersionDto,
+} from '../dto/admin-create-notification-template.dto';
+import { AdminNotificationTemplateVersionParamDto } from '../dto/admin-notification-template-version-param.dto';
+import { AdminNotificationTemplatesQueryDto } from '../dto/admin-notification-templates-query.dto';
+import { AdminPreviewNotificationTemplateDto } from '../dto/admin-preview-notification-template.dto';
+
+@ApiTags('admin-notification-templates')
+@ApiBearerAuth()
+@Controller({ path: 'admin/notification-templates', version: '1' })
+@Roles(ROLE.ADMIN)
+export class AdminNotificationTemplatesController {
+  constructor(
+    private readonly adminNotificationTemplatesService: AdminNotificationTemplatesService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List notification templates (admin)' })
+  @ApiOkResponse({ description: 'Notification templates retrieved' })
+  list(@Query() query: AdminNotificationTemplatesQueryDto) {
+    return this.adminNotificationTemplatesService.listTemplates(query);
+  }
+
+  @Get('placeholders')
+  @ApiOperation({ summary: 'List the placeholders available for each notification type' })
+  @ApiOkResponse({ description: 'Placeholders retrieved' })
+  placeholders() {
+    return this.adminNotificationTemplatesService.getPlaceholders();
+  }
+
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Render a notification template with sample values' })
+  @ApiOkResponse({ description: 'Notification template rendered' })
+  preview(@Body() dto: AdminPreviewNotificationTemplateDto) {
+    return this.adminNotificationTemplatesService.previewTemplate(dto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get notification template by ID (admin)' })
+  @ApiOkResponse({ description: 'Notification template retrieved' })
+  getById(@Param() params: ResourceIdParamDto) {
+    return this.adminNotificationTemplatesService.getTemplateById(params.id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a notification template with a draft first version' })
+  @ApiCreatedResponse({ description: 'Notification template created' })
+  create(@Body() dto: AdminCreateNotificationTemplateDto) {
+    return this.adminNotificationTemplatesService.createTemplate(dto);
+  }
+
+  @Post(':id/versions')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a draft version of a notification template' })
+  @ApiCreatedResponse({ description: 'Notification template version created' })
+  createVersion(
+    @Param() params: ResourceIdParamDto,
+    @Body() dto: AdminNotificationTemplateVersionDto,
+  ) {
+    return this.adminNotificationTemplatesService.createVersion(params.id, dto);
+  }
+
+  @Post(':id/versions/:versionId/publish')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Publish a notification template version' })
+  @ApiOkResponse({ description: 'Notification template version published' })
+  publish(@Param() params: AdminNotificationTemplateVersionParamDto) {
+    return this.adminNotificationTemplatesService.publishVersion(params.id, params.versionId);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a notification template' })
+  @ApiNoContentResponse({ description: 'Notification template deleted' })
+  remove(@Param() params: ResourceIdParamDto) {
+    return this.adminNotificationTemplatesService.deleteTemplate(params.id);
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+
+import { ROLE } from '@common/constants/role.constants';
+import { Roles } from '@common/decorators/roles.decorator';
+import { ResourceIdParamDto } from '@acme/shared-dto';
+import { OfficesQueryDto } from '@modules/offices/dto/offices-query.dto';
+
+import { AdminOfficesService } from '../services/admin-offices.service';
+import { AdminCreateOfficeDto } from '../dto/admin-create-office.dto';
+import { AdminUpdateOfficeDto } from '../dto/admin-update-office.dto';
+
+@ApiTags('admin-offices')
+@ApiBearerAuth()
+@Controller({ path: 'admin/offices', version: '1' })
+@Roles(ROLE.ADMIN)
+export class AdminOfficesController {
+  constructor(private readonly adminOfficesService: AdminOfficesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List offices for admin' })
+  @ApiOkResponse({ description: 'Offices retrieved' })
+  list(@Query() query: OfficesQueryDto) {
+    return this.adminOfficesService.listOffices(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get office by id for admin' })
+  @ApiOkResponse({ description: 'Office retrieved' })
+  getById(@Param() params: ResourceIdParamDto) {
+    return this.adminOfficesService.getOfficeById(params.id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create an office' })
+  @ApiCreatedResponse({ description: 'Office created' })
+  create(@Body() dto: AdminCreateOfficeDto) {
+    return this.adminOfficesService.createOffice(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update an office and the services it delivers' })
+  @ApiOkResponse({ description: 'Office updated' })
+  update(@Param() params: ResourceIdParamDto, @Body() dto: AdminUpdateOfficeDto) {
+    return this.adminOfficesService.updateOffice(params.id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an office without upcoming appointments' })
+  @ApiNoContentResponse({ description: 'Office deleted' })
+  remove(@Param() params: ResourceIdParamDto) {
+    return this.adminOfficesService.deleteOffice(params.id);
+  }
+}
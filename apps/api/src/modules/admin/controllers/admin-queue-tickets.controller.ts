@@ -7,6 +7,7 @@ import {
   HttpStatus,
   Param,
   Patch,
+  Put,
   Query,
 } from '@nestjs/common';
 import {
@@ -18,12 +19,19 @@ import {
 } from '@nestjs/swagger';
 
 import { ROLE } from '@common/constants/role.constants';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
 import { Roles } from '@common/decorators/roles.decorator';
 import { ResourceIdParamDto } from '@acme/shared-dto';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
 
 import { AdminQueueTicketsService } from '../services/admin-queue-tickets.service';
 import { AdminQueueTicketsQueryDto } from '../dto/admin-queue-tickets-query.dto';
 import { AdminUpdateQueueTicketDto } from '../dto/admin-update-queue-ticket.dto';
+import {
+  AdminQueuePriorityClassParamDto,
+  AdminSetQueuePriorityDto,
+  AdminUpdateQueuePriorityRuleDto,
+} from '../dto/admin-queue-priority.dto';
 
 @ApiTags('admin-queue-tickets')
 @ApiBearerAuth()
@@ -39,6 +47,23 @@ export class AdminQueueTicketsController {
     return this.adminQueueTicketsService.listQueueTickets(query);
   }
 
+  @Get('priority-rules')
+  @ApiOperation({ summary: 'List the proof and ordering rules of each priority class' })
+  @ApiOkResponse({ description: 'Priority rules retrieved' })
+  listPriorityRules() {
+    return this.adminQueueTicketsService.listPriorityRules();
+  }
+
+  @Put('priority-rules/:priorityClass')
+  @ApiOperation({ summary: 'Configure the proof and ordering rules of a priority class' })
+  @ApiOkResponse({ description: 'Priority rule updated' })
+  updatePriorityRule(
+    @Param() params: AdminQueuePriorityClassParamDto,
+    @Body() dto: AdminUpdateQueuePriorityRuleDto,
+  ) {
+    return this.adminQueueTicketsService.updatePriorityRule(params.priorityClass, dto);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get queue ticket by id for admin' })
   @ApiOkResponse({ description: 'Queue ticket retrieved' })
@@ -53,6 +78,24 @@ export class AdminQueueTicketsController {
     return this.adminQueueTicketsService.updateQueueTicket(params.id, dto);
   }
 
+  @Put(':id/priority')
+  @ApiOperation({ summary: 'Grant or revoke the priority of a queue ticket' })
+  @ApiOkResponse({ description: 'Queue ticket priority updated' })
+  setPriority(
+    @Param() params: ResourceIdParamDto,
+    @Body() dto: AdminSetQueuePriorityDto,
+    @CurrentUser() admin: AuthenticatedUser,
+  ) {
+    return this.adminQueueTicketsService.setQueueTicketPriority(params.id, dto, admin.id);
+  }
+
+  @Get(':id/priority-history')
+  @ApiOperation({ summary: 'List the priority grants and revocations of a queue ticket' })
+  @ApiOkResponse({ description: 'Priority history retrieved' })
+  getPriorityHistory(@Param() params: ResourceIdParamDto) {
+    return this.adminQueueTicketsService.getQueueTicketPriorityHistory(params.id);
+  }
+
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete a queue ticket' })
@@ -0,0 +1,89 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+
+import { ROLE } from '@common/constants/role.constants';
+import { Roles } from '@common/decorators/roles.decorator';
+import { ResourceIdParamDto } from '@acme/shared-dto';
+
+import { AdminScheduleTemplatesService } from '../services/admin-schedule-templates.service';
+import { AdminScheduleTemplatesQueryDto } from '../dto/admin-schedule-templates-query.dto';
+import { AdminCreateScheduleTemplateDto } from '../dto/admin-create-schedule-template.dto';
+import { AdminUpdateScheduleTemplateDto } from '../dto/admin-update-schedule-template.dto';
+
+@ApiTags('admin-schedule-templates')
+@ApiBearerAuth()
+@Controller({ path: 'admin/schedule-templates', version: '1' })
+@Roles(ROLE.ADMIN)
+export class AdminScheduleTemplatesController {
+  constructor(private readonly adminScheduleTemplatesService: AdminScheduleTemplatesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List weekly schedule templates' })
+  @ApiOkResponse({ description: 'Schedule templates retrieved' })
+  list(@Query() query: AdminScheduleTemplatesQueryDto) {
+    return this.adminScheduleTemplatesService.listTemplates(query);
+  }
+
+  @Post('generate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Regenerate slots for every active schedule template' })
+  @ApiOkResponse({ description: 'Slots generated' })
+  generateAll() {
+    return this.adminScheduleTemplatesService.generateAllSlots();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a schedule template by id' })
+  @ApiOkResponse({ description: 'Schedule template retrieved' })
+  getById(@Param() params: ResourceIdParamDto) {
+    return this.adminScheduleTemplatesService.getTemplateById(params.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a schedule template and generate its slots' })
+  @ApiCreatedResponse({ description: 'Schedule template created' })
+  create(@Body() dto: AdminCreateScheduleTemplateDto) {
+    return this.adminScheduleTemplatesService.createTemplate(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a schedule template and regenerate its slots' })
+  @ApiOkResponse({ description: 'Schedule template updated' })
+  update(@Param() params: ResourceIdParamDto, @Body() dto: AdminUpdateScheduleTemplateDto) {
+    return this.adminScheduleTemplatesService.updateTemplate(params.id, dto);
+  }
+
+  @Post(':id/generate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Regenerate slots for a schedule template' })
+  @ApiOkResponse({ description: 'Slots generated' })
+  generate(@Param() params: ResourceIdParamDto) {
+    return this.adminScheduleTemplatesService.generateTemplateSlots(params.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a schedule template and its unbooked future slots' })
+  @ApiNoContentResponse({ description: 'Schedule template deleted' })
+  remove(@Param() params: ResourceIdParamDto) {
+    return this.adminScheduleTemplatesService.deleteTemplate(params.id);
+  }
+}
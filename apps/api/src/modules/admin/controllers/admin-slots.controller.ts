@@ -0,0 +1,82 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+
+import { ROLE } from '@common/constants/role.constants';
+import { Roles } from '@common/decorators/roles.decorator';
+import { ResourceIdParamDto } from '@acme/shared-dto';
+
+import { AdminSlotsService } from '../services/admin-slots.service';
+import { AdminSlotsQueryDto } from '../dto/admin-slots-query.dto';
+import { AdminCreateSlotDto } from '../dto/admin-create-slot.dto';
+import { AdminUpdateSlotDto } from '../dto/admin-update-slot.dto';
+import { AdminCancelSlotDto } from '../dto/admin-cancel-slot.dto';
+
+@ApiTags('admin-slots')
+@ApiBearerAuth()
+@Controller({ path: 'admin/slots', version: '1' })
+@Roles(ROLE.ADMIN)
+export class AdminSlotsController {
+  constructor(private readonly adminSlotsService: AdminSlotsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List appointment slots with filters for admin' })
+  @ApiOkResponse({ description: 'Slots retrieved' })
+  list(@Query() query: AdminSlotsQueryDto) {
+    return this.adminSlotsService.listSlots(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get appointment slot by id for admin' })
+  @ApiOkResponse({ description: 'Slot retrieved' })
+  getById(@Param() params: ResourceIdParamDto) {
+    return this.adminSlotsService.getSlotById(params.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create an appointment slot' })
+  @ApiCreatedResponse({ description: 'Slot created' })
+  create(@Body() dto: AdminCreateSlotDto) {
+    return this.adminSlotsService.createSlot(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update slot timing, capacity or buffers' })
+  @ApiOkResponse({ description: 'Slot updated' })
+  update(@Param() params: ResourceIdParamDto, @Body() dto: AdminUpdateSlotDto) {
+    return this.adminSlotsService.updateSlot(params.id, dto);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a slot along with its appointments and queue tickets' })
+  @ApiOkResponse({ description: 'Slot cancelled' })
+  cancel(@Param() params: ResourceIdParamDto, @Body() dto: AdminCancelSlotDto) {
+    return this.adminSlotsService.cancelSlot(params.id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a slot without active bookings' })
+  @ApiNoContentResponse({ description: 'Slot deleted' })
+  remove(@Param() params: ResourceIdParamDto) {
+    return this.adminSlotsService.deleteSlot(params.id);
+  }
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class AdminAppointmentDocumentsOverrideDto {
+  @ApiProperty({
+    description: 'Why the appointment can be confirmed without its validated documents',
+    example: 'Original birth certificate checked at the counter.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason!: string;
+}
@@ -15,6 +15,11 @@ export class AdminAppointmentsQueryDto extends PaginationQueryDto {
   @IsUUID('4')
   serviceId?: string;
 
+  @ApiPropertyOptional({ description: 'Filter by assigned specialist ID' })
+  @IsOptional()
+  @IsUUID('4')
+  specialistId?: string;
+
   @ApiPropertyOptional({
     enum: AppointmentStatus,
     description: 'Filter by appointment status',
@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class AdminCancelClosureAppointmentsDto {
+  @ApiPropertyOptional({
+    description: 'Reason sent to the affected users',
+    example: 'The office is closed for Aïd el-Fitr.',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class AdminCancelSlotDto {
+  @ApiPropertyOptional({
+    description: 'Reason recorded on the cancelled appointments and queue tickets',
+    example: 'Office closed for maintenance',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason?: string;
+}
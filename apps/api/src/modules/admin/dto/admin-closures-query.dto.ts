@@ -0,0 +1,54 @@
+import { IsEnum, IsISO8601, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+import { PaginationQueryDto } from '@acme/shared-dto';
+import { ClosureType } from '@prisma/client';
+
+export class AdminClosuresQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: ClosureType, description: 'Filter by closure type' })
+  @IsOptional()
+  @IsEnum(ClosureType)
+  type?: ClosureType;
+
+  @ApiPropertyOptional({ description: 'Filter by service ID' })
+  @IsOptional()
+  @IsUUID('4')
+  serviceId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by office ID' })
+  @IsOptional()
+  @IsUUID('4')
+  officeId?: string;
+
+  @ApiPropertyOptional({ description: 'Closures ending on or after this date (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Closures starting on or before this date (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+}
+
+export class AdminClosureCalendarQueryDto {
+  @ApiPropertyOptional({ description: 'Start of the calendar window (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'End of the calendar window (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Only include closures affecting this service' })
+  @IsOptional()
+  @IsUUID('4')
+  serviceId?: string;
+
+  @ApiPropertyOptional({ description: 'Only include closures affecting this office' })
+  @IsOptional()
+  @IsUUID('4')
+  officeId?: string;
+}
@@ -0,0 +1,61 @@
+import { AppointmentStatus, ClosureType } from '@prisma/client';
+
+interface PaginationMetaDto {
+  page: number;
+  limit: number;
+  total: number;
+}
+
+export interface AdminClosureDto {
+  id: string;
+  type: ClosureType;
+  name: string;
+  startDate: string;
+  endDate: string;
+  serviceId: string | null;
+  officeId: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminClosureListResponseDto {
+  data: AdminClosureDto[];
+  meta: PaginationMetaDto;
+}
+
+export interface AdminClosureDetailResponseDto {
+  data: AdminClosureDto;
+  affectedAppointments: number;
+}
+
+export interface AdminClosedDayDto {
+  date: string;
+  name: string;
+  type: ClosureType;
+  closureId: string | null;
+  serviceId: string | null;
+  officeId: string | null;
+}
+
+export interface AdminClosureCalendarResponseDto {
+  data: AdminClosedDayDto[];
+}
+
+export interface AdminClosureAffectedAppointmentDto {
+  id: string;
+  userId: string;
+  serviceId: string;
+  slotId: string | null;
+  status: AppointmentStatus;
+  scheduledAt: string;
+  timezone: string;
+}
+
+export interface AdminClosureAffectedAppointmentsResponseDto {
+  data: AdminClosureAffectedAppointmentDto[];
+}
+
+export interface AdminCancelClosureAppointmentsResponseDto {
+  cancelled: number;
+}
@@ -0,0 +1,57 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+import { ClosureType } from '@prisma/client';
+
+export class AdminCreateClosureDto {
+  @ApiProperty({ enum: ClosureType, example: ClosureType.RELIGIOUS_HOLIDAY })
+  @IsEnum(ClosureType)
+  type!: ClosureType;
+
+  @ApiProperty({ example: 'Aïd el-Fitr' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name!: string;
+
+  @ApiProperty({ description: 'First closed day (YYYY-MM-DD)', example: '2025-03-31' })
+  @IsISO8601({ strict: true })
+  startDate!: string;
+
+  @ApiPropertyOptional({
+    description: 'Last closed day (YYYY-MM-DD); defaults to the start date',
+    example: '2025-04-01',
+  })
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  endDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Restrict the closure to a single service; omit to close every service',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  serviceId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Restrict the closure to a single office; omit to close every office',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  officeId?: string;
+
+  @ApiPropertyOptional({ description: 'Internal notes about the closure' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
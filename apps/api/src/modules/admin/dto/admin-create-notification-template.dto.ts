@@ -0,0 +1,50 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NotificationChannel } from '@prisma/client';
+import { IsEnum, IsIn, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+import {
+  NOTIFICATION_EVENT_TYPES,
+  NOTIFICATION_LOCALES,
+  NotificationEventType,
+  NotificationLocale,
+} from '@modules/notifications/notification-placeholders';
+
+export class AdminNotificationTemplateVersionDto {
+  @ApiPropertyOptional({
+    example: 'Rendez-vous confirmé : {{serviceName}}',
+    description: 'Required for email templates',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  subject?: string;
+
+  @ApiProperty({ example: 'Bonjour {{firstName}}, votre rendez-vous est fixé le {{date}}.' })
+  @IsString()
+  @IsNotEmpty()
+  body!: string;
+
+  @ApiPropertyOptional({ example: 'Mention the office address' })
+  @IsOptional()
+  @IsString()
+  changeLog?: string;
+}
+
+export class AdminCreateNotificationTemplateDto extends AdminNotificationTemplateVersionDto {
+  @ApiProperty({ enum: NOTIFICATION_EVENT_TYPES, example: 'appointment.booked' })
+  @IsIn(NOTIFICATION_EVENT_TYPES)
+  type!: NotificationEventType;
+
+  @ApiProperty({ enum: NotificationChannel })
+  @IsEnum(NotificationChannel)
+  channel!: NotificationChannel;
+
+  @ApiProperty({ enum: NOTIFICATION_LOCALES, example: 'fr' })
+  @IsIn(NOTIFICATION_LOCALES)
+  locale!: NotificationLocale;
+
+  @ApiPropertyOptional({ example: 'Booking confirmation sent by email' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
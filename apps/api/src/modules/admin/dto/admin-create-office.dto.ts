@@ -0,0 +1,3 @@
+import { CreateOfficeDto } from '@modules/offices/dto/create-office.dto';
+
+export class AdminCreateOfficeDto extends CreateOfficeDto {}
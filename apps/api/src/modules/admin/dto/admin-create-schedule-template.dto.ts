@@ -0,0 +1,136 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export class AdminCreateScheduleTemplateDto {
+  @ApiProperty({ description: 'Service the generated slots belong to', format: 'uuid' })
+  @IsUUID('4')
+  serviceId!: string;
+
+  @ApiPropertyOptional({
+    description: 'Office the generated slots are held at',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  officeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Specialist assigned to the generated slots',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  specialistId?: string;
+
+  @ApiProperty({ example: 'Daïra opening hours' })
+  @IsString()
+  @IsNotEmpty()
+  name!: string;
+
+  @ApiProperty({ example: 'Africa/Algiers' })
+  @IsString()
+  @IsNotEmpty()
+  timezone!: string;
+
+  @ApiProperty({
+    description: 'ISO days of week the office is open (1 = Monday, 7 = Sunday)',
+    example: [7, 1, 2, 3, 4],
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(7)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(7, { each: true })
+  daysOfWeek!: number[];
+
+  @ApiProperty({ example: '08:00' })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'openTime must use the HH:mm format' })
+  openTime!: string;
+
+  @ApiProperty({ example: '16:00' })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'closeTime must use the HH:mm format' })
+  closeTime!: string;
+
+  @ApiPropertyOptional({ example: '12:00' })
+  @IsOptional()
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'breakStartTime must use the HH:mm format' })
+  breakStartTime?: string;
+
+  @ApiPropertyOptional({ example: '13:00' })
+  @IsOptional()
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'breakEndTime must use the HH:mm format' })
+  breakEndTime?: string;
+
+  @ApiPropertyOptional({
+    description: 'Minutes between slot starts; defaults to the service duration plus buffers',
+    example: 30,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(480)
+  intervalMinutes?: number;
+
+  @ApiPropertyOptional({ example: 1, default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  capacity?: number;
+
+  @ApiPropertyOptional({ example: 0, default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  bufferBeforeMinutes?: number;
+
+  @ApiPropertyOptional({ example: 0, default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  bufferAfterMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Rolling horizon in days', example: 28, default: 28 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(180)
+  horizonDays?: number;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  @IsOptional()
+  @IsDateString()
+  validTo?: string;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class AdminCreateSlotDto {
+  @ApiProperty({ description: 'Service the slot belongs to', format: 'uuid' })
+  @IsUUID('4')
+  serviceId!: string;
+
+  @ApiPropertyOptional({ description: 'Office where the slot takes place', format: 'uuid' })
+  @IsOptional()
+  @IsUUID('4')
+  officeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Specialist who handles the appointments booked on this slot',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  specialistId?: string;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  @IsDateString()
+  startAt!: string;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  @IsDateString()
+  endAt!: string;
+
+  @ApiProperty({ example: 'Africa/Algiers' })
+  @IsString()
+  @IsNotEmpty()
+  timezone!: string;
+
+  @ApiPropertyOptional({ example: 1, default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  capacity?: number;
+
+  @ApiPropertyOptional({ example: 0, default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  bufferBeforeMinutes?: number;
+
+  @ApiPropertyOptional({ example: 0, default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  bufferAfterMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Optional notes attached to the slot' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  notes?: string;
+
+  @ApiPropertyOptional({ type: 'object' })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, unknown>;
+}
@@ -0,0 +1,29 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+import { PaginationQueryDto } from '@acme/shared-dto';
+import { BookingAttemptKind, BookingRiskFlag } from '@prisma/client';
+
+export class AdminFlaggedBookingsQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: BookingRiskFlag, description: 'Filter by risk flag' })
+  @IsOptional()
+  @IsEnum(BookingRiskFlag)
+  flag?: BookingRiskFlag;
+
+  @ApiPropertyOptional({ enum: BookingAttemptKind, description: 'Filter by booking kind' })
+  @IsOptional()
+  @IsEnum(BookingAttemptKind)
+  kind?: BookingAttemptKind;
+
+  @ApiPropertyOptional({ description: 'Filter by service ID' })
+  @IsOptional()
+  @IsUUID('4')
+  serviceId?: string;
+
+  @ApiPropertyOptional({ description: 'Include bookings already reviewed', default: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeReviewed?: boolean;
+}
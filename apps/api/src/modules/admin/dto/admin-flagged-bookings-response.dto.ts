@@ -0,0 +1,56 @@
+import {
+  AppointmentStatus,
+  BookingAttemptKind,
+  BookingRiskFlag,
+  QueueTicketStatus,
+} from '@prisma/client';
+
+interface PaginationMetaDto {
+  page: number;
+  limit: number;
+  total: number;
+}
+
+export interface AdminFlaggedBookingDto {
+  id: string;
+  kind: BookingAttemptKind;
+  flags: BookingRiskFlag[];
+  ipAddress: string | null;
+  fingerprint: string | null;
+  createdAt: string;
+  reviewedAt: string | null;
+  user: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+  };
+  service: {
+    id: string;
+    slug: string;
+  } | null;
+  appointment: {
+    id: string;
+    status: AppointmentStatus;
+    scheduledAt: string;
+  } | null;
+  queueTicket: {
+    id: string;
+    status: QueueTicketStatus;
+    position: number;
+  } | null;
+}
+
+export interface AdminFlaggedBookingListResponseDto {
+  data: AdminFlaggedBookingDto[];
+  meta: PaginationMetaDto;
+}
+
+export interface AdminCancelFlaggedBookingsResponseDto {
+  cancelledAppointments: number;
+  cancelledQueueTickets: number;
+}
+
+export interface AdminDismissFlaggedBookingsResponseDto {
+  reviewed: number;
+}
@@ -55,5 +55,5 @@ export class AdminDocumentVerificationLogsQueryDto extends PaginationQueryDto {
   @IsOptional()
   @IsString()
   @Transform(({ value }) => (value ? value.trim() : value))
-  logType?: 'status' | 'validation';
+  logType?: 'status' | 'validation' | 'verification';
 }
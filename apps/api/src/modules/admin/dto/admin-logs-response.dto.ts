@@ -1,4 +1,8 @@
-import { ConversationParticipant, DocumentUploadStatus } from '@prisma/client';
+import {
+  ConversationParticipant,
+  DocumentUploadStatus,
+  DocumentVerificationLogLevel,
+} from '@prisma/client';
 
 interface PaginationMetaDto {
   page: number;
@@ -46,9 +50,24 @@ export interface AdminDocumentValidationLogEntryDto {
   type: 'validation';
 }
 
+export interface AdminDocumentPipelineLogEntryDto {
+  id: string;
+  verificationId: string;
+  uploadId: string | null;
+  userId: string | null;
+  docType: string;
+  stage: string;
+  severity: DocumentVerificationLogLevel;
+  message: string;
+  metadata: unknown | null;
+  createdAt: string;
+  type: 'verification';
+}
+
 export type AdminDocumentVerificationLogEntryDto =
   | AdminDocumentStatusLogEntryDto
-  | AdminDocumentValidationLogEntryDto;
+  | AdminDocumentValidationLogEntryDto
+  | AdminDocumentPipelineLogEntryDto;
 
 export interface AdminDocumentVerificationLogsResponseDto {
   data: AdminDocumentVerificationLogEntryDto[];
@@ -0,0 +1,8 @@
+import { IsUUID } from 'class-validator';
+
+import { ResourceIdParamDto } from '@acme/shared-dto';
+
+export class AdminNotificationTemplateVersionParamDto extends ResourceIdParamDto {
+  @IsUUID('4')
+  versionId!: string;
+}
@@ -0,0 +1,28 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { NotificationChannel } from '@prisma/client';
+import { IsEnum, IsIn, IsOptional } from 'class-validator';
+
+import { PaginationQueryDto } from '@acme/shared-dto';
+import {
+  NOTIFICATION_EVENT_TYPES,
+  NOTIFICATION_LOCALES,
+  NotificationEventType,
+  NotificationLocale,
+} from '@modules/notifications/notification-placeholders';
+
+export class AdminNotificationTemplatesQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: NOTIFICATION_EVENT_TYPES, description: 'Filter by event type' })
+  @IsOptional()
+  @IsIn(NOTIFICATION_EVENT_TYPES)
+  type?: NotificationEventType;
+
+  @ApiPropertyOptional({ enum: NotificationChannel, description: 'Filter by channel' })
+  @IsOptional()
+  @IsEnum(NotificationChannel)
+  channel?: NotificationChannel;
+
+  @ApiPropertyOptional({ enum: NOTIFICATION_LOCALES, description: 'Filter by locale' })
+  @IsOptional()
+  @IsIn(NOTIFICATION_LOCALES)
+  locale?: NotificationLocale;
+}
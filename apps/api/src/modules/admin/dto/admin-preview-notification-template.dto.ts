@@ -0,0 +1,42 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NotificationChannel } from '@prisma/client';
+import { IsEnum, IsIn, IsNotEmpty, IsObject, IsOptional, IsString } from 'class-validator';
+
+import {
+  NOTIFICATION_EVENT_TYPES,
+  NOTIFICATION_LOCALES,
+  NotificationEventType,
+  NotificationLocale,
+} from '@modules/notifications/notification-placeholders';
+
+export class AdminPreviewNotificationTemplateDto {
+  @ApiProperty({ enum: NOTIFICATION_EVENT_TYPES, example: 'appointment.booked' })
+  @IsIn(NOTIFICATION_EVENT_TYPES)
+  type!: NotificationEventType;
+
+  @ApiProperty({ enum: NotificationChannel })
+  @IsEnum(NotificationChannel)
+  channel!: NotificationChannel;
+
+  @ApiProperty({ enum: NOTIFICATION_LOCALES, example: 'ar' })
+  @IsIn(NOTIFICATION_LOCALES)
+  locale!: NotificationLocale;
+
+  @ApiPropertyOptional({ example: 'تأكيد الموعد: {{serviceName}}' })
+  @IsOptional()
+  @IsString()
+  subject?: string;
+
+  @ApiProperty({ example: 'مرحبًا {{firstName}}، موعدكم يوم {{date}} على الساعة {{time}}.' })
+  @IsString()
+  @IsNotEmpty()
+  body!: string;
+
+  @ApiPropertyOptional({
+    type: 'object',
+    description: 'Placeholder values overriding the sample values',
+  })
+  @IsOptional()
+  @IsObject()
+  values?: Record<string, string>;
+}
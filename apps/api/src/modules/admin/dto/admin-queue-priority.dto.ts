@@ -0,0 +1,78 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+import { QueuePriorityClass } from '@prisma/client';
+
+export const ADMIN_CONFIGURABLE_PRIORITY_CLASSES = Object.values(QueuePriorityClass).filter(
+  (priorityClass) => priorityClass !== QueuePriorityClass.STANDARD,
+);
+
+export class AdminSetQueuePriorityDto {
+  @ApiProperty({
+    enum: QueuePriorityClass,
+    description: 'Lane to serve the ticket in; STANDARD revokes any priority',
+  })
+  @IsEnum(QueuePriorityClass)
+  priorityClass!: QueuePriorityClass;
+
+  @ApiPropertyOptional({
+    description: 'Why priority was granted or revoked, kept in the audit trail',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class AdminQueuePriorityClassParamDto {
+  @ApiProperty({ enum: ADMIN_CONFIGURABLE_PRIORITY_CLASSES })
+  @IsIn(ADMIN_CONFIGURABLE_PRIORITY_CLASSES)
+  priorityClass!: QueuePriorityClass;
+}
+
+export class AdminUpdateQueuePriorityRuleDto {
+  @ApiPropertyOptional({
+    description: 'How much earlier than their arrival tickets of the class are queued',
+    minimum: 0,
+    maximum: 480,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(480)
+  leadMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Whether a claim must be backed by a proof document' })
+  @IsOptional()
+  @IsBoolean()
+  requiresProof?: boolean;
+
+  @ApiPropertyOptional({
+    format: 'uuid',
+    nullable: true,
+    description: 'Document template proof uploads must be filed under; null accepts any upload',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  proofTemplateId?: string | null;
+
+  @ApiPropertyOptional({ description: 'Whether clients can claim the class' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -1,8 +1,9 @@
-import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { IsBoolean, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { Transform } from 'class-transformer';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 
 import { PaginationQueryDto } from '@acme/shared-dto';
-import { QueueTicketStatus } from '@prisma/client';
+import { QueuePriorityClass, QueueTicketStatus } from '@prisma/client';
 
 export class AdminQueueTicketsQueryDto extends PaginationQueryDto {
   @ApiPropertyOptional({ description: 'Filter by user ID' })
@@ -22,4 +23,20 @@ export class AdminQueueTicketsQueryDto extends PaginationQueryDto {
   @IsOptional()
   @IsEnum(QueueTicketStatus)
   status?: QueueTicketStatus;
+
+  @ApiPropertyOptional({
+    enum: QueuePriorityClass,
+    description: 'Filter by granted priority class',
+  })
+  @IsOptional()
+  @IsEnum(QueuePriorityClass)
+  priorityClass?: QueuePriorityClass;
+
+  @ApiPropertyOptional({
+    description: 'Only tickets whose priority claim awaits verification',
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  priorityPending?: boolean;
 }
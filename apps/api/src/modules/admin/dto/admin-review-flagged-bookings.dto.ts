@@ -0,0 +1,32 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+export class AdminDismissFlaggedBookingsDto {
+  @ApiProperty({ type: [String], description: 'Flagged booking attempts to review' })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsUUID('4', { each: true })
+  attemptIds!: string[];
+}
+
+export class AdminCancelFlaggedBookingsDto extends AdminDismissFlaggedBookingsDto {
+  @ApiPropertyOptional({
+    description: 'Reason sent to the affected users',
+    example: 'Your booking was cancelled because it breaches the fair use policy.',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason?: string;
+}
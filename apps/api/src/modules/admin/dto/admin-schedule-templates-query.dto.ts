@@ -0,0 +1,39 @@
+import { IsBoolean, IsOptional, IsUUID } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+import { PaginationQueryDto } from '@acme/shared-dto';
+
+export class AdminScheduleTemplatesQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by service ID' })
+  @IsOptional()
+  @IsUUID('4')
+  serviceId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by office ID' })
+  @IsOptional()
+  @IsUUID('4')
+  officeId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by specialist ID' })
+  @IsOptional()
+  @IsUUID('4')
+  specialistId?: string;
+
+  @ApiPropertyOptional({ example: true, description: 'Filter by active flag' })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      const normalized = value.trim().toLowerCase();
+      if (normalized === 'true') {
+        return true;
+      }
+      if (normalized === 'false') {
+        return false;
+      }
+    }
+    return value;
+  })
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,49 @@
+interface PaginationMetaDto {
+  page: number;
+  limit: number;
+  total: number;
+}
+
+export interface AdminScheduleTemplateDto {
+  id: string;
+  serviceId: string;
+  officeId: string | null;
+  specialistId: string | null;
+  name: string;
+  timezone: string;
+  daysOfWeek: number[];
+  openTime: string;
+  closeTime: string;
+  breakStartTime: string | null;
+  breakEndTime: string | null;
+  intervalMinutes: number | null;
+  capacity: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  horizonDays: number;
+  validFrom: string | null;
+  validTo: string | null;
+  isActive: boolean;
+  lastGeneratedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminScheduleTemplateListResponseDto {
+  data: AdminScheduleTemplateDto[];
+  meta: PaginationMetaDto;
+}
+
+export interface AdminScheduleTemplateDetailResponseDto {
+  data: AdminScheduleTemplateDto;
+}
+
+export interface AdminSlotGenerationResponseDto {
+  data: {
+    templateId: string;
+    created: number;
+    updated: number;
+    removed: number;
+    preserved: number;
+  }[];
+}
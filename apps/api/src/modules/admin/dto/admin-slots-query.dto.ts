@@ -0,0 +1,40 @@
+import { IsEnum, IsISO8601, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+import { PaginationQueryDto } from '@acme/shared-dto';
+import { AppointmentSlotStatus } from '@prisma/client';
+
+export class AdminSlotsQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by service ID' })
+  @IsOptional()
+  @IsUUID('4')
+  serviceId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by office ID' })
+  @IsOptional()
+  @IsUUID('4')
+  officeId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by specialist ID' })
+  @IsOptional()
+  @IsUUID('4')
+  specialistId?: string;
+
+  @ApiPropertyOptional({
+    enum: AppointmentSlotStatus,
+    description: 'Filter by slot status',
+  })
+  @IsOptional()
+  @IsEnum(AppointmentSlotStatus)
+  status?: AppointmentSlotStatus;
+
+  @ApiPropertyOptional({ description: 'Filter slots starting from this date (ISO 8601)' })
+  @IsOptional()
+  @IsISO8601()
+  startFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Filter slots starting until this date (ISO 8601)' })
+  @IsOptional()
+  @IsISO8601()
+  startTo?: string;
+}
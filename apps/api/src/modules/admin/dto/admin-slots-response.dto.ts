@@ -0,0 +1,43 @@
+import { AppointmentSlotStatus } from '@prisma/client';
+
+interface PaginationMetaDto {
+  page: number;
+  limit: number;
+  total: number;
+}
+
+export interface AdminSlotDto {
+  id: string;
+  serviceId: string;
+  officeId: string | null;
+  specialistId: string | null;
+  startAt: string;
+  endAt: string;
+  timezone: string;
+  capacity: number;
+  bookedCount: number;
+  available: number;
+  queueLength: number;
+  status: AppointmentSlotStatus;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  notes: string | null;
+  metadata: unknown | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminSlotListResponseDto {
+  data: AdminSlotDto[];
+  meta: PaginationMetaDto;
+}
+
+export interface AdminSlotDetailResponseDto {
+  data: AdminSlotDto;
+}
+
+export interface AdminCancelSlotResponseDto {
+  data: AdminSlotDto;
+  cancelledAppointments: number;
+  cancelledQueueTickets: number;
+}
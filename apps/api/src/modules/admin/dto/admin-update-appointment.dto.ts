@@ -17,6 +17,15 @@ export class AdminUpdateAppointmentDto {
   @IsUUID('4')
   slotId?: string;
 
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    description: 'Assign the appointment to a specialist, or null to unassign it',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  specialistId?: string | null;
+
   @ApiPropertyOptional({ description: 'Additional notes about the appointment' })
   @IsOptional()
   @IsString()
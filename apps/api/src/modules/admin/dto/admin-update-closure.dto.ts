@@ -0,0 +1,5 @@
+import { PartialType } from '@nestjs/swagger';
+
+import { AdminCreateClosureDto } from './admin-create-closure.dto';
+
+export class AdminUpdateClosureDto extends PartialType(AdminCreateClosureDto) {}
@@ -0,0 +1,3 @@
+import { UpdateOfficeDto } from '@modules/offices/dto/update-office.dto';
+
+export class AdminUpdateOfficeDto extends UpdateOfficeDto {}
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+
+import { AdminCreateScheduleTemplateDto } from './admin-create-schedule-template.dto';
+
+export class AdminUpdateScheduleTemplateDto extends PartialType(
+  OmitType(AdminCreateScheduleTemplateDto, ['serviceId'] as const),
+) {}
@@ -0,0 +1,77 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class AdminUpdateSlotDto {
+  @ApiPropertyOptional({
+    description: 'Office where the slot takes place; cannot change once booked',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  officeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Specialist for future bookings; existing appointments keep their assignee',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  specialistId?: string;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  @IsOptional()
+  @IsDateString()
+  startAt?: string;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  @IsOptional()
+  @IsDateString()
+  endAt?: string;
+
+  @ApiPropertyOptional({ example: 'Africa/Algiers' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  timezone?: string;
+
+  @ApiPropertyOptional({ description: 'Cannot be lower than the number of active bookings' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  capacity?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  bufferBeforeMinutes?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  bufferAfterMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Optional notes attached to the slot' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @ApiPropertyOptional({ type: 'object' })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, unknown>;
+}
@@ -1,8 +1,20 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { NotFoundException } from '@nestjs/common';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
 
 import { PrismaService } from '@prisma/prisma.service';
-import { AppointmentStatus, AppointmentSlotStatus } from '@prisma/client';
+import {
+  AppointmentDocumentsIncompleteException,
+  AppointmentDocumentsService,
+} from '@modules/appointments/appointment-documents.service';
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
+import { AppointmentsService } from '@modules/appointments/appointments.service';
+import { SpecialistAssignmentsService } from '@modules/appointments/specialist-assignments.service';
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
+import {
+  AppointmentStatus,
+  AppointmentStatusEventType,
+  AppointmentSlotStatus,
+} from '@prisma/client';
 
 import { AdminAppointmentsService } from './admin-appointments.service';
 
@@ -25,23 +37,66 @@ describe('AdminAppointmentsService', () => {
     appointmentStatusHistory: {
       create: jest.fn(),
     },
+    user: {
+      findUnique: jest.fn(),
+    },
     $transaction: jest.fn((callback) => callback(mockPrismaService)),
   };
 
+  const mockReminders = {
+    sync: jest.fn(),
+    cancel: jest.fn(),
+  };
+
+  const mockDocuments = {
+    getChecklist: jest.fn(),
+    assertCanConfirm: jest.fn(),
+    recordOverride: jest.fn(),
+    clearOverride: jest.fn(),
+  };
+
+  const mockAppointmentsService = {
+    countOccupiedSeats: jest.fn(),
+  };
+
+  const mockWaitlist = {
+    offerFreedSeats: jest.fn(),
+    publishBoards: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AdminAppointmentsService,
+        SpecialistAssignmentsService,
         {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: AppointmentRemindersService,
+          useValue: mockReminders,
+        },
+        {
+          provide: AppointmentDocumentsService,
+          useValue: mockDocuments,
+        },
+        {
+          provide: AppointmentsService,
+          useValue: mockAppointmentsService,
+        },
+        {
+          provide: WaitlistPromotionService,
+          useValue: mockWaitlist,
+        },
       ],
     }).compile();
 
     service = module.get<AdminAppointmentsService>(AdminAppointmentsService);
 
     jest.clearAllMocks();
+    mockWaitlist.offerFreedSeats.mockResolvedValue([]);
+    mockDocuments.getChecklist.mockResolvedValue({ complete: true, items: [], override: null });
   });
 
   it('should be defined', () => {
@@ -252,6 +307,62 @@ describe('AdminAppointmentsService', () => {
       expect(result.data.status).toBe(AppointmentStatus.CONFIRMED);
     });
 
+    it('should not confirm an appointment whose documents are not validated', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValueOnce({
+        id: '1',
+        userId: 'user1',
+        serviceId: 'service1',
+        slotId: null,
+        specialistId: null,
+        status: AppointmentStatus.SCHEDULED,
+        scheduledAt: new Date('2030-01-01T09:00:00.000Z'),
+        service: { id: 'service1', durationMinutes: 30 },
+        slot: null,
+      });
+      mockDocuments.assertCanConfirm.mockRejectedValueOnce(
+        new AppointmentDocumentsIncompleteException(1),
+      );
+
+      await expect(
+        service.updateAppointment('1', { status: AppointmentStatus.CONFIRMED }),
+      ).rejects.toThrow(AppointmentDocumentsIncompleteException);
+      expect(mockPrismaService.appointment.update).not.toHaveBeenCalled();
+    });
+
+    it('should not move an appointment onto a seat held by someone else', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValueOnce({
+        id: '1',
+        userId: 'user1',
+        serviceId: 'service1',
+        slotId: 'slot1',
+        specialistId: null,
+        status: AppointmentStatus.SCHEDULED,
+        scheduledAt: new Date('2030-01-01T09:00:00.000Z'),
+        service: { id: 'service1', durationMinutes: 30 },
+        slot: null,
+      });
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValueOnce({
+        id: 'slot2',
+        serviceId: 'service1',
+        startAt: new Date('2030-01-02T09:00:00.000Z'),
+        timezone: 'UTC',
+        capacity: 1,
+        status: AppointmentSlotStatus.AVAILABLE,
+      });
+      // the only seat is held in another user's booking wizard
+      mockAppointmentsService.countOccupiedSeats.mockResolvedValueOnce(1);
+
+      await expect(service.updateAppointment('1', { slotId: 'slot2' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockAppointmentsService.countOccupiedSeats).toHaveBeenCalledWith(
+        'slot2',
+        mockPrismaService,
+        { appointmentId: '1' },
+      );
+      expect(mockPrismaService.appointment.update).not.toHaveBeenCalled();
+    });
+
     it('should throw NotFoundException if appointment does not exist', async () => {
       mockPrismaService.$transaction.mockImplementationOnce(async (callback) => {
         mockPrismaService.appointment.findUnique.mockResolvedValueOnce(null);
@@ -264,6 +375,129 @@ describe('AdminAppointmentsService', () => {
     });
   });
 
+  describe('reassignment', () => {
+    const mockAppointment = {
+      id: '1',
+      userId: 'user1',
+      serviceId: 'service1',
+      slotId: 'slot1',
+      queueTicketId: null,
+      specialistId: null,
+      status: AppointmentStatus.SCHEDULED,
+      scheduledAt: new Date('2030-01-01T09:00:00.000Z'),
+      timezone: 'UTC',
+      locale: 'en',
+      notes: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      service: {
+        id: 'service1',
+        slug: 'test-service',
+        durationMinutes: 60,
+      },
+      slot: {
+        id: 'slot1',
+        serviceId: 'service1',
+        specialistId: null,
+        startAt: new Date('2030-01-01T09:00:00.000Z'),
+        endAt: new Date('2030-01-01T10:00:00.000Z'),
+        timezone: 'UTC',
+        capacity: 1,
+        status: AppointmentSlotStatus.AVAILABLE,
+        bufferBeforeMinutes: 15,
+        bufferAfterMinutes: 15,
+      },
+      queueTicket: null,
+    };
+
+    beforeEach(() => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'specialist1',
+        role: { name: 'specialist' },
+      });
+    });
+
+    it('should assign a specialist and record a REASSIGNED event', async () => {
+      mockPrismaService.appointment.findUnique
+        .mockResolvedValueOnce(mockAppointment)
+        .mockResolvedValueOnce({ ...mockAppointment, specialistId: 'specialist1' });
+      mockPrismaService.appointment.findMany.mockResolvedValueOnce([]);
+      mockPrismaService.appointment.update.mockResolvedValueOnce({
+        ...mockAppointment,
+        specialistId: 'specialist1',
+      });
+
+      const result = await service.updateAppointment('1', { specialistId: 'specialist1' });
+
+      expect(mockPrismaService.appointment.update).toHaveBeenCalledWith({
+        where: { id: '1' },
+        data: expect.objectContaining({ specialist: { connect: { id: 'specialist1' } } }),
+      });
+      expect(mockPrismaService.appointmentStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          event: AppointmentStatusEventType.REASSIGNED,
+          notes: 'Reassigned to specialist specialist1',
+        }),
+      });
+      expect(result.data.specialistId).toBe('specialist1');
+    });
+
+    it('should refuse to double-book the specialist across services', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValueOnce(mockAppointment);
+      mockPrismaService.appointment.findMany.mockResolvedValueOnce([
+        {
+          id: 'other',
+          serviceId: 'service2',
+          slotId: 'slot2',
+          scheduledAt: new Date('2030-01-01T09:30:00.000Z'),
+          slot: {
+            startAt: new Date('2030-01-01T09:30:00.000Z'),
+            endAt: new Date('2030-01-01T10:00:00.000Z'),
+          },
+          service: { durationMinutes: 30 },
+        },
+      ]);
+
+      await expect(service.updateAppointment('1', { specialistId: 'specialist1' })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPrismaService.appointment.update).not.toHaveBeenCalled();
+    });
+
+    it('should offer the seat of a cancelled appointment to the waitlist', async () => {
+      const cancelled = { ...mockAppointment, status: AppointmentStatus.CANCELLED };
+      mockPrismaService.appointment.findUnique
+        .mockResolvedValueOnce(mockAppointment)
+        .mockResolvedValueOnce(cancelled);
+      mockPrismaService.appointment.update.mockResolvedValueOnce(cancelled);
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue(mockAppointment.slot);
+      mockPrismaService.appointment.count.mockResolvedValue(0);
+      mockWaitlist.offerFreedSeats.mockResolvedValueOnce([
+        { id: 'ticket1', serviceId: 'service1' },
+      ]);
+
+      await service.updateAppointment('1', { status: AppointmentStatus.CANCELLED });
+
+      expect(mockWaitlist.offerFreedSeats).toHaveBeenCalledWith('slot1', mockPrismaService);
+      expect(mockWaitlist.publishBoards).toHaveBeenCalledWith(['service1']);
+    });
+
+    it('should unassign the specialist when null is given', async () => {
+      mockPrismaService.appointment.findUnique
+        .mockResolvedValueOnce({ ...mockAppointment, specialistId: 'specialist1' })
+        .mockResolvedValueOnce(mockAppointment);
+      mockPrismaService.appointment.update.mockResolvedValueOnce(mockAppointment);
+
+      await service.updateAppointment('1', { specialistId: null });
+
+      expect(mockPrismaService.appointment.update).toHaveBeenCalledWith({
+        where: { id: '1' },
+        data: expect.objectContaining({ specialist: { disconnect: true } }),
+      });
+      expect(mockPrismaService.appointment.findMany).not.toHaveBeenCalled();
+    });
+  });
+
   describe('deleteAppointment', () => {
     it('should delete an appointment', async () => {
       const mockAppointment = {
@@ -1,11 +1,26 @@
 import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 
+import { DateTime } from 'luxon';
+
 import { PrismaService } from '@prisma/prisma.service';
+import {
+  statusEventFor,
+  statusTimestampsFor,
+  toCheckInQrPayload,
+} from '@modules/appointments/appointment-attendance.service';
+import { toAppointmentReference } from '@modules/appointments/appointment-reference';
+import { AppointmentDocumentsService } from '@modules/appointments/appointment-documents.service';
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
+import { AppointmentsService } from '@modules/appointments/appointments.service';
+import { SpecialistAssignmentsService } from '@modules/appointments/specialist-assignments.service';
+import { toQueueTicketNumber } from '@modules/appointments/queue-board.service';
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
 import {
   AppointmentListResponseDto,
   AppointmentDetailResponseDto,
   AppointmentDetailsDto,
 } from '@modules/appointments/dto';
+import { updateSlotOccupancyStatus } from '@modules/appointments/slot-availability';
 import {
   AppointmentStatus,
   AppointmentStatusEventType,
@@ -13,6 +28,7 @@ import {
   Prisma,
 } from '@prisma/client';
 
+import { AdminAppointmentDocumentsOverrideDto } from '../dto/admin-appointment-documents-override.dto';
 import { AdminAppointmentsQueryDto } from '../dto/admin-appointments-query.dto';
 import { AdminUpdateAppointmentDto } from '../dto/admin-update-appointment.dto';
 
@@ -23,6 +39,7 @@ type AppointmentWithRelations = Prisma.AppointmentGetPayload<{
     service: true;
     slot: true;
     queueTicket: true;
+    dependent: true;
   };
 }>;
 
@@ -30,7 +47,14 @@ type AppointmentWithRelations = Prisma.AppointmentGetPayload<{
 export class AdminAppointmentsService {
   private readonly logger = new Logger(AdminAppointmentsService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly specialists: SpecialistAssignmentsService,
+    private readonly reminders: AppointmentRemindersService,
+    private readonly documents: AppointmentDocumentsService,
+    private readonly appointments: AppointmentsService,
+    private readonly waitlist: WaitlistPromotionService,
+  ) {}
 
   async listAppointments(query: AdminAppointmentsQueryDto): Promise<AppointmentListResponseDto> {
     const page = query.page && query.page > 0 ? query.page : 1;
@@ -51,6 +75,10 @@ export class AdminAppointmentsService {
       where.serviceId = query.serviceId;
     }
 
+    if (query.specialistId) {
+      where.specialistId = query.specialistId;
+    }
+
     if (query.status) {
       where.status = query.status;
     }
@@ -79,6 +107,7 @@ export class AdminAppointmentsService {
           service: true,
           slot: true,
           queueTicket: true,
+          dependent: true,
         },
       }),
       this.prisma.appointment.count({ where }),
@@ -103,6 +132,7 @@ export class AdminAppointmentsService {
         service: true,
         slot: true,
         queueTicket: true,
+        dependent: true,
         user: {
           select: {
             id: true,
@@ -119,7 +149,10 @@ export class AdminAppointmentsService {
     }
 
     return {
-      data: this.mapAppointment(appointment),
+      data: {
+        ...this.mapAppointment(appointment),
+        documentChecklist: await this.documents.getChecklist(appointment),
+      },
     };
   }
 
@@ -132,19 +165,21 @@ export class AdminAppointmentsService {
     const result = await this.prisma.$transaction(async (tx) => {
       const appointment = await tx.appointment.findUnique({
         where: { id },
-        include: { slot: true },
+        include: { slot: true, service: true },
       });
 
       if (!appointment) {
         throw new NotFoundException('Appointment not found.');
       }
 
+      let targetSlot = appointment.slot;
       const updateData: Prisma.AppointmentUpdateInput = {};
       const historyNotes: string[] = [];
 
       // Update status if provided
       if (dto.status && dto.status !== appointment.status) {
         updateData.status = dto.status;
+        Object.assign(updateData, statusTimestampsFor(dto.status, new Date()));
         historyNotes.push(`Status changed from ${appointment.status} to ${dto.status}`);
       }
 
@@ -166,25 +201,77 @@ export class AdminAppointmentsService {
           throw new BadRequestException('The selected slot is no longer available.');
         }
 
-        // Check capacity
-        const occupiedCount = await tx.appointment.count({
-          where: {
-            id: { not: appointment.id },
-            slotId: newSlot.id,
-            status: { not: AppointmentStatus.CANCELLED },
-          },
+        // Check capacity, counting the seats held in the wizard or for the waitlist
+        const occupiedCount = await this.appointments.countOccupiedSeats(newSlot.id, tx, {
+          appointmentId: appointment.id,
         });
 
         if (occupiedCount >= newSlot.capacity) {
           throw new BadRequestException('The selected slot has reached its capacity.');
         }
 
+        targetSlot = newSlot;
         updateData.slot = { connect: { id: newSlot.id } };
         updateData.scheduledAt = newSlot.startAt;
         updateData.timezone = newSlot.timezone;
         historyNotes.push(`Rescheduled to slot ${dto.slotId}`);
       }
 
+      if (updateData.status === AppointmentStatus.CONFIRMED) {
+        await this.documents.assertCanConfirm(
+          { ...appointment, scheduledAt: targetSlot?.startAt ?? appointment.scheduledAt },
+          tx,
+        );
+      }
+
+      // Reassign the specialist, following the new slot unless one is given explicitly
+      let specialistId = appointment.specialistId;
+      if (dto.specialistId !== undefined) {
+        specialistId = dto.specialistId;
+      } else if (targetSlot !== appointment.slot && targetSlot?.specialistId) {
+        specialistId = targetSlot.specialistId;
+      }
+
+      if (dto.specialistId) {
+        await this.specialists.assertSpecialist(dto.specialistId, tx);
+      }
+
+      const reassigned = specialistId !== appointment.specialistId;
+      const nextStatus = updateData.status ?? appointment.status;
+
+      if (
+        specialistId &&
+        (reassigned || targetSlot !== appointment.slot) &&
+        nextStatus !== AppointmentStatus.CANCELLED &&
+        nextStatus !== AppointmentStatus.COMPLETED &&
+        nextStatus !== AppointmentStatus.NO_SHOW
+      ) {
+        const startAt = targetSlot?.startAt ?? appointment.scheduledAt;
+        await this.specialists.assertNoConflict(
+          {
+            specialistId,
+            startAt,
+            endAt:
+              targetSlot?.endAt ??
+              DateTime.fromJSDate(startAt)
+                .plus({ minutes: appointment.service.durationMinutes })
+                .toJSDate(),
+            appointmentId: appointment.id,
+            slotId: targetSlot?.id ?? null,
+          },
+          tx,
+        );
+      }
+
+      if (reassigned) {
+        updateData.specialist = specialistId
+          ? { connect: { id: specialistId } }
+          : { disconnect: true };
+        historyNotes.push(
+          specialistId ? `Reassigned to specialist ${specialistId}` : 'Specialist unassigned',
+        );
+      }
+
       // Update notes if provided
       if (dto.notes !== undefined) {
         updateData.notes = dto.notes;
@@ -196,15 +283,15 @@ export class AdminAppointmentsService {
       });
 
       // Record status history
-      if (dto.status || dto.slotId) {
+      if (dto.status || dto.slotId || reassigned) {
         await tx.appointmentStatusHistory.create({
           data: {
             appointmentId: id,
             event: dto.slotId
               ? AppointmentStatusEventType.RESCHEDULED
-              : dto.status === AppointmentStatus.CANCELLED
-                ? AppointmentStatusEventType.CANCELLED
-                : AppointmentStatusEventType.BOOKED,
+              : dto.status
+                ? statusEventFor(dto.status)
+                : AppointmentStatusEventType.REASSIGNED,
             fromStatus: appointment.status,
             toStatus: updated.status,
             notes: historyNotes.join('; '),
@@ -212,16 +299,54 @@ export class AdminAppointmentsService {
         });
       }
 
+      await this.reminders.sync(updated, tx);
+
       // Update slot occupancy if slot changed
       if (dto.slotId && appointment.slotId) {
-        await this.updateSlotOccupancyStatus(tx, appointment.slotId);
-        await this.updateSlotOccupancyStatus(tx, dto.slotId);
+        await updateSlotOccupancyStatus(tx, appointment.slotId);
+        await updateSlotOccupancyStatus(tx, dto.slotId);
       }
 
-      return updated;
+      const cancelled =
+        updated.status === AppointmentStatus.CANCELLED &&
+        appointment.status !== AppointmentStatus.CANCELLED;
+
+      if (cancelled && !dto.slotId && appointment.slotId) {
+        await updateSlotOccupancyStatus(tx, appointment.slotId);
+      }
+
+      // The slot the appointment left, or no longer takes a seat of, goes to the waitlist.
+      const freedSlotId =
+        (dto.slotId && dto.slotId !== appointment.slotId) || cancelled ? appointment.slotId : null;
+      const offered = freedSlotId ? await this.waitlist.offerFreedSeats(freedSlotId, tx) : [];
+
+      return { updated, offered };
     });
 
-    return this.getAppointmentById(result.id);
+    this.waitlist.publishBoards(result.offered.map((ticket) => ticket.serviceId));
+
+    return this.getAppointmentById(result.updated.id);
+  }
+
+  /**
+   * Lets the appointment be confirmed even though its required documents are
+   * not all validated, e.g. when the originals were checked at the counter.
+   */
+  async overrideDocuments(
+    id: string,
+    dto: AdminAppointmentDocumentsOverrideDto,
+    staffId: string,
+  ): Promise<AppointmentDetailResponseDto> {
+    this.logger.verbose(`Admin overriding the document checklist of appointment ${id}`);
+
+    await this.documents.recordOverride(id, staffId, dto.reason);
+    return this.getAppointmentById(id);
+  }
+
+  async clearDocumentsOverride(id: string): Promise<void> {
+    this.logger.verbose(`Admin clearing the document override of appointment ${id}`);
+
+    await this.documents.clearOverride(id);
   }
 
   async deleteAppointment(id: string): Promise<void> {
@@ -242,7 +367,7 @@ export class AdminAppointmentsService {
 
       // Update slot occupancy if slot exists
       if (appointment.slotId) {
-        await this.updateSlotOccupancyStatus(tx, appointment.slotId);
+        await updateSlotOccupancyStatus(tx, appointment.slotId);
       }
     });
   }
@@ -254,11 +379,18 @@ export class AdminAppointmentsService {
       serviceId: appointment.serviceId,
       slotId: appointment.slotId,
       queueTicketId: appointment.queueTicketId,
+      specialistId: appointment.specialistId ?? null,
       status: appointment.status,
+      reference: toAppointmentReference(appointment.id),
+      checkInCode: toCheckInQrPayload(appointment.id),
       scheduledAt: appointment.scheduledAt.toISOString(),
       timezone: appointment.timezone,
       locale: appointment.locale,
       notes: appointment.notes ?? null,
+      checkedInAt: appointment.checkedInAt?.toISOString() ?? null,
+      startedAt: appointment.startedAt?.toISOString() ?? null,
+      completedAt: appointment.completedAt?.toISOString() ?? null,
+      noShowAt: appointment.noShowAt?.toISOString() ?? null,
       createdAt: appointment.createdAt.toISOString(),
       updatedAt: appointment.updatedAt.toISOString(),
       service: {
@@ -281,10 +413,14 @@ export class AdminAppointmentsService {
       queueTicket: appointment.queueTicket
         ? {
             id: appointment.queueTicket.id,
+            number: toQueueTicketNumber(appointment.queueTicket.id),
             serviceId: appointment.queueTicket.serviceId,
             slotId: appointment.queueTicket.slotId,
+            dependentId: appointment.queueTicket.dependentId,
             status: appointment.queueTicket.status,
             position: appointment.queueTicket.position,
+            priorityClass: appointment.queueTicket.priorityClass,
+            requestedPriorityClass: appointment.queueTicket.requestedPriorityClass,
             desiredFrom: appointment.queueTicket.desiredFrom?.toISOString() ?? null,
             desiredTo: appointment.queueTicket.desiredTo?.toISOString() ?? null,
             timezone: appointment.queueTicket.timezone,
@@ -295,34 +431,16 @@ export class AdminAppointmentsService {
             updatedAt: appointment.queueTicket.updatedAt.toISOString(),
           }
         : null,
+      dependent: appointment.dependent
+        ? {
+            id: appointment.dependent.id,
+            firstName: appointment.dependent.firstName,
+            lastName: appointment.dependent.lastName,
+            birthDate: appointment.dependent.birthDate.toISOString().slice(0, 10),
+            relationship: appointment.dependent.relationship,
+            nationalId: appointment.dependent.nationalId,
+          }
+        : null,
     };
   }
-
-  private async updateSlotOccupancyStatus(
-    tx: Prisma.TransactionClient,
-    slotId: string,
-  ): Promise<void> {
-    const slot = await tx.appointmentSlot.findUnique({ where: { id: slotId } });
-
-    if (!slot || slot.status === AppointmentSlotStatus.CANCELLED) {
-      return;
-    }
-
-    const activeCount = await tx.appointment.count({
-      where: {
-        slotId,
-        status: { not: AppointmentStatus.CANCELLED },
-      },
-    });
-
-    const nextStatus =
-      activeCount >= slot.capacity ? AppointmentSlotStatus.FULL : AppointmentSlotStatus.AVAILABLE;
-
-    if (nextStatus !== slot.status) {
-      await tx.appointmentSlot.update({
-        where: { id: slotId },
-        data: { status: nextStatus },
-      });
-    }
-  }
 }
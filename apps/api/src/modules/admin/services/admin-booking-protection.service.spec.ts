@@ -0,0 +1,227 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { AppointmentNotificationsService } from '@modules/appointments/appointment-notifications.service';
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
+import {
+  AppointmentSlotStatus,
+  AppointmentStatus,
+  AppointmentStatusEventType,
+  BookingAttemptKind,
+  BookingRiskFlag,
+  QueueTicketStatus,
+} from '@prisma/client';
+
+import { AdminBookingProtectionService } from './admin-booking-protection.service';
+
+describe('AdminBookingProtectionService', () => {
+  let service: AdminBookingProtectionService;
+
+  const now = new Date('2030-01-01T08:00:00.000Z');
+
+  const mockPrismaService = {
+    bookingAttempt: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    appointment: {
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    appointmentStatusHistory: {
+      create: jest.fn(),
+    },
+    appointmentSlot: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    queueTicket: {
+      update: jest.fn(),
+    },
+    $transaction: jest.fn((arg) =>
+      typeof arg === 'function' ? arg(mockPrismaService) : Promise.all(arg),
+    ),
+  };
+
+  const mockNotifications = {
+    appointmentCancelled: jest.fn(),
+    queueTicketUpdated: jest.fn(),
+  };
+
+  const mockReminders = {
+    cancel: jest.fn(),
+  };
+
+  const mockWaitlist = {
+    resequenceQueue: jest.fn(),
+    offerFreedSeats: jest.fn(),
+    publishBoards: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminBookingProtectionService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AppointmentNotificationsService, useValue: mockNotifications },
+        { provide: AppointmentRemindersService, useValue: mockReminders },
+        { provide: WaitlistPromotionService, useValue: mockWaitlist },
+      ],
+    }).compile();
+
+    service = module.get<AdminBookingProtectionService>(AdminBookingProtectionService);
+
+    jest.clearAllMocks();
+    mockWaitlist.offerFreedSeats.mockResolvedValue([]);
+  });
+
+  describe('listFlagged', () => {
+    it('should list unreviewed flagged bookings', async () => {
+      mockPrismaService.bookingAttempt.findMany.mockResolvedValue([
+        {
+          id: 'attempt1',
+          kind: BookingAttemptKind.APPOINTMENT,
+          flags: [BookingRiskFlag.SHARED_DEVICE],
+          ipAddress: '203.0.113.7',
+          fingerprint: 'device1',
+          createdAt: now,
+          reviewedAt: null,
+          user: { id: 'user1', email: 'a@example.com', firstName: 'Amina', lastName: 'Bensaid' },
+          service: { id: 'service1', slug: 'passport' },
+          appointment: {
+            id: 'appointment1',
+            status: AppointmentStatus.SCHEDULED,
+            scheduledAt: new Date('2030-01-05T09:00:00.000Z'),
+          },
+          queueTicket: null,
+        },
+      ]);
+      mockPrismaService.bookingAttempt.count.mockResolvedValue(1);
+
+      const result = await service.listFlagged({ page: 1, limit: 10 });
+
+      expect(mockPrismaService.bookingAttempt.count).toHaveBeenCalledWith({
+        where: { succeeded: true, flags: { isEmpty: false }, reviewedAt: null },
+      });
+      expect(result.meta).toEqual({ page: 1, limit: 10, total: 1 });
+      expect(result.data[0]).toEqual(
+        expect.objectContaining({
+          id: 'attempt1',
+          createdAt: '2030-01-01T08:00:00.000Z',
+          appointment: {
+            id: 'appointment1',
+            status: AppointmentStatus.SCHEDULED,
+            scheduledAt: '2030-01-05T09:00:00.000Z',
+          },
+        }),
+      );
+    });
+
+    it('should filter by flag and include reviewed bookings on request', async () => {
+      mockPrismaService.bookingAttempt.findMany.mockResolvedValue([]);
+      mockPrismaService.bookingAttempt.count.mockResolvedValue(0);
+
+      await service.listFlagged({ flag: BookingRiskFlag.SHARED_IP, includeReviewed: true });
+
+      expect(mockPrismaService.bookingAttempt.count).toHaveBeenCalledWith({
+        where: { succeeded: true, flags: { has: BookingRiskFlag.SHARED_IP } },
+      });
+    });
+  });
+
+  describe('cancelFlagged', () => {
+    it('should cancel active bookings, release their seats and mark them reviewed', async () => {
+      mockPrismaService.bookingAttempt.findMany.mockResolvedValue([
+        {
+          id: 'attempt1',
+          appointment: {
+            id: 'appointment1',
+            userId: 'user1',
+            serviceId: 'service1',
+            slotId: 'slot1',
+            status: AppointmentStatus.CONFIRMED,
+          },
+          queueTicket: null,
+        },
+        {
+          id: 'attempt2',
+          appointment: null,
+          queueTicket: {
+            id: 'ticket1',
+            userId: 'user2',
+            serviceId: 'service1',
+            slotId: 'slot2',
+            status: QueueTicketStatus.NOTIFIED,
+          },
+        },
+        {
+          id: 'attempt3',
+          appointment: {
+            id: 'appointment2',
+            userId: 'user2',
+            serviceId: 'service1',
+            slotId: 'slot1',
+            status: AppointmentStatus.COMPLETED,
+          },
+          queueTicket: null,
+        },
+      ]);
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue({
+        id: 'slot1',
+        capacity: 2,
+        status: AppointmentSlotStatus.FULL,
+      });
+      mockPrismaService.appointment.count.mockResolvedValue(1);
+
+      const result = await service.cancelFlagged(
+        { attemptIds: ['attempt1', 'attempt2', 'attempt3'], reason: 'Hoarding' },
+        now,
+      );
+
+      expect(result).toEqual({ cancelledAppointments: 1, cancelledQueueTickets: 1 });
+      expect(mockPrismaService.appointment.update).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.appointmentStatusHistory.create).toHaveBeenCalledWith({
+        data: {
+          appointmentId: 'appointment1',
+          event: AppointmentStatusEventType.CANCELLED,
+          fromStatus: AppointmentStatus.CONFIRMED,
+          toStatus: AppointmentStatus.CANCELLED,
+          notes: 'Hoarding',
+        },
+      });
+      expect(mockReminders.cancel).toHaveBeenCalledWith('appointment1', mockPrismaService);
+      expect(mockPrismaService.queueTicket.update).toHaveBeenCalledWith({
+        where: { id: 'ticket1' },
+        data: { status: QueueTicketStatus.CANCELLED, notifiedAt: null, expiresAt: null },
+      });
+      expect(mockWaitlist.resequenceQueue).toHaveBeenCalledWith('service1', mockPrismaService);
+      expect(mockWaitlist.offerFreedSeats).toHaveBeenCalledWith('slot1', mockPrismaService, now);
+      expect(mockWaitlist.offerFreedSeats).toHaveBeenCalledWith('slot2', mockPrismaService, now);
+      expect(mockWaitlist.publishBoards).toHaveBeenCalledWith(new Set(['service1']));
+      expect(mockPrismaService.appointmentSlot.update).toHaveBeenCalledWith({
+        where: { id: 'slot1' },
+        data: { status: AppointmentSlotStatus.AVAILABLE },
+      });
+      expect(mockPrismaService.bookingAttempt.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['attempt1', 'attempt2', 'attempt3'] } },
+        data: { reviewedAt: now },
+      });
+    });
+  });
+
+  describe('dismissFlagged', () => {
+    it('should mark unreviewed bookings as reviewed', async () => {
+      mockPrismaService.bookingAttempt.updateMany.mockResolvedValue({ count: 2 });
+
+      const result = await service.dismissFlagged({ attemptIds: ['attempt1', 'attempt2'] }, now);
+
+      expect(result).toEqual({ reviewed: 2 });
+      expect(mockPrismaService.bookingAttempt.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['attempt1', 'attempt2'] }, reviewedAt: null },
+        data: { reviewedAt: now },
+      });
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { AWAITED_APPOINTMENT_STATUSES } from '@modules/appointments/appointment-attendance.service';
+import { AppointmentNotificationsService } from '@modules/appointments/appointment-notifications.service';
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
+import { updateSlotOccupancyStatus } from '@modules/appointments/slot-availability';
+import {
+  AppointmentStatus,
+  AppointmentStatusEventType,
+  Prisma,
+  QueueTicketStatus,
+} from '@prisma/client';
+
+import { AdminFlaggedBookingsQueryDto } from '../dto/admin-flagged-bookings-query.dto';
+import {
+  AdminCancelFlaggedBookingsResponseDto,
+  AdminDismissFlaggedBookingsResponseDto,
+  AdminFlaggedBookingDto,
+  AdminFlaggedBookingListResponseDto,
+} from '../dto/admin-flagged-bookings-response.dto';
+import {
+  AdminCancelFlaggedBookingsDto,
+  AdminDismissFlaggedBookingsDto,
+} from '../dto/admin-review-flagged-bookings.dto';
+
+const MAX_PAGE_SIZE = 100;
+
+const ACTIVE_QUEUE_TICKET_STATUSES: QueueTicketStatus[] = [
+  QueueTicketStatus.WAITING,
+  QueueTicketStatus.NOTIFIED,
+];
+
+const flaggedBookingInclude = {
+  user: { select: { id: true, email: true, firstName: true, lastName: true } },
+  service: { select: { id: true, slug: true } },
+  appointment: { select: { id: true, status: true, scheduledAt: true } },
+  queueTicket: { select: { id: true, status: true, position: true } },
+} satisfies Prisma.BookingAttemptInclude;
+
+type FlaggedBooking = Prisma.BookingAttemptGetPayload<{ include: typeof flaggedBookingInclude }>;
+
+/**
+ * Review of the bookings flagged by the anti-hoarding checks: admins list
+ * them, then either cancel the appointments and queue tickets, which hands
+ * the seats back to the waitlist, or dismiss the flags as legitimate.
+ */
+@Injectable()
+export class AdminBookingProtectionService {
+  private readonly logger = new Logger(AdminBookingProtectionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notifications: AppointmentNotificationsService,
+    private readonly reminders: AppointmentRemindersService,
+    private readonly waitlist: WaitlistPromotionService,
+  ) {}
+
+  async listFlagged(
+    query: AdminFlaggedBookingsQueryDto,
+  ): Promise<AdminFlaggedBookingListResponseDto> {
+    const page = query.page && query.page > 0 ? query.page : 1;
+    const limit = query.limit && query.limit > 0 ? Math.min(query.limit, MAX_PAGE_SIZE) : 25;
+    const skip = (page - 1) * limit;
+
+    this.logger.verbose(
+      `Admin listing flagged bookings page=${page} limit=${limit} filters=${JSON.stringify(query)}`,
+    );
+
+    const where: Prisma.BookingAttemptWhereInput = {
+      succeeded: true,
+      flags: query.flag ? { has: query.flag } : { isEmpty: false },
+    };
+
+    if (query.kind) {
+      where.kind = query.kind;
+    }
+
+    if (query.serviceId) {
+      where.serviceId = query.serviceId;
+    }
+
+    if (!query.includeReviewed) {
+      where.reviewedAt = null;
+    }
+
+    const [attempts, total] = await this.prisma.$transaction([
+      this.prisma.bookingAttempt.findMany({
+        where,
+        include: flaggedBookingInclude,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.bookingAttempt.count({ where }),
+    ]);
+
+    return {
+      data: attempts.map((attempt) => this.mapFlaggedBooking(attempt)),
+      meta: {
+        page,
+        limit,
+        total,
+      },
+    };
+  }
+
+  /**
+   * Cancels the appointments and queue tickets behind the given attempts and
+   * marks them reviewed. Bookings already over or cancelled are left as is.
+   */
+  async cancelFlagged(
+    dto: AdminCancelFlaggedBookingsDto,
+    now: Date = new Date(),
+  ): Promise<AdminCancelFlaggedBookingsResponseDto> {
+    this.logger.verbose(`Admin cancelling ${dto.attemptIds.length} flagged booking(s)`);
+
+    const reason = dto.reason ?? 'The booking was cancelled after a fair use review.';
+
+    const { queueServiceIds, ...result } = await this.prisma.$transaction(async (tx) => {
+      const attempts = await tx.bookingAttempt.findMany({
+        where: { id: { in: dto.attemptIds } },
+        include: { appointment: true, queueTicket: true },
+      });
+
+      const freedSlotIds = new Set<string>();
+      const queueServiceIds = new Set<string>();
+      let cancelledAppointments = 0;
+      let cancelledQueueTickets = 0;
+
+      for (const { appointment, queueTicket } of attempts) {
+        if (appointment && AWAITED_APPOINTMENT_STATUSES.includes(appointment.status)) {
+          await tx.appointment.update({
+            where: { id: appointment.id },
+            data: { status: AppointmentStatus.CANCELLED },
+          });
+
+          await tx.appointmentStatusHistory.create({
+            data: {
+              appointmentId: appointment.id,
+              event: AppointmentStatusEventType.CANCELLED,
+              fromStatus: appointment.status,
+              toStatus: AppointmentStatus.CANCELLED,
+              notes: reason,
+            },
+          });
+
+          await this.reminders.cancel(appointment.id, tx);
+
+          await this.notifications.appointmentCancelled(
+            {
+              appointmentId: appointment.id,
+              userId: appointment.userId,
+              serviceId: appointment.serviceId,
+              slotId: appointment.slotId ?? null,
+              reason,
+            },
+            tx,
+          );
+
+          if (appointment.slotId) {
+            freedSlotIds.add(appointment.slotId);
+          }
+
+          cancelledAppointments += 1;
+        }
+
+        if (queueTicket && ACTIVE_QUEUE_TICKET_STATUSES.includes(queueTicket.status)) {
+          await tx.queueTicket.update({
+            where: { id: queueTicket.id },
+            data: { status: QueueTicketStatus.CANCELLED, notifiedAt: null, expiresAt: null },
+          });
+
+          await this.notifications.queueTicketUpdated(
+            {
+              ticketId: queueTicket.id,
+              userId: queueTicket.userId,
+              serviceId: queueTicket.serviceId,
+              status: QueueTicketStatus.CANCELLED,
+            },
+            tx,
+          );
+
+          queueServiceIds.add(queueTicket.serviceId);
+
+          // A ticket holding an offered seat releases it to the next in line.
+          if (queueTicket.status === QueueTicketStatus.NOTIFIED && queueTicket.slotId) {
+            freedSlotIds.add(queueTicket.slotId);
+          }
+
+          cancelledQueueTickets += 1;
+        }
+      }
+
+      for (const serviceId of queueServiceIds) {
+        await this.waitlist.resequenceQueue(serviceId, tx);
+      }
+
+      for (const slotId of freedSlotIds) {
+        await updateSlotOccupancyStatus(tx, slotId);
+        const offered = await this.waitlist.offerFreedSeats(slotId, tx, now);
+        offered.forEach((ticket) => queueServiceIds.add(ticket.serviceId));
+      }
+
+      await tx.bookingAttempt.updateMany({
+        where: { id: { in: attempts.map((attempt) => attempt.id) } },
+        data: { reviewedAt: now },
+      });
+
+      return { cancelledAppointments, cancelledQueueTickets, queueServiceIds };
+    });
+
+    this.waitlist.publishBoards(queueServiceIds);
+
+    this.logger.log(
+      `Cancelled ${result.cancelledAppointments} appointment(s) and ${result.cancelledQueueTickets} queue ticket(s) flagged for hoarding`,
+    );
+
+    return result;
+  }
+
+  async dismissFlagged(
+    dto: AdminDismissFlaggedBookingsDto,
+    now: Date = new Date(),
+  ): Promise<AdminDismissFlaggedBookingsResponseDto> {
+    this.logger.verbose(`Admin dismissing ${dto.attemptIds.length} flagged booking(s)`);
+
+    const { count } = await this.prisma.bookingAttempt.updateMany({
+      where: { id: { in: dto.attemptIds }, reviewedAt: null },
+      data: { reviewedAt: now },
+    });
+
+    return { reviewed: count };
+  }
+
+  private mapFlaggedBooking(attempt: FlaggedBooking): AdminFlaggedBookingDto {
+    return {
+      id: attempt.id,
+      kind: attempt.kind,
+      flags: attempt.flags,
+      ipAddress: attempt.ipAddress,
+      fingerprint: attempt.fingerprint,
+      createdAt: attempt.createdAt.toISOString(),
+      reviewedAt: attempt.reviewedAt?.toISOString() ?? null,
+      user: attempt.user,
+      service: attempt.service,
+      appointment: attempt.appointment
+        ? {
+            id: attempt.appointment.id,
+            status: attempt.appointment.status,
+            scheduledAt: attempt.appointment.scheduledAt.toISOString(),
+          }
+        : null,
+      queueTicket: attempt.queueTicket,
+    };
+  }
+}
@@ -0,0 +1,245 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
+import { AppointmentNotificationsService } from '@modules/appointments/appointment-notifications.service';
+import { ClosuresService } from '@modules/scheduling/closures.service';
+import { SlotGenerationService } from '@modules/scheduling/slot-generation.service';
+import {
+  AppointmentSlotStatus,
+  AppointmentStatus,
+  AppointmentStatusEventType,
+  ClosureType,
+} from '@prisma/client';
+
+import { AdminClosuresService } from './admin-closures.service';
+
+describe('AdminClosuresService', () => {
+  let service: AdminClosuresService;
+
+  const mockClosure = {
+    id: 'closure1',
+    type: ClosureType.RELIGIOUS_HOLIDAY,
+    name: 'Aïd el-Fitr',
+    startDate: new Date('2030-03-05T00:00:00.000Z'),
+    endDate: new Date('2030-03-06T00:00:00.000Z'),
+    serviceId: null,
+    officeId: null,
+    notes: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const buildAppointment = (id: string, scheduledAt: string) => ({
+    id,
+    userId: 'user1',
+    serviceId: 'service1',
+    slotId: 'slot1',
+    status: AppointmentStatus.SCHEDULED,
+    scheduledAt: new Date(scheduledAt),
+    timezone: 'Africa/Algiers',
+  });
+
+  const mockPrismaService = {
+    service: {
+      findUnique: jest.fn(),
+    },
+    closure: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    appointment: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+    },
+    appointmentSlot: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    appointmentStatusHistory: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  const mockSlotGenerationService = {
+    regenerateForScope: jest.fn(),
+  };
+
+  const mockNotifications = {
+    appointmentCancelled: jest.fn(),
+  };
+
+  const mockReminders = {
+    sync: jest.fn(),
+    cancel: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminClosuresService,
+        ClosuresService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: AppointmentRemindersService,
+          useValue: mockReminders,
+        },
+        {
+          provide: SlotGenerationService,
+          useValue: mockSlotGenerationService,
+        },
+        {
+          provide: AppointmentNotificationsService,
+          useValue: mockNotifications,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AdminClosuresService>(AdminClosuresService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('createClosure', () => {
+    it('should create the closure, refresh generated slots and count affected bookings', async () => {
+      mockPrismaService.closure.create.mockResolvedValue(mockClosure);
+      mockPrismaService.closure.findUnique.mockResolvedValue(mockClosure);
+      mockPrismaService.appointment.findMany.mockResolvedValue([
+        // 09:00 local on the first closed day
+        buildAppointment('a1', '2030-03-05T08:00:00.000Z'),
+        // 23:30 UTC on the day before is already the first closed day in Algiers
+        buildAppointment('a2', '2030-03-04T23:30:00.000Z'),
+        // the day after the closure
+        buildAppointment('a3', '2030-03-07T08:00:00.000Z'),
+      ]);
+
+      const result = await service.createClosure({
+        type: ClosureType.RELIGIOUS_HOLIDAY,
+        name: 'Aïd el-Fitr',
+        startDate: '2030-03-05',
+        endDate: '2030-03-06',
+      });
+
+      expect(mockPrismaService.closure.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          startDate: new Date('2030-03-05T00:00:00.000Z'),
+          endDate: new Date('2030-03-06T00:00:00.000Z'),
+        }),
+      });
+      expect(mockSlotGenerationService.regenerateForScope).toHaveBeenCalledWith(mockClosure);
+      expect(result.data.startDate).toBe('2030-03-05');
+      expect(result.affectedAppointments).toBe(2);
+    });
+
+    it('should reject closures ending before they start', async () => {
+      await expect(
+        service.createClosure({
+          type: ClosureType.OFFICE_CLOSURE,
+          name: 'Travaux',
+          startDate: '2030-03-05',
+          endDate: '2030-03-01',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateClosure', () => {
+    it('should reject unknown services', async () => {
+      mockPrismaService.closure.findUnique.mockResolvedValue(mockClosure);
+      mockPrismaService.service.findUnique.mockResolvedValue(null);
+
+      await expect(service.updateClosure('closure1', { serviceId: 'missing' })).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.closure.update).not.toHaveBeenCalled();
+    });
+
+    it('should refresh slots for both the previous and the new closure days', async () => {
+      const updated = {
+        ...mockClosure,
+        startDate: new Date('2030-04-10T00:00:00.000Z'),
+        endDate: new Date('2030-04-10T00:00:00.000Z'),
+      };
+      mockPrismaService.closure.findUnique
+        .mockResolvedValueOnce(mockClosure)
+        .mockResolvedValue(updated);
+      mockPrismaService.closure.update.mockResolvedValue(updated);
+      mockPrismaService.appointment.findMany.mockResolvedValue([]);
+
+      await service.updateClosure('closure1', { startDate: '2030-04-10', endDate: '2030-04-10' });
+
+      expect(mockSlotGenerationService.regenerateForScope).toHaveBeenCalledWith(mockClosure);
+      expect(mockSlotGenerationService.regenerateForScope).toHaveBeenCalledWith(updated);
+    });
+  });
+
+  describe('getCalendar', () => {
+    it('should include fixed public holidays alongside stored closures', async () => {
+      mockPrismaService.closure.findMany.mockResolvedValue([mockClosure]);
+
+      const result = await service.getCalendar({ from: '2030-03-01', to: '2030-07-31' });
+
+      expect(result.data.map((day) => day.date)).toEqual([
+        '2030-03-05',
+        '2030-03-06',
+        '2030-05-01',
+        '2030-07-05',
+      ]);
+    });
+  });
+
+  describe('cancelAffectedAppointments', () => {
+    it('should cancel, record history and notify each affected appointment', async () => {
+      mockPrismaService.closure.findUnique.mockResolvedValue(mockClosure);
+      mockPrismaService.appointment.findMany.mockResolvedValue([
+        buildAppointment('a1', '2030-03-05T08:00:00.000Z'),
+      ]);
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue({
+        id: 'slot1',
+        capacity: 1,
+        status: AppointmentSlotStatus.FULL,
+      });
+      mockPrismaService.appointment.count.mockResolvedValue(0);
+
+      const result = await service.cancelAffectedAppointments('closure1', {});
+
+      expect(mockPrismaService.appointmentStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          appointmentId: 'a1',
+          event: AppointmentStatusEventType.CANCELLED,
+          toStatus: AppointmentStatus.CANCELLED,
+        }),
+      });
+      expect(mockPrismaService.appointmentSlot.update).toHaveBeenCalledWith({
+        where: { id: 'slot1' },
+        data: { status: AppointmentSlotStatus.AVAILABLE },
+      });
+      expect(mockNotifications.appointmentCancelled).toHaveBeenCalledWith(
+        expect.objectContaining({
+          appointmentId: 'a1',
+          reason: 'The office is closed: Aïd el-Fitr.',
+        }),
+        mockPrismaService,
+      );
+      expect(result.cancelled).toBe(1);
+    });
+
+    it('should throw NotFoundException for unknown closures', async () => {
+      mockPrismaService.closure.findUnique.mockResolvedValue(null);
+
+      await expect(service.cancelAffectedAppointments('missing', {})).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,380 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { DateTime } from 'luxon';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { AppointmentNotificationsService } from '@modules/appointments/appointment-notifications.service';
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
+import { updateSlotOccupancyStatus } from '@modules/appointments/slot-availability';
+import { ClosuresService } from '@modules/scheduling/closures.service';
+import { SlotGenerationService } from '@modules/scheduling/slot-generation.service';
+import {
+  Appointment,
+  AppointmentStatus,
+  AppointmentStatusEventType,
+  Closure,
+  Prisma,
+} from '@prisma/client';
+
+import { AdminCancelClosureAppointmentsDto } from '../dto/admin-cancel-closure-appointments.dto';
+import {
+  AdminClosureCalendarQueryDto,
+  AdminClosuresQueryDto,
+} from '../dto/admin-closures-query.dto';
+import {
+  AdminCancelClosureAppointmentsResponseDto,
+  AdminClosureAffectedAppointmentsResponseDto,
+  AdminClosureCalendarResponseDto,
+  AdminClosureDetailResponseDto,
+  AdminClosureDto,
+  AdminClosureListResponseDto,
+} from '../dto/admin-closures-response.dto';
+import { AdminCreateClosureDto } from '../dto/admin-create-closure.dto';
+import { AdminUpdateClosureDto } from '../dto/admin-update-closure.dto';
+
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_CALENDAR_WINDOW_DAYS = 90;
+
+const FINAL_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.CANCELLED,
+  AppointmentStatus.COMPLETED,
+  AppointmentStatus.NO_SHOW,
+];
+
+@Injectable()
+export class AdminClosuresService {
+  private readonly logger = new Logger(AdminClosuresService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly closures: ClosuresService,
+    private readonly slotGeneration: SlotGenerationService,
+    private readonly notifications: AppointmentNotificationsService,
+    private readonly reminders: AppointmentRemindersService,
+  ) {}
+
+  async listClosures(query: AdminClosuresQueryDto): Promise<AdminClosureListResponseDto> {
+    const page = query.page && query.page > 0 ? query.page : 1;
+    const limit = query.limit && query.limit > 0 ? Math.min(query.limit, MAX_PAGE_SIZE) : 25;
+    const skip = (page - 1) * limit;
+
+    this.logger.verbose(
+      `Admin listing closures page=${page} limit=${limit} filters=${JSON.stringify(query)}`,
+    );
+
+    const where: Prisma.ClosureWhereInput = {};
+
+    if (query.type) {
+      where.type = query.type;
+    }
+
+    if (query.serviceId) {
+      where.serviceId = query.serviceId;
+    }
+
+    if (query.officeId) {
+      where.officeId = query.officeId;
+    }
+
+    if (query.from) {
+      where.endDate = { gte: this.parseDate(query.from) };
+    }
+
+    if (query.to) {
+      where.startDate = { lte: this.parseDate(query.to) };
+    }
+
+    const [closures, total] = await this.prisma.$transaction([
+      this.prisma.closure.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { startDate: 'asc' },
+      }),
+      this.prisma.closure.count({ where }),
+    ]);
+
+    return {
+      data: closures.map((closure) => this.mapClosure(closure)),
+      meta: {
+        page,
+        limit,
+        total,
+      },
+    };
+  }
+
+  async getCalendar(query: AdminClosureCalendarQueryDto): Promise<AdminClosureCalendarResponseDto> {
+    const from = query.from ? this.parseDate(query.from) : DateTime.utc().startOf('day').toJSDate();
+    const to = query.to
+      ? this.parseDate(query.to)
+      : DateTime.fromJSDate(from).plus({ days: DEFAULT_CALENDAR_WINDOW_DAYS }).toJSDate();
+
+    if (to < from) {
+      throw new BadRequestException('The start of the range must be before the end.');
+    }
+
+    const days = await this.closures.listClosedDays(from, to, query.serviceId, query.officeId);
+    const first = DateTime.fromJSDate(from, { zone: 'utc' }).toISODate() as string;
+    const last = DateTime.fromJSDate(to, { zone: 'utc' }).toISODate() as string;
+
+    return {
+      data: days.filter((day) => day.date >= first && day.date <= last),
+    };
+  }
+
+  async getClosureById(id: string): Promise<AdminClosureDetailResponseDto> {
+    this.logger.verbose(`Admin retrieving closure ${id}`);
+
+    const closure = await this.findClosureOrThrow(id);
+    const affected = await this.findAffectedAppointments(closure);
+
+    return {
+      data: this.mapClosure(closure),
+      affectedAppointments: affected.length,
+    };
+  }
+
+  async createClosure(dto: AdminCreateClosureDto): Promise<AdminClosureDetailResponseDto> {
+    this.logger.verbose(`Admin creating closure ${dto.name} on ${dto.startDate}`);
+
+    const startDate = this.parseDate(dto.startDate);
+    const endDate = dto.endDate ? this.parseDate(dto.endDate) : startDate;
+    this.assertValidRange(startDate, endDate);
+
+    if (dto.serviceId) {
+      await this.assertServiceExists(dto.serviceId);
+    }
+
+    if (dto.officeId) {
+      await this.assertOfficeExists(dto.officeId);
+    }
+
+    const closure = await this.prisma.closure.create({
+      data: {
+        type: dto.type,
+        name: dto.name,
+        startDate,
+        endDate,
+        serviceId: dto.serviceId ?? null,
+        officeId: dto.officeId ?? null,
+        notes: dto.notes ?? null,
+      },
+    });
+
+    await this.slotGeneration.regenerateForScope(closure);
+
+    return this.getClosureById(closure.id);
+  }
+
+  async updateClosure(
+    id: string,
+    dto: AdminUpdateClosureDto,
+  ): Promise<AdminClosureDetailResponseDto> {
+    this.logger.verbose(`Admin updating closure ${id}`);
+
+    const closure = await this.findClosureOrThrow(id);
+
+    const startDate = dto.startDate ? this.parseDate(dto.startDate) : closure.startDate;
+    const endDate = dto.endDate ? this.parseDate(dto.endDate) : closure.endDate;
+    this.assertValidRange(startDate, endDate);
+
+    if (dto.serviceId) {
+      await this.assertServiceExists(dto.serviceId);
+    }
+
+    if (dto.officeId) {
+      await this.assertOfficeExists(dto.officeId);
+    }
+
+    const updated = await this.prisma.closure.update({
+      where: { id },
+      data: {
+        startDate,
+        endDate,
+        ...(dto.type !== undefined ? { type: dto.type } : {}),
+        ...(dto.name !== undefined ? { name: dto.name } : {}),
+        ...(dto.serviceId !== undefined ? { serviceId: dto.serviceId } : {}),
+        ...(dto.officeId !== undefined ? { officeId: dto.officeId } : {}),
+        ...(dto.notes !== undefined ? { notes: dto.notes } : {}),
+      },
+    });
+
+    // Both the days the closure covered and the days it covers now may change.
+    await this.slotGeneration.regenerateForScope(closure);
+    await this.slotGeneration.regenerateForScope(updated);
+
+    return this.getClosureById(id);
+  }
+
+  async deleteClosure(id: string): Promise<void> {
+    this.logger.verbose(`Admin deleting closure ${id}`);
+
+    const closure = await this.findClosureOrThrow(id);
+    await this.prisma.closure.delete({ where: { id } });
+    await this.slotGeneration.regenerateForScope(closure);
+  }
+
+  async listAffectedAppointments(id: string): Promise<AdminClosureAffectedAppointmentsResponseDto> {
+    const closure = await this.findClosureOrThrow(id);
+    const appointments = await this.findAffectedAppointments(closure);
+
+    return {
+      data: appointments.map((appointment) => ({
+        id: appointment.id,
+        userId: appointment.userId,
+        serviceId: appointment.serviceId,
+        slotId: appointment.slotId ?? null,
+        status: appointment.status,
+        scheduledAt: appointment.scheduledAt.toISOString(),
+        timezone: appointment.timezone,
+      })),
+    };
+  }
+
+  async cancelAffectedAppointments(
+    id: string,
+    dto: AdminCancelClosureAppointmentsDto,
+  ): Promise<AdminCancelClosureAppointmentsResponseDto> {
+    this.logger.verbose(`Admin cancelling appointments affected by closure ${id}`);
+
+    const closure = await this.findClosureOrThrow(id);
+    const reason = dto.reason ?? `The office is closed: ${closure.name}.`;
+
+    const cancelled = await this.prisma.$transaction(async (tx) => {
+      const appointments = await this.findAffectedAppointments(closure, tx);
+
+      for (const appointment of appointments) {
+        await tx.appointment.update({
+          where: { id: appointment.id },
+          data: { status: AppointmentStatus.CANCELLED },
+        });
+
+        await tx.appointmentStatusHistory.create({
+          data: {
+            appointmentId: appointment.id,
+            event: AppointmentStatusEventType.CANCELLED,
+            fromStatus: appointment.status,
+            toStatus: AppointmentStatus.CANCELLED,
+            notes: reason,
+          },
+        });
+
+        await this.reminders.cancel(appointment.id, tx);
+
+        await this.notifications.appointmentCancelled(
+          {
+            appointmentId: appointment.id,
+            userId: appointment.userId,
+            serviceId: appointment.serviceId,
+            slotId: appointment.slotId ?? null,
+            reason,
+          },
+          tx,
+        );
+      }
+
+      const slotIds = new Set(
+        appointments
+          .map((appointment) => appointment.slotId)
+          .filter((slotId): slotId is string => Boolean(slotId)),
+      );
+
+      for (const slotId of slotIds) {
+        await updateSlotOccupancyStatus(tx, slotId);
+      }
+
+      return appointments;
+    });
+
+    return { cancelled: cancelled.length };
+  }
+
+  private async findAffectedAppointments(
+    closure: Closure,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<Appointment[]> {
+    const first = DateTime.fromJSDate(closure.startDate, { zone: 'utc' });
+    const last = DateTime.fromJSDate(closure.endDate, { zone: 'utc' });
+
+    const candidates = await client.appointment.findMany({
+      where: {
+        status: { notIn: FINAL_APPOINTMENT_STATUSES },
+        scheduledAt: {
+          gte: first.minus({ days: 1 }).toJSDate(),
+          lt: last.plus({ days: 2 }).toJSDate(),
+        },
+        ...(closure.serviceId ? { serviceId: closure.serviceId } : {}),
+        ...(closure.officeId ? { slot: { officeId: closure.officeId } } : {}),
+      },
+      orderBy: { scheduledAt: 'asc' },
+    });
+
+    const firstDate = first.toISODate() as string;
+    const lastDate = last.toISODate() as string;
+
+    return candidates.filter((appointment) => {
+      const localDate = DateTime.fromJSDate(appointment.scheduledAt, {
+        zone: appointment.timezone,
+      }).toISODate();
+
+      return localDate !== null && localDate >= firstDate && localDate <= lastDate;
+    });
+  }
+
+  private async assertServiceExists(serviceId: string): Promise<void> {
+    const service = await this.prisma.service.findUnique({ where: { id: serviceId } });
+
+    if (!service) {
+      throw new NotFoundException('Service not found.');
+    }
+  }
+
+  private async assertOfficeExists(officeId: string): Promise<void> {
+    const office = await this.prisma.office.findUnique({ where: { id: officeId } });
+
+    if (!office) {
+      throw new NotFoundException('Office not found.');
+    }
+  }
+
+  private async findClosureOrThrow(id: string): Promise<Closure> {
+    const closure = await this.prisma.closure.findUnique({ where: { id } });
+
+    if (!closure) {
+      throw new NotFoundException('Closure not found.');
+    }
+
+    return closure;
+  }
+
+  private parseDate(value: string): Date {
+    const parsed = DateTime.fromISO(value, { zone: 'utc' });
+
+    if (!parsed.isValid) {
+      throw new BadRequestException('Invalid date provided.');
+    }
+
+    return parsed.startOf('day').toJSDate();
+  }
+
+  private assertValidRange(startDate: Date, endDate: Date): void {
+    if (endDate < startDate) {
+      throw new BadRequestException('The closure must end on or after its first day.');
+    }
+  }
+
+  private mapClosure(closure: Closure): AdminClosureDto {
+    return {
+      id: closure.id,
+      type: closure.type,
+      name: closure.name,
+      startDate: DateTime.fromJSDate(closure.startDate, { zone: 'utc' }).toISODate() as string,
+      endDate: DateTime.fromJSDate(closure.endDate, { zone: 'utc' }).toISODate() as string,
+      serviceId: closure.serviceId ?? null,
+      officeId: closure.officeId ?? null,
+      notes: closure.notes ?? null,
+      createdAt: closure.createdAt.toISOString(),
+      updatedAt: closure.updatedAt.toISOString(),
+    };
+  }
+}
@@ -48,6 +48,24 @@ describe('AdminLogsService', () => {
     },
   };
 
+  const mockPipelineLog = {
+    id: 'pipeline-1',
+    verificationId: 'verification-1',
+    sequence: 1,
+    stage: 'antivirus',
+    severity: 'INFO',
+    message: 'No threats detected',
+    metadata: { passed: true },
+    createdAt: new Date('2024-01-01T10:00:00Z'),
+    verification: {
+      uploadId: 'upload-1',
+      docType: 'passport',
+      upload: {
+        userId: 'user-1',
+      },
+    },
+  };
+
   beforeEach(async () => {
     const mockPrismaService = {
       $transaction: jest.fn(),
@@ -63,6 +81,10 @@ describe('AdminLogsService', () => {
         findMany: jest.fn(),
         count: jest.fn(),
       },
+      documentVerificationLog: {
+        findMany: jest.fn(),
+        count: jest.fn(),
+      },
     } as unknown as jest.Mocked<PrismaService>;
 
     const module: TestingModule = await Test.createTestingModule({
@@ -227,13 +249,50 @@ describe('AdminLogsService', () => {
         limit: 25,
       };
 
-      prisma.$transaction.mockResolvedValue([[mockStatusLog], [mockValidationLog], 1, 1]);
+      prisma.$transaction.mockResolvedValue([
+        [mockStatusLog],
+        [mockValidationLog],
+        [mockPipelineLog],
+        1,
+        1,
+        1,
+      ]);
 
       const result = await service.listDocumentVerificationLogs(query);
 
       expect(prisma.$transaction).toHaveBeenCalled();
-      expect(result.data.length).toBeGreaterThan(0);
-      expect(result.meta.total).toBe(2);
+      expect(result.data.map((entry) => entry.type)).toEqual(
+        expect.arrayContaining(['status', 'validation', 'verification']),
+      );
+      expect(result.meta.total).toBe(3);
+    });
+
+    it('should return verification pipeline logs only when logType is verification', async () => {
+      const query: AdminDocumentVerificationLogsQueryDto = {
+        logType: 'verification',
+        userId: 'user-1',
+        page: 1,
+        limit: 25,
+      };
+
+      prisma.$transaction.mockResolvedValue([[mockPipelineLog], 1]);
+
+      const result = await service.listDocumentVerificationLogs(query);
+
+      expect(prisma.documentVerificationLog.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { verification: { upload: { userId: 'user-1' } } },
+        }),
+      );
+      expect(result.data[0]).toEqual(
+        expect.objectContaining({
+          type: 'verification',
+          verificationId: 'verification-1',
+          uploadId: 'upload-1',
+          userId: 'user-1',
+          docType: 'passport',
+        }),
+      );
     });
 
     it('should filter by userId', async () => {
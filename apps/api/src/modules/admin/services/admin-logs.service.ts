@@ -19,6 +19,7 @@ import {
   AdminDocumentVerificationLogEntryDto,
   AdminDocumentStatusLogEntryDto,
   AdminDocumentValidationLogEntryDto,
+  AdminDocumentPipelineLogEntryDto,
 } from '../dto/admin-logs-response.dto';
 
 const MAX_PAGE_SIZE = 100;
@@ -33,6 +34,24 @@ type DocumentUploadValidationWithUser = Prisma.DocumentUploadValidationGetPayloa
   };
 }>;
 
+const DOCUMENT_VERIFICATION_LOG_INCLUDE = {
+  verification: {
+    select: {
+      uploadId: true,
+      docType: true,
+      upload: {
+        select: {
+          userId: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.DocumentVerificationLogInclude;
+
+type DocumentVerificationLogWithVerification = Prisma.DocumentVerificationLogGetPayload<{
+  include: typeof DOCUMENT_VERIFICATION_LOG_INCLUDE;
+}>;
+
 @Injectable()
 export class AdminLogsService {
   private readonly logger = new Logger(AdminLogsService.name);
@@ -120,17 +139,16 @@ export class AdminLogsService {
       `Admin listing document verification logs page=${page} limit=${limit} filters=${JSON.stringify(query)}`,
     );
 
-    // Determine which log types to fetch
-    const fetchStatus = !query.logType || query.logType === 'status';
-    const fetchValidation = !query.logType || query.logType === 'validation';
-
-    if (fetchStatus && fetchValidation) {
-      // Fetch both types and merge
-      return this.fetchMergedLogs(query, page, limit, skip);
-    } else if (fetchStatus) {
-      return this.fetchStatusLogsOnly(query, page, limit, skip);
-    } else {
-      return this.fetchValidationLogsOnly(query, page, limit, skip);
+    switch (query.logType) {
+      case 'status':
+        return this.fetchStatusLogsOnly(query, page, limit, skip);
+      case 'validation':
+        return this.fetchValidationLogsOnly(query, page, limit, skip);
+      case 'verification':
+        return this.fetchPipelineLogsOnly(query, page, limit, skip);
+      default:
+        // Fetch every type and merge
+        return this.fetchMergedLogs(query, page, limit, skip);
     }
   }
 
@@ -244,6 +262,40 @@ export class AdminLogsService {
     };
   }
 
+  private async fetchPipelineLogsOnly(
+    query: AdminDocumentVerificationLogsQueryDto,
+    page: number,
+    limit: number,
+    skip: number,
+  ): Promise<AdminDocumentVerificationLogsResponseDto> {
+    const where = this.buildPipelineLogWhere(query);
+    const dateFilter = this.buildDateFilter(query.createdFrom, query.createdTo);
+
+    if (dateFilter) {
+      where.createdAt = dateFilter;
+    }
+
+    const [logs, total] = await this.prisma.$transaction([
+      this.prisma.documentVerificationLog.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ createdAt: 'desc' }, { sequence: 'desc' }],
+        include: DOCUMENT_VERIFICATION_LOG_INCLUDE,
+      }),
+      this.prisma.documentVerificationLog.count({ where }),
+    ]);
+
+    return {
+      data: logs.map((log) => this.mapPipelineLog(log)),
+      meta: {
+        page,
+        limit,
+        total,
+      },
+    };
+  }
+
   private async fetchMergedLogs(
     query: AdminDocumentVerificationLogsQueryDto,
     page: number,
@@ -253,6 +305,7 @@ export class AdminLogsService {
     // Build where clauses for both types
     const statusWhere: Prisma.DocumentUploadStatusHistoryWhereInput = {};
     const validationWhere: Prisma.DocumentUploadValidationWhereInput = {};
+    const pipelineWhere = this.buildPipelineLogWhere(query);
 
     if (query.userId) {
       statusWhere.changedById = query.userId;
@@ -274,10 +327,11 @@ export class AdminLogsService {
     if (dateFilter) {
       statusWhere.createdAt = dateFilter;
       validationWhere.executedAt = dateFilter;
+      pipelineWhere.createdAt = dateFilter;
     }
 
-    // Fetch both types
-    const [statusLogs, validationLogs, statusTotal, validationTotal] =
+    // Fetch every type
+    const [statusLogs, validationLogs, pipelineLogs, statusTotal, validationTotal, pipelineTotal] =
       await this.prisma.$transaction([
         this.prisma.documentUploadStatusHistory.findMany({
           where: statusWhere,
@@ -296,14 +350,22 @@ export class AdminLogsService {
           },
           take: limit * 2,
         }),
+        this.prisma.documentVerificationLog.findMany({
+          where: pipelineWhere,
+          orderBy: [{ createdAt: 'desc' }, { sequence: 'desc' }],
+          include: DOCUMENT_VERIFICATION_LOG_INCLUDE,
+          take: limit * 2,
+        }),
         this.prisma.documentUploadStatusHistory.count({ where: statusWhere }),
         this.prisma.documentUploadValidation.count({ where: validationWhere }),
+        this.prisma.documentVerificationLog.count({ where: pipelineWhere }),
       ]);
 
     // Merge and sort by timestamp
     const allLogs: AdminDocumentVerificationLogEntryDto[] = [
       ...statusLogs.map((log) => this.mapStatusLog(log)),
       ...validationLogs.map((log) => this.mapValidationLog(log)),
+      ...pipelineLogs.map((log) => this.mapPipelineLog(log)),
     ].sort((a, b) => {
       const dateA = 'createdAt' in a ? new Date(a.createdAt) : new Date(a.executedAt);
       const dateB = 'createdAt' in b ? new Date(b.createdAt) : new Date(b.executedAt);
@@ -318,7 +380,23 @@ export class AdminLogsService {
       meta: {
         page,
         limit,
-        total: statusTotal + validationTotal,
+        total: statusTotal + validationTotal + pipelineTotal,
+      },
+    };
+  }
+
+  /** Pipeline logs reach their upload, and its owner, through the verification record. */
+  private buildPipelineLogWhere(
+    query: AdminDocumentVerificationLogsQueryDto,
+  ): Prisma.DocumentVerificationLogWhereInput {
+    if (!query.uploadId && !query.userId) {
+      return {};
+    }
+
+    return {
+      verification: {
+        ...(query.uploadId ? { uploadId: query.uploadId } : {}),
+        ...(query.userId ? { upload: { userId: query.userId } } : {}),
       },
     };
   }
@@ -398,4 +476,22 @@ export class AdminLogsService {
       type: 'validation',
     };
   }
+
+  private mapPipelineLog(
+    log: DocumentVerificationLogWithVerification,
+  ): AdminDocumentPipelineLogEntryDto {
+    return {
+      id: log.id,
+      verificationId: log.verificationId,
+      uploadId: log.verification.uploadId,
+      userId: log.verification.upload?.userId ?? null,
+      docType: log.verification.docType,
+      stage: log.stage,
+      severity: log.severity,
+      message: log.message,
+      metadata: log.metadata,
+      createdAt: log.createdAt.toISOString(),
+      type: 'verification',
+    };
+  }
 }
@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { NotificationChannel, NotificationTemplateVersionStatus } from '@prisma/client';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { NotificationTemplatesService } from '@modules/notifications/notification-templates.service';
+
+import { AdminNotificationTemplatesService } from './admin-notification-templates.service';
+
+describe('AdminNotificationTemplatesService', () => {
+  let service: AdminNotificationTemplatesService;
+
+  const mockTemplate = {
+    id: 'template1',
+    type: 'appointment.booked',
+    channel: NotificationChannel.EMAIL,
+    locale: 'fr',
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const mockPrismaService = {
+    notificationTemplate: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
+    notificationTemplateVersion: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminNotificationTemplatesService,
+        NotificationTemplatesService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AdminNotificationTemplatesService>(AdminNotificationTemplatesService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('createTemplate', () => {
+    const dto = {
+      type: 'appointment.booked' as const,
+      channel: NotificationChannel.EMAIL,
+      locale: 'fr' as const,
+      subject: 'Rendez-vous : {{serviceName}}',
+      body: 'Bonjour {{firstName}}, rendez-vous le {{date}} à {{time}}.',
+    };
+
+    it('should create the template with a draft first version', async () => {
+      mockPrismaService.notificationTemplate.create.mockResolvedValue(mockTemplate);
+
+      await service.createTemplate(dto);
+
+      expect(mockPrismaService.notificationTemplate.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            type: 'appointment.booked',
+            locale: 'fr',
+            versions: {
+              create: expect.objectContaining({ versionNumber: 1, body: dto.body }),
+            },
+          }),
+        }),
+      );
+    });
+
+    it('should reject placeholders the event does not provide', async () => {
+      await expect(
+        service.createTemplate({ ...dto, body: 'Votre position : {{position}}' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.notificationTemplate.create).not.toHaveBeenCalled();
+    });
+
+    it('should require a subject for email templates', async () => {
+      await expect(service.createTemplate({ ...dto, subject: undefined })).rejects.toThrow(
+        'Email templates require a subject.',
+      );
+    });
+
+    it('should report an existing template for the same type, channel and locale', async () => {
+      mockPrismaService.notificationTemplate.create.mockRejectedValue({ code: 'P2002' });
+
+      await expect(service.createTemplate(dto)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('createVersion', () => {
+    it('should number versions after the latest one', async () => {
+      mockPrismaService.notificationTemplate.findUnique.mockResolvedValue(mockTemplate);
+      mockPrismaService.notificationTemplateVersion.findFirst.mockResolvedValue({
+        versionNumber: 2,
+      });
+
+      await service.createVersion('template1', {
+        subject: 'Rendez-vous : {{serviceName}}',
+        body: 'Bureau : {{officeName}}',
+      });
+
+      expect(mockPrismaService.notificationTemplateVersion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ templateId: 'template1', versionNumber: 3 }),
+      });
+    });
+
+    it('should throw NotFoundException for an unknown template', async () => {
+      mockPrismaService.notificationTemplate.findUnique.mockResolvedValue(null);
+
+      await expect(service.createVersion('missing', { body: 'Bonjour' })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('publishVersion', () => {
+    it('should archive the active version and activate the requested one', async () => {
+      mockPrismaService.notificationTemplateVersion.findFirst.mockResolvedValue({
+        id: 'version2',
+        templateId: 'template1',
+        status: NotificationTemplateVersionStatus.DRAFT,
+      });
+      mockPrismaService.notificationTemplateVersion.update.mockResolvedValue({
+        id: 'version2',
+        status: NotificationTemplateVersionStatus.ACTIVE,
+      });
+
+      await service.publishVersion('template1', 'version2');
+
+      expect(mockPrismaService.notificationTemplateVersion.updateMany).toHaveBeenCalledWith({
+        where: { templateId: 'template1', status: NotificationTemplateVersionStatus.ACTIVE },
+        data: {
+          status: NotificationTemplateVersionStatus.ARCHIVED,
+          retiredAt: expect.any(Date),
+        },
+      });
+      expect(mockPrismaService.notificationTemplateVersion.update).toHaveBeenCalledWith({
+        where: { id: 'version2' },
+        data: expect.objectContaining({ status: NotificationTemplateVersionStatus.ACTIVE }),
+      });
+    });
+
+    it('should throw NotFoundException when the version belongs to another template', async () => {
+      mockPrismaService.notificationTemplateVersion.findFirst.mockResolvedValue(null);
+
+      await expect(service.publishVersion('template1', 'version9')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('previewTemplate', () => {
+    it('should render Arabic templates right-to-left with sample values', () => {
+      const preview = service.previewTemplate({
+        type: 'appointment.booked',
+        channel: NotificationChannel.SMS,
+        locale: 'ar',
+        body: '{{serviceName}}: {{time}}',
+        values: { time: '11:15' },
+      });
+
+      expect(preview).toEqual({
+        locale: 'ar',
+        direction: 'rtl',
+        subject: null,
+        body: 'بطاقة التعريف الوطنية البيومترية: 11:15',
+      });
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { NotificationTemplateVersionStatus, Prisma } from '@prisma/client';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { NOTIFICATION_PLACEHOLDERS } from '@modules/notifications/notification-placeholders';
+import { NotificationTemplatesService } from '@modules/notifications/notification-templates.service';
+
+import {
+  AdminCreateNotificationTemplateDto,
+  AdminNotificationTemplateVersionDto,
+} from '../dto/admin-create-notification-template.dto';
+import { AdminNotificationTemplatesQueryDto } from '../dto/admin-notification-templates-query.dto';
+import { AdminPreviewNotificationTemplateDto } from '../dto/admin-preview-notification-template.dto';
+
+const templateInclude = {
+  versions: {
+    orderBy: { versionNumber: 'desc' },
+  },
+} satisfies Prisma.NotificationTemplateInclude;
+
+@Injectable()
+export class AdminNotificationTemplatesService {
+  private readonly logger = new Logger(AdminNotificationTemplatesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationTemplatesService: NotificationTemplatesService,
+  ) {}
+
+  async listTemplates(params: AdminNotificationTemplatesQueryDto) {
+    const page = params.page ?? 1;
+    const limit = params.limit ?? 25;
+    const skip = (page - 1) * limit;
+
+    this.logger.verbose(
+      `Admin listing notification templates page=${page} limit=${limit}${params.type ? ` type=${params.type}` : ''}${params.channel ? ` channel=${params.channel}` : ''}${params.locale ? ` locale=${params.locale}` : ''}`,
+    );
+
+    const where: Prisma.NotificationTemplateWhereInput = {
+      type: params.type,
+      channel: params.channel,
+      locale: params.locale,
+    };
+
+    const [templates, total] = await this.prisma.$transaction([
+      this.prisma.notificationTemplate.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ type: 'asc' }, { channel: 'asc' }, { locale: 'asc' }],
+        include: {
+          versions: {
+            select: {
+              id: true,
+              versionNumber: true,
+              status: true,
+              publishedAt: true,
+              createdAt: true,
+            },
+            orderBy: { versionNumber: 'desc' },
+            take: 5,
+          },
+        },
+      }),
+      this.prisma.notificationTemplate.count({ where }),
+    ]);
+
+    return {
+      data: templates,
+      meta: {
+        page,
+        limit,
+        total,
+      },
+    };
+  }
+
+  getPlaceholders() {
+    return NOTIFICATION_PLACEHOLDERS;
+  }
+
+  async getTemplateById(id: string) {
+    this.logger.verbose(`Admin retrieving notification template ${id}`);
+
+    const template = await this.prisma.notificationTemplate.findUnique({
+      where: { id },
+      include: templateInclude,
+    });
+
+    if (!template) {
+      throw new NotFoundException(`Notification template ${id} not found`);
+    }
+
+    return template;
+  }
+
+  async createTemplate(dto: AdminCreateNotificationTemplateDto) {
+    this.logger.verbose(
+      `Admin creating notification template ${dto.type} ${dto.channel} ${dto.locale}`,
+    );
+
+    this.notificationTemplatesService.assertValid(dto.type, dto.channel, this.toContent(dto));
+
+    try {
+      return await this.prisma.notificationTemplate.create({
+        data: {
+          type: dto.type,
+          channel: dto.channel,
+          locale: dto.locale,
+          description: dto.description,
+          versions: {
+            create: {
+              versionNumber: 1,
+              subject: dto.subject ?? null,
+              body: dto.body,
+              changeLog: dto.changeLog,
+            },
+          },
+        },
+        include: templateInclude,
+      });
+    } catch (error) {
+      if (this.isUniqueConstraintError(error)) {
+        throw new ConflictException(
+          `A ${dto.channel} template for ${dto.type} in ${dto.locale} already exists.`,
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  async createVersion(templateId: string, dto: AdminNotificationTemplateVersionDto) {
+    this.logger.verbose(`Admin creating a version of notification template ${templateId}`);
+
+    const template = await this.prisma.notificationTemplate.findUnique({
+      where: { id: templateId },
+    });
+
+    if (!template) {
+      throw new NotFoundException(`Notification template ${templateId} not found`);
+    }
+
+    this.notificationTemplatesService.assertValid(
+      template.type,
+      template.channel,
+      this.toContent(dto),
+    );
+
+    return this.prisma.notificationTemplateVersion.create({
+      data: {
+        templateId,
+        versionNumber: await this.getNextVersionNumber(templateId),
+        subject: dto.subject ?? null,
+        body: dto.body,
+        changeLog: dto.changeLog,
+      },
+    });
+  }
+
+  /**
+   * Makes a version the one used for delivery. The previously active version
+   * is archived so each template has at most one ACTIVE version.
+   */
+  async publishVersion(templateId: string, versionId: string) {
+    this.logger.verbose(
+      `Admin publishing notification template ${templateId} version ${versionId}`,
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      const version = await tx.notificationTemplateVersion.findFirst({
+        where: { id: versionId, templateId },
+      });
+
+      if (!version) {
+        throw new NotFoundException(
+          `Version ${versionId} of notification template ${templateId} not found`,
+        );
+      }
+
+      if (version.status === NotificationTemplateVersionStatus.ACTIVE) {
+        return version;
+      }
+
+      const now = new Date();
+
+      await tx.notificationTemplateVersion.updateMany({
+        where: { templateId, status: NotificationTemplateVersionStatus.ACTIVE },
+        data: { status: NotificationTemplateVersionStatus.ARCHIVED, retiredAt: now },
+      });
+
+      return tx.notificationTemplateVersion.update({
+        where: { id: versionId },
+        data: {
+          status: NotificationTemplateVersionStatus.ACTIVE,
+          publishedAt: now,
+          retiredAt: null,
+        },
+      });
+    });
+  }
+
+  previewTemplate(dto: AdminPreviewNotificationTemplateDto) {
+    this.logger.verbose(`Admin previewing ${dto.channel} template ${dto.type} in ${dto.locale}`);
+
+    return this.notificationTemplatesService.preview(
+      dto.type,
+      dto.channel,
+      dto.locale,
+      this.toContent(dto),
+      dto.values,
+    );
+  }
+
+  async deleteTemplate(id: string) {
+    this.logger.verbose(`Admin deleting notification template ${id}`);
+
+    try {
+      await this.prisma.notificationTemplate.delete({
+        where: { id },
+      });
+    } catch (error) {
+      if (this.isRecordNotFoundError(error)) {
+        throw new NotFoundException(`Notification template ${id} not found`);
+      }
+
+      throw error;
+    }
+  }
+
+  private toContent(dto: { subject?: string; body: string }) {
+    return { subject: dto.subject ?? null, body: dto.body };
+  }
+
+  private async getNextVersionNumber(templateId: string): Promise<number> {
+    const latest = await this.prisma.notificationTemplateVersion.findFirst({
+      where: { templateId },
+      orderBy: { versionNumber: 'desc' },
+    });
+
+    return latest ? latest.versionNumber + 1 : 1;
+  }
+
+  private isUniqueConstraintError(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2002';
+  }
+
+  private isRecordNotFoundError(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2025';
+  }
+}
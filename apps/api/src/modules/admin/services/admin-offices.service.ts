@@ -0,0 +1,43 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { OfficesService } from '@modules/offices/offices.service';
+import { OfficesQueryDto } from '@modules/offices/dto/offices-query.dto';
+import {
+  OfficeDetailResponseDto,
+  OfficeListResponseDto,
+} from '@modules/offices/dto/office-responses.dto';
+
+import { AdminCreateOfficeDto } from '../dto/admin-create-office.dto';
+import { AdminUpdateOfficeDto } from '../dto/admin-update-office.dto';
+
+@Injectable()
+export class AdminOfficesService {
+  private readonly logger = new Logger(AdminOfficesService.name);
+
+  constructor(private readonly officesService: OfficesService) {}
+
+  async listOffices(query: OfficesQueryDto): Promise<OfficeListResponseDto> {
+    this.logger.verbose('Admin listing offices');
+    return this.officesService.listOffices(query);
+  }
+
+  async getOfficeById(id: string): Promise<OfficeDetailResponseDto> {
+    this.logger.verbose(`Admin retrieving office ${id}`);
+    return this.officesService.getOfficeById(id);
+  }
+
+  async createOffice(dto: AdminCreateOfficeDto): Promise<OfficeDetailResponseDto> {
+    this.logger.verbose('Admin creating office');
+    return this.officesService.createOffice(dto);
+  }
+
+  async updateOffice(id: string, dto: AdminUpdateOfficeDto): Promise<OfficeDetailResponseDto> {
+    this.logger.verbose(`Admin updating office ${id}`);
+    return this.officesService.updateOffice(id, dto);
+  }
+
+  async deleteOffice(id: string): Promise<void> {
+    this.logger.verbose(`Admin deleting office ${id}`);
+    await this.officesService.deleteOffice(id);
+  }
+}
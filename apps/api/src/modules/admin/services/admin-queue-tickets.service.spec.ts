@@ -2,7 +2,10 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { NotFoundException } from '@nestjs/common';
 
 import { PrismaService } from '@prisma/prisma.service';
-import { QueueTicketStatus } from '@prisma/client';
+import { QueuePriorityClass, QueueTicketStatus } from '@prisma/client';
+import { QueueBoardService } from '@modules/appointments/queue-board.service';
+import { QueueEtaService } from '@modules/appointments/queue-eta.service';
+import { QueuePriorityService } from '@modules/appointments/queue-priority.service';
 
 import { AdminQueueTicketsService } from './admin-queue-tickets.service';
 
@@ -23,6 +26,20 @@ describe('AdminQueueTicketsService', () => {
     $transaction: jest.fn((callback) => callback(mockPrismaService)),
   };
 
+  const mockQueueBoard = {
+    publish: jest.fn(),
+  };
+
+  const mockQueueEta = {
+    estimate: jest.fn(),
+    estimateOne: jest.fn(),
+  };
+
+  const mockQueuePriority = {
+    changePriority: jest.fn(),
+    listHistory: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -31,12 +48,26 @@ describe('AdminQueueTicketsService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: QueueBoardService,
+          useValue: mockQueueBoard,
+        },
+        {
+          provide: QueueEtaService,
+          useValue: mockQueueEta,
+        },
+        {
+          provide: QueuePriorityService,
+          useValue: mockQueuePriority,
+        },
       ],
     }).compile();
 
     service = module.get<AdminQueueTicketsService>(AdminQueueTicketsService);
 
     jest.clearAllMocks();
+    mockQueueEta.estimate.mockResolvedValue(new Map());
+    mockQueueEta.estimateOne.mockResolvedValue(null);
   });
 
   it('should be defined', () => {
@@ -204,13 +235,52 @@ describe('AdminQueueTicketsService', () => {
     });
   });
 
+  describe('setQueueTicketPriority', () => {
+    it('should record the administrator and refresh the board', async () => {
+      mockQueuePriority.changePriority.mockResolvedValueOnce({ id: '1', serviceId: 'service1' });
+      mockPrismaService.queueTicket.findUnique.mockResolvedValueOnce({
+        id: '1',
+        serviceId: 'service1',
+        status: QueueTicketStatus.WAITING,
+        priorityClass: QueuePriorityClass.ELDERLY,
+        requestedPriorityClass: null,
+        position: 1,
+        timezone: 'UTC',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const result = await service.setQueueTicketPriority(
+        '1',
+        { priorityClass: QueuePriorityClass.ELDERLY, reason: 'ID card checked at the desk' },
+        'admin1',
+      );
+
+      expect(mockQueuePriority.changePriority).toHaveBeenCalledWith(
+        '1',
+        {
+          priorityClass: QueuePriorityClass.ELDERLY,
+          changedById: 'admin1',
+          reason: 'ID card checked at the desk',
+        },
+        mockPrismaService,
+      );
+      expect(mockQueueBoard.publish).toHaveBeenCalledWith('service1');
+      expect(result.data.priorityClass).toBe(QueuePriorityClass.ELDERLY);
+    });
+  });
+
   describe('deleteQueueTicket', () => {
     it('should delete a queue ticket', async () => {
-      mockPrismaService.queueTicket.delete.mockResolvedValueOnce({});
+      mockPrismaService.queueTicket.delete.mockResolvedValueOnce({
+        id: '1',
+        serviceId: 'service1',
+      });
 
       await service.deleteQueueTicket('1');
 
       expect(mockPrismaService.queueTicket.delete).toHaveBeenCalledWith({ where: { id: '1' } });
+      expect(mockQueueBoard.publish).toHaveBeenCalledWith('service1');
     });
   });
 });
@@ -1,10 +1,24 @@
 import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 
 import { PrismaService } from '@prisma/prisma.service';
-import { QueueTicketDetailResponseDto, QueueTicketResponseDto } from '@modules/appointments/dto';
+import {
+  QueuePriorityRuleDto,
+  QueuePriorityRuleListResponseDto,
+  QueueTicketDetailResponseDto,
+  QueueTicketEtaDto,
+  QueueTicketPriorityHistoryResponseDto,
+  QueueTicketResponseDto,
+} from '@modules/appointments/dto';
+import { QueueBoardService, toQueueTicketNumber } from '@modules/appointments/queue-board.service';
+import { QueueEtaService } from '@modules/appointments/queue-eta.service';
+import { QueuePriorityService } from '@modules/appointments/queue-priority.service';
 import { AdminQueueTicketsQueryDto } from '../dto/admin-queue-tickets-query.dto';
 import { AdminUpdateQueueTicketDto } from '../dto/admin-update-queue-ticket.dto';
-import { QueueTicketStatus, AppointmentSlotStatus } from '@prisma/client';
+import {
+  AdminSetQueuePriorityDto,
+  AdminUpdateQueuePriorityRuleDto,
+} from '../dto/admin-queue-priority.dto';
+import { QueueTicketStatus, AppointmentSlotStatus, QueuePriorityClass } from '@prisma/client';
 import { Prisma } from '@prisma/client';
 
 const MAX_PAGE_SIZE = 100;
@@ -28,7 +42,12 @@ type QueueTicketWithRelations = Prisma.QueueTicketGetPayload<{
 export class AdminQueueTicketsService {
   private readonly logger = new Logger(AdminQueueTicketsService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly queueBoard: QueueBoardService,
+    private readonly queueEta: QueueEtaService,
+    private readonly queuePriority: QueuePriorityService,
+  ) {}
 
   async listQueueTickets(query: AdminQueueTicketsQueryDto): Promise<{
     data: QueueTicketResponseDto[];
@@ -56,6 +75,14 @@ export class AdminQueueTicketsService {
       where.status = query.status;
     }
 
+    if (query.priorityClass) {
+      where.priorityClass = query.priorityClass;
+    }
+
+    if (query.priorityPending) {
+      where.requestedPriorityClass = { not: null };
+    }
+
     const [tickets, total] = await this.prisma.$transaction([
       this.prisma.queueTicket.findMany({
         where,
@@ -78,8 +105,10 @@ export class AdminQueueTicketsService {
       this.prisma.queueTicket.count({ where }),
     ]);
 
+    const estimates = await this.queueEta.estimate(tickets);
+
     return {
-      data: tickets.map((ticket) => this.mapQueueTicket(ticket)),
+      data: tickets.map((ticket) => this.mapQueueTicket(ticket, estimates.get(ticket.id))),
       meta: {
         page,
         limit,
@@ -112,7 +141,7 @@ export class AdminQueueTicketsService {
     }
 
     return {
-      data: this.mapQueueTicket(ticket),
+      data: this.mapQueueTicket(ticket, await this.queueEta.estimateOne(ticket)),
     };
   }
 
@@ -206,28 +235,90 @@ export class AdminQueueTicketsService {
       return updated;
     });
 
+    this.queueBoard.publish(result.serviceId);
+
     return this.getQueueTicketById(result.id);
   }
 
+  /**
+   * Grants a priority class to a ticket, or revokes it with STANDARD, once
+   * an administrator has checked the holder's situation.
+   */
+  async setQueueTicketPriority(
+    id: string,
+    dto: AdminSetQueuePriorityDto,
+    adminId: string,
+  ): Promise<QueueTicketDetailResponseDto> {
+    this.logger.verbose(
+      `Admin ${adminId} setting priority ${dto.priorityClass} on queue ticket ${id}`,
+    );
+
+    const ticket = await this.prisma.$transaction((tx) =>
+      this.queuePriority.changePriority(
+        id,
+        { priorityClass: dto.priorityClass, changedById: adminId, reason: dto.reason },
+        tx,
+      ),
+    );
+
+    this.queueBoard.publish(ticket.serviceId);
+
+    return this.getQueueTicketById(ticket.id);
+  }
+
+  async getQueueTicketPriorityHistory(id: string): Promise<QueueTicketPriorityHistoryResponseDto> {
+    const ticket = await this.prisma.queueTicket.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!ticket) {
+      throw new NotFoundException('Queue ticket not found.');
+    }
+
+    return { data: await this.queuePriority.listHistory(id) };
+  }
+
+  async listPriorityRules(): Promise<QueuePriorityRuleListResponseDto> {
+    return { data: await this.queuePriority.listRules() };
+  }
+
+  async updatePriorityRule(
+    priorityClass: QueuePriorityClass,
+    dto: AdminUpdateQueuePriorityRuleDto,
+  ): Promise<QueuePriorityRuleDto> {
+    return this.queuePriority.updateRule(priorityClass, dto);
+  }
+
   async deleteQueueTicket(id: string): Promise<void> {
     this.logger.verbose(`Admin deleting queue ticket ${id}`);
 
-    await this.prisma.queueTicket.delete({ where: { id } });
+    const ticket = await this.prisma.queueTicket.delete({ where: { id } });
+
+    this.queueBoard.publish(ticket.serviceId);
   }
 
-  private mapQueueTicket(ticket: QueueTicketWithRelations): QueueTicketResponseDto {
+  private mapQueueTicket(
+    ticket: QueueTicketWithRelations,
+    eta: QueueTicketEtaDto | null = null,
+  ): QueueTicketResponseDto {
     return {
       id: ticket.id,
+      number: toQueueTicketNumber(ticket.id),
       serviceId: ticket.serviceId,
       slotId: ticket.slotId,
+      dependentId: ticket.dependentId,
       status: ticket.status,
       position: ticket.position,
+      priorityClass: ticket.priorityClass,
+      requestedPriorityClass: ticket.requestedPriorityClass,
       desiredFrom: ticket.desiredFrom?.toISOString() ?? null,
       desiredTo: ticket.desiredTo?.toISOString() ?? null,
       timezone: ticket.timezone,
       notifiedAt: ticket.notifiedAt?.toISOString() ?? null,
       expiresAt: ticket.expiresAt?.toISOString() ?? null,
       notes: ticket.notes ?? null,
+      eta,
       createdAt: ticket.createdAt.toISOString(),
       updatedAt: ticket.updatedAt.toISOString(),
     };
@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { SpecialistAssignmentsService } from '@modules/appointments/specialist-assignments.service';
+import { OfficesService } from '@modules/offices/offices.service';
+import { SlotGenerationService } from '@modules/scheduling/slot-generation.service';
+
+import { AdminScheduleTemplatesService } from './admin-schedule-templates.service';
+
+describe('AdminScheduleTemplatesService', () => {
+  let service: AdminScheduleTemplatesService;
+
+  const mockTemplate = {
+    id: 'template1',
+    serviceId: 'service1',
+    officeId: null,
+    specialistId: null,
+    name: 'Daïra opening hours',
+    timezone: 'Africa/Algiers',
+    daysOfWeek: [7, 1, 2, 3, 4],
+    openTime: '08:00',
+    closeTime: '16:00',
+    breakStartTime: '12:00',
+    breakEndTime: '13:00',
+    intervalMinutes: null,
+    capacity: 1,
+    bufferBeforeMinutes: 0,
+    bufferAfterMinutes: 0,
+    horizonDays: 28,
+    validFrom: null,
+    validTo: null,
+    isActive: true,
+    lastGeneratedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const mockPrismaService = {
+    service: {
+      findUnique: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    scheduleTemplate: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  const mockSlotGenerationService = {
+    regenerateTemplate: jest.fn(),
+    regenerateActiveTemplates: jest.fn(),
+  };
+
+  const createDto = {
+    serviceId: 'service1',
+    name: 'Daïra opening hours',
+    timezone: 'Africa/Algiers',
+    daysOfWeek: [7, 1, 2, 3, 4],
+    openTime: '08:00',
+    closeTime: '16:00',
+    breakStartTime: '12:00',
+    breakEndTime: '13:00',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminScheduleTemplatesService,
+        OfficesService,
+        SpecialistAssignmentsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: SlotGenerationService,
+          useValue: mockSlotGenerationService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AdminScheduleTemplatesService>(AdminScheduleTemplatesService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('createTemplate', () => {
+    it('should create a template and generate its slots', async () => {
+      mockPrismaService.service.findUnique.mockResolvedValue({ id: 'service1' });
+      mockPrismaService.scheduleTemplate.create.mockResolvedValue(mockTemplate);
+      mockPrismaService.scheduleTemplate.findUnique.mockResolvedValue(mockTemplate);
+
+      const result = await service.createTemplate(createDto);
+
+      expect(mockSlotGenerationService.regenerateTemplate).toHaveBeenCalledWith('template1');
+      expect(result.data).toMatchObject({ id: 'template1', horizonDays: 28 });
+    });
+
+    it('should reject closing times before opening times', async () => {
+      await expect(
+        service.createTemplate({ ...createDto, openTime: '16:00', closeTime: '08:00' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject breaks outside the opening hours', async () => {
+      await expect(
+        service.createTemplate({ ...createDto, breakStartTime: '17:00', breakEndTime: '18:00' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject unknown timezones', async () => {
+      await expect(
+        service.createTemplate({ ...createDto, timezone: 'Mars/Olympus' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should regenerate slots after updating the rule', async () => {
+      mockPrismaService.scheduleTemplate.findUnique.mockResolvedValue(mockTemplate);
+
+      await service.updateTemplate('template1', { capacity: 3 });
+
+      expect(mockPrismaService.scheduleTemplate.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ capacity: 3 }) }),
+      );
+      expect(mockSlotGenerationService.regenerateTemplate).toHaveBeenCalledWith('template1');
+    });
+
+    it('should throw NotFoundException for unknown templates', async () => {
+      mockPrismaService.scheduleTemplate.findUnique.mockResolvedValue(null);
+
+      await expect(service.updateTemplate('missing', {})).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('deleteTemplate', () => {
+    it('should release unbooked slots before deleting', async () => {
+      mockPrismaService.scheduleTemplate.findUnique.mockResolvedValue(mockTemplate);
+
+      await service.deleteTemplate('template1');
+
+      expect(mockPrismaService.scheduleTemplate.update).toHaveBeenCalledWith({
+        where: { id: 'template1' },
+        data: { isActive: false },
+      });
+      expect(mockSlotGenerationService.regenerateTemplate).toHaveBeenCalledWith('template1');
+      expect(mockPrismaService.scheduleTemplate.delete).toHaveBeenCalledWith({
+        where: { id: 'template1' },
+      });
+    });
+  });
+});
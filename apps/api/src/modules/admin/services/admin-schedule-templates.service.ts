@@ -0,0 +1,309 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { IANAZone } from 'luxon';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { SpecialistAssignmentsService } from '@modules/appointments/specialist-assignments.service';
+import { OfficesService } from '@modules/offices/offices.service';
+import { SlotGenerationService } from '@modules/scheduling/slot-generation.service';
+import { parseTimeOfDay } from '@modules/scheduling/utils/schedule-windows.utils';
+import { Prisma, ScheduleTemplate } from '@prisma/client';
+
+import { AdminCreateScheduleTemplateDto } from '../dto/admin-create-schedule-template.dto';
+import { AdminScheduleTemplatesQueryDto } from '../dto/admin-schedule-templates-query.dto';
+import {
+  AdminScheduleTemplateDetailResponseDto,
+  AdminScheduleTemplateDto,
+  AdminScheduleTemplateListResponseDto,
+  AdminSlotGenerationResponseDto,
+} from '../dto/admin-schedule-templates-response.dto';
+import { AdminUpdateScheduleTemplateDto } from '../dto/admin-update-schedule-template.dto';
+
+const MAX_PAGE_SIZE = 100;
+
+type ScheduleRuleFields = Pick<
+  ScheduleTemplate,
+  | 'timezone'
+  | 'openTime'
+  | 'closeTime'
+  | 'breakStartTime'
+  | 'breakEndTime'
+  | 'validFrom'
+  | 'validTo'
+>;
+
+@Injectable()
+export class AdminScheduleTemplatesService {
+  private readonly logger = new Logger(AdminScheduleTemplatesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly slotGeneration: SlotGenerationService,
+    private readonly offices: OfficesService,
+    private readonly specialists: SpecialistAssignmentsService,
+  ) {}
+
+  async listTemplates(
+    query: AdminScheduleTemplatesQueryDto,
+  ): Promise<AdminScheduleTemplateListResponseDto> {
+    const page = query.page && query.page > 0 ? query.page : 1;
+    const limit = query.limit && query.limit > 0 ? Math.min(query.limit, MAX_PAGE_SIZE) : 25;
+    const skip = (page - 1) * limit;
+
+    this.logger.verbose(
+      `Admin listing schedule templates page=${page} limit=${limit} filters=${JSON.stringify(query)}`,
+    );
+
+    const where: Prisma.ScheduleTemplateWhereInput = {};
+
+    if (query.serviceId) {
+      where.serviceId = query.serviceId;
+    }
+
+    if (query.officeId) {
+      where.officeId = query.officeId;
+    }
+
+    if (query.specialistId) {
+      where.specialistId = query.specialistId;
+    }
+
+    if (query.isActive !== undefined) {
+      where.isActive = query.isActive;
+    }
+
+    const [templates, total] = await this.prisma.$transaction([
+      this.prisma.scheduleTemplate.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.scheduleTemplate.count({ where }),
+    ]);
+
+    return {
+      data: templates.map((template) => this.mapTemplate(template)),
+      meta: {
+        page,
+        limit,
+        total,
+      },
+    };
+  }
+
+  async getTemplateById(id: string): Promise<AdminScheduleTemplateDetailResponseDto> {
+    this.logger.verbose(`Admin retrieving schedule template ${id}`);
+
+    const template = await this.prisma.scheduleTemplate.findUnique({ where: { id } });
+
+    if (!template) {
+      throw new NotFoundException('Schedule template not found.');
+    }
+
+    return {
+      data: this.mapTemplate(template),
+    };
+  }
+
+  async createTemplate(
+    dto: AdminCreateScheduleTemplateDto,
+  ): Promise<AdminScheduleTemplateDetailResponseDto> {
+    this.logger.verbose(`Admin creating schedule template for service ${dto.serviceId}`);
+
+    const rule = {
+      timezone: dto.timezone,
+      openTime: dto.openTime,
+      closeTime: dto.closeTime,
+      breakStartTime: dto.breakStartTime ?? null,
+      breakEndTime: dto.breakEndTime ?? null,
+      validFrom: dto.validFrom ? new Date(dto.validFrom) : null,
+      validTo: dto.validTo ? new Date(dto.validTo) : null,
+    };
+    this.assertValidRule(rule);
+
+    const service = await this.prisma.service.findUnique({ where: { id: dto.serviceId } });
+
+    if (!service) {
+      throw new NotFoundException('Service not found.');
+    }
+
+    if (dto.officeId) {
+      await this.offices.assertOfficeServesService(dto.officeId, dto.serviceId);
+    }
+
+    if (dto.specialistId) {
+      await this.specialists.assertSpecialist(dto.specialistId);
+    }
+
+    const template = await this.prisma.scheduleTemplate.create({
+      data: {
+        ...rule,
+        serviceId: dto.serviceId,
+        officeId: dto.officeId ?? null,
+        specialistId: dto.specialistId ?? null,
+        name: dto.name,
+        daysOfWeek: dto.daysOfWeek,
+        intervalMinutes: dto.intervalMinutes ?? null,
+        capacity: dto.capacity ?? 1,
+        bufferBeforeMinutes: dto.bufferBeforeMinutes ?? 0,
+        bufferAfterMinutes: dto.bufferAfterMinutes ?? 0,
+        horizonDays: dto.horizonDays ?? 28,
+        isActive: dto.isActive ?? true,
+      },
+    });
+
+    await this.slotGeneration.regenerateTemplate(template.id);
+
+    return this.getTemplateById(template.id);
+  }
+
+  async updateTemplate(
+    id: string,
+    dto: AdminUpdateScheduleTemplateDto,
+  ): Promise<AdminScheduleTemplateDetailResponseDto> {
+    this.logger.verbose(`Admin updating schedule template ${id}`);
+
+    const template = await this.prisma.scheduleTemplate.findUnique({ where: { id } });
+
+    if (!template) {
+      throw new NotFoundException('Schedule template not found.');
+    }
+
+    const rule: ScheduleRuleFields = {
+      timezone: dto.timezone ?? template.timezone,
+      openTime: dto.openTime ?? template.openTime,
+      closeTime: dto.closeTime ?? template.closeTime,
+      breakStartTime:
+        dto.breakStartTime !== undefined ? dto.breakStartTime : template.breakStartTime,
+      breakEndTime: dto.breakEndTime !== undefined ? dto.breakEndTime : template.breakEndTime,
+      validFrom: dto.validFrom !== undefined ? new Date(dto.validFrom) : template.validFrom,
+      validTo: dto.validTo !== undefined ? new Date(dto.validTo) : template.validTo,
+    };
+    this.assertValidRule(rule);
+
+    if (dto.officeId) {
+      await this.offices.assertOfficeServesService(dto.officeId, template.serviceId);
+    }
+
+    if (dto.specialistId) {
+      await this.specialists.assertSpecialist(dto.specialistId);
+    }
+
+    await this.prisma.scheduleTemplate.update({
+      where: { id },
+      data: {
+        ...rule,
+        ...(dto.officeId !== undefined ? { officeId: dto.officeId } : {}),
+        ...(dto.specialistId !== undefined ? { specialistId: dto.specialistId } : {}),
+        ...(dto.name !== undefined ? { name: dto.name } : {}),
+        ...(dto.daysOfWeek !== undefined ? { daysOfWeek: dto.daysOfWeek } : {}),
+        ...(dto.intervalMinutes !== undefined ? { intervalMinutes: dto.intervalMinutes } : {}),
+        ...(dto.capacity !== undefined ? { capacity: dto.capacity } : {}),
+        ...(dto.bufferBeforeMinutes !== undefined
+          ? { bufferBeforeMinutes: dto.bufferBeforeMinutes }
+          : {}),
+        ...(dto.bufferAfterMinutes !== undefined
+          ? { bufferAfterMinutes: dto.bufferAfterMinutes }
+          : {}),
+        ...(dto.horizonDays !== undefined ? { horizonDays: dto.horizonDays } : {}),
+        ...(dto.isActive !== undefined ? { isActive: dto.isActive } : {}),
+      },
+    });
+
+    await this.slotGeneration.regenerateTemplate(id);
+
+    return this.getTemplateById(id);
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    this.logger.verbose(`Admin deleting schedule template ${id}`);
+
+    const template = await this.prisma.scheduleTemplate.findUnique({ where: { id } });
+
+    if (!template) {
+      throw new NotFoundException('Schedule template not found.');
+    }
+
+    // Deactivating first lets the generator drop every unbooked future slot;
+    // booked slots survive and are detached from the template by the FK.
+    await this.prisma.scheduleTemplate.update({
+      where: { id },
+      data: { isActive: false },
+    });
+    await this.slotGeneration.regenerateTemplate(id);
+    await this.prisma.scheduleTemplate.delete({ where: { id } });
+  }
+
+  async generateTemplateSlots(id: string): Promise<AdminSlotGenerationResponseDto> {
+    this.logger.verbose(`Admin generating slots for schedule template ${id}`);
+
+    const result = await this.slotGeneration.regenerateTemplate(id);
+
+    return { data: [result] };
+  }
+
+  async generateAllSlots(): Promise<AdminSlotGenerationResponseDto> {
+    this.logger.verbose('Admin generating slots for all active schedule templates');
+
+    const results = await this.slotGeneration.regenerateActiveTemplates();
+
+    return { data: results };
+  }
+
+  private assertValidRule(rule: ScheduleRuleFields): void {
+    if (!IANAZone.isValidZone(rule.timezone)) {
+      throw new BadRequestException('Invalid timezone provided.');
+    }
+
+    const open = parseTimeOfDay(rule.openTime);
+    const close = parseTimeOfDay(rule.closeTime);
+
+    if (close <= open) {
+      throw new BadRequestException('The closing time must be after the opening time.');
+    }
+
+    if (Boolean(rule.breakStartTime) !== Boolean(rule.breakEndTime)) {
+      throw new BadRequestException('Both the break start and end times must be provided.');
+    }
+
+    if (rule.breakStartTime && rule.breakEndTime) {
+      const breakStart = parseTimeOfDay(rule.breakStartTime);
+      const breakEnd = parseTimeOfDay(rule.breakEndTime);
+
+      if (breakEnd <= breakStart || breakStart < open || breakEnd > close) {
+        throw new BadRequestException('The break must fall within the opening hours.');
+      }
+    }
+
+    if (rule.validFrom && rule.validTo && rule.validFrom > rule.validTo) {
+      throw new BadRequestException('The validity start must be before its end.');
+    }
+  }
+
+  private mapTemplate(template: ScheduleTemplate): AdminScheduleTemplateDto {
+    return {
+      id: template.id,
+      serviceId: template.serviceId,
+      officeId: template.officeId ?? null,
+      specialistId: template.specialistId ?? null,
+      name: template.name,
+      timezone: template.timezone,
+      daysOfWeek: template.daysOfWeek,
+      openTime: template.openTime,
+      closeTime: template.closeTime,
+      breakStartTime: template.breakStartTime ?? null,
+      breakEndTime: template.breakEndTime ?? null,
+      intervalMinutes: template.intervalMinutes ?? null,
+      capacity: template.capacity,
+      bufferBeforeMinutes: template.bufferBeforeMinutes,
+      bufferAfterMinutes: template.bufferAfterMinutes,
+      horizonDays: template.horizonDays,
+      validFrom: template.validFrom?.toISOString() ?? null,
+      validTo: template.validTo?.toISOString() ?? null,
+      isActive: template.isActive,
+      lastGeneratedAt: template.lastGeneratedAt?.toISOString() ?? null,
+      createdAt: template.createdAt.toISOString(),
+      updatedAt: template.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,371 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
+import { AppointmentNotificationsService } from '@modules/appointments/appointment-notifications.service';
+import { SpecialistAssignmentsService } from '@modules/appointments/specialist-assignments.service';
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
+import { AppointmentsService } from '@modules/appointments/appointments.service';
+import { OfficesService } from '@modules/offices/offices.service';
+import {
+  AppointmentSlotStatus,
+  AppointmentStatus,
+  AppointmentStatusEventType,
+  QueueTicketStatus,
+} from '@prisma/client';
+
+import { AdminSlotsService } from './admin-slots.service';
+
+describe('AdminSlotsService', () => {
+  let service: AdminSlotsService;
+
+  const mockSlot = {
+    id: 'slot1',
+    serviceId: 'service1',
+    officeId: null,
+    specialistId: null,
+    startAt: new Date('2030-01-01T09:00:00.000Z'),
+    endAt: new Date('2030-01-01T09:30:00.000Z'),
+    timezone: 'Africa/Algiers',
+    capacity: 2,
+    bufferBeforeMinutes: 0,
+    bufferAfterMinutes: 0,
+    status: AppointmentSlotStatus.AVAILABLE,
+    notes: null,
+    metadata: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const mockPrismaService = {
+    service: {
+      findUnique: jest.fn(),
+    },
+    office: {
+      findUnique: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    appointmentSlot: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    appointment: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+    },
+    appointmentStatusHistory: {
+      create: jest.fn(),
+    },
+    queueTicket: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    slotHold: {
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  const mockNotifications = {
+    appointmentCancelled: jest.fn(),
+    queueTicketUpdated: jest.fn(),
+  };
+
+  const mockReminders = {
+    sync: jest.fn(),
+    cancel: jest.fn(),
+  };
+
+  const mockWaitlist = {
+    resequenceQueue: jest.fn(),
+    offerFreedSeats: jest.fn(),
+    publishBoards: jest.fn(),
+  };
+
+  const mockAppointmentsService = {
+    countOccupiedSeats: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminSlotsService,
+        OfficesService,
+        SpecialistAssignmentsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: AppointmentRemindersService,
+          useValue: mockReminders,
+        },
+        {
+          provide: AppointmentNotificationsService,
+          useValue: mockNotifications,
+        },
+        {
+          provide: WaitlistPromotionService,
+          useValue: mockWaitlist,
+        },
+        {
+          provide: AppointmentsService,
+          useValue: mockAppointmentsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AdminSlotsService>(AdminSlotsService);
+
+    jest.clearAllMocks();
+    mockWaitlist.offerFreedSeats.mockResolvedValue([]);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('listSlots', () => {
+    it('should return paginated slots with booking counts', async () => {
+      mockPrismaService.$transaction.mockResolvedValueOnce([
+        [{ ...mockSlot, appointments: [{ id: 'a1' }], queueTickets: [] }],
+        1,
+      ]);
+
+      const result = await service.listSlots({ page: 1, limit: 10 });
+
+      expect(result.data[0]).toMatchObject({ id: 'slot1', bookedCount: 1, available: 1 });
+      expect(result.meta).toEqual({ page: 1, limit: 10, total: 1 });
+    });
+
+    it('should reject inverted ranges', async () => {
+      await expect(
+        service.listSlots({
+          startFrom: '2030-01-02T00:00:00.000Z',
+          startTo: '2030-01-01T00:00:00.000Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('createSlot', () => {
+    it('should create a slot for an existing service', async () => {
+      mockPrismaService.service.findUnique.mockResolvedValue({ id: 'service1' });
+      mockPrismaService.appointmentSlot.create.mockResolvedValue(mockSlot);
+
+      const result = await service.createSlot({
+        serviceId: 'service1',
+        startAt: '2030-01-01T09:00:00.000Z',
+        endAt: '2030-01-01T09:30:00.000Z',
+        timezone: 'Africa/Algiers',
+        capacity: 2,
+      });
+
+      expect(result.data.id).toBe('slot1');
+      expect(mockPrismaService.appointmentSlot.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ capacity: 2, bufferBeforeMinutes: 0 }),
+        }),
+      );
+    });
+
+    it('should reject offices that do not deliver the service', async () => {
+      mockPrismaService.service.findUnique.mockResolvedValue({ id: 'service1' });
+      mockPrismaService.office.findUnique.mockResolvedValue({
+        id: 'office1',
+        services: [{ officeId: 'office1', serviceId: 'service2' }],
+      });
+
+      await expect(
+        service.createSlot({
+          serviceId: 'service1',
+          officeId: 'office1',
+          startAt: '2030-01-01T09:00:00.000Z',
+          endAt: '2030-01-01T09:30:00.000Z',
+          timezone: 'Africa/Algiers',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.appointmentSlot.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject users that are not specialists', async () => {
+      mockPrismaService.service.findUnique.mockResolvedValue({ id: 'service1' });
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user1',
+        role: { name: 'client' },
+      });
+
+      await expect(
+        service.createSlot({
+          serviceId: 'service1',
+          specialistId: 'user1',
+          startAt: '2030-01-01T09:00:00.000Z',
+          endAt: '2030-01-01T09:30:00.000Z',
+          timezone: 'Africa/Algiers',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.appointmentSlot.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject slots ending before they start', async () => {
+      await expect(
+        service.createSlot({
+          serviceId: 'service1',
+          startAt: '2030-01-01T10:00:00.000Z',
+          endAt: '2030-01-01T09:30:00.000Z',
+          timezone: 'Africa/Algiers',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException when the service does not exist', async () => {
+      mockPrismaService.service.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.createSlot({
+          serviceId: 'missing',
+          startAt: '2030-01-01T09:00:00.000Z',
+          endAt: '2030-01-01T09:30:00.000Z',
+          timezone: 'Africa/Algiers',
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('updateSlot', () => {
+    it('should refuse to lower capacity below booked or held seats', async () => {
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue(mockSlot);
+      mockPrismaService.appointment.count.mockResolvedValue(0);
+      // one appointment and one seat held for a queue ticket
+      mockAppointmentsService.countOccupiedSeats.mockResolvedValue(2);
+
+      await expect(service.updateSlot('slot1', { capacity: 1 })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockAppointmentsService.countOccupiedSeats).toHaveBeenCalledWith(
+        'slot1',
+        mockPrismaService,
+      );
+      expect(mockPrismaService.appointmentSlot.update).not.toHaveBeenCalled();
+    });
+
+    it('should update buffers and recompute occupancy', async () => {
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue(mockSlot);
+      mockPrismaService.appointment.count.mockResolvedValue(0);
+      mockPrismaService.queueTicket.count.mockResolvedValue(0);
+
+      await service.updateSlot('slot1', { bufferAfterMinutes: 10 });
+
+      expect(mockPrismaService.appointmentSlot.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'slot1' },
+          data: expect.objectContaining({ bufferAfterMinutes: 10 }),
+        }),
+      );
+      expect(mockWaitlist.offerFreedSeats).not.toHaveBeenCalled();
+    });
+
+    it('should offer added seats to the waitlist', async () => {
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue(mockSlot);
+      mockAppointmentsService.countOccupiedSeats.mockResolvedValue(2);
+      mockWaitlist.offerFreedSeats.mockResolvedValue([{ id: 'ticket1', serviceId: 'service1' }]);
+
+      await service.updateSlot('slot1', { capacity: 3 });
+
+      expect(mockWaitlist.offerFreedSeats).toHaveBeenCalledWith('slot1', mockPrismaService);
+      expect(mockWaitlist.publishBoards).toHaveBeenCalledWith(['service1']);
+    });
+  });
+
+  describe('cancelSlot', () => {
+    it('should cancel booked appointments and active queue tickets', async () => {
+      mockPrismaService.appointmentSlot.findUnique
+        .mockResolvedValueOnce(mockSlot)
+        .mockResolvedValueOnce({ ...mockSlot, status: AppointmentSlotStatus.CANCELLED });
+      mockPrismaService.appointment.findMany.mockResolvedValue([
+        {
+          id: 'appointment1',
+          userId: 'user1',
+          serviceId: 'service1',
+          status: AppointmentStatus.SCHEDULED,
+        },
+      ]);
+      mockPrismaService.queueTicket.findMany
+        .mockResolvedValueOnce([
+          {
+            id: 'ticket1',
+            userId: 'user2',
+            serviceId: 'service1',
+            status: QueueTicketStatus.WAITING,
+          },
+        ])
+        .mockResolvedValueOnce([]);
+      mockPrismaService.appointment.count.mockResolvedValue(0);
+      mockPrismaService.queueTicket.count.mockResolvedValue(0);
+
+      const result = await service.cancelSlot('slot1', { reason: 'Closed' });
+
+      expect(mockPrismaService.appointmentStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          appointmentId: 'appointment1',
+          event: AppointmentStatusEventType.CANCELLED,
+          toStatus: AppointmentStatus.CANCELLED,
+          notes: 'Closed',
+        }),
+      });
+      expect(mockPrismaService.queueTicket.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: QueueTicketStatus.CANCELLED }),
+        }),
+      );
+      expect(mockNotifications.appointmentCancelled).toHaveBeenCalledTimes(1);
+      expect(mockNotifications.queueTicketUpdated).toHaveBeenCalledTimes(1);
+      expect(mockWaitlist.resequenceQueue).toHaveBeenCalledWith('service1', mockPrismaService);
+      expect(mockPrismaService.slotHold.deleteMany).toHaveBeenCalledWith({
+        where: { slotId: 'slot1' },
+      });
+      expect(result.cancelledAppointments).toBe(1);
+      expect(result.cancelledQueueTickets).toBe(1);
+    });
+
+    it('should reject slots that are already cancelled', async () => {
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue({
+        ...mockSlot,
+        status: AppointmentSlotStatus.CANCELLED,
+      });
+
+      await expect(service.cancelSlot('slot1', {})).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('deleteSlot', () => {
+    it('should refuse to delete slots with active bookings', async () => {
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue(mockSlot);
+      mockPrismaService.appointment.count.mockResolvedValue(1);
+
+      await expect(service.deleteSlot('slot1')).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.appointmentSlot.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete empty slots', async () => {
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue(mockSlot);
+      mockPrismaService.appointment.count.mockResolvedValue(0);
+
+      await service.deleteSlot('slot1');
+
+      expect(mockPrismaService.appointmentSlot.delete).toHaveBeenCalledWith({
+        where: { id: 'slot1' },
+      });
+    });
+  });
+});
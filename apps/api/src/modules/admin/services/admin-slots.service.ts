@@ -0,0 +1,501 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { AppointmentNotificationsService } from '@modules/appointments/appointment-notifications.service';
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
+import { AppointmentsService } from '@modules/appointments/appointments.service';
+import { SpecialistAssignmentsService } from '@modules/appointments/specialist-assignments.service';
+import { updateSlotOccupancyStatus } from '@modules/appointments/slot-availability';
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
+import { OfficesService } from '@modules/offices/offices.service';
+import {
+  AppointmentSlot,
+  AppointmentSlotStatus,
+  AppointmentStatus,
+  AppointmentStatusEventType,
+  Prisma,
+  QueueTicketStatus,
+} from '@prisma/client';
+
+import { AdminCancelSlotDto } from '../dto/admin-cancel-slot.dto';
+import { AdminCreateSlotDto } from '../dto/admin-create-slot.dto';
+import { AdminSlotsQueryDto } from '../dto/admin-slots-query.dto';
+import {
+  AdminCancelSlotResponseDto,
+  AdminSlotDetailResponseDto,
+  AdminSlotDto,
+  AdminSlotListResponseDto,
+} from '../dto/admin-slots-response.dto';
+import { AdminUpdateSlotDto } from '../dto/admin-update-slot.dto';
+
+const MAX_PAGE_SIZE = 100;
+
+const ACTIVE_QUEUE_STATUSES: QueueTicketStatus[] = [
+  QueueTicketStatus.WAITING,
+  QueueTicketStatus.NOTIFIED,
+];
+
+type SlotWithCounts = AppointmentSlot & {
+  bookedCount: number;
+  queueLength: number;
+};
+
+@Injectable()
+export class AdminSlotsService {
+  private readonly logger = new Logger(AdminSlotsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notifications: AppointmentNotificationsService,
+    private readonly offices: OfficesService,
+    private readonly specialists: SpecialistAssignmentsService,
+    private readonly reminders: AppointmentRemindersService,
+    private readonly waitlist: WaitlistPromotionService,
+    private readonly appointments: AppointmentsService,
+  ) {}
+
+  async listSlots(query: AdminSlotsQueryDto): Promise<AdminSlotListResponseDto> {
+    const page = query.page && query.page > 0 ? query.page : 1;
+    const limit = query.limit && query.limit > 0 ? Math.min(query.limit, MAX_PAGE_SIZE) : 25;
+    const skip = (page - 1) * limit;
+
+    this.logger.verbose(
+      `Admin listing slots page=${page} limit=${limit} filters=${JSON.stringify(query)}`,
+    );
+
+    const where: Prisma.AppointmentSlotWhereInput = {};
+
+    if (query.serviceId) {
+      where.serviceId = query.serviceId;
+    }
+
+    if (query.officeId) {
+      where.officeId = query.officeId;
+    }
+
+    if (query.specialistId) {
+      where.specialistId = query.specialistId;
+    }
+
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    if (query.startFrom || query.startTo) {
+      const from = query.startFrom ? new Date(query.startFrom) : undefined;
+      const to = query.startTo ? new Date(query.startTo) : undefined;
+
+      if (from && to && from > to) {
+        throw new BadRequestException('The start of the range must be before the end.');
+      }
+
+      where.startAt = {
+        ...(from ? { gte: from } : {}),
+        ...(to ? { lte: to } : {}),
+      };
+    }
+
+    const [slots, total] = await this.prisma.$transaction([
+      this.prisma.appointmentSlot.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { startAt: 'asc' },
+        include: {
+          appointments: {
+            where: { status: { not: AppointmentStatus.CANCELLED } },
+            select: { id: true },
+          },
+          queueTickets: {
+            where: { status: { in: ACTIVE_QUEUE_STATUSES } },
+            select: { id: true },
+          },
+        },
+      }),
+      this.prisma.appointmentSlot.count({ where }),
+    ]);
+
+    return {
+      data: slots.map(({ appointments, queueTickets, ...slot }) =>
+        this.mapSlot({
+          ...slot,
+          bookedCount: appointments.length,
+          queueLength: queueTickets.length,
+        }),
+      ),
+      meta: {
+        page,
+        limit,
+        total,
+      },
+    };
+  }
+
+  async getSlotById(id: string): Promise<AdminSlotDetailResponseDto> {
+    this.logger.verbose(`Admin retrieving slot ${id}`);
+
+    const slot = await this.findSlotWithCounts(this.prisma, id);
+
+    return {
+      data: this.mapSlot(slot),
+    };
+  }
+
+  async createSlot(dto: AdminCreateSlotDto): Promise<AdminSlotDetailResponseDto> {
+    this.logger.verbose(`Admin creating slot for service ${dto.serviceId}`);
+
+    const startAt = new Date(dto.startAt);
+    const endAt = new Date(dto.endAt);
+    this.assertValidRange(startAt, endAt);
+
+    const service = await this.prisma.service.findUnique({ where: { id: dto.serviceId } });
+
+    if (!service) {
+      throw new NotFoundException('Service not found.');
+    }
+
+    if (dto.officeId) {
+      await this.offices.assertOfficeServesService(dto.officeId, dto.serviceId);
+    }
+
+    if (dto.specialistId) {
+      await this.specialists.assertSpecialist(dto.specialistId);
+    }
+
+    const slot = await this.prisma.appointmentSlot.create({
+      data: {
+        serviceId: dto.serviceId,
+        officeId: dto.officeId ?? null,
+        specialistId: dto.specialistId ?? null,
+        startAt,
+        endAt,
+        timezone: dto.timezone,
+        capacity: dto.capacity ?? 1,
+        bufferBeforeMinutes: dto.bufferBeforeMinutes ?? 0,
+        bufferAfterMinutes: dto.bufferAfterMinutes ?? 0,
+        notes: dto.notes ?? null,
+        ...(dto.metadata ? { metadata: dto.metadata as Prisma.InputJsonValue } : {}),
+      },
+    });
+
+    return {
+      data: this.mapSlot({ ...slot, bookedCount: 0, queueLength: 0 }),
+    };
+  }
+
+  async updateSlot(id: string, dto: AdminUpdateSlotDto): Promise<AdminSlotDetailResponseDto> {
+    this.logger.verbose(`Admin updating slot ${id}`);
+
+    const offered = await this.prisma.$transaction(async (tx) => {
+      const slot = await tx.appointmentSlot.findUnique({ where: { id } });
+
+      if (!slot) {
+        throw new NotFoundException('Appointment slot not found.');
+      }
+
+      if (slot.status === AppointmentSlotStatus.CANCELLED) {
+        throw new BadRequestException('Cancelled slots cannot be edited.');
+      }
+
+      const startAt = dto.startAt ? new Date(dto.startAt) : slot.startAt;
+      const endAt = dto.endAt ? new Date(dto.endAt) : slot.endAt;
+      this.assertValidRange(startAt, endAt);
+
+      const activeCount = await tx.appointment.count({
+        where: {
+          slotId: id,
+          status: { not: AppointmentStatus.CANCELLED },
+        },
+      });
+
+      // Seats held for the waitlist or in the booking wizard were promised too.
+      const occupiedCount =
+        dto.capacity !== undefined ? await this.appointments.countOccupiedSeats(id, tx) : 0;
+
+      if (dto.capacity !== undefined && dto.capacity < occupiedCount) {
+        throw new BadRequestException(
+          `Capacity cannot be lower than the ${occupiedCount} booked or held seat(s) on this slot.`,
+        );
+      }
+
+      const timeChanged =
+        startAt.getTime() !== slot.startAt.getTime() || endAt.getTime() !== slot.endAt.getTime();
+
+      if (timeChanged && activeCount > 0) {
+        throw new BadRequestException(
+          'The slot has active bookings; reschedule them before moving the slot.',
+        );
+      }
+
+      const officeChanged = dto.officeId !== undefined && dto.officeId !== slot.officeId;
+
+      if (officeChanged && activeCount > 0) {
+        throw new BadRequestException(
+          'The slot has active bookings; reschedule them before moving the slot to another office.',
+        );
+      }
+
+      if (officeChanged && dto.officeId) {
+        await this.offices.assertOfficeServesService(dto.officeId, slot.serviceId, tx);
+      }
+
+      const updateData: Prisma.AppointmentSlotUpdateInput = {
+        startAt,
+        endAt,
+      };
+
+      if (dto.timezone !== undefined) {
+        updateData.timezone = dto.timezone;
+      }
+
+      if (officeChanged && dto.officeId) {
+        updateData.office = { connect: { id: dto.officeId } };
+      }
+
+      if (dto.specialistId !== undefined && dto.specialistId !== slot.specialistId) {
+        await this.specialists.assertSpecialist(dto.specialistId, tx);
+        updateData.specialist = { connect: { id: dto.specialistId } };
+      }
+
+      if (dto.capacity !== undefined) {
+        updateData.capacity = dto.capacity;
+      }
+
+      if (dto.bufferBeforeMinutes !== undefined) {
+        updateData.bufferBeforeMinutes = dto.bufferBeforeMinutes;
+      }
+
+      if (dto.bufferAfterMinutes !== undefined) {
+        updateData.bufferAfterMinutes = dto.bufferAfterMinutes;
+      }
+
+      if (dto.notes !== undefined) {
+        updateData.notes = dto.notes.length ? dto.notes : null;
+      }
+
+      if (dto.metadata !== undefined) {
+        updateData.metadata = dto.metadata as Prisma.InputJsonValue;
+      }
+
+      await tx.appointmentSlot.update({
+        where: { id },
+        data: updateData,
+      });
+
+      await updateSlotOccupancyStatus(tx, id);
+
+      // Extra seats go to the waitlist straight away.
+      return dto.capacity !== undefined && dto.capacity > slot.capacity
+        ? this.waitlist.offerFreedSeats(id, tx)
+        : [];
+    });
+
+    this.waitlist.publishBoards(offered.map((ticket) => ticket.serviceId));
+
+    return this.getSlotById(id);
+  }
+
+  async cancelSlot(id: string, dto: AdminCancelSlotDto): Promise<AdminCancelSlotResponseDto> {
+    this.logger.verbose(`Admin cancelling slot ${id}`);
+
+    const reason = dto.reason ?? 'The appointment slot was cancelled by the office.';
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const slot = await tx.appointmentSlot.findUnique({ where: { id } });
+
+      if (!slot) {
+        throw new NotFoundException('Appointment slot not found.');
+      }
+
+      if (slot.status === AppointmentSlotStatus.CANCELLED) {
+        throw new BadRequestException('The slot has already been cancelled.');
+      }
+
+      const appointments = await tx.appointment.findMany({
+        where: {
+          slotId: id,
+          status: { not: AppointmentStatus.CANCELLED },
+        },
+      });
+
+      for (const appointment of appointments) {
+        await tx.appointment.update({
+          where: { id: appointment.id },
+          data: { status: AppointmentStatus.CANCELLED },
+        });
+
+        await tx.appointmentStatusHistory.create({
+          data: {
+            appointmentId: appointment.id,
+            event: AppointmentStatusEventType.CANCELLED,
+            fromStatus: appointment.status,
+            toStatus: AppointmentStatus.CANCELLED,
+            notes: reason,
+          },
+        });
+
+        await this.reminders.cancel(appointment.id, tx);
+
+        await this.notifications.appointmentCancelled(
+          {
+            appointmentId: appointment.id,
+            userId: appointment.userId,
+            serviceId: appointment.serviceId,
+            slotId: id,
+            reason,
+          },
+          tx,
+        );
+      }
+
+      const tickets = await tx.queueTicket.findMany({
+        where: {
+          slotId: id,
+          status: { in: ACTIVE_QUEUE_STATUSES },
+        },
+      });
+
+      if (tickets.length) {
+        await tx.queueTicket.updateMany({
+          where: { id: { in: tickets.map((ticket) => ticket.id) } },
+          data: {
+            status: QueueTicketStatus.CANCELLED,
+            notifiedAt: null,
+            expiresAt: null,
+          },
+        });
+
+        for (const ticket of tickets) {
+          await this.notifications.queueTicketUpdated(
+            {
+              ticketId: ticket.id,
+              userId: ticket.userId,
+              serviceId: ticket.serviceId,
+              status: QueueTicketStatus.CANCELLED,
+            },
+            tx,
+          );
+        }
+
+        await this.waitlist.resequenceQueue(slot.serviceId, tx);
+      }
+
+      // Wizards holding a seat of the slot stop counting down for it.
+      await tx.slotHold.deleteMany({ where: { slotId: id } });
+
+      await tx.appointmentSlot.update({
+        where: { id },
+        data: { status: AppointmentSlotStatus.CANCELLED },
+      });
+
+      return { appointments, tickets };
+    });
+
+    const { data } = await this.getSlotById(id);
+
+    return {
+      data,
+      cancelledAppointments: result.appointments.length,
+      cancelledQueueTickets: result.tickets.length,
+    };
+  }
+
+  async deleteSlot(id: string): Promise<void> {
+    this.logger.verbose(`Admin deleting slot ${id}`);
+
+    await this.prisma.$transaction(async (tx) => {
+      const slot = await tx.appointmentSlot.findUnique({ where: { id } });
+
+      if (!slot) {
+        throw new NotFoundException('Appointment slot not found.');
+      }
+
+      const activeCount = await tx.appointment.count({
+        where: {
+          slotId: id,
+          status: { not: AppointmentStatus.CANCELLED },
+        },
+      });
+
+      if (activeCount > 0) {
+        throw new ConflictException(
+          'The slot has active bookings; cancel the slot instead of deleting it.',
+        );
+      }
+
+      await tx.appointmentSlot.delete({ where: { id } });
+    });
+  }
+
+  private async findSlotWithCounts(
+    client: Prisma.TransactionClient,
+    id: string,
+  ): Promise<SlotWithCounts> {
+    const slot = await client.appointmentSlot.findUnique({ where: { id } });
+
+    if (!slot) {
+      throw new NotFoundException('Appointment slot not found.');
+    }
+
+    const [bookedCount, queueLength] = await Promise.all([
+      client.appointment.count({
+        where: {
+          slotId: id,
+          status: { not: AppointmentStatus.CANCELLED },
+        },
+      }),
+      client.queueTicket.count({
+        where: {
+          slotId: id,
+          status: { in: ACTIVE_QUEUE_STATUSES },
+        },
+      }),
+    ]);
+
+    return { ...slot, bookedCount, queueLength };
+  }
+
+  private assertValidRange(startAt: Date, endAt: Date): void {
+    if (Number.isNaN(startAt.getTime()) || Number.isNaN(endAt.getTime())) {
+      throw new BadRequestException('Invalid slot dates provided.');
+    }
+
+    if (endAt <= startAt) {
+      throw new BadRequestException('The slot must end after it starts.');
+    }
+  }
+
+  private mapSlot(slot: SlotWithCounts): AdminSlotDto {
+    const available =
+      slot.status === AppointmentSlotStatus.CANCELLED
+        ? 0
+        : Math.max(slot.capacity - slot.bookedCount, 0);
+
+    return {
+      id: slot.id,
+      serviceId: slot.serviceId,
+      officeId: slot.officeId ?? null,
+      specialistId: slot.specialistId ?? null,
+      startAt: slot.startAt.toISOString(),
+      endAt: slot.endAt.toISOString(),
+      timezone: slot.timezone,
+      capacity: slot.capacity,
+      bookedCount: slot.bookedCount,
+      available,
+      queueLength: slot.queueLength,
+      status: slot.status,
+      bufferBeforeMinutes: slot.bufferBeforeMinutes,
+      bufferAfterMinutes: slot.bufferAfterMinutes,
+      notes: slot.notes ?? null,
+      metadata: slot.metadata ?? null,
+      createdAt: slot.createdAt.toISOString(),
+      updatedAt: slot.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,255 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { AppointmentStatus, AppointmentStatusEventType } from '@prisma/client';
+
+import { ROLE } from '@common/constants/role.constants';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { PrismaService } from '@prisma/prisma.service';
+
+import { AppointmentAttendanceService } from './appointment-attendance.service';
+import { toAppointmentReference } from './appointment-reference';
+import { AppointmentRemindersService } from './appointment-reminders.service';
+
+describe('AppointmentAttendanceService', () => {
+  let service: AppointmentAttendanceService;
+
+  const now = new Date('2030-01-02T08:30:00.000Z');
+  const appointmentId = '3f2a9c1e-0000-4000-8000-000000000001';
+  const staff: AuthenticatedUser = {
+    id: 'specialist1',
+    email: 'agent@example.com',
+    role: ROLE.SPECIALIST,
+    firstName: 'Karim',
+    lastName: 'Haddad',
+    phoneNumber: null,
+    locale: 'fr',
+  };
+
+  const mockPrismaService = {
+    appointment: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    appointmentStatusHistory: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  const mockReminders = {
+    cancel: jest.fn(),
+  };
+
+  const buildAppointment = (overrides: Record<string, unknown> = {}) => ({
+    id: appointmentId,
+    status: AppointmentStatus.CONFIRMED,
+    scheduledAt: new Date('2030-01-02T09:00:00.000Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AppointmentAttendanceService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AppointmentRemindersService, useValue: mockReminders },
+      ],
+    }).compile();
+
+    service = module.get<AppointmentAttendanceService>(AppointmentAttendanceService);
+
+    jest.clearAllMocks();
+    mockPrismaService.appointment.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('checkIn', () => {
+    it('should find the appointment from its reference code', async () => {
+      mockPrismaService.appointment.findMany.mockResolvedValue([buildAppointment()]);
+
+      const id = await service.checkIn(' 3f2a-9c1e ', staff, now);
+
+      expect(id).toBe(appointmentId);
+      expect(mockPrismaService.appointment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            id: {
+              gte: '3f2a9c1e-0000-0000-0000-000000000000',
+              lte: '3f2a9c1e-ffff-ffff-ffff-ffffffffffff',
+            },
+          },
+        }),
+      );
+      expect(mockPrismaService.appointment.updateMany).toHaveBeenCalledWith({
+        where: { id: appointmentId, status: AppointmentStatus.CONFIRMED },
+        data: { status: AppointmentStatus.CHECKED_IN, checkedInAt: now },
+      });
+      expect(mockPrismaService.appointmentStatusHistory.create).toHaveBeenCalledWith({
+        data: {
+          appointmentId,
+          event: AppointmentStatusEventType.CHECKED_IN,
+          fromStatus: AppointmentStatus.CONFIRMED,
+          toStatus: AppointmentStatus.CHECKED_IN,
+          notes: 'Checked in by reference',
+          metadata: { staffId: 'specialist1' },
+        },
+      });
+      expect(mockReminders.cancel).toHaveBeenCalledWith(appointmentId, mockPrismaService);
+    });
+
+    it('should find the appointment from its QR code payload', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(buildAppointment());
+
+      await service.checkIn(`appointment:${appointmentId}`, staff, now);
+
+      expect(mockPrismaService.appointment.findUnique).toHaveBeenCalledWith({
+        where: { id: appointmentId },
+      });
+      expect(mockPrismaService.appointmentStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ notes: 'Checked in by QR code' }),
+      });
+    });
+
+    it('should leave checked-in appointments untouched', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(
+        buildAppointment({ status: AppointmentStatus.CHECKED_IN }),
+      );
+
+      await service.checkIn(`appointment:${appointmentId}`, staff, now);
+
+      expect(mockPrismaService.appointment.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse check-ins before the check-in window opens', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(
+        buildAppointment({ scheduledAt: new Date('2030-01-02T12:00:00.000Z') }),
+      );
+
+      await expect(service.checkIn(`appointment:${appointmentId}`, staff, now)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should refuse cancelled appointments', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(
+        buildAppointment({ status: AppointmentStatus.CANCELLED }),
+      );
+
+      await expect(service.checkIn(`appointment:${appointmentId}`, staff, now)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should ask for the QR code when a reference is ambiguous', async () => {
+      mockPrismaService.appointment.findMany.mockResolvedValue([
+        buildAppointment(),
+        buildAppointment({ id: '3f2a9c1e-0000-4000-8000-000000000002' }),
+      ]);
+
+      await expect(service.checkIn('3F2A9C1E', staff, now)).rejects.toThrow(ConflictException);
+    });
+
+    it('should report unknown references', async () => {
+      mockPrismaService.appointment.findMany.mockResolvedValue([]);
+
+      await expect(service.checkIn('DEADBEEF', staff, now)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject malformed codes', async () => {
+      await expect(service.checkIn('appointment:42', staff, now)).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(service.checkIn('XYZ', staff, now)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('start', () => {
+    it('should start checked-in appointments', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(
+        buildAppointment({ status: AppointmentStatus.CHECKED_IN }),
+      );
+
+      await service.start(appointmentId, staff, now);
+
+      expect(mockPrismaService.appointment.updateMany).toHaveBeenCalledWith({
+        where: { id: appointmentId, status: AppointmentStatus.CHECKED_IN },
+        data: { status: AppointmentStatus.IN_PROGRESS, startedAt: now },
+      });
+      expect(mockPrismaService.appointmentStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ event: AppointmentStatusEventType.STARTED }),
+      });
+    });
+
+    it('should refuse appointments that are not checked in', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(buildAppointment());
+
+      await expect(service.start(appointmentId, staff, now)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should report concurrent updates', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(
+        buildAppointment({ status: AppointmentStatus.CHECKED_IN }),
+      );
+      mockPrismaService.appointment.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.start(appointmentId, staff, now)).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.appointmentStatusHistory.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('complete', () => {
+    it('should complete in-progress appointments', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(
+        buildAppointment({ status: AppointmentStatus.IN_PROGRESS }),
+      );
+
+      await service.complete(appointmentId, staff, now);
+
+      expect(mockPrismaService.appointment.updateMany).toHaveBeenCalledWith({
+        where: { id: appointmentId, status: AppointmentStatus.IN_PROGRESS },
+        data: { status: AppointmentStatus.COMPLETED, completedAt: now },
+      });
+    });
+  });
+
+  describe('markNoShows', () => {
+    it('should mark overdue appointments and skip those checked in meanwhile', async () => {
+      mockPrismaService.appointment.findMany.mockResolvedValue([
+        { id: 'appointment1', status: AppointmentStatus.CONFIRMED },
+        { id: 'appointment2', status: AppointmentStatus.SCHEDULED },
+      ]);
+      mockPrismaService.appointment.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const result = await service.markNoShows(now, 30);
+
+      expect(result).toEqual({ marked: 1 });
+      expect(mockPrismaService.appointment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: { in: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED] },
+            scheduledAt: { lte: new Date('2030-01-02T08:00:00.000Z') },
+          },
+        }),
+      );
+      expect(mockPrismaService.appointmentStatusHistory.create).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.appointmentStatusHistory.create).toHaveBeenCalledWith({
+        data: {
+          appointmentId: 'appointment1',
+          event: AppointmentStatusEventType.NO_SHOW,
+          fromStatus: AppointmentStatus.CONFIRMED,
+          toStatus: AppointmentStatus.NO_SHOW,
+          notes: 'Not checked in within 30 minutes',
+        },
+      });
+      expect(mockReminders.cancel).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('toAppointmentReference', () => {
+    it('should use the first 8 hex digits of the id', () => {
+      expect(toAppointmentReference(appointmentId)).toBe('3F2A9C1E');
+    });
+  });
+});
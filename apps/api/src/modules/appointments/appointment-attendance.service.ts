@@ -0,0 +1,302 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Appointment, AppointmentStatus, AppointmentStatusEventType, Prisma } from '@prisma/client';
+import { DateTime } from 'luxon';
+
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { PrismaService } from '@prisma/prisma.service';
+
+/** Prefix of the payload encoded in appointment QR codes. */
+export const CHECK_IN_QR_PREFIX = 'appointment:';
+
+/** How long before its start an appointment can be checked in. */
+export const CHECK_IN_OPENS_MINUTES = 120;
+
+export const DEFAULT_NO_SHOW_GRACE_MINUTES = 30;
+
+/** Statuses of appointments the client has not shown up for yet. */
+export const AWAITED_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED,
+];
+
+/** Statuses reached once the appointment has started or is over. */
+export const ATTENDANCE_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.CHECKED_IN,
+  AppointmentStatus.IN_PROGRESS,
+  AppointmentStatus.COMPLETED,
+  AppointmentStatus.NO_SHOW,
+];
+
+const REFERENCE_PATTERN = /^[0-9A-F]{8}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const STATUS_EVENTS: Record<AppointmentStatus, AppointmentStatusEventType> = {
+  SCHEDULED: AppointmentStatusEventType.BOOKED,
+  CONFIRMED: AppointmentStatusEventType.CONFIRMED,
+  CHECKED_IN: AppointmentStatusEventType.CHECKED_IN,
+  IN_PROGRESS: AppointmentStatusEventType.STARTED,
+  COMPLETED: AppointmentStatusEventType.COMPLETED,
+  CANCELLED: AppointmentStatusEventType.CANCELLED,
+  NO_SHOW: AppointmentStatusEventType.NO_SHOW,
+};
+
+export interface NoShowRunResult {
+  marked: number;
+}
+
+export const toCheckInQrPayload = (id: string): string => `${CHECK_IN_QR_PREFIX}${id}`;
+
+/** History event recorded when an appointment moves to the given status. */
+export const statusEventFor = (status: AppointmentStatus): AppointmentStatusEventType =>
+  STATUS_EVENTS[status];
+
+/** Timestamp columns set when an appointment moves to the given status. */
+export const statusTimestampsFor = (
+  status: AppointmentStatus,
+  now: Date,
+): Pick<
+  Prisma.AppointmentUpdateInput,
+  'checkedInAt' | 'startedAt' | 'completedAt' | 'noShowAt'
+> => {
+  switch (status) {
+    case AppointmentStatus.CHECKED_IN:
+      return { checkedInAt: now };
+    case AppointmentStatus.IN_PROGRESS:
+      return { startedAt: now };
+    case AppointmentStatus.COMPLETED:
+      return { completedAt: now };
+    case AppointmentStatus.NO_SHOW:
+      return { noShowAt: now };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Moves appointments through the counter workflow: check-in on arrival
+ * (from the reference code or the QR payload), start of service, completion,
+ * and the automatic no-show once the grace period has passed.
+ */
+@Injectable()
+export class AppointmentAttendanceService {
+  private readonly logger = new Logger(AppointmentAttendanceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reminders: AppointmentRemindersService,
+  ) {}
+
+  async checkIn(code: string, staff: AuthenticatedUser, now: Date = new Date()): Promise<string> {
+    const { appointment, method } = await this.findByCode(code);
+
+    if (appointment.status === AppointmentStatus.CHECKED_IN) {
+      return appointment.id;
+    }
+
+    if (!AWAITED_APPOINTMENT_STATUSES.includes(appointment.status)) {
+      throw new BadRequestException('Only scheduled or confirmed appointments can be checked in.');
+    }
+
+    const opensAt = DateTime.fromJSDate(appointment.scheduledAt)
+      .minus({ minutes: CHECK_IN_OPENS_MINUTES })
+      .toJSDate();
+
+    if (now < opensAt) {
+      throw new BadRequestException('Check-in is not open yet for this appointment.');
+    }
+
+    await this.transition(appointment, AppointmentStatus.CHECKED_IN, staff, now, {
+      notes: `Checked in by ${method}`,
+    });
+
+    return appointment.id;
+  }
+
+  async start(id: string, staff: AuthenticatedUser, now: Date = new Date()): Promise<void> {
+    const appointment = await this.findOrThrow(id);
+
+    if (appointment.status !== AppointmentStatus.CHECKED_IN) {
+      throw new BadRequestException('Only checked-in appointments can be started.');
+    }
+
+    await this.transition(appointment, AppointmentStatus.IN_PROGRESS, staff, now);
+  }
+
+  async complete(id: string, staff: AuthenticatedUser, now: Date = new Date()): Promise<void> {
+    const appointment = await this.findOrThrow(id);
+
+    if (
+      appointment.status !== AppointmentStatus.IN_PROGRESS &&
+      appointment.status !== AppointmentStatus.CHECKED_IN
+    ) {
+      throw new BadRequestException(
+        'Only checked-in or in-progress appointments can be completed.',
+      );
+    }
+
+    await this.transition(appointment, AppointmentStatus.COMPLETED, staff, now);
+  }
+
+  /**
+   * Marks as NO_SHOW the appointments still awaited `graceMinutes` after
+   * their start. Each one is claimed with a conditional update so a check-in
+   * racing with the job wins.
+   */
+  async markNoShows(
+    now: Date = new Date(),
+    graceMinutes: number = DEFAULT_NO_SHOW_GRACE_MINUTES,
+  ): Promise<NoShowRunResult> {
+    const cutoff = DateTime.fromJSDate(now).minus({ minutes: graceMinutes }).toJSDate();
+    const overdue = await this.prisma.appointment.findMany({
+      where: {
+        status: { in: AWAITED_APPOINTMENT_STATUSES },
+        scheduledAt: { lte: cutoff },
+      },
+      select: { id: true, status: true },
+      orderBy: { scheduledAt: 'asc' },
+      take: 100,
+    });
+
+    let marked = 0;
+
+    for (const appointment of overdue) {
+      const updated = await this.prisma.$transaction(async (tx) => {
+        const { count } = await tx.appointment.updateMany({
+          where: { id: appointment.id, status: { in: AWAITED_APPOINTMENT_STATUSES } },
+          data: { status: AppointmentStatus.NO_SHOW, noShowAt: now },
+        });
+
+        if (!count) {
+          return false;
+        }
+
+        await tx.appointmentStatusHistory.create({
+          data: {
+            appointmentId: appointment.id,
+            event: AppointmentStatusEventType.NO_SHOW,
+            fromStatus: appointment.status,
+            toStatus: AppointmentStatus.NO_SHOW,
+            notes: `Not checked in within ${graceMinutes} minutes`,
+          },
+        });
+        await this.reminders.cancel(appointment.id, tx);
+
+        return true;
+      });
+
+      if (updated) {
+        marked += 1;
+      }
+    }
+
+    if (marked) {
+      this.logger.log(`Marked ${marked} appointment(s) as no-show`);
+    }
+
+    return { marked };
+  }
+
+  private async transition(
+    appointment: Appointment,
+    status: AppointmentStatus,
+    staff: AuthenticatedUser,
+    now: Date,
+    options: { notes?: string } = {},
+  ): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.appointment.updateMany({
+        where: { id: appointment.id, status: appointment.status },
+        data: { status, ...statusTimestampsFor(status, now) },
+      });
+
+      if (!count) {
+        throw new ConflictException('The appointment was updated in the meantime. Try again.');
+      }
+
+      await tx.appointmentStatusHistory.create({
+        data: {
+          appointmentId: appointment.id,
+          event: statusEventFor(status),
+          fromStatus: appointment.status,
+          toStatus: status,
+          notes: options.notes ?? null,
+          metadata: { staffId: staff.id },
+        },
+      });
+      await this.reminders.cancel(appointment.id, tx);
+    });
+
+    this.logger.verbose(
+      `Appointment ${appointment.id} moved from ${appointment.status} to ${status} by ${staff.id}`,
+    );
+  }
+
+  /**
+   * Resolves a check-in code: either the QR payload, which carries the full
+   * id, or the 8-character reference printed on confirmations. References
+   * are the first 8 hex digits of the id, so they match an id range.
+   */
+  private async findByCode(
+    code: string,
+  ): Promise<{ appointment: Appointment; method: 'QR code' | 'reference' }> {
+    const trimmed = code.trim();
+    const qrId = trimmed.toLowerCase().startsWith(CHECK_IN_QR_PREFIX)
+      ? trimmed.slice(CHECK_IN_QR_PREFIX.length)
+      : null;
+
+    if (qrId !== null) {
+      if (!UUID_PATTERN.test(qrId)) {
+        throw new BadRequestException('The QR code is not an appointment code.');
+      }
+
+      return { appointment: await this.findOrThrow(qrId.toLowerCase()), method: 'QR code' };
+    }
+
+    const reference = trimmed.replace(/[\s-]/g, '').toUpperCase();
+
+    if (!REFERENCE_PATTERN.test(reference)) {
+      throw new BadRequestException('The reference code must be 8 characters long.');
+    }
+
+    const prefix = reference.toLowerCase();
+    const candidates = await this.prisma.appointment.findMany({
+      where: {
+        id: {
+          gte: `${prefix}-0000-0000-0000-000000000000`,
+          lte: `${prefix}-ffff-ffff-ffff-ffffffffffff`,
+        },
+      },
+      orderBy: { scheduledAt: 'desc' },
+      take: 2,
+    });
+
+    if (!candidates.length) {
+      throw new NotFoundException('No appointment matches this reference.');
+    }
+
+    if (candidates.length > 1) {
+      throw new ConflictException(
+        'Several appointments share this reference. Scan the QR code instead.',
+      );
+    }
+
+    return { appointment: candidates[0], method: 'reference' };
+  }
+
+  private async findOrThrow(id: string): Promise<Appointment> {
+    const appointment = await this.prisma.appointment.findUnique({ where: { id } });
+
+    if (!appointment) {
+      throw new NotFoundException('Appointment not found.');
+    }
+
+    return appointment;
+  }
+}
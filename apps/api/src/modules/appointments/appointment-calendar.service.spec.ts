@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppointmentStatus } from '@prisma/client';
+
+import { ROLE } from '@common/constants/role.constants';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { PrismaService } from '@prisma/prisma.service';
+
+import { AppointmentCalendarService } from './appointment-calendar.service';
+
+describe('AppointmentCalendarService', () => {
+  let service: AppointmentCalendarService;
+
+  const now = new Date('2030-01-01T08:00:00.000Z');
+  const client: AuthenticatedUser = {
+    id: 'user1',
+    email: 'client@example.com',
+    role: ROLE.CLIENT,
+    firstName: 'Amina',
+    lastName: 'Bensaid',
+    phoneNumber: null,
+    locale: 'fr',
+  };
+
+  const mockPrismaService = {
+    appointment: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn(() => ({ publicUrl: 'https://api.example.dz/api' })),
+  };
+
+  const buildAppointment = (overrides: Record<string, unknown> = {}) => ({
+    id: '3f2a9c1e-0000-4000-8000-000000000001',
+    userId: 'user1',
+    specialistId: 'specialist1',
+    status: AppointmentStatus.SCHEDULED,
+    scheduledAt: new Date('2030-01-02T09:00:00.000Z'),
+    timezone: 'Africa/Algiers',
+    locale: 'fr',
+    createdAt: new Date('2029-12-20T10:00:00.000Z'),
+    updatedAt: new Date('2029-12-21T10:00:00.000Z'),
+    service: {
+      slug: 'passport',
+      durationMinutes: 20,
+      translations: [
+        { locale: 'en', name: 'Biometric passport' },
+        { locale: 'fr', name: 'Passeport biométrique' },
+      ],
+    },
+    slot: {
+      startAt: new Date('2030-01-02T09:00:00.000Z'),
+      endAt: new Date('2030-01-02T09:30:00.000Z'),
+      timezone: 'Africa/Algiers',
+      office: {
+        name: 'Daïra de Bab El Oued',
+        address: '12 Rue des Frères Bouadou, Alger',
+        latitude: 36.79,
+        longitude: 3.05,
+      },
+    },
+    user: { firstName: 'Amina', lastName: 'Bensaid' },
+    _count: { statusHistory: 1 },
+    ...overrides,
+  });
+
+  const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AppointmentCalendarService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<AppointmentCalendarService>(AppointmentCalendarService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('exportAppointment', () => {
+    it('should export a localized event in the appointment timezone', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(buildAppointment());
+
+      const calendar = unfold(await service.exportAppointment('appointment1', client));
+
+      expect(calendar).toContain('BEGIN:VTIMEZONE\r\nTZID:Africa/Algiers');
+      expect(calendar).toContain('DTSTART;TZID=Africa/Algiers:20300102T100000');
+      expect(calendar).toContain('DTEND;TZID=Africa/Algiers:20300102T103000');
+      expect(calendar).toContain('SUMMARY:Rendez-vous : Passeport biométrique');
+      expect(calendar).toContain(
+        'LOCATION:Daïra de Bab El Oued\\, 12 Rue des Frères Bouadou\\, Alger',
+      );
+      expect(calendar).toContain('UID:3f2a9c1e-0000-4000-8000-000000000001@appointments');
+      expect(calendar).toContain('SEQUENCE:1');
+      expect(calendar).toContain('STATUS:CONFIRMED');
+      expect(calendar.split('\r\n').every((line) => !line.includes('\n'))).toBe(true);
+    });
+
+    it('should fall back to the service duration once moved off its slot', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(
+        buildAppointment({ scheduledAt: new Date('2030-01-03T13:00:00.000Z') }),
+      );
+
+      const calendar = await service.exportAppointment('appointment1', client);
+
+      expect(calendar).toContain('DTEND;TZID=Africa/Algiers:20300103T142000');
+    });
+
+    it('should keep content lines within 75 octets', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(
+        buildAppointment({
+          locale: 'ar',
+          service: {
+            slug: 'passport',
+            durationMinutes: 20,
+            translations: [{ locale: 'ar', name: 'جواز السفر البيومتري '.repeat(4) }],
+          },
+        }),
+      );
+
+      const calendar = await service.exportAppointment('appointment1', client);
+
+      for (const line of calendar.split('\r\n')) {
+        expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+      }
+      expect(unfold(calendar)).toContain(`SUMMARY:موعد: ${'جواز السفر البيومتري '.repeat(4)}`);
+    });
+
+    it('should describe daylight saving transitions of the timezone', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(
+        buildAppointment({
+          timezone: 'Europe/Paris',
+          scheduledAt: new Date('2030-07-02T09:00:00Z'),
+        }),
+      );
+
+      const calendar = await service.exportAppointment('appointment1', client);
+
+      expect(calendar).toContain(
+        'BEGIN:DAYLIGHT\r\nDTSTART:20300331T020000\r\nTZOFFSETFROM:+0100\r\nTZOFFSETTO:+0200',
+      );
+      expect(calendar).toContain(
+        'BEGIN:STANDARD\r\nDTSTART:20301027T030000\r\nTZOFFSETFROM:+0200\r\nTZOFFSETTO:+0100',
+      );
+      expect(calendar).toContain('DTSTART;TZID=Europe/Paris:20300702T110000');
+    });
+
+    it('should refuse users unrelated to the appointment', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(buildAppointment());
+
+      await expect(
+        service.exportAppointment('appointment1', { ...client, id: 'someone-else' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('exportFeed', () => {
+    it('should list upcoming appointments of the token owner, cancelled ones included', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({ id: 'specialist1', locale: 'en' });
+      mockPrismaService.appointment.findMany.mockResolvedValue([
+        buildAppointment(),
+        buildAppointment({
+          id: '3f2a9c1e-0000-4000-8000-000000000002',
+          status: AppointmentStatus.CANCELLED,
+          _count: { statusHistory: 3 },
+        }),
+      ]);
+
+      const calendar = unfold(await service.exportFeed('secret-token.ics', now));
+
+      expect(mockPrismaService.user.findUnique).toHaveBeenCalledWith({
+        where: { calendarFeedTokenHash: expect.stringMatching(/^[0-9a-f]{64}$/) },
+        select: { id: true, locale: true },
+      });
+      expect(mockPrismaService.appointment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            OR: [{ userId: 'specialist1' }, { specialistId: 'specialist1' }],
+            scheduledAt: { gte: new Date('2029-12-31T08:00:00.000Z') },
+          },
+        }),
+      );
+      expect(calendar).toContain('X-WR-CALNAME:My appointments');
+      expect(calendar).toContain('SUMMARY:Appointment: Biometric passport (Amina Bensaid)');
+      expect(calendar).toContain('SEQUENCE:3\r\nSTATUS:CANCELLED');
+      expect(calendar.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1);
+    });
+
+    it('should reject unknown tokens', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.exportFeed('unknown', now)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('rotateFeed', () => {
+    it('should store only a hash of the token it hands out', async () => {
+      const result = await service.rotateFeed(client);
+
+      const token = result.data.url.match(/calendar-feed\/([^/]+)\.ics$/)?.[1];
+      expect(result.data.url).toMatch(/^https:\/\/api\.example\.dz\/api\/v1\/appointments\//);
+      expect(token).toBeDefined();
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user1' },
+        data: { calendarFeedTokenHash: expect.not.stringContaining(token as string) },
+      });
+    });
+  });
+});
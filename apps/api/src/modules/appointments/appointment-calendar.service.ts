@@ -0,0 +1,209 @@
+import { createHash, randomBytes } from 'crypto';
+
+import { ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppointmentStatus, Prisma } from '@prisma/client';
+import { DateTime } from 'luxon';
+
+import { ROLE } from '@common/constants/role.constants';
+import { AppConfig } from '@config/app.config';
+import { toAppointmentReference } from '@modules/appointments/appointment-reference';
+import { CalendarFeedResponseDto } from '@modules/appointments/dto';
+import { buildCalendar, CalendarEvent } from '@modules/appointments/icalendar';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import {
+  NotificationLocale,
+  resolveNotificationLocale,
+} from '@modules/notifications/notification-placeholders';
+import { PrismaService } from '@prisma/prisma.service';
+
+const FEED_LOOKBACK_DAYS = 1;
+const FEED_REFRESH_MINUTES = 60;
+
+const calendarInclude = {
+  service: {
+    include: {
+      translations: {
+        select: {
+          locale: true,
+          name: true,
+        },
+      },
+    },
+  },
+  slot: { include: { office: true } },
+  user: { select: { firstName: true, lastName: true } },
+  _count: { select: { statusHistory: true } },
+} satisfies Prisma.AppointmentInclude;
+
+type CalendarAppointment = Prisma.AppointmentGetPayload<{ include: typeof calendarInclude }>;
+
+const CALENDAR_LABELS: Record<
+  NotificationLocale,
+  { summary: string; reference: string; feedName: string }
+> = {
+  en: { summary: 'Appointment: {service}', reference: 'Reference', feedName: 'My appointments' },
+  fr: { summary: 'Rendez-vous : {service}', reference: 'Référence', feedName: 'Mes rendez-vous' },
+  ar: { summary: 'موعد: {service}', reference: 'المرجع', feedName: 'مواعيدي' },
+};
+
+/**
+ * Exports appointments as iCalendar documents: a single appointment for
+ * "add to calendar", and a tokenized feed of the upcoming appointments a
+ * user booked or is assigned to as specialist.
+ */
+@Injectable()
+export class AppointmentCalendarService {
+  private readonly logger = new Logger(AppointmentCalendarService.name);
+
+  private readonly publicUrl: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    this.publicUrl =
+      configService.get<AppConfig>('app', { infer: true })?.publicUrl ??
+      'http://localhost:3001/api';
+  }
+
+  async exportAppointment(id: string, user: AuthenticatedUser): Promise<string> {
+    const appointment = await this.prisma.appointment.findUnique({
+      where: { id },
+      include: calendarInclude,
+    });
+
+    if (!appointment) {
+      throw new NotFoundException('Appointment not found.');
+    }
+
+    const isParticipant = appointment.userId === user.id || appointment.specialistId === user.id;
+
+    if (!isParticipant && user.role !== ROLE.ADMIN) {
+      throw new ForbiddenException('You do not have permission to export this appointment.');
+    }
+
+    const locale = resolveNotificationLocale(appointment.locale);
+    return buildCalendar([this.toEvent(appointment, locale, appointment.specialistId === user.id)]);
+  }
+
+  /**
+   * Serves the feed matching a subscription token. Cancelled appointments
+   * stay listed with a cancelled status so subscribed calendars drop them.
+   */
+  async exportFeed(token: string, now: Date = new Date()): Promise<string> {
+    const owner = await this.prisma.user.findUnique({
+      where: { calendarFeedTokenHash: this.hashToken(token.replace(/\.ics$/, '')) },
+      select: { id: true, locale: true },
+    });
+
+    if (!owner) {
+      throw new NotFoundException('Calendar feed not found.');
+    }
+
+    const appointments = await this.prisma.appointment.findMany({
+      where: {
+        OR: [{ userId: owner.id }, { specialistId: owner.id }],
+        scheduledAt: {
+          gte: DateTime.fromJSDate(now).minus({ days: FEED_LOOKBACK_DAYS }).toJSDate(),
+        },
+      },
+      orderBy: { scheduledAt: 'asc' },
+      include: calendarInclude,
+    });
+
+    this.logger.verbose(`Serving calendar feed of user ${owner.id}: ${appointments.length} events`);
+
+    const locale = resolveNotificationLocale(owner.locale);
+    return buildCalendar(
+      appointments.map((appointment) =>
+        this.toEvent(appointment, locale, appointment.specialistId === owner.id),
+      ),
+      {
+        name: CALENDAR_LABELS[locale].feedName,
+        refreshMinutes: FEED_REFRESH_MINUTES,
+        generatedAt: now,
+      },
+    );
+  }
+
+  /**
+   * Issues a new feed URL for the user. Only a hash of the token is kept, so
+   * the URL is shown once and any previous one stops working.
+   */
+  async rotateFeed(user: AuthenticatedUser): Promise<CalendarFeedResponseDto> {
+    const token = randomBytes(24).toString('base64url');
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { calendarFeedTokenHash: this.hashToken(token) },
+    });
+
+    this.logger.log(`Calendar feed rotated for user ${user.id}`);
+
+    return {
+      data: { url: `${this.publicUrl}/v1/appointments/calendar-feed/${token}.ics` },
+    };
+  }
+
+  async revokeFeed(user: AuthenticatedUser): Promise<void> {
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { calendarFeedTokenHash: null },
+    });
+
+    this.logger.log(`Calendar feed revoked for user ${user.id}`);
+  }
+
+  private toEvent(
+    appointment: CalendarAppointment,
+    locale: NotificationLocale,
+    forSpecialist: boolean,
+  ): CalendarEvent {
+    const labels = CALENDAR_LABELS[locale];
+    const translations = appointment.service.translations;
+    const serviceName =
+      (
+        translations.find((translation) => translation.locale === locale) ??
+        translations.find((translation) => translation.locale === 'en') ??
+        translations[0]
+      )?.name ?? appointment.service.slug;
+
+    const summary = labels.summary.replace('{service}', serviceName);
+    const { slot } = appointment;
+    const office = slot?.office ?? null;
+    // The slot bounds only apply while the appointment still starts with it.
+    const end =
+      slot && slot.startAt.getTime() === appointment.scheduledAt.getTime()
+        ? slot.endAt
+        : DateTime.fromJSDate(appointment.scheduledAt)
+            .plus({ minutes: appointment.service.durationMinutes })
+            .toJSDate();
+
+    return {
+      uid: `${appointment.id}@appointments`,
+      // Every status history entry (reschedule, cancellation, reassignment…)
+      // is a revision calendars must pick up.
+      sequence: appointment._count.statusHistory,
+      status: appointment.status === AppointmentStatus.CANCELLED ? 'CANCELLED' : 'CONFIRMED',
+      start: appointment.scheduledAt,
+      end,
+      timezone: appointment.timezone || slot?.timezone || 'UTC',
+      summary: forSpecialist
+        ? `${summary} (${appointment.user.firstName} ${appointment.user.lastName})`
+        : summary,
+      description: `${labels.reference}: ${toAppointmentReference(appointment.id)}`,
+      location: office ? [office.name, office.address].filter(Boolean).join(', ') : undefined,
+      geo:
+        office?.latitude != null && office?.longitude != null
+          ? { latitude: office.latitude, longitude: office.longitude }
+          : null,
+      createdAt: appointment.createdAt,
+      updatedAt: appointment.updatedAt,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
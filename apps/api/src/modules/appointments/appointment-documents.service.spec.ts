@@ -0,0 +1,198 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { DocumentUploadStatus } from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+import {
+  AppointmentDocumentsIncompleteException,
+  AppointmentDocumentsService,
+} from './appointment-documents.service';
+
+describe('AppointmentDocumentsService', () => {
+  let service: AppointmentDocumentsService;
+
+  const appointment = {
+    id: 'appointment1',
+    userId: 'user1',
+    dependentId: null,
+    serviceId: 'service1',
+    scheduledAt: new Date('2030-01-01T09:00:00.000Z'),
+    documentsOverrideById: null,
+    documentsOverrideAt: null,
+    documentsOverrideReason: null,
+  };
+
+  const requirement = (templateId: string, name: string) => ({
+    templateId,
+    template: { id: templateId, slug: templateId, name },
+  });
+
+  const upload = (
+    id: string,
+    templateId: string,
+    status: DocumentUploadStatus,
+    overrides = {},
+  ) => ({
+    id,
+    templateId,
+    status,
+    expiresAt: null,
+    rejectionReason: null,
+    ...overrides,
+  });
+
+  const mockPrismaService = {
+    documentTemplateService: {
+      findMany: jest.fn(),
+    },
+    documentUpload: {
+      findMany: jest.fn(),
+    },
+    appointment: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AppointmentDocumentsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<AppointmentDocumentsService>(AppointmentDocumentsService);
+
+    jest.clearAllMocks();
+    mockPrismaService.documentTemplateService.findMany.mockResolvedValue([
+      requirement('passport', 'Passport'),
+      requirement('birth-certificate', 'Birth certificate'),
+    ]);
+    mockPrismaService.documentUpload.findMany.mockResolvedValue([]);
+  });
+
+  describe('getChecklist', () => {
+    it('should report the most advanced upload of each required template', async () => {
+      mockPrismaService.documentUpload.findMany.mockResolvedValue([
+        upload('rejected', 'passport', DocumentUploadStatus.REJECTED, {
+          rejectionReason: 'Blurry scan',
+        }),
+        upload('validated', 'passport', DocumentUploadStatus.VALIDATED),
+      ]);
+
+      const checklist = await service.getChecklist(appointment);
+
+      expect(mockPrismaService.documentUpload.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ userId: 'user1', dependentId: null }),
+        }),
+      );
+      expect(checklist).toEqual({
+        complete: false,
+        override: null,
+        items: [
+          {
+            templateId: 'passport',
+            slug: 'passport',
+            name: 'Passport',
+            status: DocumentUploadStatus.VALIDATED,
+            uploadId: 'validated',
+            rejectionReason: null,
+          },
+          {
+            templateId: 'birth-certificate',
+            slug: 'birth-certificate',
+            name: 'Birth certificate',
+            status: 'MISSING',
+            uploadId: null,
+            rejectionReason: null,
+          },
+        ],
+      });
+    });
+
+    it('should count validated uploads lapsing before the appointment as expired', async () => {
+      mockPrismaService.documentTemplateService.findMany.mockResolvedValue([
+        requirement('passport', 'Passport'),
+      ]);
+      mockPrismaService.documentUpload.findMany.mockResolvedValue([
+        upload('validated', 'passport', DocumentUploadStatus.VALIDATED, {
+          expiresAt: new Date('2029-12-31T00:00:00.000Z'),
+        }),
+      ]);
+
+      const checklist = await service.getChecklist(appointment);
+
+      expect(checklist.complete).toBe(false);
+      expect(checklist.items[0].status).toBe(DocumentUploadStatus.EXPIRED);
+    });
+
+    it('should be complete when the service requires no documents', async () => {
+      mockPrismaService.documentTemplateService.findMany.mockResolvedValue([]);
+
+      await expect(service.getChecklist(appointment)).resolves.toEqual({
+        complete: true,
+        items: [],
+        override: null,
+      });
+      expect(mockPrismaService.documentUpload.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertCanConfirm', () => {
+    it('should refuse while required documents are not validated', async () => {
+      mockPrismaService.documentUpload.findMany.mockResolvedValue([
+        upload('pending', 'passport', DocumentUploadStatus.PENDING),
+      ]);
+
+      await expect(service.assertCanConfirm(appointment)).rejects.toMatchObject(
+        new AppointmentDocumentsIncompleteException(2),
+      );
+    });
+
+    it('should let staff overrides through', async () => {
+      await expect(
+        service.assertCanConfirm({
+          ...appointment,
+          documentsOverrideById: 'admin1',
+          documentsOverrideAt: new Date('2029-12-30T10:00:00.000Z'),
+          documentsOverrideReason: 'Originals checked at the counter',
+        }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('recordOverride', () => {
+    it('should record who overrode the checklist and why', async () => {
+      const now = new Date('2029-12-30T10:00:00.000Z');
+      mockPrismaService.appointment.findUnique.mockResolvedValue({ id: 'appointment1' });
+
+      await service.recordOverride(
+        'appointment1',
+        'admin1',
+        'Originals checked at the counter',
+        undefined,
+        now,
+      );
+
+      expect(mockPrismaService.appointment.update).toHaveBeenCalledWith({
+        where: { id: 'appointment1' },
+        data: {
+          documentsOverrideById: 'admin1',
+          documentsOverrideAt: now,
+          documentsOverrideReason: 'Originals checked at the counter',
+        },
+      });
+    });
+
+    it('should throw NotFoundException for unknown appointments', async () => {
+      mockPrismaService.appointment.findUnique.mockResolvedValue(null);
+
+      await expect(service.recordOverride('missing', 'admin1', 'reason')).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+    });
+  });
+});
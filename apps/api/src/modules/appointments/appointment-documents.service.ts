@@ -0,0 +1,212 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+
+import {
+  AppointmentDocumentChecklistDto,
+  AppointmentDocumentChecklistItemDto,
+} from '@modules/appointments/dto';
+import { Appointment, DocumentUpload, DocumentUploadStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+export const APPOINTMENT_DOCUMENTS_INCOMPLETE = 'APPOINTMENT_DOCUMENTS_INCOMPLETE';
+
+/**
+ * Order in which uploads are preferred when several were filed under the same
+ * template: the checklist reports the one closest to being accepted.
+ */
+const UPLOAD_STATUS_RANK: Record<DocumentUploadStatus, number> = {
+  [DocumentUploadStatus.VALIDATED]: 0,
+  [DocumentUploadStatus.PROCESSING]: 1,
+  [DocumentUploadStatus.PENDING]: 2,
+  [DocumentUploadStatus.REJECTED]: 3,
+  [DocumentUploadStatus.EXPIRED]: 4,
+  [DocumentUploadStatus.CANCELLED]: 5,
+};
+
+export class AppointmentDocumentsIncompleteException extends BadRequestException {
+  constructor(readonly outstanding: number) {
+    super({
+      message: `${outstanding} required document(s) must be validated before the appointment is confirmed.`,
+      error: 'Bad Request',
+      code: APPOINTMENT_DOCUMENTS_INCOMPLETE,
+      details: { outstanding },
+    });
+  }
+}
+
+type ChecklistAppointment = Pick<
+  Appointment,
+  | 'id'
+  | 'userId'
+  | 'dependentId'
+  | 'serviceId'
+  | 'scheduledAt'
+  | 'documentsOverrideById'
+  | 'documentsOverrideAt'
+  | 'documentsOverrideReason'
+>;
+
+/**
+ * Checklist of the documents a service requires, matched against what the
+ * person the appointment is for has uploaded. An appointment only moves to
+ * CONFIRMED once every required upload is validated, unless staff recorded
+ * an override.
+ */
+@Injectable()
+export class AppointmentDocumentsService {
+  private readonly logger = new Logger(AppointmentDocumentsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getChecklist(
+    appointment: ChecklistAppointment,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<AppointmentDocumentChecklistDto> {
+    const requirements = await client.documentTemplateService.findMany({
+      where: {
+        serviceId: appointment.serviceId,
+        isRequired: true,
+        template: { isActive: true },
+        AND: [
+          { OR: [{ validFrom: null }, { validFrom: { lte: appointment.scheduledAt } }] },
+          { OR: [{ validTo: null }, { validTo: { gte: appointment.scheduledAt } }] },
+        ],
+      },
+      include: { template: { select: { id: true, slug: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const uploads = requirements.length
+      ? await client.documentUpload.findMany({
+          where: {
+            userId: appointment.userId,
+            dependentId: appointment.dependentId ?? null,
+            templateId: { in: requirements.map((requirement) => requirement.templateId) },
+            status: { not: DocumentUploadStatus.CANCELLED },
+          },
+          orderBy: { submittedAt: 'desc' },
+        })
+      : [];
+
+    const items = requirements.map(({ template }): AppointmentDocumentChecklistItemDto => {
+      const upload = this.pickUpload(
+        uploads.filter((candidate) => candidate.templateId === template.id),
+        appointment.scheduledAt,
+      );
+
+      return {
+        templateId: template.id,
+        slug: template.slug,
+        name: template.name,
+        status: upload ? this.statusOf(upload, appointment.scheduledAt) : 'MISSING',
+        uploadId: upload?.id ?? null,
+        rejectionReason: upload?.rejectionReason ?? null,
+      };
+    });
+
+    const override = appointment.documentsOverrideAt
+      ? {
+          overriddenById: appointment.documentsOverrideById,
+          overriddenAt: appointment.documentsOverrideAt.toISOString(),
+          reason: appointment.documentsOverrideReason,
+        }
+      : null;
+
+    return {
+      complete:
+        override !== null || items.every((item) => item.status === DocumentUploadStatus.VALIDATED),
+      items,
+      override,
+    };
+  }
+
+  /** Refuses to confirm an appointment whose required documents are not all validated. */
+  async assertCanConfirm(
+    appointment: ChecklistAppointment,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    const checklist = await this.getChecklist(appointment, client);
+
+    if (!checklist.complete) {
+      const outstanding = checklist.items.filter(
+        (item) => item.status !== DocumentUploadStatus.VALIDATED,
+      ).length;
+      throw new AppointmentDocumentsIncompleteException(outstanding);
+    }
+  }
+
+  /** Records that staff accepted the appointment without its validated documents. */
+  async recordOverride(
+    appointmentId: string,
+    staffId: string,
+    reason: string,
+    client: Prisma.TransactionClient = this.prisma,
+    now: Date = new Date(),
+  ): Promise<void> {
+    await this.findAppointmentOrThrow(appointmentId, client);
+
+    await client.appointment.update({
+      where: { id: appointmentId },
+      data: {
+        documentsOverrideById: staffId,
+        documentsOverrideAt: now,
+        documentsOverrideReason: reason,
+      },
+    });
+
+    this.logger.log(`Document checklist of appointment ${appointmentId} overridden by ${staffId}`);
+  }
+
+  async clearOverride(
+    appointmentId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    await this.findAppointmentOrThrow(appointmentId, client);
+
+    await client.appointment.update({
+      where: { id: appointmentId },
+      data: {
+        documentsOverrideById: null,
+        documentsOverrideAt: null,
+        documentsOverrideReason: null,
+      },
+    });
+  }
+
+  private async findAppointmentOrThrow(
+    appointmentId: string,
+    client: Prisma.TransactionClient,
+  ): Promise<void> {
+    const appointment = await client.appointment.findUnique({
+      where: { id: appointmentId },
+      select: { id: true },
+    });
+
+    if (!appointment) {
+      throw new NotFoundException('Appointment not found.');
+    }
+  }
+
+  private pickUpload(uploads: DocumentUpload[], scheduledAt: Date): DocumentUpload | null {
+    return uploads.reduce<DocumentUpload | null>((best, upload) => {
+      if (!best) {
+        return upload;
+      }
+
+      const rank = UPLOAD_STATUS_RANK[this.statusOf(upload, scheduledAt)];
+      return rank < UPLOAD_STATUS_RANK[this.statusOf(best, scheduledAt)] ? upload : best;
+    }, null);
+  }
+
+  /** Validated uploads that lapse before the appointment count as expired. */
+  private statusOf(upload: DocumentUpload, scheduledAt: Date): DocumentUploadStatus {
+    if (
+      upload.status === DocumentUploadStatus.VALIDATED &&
+      upload.expiresAt &&
+      upload.expiresAt < scheduledAt
+    ) {
+      return DocumentUploadStatus.EXPIRED;
+    }
+
+    return upload.status;
+  }
+}
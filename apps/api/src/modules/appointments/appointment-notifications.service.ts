@@ -1,109 +1,158 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { NotificationChannel, Prisma } from '@prisma/client';
 
-export type AppointmentNotificationEventType =
-  | 'appointment.booked'
-  | 'appointment.rescheduled'
-  | 'appointment.cancelled'
-  | 'queue.ticket.created'
-  | 'queue.ticket.updated'
-  | 'queue.ticket.notified';
+import { NotificationOutboxService } from '@modules/notifications/notification-outbox.service';
+import { NotificationEventType } from '@modules/notifications/notification-placeholders';
 
-export interface AppointmentNotificationEvent<TPayload = Record<string, unknown>> {
-  type: AppointmentNotificationEventType;
-  payload: TPayload;
-  createdAt: string;
-}
+export type AppointmentNotificationEventType = NotificationEventType;
 
+/**
+ * Publishes appointment and queue events to the notification outbox. Callers
+ * pass their transaction client so an event is only stored, and later
+ * delivered, when the change it describes commits.
+ */
 @Injectable()
 export class AppointmentNotificationsService {
   private readonly logger = new Logger(AppointmentNotificationsService.name);
 
-  private readonly events: AppointmentNotificationEvent[] = [];
-
-  getEvents(): AppointmentNotificationEvent[] {
-    return [...this.events];
-  }
+  constructor(private readonly outbox: NotificationOutboxService) {}
 
-  clear(): void {
-    this.events.length = 0;
+  async appointmentBooked(
+    payload: {
+      appointmentId: string;
+      userId: string;
+      serviceId: string;
+      slotId: string | null;
+      scheduledAt: Date;
+      timezone?: string;
+    },
+    client?: Prisma.TransactionClient,
+  ): Promise<void> {
+    await this.record(
+      'appointment.booked',
+      {
+        ...payload,
+        scheduledAt: payload.scheduledAt.toISOString(),
+      },
+      client,
+    );
   }
 
-  appointmentBooked(payload: {
-    appointmentId: string;
-    userId: string;
-    serviceId: string;
-    slotId: string | null;
-    scheduledAt: Date;
-  }): void {
-    this.record('appointment.booked', {
-      ...payload,
-      scheduledAt: payload.scheduledAt.toISOString(),
-    });
+  async appointmentRescheduled(
+    payload: {
+      appointmentId: string;
+      userId: string;
+      serviceId: string;
+      previousSlotId: string | null;
+      newSlotId: string | null;
+      scheduledAt: Date;
+      timezone?: string;
+    },
+    client?: Prisma.TransactionClient,
+  ): Promise<void> {
+    await this.record(
+      'appointment.rescheduled',
+      {
+        ...payload,
+        scheduledAt: payload.scheduledAt.toISOString(),
+      },
+      client,
+    );
   }
 
-  appointmentRescheduled(payload: {
-    appointmentId: string;
-    userId: string;
-    serviceId: string;
-    previousSlotId: string | null;
-    newSlotId: string | null;
-    scheduledAt: Date;
-  }): void {
-    this.record('appointment.rescheduled', {
-      ...payload,
-      scheduledAt: payload.scheduledAt.toISOString(),
-    });
+  async appointmentCancelled(
+    payload: {
+      appointmentId: string;
+      userId: string;
+      serviceId: string;
+      slotId: string | null;
+      reason?: string | null;
+    },
+    client?: Prisma.TransactionClient,
+  ): Promise<void> {
+    await this.record('appointment.cancelled', payload, client);
   }
 
-  appointmentCancelled(payload: {
-    appointmentId: string;
-    userId: string;
-    serviceId: string;
-    slotId: string | null;
-    reason?: string | null;
-  }): void {
-    this.record('appointment.cancelled', payload);
+  async appointmentReminder(
+    payload: {
+      appointmentId: string;
+      userId: string;
+      serviceId: string;
+      reminderId: string;
+      scheduledAt: Date;
+      confirmUrl: string;
+    },
+    channels: NotificationChannel[],
+    client?: Prisma.TransactionClient,
+  ): Promise<string> {
+    return this.record(
+      'appointment.reminder',
+      {
+        ...payload,
+        scheduledAt: payload.scheduledAt.toISOString(),
+      },
+      client,
+      channels,
+    );
   }
 
-  queueTicketCreated(payload: {
-    ticketId: string;
-    userId: string;
-    serviceId: string;
-    position: number;
-  }): void {
-    this.record('queue.ticket.created', payload);
+  async queueTicketCreated(
+    payload: {
+      ticketId: string;
+      userId: string;
+      serviceId: string;
+      position: number;
+    },
+    client?: Prisma.TransactionClient,
+  ): Promise<void> {
+    await this.record('queue.ticket.created', payload, client);
   }
 
-  queueTicketUpdated(payload: {
-    ticketId: string;
-    userId: string;
-    serviceId: string;
-    status: string;
-  }): void {
-    this.record('queue.ticket.updated', payload);
+  async queueTicketUpdated(
+    payload: {
+      ticketId: string;
+      userId: string;
+      serviceId: string;
+      status: string;
+    },
+    client?: Prisma.TransactionClient,
+  ): Promise<void> {
+    await this.record('queue.ticket.updated', payload, client);
   }
 
-  queueTicketNotified(payload: {
-    ticketId: string;
-    userId: string;
-    serviceId: string;
-    slotId: string | null;
-    expiresAt: Date;
-  }): void {
-    this.record('queue.ticket.notified', {
-      ...payload,
-      expiresAt: payload.expiresAt.toISOString(),
-    });
+  async queueTicketNotified(
+    payload: {
+      ticketId: string;
+      userId: string;
+      serviceId: string;
+      slotId: string | null;
+      expiresAt: Date;
+    },
+    client?: Prisma.TransactionClient,
+  ): Promise<void> {
+    await this.record(
+      'queue.ticket.notified',
+      {
+        ...payload,
+        expiresAt: payload.expiresAt.toISOString(),
+      },
+      client,
+    );
   }
 
-  private record(type: AppointmentNotificationEventType, payload: Record<string, unknown>): void {
-    const event: AppointmentNotificationEvent = {
-      type,
-      payload,
-      createdAt: new Date().toISOString(),
-    };
+  private async record(
+    type: AppointmentNotificationEventType,
+    payload: Record<string, unknown> & { userId: string },
+    client?: Prisma.TransactionClient,
+    channels?: NotificationChannel[],
+  ): Promise<string> {
+    const entry = await this.outbox.enqueue(
+      { type, userId: payload.userId, payload, channels },
+      client,
+    );
 
-    this.events.push(event);
     this.logger.debug(`${type} -> ${JSON.stringify(payload)}`);
+
+    return entry.id;
   }
 }
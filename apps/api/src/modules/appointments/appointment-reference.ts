@@ -0,0 +1,6 @@
+/**
+ * Short code identifying an appointment in emails and at the counter, where
+ * staff type it into check-in. Every place showing the code must use this.
+ */
+export const toAppointmentReference = (id: string): string =>
+  id.replace(/-/g, '').slice(0, 8).toUpperCase();
@@ -0,0 +1,232 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppointmentReminderStatus, AppointmentStatus, NotificationChannel } from '@prisma/client';
+
+import { PrismaService } from '@prisma/prisma.service';
+
+import { AppointmentNotificationsService } from './appointment-notifications.service';
+import { AppointmentRemindersService } from './appointment-reminders.service';
+
+describe('AppointmentRemindersService', () => {
+  let service: AppointmentRemindersService;
+
+  const now = new Date('2030-01-01T08:00:00.000Z');
+  const scheduledAt = new Date('2030-01-05T09:00:00.000Z');
+
+  const mockPrismaService = {
+    appointmentReminder: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  const mockNotifications = {
+    appointmentReminder: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(() => ({
+      reminders: {
+        offsetsMinutes: [2880, 120],
+        confirmUrl: 'https://rdv.example.dz/fr/appointments/confirm',
+        linkSecret: 'test-secret',
+      },
+    })),
+  };
+
+  const buildReminder = (overrides: Record<string, unknown> = {}) => ({
+    id: 'reminder1',
+    appointmentId: 'appointment1',
+    offsetMinutes: 2880,
+    scheduledFor: scheduledAt,
+    dueAt: new Date('2030-01-03T09:00:00.000Z'),
+    status: AppointmentReminderStatus.PENDING,
+    appointment: {
+      id: 'appointment1',
+      userId: 'user1',
+      serviceId: 'service1',
+      status: AppointmentStatus.SCHEDULED,
+      scheduledAt,
+      user: { reminderOptOuts: [] as NotificationChannel[] },
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AppointmentRemindersService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AppointmentNotificationsService, useValue: mockNotifications },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<AppointmentRemindersService>(AppointmentRemindersService);
+
+    jest.clearAllMocks();
+    mockPrismaService.appointmentReminder.updateMany.mockResolvedValue({ count: 1 });
+    mockNotifications.appointmentReminder.mockResolvedValue('outbox1');
+  });
+
+  describe('sync', () => {
+    it('should create one reminder per offset and skip those already past', async () => {
+      mockPrismaService.appointmentReminder.findMany.mockResolvedValue([]);
+
+      await service.sync(
+        {
+          id: 'appointment1',
+          status: AppointmentStatus.SCHEDULED,
+          scheduledAt: new Date('2030-01-02T09:00:00.000Z'),
+        },
+        undefined,
+        now,
+      );
+
+      expect(mockPrismaService.appointmentReminder.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          offsetMinutes: 2880,
+          status: AppointmentReminderStatus.SKIPPED,
+        }),
+      });
+      expect(mockPrismaService.appointmentReminder.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          offsetMinutes: 120,
+          dueAt: new Date('2030-01-02T07:00:00.000Z'),
+          status: AppointmentReminderStatus.PENDING,
+        }),
+      });
+    });
+
+    it('should move sent reminders when the appointment is rescheduled', async () => {
+      const newTime = new Date('2030-01-10T09:00:00.000Z');
+      mockPrismaService.appointmentReminder.findMany.mockResolvedValue([
+        buildReminder({ status: AppointmentReminderStatus.SENT }),
+        buildReminder({ id: 'reminder2', offsetMinutes: 120 }),
+      ]);
+
+      await service.sync(
+        { id: 'appointment1', status: AppointmentStatus.SCHEDULED, scheduledAt: newTime },
+        undefined,
+        now,
+      );
+
+      expect(mockPrismaService.appointmentReminder.update).toHaveBeenCalledWith({
+        where: { id: 'reminder1' },
+        data: {
+          scheduledFor: newTime,
+          dueAt: new Date('2030-01-08T09:00:00.000Z'),
+          status: AppointmentReminderStatus.PENDING,
+          outboxId: null,
+          sentAt: null,
+        },
+      });
+      expect(mockPrismaService.appointmentReminder.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cancel pending reminders of cancelled appointments', async () => {
+      await service.sync(
+        { id: 'appointment1', status: AppointmentStatus.CANCELLED, scheduledAt },
+        undefined,
+        now,
+      );
+
+      expect(mockPrismaService.appointmentReminder.updateMany).toHaveBeenCalledWith({
+        where: { appointmentId: 'appointment1', status: AppointmentReminderStatus.PENDING },
+        data: { status: AppointmentReminderStatus.CANCELLED },
+      });
+      expect(mockPrismaService.appointmentReminder.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendDue', () => {
+    it('should publish due reminders with a confirmation link on the channels kept', async () => {
+      mockPrismaService.appointmentReminder.findMany.mockResolvedValue([
+        buildReminder({
+          appointment: {
+            ...buildReminder().appointment,
+            user: { reminderOptOuts: [NotificationChannel.SMS] },
+          },
+        }),
+      ]);
+
+      const result = await service.sendDue(now);
+
+      expect(result).toEqual({ sent: 1, skipped: 0 });
+      expect(mockNotifications.appointmentReminder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          appointmentId: 'appointment1',
+          reminderId: 'reminder1',
+          confirmUrl: expect.stringMatching(
+            /^https:\/\/rdv\.example\.dz\/fr\/appointments\/confirm\?token=appointment1\./,
+          ),
+        }),
+        [NotificationChannel.EMAIL],
+        mockPrismaService,
+      );
+      expect(mockPrismaService.appointmentReminder.update).toHaveBeenCalledWith({
+        where: { id: 'reminder1' },
+        data: { outboxId: 'outbox1' },
+      });
+    });
+
+    it('should skip reminders of appointments moved without a sync', async () => {
+      mockPrismaService.appointmentReminder.findMany.mockResolvedValue([
+        buildReminder({ scheduledFor: new Date('2030-01-04T09:00:00.000Z') }),
+      ]);
+
+      const result = await service.sendDue(now);
+
+      expect(result).toEqual({ sent: 0, skipped: 1 });
+      expect(mockNotifications.appointmentReminder).not.toHaveBeenCalled();
+    });
+
+    it('should skip reminders when the user opted out of every channel', async () => {
+      mockPrismaService.appointmentReminder.findMany.mockResolvedValue([
+        buildReminder({
+          appointment: {
+            ...buildReminder().appointment,
+            user: { reminderOptOuts: [NotificationChannel.EMAIL, NotificationChannel.SMS] },
+          },
+        }),
+      ]);
+
+      const result = await service.sendDue(now);
+
+      expect(result).toEqual({ sent: 0, skipped: 1 });
+    });
+
+    it('should leave reminders claimed by another run alone', async () => {
+      mockPrismaService.appointmentReminder.findMany.mockResolvedValue([buildReminder()]);
+      mockPrismaService.appointmentReminder.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await service.sendDue(now);
+
+      expect(result).toEqual({ sent: 0, skipped: 0 });
+      expect(mockNotifications.appointmentReminder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmation tokens', () => {
+    it('should round-trip a token until the appointment starts', () => {
+      const token = service.createConfirmationToken('appointment1', scheduledAt);
+
+      expect(service.verifyConfirmationToken(token, now)).toBe('appointment1');
+      expect(() => service.verifyConfirmationToken(token, scheduledAt)).toThrow(
+        'The confirmation link has expired.',
+      );
+    });
+
+    it('should reject tampered tokens', () => {
+      const token = service.createConfirmationToken('appointment1', scheduledAt);
+
+      expect(() =>
+        service.verifyConfirmationToken(token.replace('appointment1', 'appointment2'), now),
+      ).toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Appointment,
+  AppointmentReminderStatus,
+  AppointmentStatus,
+  NotificationChannel,
+  Prisma,
+} from '@prisma/client';
+
+import { NotificationsConfig } from '@config/notifications.config';
+import { AppointmentNotificationsService } from '@modules/appointments/appointment-notifications.service';
+import { PrismaService } from '@prisma/prisma.service';
+
+export interface AppointmentReminderRunResult {
+  sent: number;
+  skipped: number;
+}
+
+const REMINDER_BATCH_SIZE = 100;
+
+const REMINDABLE_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED,
+];
+
+const REMINDER_CHANNELS: NotificationChannel[] = [
+  NotificationChannel.EMAIL,
+  NotificationChannel.SMS,
+];
+
+const reminderInclude = {
+  appointment: {
+    include: {
+      user: {
+        select: {
+          reminderOptOuts: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.AppointmentReminderInclude;
+
+type ReminderWithAppointment = Prisma.AppointmentReminderGetPayload<{
+  include: typeof reminderInclude;
+}>;
+
+/**
+ * Schedules the reminders of an appointment (one per configured offset
+ * before `scheduledAt`) and publishes them to the notification outbox when
+ * due, with a signed link confirming attendance.
+ */
+@Injectable()
+export class AppointmentRemindersService {
+  private readonly logger = new Logger(AppointmentRemindersService.name);
+
+  private readonly config: NotificationsConfig['reminders'] | undefined;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notifications: AppointmentNotificationsService,
+    configService: ConfigService,
+  ) {
+    this.config = configService.get<NotificationsConfig>('notifications', {
+      infer: true,
+    })?.reminders;
+  }
+
+  /**
+   * Brings the reminders of an appointment in line with its current status
+   * and time: pending reminders are cancelled once it is no longer upcoming,
+   * and moved (or sent again) when it is rescheduled. Call it with the
+   * transaction client of every change to an appointment.
+   */
+  async sync(
+    appointment: Pick<Appointment, 'id' | 'status' | 'scheduledAt'>,
+    client: Prisma.TransactionClient = this.prisma,
+    now: Date = new Date(),
+  ): Promise<void> {
+    if (!REMINDABLE_STATUSES.includes(appointment.status)) {
+      await this.cancel(appointment.id, client);
+      return;
+    }
+
+    const offsets = this.config?.offsetsMinutes ?? [48 * 60, 2 * 60];
+    const existing = await client.appointmentReminder.findMany({
+      where: { appointmentId: appointment.id },
+    });
+
+    for (const offsetMinutes of offsets) {
+      const dueAt = new Date(appointment.scheduledAt.getTime() - offsetMinutes * 60 * 1000);
+      const status =
+        dueAt > now ? AppointmentReminderStatus.PENDING : AppointmentReminderStatus.SKIPPED;
+      const reminder = existing.find((candidate) => candidate.offsetMinutes === offsetMinutes);
+
+      if (!reminder) {
+        await client.appointmentReminder.create({
+          data: {
+            appointmentId: appointment.id,
+            offsetMinutes,
+            scheduledFor: appointment.scheduledAt,
+            dueAt,
+            status,
+          },
+        });
+        continue;
+      }
+
+      const unchanged = reminder.scheduledFor.getTime() === appointment.scheduledAt.getTime();
+
+      if (unchanged && reminder.status !== AppointmentReminderStatus.CANCELLED) {
+        continue;
+      }
+
+      await client.appointmentReminder.update({
+        where: { id: reminder.id },
+        data: {
+          scheduledFor: appointment.scheduledAt,
+          dueAt,
+          status,
+          outboxId: null,
+          sentAt: null,
+        },
+      });
+    }
+
+    // Offsets removed from the configuration no longer fire.
+    await client.appointmentReminder.updateMany({
+      where: {
+        appointmentId: appointment.id,
+        status: AppointmentReminderStatus.PENDING,
+        offsetMinutes: { notIn: offsets },
+      },
+      data: { status: AppointmentReminderStatus.CANCELLED },
+    });
+  }
+
+  async cancel(
+    appointmentId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    await client.appointmentReminder.updateMany({
+      where: { appointmentId, status: AppointmentReminderStatus.PENDING },
+      data: { status: AppointmentReminderStatus.CANCELLED },
+    });
+  }
+
+  /**
+   * Publishes the reminders that are due. A reminder whose appointment was
+   * cancelled or moved without being synced, or whose user opted out of every
+   * channel, is skipped instead of sent.
+   */
+  async sendDue(now: Date = new Date()): Promise<AppointmentReminderRunResult> {
+    const result: AppointmentReminderRunResult = { sent: 0, skipped: 0 };
+
+    const due = await this.prisma.appointmentReminder.findMany({
+      where: {
+        status: AppointmentReminderStatus.PENDING,
+        dueAt: { lte: now },
+      },
+      orderBy: { dueAt: 'asc' },
+      take: REMINDER_BATCH_SIZE,
+      include: reminderInclude,
+    });
+
+    for (const reminder of due) {
+      const outcome = await this.prisma.$transaction((tx) => this.send(reminder, tx, now));
+
+      if (outcome) {
+        result[outcome] += 1;
+      }
+    }
+
+    if (due.length) {
+      this.logger.verbose(`Appointment reminders: ${result.sent} sent, ${result.skipped} skipped`);
+    }
+
+    return result;
+  }
+
+  createConfirmationToken(appointmentId: string, expiresAt: Date): string {
+    const payload = `${appointmentId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Returns the appointment a confirmation token was issued for, once its
+   * signature and expiry have been checked.
+   */
+  verifyConfirmationToken(token: string, now: Date = new Date()): string {
+    const [appointmentId, expiresAt, signature] = token.split('.');
+
+    if (!appointmentId || !expiresAt || !signature) {
+      throw new BadRequestException('The confirmation link is invalid.');
+    }
+
+    const expected = Buffer.from(this.sign(`${appointmentId}.${expiresAt}`));
+    const received = Buffer.from(signature);
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new BadRequestException('The confirmation link is invalid.');
+    }
+
+    if (Number(expiresAt) * 1000 <= now.getTime()) {
+      throw new BadRequestException('The confirmation link has expired.');
+    }
+
+    return appointmentId;
+  }
+
+  private async send(
+    reminder: ReminderWithAppointment,
+    tx: Prisma.TransactionClient,
+    now: Date,
+  ): Promise<keyof AppointmentReminderRunResult | null> {
+    const { count } = await tx.appointmentReminder.updateMany({
+      where: { id: reminder.id, status: AppointmentReminderStatus.PENDING },
+      data: { status: AppointmentReminderStatus.SENT, sentAt: now },
+    });
+
+    if (!count) {
+      return null;
+    }
+
+    const { appointment } = reminder;
+    const channels = REMINDER_CHANNELS.filter(
+      (channel) => !appointment.user.reminderOptOuts.includes(channel),
+    );
+    const current =
+      REMINDABLE_STATUSES.includes(appointment.status) &&
+      appointment.scheduledAt.getTime() === reminder.scheduledFor.getTime() &&
+      appointment.scheduledAt > now;
+
+    if (!current || !channels.length) {
+      await tx.appointmentReminder.update({
+        where: { id: reminder.id },
+        data: { status: AppointmentReminderStatus.SKIPPED, sentAt: null },
+      });
+      return 'skipped';
+    }
+
+    const outboxId = await this.notifications.appointmentReminder(
+      {
+        appointmentId: appointment.id,
+        userId: appointment.userId,
+        serviceId: appointment.serviceId,
+        reminderId: reminder.id,
+        scheduledAt: appointment.scheduledAt,
+        confirmUrl: this.buildConfirmUrl(appointment.id, appointment.scheduledAt),
+      },
+      channels,
+      tx,
+    );
+
+    await tx.appointmentReminder.update({
+      where: { id: reminder.id },
+      data: { outboxId },
+    });
+
+    return 'sent';
+  }
+
+  private buildConfirmUrl(appointmentId: string, scheduledAt: Date): string {
+    const url = new URL(this.config?.confirmUrl ?? 'http://localhost:3000/fr/appointments/confirm');
+    url.searchParams.set('token', this.createConfirmationToken(appointmentId, scheduledAt));
+    return url.toString();
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.config?.linkSecret ?? 'change-me-links')
+      .update(payload)
+      .digest('base64url');
+  }
+}
@@ -1,40 +1,90 @@
-import { Body, Controller, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Sse,
+} from '@nestjs/common';
 import {
   ApiBearerAuth,
   ApiCreatedResponse,
+  ApiNoContentResponse,
   ApiOkResponse,
+  ApiProduces,
   ApiOperation,
   ApiTags,
 } from '@nestjs/swagger';
+import { BookingAttemptKind } from '@prisma/client';
 
 import { PaginationQueryDto, ResourceIdParamDto } from '@acme/shared-dto';
+import { ROLE } from '@common/constants/role.constants';
 import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { Public } from '@common/decorators/public.decorator';
+import { Roles } from '@common/decorators/roles.decorator';
 import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
 import {
+  AppointmentAgendaQueryDto,
+  AppointmentAgendaResponseDto,
   AppointmentAvailabilityQueryDto,
   AppointmentAvailabilityResponseDto,
   AppointmentDetailResponseDto,
   AppointmentListResponseDto,
   BookAppointmentDto,
+  BookingChallengeResponseDto,
+  CalendarFeedResponseDto,
+  CalendarFeedTokenParamDto,
   CancelAppointmentDto,
+  CheckInAppointmentDto,
+  ConfirmAttendanceDto,
   CreateQueueTicketDto,
+  CreateSlotHoldDto,
+  QueueBoardDto,
+  QueueBoardQueryDto,
+  QueueTicketPositionDto,
+  NextAvailableSlotsQueryDto,
+  NextAvailableSlotsResponseDto,
+  QueuePriorityRuleListResponseDto,
   QueueTicketDetailResponseDto,
   RescheduleAppointmentDto,
+  SlotHoldResponseDto,
   UpdateQueueTicketStatusDto,
 } from '@modules/appointments/dto';
+import { AppointmentCalendarService } from '@modules/appointments/appointment-calendar.service';
 import { AppointmentsService } from '@modules/appointments/appointments.service';
+import { ProtectBooking } from '@modules/appointments/booking-protection.interceptor';
+import { BookingProtectionService } from '@modules/appointments/booking-protection.service';
+import { Idempotent } from '@modules/appointments/idempotency.interceptor';
+import { QueueBoardService } from '@modules/appointments/queue-board.service';
+import { QueuePriorityService } from '@modules/appointments/queue-priority.service';
+import { SlotHoldsService } from '@modules/appointments/slot-holds.service';
+import { SlotSearchService } from '@modules/appointments/slot-search.service';
 
 @ApiTags('appointments')
 @ApiBearerAuth()
 @Controller({ path: 'appointments', version: '1' })
 export class AppointmentsController {
-  constructor(private readonly appointmentsService: AppointmentsService) {}
+  constructor(
+    private readonly appointmentsService: AppointmentsService,
+    private readonly calendar: AppointmentCalendarService,
+    private readonly bookingProtection: BookingProtectionService,
+    private readonly slotHolds: SlotHoldsService,
+    private readonly slotSearch: SlotSearchService,
+    private readonly queueBoard: QueueBoardService,
+    private readonly queuePriority: QueuePriorityService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'List scheduled appointments' })
   @ApiOkResponse({ description: 'Appointments retrieved', type: AppointmentListResponseDto })
-  list(@Query() query: PaginationQueryDto) {
-    return this.appointmentsService.list(query);
+  list(@Query() query: PaginationQueryDto, @CurrentUser() user: AuthenticatedUser) {
+    return this.appointmentsService.list(query, user);
   }
 
   @Get('availability')
@@ -47,21 +97,140 @@ export class AppointmentsController {
     return this.appointmentsService.getAvailability(query);
   }
 
+  @Get('availability/next')
+  @ApiOperation({ summary: 'Find the earliest bookable slots across one or more services' })
+  @ApiOkResponse({ description: 'Earliest slots retrieved', type: NextAvailableSlotsResponseDto })
+  findNextAvailable(@Query() query: NextAvailableSlotsQueryDto) {
+    return this.slotSearch.findNextAvailable(query);
+  }
+
+  @Get('agenda')
+  @Roles(ROLE.SPECIALIST)
+  @ApiOperation({ summary: 'Retrieve the agenda of the signed-in specialist' })
+  @ApiOkResponse({ description: 'Agenda retrieved', type: AppointmentAgendaResponseDto })
+  getAgenda(@CurrentUser() user: AuthenticatedUser, @Query() query: AppointmentAgendaQueryDto) {
+    return this.appointmentsService.getAgenda(user, query);
+  }
+
+  @Get('calendar-feed/:token')
+  @Public()
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Cache-Control', 'private, max-age=300')
+  @ApiProduces('text/calendar')
+  @ApiOperation({ summary: 'Subscribe to the upcoming appointments of a user as iCalendar' })
+  @ApiOkResponse({ description: 'Calendar feed retrieved', type: String })
+  getCalendarFeed(@Param() params: CalendarFeedTokenParamDto) {
+    return this.calendar.exportFeed(params.token);
+  }
+
+  @Post('calendar-feed')
+  @Idempotent()
+  @ApiOperation({ summary: 'Issue a new calendar feed URL, invalidating the previous one' })
+  @ApiCreatedResponse({ description: 'Calendar feed issued', type: CalendarFeedResponseDto })
+  rotateCalendarFeed(@CurrentUser() user: AuthenticatedUser) {
+    return this.calendar.rotateFeed(user);
+  }
+
+  @Delete('calendar-feed')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Idempotent()
+  @ApiOperation({ summary: 'Revoke the calendar feed URL of the authenticated user' })
+  @ApiNoContentResponse({ description: 'Calendar feed revoked' })
+  revokeCalendarFeed(@CurrentUser() user: AuthenticatedUser) {
+    return this.calendar.revokeFeed(user);
+  }
+
+  @Get('booking-challenge')
+  @ApiOperation({ summary: 'Issue a proof-of-work challenge required to book or join a queue' })
+  @ApiOkResponse({ description: 'Challenge issued', type: BookingChallengeResponseDto })
+  getBookingChallenge(@CurrentUser() user: AuthenticatedUser) {
+    return this.bookingProtection.issueChallenge(user);
+  }
+
+  @Post('holds')
+  @Idempotent()
+  @ApiOperation({
+    summary: 'Hold a seat of a slot for a few minutes while the booking is confirmed',
+  })
+  @ApiCreatedResponse({ description: 'Seat held', type: SlotHoldResponseDto })
+  holdSlot(@CurrentUser() user: AuthenticatedUser, @Body() payload: CreateSlotHoldDto) {
+    return this.appointmentsService.holdSlot(user, payload);
+  }
+
+  @Delete('holds/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Idempotent()
+  @ApiOperation({ summary: 'Release a seat held for the authenticated user' })
+  @ApiNoContentResponse({ description: 'Seat released' })
+  releaseSlotHold(@Param() params: ResourceIdParamDto, @CurrentUser() user: AuthenticatedUser) {
+    return this.slotHolds.release(params.id, user);
+  }
+
+  @Get(':id/ics')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="appointment.ics"')
+  @ApiProduces('text/calendar')
+  @ApiOperation({ summary: 'Export an appointment as an iCalendar event' })
+  @ApiOkResponse({ description: 'Appointment exported', type: String })
+  exportCalendarEvent(@Param() params: ResourceIdParamDto, @CurrentUser() user: AuthenticatedUser) {
+    return this.calendar.exportAppointment(params.id, user);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get appointment details' })
   @ApiOkResponse({ description: 'Appointment retrieved', type: AppointmentDetailResponseDto })
-  getById(@Param() params: ResourceIdParamDto) {
-    return this.appointmentsService.getById(params.id);
+  getById(@Param() params: ResourceIdParamDto, @CurrentUser() user: AuthenticatedUser) {
+    return this.appointmentsService.getById(params.id, user);
   }
 
   @Post()
+  @ProtectBooking(BookingAttemptKind.APPOINTMENT)
+  @Idempotent()
   @ApiOperation({ summary: 'Book a new appointment' })
   @ApiCreatedResponse({ description: 'Appointment booked', type: AppointmentDetailResponseDto })
   book(@CurrentUser() user: AuthenticatedUser, @Body() payload: BookAppointmentDto) {
     return this.appointmentsService.book(user, payload);
   }
 
+  @Post('confirm-attendance')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm attendance using the link of an appointment reminder' })
+  @ApiOkResponse({ description: 'Attendance confirmed', type: AppointmentDetailResponseDto })
+  confirmAttendance(@Body() payload: ConfirmAttendanceDto) {
+    return this.appointmentsService.confirmAttendance(payload);
+  }
+
+  @Post('check-in')
+  @Roles(ROLE.ADMIN, ROLE.SPECIALIST)
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @ApiOperation({ summary: 'Check a client in from their reference code or QR code' })
+  @ApiOkResponse({ description: 'Appointment checked in', type: AppointmentDetailResponseDto })
+  checkIn(@CurrentUser() user: AuthenticatedUser, @Body() payload: CheckInAppointmentDto) {
+    return this.appointmentsService.checkIn(user, payload);
+  }
+
+  @Patch(':id/start')
+  @Roles(ROLE.ADMIN, ROLE.SPECIALIST)
+  @Idempotent()
+  @ApiOperation({ summary: 'Start serving a checked-in client' })
+  @ApiOkResponse({ description: 'Appointment in progress', type: AppointmentDetailResponseDto })
+  startService(@Param() params: ResourceIdParamDto, @CurrentUser() user: AuthenticatedUser) {
+    return this.appointmentsService.startService(params.id, user);
+  }
+
+  @Patch(':id/complete')
+  @Roles(ROLE.ADMIN, ROLE.SPECIALIST)
+  @Idempotent()
+  @ApiOperation({ summary: 'Mark an appointment as completed' })
+  @ApiOkResponse({ description: 'Appointment completed', type: AppointmentDetailResponseDto })
+  complete(@Param() params: ResourceIdParamDto, @CurrentUser() user: AuthenticatedUser) {
+    return this.appointmentsService.complete(params.id, user);
+  }
+
   @Patch(':id/reschedule')
+  @Idempotent()
   @ApiOperation({ summary: 'Reschedule an existing appointment' })
   @ApiOkResponse({ description: 'Appointment rescheduled', type: AppointmentDetailResponseDto })
   reschedule(
@@ -73,6 +242,7 @@ export class AppointmentsController {
   }
 
   @Patch(':id/cancel')
+  @Idempotent()
   @ApiOperation({ summary: 'Cancel a scheduled appointment' })
   @ApiOkResponse({ description: 'Appointment cancelled', type: AppointmentDetailResponseDto })
   cancel(
@@ -83,7 +253,42 @@ export class AppointmentsController {
     return this.appointmentsService.cancel(params.id, user, payload);
   }
 
+  @Get('queue/priority-classes')
+  @ApiOperation({ summary: 'List the priority classes clients can claim when joining a queue' })
+  @ApiOkResponse({
+    description: 'Priority classes retrieved',
+    type: QueuePriorityRuleListResponseDto,
+  })
+  listQueuePriorityClasses() {
+    return this.queuePriority.listClaimableRules();
+  }
+
+  @Sse('queue/board')
+  @Public()
+  @ApiProduces('text/event-stream')
+  @ApiOperation({ summary: 'Stream the live waiting-room board of a service' })
+  @ApiOkResponse({
+    description: 'Board snapshots, sent whenever the queue changes',
+    type: QueueBoardDto,
+  })
+  streamQueueBoard(@Query() query: QueueBoardQueryDto) {
+    return this.queueBoard.watchBoard(query.serviceId, query.officeId);
+  }
+
+  @Sse('queue/:id/position')
+  @ApiProduces('text/event-stream')
+  @ApiOperation({ summary: 'Stream the position of a queue ticket of the signed-in user' })
+  @ApiOkResponse({
+    description: 'Positions, sent until the ticket leaves the queue',
+    type: QueueTicketPositionDto,
+  })
+  streamQueuePosition(@Param() params: ResourceIdParamDto, @CurrentUser() user: AuthenticatedUser) {
+    return this.queueBoard.watchPosition(params.id, user);
+  }
+
   @Post('queue')
+  @ProtectBooking(BookingAttemptKind.QUEUE_TICKET)
+  @Idempotent()
   @ApiOperation({ summary: 'Create a queue ticket for a service' })
   @ApiCreatedResponse({ description: 'Queue ticket created', type: QueueTicketDetailResponseDto })
   joinQueue(@CurrentUser() user: AuthenticatedUser, @Body() payload: CreateQueueTicketDto) {
@@ -91,6 +296,7 @@ export class AppointmentsController {
   }
 
   @Patch('queue/:id/status')
+  @Idempotent()
   @ApiOperation({ summary: 'Update the status of a queue ticket' })
   @ApiOkResponse({ description: 'Queue ticket updated', type: QueueTicketDetailResponseDto })
   updateQueueTicketStatus(
@@ -1,12 +1,67 @@
 import { Module } from '@nestjs/common';
 
+import { AppointmentAttendanceService } from '@modules/appointments/appointment-attendance.service';
+import { AppointmentCalendarService } from '@modules/appointments/appointment-calendar.service';
+import { AppointmentDocumentsService } from '@modules/appointments/appointment-documents.service';
 import { AppointmentNotificationsService } from '@modules/appointments/appointment-notifications.service';
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
 import { AppointmentsController } from '@modules/appointments/appointments.controller';
 import { AppointmentsService } from '@modules/appointments/appointments.service';
+import { BookingPolicyService } from '@modules/appointments/booking-policy.service';
+import { BookingProtectionInterceptor } from '@modules/appointments/booking-protection.interceptor';
+import { BookingProtectionService } from '@modules/appointments/booking-protection.service';
+import { IdempotencyInterceptor } from '@modules/appointments/idempotency.interceptor';
+import { IdempotencyService } from '@modules/appointments/idempotency.service';
+import { QueueBoardService } from '@modules/appointments/queue-board.service';
+import { QueueEtaService } from '@modules/appointments/queue-eta.service';
+import { QueuePriorityService } from '@modules/appointments/queue-priority.service';
+import { SlotHoldsService } from '@modules/appointments/slot-holds.service';
+import { SlotSearchService } from '@modules/appointments/slot-search.service';
+import { SpecialistAssignmentsService } from '@modules/appointments/specialist-assignments.service';
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
+import { NotificationsModule } from '@modules/notifications/notifications.module';
+import { SchedulingModule } from '@modules/scheduling/scheduling.module';
+import { UsersModule } from '@modules/users/users.module';
 
 @Module({
+  imports: [NotificationsModule, SchedulingModule, UsersModule],
   controllers: [AppointmentsController],
-  providers: [AppointmentsService, AppointmentNotificationsService],
-  exports: [AppointmentsService, AppointmentNotificationsService],
+  providers: [
+    AppointmentsService,
+    AppointmentAttendanceService,
+    AppointmentCalendarService,
+    AppointmentDocumentsService,
+    AppointmentNotificationsService,
+    AppointmentRemindersService,
+    BookingPolicyService,
+    BookingProtectionInterceptor,
+    BookingProtectionService,
+    IdempotencyInterceptor,
+    IdempotencyService,
+    QueueBoardService,
+    QueueEtaService,
+    QueuePriorityService,
+    SlotHoldsService,
+    SlotSearchService,
+    SpecialistAssignmentsService,
+    WaitlistPromotionService,
+  ],
+  exports: [
+    AppointmentsService,
+    AppointmentAttendanceService,
+    AppointmentDocumentsService,
+    AppointmentNotificationsService,
+    AppointmentRemindersService,
+    BookingPolicyService,
+    BookingProtectionService,
+    IdempotencyService,
+    QueueBoardService,
+    QueueEtaService,
+    QueuePriorityService,
+    SlotHoldsService,
+    SlotSearchService,
+    SpecialistAssignmentsService,
+    WaitlistPromotionService,
+  ],
 })
 export class AppointmentsModule {}
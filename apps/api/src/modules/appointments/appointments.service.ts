@@ -10,35 +10,67 @@ import { DateTime } from 'luxon';
 import { ROLE } from '@common/constants/role.constants';
 import { PaginationQueryDto } from '@acme/shared-dto';
 import {
+  AppointmentAgendaEntryDto,
+  AppointmentAgendaQueryDto,
+  AppointmentAgendaResponseDto,
   AppointmentAvailabilityQueryDto,
   AppointmentAvailabilityResponseDto,
   AppointmentDetailResponseDto,
   AppointmentDetailsDto,
   AppointmentListResponseDto,
-  AppointmentSlotAvailabilityDto,
   BookAppointmentDto,
   CancelAppointmentDto,
+  CheckInAppointmentDto,
+  ConfirmAttendanceDto,
   CreateQueueTicketDto,
+  CreateSlotHoldDto,
   QueueTicketDetailResponseDto,
+  QueueTicketEtaDto,
   QueueTicketResponseDto,
   RescheduleAppointmentDto,
+  SlotHoldResponseDto,
   UpdateQueueTicketStatusDto,
 } from '@modules/appointments/dto';
+import {
+  AppointmentAttendanceService,
+  ATTENDANCE_APPOINTMENT_STATUSES,
+  toCheckInQrPayload,
+} from '@modules/appointments/appointment-attendance.service';
+import { toAppointmentReference } from '@modules/appointments/appointment-reference';
+import { AppointmentDocumentsService } from '@modules/appointments/appointment-documents.service';
 import { AppointmentNotificationsService } from '@modules/appointments/appointment-notifications.service';
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
+import { BookingPolicyService } from '@modules/appointments/booking-policy.service';
+import { QueueBoardService, toQueueTicketNumber } from '@modules/appointments/queue-board.service';
+import { QueueEtaService } from '@modules/appointments/queue-eta.service';
+import { QueuePriorityService } from '@modules/appointments/queue-priority.service';
+import {
+  toSlotAvailability,
+  updateSlotOccupancyStatus,
+} from '@modules/appointments/slot-availability';
+import { SlotHoldsService } from '@modules/appointments/slot-holds.service';
+import { SpecialistAssignmentsService } from '@modules/appointments/specialist-assignments.service';
+import {
+  QUEUE_HOLD_MINUTES,
+  WaitlistPromotionService,
+} from '@modules/appointments/waitlist-promotion.service';
 import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { ClosuresService } from '@modules/scheduling/closures.service';
+import { DependentsService } from '@modules/users/dependents.service';
 import {
   AppointmentSlot,
   AppointmentSlotStatus,
   AppointmentStatus,
   AppointmentStatusEventType,
   Prisma,
+  QueuePriorityClass,
   QueueTicket,
   QueueTicketStatus,
 } from '@prisma/client';
 import { PrismaService } from '@prisma/prisma.service';
 
 const DEFAULT_AVAILABILITY_WINDOW_DAYS = 30;
-const QUEUE_HOLD_MINUTES = 30;
+const DEFAULT_AGENDA_WINDOW_DAYS = 7;
 const MAX_PAGE_SIZE = 100;
 
 type AppointmentWithRelations = Prisma.AppointmentGetPayload<{
@@ -46,13 +78,24 @@ type AppointmentWithRelations = Prisma.AppointmentGetPayload<{
     service: true;
     slot: true;
     queueTicket: true;
+    dependent: true;
   };
 }>;
 
-type SlotWithRelations = Prisma.AppointmentSlotGetPayload<{
+type AgendaAppointment = Prisma.AppointmentGetPayload<{
   include: {
-    appointments: true;
-    queueTickets: true;
+    service: true;
+    slot: true;
+    queueTicket: true;
+    dependent: true;
+    user: {
+      select: {
+        id: true;
+        firstName: true;
+        lastName: true;
+        phoneNumber: true;
+      };
+    };
   };
 }>;
 
@@ -63,17 +106,35 @@ export class AppointmentsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly notifications: AppointmentNotificationsService,
+    private readonly closures: ClosuresService,
+    private readonly specialists: SpecialistAssignmentsService,
+    private readonly waitlist: WaitlistPromotionService,
+    private readonly reminders: AppointmentRemindersService,
+    private readonly attendance: AppointmentAttendanceService,
+    private readonly policies: BookingPolicyService,
+    private readonly slotHolds: SlotHoldsService,
+    private readonly queueBoard: QueueBoardService,
+    private readonly queueEta: QueueEtaService,
+    private readonly queuePriority: QueuePriorityService,
+    private readonly dependents: DependentsService,
+    private readonly documents: AppointmentDocumentsService,
   ) {}
 
-  async list(query: PaginationQueryDto): Promise<AppointmentListResponseDto> {
+  /** Staff see every appointment; everyone else only the ones they booked. */
+  async list(
+    query: PaginationQueryDto,
+    user: AuthenticatedUser,
+  ): Promise<AppointmentListResponseDto> {
     const page = query.page && query.page > 0 ? query.page : 1;
     const limit = query.limit && query.limit > 0 ? Math.min(query.limit, MAX_PAGE_SIZE) : 25;
     const skip = (page - 1) * limit;
+    const where: Prisma.AppointmentWhereInput = this.isStaff(user) ? {} : { userId: user.id };
 
     this.logger.verbose(`Listing appointments page=${page} limit=${limit}`);
 
     const [appointments, total] = await this.prisma.$transaction([
       this.prisma.appointment.findMany({
+        where,
         skip,
         take: limit,
         orderBy: { scheduledAt: 'asc' },
@@ -81,9 +142,10 @@ export class AppointmentsService {
           service: true,
           slot: true,
           queueTicket: true,
+          dependent: true,
         },
       }),
-      this.prisma.appointment.count(),
+      this.prisma.appointment.count({ where }),
     ]);
 
     return {
@@ -96,7 +158,11 @@ export class AppointmentsService {
     };
   }
 
-  async getById(id: string): Promise<AppointmentDetailResponseDto> {
+  /**
+   * When a viewer is given, only the person who booked and staff may read the
+   * appointment, as it carries the document checklist of the dependent.
+   */
+  async getById(id: string, viewer?: AuthenticatedUser): Promise<AppointmentDetailResponseDto> {
     this.logger.verbose(`Retrieving appointment ${id}`);
 
     const appointment = await this.prisma.appointment.findUnique({
@@ -105,6 +171,7 @@ export class AppointmentsService {
         service: true,
         slot: true,
         queueTicket: true,
+        dependent: true,
       },
     });
 
@@ -112,8 +179,15 @@ export class AppointmentsService {
       throw new NotFoundException('Appointment not found.');
     }
 
+    if (viewer && appointment.userId !== viewer.id && !this.isStaff(viewer)) {
+      throw new ForbiddenException('You do not have permission to view this appointment.');
+    }
+
     return {
-      data: this.mapAppointment(appointment),
+      data: {
+        ...this.mapAppointment(appointment),
+        documentChecklist: await this.documents.getChecklist(appointment),
+      },
     };
   }
 
@@ -130,9 +204,12 @@ export class AppointmentsService {
       throw new BadRequestException('The end of the availability window must be after the start.');
     }
 
+    await this.waitlist.releaseExpiredHolds({ serviceId: query.serviceId });
+
     const slots = await this.prisma.appointmentSlot.findMany({
       where: {
         serviceId: query.serviceId,
+        ...(query.officeId ? { officeId: query.officeId } : {}),
         startAt: { gte: rangeStart.toJSDate() },
         endAt: { lte: rangeEnd.toJSDate() },
         status: { not: AppointmentSlotStatus.CANCELLED },
@@ -141,11 +218,84 @@ export class AppointmentsService {
       include: {
         appointments: true,
         queueTickets: true,
+        holds: { where: { expiresAt: { gt: new Date() } } },
+      },
+    });
+
+    const closedDates = await this.closures.getClosedDates(
+      rangeStart.toJSDate(),
+      rangeEnd.toJSDate(),
+      query.serviceId,
+      query.officeId,
+    );
+
+    return {
+      data: slots
+        .filter(
+          (slot) =>
+            !this.closures.isClosedOn(slot.startAt, slot.timezone, closedDates, slot.officeId),
+        )
+        .map((slot) => toSlotAvailability(slot)),
+    };
+  }
+
+  /**
+   * Returns the appointments assigned to the signed-in specialist, across
+   * every service, for the requested window (the coming week by default).
+   */
+  async getAgenda(
+    user: AuthenticatedUser,
+    query: AppointmentAgendaQueryDto,
+  ): Promise<AppointmentAgendaResponseDto> {
+    const zone = query.timezone ?? 'UTC';
+    const rangeStart = query.from
+      ? this.parseDateTime(query.from, zone)
+      : DateTime.now().setZone(zone).startOf('day').toUTC();
+    const rangeEnd = query.to
+      ? this.parseDateTime(query.to, zone)
+      : rangeStart.plus({ days: DEFAULT_AGENDA_WINDOW_DAYS });
+
+    if (rangeEnd <= rangeStart) {
+      throw new BadRequestException('The end of the agenda window must be after the start.');
+    }
+
+    this.logger.verbose(
+      `Retrieving agenda for specialist=${user.id} from=${rangeStart.toISO()} to=${rangeEnd.toISO()}`,
+    );
+
+    const appointments = await this.prisma.appointment.findMany({
+      where: {
+        specialistId: user.id,
+        scheduledAt: {
+          gte: rangeStart.toJSDate(),
+          lt: rangeEnd.toJSDate(),
+        },
+        ...(query.includeCancelled ? {} : { status: { not: AppointmentStatus.CANCELLED } }),
+      },
+      orderBy: { scheduledAt: 'asc' },
+      include: {
+        service: true,
+        slot: true,
+        queueTicket: true,
+        dependent: true,
+        user: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            phoneNumber: true,
+          },
+        },
       },
     });
 
     return {
-      data: slots.map((slot) => this.mapSlotAvailability(slot)),
+      data: appointments.map((appointment) => this.mapAgendaEntry(appointment)),
+      meta: {
+        from: rangeStart.toISO() as string,
+        to: rangeEnd.toISO() as string,
+        total: appointments.length,
+      },
     };
   }
 
@@ -155,6 +305,9 @@ export class AppointmentsService {
   ): Promise<AppointmentDetailResponseDto> {
     this.logger.verbose(`Booking appointment for user=${user.id} slot=${payload.slotId}`);
 
+    // Lapsed holds are released lazily so their seats become bookable again.
+    await this.waitlist.releaseExpiredHolds({ serviceId: payload.serviceId });
+
     const result = await this.prisma.$transaction(async (tx) => {
       const slot = await this.findSlotOrThrow(payload.slotId, tx);
 
@@ -165,18 +318,37 @@ export class AppointmentsService {
       }
 
       this.ensureSlotBookable(slot);
+      await this.assertSlotNotClosed(slot);
 
-      const existingCount = await tx.appointment.count({
-        where: {
-          slotId: slot.id,
-          status: { not: AppointmentStatus.CANCELLED },
-        },
+      const dependentId = await this.resolveBookingDependent(tx, user, payload);
+
+      await this.policies.assertCanBook(
+        user,
+        { serviceId: payload.serviceId, startAt: slot.startAt, dependentId },
+        tx,
+      );
+
+      const occupiedCount = await this.countOccupiedSeats(slot.id, tx, {
+        queueTicketId: payload.queueTicketId,
+        userId: user.id,
       });
 
-      if (existingCount >= slot.capacity) {
+      if (occupiedCount >= slot.capacity) {
         throw new BadRequestException('The selected slot has reached its capacity.');
       }
 
+      if (slot.specialistId) {
+        await this.specialists.assertNoConflict(
+          {
+            specialistId: slot.specialistId,
+            startAt: slot.startAt,
+            endAt: slot.endAt,
+            slotId: slot.id,
+          },
+          tx,
+        );
+      }
+
       let queueTicket: QueueTicket | null = null;
       if (payload.queueTicketId) {
         queueTicket = await this.claimQueueTicket(tx, payload.queueTicketId, user, slot);
@@ -185,9 +357,11 @@ export class AppointmentsService {
       const appointment = await tx.appointment.create({
         data: {
           userId: user.id,
+          dependentId,
           serviceId: payload.serviceId,
           slotId: slot.id,
           queueTicketId: payload.queueTicketId ?? null,
+          specialistId: slot.specialistId ?? null,
           scheduledAt: slot.startAt,
           status: AppointmentStatus.SCHEDULED,
           notes: payload.notes ?? null,
@@ -206,33 +380,104 @@ export class AppointmentsService {
         },
       });
 
-      await this.updateSlotOccupancyStatus(tx, slot.id);
+      await this.slotHolds.consume(user.id, slot.id, tx);
+      await updateSlotOccupancyStatus(tx, slot.id);
+      await this.reminders.sync(appointment, tx);
 
-      return {
-        appointment,
-        slot,
-        queueTicket,
-      };
-    });
+      await this.notifications.appointmentBooked(
+        {
+          appointmentId: appointment.id,
+          userId: appointment.userId,
+          serviceId: appointment.serviceId,
+          slotId: appointment.slotId,
+          scheduledAt: appointment.scheduledAt,
+          timezone: appointment.timezone,
+        },
+        tx,
+      );
+
+      if (queueTicket) {
+        await this.notifications.queueTicketUpdated(
+          {
+            ticketId: queueTicket.id,
+            userId: queueTicket.userId,
+            serviceId: queueTicket.serviceId,
+            status: QueueTicketStatus.COMPLETED,
+          },
+          tx,
+        );
+      }
 
-    this.notifications.appointmentBooked({
-      appointmentId: result.appointment.id,
-      userId: result.appointment.userId,
-      serviceId: result.appointment.serviceId,
-      slotId: result.appointment.slotId,
-      scheduledAt: result.appointment.scheduledAt,
+      return appointment;
     });
 
-    if (result.queueTicket) {
-      this.notifications.queueTicketUpdated({
-        ticketId: result.queueTicket.id,
-        userId: result.queueTicket.userId,
-        serviceId: result.queueTicket.serviceId,
-        status: QueueTicketStatus.COMPLETED,
-      });
+    if (result.queueTicketId) {
+      this.queueBoard.publish(result.serviceId);
     }
 
-    return this.getById(result.appointment.id);
+    return this.getById(result.id);
+  }
+
+  /**
+   * Holds a seat of the slot for a few minutes so the booking wizard can
+   * guarantee it on the confirmation step. The slot goes through the same
+   * checks as a booking; holding another slot releases the previous hold.
+   */
+  async holdSlot(
+    user: AuthenticatedUser,
+    payload: CreateSlotHoldDto,
+    now: Date = new Date(),
+  ): Promise<SlotHoldResponseDto> {
+    this.logger.verbose(`Holding slot=${payload.slotId} for user=${user.id}`);
+
+    await this.waitlist.releaseExpiredHolds({ serviceId: payload.serviceId }, now);
+
+    const { hold, offered } = await this.prisma.$transaction(async (tx) => {
+      const slot = await this.findSlotOrThrow(payload.slotId, tx);
+
+      if (slot.serviceId !== payload.serviceId) {
+        throw new BadRequestException(
+          'The selected slot does not belong to the specified service.',
+        );
+      }
+
+      this.ensureSlotBookable(slot);
+      await this.assertSlotNotClosed(slot);
+
+      if (payload.dependentId) {
+        await this.dependents.findOwnedOrThrow(user.id, payload.dependentId, tx);
+      }
+
+      await this.policies.assertCanBook(
+        user,
+        {
+          serviceId: payload.serviceId,
+          startAt: slot.startAt,
+          dependentId: payload.dependentId,
+          appointmentId: payload.appointmentId,
+        },
+        tx,
+        now,
+      );
+
+      const occupiedCount = await this.countOccupiedSeats(slot.id, tx, { userId: user.id }, now);
+
+      if (occupiedCount >= slot.capacity) {
+        throw new BadRequestException('The selected slot has reached its capacity.');
+      }
+
+      return this.slotHolds.place(user.id, slot, tx, now);
+    });
+
+    this.waitlist.publishBoards(offered.map((ticket) => ticket.serviceId));
+
+    return {
+      data: {
+        id: hold.id,
+        slotId: hold.slotId,
+        expiresAt: hold.expiresAt.toISOString(),
+      },
+    };
   }
 
   async reschedule(
@@ -260,6 +505,14 @@ export class AppointmentsService {
         throw new BadRequestException('Cancelled appointments cannot be rescheduled.');
       }
 
+      if (ATTENDANCE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+        throw new BadRequestException(
+          'Appointments that have started or ended cannot be rescheduled.',
+        );
+      }
+
+      await this.policies.assertCanChange(user, appointment, tx);
+
       const newSlot = await this.findSlotOrThrow(payload.slotId, tx);
 
       if (newSlot.serviceId !== appointment.serviceId) {
@@ -273,23 +526,47 @@ export class AppointmentsService {
       }
 
       this.ensureSlotBookable(newSlot);
-
-      const occupiedCount = await tx.appointment.count({
-        where: {
-          id: { not: appointment.id },
-          slotId: newSlot.id,
-          status: { not: AppointmentStatus.CANCELLED },
+      await this.assertSlotNotClosed(newSlot);
+      await this.policies.assertCanBook(
+        user,
+        {
+          serviceId: appointment.serviceId,
+          startAt: newSlot.startAt,
+          dependentId: appointment.dependentId,
+          appointmentId: appointment.id,
         },
+        tx,
+      );
+
+      const occupiedCount = await this.countOccupiedSeats(newSlot.id, tx, {
+        appointmentId: appointment.id,
+        userId: user.id,
       });
 
       if (occupiedCount >= newSlot.capacity) {
         throw new BadRequestException('The selected slot has reached its capacity.');
       }
 
+      const specialistId = newSlot.specialistId ?? appointment.specialistId;
+
+      if (specialistId) {
+        await this.specialists.assertNoConflict(
+          {
+            specialistId,
+            startAt: newSlot.startAt,
+            endAt: newSlot.endAt,
+            appointmentId: appointment.id,
+            slotId: newSlot.id,
+          },
+          tx,
+        );
+      }
+
       const updated = await tx.appointment.update({
         where: { id: appointmentId },
         data: {
           slotId: newSlot.id,
+          specialistId,
           scheduledAt: newSlot.startAt,
           timezone: payload.timezone ?? newSlot.timezone ?? appointment.timezone,
           notes: payload.notes ?? appointment.notes,
@@ -307,32 +584,37 @@ export class AppointmentsService {
       });
 
       if (appointment.slotId) {
-        await this.updateSlotOccupancyStatus(tx, appointment.slotId);
+        await updateSlotOccupancyStatus(tx, appointment.slotId);
       }
 
-      await this.updateSlotOccupancyStatus(tx, newSlot.id);
+      await this.slotHolds.consume(user.id, newSlot.id, tx);
+      await updateSlotOccupancyStatus(tx, newSlot.id);
 
-      return {
-        appointment: updated,
-        previousSlotId: appointment.slotId ?? null,
-        newSlotId: newSlot.id,
-      };
-    });
+      const offered = appointment.slotId
+        ? await this.waitlist.offerFreedSeats(appointment.slotId, tx)
+        : [];
+
+      await this.reminders.sync(updated, tx);
+
+      await this.notifications.appointmentRescheduled(
+        {
+          appointmentId: updated.id,
+          userId: updated.userId,
+          serviceId: updated.serviceId,
+          previousSlotId: appointment.slotId ?? null,
+          newSlotId: newSlot.id,
+          scheduledAt: updated.scheduledAt,
+          timezone: updated.timezone,
+        },
+        tx,
+      );
 
-    this.notifications.appointmentRescheduled({
-      appointmentId: result.appointment.id,
-      userId: result.appointment.userId,
-      serviceId: result.appointment.serviceId,
-      previousSlotId: result.previousSlotId,
-      newSlotId: result.newSlotId,
-      scheduledAt: result.appointment.scheduledAt,
+      return { updated, offered };
     });
 
-    if (result.previousSlotId) {
-      await this.notifyNextTicketForService(result.appointment.serviceId);
-    }
+    this.waitlist.publishBoards(result.offered.map((ticket) => ticket.serviceId));
 
-    return this.getById(result.appointment.id);
+    return this.getById(result.updated.id);
   }
 
   async cancel(
@@ -357,6 +639,14 @@ export class AppointmentsService {
         throw new BadRequestException('The appointment has already been cancelled.');
       }
 
+      if (ATTENDANCE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+        throw new BadRequestException(
+          'Appointments that have started or ended cannot be cancelled.',
+        );
+      }
+
+      await this.policies.assertCanChange(user, appointment, tx);
+
       const updated = await tx.appointment.update({
         where: { id: appointmentId },
         data: {
@@ -376,26 +666,107 @@ export class AppointmentsService {
       });
 
       if (appointment.slotId) {
-        await this.updateSlotOccupancyStatus(tx, appointment.slotId);
+        await updateSlotOccupancyStatus(tx, appointment.slotId);
       }
 
-      return {
-        appointment: updated,
-        slotId: appointment.slotId ?? null,
-      };
+      const offered = appointment.slotId
+        ? await this.waitlist.offerFreedSeats(appointment.slotId, tx)
+        : [];
+
+      await this.reminders.cancel(appointment.id, tx);
+
+      await this.notifications.appointmentCancelled(
+        {
+          appointmentId: updated.id,
+          userId: updated.userId,
+          serviceId: updated.serviceId,
+          slotId: appointment.slotId ?? null,
+          reason: payload.reason ?? null,
+        },
+        tx,
+      );
+
+      return { updated, offered };
     });
 
-    this.notifications.appointmentCancelled({
-      appointmentId: result.appointment.id,
-      userId: result.appointment.userId,
-      serviceId: result.appointment.serviceId,
-      slotId: result.slotId,
-      reason: payload.reason ?? null,
+    this.waitlist.publishBoards(result.offered.map((ticket) => ticket.serviceId));
+
+    return this.getById(result.updated.id);
+  }
+
+  /**
+   * Confirms attendance from the signed link of a reminder. Confirming twice
+   * is harmless; cancelled or past appointments cannot be confirmed.
+   */
+  async confirmAttendance(payload: ConfirmAttendanceDto): Promise<AppointmentDetailResponseDto> {
+    const appointmentId = this.reminders.verifyConfirmationToken(payload.token);
+
+    this.logger.verbose(`Confirming attendance for appointment ${appointmentId}`);
+
+    await this.prisma.$transaction(async (tx) => {
+      const appointment = await tx.appointment.findUnique({
+        where: { id: appointmentId },
+      });
+
+      if (!appointment) {
+        throw new NotFoundException('Appointment not found.');
+      }
+
+      if (appointment.status === AppointmentStatus.CONFIRMED) {
+        return;
+      }
+
+      if (appointment.status !== AppointmentStatus.SCHEDULED) {
+        throw new BadRequestException('Only scheduled appointments can be confirmed.');
+      }
+
+      if (appointment.scheduledAt <= new Date()) {
+        throw new BadRequestException('The appointment has already started.');
+      }
+
+      await this.documents.assertCanConfirm(appointment, tx);
+
+      await tx.appointment.update({
+        where: { id: appointment.id },
+        data: { status: AppointmentStatus.CONFIRMED },
+      });
+
+      await tx.appointmentStatusHistory.create({
+        data: {
+          appointmentId: appointment.id,
+          event: AppointmentStatusEventType.CONFIRMED,
+          fromStatus: appointment.status,
+          toStatus: AppointmentStatus.CONFIRMED,
+          notes: 'Attendance confirmed from reminder',
+        },
+      });
     });
 
-    await this.notifyNextTicketForService(result.appointment.serviceId);
+    return this.getById(appointmentId);
+  }
+
+  /**
+   * Checks a client in at the counter from the reference code or the QR
+   * payload of their appointment.
+   */
+  async checkIn(
+    staff: AuthenticatedUser,
+    payload: CheckInAppointmentDto,
+  ): Promise<AppointmentDetailResponseDto> {
+    this.logger.verbose(`Checking in appointment code=${payload.code} by ${staff.id}`);
+
+    const appointmentId = await this.attendance.checkIn(payload.code, staff);
+    return this.getById(appointmentId);
+  }
+
+  async startService(id: string, staff: AuthenticatedUser): Promise<AppointmentDetailResponseDto> {
+    await this.attendance.start(id, staff);
+    return this.getById(id);
+  }
 
-    return this.getById(result.appointment.id);
+  async complete(id: string, staff: AuthenticatedUser): Promise<AppointmentDetailResponseDto> {
+    await this.attendance.complete(id, staff);
+    return this.getById(id);
   }
 
   async createQueueTicket(
@@ -442,9 +813,21 @@ export class AppointmentsService {
         throw new BadRequestException('The desired end time must be after the start time.');
       }
 
-      const ticket = await tx.queueTicket.create({
+      if (payload.dependentId) {
+        await this.dependents.findOwnedOrThrow(user.id, payload.dependentId, tx);
+      }
+
+      const priority = await this.queuePriority.resolveClaim(
+        user.id,
+        payload.priorityClass,
+        payload.priorityProofUploadId,
+        tx,
+      );
+
+      let ticket = await tx.queueTicket.create({
         data: {
           userId: user.id,
+          dependentId: payload.dependentId ?? null,
           serviceId: payload.serviceId,
           slotId: payload.slotId ?? null,
           position: waitingCount + 1,
@@ -453,21 +836,36 @@ export class AppointmentsService {
           desiredTo,
           timezone: desiredZone,
           notes: payload.notes ?? null,
+          ...priority,
         },
       });
 
+      if (ticket.priorityClass !== QueuePriorityClass.STANDARD) {
+        await this.queuePriority.recordGrant(
+          ticket,
+          ticket.priorityProofId ? 'Validated proof document.' : 'No proof required.',
+          tx,
+        );
+        ticket = { ...ticket, position: await this.queuePriority.placeTicket(ticket, tx) };
+      }
+
+      await this.notifications.queueTicketCreated(
+        {
+          ticketId: ticket.id,
+          userId: ticket.userId,
+          serviceId: ticket.serviceId,
+          position: ticket.position,
+        },
+        tx,
+      );
+
       return ticket;
     });
 
-    this.notifications.queueTicketCreated({
-      ticketId: ticket.id,
-      userId: ticket.userId,
-      serviceId: ticket.serviceId,
-      position: ticket.position,
-    });
+    this.queueBoard.publish(ticket.serviceId);
 
     return {
-      data: this.mapQueueTicket(ticket)!,
+      data: this.mapQueueTicket(ticket, await this.queueEta.estimateOne(ticket))!,
     };
   }
 
@@ -516,48 +914,58 @@ export class AppointmentsService {
         updateData.expiresAt = null;
       }
 
+      let updatedTicket = await tx.queueTicket.update({
+        where: { id: ticketId },
+        data: updateData,
+      });
+
+      // A ticket put back in line takes the place its priority lane entitles it to.
       if (
         payload.status === QueueTicketStatus.WAITING &&
         existing.status !== QueueTicketStatus.WAITING
       ) {
-        const waitingCount = await tx.queueTicket.count({
-          where: {
-            serviceId: existing.serviceId,
-            status: QueueTicketStatus.WAITING,
-            NOT: { id: existing.id },
-          },
-        });
-        updateData.position = waitingCount + 1;
+        updatedTicket = {
+          ...updatedTicket,
+          position: await this.queuePriority.placeTicket(updatedTicket, tx),
+        };
       }
 
-      const updatedTicket = await tx.queueTicket.update({
-        where: { id: ticketId },
-        data: updateData,
-      });
-
       if (
         existing.status === QueueTicketStatus.WAITING &&
         payload.status !== QueueTicketStatus.WAITING
       ) {
-        await this.resequenceQueue(tx, existing.serviceId, ticketId);
+        await this.waitlist.resequenceQueue(existing.serviceId, tx, ticketId);
       }
 
-      return updatedTicket;
-    });
+      // A ticket leaving the queue hands any free seat of its slot to the next in line.
+      const releasedSlotId =
+        existing.status !== payload.status &&
+        payload.status !== QueueTicketStatus.WAITING &&
+        payload.status !== QueueTicketStatus.NOTIFIED
+          ? existing.slotId
+          : null;
+
+      await this.notifications.queueTicketUpdated(
+        {
+          ticketId: updatedTicket.id,
+          userId: updatedTicket.userId,
+          serviceId: updatedTicket.serviceId,
+          status: updatedTicket.status,
+        },
+        tx,
+      );
+
+      if (releasedSlotId) {
+        await this.waitlist.offerFreedSeats(releasedSlotId, tx);
+      }
 
-    this.notifications.queueTicketUpdated({
-      ticketId: updated.id,
-      userId: updated.userId,
-      serviceId: updated.serviceId,
-      status: updated.status,
+      return updatedTicket;
     });
 
-    if (updated.status === QueueTicketStatus.CANCELLED) {
-      await this.notifyNextTicketForService(updated.serviceId);
-    }
+    this.queueBoard.publish(updated.serviceId);
 
     return {
-      data: this.mapQueueTicket(updated)!,
+      data: this.mapQueueTicket(updated, await this.queueEta.estimateOne(updated))!,
     };
   }
 
@@ -568,11 +976,18 @@ export class AppointmentsService {
       serviceId: appointment.serviceId,
       slotId: appointment.slotId,
       queueTicketId: appointment.queueTicketId,
+      specialistId: appointment.specialistId ?? null,
       status: appointment.status,
+      reference: toAppointmentReference(appointment.id),
+      checkInCode: toCheckInQrPayload(appointment.id),
       scheduledAt: appointment.scheduledAt.toISOString(),
       timezone: appointment.timezone,
       locale: appointment.locale,
       notes: appointment.notes ?? null,
+      checkedInAt: appointment.checkedInAt?.toISOString() ?? null,
+      startedAt: appointment.startedAt?.toISOString() ?? null,
+      completedAt: appointment.completedAt?.toISOString() ?? null,
+      noShowAt: appointment.noShowAt?.toISOString() ?? null,
       createdAt: appointment.createdAt.toISOString(),
       updatedAt: appointment.updatedAt.toISOString(),
       service: {
@@ -593,61 +1008,60 @@ export class AppointmentsService {
           }
         : null,
       queueTicket: this.mapQueueTicket(appointment.queueTicket),
+      dependent: appointment.dependent
+        ? {
+            id: appointment.dependent.id,
+            firstName: appointment.dependent.firstName,
+            lastName: appointment.dependent.lastName,
+            birthDate: appointment.dependent.birthDate.toISOString().slice(0, 10),
+            relationship: appointment.dependent.relationship,
+          }
+        : null,
+    };
+  }
+
+  private mapAgendaEntry(appointment: AgendaAppointment): AppointmentAgendaEntryDto {
+    return {
+      ...this.mapAppointment(appointment),
+      client: {
+        id: appointment.user.id,
+        firstName: appointment.user.firstName,
+        lastName: appointment.user.lastName,
+        phoneNumber: appointment.user.phoneNumber ?? null,
+      },
     };
   }
 
-  private mapQueueTicket(queueTicket: QueueTicket | null): QueueTicketResponseDto | null {
+  private mapQueueTicket(
+    queueTicket: QueueTicket | null,
+    eta: QueueTicketEtaDto | null = null,
+  ): QueueTicketResponseDto | null {
     if (!queueTicket) {
       return null;
     }
 
     return {
       id: queueTicket.id,
+      number: toQueueTicketNumber(queueTicket.id),
       serviceId: queueTicket.serviceId,
       slotId: queueTicket.slotId,
+      dependentId: queueTicket.dependentId,
       status: queueTicket.status,
       position: queueTicket.position,
+      priorityClass: queueTicket.priorityClass,
+      requestedPriorityClass: queueTicket.requestedPriorityClass,
       desiredFrom: queueTicket.desiredFrom?.toISOString() ?? null,
       desiredTo: queueTicket.desiredTo?.toISOString() ?? null,
       timezone: queueTicket.timezone,
       notifiedAt: queueTicket.notifiedAt?.toISOString() ?? null,
       expiresAt: queueTicket.expiresAt?.toISOString() ?? null,
       notes: queueTicket.notes ?? null,
+      eta,
       createdAt: queueTicket.createdAt.toISOString(),
       updatedAt: queueTicket.updatedAt.toISOString(),
     };
   }
 
-  private mapSlotAvailability(slot: SlotWithRelations): AppointmentSlotAvailabilityDto {
-    const activeAppointments = slot.appointments.filter(
-      (appointment) => appointment.status !== AppointmentStatus.CANCELLED,
-    );
-    const waitingTickets = slot.queueTickets.filter(
-      (ticket) => ticket.status === QueueTicketStatus.WAITING,
-    );
-    const available = Math.max(slot.capacity - activeAppointments.length, 0);
-
-    let status = slot.status;
-    if (slot.status !== AppointmentSlotStatus.CANCELLED) {
-      status = available > 0 ? AppointmentSlotStatus.AVAILABLE : AppointmentSlotStatus.FULL;
-    }
-
-    return {
-      id: slot.id,
-      serviceId: slot.serviceId,
-      startAt: slot.startAt.toISOString(),
-      endAt: slot.endAt.toISOString(),
-      timezone: slot.timezone,
-      capacity: slot.capacity,
-      available,
-      status,
-      bufferBeforeMinutes: slot.bufferBeforeMinutes,
-      bufferAfterMinutes: slot.bufferAfterMinutes,
-      queueLength: waitingTickets.length,
-      notes: slot.notes ?? null,
-    };
-  }
-
   private parseDateTime(value: string, timezone: string): DateTime {
     const dateTime = DateTime.fromISO(value, { zone: timezone });
 
@@ -672,6 +1086,19 @@ export class AppointmentsService {
     }
   }
 
+  private async assertSlotNotClosed(slot: AppointmentSlot): Promise<void> {
+    const closedDates = await this.closures.getClosedDates(
+      slot.startAt,
+      slot.endAt,
+      slot.serviceId,
+      slot.officeId ?? undefined,
+    );
+
+    if (this.closures.isClosedOn(slot.startAt, slot.timezone, closedDates, slot.officeId)) {
+      throw new BadRequestException('The office is closed on the selected day.');
+    }
+  }
+
   private async findSlotOrThrow(
     slotId: string,
     tx: Prisma.TransactionClient,
@@ -689,102 +1116,73 @@ export class AppointmentsService {
     appointment: { userId: string },
     user: AuthenticatedUser,
   ): void {
-    const isOwner = appointment.userId === user.id;
-    const isPrivileged = user.role === ROLE.ADMIN || user.role === ROLE.SPECIALIST;
-
-    if (!isOwner && !isPrivileged) {
+    if (appointment.userId !== user.id && !this.isStaff(user)) {
       throw new ForbiddenException('You do not have permission to modify this appointment.');
     }
   }
 
-  private async updateSlotOccupancyStatus(
-    tx: Prisma.TransactionClient,
+  /**
+   * Counts the seats of a slot already taken by active appointments, unexpired
+   * waitlist seat holds and booking wizard holds. The appointment being moved,
+   * the ticket being redeemed and the booking user's own hold can be left out.
+   */
+  async countOccupiedSeats(
     slotId: string,
-  ): Promise<void> {
-    const slot = await tx.appointmentSlot.findUnique({ where: { id: slotId } });
-
-    if (!slot || slot.status === AppointmentSlotStatus.CANCELLED) {
-      return;
-    }
-
-    const activeCount = await tx.appointment.count({
+    client: Prisma.TransactionClient = this.prisma,
+    exclude: { appointmentId?: string; queueTicketId?: string; userId?: string } = {},
+    now: Date = new Date(),
+  ): Promise<number> {
+    const appointmentCount = await client.appointment.count({
       where: {
         slotId,
         status: { not: AppointmentStatus.CANCELLED },
+        ...(exclude.appointmentId ? { id: { not: exclude.appointmentId } } : {}),
       },
     });
+    const heldCount = await this.waitlist.countActiveHolds(
+      slotId,
+      client,
+      exclude.queueTicketId,
+      now,
+    );
+    const wizardHeldCount = await this.slotHolds.countActive(slotId, client, exclude.userId, now);
 
-    const nextStatus =
-      activeCount >= slot.capacity ? AppointmentSlotStatus.FULL : AppointmentSlotStatus.AVAILABLE;
-
-    if (nextStatus !== slot.status) {
-      await tx.appointmentSlot.update({
-        where: { id: slotId },
-        data: { status: nextStatus },
-      });
-    }
+    return appointmentCount + heldCount + wizardHeldCount;
   }
 
-  private async resequenceQueue(
-    tx: Prisma.TransactionClient,
-    serviceId: string,
-    excludeTicketId?: string,
-  ): Promise<void> {
-    const waitingTickets = await tx.queueTicket.findMany({
-      where: {
-        serviceId,
-        status: QueueTicketStatus.WAITING,
-        ...(excludeTicketId ? { id: { not: excludeTicketId } } : {}),
-      },
-      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
-    });
-
-    await Promise.all(
-      waitingTickets.map((ticket, index) => {
-        const desiredPosition = index + 1;
-        if (ticket.position === desiredPosition) {
-          return Promise.resolve();
-        }
-
-        return tx.queueTicket.update({
-          where: { id: ticket.id },
-          data: { position: desiredPosition },
-        });
-      }),
-    );
+  private isStaff(user: AuthenticatedUser): boolean {
+    return user.role === ROLE.ADMIN || user.role === ROLE.SPECIALIST;
   }
 
-  private async notifyNextTicketForService(serviceId: string): Promise<void> {
-    const nextTicket = await this.prisma.queueTicket.findFirst({
-      where: {
-        serviceId,
-        status: QueueTicketStatus.WAITING,
-      },
-      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
-    });
+  /**
+   * Works out who an appointment is for. A queue ticket taken for a
+   * dependent books for that dependent; naming someone else is refused.
+   */
+  private async resolveBookingDependent(
+    tx: Prisma.TransactionClient,
+    user: AuthenticatedUser,
+    payload: BookAppointmentDto,
+  ): Promise<string | null> {
+    const ticket = payload.queueTicketId
+      ? await tx.queueTicket.findUnique({
+          where: { id: payload.queueTicketId },
+          select: { dependentId: true },
+        })
+      : null;
+
+    if (ticket && (payload.dependentId ?? null) !== ticket.dependentId) {
+      if (payload.dependentId) {
+        throw new BadRequestException('The queue ticket was taken for someone else.');
+      }
 
-    if (!nextTicket) {
-      return;
+      return ticket.dependentId;
     }
 
-    const expiresAt = DateTime.utc().plus({ minutes: QUEUE_HOLD_MINUTES }).toJSDate();
-
-    const updated = await this.prisma.queueTicket.update({
-      where: { id: nextTicket.id },
-      data: {
-        status: QueueTicketStatus.NOTIFIED,
-        notifiedAt: new Date(),
-        expiresAt,
-      },
-    });
+    if (payload.dependentId) {
+      await this.dependents.findOwnedOrThrow(user.id, payload.dependentId, tx);
+    }
 
-    this.notifications.queueTicketNotified({
-      ticketId: updated.id,
-      userId: updated.userId,
-      serviceId: updated.serviceId,
-      slotId: updated.slotId ?? null,
-      expiresAt,
-    });
+    return payload.dependentId ?? null;
   }
 
   private async claimQueueTicket(
@@ -817,6 +1215,16 @@ export class AppointmentsService {
       throw new BadRequestException('Queue ticket is no longer active.');
     }
 
+    if (queueTicket.status === QueueTicketStatus.NOTIFIED) {
+      if (queueTicket.expiresAt && queueTicket.expiresAt <= new Date()) {
+        throw new BadRequestException('The queue ticket hold has expired.');
+      }
+
+      if (queueTicket.slotId && queueTicket.slotId !== slot.id) {
+        throw new BadRequestException('The queue ticket holds a seat in a different slot.');
+      }
+    }
+
     const updatedTicket = await tx.queueTicket.update({
       where: { id: queueTicketId },
       data: {
@@ -827,7 +1235,7 @@ export class AppointmentsService {
       },
     });
 
-    await this.resequenceQueue(tx, queueTicket.serviceId, queueTicketId);
+    await this.waitlist.resequenceQueue(queueTicket.serviceId, tx, queueTicketId);
 
     return updatedTicket;
   }
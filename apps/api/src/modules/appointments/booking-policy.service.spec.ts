@@ -0,0 +1,290 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AppointmentStatus } from '@prisma/client';
+
+import { ROLE } from '@common/constants/role.constants';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { PrismaService } from '@prisma/prisma.service';
+
+import {
+  BOOKING_POLICY_CODE,
+  BookingPolicyException,
+  BookingPolicyService,
+} from './booking-policy.service';
+
+describe('BookingPolicyService', () => {
+  let service: BookingPolicyService;
+
+  const now = new Date('2030-01-01T08:00:00.000Z');
+  const client: AuthenticatedUser = {
+    id: 'user1',
+    email: 'client@example.com',
+    role: ROLE.CLIENT,
+    firstName: 'Amina',
+    lastName: 'Bensaid',
+    phoneNumber: null,
+    locale: 'fr',
+  };
+
+  const mockPrismaService = {
+    serviceBookingPolicy: {
+      findUnique: jest.fn(),
+    },
+    appointment: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  const buildPolicy = (overrides: Record<string, unknown> = {}) => ({
+    id: 'policy1',
+    serviceId: 'service1',
+    minLeadMinutes: null,
+    maxAdvanceDays: null,
+    changeCutoffMinutes: null,
+    maxActivePerUser: null,
+    maxActivePerDependent: null,
+    noShowLimit: null,
+    noShowWindowDays: 90,
+    noShowCooldownDays: 30,
+    ...overrides,
+  });
+
+  const rejection = async (promise: Promise<void>) => {
+    try {
+      await promise;
+    } catch (error) {
+      return error as BookingPolicyException;
+    }
+
+    throw new Error('Expected a booking policy violation.');
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [BookingPolicyService, { provide: PrismaService, useValue: mockPrismaService }],
+    }).compile();
+
+    service = module.get<BookingPolicyService>(BookingPolicyService);
+
+    jest.clearAllMocks();
+    mockPrismaService.appointment.count.mockResolvedValue(0);
+    mockPrismaService.appointment.findMany.mockResolvedValue([]);
+  });
+
+  describe('assertCanBook', () => {
+    it('should allow any booking when the service has no policy', async () => {
+      mockPrismaService.serviceBookingPolicy.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.assertCanBook(
+          client,
+          { serviceId: 'service1', startAt: new Date('2030-01-01T08:05:00.000Z') },
+          undefined,
+          now,
+        ),
+      ).resolves.toBeUndefined();
+      expect(mockPrismaService.appointment.count).not.toHaveBeenCalled();
+    });
+
+    it('should reject bookings within the minimum lead time', async () => {
+      mockPrismaService.serviceBookingPolicy.findUnique.mockResolvedValue(
+        buildPolicy({ minLeadMinutes: 120 }),
+      );
+
+      const error = await rejection(
+        service.assertCanBook(
+          client,
+          { serviceId: 'service1', startAt: new Date('2030-01-01T09:00:00.000Z') },
+          undefined,
+          now,
+        ),
+      );
+
+      expect(error).toBeInstanceOf(BookingPolicyException);
+      expect(error.getResponse()).toEqual(
+        expect.objectContaining({
+          code: BOOKING_POLICY_CODE.LEAD_TIME,
+          details: { minLeadMinutes: 120 },
+        }),
+      );
+    });
+
+    it('should reject bookings beyond the booking horizon', async () => {
+      mockPrismaService.serviceBookingPolicy.findUnique.mockResolvedValue(
+        buildPolicy({ maxAdvanceDays: 30 }),
+      );
+
+      const error = await rejection(
+        service.assertCanBook(
+          client,
+          { serviceId: 'service1', startAt: new Date('2030-02-15T09:00:00.000Z') },
+          undefined,
+          now,
+        ),
+      );
+
+      expect(error.code).toBe(BOOKING_POLICY_CODE.TOO_FAR_AHEAD);
+    });
+
+    it('should cap upcoming appointments, leaving out the one being moved', async () => {
+      mockPrismaService.serviceBookingPolicy.findUnique.mockResolvedValue(
+        buildPolicy({ maxActivePerUser: 1 }),
+      );
+      mockPrismaService.appointment.count.mockResolvedValue(1);
+
+      const error = await rejection(
+        service.assertCanBook(
+          client,
+          {
+            serviceId: 'service1',
+            startAt: new Date('2030-01-05T09:00:00.000Z'),
+            appointmentId: 'appointment1',
+          },
+          undefined,
+          now,
+        ),
+      );
+
+      expect(error.code).toBe(BOOKING_POLICY_CODE.ACTIVE_LIMIT);
+      expect(mockPrismaService.appointment.count).toHaveBeenCalledWith({
+        where: {
+          userId: 'user1',
+          dependentId: null,
+          serviceId: 'service1',
+          status: { in: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED] },
+          scheduledAt: { gte: now },
+          id: { not: 'appointment1' },
+        },
+      });
+    });
+
+    it('should count the appointments of each dependent against their own limit', async () => {
+      mockPrismaService.serviceBookingPolicy.findUnique.mockResolvedValue(
+        buildPolicy({ maxActivePerUser: 1, maxActivePerDependent: 2 }),
+      );
+      mockPrismaService.appointment.count.mockResolvedValue(1);
+
+      await expect(
+        service.assertCanBook(
+          client,
+          {
+            serviceId: 'service1',
+            startAt: new Date('2030-01-05T09:00:00.000Z'),
+            dependentId: 'dependent1',
+          },
+          undefined,
+          now,
+        ),
+      ).resolves.toBeUndefined();
+      expect(mockPrismaService.appointment.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ userId: 'user1', dependentId: 'dependent1' }),
+      });
+
+      mockPrismaService.appointment.count.mockResolvedValue(2);
+
+      const error = await rejection(
+        service.assertCanBook(
+          client,
+          {
+            serviceId: 'service1',
+            startAt: new Date('2030-01-05T09:00:00.000Z'),
+            dependentId: 'dependent1',
+          },
+          undefined,
+          now,
+        ),
+      );
+
+      expect(error.code).toBe(BOOKING_POLICY_CODE.DEPENDENT_ACTIVE_LIMIT);
+      expect(error.details).toEqual({ maxActivePerDependent: 2 });
+    });
+
+    it('should suspend bookings during the no-show cooldown', async () => {
+      mockPrismaService.serviceBookingPolicy.findUnique.mockResolvedValue(
+        buildPolicy({ noShowLimit: 2, noShowCooldownDays: 30 }),
+      );
+      mockPrismaService.appointment.findMany.mockResolvedValue([
+        {
+          scheduledAt: new Date('2029-12-20T09:00:00.000Z'),
+          noShowAt: new Date('2029-12-20T09:30:00.000Z'),
+        },
+        { scheduledAt: new Date('2029-11-10T09:00:00.000Z'), noShowAt: null },
+      ]);
+
+      const error = await rejection(
+        service.assertCanBook(
+          client,
+          { serviceId: 'service1', startAt: new Date('2030-01-05T09:00:00.000Z') },
+          undefined,
+          now,
+        ),
+      );
+
+      expect(error.code).toBe(BOOKING_POLICY_CODE.NO_SHOW_COOLDOWN);
+      expect(error.details).toEqual({ until: '2030-01-19T09:30:00.000Z', noShows: 2 });
+    });
+
+    it('should lift the cooldown once it has elapsed', async () => {
+      mockPrismaService.serviceBookingPolicy.findUnique.mockResolvedValue(
+        buildPolicy({ noShowLimit: 1, noShowCooldownDays: 7 }),
+      );
+      mockPrismaService.appointment.findMany.mockResolvedValue([
+        { scheduledAt: new Date('2029-12-01T09:00:00.000Z'), noShowAt: null },
+      ]);
+
+      await expect(
+        service.assertCanBook(
+          client,
+          { serviceId: 'service1', startAt: new Date('2030-01-05T09:00:00.000Z') },
+          undefined,
+          now,
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should not restrict staff', async () => {
+      await service.assertCanBook(
+        { ...client, role: ROLE.ADMIN },
+        { serviceId: 'service1', startAt: now },
+        undefined,
+        now,
+      );
+
+      expect(mockPrismaService.serviceBookingPolicy.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertCanChange', () => {
+    it('should reject changes past the cutoff', async () => {
+      mockPrismaService.serviceBookingPolicy.findUnique.mockResolvedValue(
+        buildPolicy({ changeCutoffMinutes: 1440 }),
+      );
+
+      const error = await rejection(
+        service.assertCanChange(
+          client,
+          { serviceId: 'service1', scheduledAt: new Date('2030-01-02T07:00:00.000Z') },
+          undefined,
+          now,
+        ),
+      );
+
+      expect(error.code).toBe(BOOKING_POLICY_CODE.CHANGE_CUTOFF);
+    });
+
+    it('should allow changes before the cutoff', async () => {
+      mockPrismaService.serviceBookingPolicy.findUnique.mockResolvedValue(
+        buildPolicy({ changeCutoffMinutes: 1440 }),
+      );
+
+      await expect(
+        service.assertCanChange(
+          client,
+          { serviceId: 'service1', scheduledAt: new Date('2030-01-02T09:00:00.000Z') },
+          undefined,
+          now,
+        ),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
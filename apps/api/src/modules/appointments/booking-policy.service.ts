@@ -0,0 +1,244 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { AppointmentStatus, Prisma, ServiceBookingPolicy } from '@prisma/client';
+import { DateTime } from 'luxon';
+
+import { ROLE } from '@common/constants/role.constants';
+import { AWAITED_APPOINTMENT_STATUSES } from '@modules/appointments/appointment-attendance.service';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { PrismaService } from '@prisma/prisma.service';
+
+/** Machine-readable codes of booking policy violations, returned as `code`. */
+export const BOOKING_POLICY_CODE = {
+  LEAD_TIME: 'BOOKING_LEAD_TIME',
+  TOO_FAR_AHEAD: 'BOOKING_TOO_FAR_AHEAD',
+  CHANGE_CUTOFF: 'BOOKING_CHANGE_CUTOFF',
+  ACTIVE_LIMIT: 'BOOKING_ACTIVE_LIMIT',
+  DEPENDENT_ACTIVE_LIMIT: 'BOOKING_DEPENDENT_ACTIVE_LIMIT',
+  NO_SHOW_COOLDOWN: 'BOOKING_NO_SHOW_COOLDOWN',
+} as const;
+
+export type BookingPolicyCode = (typeof BOOKING_POLICY_CODE)[keyof typeof BOOKING_POLICY_CODE];
+
+export class BookingPolicyException extends BadRequestException {
+  constructor(
+    readonly code: BookingPolicyCode,
+    message: string,
+    readonly details: Record<string, string | number> = {},
+  ) {
+    super({ message, error: 'Bad Request', code, details });
+  }
+}
+
+type PolicyRules = Omit<ServiceBookingPolicy, 'id' | 'serviceId' | 'createdAt' | 'updatedAt'>;
+
+const UNRESTRICTED_POLICY: PolicyRules = {
+  minLeadMinutes: null,
+  maxAdvanceDays: null,
+  changeCutoffMinutes: null,
+  maxActivePerUser: null,
+  maxActivePerDependent: null,
+  noShowLimit: null,
+  noShowWindowDays: 90,
+  noShowCooldownDays: 30,
+};
+
+interface BookingCheck {
+  serviceId: string;
+  startAt: Date;
+  /** Dependent the appointment is for; the account holder when absent. */
+  dependentId?: string | null;
+  /** Appointment being moved, left out of the per-user limit. */
+  appointmentId?: string;
+}
+
+/**
+ * Enforces the booking policy of each service on client bookings, moves and
+ * cancellations. Staff acting on behalf of clients are not restricted.
+ */
+@Injectable()
+export class BookingPolicyService {
+  private readonly logger = new Logger(BookingPolicyService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async assertCanBook(
+    user: AuthenticatedUser,
+    check: BookingCheck,
+    client: Prisma.TransactionClient = this.prisma,
+    now: Date = new Date(),
+  ): Promise<void> {
+    if (this.isStaff(user)) {
+      return;
+    }
+
+    const policy = await this.getPolicy(check.serviceId, client);
+    const start = DateTime.fromJSDate(check.startAt);
+
+    if (
+      policy.minLeadMinutes &&
+      start < DateTime.fromJSDate(now).plus({ minutes: policy.minLeadMinutes })
+    ) {
+      throw new BookingPolicyException(
+        BOOKING_POLICY_CODE.LEAD_TIME,
+        `Appointments must be booked at least ${policy.minLeadMinutes} minutes in advance.`,
+        { minLeadMinutes: policy.minLeadMinutes },
+      );
+    }
+
+    if (
+      policy.maxAdvanceDays &&
+      start > DateTime.fromJSDate(now).plus({ days: policy.maxAdvanceDays })
+    ) {
+      throw new BookingPolicyException(
+        BOOKING_POLICY_CODE.TOO_FAR_AHEAD,
+        `Appointments cannot be booked more than ${policy.maxAdvanceDays} days ahead.`,
+        { maxAdvanceDays: policy.maxAdvanceDays },
+      );
+    }
+
+    await this.assertUnderActiveLimit(user, check, policy, client, now);
+
+    if (policy.noShowLimit) {
+      await this.assertNoShowCooldownOver(
+        user,
+        check.serviceId,
+        policy.noShowLimit,
+        policy,
+        client,
+        now,
+      );
+    }
+  }
+
+  /** Refuses client cancellations and moves past the change cutoff. */
+  async assertCanChange(
+    user: AuthenticatedUser,
+    appointment: { serviceId: string; scheduledAt: Date },
+    client: Prisma.TransactionClient = this.prisma,
+    now: Date = new Date(),
+  ): Promise<void> {
+    if (this.isStaff(user)) {
+      return;
+    }
+
+    const policy = await this.getPolicy(appointment.serviceId, client);
+
+    if (policy.changeCutoffMinutes === null) {
+      return;
+    }
+
+    const cutoff = DateTime.fromJSDate(appointment.scheduledAt).minus({
+      minutes: policy.changeCutoffMinutes,
+    });
+
+    if (DateTime.fromJSDate(now) > cutoff) {
+      throw new BookingPolicyException(
+        BOOKING_POLICY_CODE.CHANGE_CUTOFF,
+        `Appointments can no longer be changed less than ${policy.changeCutoffMinutes} minutes before they start.`,
+        { changeCutoffMinutes: policy.changeCutoffMinutes },
+      );
+    }
+  }
+
+  /**
+   * Limits upcoming appointments per person: the account holder and each of
+   * their dependents are counted separately. Dependents fall back to the
+   * per-user limit when the service sets no dependent limit.
+   */
+  private async assertUnderActiveLimit(
+    user: AuthenticatedUser,
+    check: BookingCheck,
+    policy: PolicyRules,
+    client: Prisma.TransactionClient,
+    now: Date,
+  ): Promise<void> {
+    const dependentId = check.dependentId ?? null;
+    const limit = dependentId
+      ? (policy.maxActivePerDependent ?? policy.maxActivePerUser)
+      : policy.maxActivePerUser;
+
+    if (!limit) {
+      return;
+    }
+
+    const active = await client.appointment.count({
+      where: {
+        userId: user.id,
+        dependentId,
+        serviceId: check.serviceId,
+        status: { in: AWAITED_APPOINTMENT_STATUSES },
+        scheduledAt: { gte: now },
+        ...(check.appointmentId ? { id: { not: check.appointmentId } } : {}),
+      },
+    });
+
+    if (active < limit) {
+      return;
+    }
+
+    if (dependentId) {
+      throw new BookingPolicyException(
+        BOOKING_POLICY_CODE.DEPENDENT_ACTIVE_LIMIT,
+        `This dependent already has ${active} upcoming appointment(s) for this service.`,
+        { maxActivePerDependent: limit },
+      );
+    }
+
+    throw new BookingPolicyException(
+      BOOKING_POLICY_CODE.ACTIVE_LIMIT,
+      `You already have ${active} upcoming appointment(s) for this service.`,
+      { maxActivePerUser: limit },
+    );
+  }
+
+  private async assertNoShowCooldownOver(
+    user: AuthenticatedUser,
+    serviceId: string,
+    limit: number,
+    policy: PolicyRules,
+    client: Prisma.TransactionClient,
+    now: Date,
+  ): Promise<void> {
+    const noShows = await client.appointment.findMany({
+      where: {
+        userId: user.id,
+        serviceId,
+        status: AppointmentStatus.NO_SHOW,
+        scheduledAt: {
+          gte: DateTime.fromJSDate(now).minus({ days: policy.noShowWindowDays }).toJSDate(),
+        },
+      },
+      select: { scheduledAt: true, noShowAt: true },
+      orderBy: { scheduledAt: 'desc' },
+    });
+
+    if (noShows.length < limit) {
+      return;
+    }
+
+    const latest = noShows[0].noShowAt ?? noShows[0].scheduledAt;
+    const until = DateTime.fromJSDate(latest).plus({ days: policy.noShowCooldownDays });
+
+    if (DateTime.fromJSDate(now) < until) {
+      this.logger.verbose(`User ${user.id} is in a no-show cooldown for service ${serviceId}`);
+
+      throw new BookingPolicyException(
+        BOOKING_POLICY_CODE.NO_SHOW_COOLDOWN,
+        `Bookings for this service are suspended after ${noShows.length} missed appointments.`,
+        { until: until.toUTC().toISO() ?? '', noShows: noShows.length },
+      );
+    }
+  }
+
+  private async getPolicy(
+    serviceId: string,
+    client: Prisma.TransactionClient,
+  ): Promise<PolicyRules> {
+    const policy = await client.serviceBookingPolicy.findUnique({ where: { serviceId } });
+    return policy ?? UNRESTRICTED_POLICY;
+  }
+
+  private isStaff(user: AuthenticatedUser): boolean {
+    return user.role === ROLE.ADMIN || user.role === ROLE.SPECIALIST;
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  applyDecorators,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  SetMetadata,
+  UseInterceptors,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { BookingAttemptKind } from '@prisma/client';
+import type { Request } from 'express';
+import { from, Observable } from 'rxjs';
+import { concatMap, switchMap } from 'rxjs/operators';
+
+import { BookingProtectionService } from '@modules/appointments/booking-protection.service';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+
+export const BOOKING_ATTEMPT_KIND_KEY = 'bookingAttemptKind';
+
+export const BOOKING_CHALLENGE_HEADER = 'x-booking-challenge';
+export const BOOKING_SOLUTION_HEADER = 'x-booking-solution';
+export const DEVICE_FINGERPRINT_HEADER = 'x-device-fingerprint';
+
+/**
+ * Requires a solved booking challenge on the route, on top of the global
+ * rate limits, and records the booking for hoarding detection.
+ */
+export const ProtectBooking = (kind: BookingAttemptKind) =>
+  applyDecorators(
+    SetMetadata(BOOKING_ATTEMPT_KIND_KEY, kind),
+    UseInterceptors(BookingProtectionInterceptor),
+  );
+
+@Injectable()
+export class BookingProtectionInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(BookingProtectionInterceptor.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly protection: BookingProtectionService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const kind = this.reflector.get<BookingAttemptKind>(
+      BOOKING_ATTEMPT_KIND_KEY,
+      context.getHandler(),
+    );
+    const request = context.switchToHttp().getRequest<Request & { user: AuthenticatedUser }>();
+
+    const admission = this.protection.admit(request.user, kind, {
+      ipAddress: request.ip ?? null,
+      fingerprint: request.header(DEVICE_FINGERPRINT_HEADER) ?? null,
+      challenge: request.header(BOOKING_CHALLENGE_HEADER) ?? null,
+      solution: request.header(BOOKING_SOLUTION_HEADER) ?? null,
+    });
+
+    return from(admission).pipe(
+      switchMap((attemptId) =>
+        next.handle().pipe(
+          concatMap(async (result) => {
+            if (attemptId) {
+              await this.record(attemptId, kind, result);
+            }
+
+            return result;
+          }),
+        ),
+      ),
+    );
+  }
+
+  /** Detection problems are logged; they must not fail a booking that went through. */
+  private async record(
+    attemptId: string,
+    kind: BookingAttemptKind,
+    result: unknown,
+  ): Promise<void> {
+    const booked = (result as { data?: { id?: string; serviceId?: string } } | undefined)?.data;
+
+    if (!booked?.id || !booked.serviceId) {
+      return;
+    }
+
+    try {
+      await this.protection.recordOutcome(attemptId, {
+        serviceId: booked.serviceId,
+        ...(kind === BookingAttemptKind.QUEUE_TICKET
+          ? { queueTicketId: booked.id }
+          : { appointmentId: booked.id }),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record booking attempt ${attemptId}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+}
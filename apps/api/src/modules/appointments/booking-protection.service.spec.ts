@@ -0,0 +1,330 @@
+import { createHash } from 'crypto';
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BookingAttemptKind, BookingRiskFlag, Prisma } from '@prisma/client';
+
+import { ROLE } from '@common/constants/role.constants';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { PrismaService } from '@prisma/prisma.service';
+
+import {
+  BOOKING_CHALLENGE_CODE,
+  BookingChallengeException,
+  BookingProtectionService,
+  BookingRequestContext,
+  leadingZeroBits,
+} from './booking-protection.service';
+
+describe('BookingProtectionService', () => {
+  let service: BookingProtectionService;
+
+  const now = new Date('2030-01-01T08:00:00.000Z');
+  const client: AuthenticatedUser = {
+    id: 'user1',
+    email: 'client@example.com',
+    role: ROLE.CLIENT,
+    firstName: 'Amina',
+    lastName: 'Bensaid',
+    phoneNumber: null,
+    locale: 'fr',
+  };
+
+  const mockPrismaService = {
+    bookingAttempt: {
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn(() => ({
+      challengeEnabled: true,
+      challengeSecret: 'test-secret',
+      challengeDifficulty: 4,
+      challengeTtlSeconds: 300,
+      lookbackHours: 24,
+      maxAccountsPerDevice: 2,
+      maxAccountsPerIp: 5,
+      burstWindowSeconds: 60,
+      burstBookings: 3,
+    })),
+  };
+
+  const digestOf = (challenge: string, solution: string) =>
+    createHash('sha256').update(`${challenge}:${solution}`).digest();
+
+  const solve = (challenge: string, difficulty: number, accept = true) => {
+    for (let counter = 0; ; counter++) {
+      const solved = leadingZeroBits(digestOf(challenge, `${counter}`)) >= difficulty;
+
+      if (solved === accept) {
+        return `${counter}`;
+      }
+    }
+  };
+
+  const buildContext = (overrides: Partial<BookingRequestContext> = {}): BookingRequestContext => {
+    const { challenge } = service.issueChallenge(client, now).data;
+
+    return {
+      ipAddress: '203.0.113.7',
+      fingerprint: 'device1',
+      challenge,
+      solution: solve(challenge, 4),
+      ...overrides,
+    };
+  };
+
+  const rejection = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (error) {
+      return error as BookingChallengeException;
+    }
+
+    throw new Error('Expected the booking challenge to be rejected.');
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BookingProtectionService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<BookingProtectionService>(BookingProtectionService);
+
+    jest.clearAllMocks();
+    mockPrismaService.bookingAttempt.create.mockResolvedValue({ id: 'attempt1' });
+    mockPrismaService.bookingAttempt.findMany.mockResolvedValue([]);
+  });
+
+  describe('issueChallenge', () => {
+    it('should issue a challenge bound to the user', () => {
+      const { data } = service.issueChallenge(client, now);
+
+      expect(data.challenge.split('.')).toEqual([
+        expect.any(String),
+        'user1',
+        `${now.getTime() + 300_000}`,
+        '4',
+        expect.any(String),
+      ]);
+      expect(data.difficulty).toBe(4);
+      expect(data.expiresAt).toBe('2030-01-01T08:05:00.000Z');
+    });
+  });
+
+  describe('admit', () => {
+    it('should record the attempt of a solved challenge', async () => {
+      const context = buildContext();
+
+      const attemptId = await service.admit(client, BookingAttemptKind.APPOINTMENT, context, now);
+
+      expect(attemptId).toBe('attempt1');
+      expect(mockPrismaService.bookingAttempt.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user1',
+          kind: BookingAttemptKind.APPOINTMENT,
+          challengeId: context.challenge?.split('.')[0],
+          ipAddress: '203.0.113.7',
+          fingerprint: 'device1',
+          createdAt: now,
+        },
+      });
+    });
+
+    it('should require a challenge', async () => {
+      const error = await rejection(
+        service.admit(
+          client,
+          BookingAttemptKind.QUEUE_TICKET,
+          buildContext({ challenge: null, solution: null }),
+          now,
+        ),
+      );
+
+      expect(error).toBeInstanceOf(BookingChallengeException);
+      expect(error.getResponse()).toEqual(
+        expect.objectContaining({ code: BOOKING_CHALLENGE_CODE.REQUIRED }),
+      );
+      expect(mockPrismaService.bookingAttempt.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject challenges issued to another account', async () => {
+      const error = await rejection(
+        service.admit(
+          { ...client, id: 'user2' },
+          BookingAttemptKind.APPOINTMENT,
+          buildContext(),
+          now,
+        ),
+      );
+
+      expect(error.code).toBe(BOOKING_CHALLENGE_CODE.INVALID);
+    });
+
+    it('should reject tampered challenges', async () => {
+      const context = buildContext();
+      const challenge = context.challenge!.replace('.4.', '.1.');
+
+      const error = await rejection(
+        service.admit(
+          client,
+          BookingAttemptKind.APPOINTMENT,
+          { ...context, challenge, solution: solve(challenge, 1) },
+          now,
+        ),
+      );
+
+      expect(error.code).toBe(BOOKING_CHALLENGE_CODE.INVALID);
+    });
+
+    it('should reject incorrect solutions', async () => {
+      const context = buildContext();
+
+      const error = await rejection(
+        service.admit(
+          client,
+          BookingAttemptKind.APPOINTMENT,
+          { ...context, solution: solve(context.challenge!, 4, false) },
+          now,
+        ),
+      );
+
+      expect(error.code).toBe(BOOKING_CHALLENGE_CODE.INVALID);
+    });
+
+    it('should reject expired challenges', async () => {
+      const error = await rejection(
+        service.admit(
+          client,
+          BookingAttemptKind.APPOINTMENT,
+          buildContext(),
+          new Date('2030-01-01T08:06:00.000Z'),
+        ),
+      );
+
+      expect(error.code).toBe(BOOKING_CHALLENGE_CODE.EXPIRED);
+    });
+
+    it('should reject challenges used twice', async () => {
+      mockPrismaService.bookingAttempt.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      const error = await rejection(
+        service.admit(client, BookingAttemptKind.APPOINTMENT, buildContext(), now),
+      );
+
+      expect(error.code).toBe(BOOKING_CHALLENGE_CODE.REUSED);
+    });
+
+    it('should not challenge staff booking on behalf of clients', async () => {
+      const attemptId = await service.admit(
+        { ...client, role: ROLE.SPECIALIST },
+        BookingAttemptKind.APPOINTMENT,
+        buildContext({ challenge: null, solution: null }),
+        now,
+      );
+
+      expect(attemptId).toBeNull();
+      expect(mockPrismaService.bookingAttempt.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordOutcome', () => {
+    const attempt = {
+      id: 'attempt3',
+      userId: 'user3',
+      fingerprint: 'device1',
+      ipAddress: '203.0.113.7',
+    };
+
+    beforeEach(() => {
+      mockPrismaService.bookingAttempt.update.mockResolvedValue(attempt);
+    });
+
+    it('should flag every account sharing a device beyond the limit', async () => {
+      mockPrismaService.bookingAttempt.findMany
+        .mockResolvedValueOnce([
+          { id: 'attempt1', userId: 'user1' },
+          { id: 'attempt2', userId: 'user2' },
+          { id: 'attempt3', userId: 'user3' },
+        ])
+        .mockResolvedValueOnce([{ id: 'attempt3', userId: 'user3' }])
+        .mockResolvedValueOnce([{ id: 'attempt3' }]);
+
+      const flags = await service.recordOutcome(
+        'attempt3',
+        { serviceId: 'service1', appointmentId: 'appointment1' },
+        now,
+      );
+
+      expect(flags).toEqual([BookingRiskFlag.SHARED_DEVICE]);
+      expect(mockPrismaService.bookingAttempt.update).toHaveBeenCalledWith({
+        where: { id: 'attempt3' },
+        data: {
+          succeeded: true,
+          serviceId: 'service1',
+          appointmentId: 'appointment1',
+          queueTicketId: null,
+        },
+      });
+      expect(mockPrismaService.bookingAttempt.findMany).toHaveBeenNthCalledWith(1, {
+        where: {
+          fingerprint: 'device1',
+          succeeded: true,
+          createdAt: { gte: new Date('2029-12-31T08:00:00.000Z') },
+        },
+        select: { id: true, userId: true },
+      });
+      expect(mockPrismaService.bookingAttempt.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['attempt1', 'attempt2', 'attempt3'] },
+          NOT: { flags: { has: BookingRiskFlag.SHARED_DEVICE } },
+        },
+        data: { flags: { push: BookingRiskFlag.SHARED_DEVICE } },
+      });
+    });
+
+    it('should flag bursts of bookings by one account', async () => {
+      mockPrismaService.bookingAttempt.findMany
+        .mockResolvedValueOnce([{ id: 'attempt3', userId: 'user3' }])
+        .mockResolvedValueOnce([{ id: 'attempt3', userId: 'user3' }])
+        .mockResolvedValueOnce([{ id: 'attempt1' }, { id: 'attempt2' }, { id: 'attempt3' }]);
+
+      const flags = await service.recordOutcome(
+        'attempt3',
+        { serviceId: 'service2', queueTicketId: 'ticket1' },
+        now,
+      );
+
+      expect(flags).toEqual([BookingRiskFlag.RAPID_BOOKINGS]);
+      expect(mockPrismaService.bookingAttempt.findMany).toHaveBeenLastCalledWith({
+        where: {
+          userId: 'user3',
+          succeeded: true,
+          createdAt: { gte: new Date('2030-01-01T07:59:00.000Z') },
+        },
+        select: { id: true },
+      });
+    });
+  });
+
+  describe('leadingZeroBits', () => {
+    it('should count the zero bits before the first set bit', () => {
+      expect(leadingZeroBits(Buffer.from([0x00, 0x00, 0x1f]))).toBe(19);
+      expect(leadingZeroBits(Buffer.from([0x80]))).toBe(0);
+      expect(leadingZeroBits(Buffer.from([0x00]))).toBe(8);
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+import { ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BookingAttempt, BookingAttemptKind, BookingRiskFlag, Prisma } from '@prisma/client';
+import { DateTime } from 'luxon';
+
+import { ROLE } from '@common/constants/role.constants';
+import { BookingProtectionConfig } from '@config/booking-protection.config';
+import { BookingChallengeResponseDto } from '@modules/appointments/dto';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { PrismaService } from '@prisma/prisma.service';
+
+/** Machine-readable codes of rejected booking challenges, returned as `code`. */
+export const BOOKING_CHALLENGE_CODE = {
+  REQUIRED: 'BOOKING_CHALLENGE_REQUIRED',
+  INVALID: 'BOOKING_CHALLENGE_INVALID',
+  EXPIRED: 'BOOKING_CHALLENGE_EXPIRED',
+  REUSED: 'BOOKING_CHALLENGE_REUSED',
+} as const;
+
+export type BookingChallengeCode =
+  (typeof BOOKING_CHALLENGE_CODE)[keyof typeof BOOKING_CHALLENGE_CODE];
+
+export class BookingChallengeException extends ForbiddenException {
+  constructor(
+    readonly code: BookingChallengeCode,
+    message: string,
+  ) {
+    super({ message, error: 'Forbidden', code, details: {} });
+  }
+}
+
+const DEFAULT_CONFIG: BookingProtectionConfig = {
+  challengeEnabled: false,
+  challengeSecret: 'change-me-challenges',
+  challengeDifficulty: 16,
+  challengeTtlSeconds: 300,
+  lookbackHours: 24,
+  maxAccountsPerDevice: 2,
+  maxAccountsPerIp: 5,
+  burstWindowSeconds: 60,
+  burstBookings: 3,
+};
+
+const MAX_SOLUTION_LENGTH = 64;
+const MAX_FINGERPRINT_LENGTH = 128;
+
+/** What the client sent along with a booking request. */
+export interface BookingRequestContext {
+  ipAddress: string | null;
+  fingerprint: string | null;
+  challenge: string | null;
+  solution: string | null;
+}
+
+export interface BookingOutcome {
+  serviceId: string;
+  appointmentId?: string;
+  queueTicketId?: string;
+}
+
+/** Number of leading zero bits of a digest. */
+export const leadingZeroBits = (digest: Buffer): number => {
+  let bits = 0;
+
+  for (const byte of digest) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+
+    return bits + Math.clz32(byte) - 24;
+  }
+
+  return bits;
+};
+
+/**
+ * Guards the booking endpoints against slot hoarding. Clients solve a
+ * short proof-of-work before each booking, which is cheap for a person and
+ * costly for scripts booking in bulk. Every admitted booking is recorded with
+ * the device fingerprint and IP it came from so that accounts sharing a
+ * device or network, and bursts of bookings, are flagged for review. Flags
+ * never block a booking on their own.
+ */
+@Injectable()
+export class BookingProtectionService {
+  private readonly logger = new Logger(BookingProtectionService.name);
+
+  private readonly config: BookingProtectionConfig;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    this.config =
+      configService.get<BookingProtectionConfig>('bookingProtection', { infer: true }) ??
+      DEFAULT_CONFIG;
+  }
+
+  /**
+   * Issues a challenge bound to the user. Challenges are signed rather than
+   * stored; the nonce is only persisted once spent, to refuse replays.
+   */
+  issueChallenge(user: AuthenticatedUser, now: Date = new Date()): BookingChallengeResponseDto {
+    const expiresAt = DateTime.fromJSDate(now).plus({ seconds: this.config.challengeTtlSeconds });
+    const payload = [
+      randomBytes(12).toString('base64url'),
+      user.id,
+      expiresAt.toMillis(),
+      this.config.challengeDifficulty,
+    ].join('.');
+
+    return {
+      data: {
+        challenge: `${payload}.${this.sign(payload)}`,
+        difficulty: this.config.challengeDifficulty,
+        expiresAt: expiresAt.toUTC().toISO() ?? '',
+      },
+    };
+  }
+
+  /**
+   * Checks the challenge of a booking request and records the attempt.
+   * Returns the attempt id, or null when staff book on behalf of clients.
+   */
+  async admit(
+    user: AuthenticatedUser,
+    kind: BookingAttemptKind,
+    context: BookingRequestContext,
+    now: Date = new Date(),
+  ): Promise<string | null> {
+    if (user.role === ROLE.ADMIN || user.role === ROLE.SPECIALIST) {
+      return null;
+    }
+
+    const challengeId = this.config.challengeEnabled
+      ? this.verifyChallenge(user, context, now)
+      : null;
+
+    try {
+      const attempt = await this.prisma.bookingAttempt.create({
+        data: {
+          userId: user.id,
+          kind,
+          challengeId,
+          ipAddress: context.ipAddress,
+          fingerprint: context.fingerprint?.slice(0, MAX_FINGERPRINT_LENGTH) || null,
+          createdAt: now,
+        },
+      });
+
+      return attempt.id;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new BookingChallengeException(
+          BOOKING_CHALLENGE_CODE.REUSED,
+          'This booking challenge was already used. Request a new one.',
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  /** Links a successful booking to its attempt and flags suspicious patterns. */
+  async recordOutcome(
+    attemptId: string,
+    outcome: BookingOutcome,
+    now: Date = new Date(),
+  ): Promise<BookingRiskFlag[]> {
+    const attempt = await this.prisma.bookingAttempt.update({
+      where: { id: attemptId },
+      data: {
+        succeeded: true,
+        serviceId: outcome.serviceId,
+        appointmentId: outcome.appointmentId ?? null,
+        queueTicketId: outcome.queueTicketId ?? null,
+      },
+    });
+
+    const flags = await this.detectRisks(attempt, now);
+
+    if (flags.length) {
+      this.logger.warn(`Booking attempt ${attempt.id} of user ${attempt.userId} flagged: ${flags}`);
+    }
+
+    return flags;
+  }
+
+  private async detectRisks(attempt: BookingAttempt, now: Date): Promise<BookingRiskFlag[]> {
+    const since = DateTime.fromJSDate(now).minus({ hours: this.config.lookbackHours }).toJSDate();
+    const shared: Array<[BookingRiskFlag, Prisma.BookingAttemptWhereInput | null, number]> = [
+      [
+        BookingRiskFlag.SHARED_DEVICE,
+        attempt.fingerprint ? { fingerprint: attempt.fingerprint } : null,
+        this.config.maxAccountsPerDevice,
+      ],
+      [
+        BookingRiskFlag.SHARED_IP,
+        attempt.ipAddress ? { ipAddress: attempt.ipAddress } : null,
+        this.config.maxAccountsPerIp,
+      ],
+    ];
+    const flags: BookingRiskFlag[] = [];
+
+    for (const [flag, match, maxAccounts] of shared) {
+      if (!match) {
+        continue;
+      }
+
+      const peers = await this.prisma.bookingAttempt.findMany({
+        where: { ...match, succeeded: true, createdAt: { gte: since } },
+        select: { id: true, userId: true },
+      });
+
+      if (new Set(peers.map((peer) => peer.userId)).size > maxAccounts) {
+        // Every account of the group is flagged, not only the latest one.
+        await this.flag(
+          peers.map((peer) => peer.id),
+          flag,
+        );
+        flags.push(flag);
+      }
+    }
+
+    const burst = await this.prisma.bookingAttempt.findMany({
+      where: {
+        userId: attempt.userId,
+        succeeded: true,
+        createdAt: {
+          gte: DateTime.fromJSDate(now)
+            .minus({ seconds: this.config.burstWindowSeconds })
+            .toJSDate(),
+        },
+      },
+      select: { id: true },
+    });
+
+    if (burst.length >= this.config.burstBookings) {
+      await this.flag(
+        burst.map((entry) => entry.id),
+        BookingRiskFlag.RAPID_BOOKINGS,
+      );
+      flags.push(BookingRiskFlag.RAPID_BOOKINGS);
+    }
+
+    return flags;
+  }
+
+  private async flag(ids: string[], flag: BookingRiskFlag): Promise<void> {
+    await this.prisma.bookingAttempt.updateMany({
+      where: { id: { in: ids }, NOT: { flags: { has: flag } } },
+      data: { flags: { push: flag } },
+    });
+  }
+
+  /** Returns the challenge nonce once the solution has been verified. */
+  private verifyChallenge(
+    user: AuthenticatedUser,
+    context: BookingRequestContext,
+    now: Date,
+  ): string {
+    const { challenge, solution } = context;
+
+    if (!challenge || !solution) {
+      throw new BookingChallengeException(
+        BOOKING_CHALLENGE_CODE.REQUIRED,
+        'A solved booking challenge is required.',
+      );
+    }
+
+    const parts = challenge.split('.');
+
+    if (parts.length !== 5 || solution.length > MAX_SOLUTION_LENGTH) {
+      throw new BookingChallengeException(
+        BOOKING_CHALLENGE_CODE.INVALID,
+        'The booking challenge is malformed.',
+      );
+    }
+
+    const [nonce, userId, expiresAt, difficulty, signature] = parts;
+    const expected = Buffer.from(this.sign(parts.slice(0, 4).join('.')));
+    const received = Buffer.from(signature);
+
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received) ||
+      userId !== user.id
+    ) {
+      throw new BookingChallengeException(
+        BOOKING_CHALLENGE_CODE.INVALID,
+        'The booking challenge was not issued for this account.',
+      );
+    }
+
+    if (Number(expiresAt) < now.getTime()) {
+      throw new BookingChallengeException(
+        BOOKING_CHALLENGE_CODE.EXPIRED,
+        'The booking challenge has expired. Request a new one.',
+      );
+    }
+
+    const digest = createHash('sha256').update(`${challenge}:${solution}`).digest();
+
+    if (leadingZeroBits(digest) < Number(difficulty)) {
+      throw new BookingChallengeException(
+        BOOKING_CHALLENGE_CODE.INVALID,
+        'The booking challenge solution is incorrect.',
+      );
+    }
+
+    return nonce;
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.config.challengeSecret).update(payload).digest('base64url');
+  }
+}
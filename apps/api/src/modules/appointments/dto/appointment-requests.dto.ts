@@ -1,7 +1,36 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsDateString, IsEnum, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
 
-import { QueueTicketStatus } from '@prisma/client';
+import { QueuePriorityClass, QueueTicketStatus } from '@prisma/client';
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/** Accepts repeated query parameters as well as comma-separated values. */
+const toList = (value: unknown): unknown =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : value;
 
 export class AppointmentAvailabilityQueryDto {
   @ApiProperty({
@@ -11,6 +40,14 @@ export class AppointmentAvailabilityQueryDto {
   @IsUUID()
   serviceId!: string;
 
+  @ApiPropertyOptional({
+    description: 'Restrict availability to slots held at this office',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  officeId?: string;
+
   @ApiPropertyOptional({
     description: 'Start of the search window',
     type: String,
@@ -38,6 +75,146 @@ export class AppointmentAvailabilityQueryDto {
   timezone?: string;
 }
 
+export class NextAvailableSlotsQueryDto {
+  @ApiProperty({
+    description: 'Services to search, as repeated or comma-separated identifiers',
+    type: [String],
+    format: 'uuid',
+  })
+  @Transform(({ value }) => toList(value))
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  serviceIds!: string[];
+
+  @ApiPropertyOptional({
+    description: 'Restrict the search to slots held at this office',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  officeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Preferred ISO days of week (1 = Monday, 7 = Sunday)',
+    example: [7, 1, 2],
+    type: [Number],
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    const list = toList(value);
+    return Array.isArray(list) ? list.map((day) => Number(day)) : list;
+  })
+  @IsArray()
+  @ArrayMaxSize(7)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(7, { each: true })
+  daysOfWeek?: number[];
+
+  @ApiPropertyOptional({ description: 'Earliest preferred start time', example: '08:00' })
+  @IsOptional()
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'fromTime must use the HH:mm format' })
+  fromTime?: string;
+
+  @ApiPropertyOptional({ description: 'Latest preferred start time', example: '12:00' })
+  @IsOptional()
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'toTime must use the HH:mm format' })
+  toTime?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA timezone identifier used to interpret day and time preferences; defaults to the timezone of each slot',
+    example: 'Africa/Algiers',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({ description: 'Number of slots to return', default: 10 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Number of days ahead to search', default: 90 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  horizonDays?: number;
+
+  @ApiPropertyOptional({ description: 'Cursor returned with the previous page' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  cursor?: string;
+}
+
+export class QueueBoardQueryDto {
+  @ApiProperty({ description: 'Service whose queue is shown', format: 'uuid' })
+  @IsUUID()
+  serviceId!: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Restrict the board to tickets for slots at this office; tickets without a slot are always shown',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  officeId?: string;
+}
+
+export class AppointmentAgendaQueryDto {
+  @ApiPropertyOptional({
+    description: 'Start of the agenda window (defaults to the start of today)',
+    type: String,
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'End of the agenda window (defaults to seven days after the start)',
+    type: String,
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'IANA timezone identifier used to interpret window values',
+    example: 'Africa/Algiers',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({ example: false, description: 'Include cancelled appointments' })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      const normalized = value.trim().toLowerCase();
+      if (normalized === 'true') {
+        return true;
+      }
+      if (normalized === 'false') {
+        return false;
+      }
+    }
+    return value;
+  })
+  @IsBoolean()
+  includeCancelled?: boolean;
+}
+
 export class BookAppointmentDto {
   @ApiProperty({ description: 'Service being booked', format: 'uuid' })
   @IsUUID()
@@ -52,6 +229,14 @@ export class BookAppointmentDto {
   @IsUUID()
   queueTicketId?: string;
 
+  @ApiPropertyOptional({
+    description: 'Dependent of the user the appointment is for',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  dependentId?: string;
+
   @ApiPropertyOptional({ description: 'Preferred locale for communications', example: 'en' })
   @IsOptional()
   @IsString()
@@ -73,6 +258,32 @@ export class BookAppointmentDto {
   notes?: string;
 }
 
+export class CreateSlotHoldDto {
+  @ApiProperty({ description: 'Service being booked', format: 'uuid' })
+  @IsUUID()
+  serviceId!: string;
+
+  @ApiProperty({ description: 'Slot to hold while the booking is confirmed', format: 'uuid' })
+  @IsUUID()
+  slotId!: string;
+
+  @ApiPropertyOptional({
+    description: 'Appointment being rescheduled into the slot',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  appointmentId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Dependent of the user the appointment is for',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  dependentId?: string;
+}
+
 export class RescheduleAppointmentDto {
   @ApiProperty({ description: 'New slot to move the appointment to', format: 'uuid' })
   @IsUUID()
@@ -101,6 +312,33 @@ export class CancelAppointmentDto {
   reason?: string;
 }
 
+export class ConfirmAttendanceDto {
+  @ApiProperty({ description: 'Token from the confirmation link of an appointment reminder' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  token!: string;
+}
+
+export class CheckInAppointmentDto {
+  @ApiProperty({
+    example: 'A1B2C3D4',
+    description: 'Reference code of the appointment, or the payload of its QR code',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  code!: string;
+}
+
+export class CalendarFeedTokenParamDto {
+  @ApiProperty({ description: 'Secret token of a calendar feed URL, optionally ending in .ics' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  token!: string;
+}
+
 export class CreateQueueTicketDto {
   @ApiProperty({ description: 'Service the queue ticket applies to', format: 'uuid' })
   @IsUUID()
@@ -142,6 +380,30 @@ export class CreateQueueTicketDto {
   @IsString()
   @MaxLength(1000)
   notes?: string;
+
+  @ApiPropertyOptional({
+    enum: QueuePriorityClass,
+    description: 'Priority lane claimed by the client',
+  })
+  @IsOptional()
+  @IsEnum(QueuePriorityClass)
+  priorityClass?: QueuePriorityClass;
+
+  @ApiPropertyOptional({
+    description: 'Uploaded document proving the claimed priority',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  priorityProofUploadId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Dependent of the user waiting in the queue',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  dependentId?: string;
 }
 
 export class UpdateQueueTicketStatusDto {
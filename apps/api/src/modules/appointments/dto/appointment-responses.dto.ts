@@ -1,7 +1,14 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 
-import { AppointmentSlotStatus, AppointmentStatus, QueueTicketStatus } from '@prisma/client';
+import {
+  AppointmentSlotStatus,
+  AppointmentStatus,
+  DependentRelationship,
+  DocumentUploadStatus,
+  QueuePriorityClass,
+  QueueTicketStatus,
+} from '@prisma/client';
 
 export class PaginationMetaDto {
   @ApiProperty({ example: 1 })
@@ -21,6 +28,9 @@ export class AppointmentSlotAvailabilityDto {
   @ApiProperty({ format: 'uuid' })
   serviceId!: string;
 
+  @ApiPropertyOptional({ format: 'uuid', description: 'Office where the slot takes place' })
+  officeId?: string | null;
+
   @ApiProperty({ type: String, format: 'date-time' })
   startAt!: string;
 
@@ -58,6 +68,31 @@ export class AppointmentAvailabilityResponseDto {
   data!: AppointmentSlotAvailabilityDto[];
 }
 
+export class NextAvailableSlotsMetaDto {
+  @ApiProperty({ example: 10 })
+  limit!: number;
+
+  @ApiProperty({ type: String, format: 'date-time', description: 'End of the search horizon' })
+  searchedUntil!: string;
+
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    description: 'Cursor of the next page, or null when no later slot matches',
+  })
+  nextCursor!: string | null;
+}
+
+export class NextAvailableSlotsResponseDto {
+  @ApiProperty({ type: () => [AppointmentSlotAvailabilityDto] })
+  @Type(() => AppointmentSlotAvailabilityDto)
+  data!: AppointmentSlotAvailabilityDto[];
+
+  @ApiProperty({ type: () => NextAvailableSlotsMetaDto })
+  @Type(() => NextAvailableSlotsMetaDto)
+  meta!: NextAvailableSlotsMetaDto;
+}
+
 export class ServiceSummaryDto {
   @ApiProperty({ format: 'uuid' })
   id!: string;
@@ -95,22 +130,53 @@ export class AppointmentSlotSummaryDto {
   bufferAfterMinutes!: number;
 }
 
+export class QueueTicketEtaDto {
+  @ApiProperty({ type: String, format: 'date-time', description: 'Earliest expected service time' })
+  earliestAt!: string;
+
+  @ApiProperty({ type: String, format: 'date-time', description: 'Latest expected service time' })
+  latestAt!: string;
+
+  @ApiProperty({
+    enum: ['SLOTS', 'THROUGHPUT'],
+    description:
+      'SLOTS when free seats of upcoming slots cover the tickets ahead, THROUGHPUT when the estimate relies on served times',
+  })
+  basis!: 'SLOTS' | 'THROUGHPUT';
+}
+
 export class QueueTicketResponseDto {
   @ApiProperty({ format: 'uuid' })
   id!: string;
 
+  @ApiProperty({ example: 'A1B2C3', description: 'Ticket number shown on the queue board' })
+  number!: string;
+
   @ApiProperty({ format: 'uuid' })
   serviceId!: string;
 
   @ApiPropertyOptional({ format: 'uuid' })
   slotId?: string | null;
 
+  @ApiPropertyOptional({ format: 'uuid', description: 'Dependent waiting in the queue' })
+  dependentId?: string | null;
+
   @ApiProperty({ enum: QueueTicketStatus })
   status!: QueueTicketStatus;
 
   @ApiProperty({ example: 1 })
   position!: number;
 
+  @ApiProperty({ enum: QueuePriorityClass, description: 'Priority lane the ticket is served in' })
+  priorityClass!: QueuePriorityClass;
+
+  @ApiPropertyOptional({
+    enum: QueuePriorityClass,
+    nullable: true,
+    description: 'Priority claimed by the client and awaiting verification by an administrator',
+  })
+  requestedPriorityClass?: QueuePriorityClass | null;
+
   @ApiPropertyOptional({ type: String, format: 'date-time' })
   desiredFrom?: string | null;
 
@@ -129,6 +195,14 @@ export class QueueTicketResponseDto {
   @ApiPropertyOptional({ description: 'Additional administrative notes' })
   notes?: string | null;
 
+  @ApiPropertyOptional({
+    type: () => QueueTicketEtaDto,
+    nullable: true,
+    description: 'Expected service time of a waiting ticket',
+  })
+  @Type(() => QueueTicketEtaDto)
+  eta?: QueueTicketEtaDto | null;
+
   @ApiProperty({ type: String, format: 'date-time' })
   createdAt!: string;
 
@@ -136,6 +210,158 @@ export class QueueTicketResponseDto {
   updatedAt!: string;
 }
 
+export class QueueBoardTicketDto {
+  @ApiProperty({ example: 'A1B2C3' })
+  number!: string;
+
+  @ApiProperty({ enum: QueueTicketStatus })
+  status!: QueueTicketStatus;
+
+  @ApiPropertyOptional({
+    example: 1,
+    nullable: true,
+    description: 'Rank in the waiting line, or null once the ticket is called',
+  })
+  position!: number | null;
+}
+
+export class QueueBoardDto {
+  @ApiProperty({ format: 'uuid' })
+  serviceId!: string;
+
+  @ApiPropertyOptional({ format: 'uuid', nullable: true })
+  officeId!: string | null;
+
+  @ApiProperty({
+    type: () => [QueueBoardTicketDto],
+    description: 'Tickets currently called to the counter',
+  })
+  @Type(() => QueueBoardTicketDto)
+  serving!: QueueBoardTicketDto[];
+
+  @ApiProperty({ type: () => [QueueBoardTicketDto], description: 'Next tickets in line' })
+  @Type(() => QueueBoardTicketDto)
+  next!: QueueBoardTicketDto[];
+
+  @ApiProperty({ example: 12 })
+  waitingCount!: number;
+}
+
+export class QueueTicketPositionDto {
+  @ApiProperty({ format: 'uuid' })
+  ticketId!: string;
+
+  @ApiProperty({ example: 'A1B2C3' })
+  number!: string;
+
+  @ApiProperty({ format: 'uuid' })
+  serviceId!: string;
+
+  @ApiProperty({ enum: QueueTicketStatus })
+  status!: QueueTicketStatus;
+
+  @ApiPropertyOptional({
+    example: 3,
+    nullable: true,
+    description: 'Rank in the waiting line, or null once the ticket left it',
+  })
+  position!: number | null;
+
+  @ApiPropertyOptional({
+    type: String,
+    format: 'date-time',
+    nullable: true,
+    description: 'End of the hold of a called ticket',
+  })
+  expiresAt!: string | null;
+
+  @ApiProperty({ type: () => QueueTicketEtaDto, nullable: true })
+  @Type(() => QueueTicketEtaDto)
+  eta!: QueueTicketEtaDto | null;
+}
+
+export class AppointmentDependentSummaryDto {
+  @ApiProperty({ format: 'uuid' })
+  id!: string;
+
+  @ApiProperty({ example: 'Yacine' })
+  firstName!: string;
+
+  @ApiProperty({ example: 'Benali' })
+  lastName!: string;
+
+  @ApiProperty({ type: String, format: 'date' })
+  birthDate!: string;
+
+  @ApiProperty({ enum: DependentRelationship })
+  relationship!: DependentRelationship;
+
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    example: '109990123456789012',
+    description: 'Only returned to admins',
+  })
+  nationalId?: string | null;
+}
+
+export const APPOINTMENT_DOCUMENT_STATUSES = [...Object.values(DocumentUploadStatus), 'MISSING'];
+
+export type AppointmentDocumentStatus = DocumentUploadStatus | 'MISSING';
+
+export class AppointmentDocumentChecklistItemDto {
+  @ApiProperty({ format: 'uuid' })
+  templateId!: string;
+
+  @ApiProperty({ example: 'passport-photo' })
+  slug!: string;
+
+  @ApiProperty({ example: 'Passport photo' })
+  name!: string;
+
+  @ApiProperty({
+    enum: APPOINTMENT_DOCUMENT_STATUSES,
+    description: 'Status of the best matching upload; MISSING when nothing was uploaded',
+  })
+  status!: AppointmentDocumentStatus;
+
+  @ApiPropertyOptional({ format: 'uuid', nullable: true })
+  uploadId!: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  rejectionReason!: string | null;
+}
+
+export class AppointmentDocumentOverrideDto {
+  @ApiPropertyOptional({ format: 'uuid', nullable: true })
+  overriddenById!: string | null;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  overriddenAt!: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  reason!: string | null;
+}
+
+export class AppointmentDocumentChecklistDto {
+  @ApiProperty({
+    description: 'Whether the appointment can be confirmed as far as documents are concerned',
+  })
+  complete!: boolean;
+
+  @ApiProperty({ type: () => AppointmentDocumentChecklistItemDto, isArray: true })
+  @Type(() => AppointmentDocumentChecklistItemDto)
+  items!: AppointmentDocumentChecklistItemDto[];
+
+  @ApiPropertyOptional({
+    type: () => AppointmentDocumentOverrideDto,
+    nullable: true,
+    description: 'Staff decision to confirm the appointment without the validated documents',
+  })
+  @Type(() => AppointmentDocumentOverrideDto)
+  override!: AppointmentDocumentOverrideDto | null;
+}
+
 export class AppointmentDetailsDto {
   @ApiProperty({ format: 'uuid' })
   id!: string;
@@ -152,9 +378,21 @@ export class AppointmentDetailsDto {
   @ApiPropertyOptional({ format: 'uuid' })
   queueTicketId?: string | null;
 
+  @ApiPropertyOptional({ format: 'uuid', description: 'Specialist assigned to the appointment' })
+  specialistId?: string | null;
+
   @ApiProperty({ enum: AppointmentStatus })
   status!: AppointmentStatus;
 
+  @ApiProperty({ example: 'A1B2C3D4', description: 'Reference code given at the counter' })
+  reference!: string;
+
+  @ApiProperty({
+    example: 'appointment:3f2a9c1e-0000-4000-8000-000000000001',
+    description: 'Payload to encode in the check-in QR code',
+  })
+  checkInCode!: string;
+
   @ApiProperty({ type: String, format: 'date-time' })
   scheduledAt!: string;
 
@@ -167,6 +405,18 @@ export class AppointmentDetailsDto {
   @ApiPropertyOptional({ description: 'Notes captured during the booking lifecycle' })
   notes?: string | null;
 
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  checkedInAt?: string | null;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  startedAt?: string | null;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  completedAt?: string | null;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  noShowAt?: string | null;
+
   @ApiProperty({ type: String, format: 'date-time' })
   createdAt!: string;
 
@@ -184,6 +434,21 @@ export class AppointmentDetailsDto {
   @ApiPropertyOptional({ type: () => QueueTicketResponseDto })
   @Type(() => QueueTicketResponseDto)
   queueTicket?: QueueTicketResponseDto | null;
+
+  @ApiPropertyOptional({
+    type: () => AppointmentDependentSummaryDto,
+    nullable: true,
+    description: 'Dependent the appointment was booked for; null when it is for the user',
+  })
+  @Type(() => AppointmentDependentSummaryDto)
+  dependent?: AppointmentDependentSummaryDto | null;
+
+  @ApiPropertyOptional({
+    type: () => AppointmentDocumentChecklistDto,
+    description: 'Documents required by the service; only returned on appointment details',
+  })
+  @Type(() => AppointmentDocumentChecklistDto)
+  documentChecklist?: AppointmentDocumentChecklistDto;
 }
 
 export class AppointmentListResponseDto {
@@ -207,3 +472,162 @@ export class QueueTicketDetailResponseDto {
   @Type(() => QueueTicketResponseDto)
   data!: QueueTicketResponseDto;
 }
+
+export class AppointmentClientSummaryDto {
+  @ApiProperty({ format: 'uuid' })
+  id!: string;
+
+  @ApiProperty({ example: 'Yacine' })
+  firstName!: string;
+
+  @ApiProperty({ example: 'Benali' })
+  lastName!: string;
+
+  @ApiPropertyOptional({ example: '+213555000000' })
+  phoneNumber?: string | null;
+}
+
+export class AppointmentAgendaEntryDto extends AppointmentDetailsDto {
+  @ApiProperty({ type: () => AppointmentClientSummaryDto })
+  @Type(() => AppointmentClientSummaryDto)
+  client!: AppointmentClientSummaryDto;
+}
+
+export class AppointmentAgendaMetaDto {
+  @ApiProperty({ type: String, format: 'date-time' })
+  from!: string;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  to!: string;
+
+  @ApiProperty({ example: 4 })
+  total!: number;
+}
+
+export class AppointmentAgendaResponseDto {
+  @ApiProperty({ type: () => [AppointmentAgendaEntryDto] })
+  @Type(() => AppointmentAgendaEntryDto)
+  data!: AppointmentAgendaEntryDto[];
+
+  @ApiProperty({ type: () => AppointmentAgendaMetaDto })
+  @Type(() => AppointmentAgendaMetaDto)
+  meta!: AppointmentAgendaMetaDto;
+}
+
+export class CalendarFeedDto {
+  @ApiProperty({
+    example: 'https://api.example.com/api/v1/appointments/calendar-feed/3q2-7wEm.ics',
+    description: 'Secret iCalendar subscription URL; rotating the feed invalidates it',
+  })
+  url!: string;
+}
+
+export class CalendarFeedResponseDto {
+  @ApiProperty({ type: () => CalendarFeedDto })
+  @Type(() => CalendarFeedDto)
+  data!: CalendarFeedDto;
+}
+
+export class BookingChallengeDto {
+  @ApiProperty({
+    example: '9Jm2xQ4pLr7kVb1s.8c1f0c9e-3a5e-4a1e-9d8b-2f0b6c1d4e7a.1893456000000.16.Zt3k',
+    description: 'Signed challenge to send back in the X-Booking-Challenge header',
+  })
+  challenge!: string;
+
+  @ApiProperty({
+    example: 16,
+    description:
+      'Leading zero bits required in SHA-256(`challenge:solution`); the solution goes in X-Booking-Solution',
+  })
+  difficulty!: number;
+
+  @ApiProperty({ example: '2030-01-01T08:05:00.000Z' })
+  expiresAt!: string;
+}
+
+export class BookingChallengeResponseDto {
+  @ApiProperty({ type: () => BookingChallengeDto })
+  @Type(() => BookingChallengeDto)
+  data!: BookingChallengeDto;
+}
+
+export class SlotHoldDto {
+  @ApiProperty({ format: 'uuid' })
+  id!: string;
+
+  @ApiProperty({ format: 'uuid' })
+  slotId!: string;
+
+  @ApiProperty({
+    example: '2030-01-01T08:10:00.000Z',
+    description: 'Moment the seat is released unless the booking is confirmed',
+  })
+  expiresAt!: string;
+}
+
+export class SlotHoldResponseDto {
+  @ApiProperty({ type: () => SlotHoldDto })
+  @Type(() => SlotHoldDto)
+  data!: SlotHoldDto;
+}
+
+export class QueuePriorityRuleDto {
+  @ApiProperty({ enum: QueuePriorityClass })
+  priorityClass!: QueuePriorityClass;
+
+  @ApiProperty({
+    example: 30,
+    description: 'How much earlier than their arrival tickets of the class are queued',
+  })
+  leadMinutes!: number;
+
+  @ApiProperty({ description: 'Whether a claim must be backed by a proof document' })
+  requiresProof!: boolean;
+
+  @ApiPropertyOptional({
+    format: 'uuid',
+    nullable: true,
+    description: 'Document template the proof upload must be filed under',
+  })
+  proofTemplateId!: string | null;
+
+  @ApiProperty()
+  isActive!: boolean;
+}
+
+export class QueuePriorityRuleListResponseDto {
+  @ApiProperty({ type: () => QueuePriorityRuleDto, isArray: true })
+  @Type(() => QueuePriorityRuleDto)
+  data!: QueuePriorityRuleDto[];
+}
+
+export class QueueTicketPriorityChangeDto {
+  @ApiProperty({ format: 'uuid' })
+  id!: string;
+
+  @ApiProperty({ enum: QueuePriorityClass })
+  fromClass!: QueuePriorityClass;
+
+  @ApiProperty({ enum: QueuePriorityClass })
+  toClass!: QueuePriorityClass;
+
+  @ApiPropertyOptional({
+    format: 'uuid',
+    nullable: true,
+    description: 'Administrator who made the change; empty when granted from a validated proof',
+  })
+  changedById!: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  reason!: string | null;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  createdAt!: string;
+}
+
+export class QueueTicketPriorityHistoryResponseDto {
+  @ApiProperty({ type: () => QueueTicketPriorityChangeDto, isArray: true })
+  @Type(() => QueueTicketPriorityChangeDto)
+  data!: QueueTicketPriorityChangeDto[];
+}
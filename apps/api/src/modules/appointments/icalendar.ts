@@ -0,0 +1,240 @@
+import { DateTime, IANAZone } from 'luxon';
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  status: 'CONFIRMED' | 'CANCELLED';
+  start: Date;
+  end: Date;
+  timezone: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  geo?: { latitude: number; longitude: number } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CalendarOptions {
+  name?: string;
+  /** Suggested polling interval of subscribed feeds, in minutes. */
+  refreshMinutes?: number;
+  generatedAt?: Date;
+}
+
+const PRODUCT_ID = '-//Acme//Appointments//EN';
+const MAX_LINE_OCTETS = 75;
+const UTC_FORMAT = "yyyyMMdd'T'HHmmss'Z'";
+const LOCAL_FORMAT = "yyyyMMdd'T'HHmmss";
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Splits a content line into 75-octet chunks (RFC 5545 §3.1) without
+ * cutting through a multi-byte character.
+ */
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards the limit.
+    const limit = chunks.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const formatUtc = (value: Date): string =>
+  DateTime.fromJSDate(value, { zone: 'utc' }).toFormat(UTC_FORMAT);
+
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  return `${sign}${hours}${String(absolute % 60).padStart(2, '0')}`;
+};
+
+const UTC_ZONES = ['UTC', 'Etc/UTC', 'GMT', 'Etc/GMT'];
+
+const isLocalZone = (timezone: string): boolean =>
+  !UTC_ZONES.includes(timezone) && IANAZone.isValidZone(timezone);
+
+const findTransition = (zone: string, from: DateTime, to: DateTime): DateTime => {
+  let low = from.toMillis();
+  let high = to.toMillis();
+
+  // Narrow the window down to the minute at which the offset changes.
+  while (high - low > 60_000) {
+    const middle = Math.floor((low + high) / 2);
+    if (DateTime.fromMillis(middle, { zone }).offset === from.offset) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  return DateTime.fromMillis(high, { zone }).startOf('minute');
+};
+
+/**
+ * Describes a timezone for the years the events fall in, listing every
+ * offset transition explicitly rather than as recurrence rules so the
+ * definition stays exact whatever the zone's history.
+ */
+const buildTimezone = (zone: string, years: number[]): string[] => {
+  const firstYear = Math.min(...years) - 1;
+  const lastYear = Math.max(...years);
+  const origin = DateTime.fromObject({ year: firstYear }, { zone });
+  const observance = (
+    at: DateTime,
+    offsetFrom: number,
+    offsetTo: number,
+    daylight: boolean,
+  ): string[] => {
+    const kind = daylight ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${at.toFormat(LOCAL_FORMAT)}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${zone}`,
+    ...observance(
+      DateTime.fromObject({ year: 1970 }, { zone: 'utc' }),
+      origin.offset,
+      origin.offset,
+      origin.isInDST,
+    ),
+  ];
+
+  let cursor = origin;
+  const end = DateTime.fromObject({ year: lastYear + 1 }, { zone });
+
+  while (cursor < end) {
+    const next = cursor.plus({ days: 1 });
+
+    if (next.offset !== cursor.offset) {
+      const transition = findTransition(zone, cursor, next);
+      lines.push(
+        ...observance(
+          // DTSTART is the wall-clock time in the offset in effect before the change.
+          transition.toUTC().plus({ minutes: cursor.offset }),
+          cursor.offset,
+          transition.offset,
+          transition.isInDST,
+        ),
+      );
+    }
+
+    cursor = next;
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+const buildEvent = (event: CalendarEvent, stamp: Date): string[] => {
+  const local = isLocalZone(event.timezone);
+  const formatTime = (value: Date, property: string) =>
+    local
+      ? `${property};TZID=${event.timezone}:${DateTime.fromJSDate(value)
+          .setZone(event.timezone)
+          .toFormat(LOCAL_FORMAT)}`
+      : `${property}:${formatUtc(value)}`;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `CREATED:${formatUtc(event.createdAt)}`,
+    `LAST-MODIFIED:${formatUtc(event.updatedAt)}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.status}`,
+    formatTime(event.start, 'DTSTART'),
+    formatTime(event.end, 'DTEND'),
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+
+  if (event.geo) {
+    lines.push(`GEO:${event.geo.latitude};${event.geo.longitude}`);
+  }
+
+  lines.push(`TRANSP:${event.status === 'CANCELLED' ? 'TRANSPARENT' : 'OPAQUE'}`, 'END:VEVENT');
+  return lines;
+};
+
+/**
+ * Serialises events into an iCalendar (RFC 5545) document. Events in a named
+ * timezone keep their local wall-clock time and ship the matching
+ * VTIMEZONE; the others are written in UTC.
+ */
+export const buildCalendar = (events: CalendarEvent[], options: CalendarOptions = {}): string => {
+  const stamp = options.generatedAt ?? new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+
+  if (options.refreshMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+      `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`,
+    );
+  }
+
+  const yearsByZone = new Map<string, Set<number>>();
+  for (const event of events) {
+    if (!isLocalZone(event.timezone)) continue;
+
+    const years = yearsByZone.get(event.timezone) ?? new Set<number>();
+    for (const value of [event.start, event.end]) {
+      years.add(DateTime.fromJSDate(value).setZone(event.timezone).year);
+    }
+    yearsByZone.set(event.timezone, years);
+  }
+
+  for (const [zone, years] of yearsByZone) {
+    lines.push(...buildTimezone(zone, Array.from(years)));
+  }
+
+  for (const event of events) {
+    lines.push(...buildEvent(event, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
@@ -0,0 +1,100 @@
+import {
+  applyDecorators,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiHeader } from '@nestjs/swagger';
+import type { Request } from 'express';
+import { from, Observable, of, throwError } from 'rxjs';
+import { catchError, concatMap, switchMap } from 'rxjs/operators';
+
+import { IdempotencyService } from '@modules/appointments/idempotency.service';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+/**
+ * Honours the Idempotency-Key header on the route: duplicates of a completed
+ * request get its response back without running again. Place it below other
+ * interceptor decorators so duplicates are answered before those run.
+ */
+export const Idempotent = () =>
+  applyDecorators(
+    ApiHeader({
+      name: 'Idempotency-Key',
+      required: false,
+      description: 'Unique key of the request; retries with the same key are not applied twice',
+    }),
+    UseInterceptors(IdempotencyInterceptor),
+  );
+
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(private readonly idempotency: IdempotencyService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<Request & { user?: AuthenticatedUser }>();
+    const key = request.header(IDEMPOTENCY_KEY_HEADER);
+
+    if (key === undefined || !request.user) {
+      return next.handle();
+    }
+
+    const claim = this.idempotency.claim(request.user.id, key, {
+      method: request.method,
+      path: request.originalUrl,
+      body: request.body,
+    });
+
+    return from(claim).pipe(
+      switchMap((claimed) => {
+        if (claimed.replay) {
+          return of(claimed.response);
+        }
+
+        return next.handle().pipe(
+          catchError((error: unknown) =>
+            from(this.release(claimed.recordId)).pipe(switchMap(() => throwError(() => error))),
+          ),
+          concatMap(async (result) => {
+            await this.store(claimed.recordId, result);
+            return result;
+          }),
+        );
+      }),
+    );
+  }
+
+  /**
+   * The mutation went through, so failing to store its response must not fail
+   * the request: the key stays claimed and duplicates are refused instead.
+   */
+  private async store(recordId: string, result: unknown): Promise<void> {
+    try {
+      await this.idempotency.complete(recordId, result);
+    } catch (error) {
+      this.logger.error(
+        `Failed to store the response of idempotency key ${recordId}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  /** A key left claimed would only block retries until it expires, so this never throws. */
+  private async release(recordId: string): Promise<void> {
+    try {
+      await this.idempotency.release(recordId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to release idempotency key ${recordId}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+
+import { PrismaService } from '@prisma/prisma.service';
+
+import { IDEMPOTENCY_CODE, IdempotencyException, IdempotencyService } from './idempotency.service';
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+
+  const now = new Date('2030-01-01T08:00:00.000Z');
+
+  const request = {
+    method: 'POST',
+    path: '/api/v1/appointments',
+    body: { serviceId: 'service1', slotId: 'slot1' },
+  };
+
+  const mockPrismaService = {
+    idempotencyKey: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const claimFirst = async () => {
+    mockPrismaService.idempotencyKey.findUnique.mockResolvedValueOnce(null);
+    await service.claim('user1', 'key1', request, now);
+
+    return mockPrismaService.idempotencyKey.create.mock.calls[0][0].data;
+  };
+
+  const rejection = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (error) {
+      return error as IdempotencyException;
+    }
+
+    throw new Error('Expected the idempotent request to be rejected.');
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [IdempotencyService, { provide: PrismaService, useValue: mockPrismaService }],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+
+    jest.clearAllMocks();
+    mockPrismaService.idempotencyKey.create.mockResolvedValue({ id: 'record1' });
+  });
+
+  describe('claim', () => {
+    it('should claim an unused key for a day', async () => {
+      mockPrismaService.idempotencyKey.findUnique.mockResolvedValue(null);
+
+      const claim = await service.claim('user1', 'key1', request, now);
+
+      expect(claim).toEqual({ replay: false, recordId: 'record1' });
+      expect(mockPrismaService.idempotencyKey.findUnique).toHaveBeenCalledWith({
+        where: { userId_key: { userId: 'user1', key: 'key1' } },
+      });
+      expect(mockPrismaService.idempotencyKey.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user1',
+          key: 'key1',
+          requestHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+          expiresAt: new Date('2030-01-02T08:00:00.000Z'),
+        },
+      });
+    });
+
+    it('should replay the stored response of a completed duplicate', async () => {
+      const { requestHash } = await claimFirst();
+      mockPrismaService.idempotencyKey.findUnique.mockResolvedValue({
+        id: 'record1',
+        requestHash,
+        responseBody: { data: { id: 'appointment1' } },
+        completedAt: now,
+        expiresAt: new Date('2030-01-02T08:00:00.000Z'),
+      });
+
+      const claim = await service.claim('user1', 'key1', request, now);
+
+      expect(claim).toEqual({ replay: true, response: { data: { id: 'appointment1' } } });
+    });
+
+    it('should reject a key reused for another payload', async () => {
+      const { requestHash } = await claimFirst();
+      mockPrismaService.idempotencyKey.findUnique.mockResolvedValue({
+        id: 'record1',
+        requestHash,
+        responseBody: null,
+        completedAt: now,
+        expiresAt: new Date('2030-01-02T08:00:00.000Z'),
+      });
+
+      const error = await rejection(
+        service.claim('user1', 'key1', { ...request, body: { slotId: 'slot2' } }, now),
+      );
+
+      expect(error).toBeInstanceOf(IdempotencyException);
+      expect(error.code).toBe(IDEMPOTENCY_CODE.MISMATCH);
+      expect(error.getStatus()).toBe(422);
+    });
+
+    it('should reject a duplicate of a request still running', async () => {
+      const { requestHash } = await claimFirst();
+      mockPrismaService.idempotencyKey.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+      mockPrismaService.idempotencyKey.findUnique.mockResolvedValue(null);
+      mockPrismaService.idempotencyKey.findUniqueOrThrow.mockResolvedValue({
+        id: 'record1',
+        requestHash,
+        responseBody: null,
+        completedAt: null,
+        expiresAt: new Date('2030-01-02T08:00:00.000Z'),
+      });
+
+      const error = await rejection(service.claim('user1', 'key1', request, now));
+
+      expect(error.code).toBe(IDEMPOTENCY_CODE.IN_PROGRESS);
+      expect(error.getStatus()).toBe(409);
+    });
+
+    it('should reclaim expired keys', async () => {
+      mockPrismaService.idempotencyKey.findUnique.mockResolvedValue({
+        id: 'record0',
+        requestHash: 'other',
+        completedAt: new Date('2029-12-30T08:00:00.000Z'),
+        expiresAt: new Date('2029-12-31T08:00:00.000Z'),
+      });
+
+      const claim = await service.claim('user1', 'key1', request, now);
+
+      expect(claim).toEqual({ replay: false, recordId: 'record1' });
+      expect(mockPrismaService.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'record0' },
+      });
+    });
+
+    it('should reject oversized keys', async () => {
+      const error = await rejection(service.claim('user1', 'k'.repeat(256), request, now));
+
+      expect(error.code).toBe(IDEMPOTENCY_CODE.INVALID);
+      expect(mockPrismaService.idempotencyKey.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('complete', () => {
+    it('should store the response', async () => {
+      await service.complete('record1', { data: { id: 'appointment1' } }, now);
+
+      expect(mockPrismaService.idempotencyKey.update).toHaveBeenCalledWith({
+        where: { id: 'record1' },
+        data: { responseBody: { data: { id: 'appointment1' } }, completedAt: now },
+      });
+    });
+  });
+
+  describe('release', () => {
+    it('should only forget keys whose request did not complete', async () => {
+      await service.release('record1');
+
+      expect(mockPrismaService.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'record1', completedAt: null },
+      });
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { createHash } from 'crypto';
+
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { IdempotencyKey, Prisma } from '@prisma/client';
+import { DateTime } from 'luxon';
+
+import { PrismaService } from '@prisma/prisma.service';
+
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/** Machine-readable codes of rejected idempotent requests, returned as `code`. */
+export const IDEMPOTENCY_CODE = {
+  INVALID: 'IDEMPOTENCY_KEY_INVALID',
+  MISMATCH: 'IDEMPOTENCY_KEY_MISMATCH',
+  IN_PROGRESS: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+} as const;
+
+export type IdempotencyCode = (typeof IDEMPOTENCY_CODE)[keyof typeof IDEMPOTENCY_CODE];
+
+const IDEMPOTENCY_STATUS: Record<IdempotencyCode, { status: HttpStatus; error: string }> = {
+  [IDEMPOTENCY_CODE.INVALID]: { status: HttpStatus.BAD_REQUEST, error: 'Bad Request' },
+  [IDEMPOTENCY_CODE.MISMATCH]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    error: 'Unprocessable Entity',
+  },
+  [IDEMPOTENCY_CODE.IN_PROGRESS]: { status: HttpStatus.CONFLICT, error: 'Conflict' },
+};
+
+export class IdempotencyException extends HttpException {
+  constructor(
+    readonly code: IdempotencyCode,
+    message: string,
+  ) {
+    const { status, error } = IDEMPOTENCY_STATUS[code];
+    super({ message, error, code, details: {} }, status);
+  }
+}
+
+/** The request an idempotency key was first used for. */
+export interface IdempotentRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export type IdempotencyClaim =
+  | { replay: false; recordId: string }
+  | { replay: true; response: unknown };
+
+/**
+ * Makes retried mutations safe. The first request with a key runs and its
+ * response is stored; later requests with the same key and payload get the
+ * stored response back instead of running again. Keys are scoped to the user
+ * and forgotten after `IDEMPOTENCY_KEY_TTL_HOURS`.
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Claims the key for the request, or returns the stored response when the
+   * same request already completed. Reusing a key for another request, or
+   * while the first one is still running, is rejected.
+   */
+  async claim(
+    userId: string,
+    key: string,
+    request: IdempotentRequest,
+    now: Date = new Date(),
+  ): Promise<IdempotencyClaim> {
+    if (!key.trim() || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new IdempotencyException(
+        IDEMPOTENCY_CODE.INVALID,
+        `Idempotency keys must be between 1 and ${MAX_IDEMPOTENCY_KEY_LENGTH} characters long.`,
+      );
+    }
+
+    const requestHash = this.hashRequest(request);
+    const existing = await this.prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+
+    if (existing && existing.expiresAt > now) {
+      return this.replay(existing, requestHash);
+    }
+
+    if (existing) {
+      await this.prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+    }
+
+    try {
+      const record = await this.prisma.idempotencyKey.create({
+        data: {
+          userId,
+          key,
+          requestHash,
+          expiresAt: DateTime.fromJSDate(now).plus({ hours: IDEMPOTENCY_KEY_TTL_HOURS }).toJSDate(),
+        },
+      });
+
+      return { replay: false, recordId: record.id };
+    } catch (error) {
+      // A concurrent request claimed the key first.
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const winner = await this.prisma.idempotencyKey.findUniqueOrThrow({
+          where: { userId_key: { userId, key } },
+        });
+
+        return this.replay(winner, requestHash);
+      }
+
+      throw error;
+    }
+  }
+
+  async complete(recordId: string, response: unknown, now: Date = new Date()): Promise<void> {
+    await this.prisma.idempotencyKey.update({
+      where: { id: recordId },
+      data: {
+        responseBody:
+          response === undefined || response === null
+            ? Prisma.JsonNull
+            : (JSON.parse(JSON.stringify(response)) as Prisma.InputJsonValue),
+        completedAt: now,
+      },
+    });
+  }
+
+  /**
+   * Forgets the key of a failed request. Failures are not replayed, so the
+   * client can retry with the same key once the problem is fixed.
+   */
+  async release(recordId: string): Promise<void> {
+    await this.prisma.idempotencyKey.deleteMany({ where: { id: recordId, completedAt: null } });
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const { count } = await this.prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lte: now } },
+    });
+
+    if (count) {
+      this.logger.verbose(`Purged ${count} expired idempotency key(s)`);
+    }
+
+    return count;
+  }
+
+  private replay(record: IdempotencyKey, requestHash: string): IdempotencyClaim {
+    if (record.requestHash !== requestHash) {
+      throw new IdempotencyException(
+        IDEMPOTENCY_CODE.MISMATCH,
+        'The idempotency key was already used for a different request.',
+      );
+    }
+
+    if (!record.completedAt) {
+      throw new IdempotencyException(
+        IDEMPOTENCY_CODE.IN_PROGRESS,
+        'A request with this idempotency key is still being processed.',
+      );
+    }
+
+    return { replay: true, response: record.responseBody ?? undefined };
+  }
+
+  private hashRequest(request: IdempotentRequest): string {
+    return createHash('sha256')
+      .update(`${request.method.toUpperCase()} ${request.path}\n`)
+      .update(JSON.stringify(request.body ?? {}))
+      .digest('hex');
+  }
+}
@@ -0,0 +1,188 @@
+import { MessageEvent, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { lastValueFrom } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+
+import { ROLE } from '@common/constants/role.constants';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { QueueTicketStatus } from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+import { QueueBoardService, toQueueTicketNumber } from './queue-board.service';
+import { QueueEtaService } from './queue-eta.service';
+
+describe('QueueBoardService', () => {
+  let service: QueueBoardService;
+
+  const client: AuthenticatedUser = {
+    id: 'user1',
+    email: 'client@example.com',
+    role: ROLE.CLIENT,
+    firstName: 'Amina',
+    lastName: 'Bensaid',
+    phoneNumber: null,
+    locale: 'fr',
+  };
+
+  const mockTicket = {
+    id: '3f2a9c1e-0000-4000-8000-000000000001',
+    userId: 'user1',
+    serviceId: 'service1',
+    slotId: null,
+    status: QueueTicketStatus.WAITING,
+    position: 4,
+    expiresAt: null,
+    createdAt: new Date('2030-01-01T08:00:00.000Z'),
+  };
+
+  const mockPrismaService = {
+    queueTicket: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+
+  const mockQueueEta = {
+    estimateOne: jest.fn(),
+  };
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QueueBoardService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: QueueEtaService, useValue: mockQueueEta },
+      ],
+    }).compile();
+
+    service = module.get<QueueBoardService>(QueueBoardService);
+
+    jest.clearAllMocks();
+    mockQueueEta.estimateOne.mockResolvedValue(null);
+  });
+
+  describe('getBoard', () => {
+    it('should list called and waiting tickets by number only', async () => {
+      mockPrismaService.queueTicket.findMany
+        .mockResolvedValueOnce([{ id: 'aaaaaaaa-0000', status: QueueTicketStatus.NOTIFIED }])
+        .mockResolvedValueOnce([
+          { id: 'bbbbbbbb-0000', status: QueueTicketStatus.WAITING },
+          { id: 'cccccccc-0000', status: QueueTicketStatus.WAITING },
+        ]);
+      mockPrismaService.queueTicket.count.mockResolvedValue(7);
+
+      const board = await service.getBoard('service1', 'office1');
+
+      expect(board).toEqual({
+        serviceId: 'service1',
+        officeId: 'office1',
+        serving: [{ number: 'AAAAAA', status: QueueTicketStatus.NOTIFIED, position: null }],
+        next: [
+          { number: 'BBBBBB', status: QueueTicketStatus.WAITING, position: 1 },
+          { number: 'CCCCCC', status: QueueTicketStatus.WAITING, position: 2 },
+        ],
+        waitingCount: 7,
+      });
+      expect(mockPrismaService.queueTicket.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            serviceId: 'service1',
+            OR: [{ slotId: null }, { slot: { officeId: 'office1' } }],
+            status: QueueTicketStatus.NOTIFIED,
+          },
+          select: { id: true, status: true },
+        }),
+      );
+    });
+  });
+
+  describe('getPosition', () => {
+    it('should rank the ticket after the tickets ahead of it', async () => {
+      const eta = {
+        earliestAt: '2030-01-01T08:20:00.000Z',
+        latestAt: '2030-01-01T08:45:00.000Z',
+        basis: 'THROUGHPUT' as const,
+      };
+      mockPrismaService.queueTicket.findUnique.mockResolvedValue(mockTicket);
+      mockPrismaService.queueTicket.count.mockResolvedValue(2);
+      mockQueueEta.estimateOne.mockResolvedValue(eta);
+
+      const position = await service.getPosition(mockTicket.id, client);
+
+      expect(position).toEqual({
+        ticketId: mockTicket.id,
+        number: toQueueTicketNumber(mockTicket.id),
+        serviceId: 'service1',
+        status: QueueTicketStatus.WAITING,
+        position: 3,
+        expiresAt: null,
+        eta,
+      });
+      expect(mockPrismaService.queueTicket.count).toHaveBeenCalledWith({
+        where: {
+          serviceId: 'service1',
+          status: QueueTicketStatus.WAITING,
+          OR: [{ position: { lt: 4 } }, { position: 4, createdAt: { lt: mockTicket.createdAt } }],
+        },
+      });
+    });
+
+    it('should hide the tickets of other users', async () => {
+      mockPrismaService.queueTicket.findUnique.mockResolvedValue({
+        ...mockTicket,
+        userId: 'user2',
+      });
+
+      await expect(service.getPosition(mockTicket.id, client)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('watchBoard', () => {
+    it('should push a new snapshot when the queue of the service changes', async () => {
+      let waitingCount = 1;
+      mockPrismaService.queueTicket.findMany.mockResolvedValue([]);
+      mockPrismaService.queueTicket.count.mockImplementation(() => Promise.resolve(waitingCount));
+
+      const events: MessageEvent[] = [];
+      const subscription = service.watchBoard('service1').subscribe((event) => events.push(event));
+      await flush();
+
+      service.publish('service2');
+      await flush();
+      service.publish('service1');
+      await flush();
+
+      waitingCount = 2;
+      service.publish('service1');
+      await flush();
+      subscription.unsubscribe();
+
+      expect(events.map((event) => (event.data as { waitingCount: number }).waitingCount)).toEqual([
+        1, 2,
+      ]);
+    });
+  });
+
+  describe('watchPosition', () => {
+    it('should end the stream once the ticket leaves the queue', async () => {
+      mockPrismaService.queueTicket.findUnique
+        .mockResolvedValueOnce(mockTicket)
+        .mockResolvedValueOnce(mockTicket)
+        .mockResolvedValue({ ...mockTicket, status: QueueTicketStatus.CANCELLED });
+      mockPrismaService.queueTicket.count.mockResolvedValue(0);
+
+      const events = lastValueFrom(service.watchPosition(mockTicket.id, client).pipe(toArray()));
+      await flush();
+      service.publish('service1');
+
+      const statuses = (await events).map((event) => (event.data as { status: string }).status);
+
+      expect(statuses).toEqual([QueueTicketStatus.WAITING, QueueTicketStatus.CANCELLED]);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { Injectable, Logger, MessageEvent, NotFoundException } from '@nestjs/common';
+import { from, interval, merge, Observable, of, Subject } from 'rxjs';
+import { distinctUntilChanged, filter, map, switchMap, takeWhile } from 'rxjs/operators';
+
+import { QueueBoardDto, QueueTicketPositionDto } from '@modules/appointments/dto';
+import { QueueEtaService } from '@modules/appointments/queue-eta.service';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { Prisma, QueueTicket, QueueTicketStatus } from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+export const QUEUE_BOARD_SIZE = 10;
+
+/**
+ * How often open streams are refreshed even without a local change, so the
+ * board also follows expiry jobs and changes made by other API instances.
+ */
+export const QUEUE_BOARD_REFRESH_SECONDS = 15;
+
+const ACTIVE_TICKET_STATUSES: QueueTicketStatus[] = [
+  QueueTicketStatus.WAITING,
+  QueueTicketStatus.NOTIFIED,
+];
+
+/** Short number identifying a ticket on the board, in place of the holder's name. */
+export const toQueueTicketNumber = (id: string): string =>
+  id.replace(/-/g, '').slice(0, 6).toUpperCase();
+
+/**
+ * Live waiting-room boards. Queue changes are announced with `publish` once
+ * committed and every open stream of the service reloads its snapshot. Boards
+ * only carry ticket numbers and ranks, never who holds a ticket.
+ */
+@Injectable()
+export class QueueBoardService {
+  private readonly logger = new Logger(QueueBoardService.name);
+
+  private readonly changes = new Subject<string>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly queueEta: QueueEtaService,
+  ) {}
+
+  /** Announces that the queue of the service changed. Call after the transaction commits. */
+  publish(serviceId: string): void {
+    this.changes.next(serviceId);
+  }
+
+  async getBoard(serviceId: string, officeId?: string): Promise<QueueBoardDto> {
+    const where: Prisma.QueueTicketWhereInput = {
+      serviceId,
+      ...(officeId ? { OR: [{ slotId: null }, { slot: { officeId } }] } : {}),
+    };
+
+    const [serving, next, waitingCount] = await Promise.all([
+      this.prisma.queueTicket.findMany({
+        where: { ...where, status: QueueTicketStatus.NOTIFIED },
+        orderBy: [{ notifiedAt: 'asc' }, { createdAt: 'asc' }],
+        select: { id: true, status: true },
+      }),
+      this.prisma.queueTicket.findMany({
+        where: { ...where, status: QueueTicketStatus.WAITING },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+        take: QUEUE_BOARD_SIZE,
+        select: { id: true, status: true },
+      }),
+      this.prisma.queueTicket.count({ where: { ...where, status: QueueTicketStatus.WAITING } }),
+    ]);
+
+    return {
+      serviceId,
+      officeId: officeId ?? null,
+      serving: serving.map((ticket) => ({
+        number: toQueueTicketNumber(ticket.id),
+        status: ticket.status,
+        position: null,
+      })),
+      next: next.map((ticket, index) => ({
+        number: toQueueTicketNumber(ticket.id),
+        status: ticket.status,
+        position: index + 1,
+      })),
+      waitingCount,
+    };
+  }
+
+  /**
+   * Returns where the ticket of the user stands in the waiting line of its
+   * service, with its estimated wait.
+   */
+  async getPosition(ticketId: string, user: AuthenticatedUser): Promise<QueueTicketPositionDto> {
+    const ticket = await this.prisma.queueTicket.findUnique({ where: { id: ticketId } });
+
+    if (!ticket || ticket.userId !== user.id) {
+      throw new NotFoundException('Queue ticket not found.');
+    }
+
+    return {
+      ticketId: ticket.id,
+      number: toQueueTicketNumber(ticket.id),
+      serviceId: ticket.serviceId,
+      status: ticket.status,
+      position:
+        ticket.status === QueueTicketStatus.WAITING ? (await this.countAhead(ticket)) + 1 : null,
+      expiresAt: ticket.expiresAt?.toISOString() ?? null,
+      eta: await this.queueEta.estimateOne(ticket),
+    };
+  }
+
+  watchBoard(serviceId: string, officeId?: string): Observable<MessageEvent> {
+    return this.watch(serviceId, () => this.getBoard(serviceId, officeId));
+  }
+
+  /** Streams the position of the ticket until it leaves the queue. */
+  watchPosition(ticketId: string, user: AuthenticatedUser): Observable<MessageEvent> {
+    return from(this.getPosition(ticketId, user)).pipe(
+      switchMap((initial) => this.watch(initial.serviceId, () => this.getPosition(ticketId, user))),
+      takeWhile(
+        (event) => ACTIVE_TICKET_STATUSES.includes((event.data as QueueTicketPositionDto).status),
+        true,
+      ),
+    );
+  }
+
+  private watch<T extends object>(
+    serviceId: string,
+    load: () => Promise<T>,
+  ): Observable<MessageEvent> {
+    this.logger.verbose(`Opening queue stream for service=${serviceId}`);
+
+    return merge(
+      of(serviceId),
+      this.changes.pipe(filter((changed) => changed === serviceId)),
+      interval(QUEUE_BOARD_REFRESH_SECONDS * 1000),
+    ).pipe(
+      switchMap(() => from(load())),
+      distinctUntilChanged(
+        (previous, current) => JSON.stringify(previous) === JSON.stringify(current),
+      ),
+      map((data) => ({ data })),
+    );
+  }
+
+  private countAhead(ticket: QueueTicket): Promise<number> {
+    return this.prisma.queueTicket.count({
+      where: {
+        serviceId: ticket.serviceId,
+        status: QueueTicketStatus.WAITING,
+        OR: [
+          { position: { lt: ticket.position } },
+          { position: ticket.position, createdAt: { lt: ticket.createdAt } },
+        ],
+      },
+    });
+  }
+}
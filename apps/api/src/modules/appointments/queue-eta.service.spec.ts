@@ -0,0 +1,167 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import {
+  AppointmentSlotStatus,
+  AppointmentStatusEventType,
+  QueueTicketStatus,
+} from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+import { QueueEtaService } from './queue-eta.service';
+
+describe('QueueEtaService', () => {
+  let service: QueueEtaService;
+
+  const now = new Date('2030-01-01T08:00:00.000Z');
+
+  const buildTicket = (id: string, overrides = {}) => ({
+    id,
+    userId: 'user1',
+    serviceId: 'service1',
+    slotId: null,
+    status: QueueTicketStatus.WAITING,
+    position: 1,
+    desiredFrom: null,
+    desiredTo: null,
+    timezone: 'Africa/Algiers',
+    notifiedAt: null,
+    expiresAt: null,
+    notes: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  });
+
+  const buildSlot = (startAt: string, overrides = {}) => ({
+    id: `slot-${startAt}`,
+    serviceId: 'service1',
+    startAt: new Date(startAt),
+    endAt: new Date(new Date(startAt).getTime() + 30 * 60 * 1000),
+    timezone: 'Africa/Algiers',
+    capacity: 1,
+    bufferBeforeMinutes: 0,
+    bufferAfterMinutes: 0,
+    status: AppointmentSlotStatus.AVAILABLE,
+    notes: null,
+    officeId: null,
+    appointments: [],
+    queueTickets: [],
+    holds: [],
+    ...overrides,
+  });
+
+  /** STARTED and COMPLETED events of an appointment served in the given minutes. */
+  const servedIn = (appointmentId: string, minutes: number) => [
+    {
+      appointmentId,
+      event: AppointmentStatusEventType.COMPLETED,
+      createdAt: new Date(Date.parse('2029-12-31T10:00:00.000Z') + minutes * 60_000),
+    },
+    {
+      appointmentId,
+      event: AppointmentStatusEventType.STARTED,
+      createdAt: new Date('2029-12-31T10:00:00.000Z'),
+    },
+  ];
+
+  const mockPrismaService = {
+    service: {
+      findUnique: jest.fn(),
+    },
+    queueTicket: {
+      findMany: jest.fn(),
+    },
+    appointmentSlot: {
+      findMany: jest.fn(),
+    },
+    appointmentStatusHistory: {
+      findMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [QueueEtaService, { provide: PrismaService, useValue: mockPrismaService }],
+    }).compile();
+
+    service = module.get<QueueEtaService>(QueueEtaService);
+
+    jest.clearAllMocks();
+    mockPrismaService.service.findUnique.mockResolvedValue({ durationMinutes: 20 });
+    mockPrismaService.queueTicket.findMany.mockResolvedValue([
+      { id: 'ticket1' },
+      { id: 'ticket2' },
+      { id: 'ticket3' },
+    ]);
+    mockPrismaService.appointmentSlot.findMany.mockResolvedValue([]);
+    mockPrismaService.appointmentStatusHistory.findMany.mockResolvedValue([]);
+  });
+
+  it('should fall back to the configured duration without served history', async () => {
+    const estimates = await service.estimate(
+      [buildTicket('ticket1'), buildTicket('ticket3', { position: 3 })],
+      now,
+    );
+
+    expect(estimates.get('ticket1')).toEqual({
+      earliestAt: '2030-01-01T08:00:00.000Z',
+      latestAt: '2030-01-01T08:20:00.000Z',
+      basis: 'THROUGHPUT',
+    });
+    expect(estimates.get('ticket3')).toEqual({
+      earliestAt: '2030-01-01T08:40:00.000Z',
+      latestAt: '2030-01-01T09:00:00.000Z',
+      basis: 'THROUGHPUT',
+    });
+    expect(mockPrismaService.service.findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  it('should widen the range with the actual served times', async () => {
+    mockPrismaService.appointmentStatusHistory.findMany.mockResolvedValue(
+      [10, 12, 15, 18, 30].flatMap((minutes, index) => servedIn(`appointment${index}`, minutes)),
+    );
+
+    const eta = await service.estimateOne(buildTicket('ticket2', { position: 2 }), now);
+
+    expect(eta).toEqual({
+      earliestAt: '2030-01-01T08:12:00.000Z',
+      latestAt: '2030-01-01T08:36:00.000Z',
+      basis: 'THROUGHPUT',
+    });
+  });
+
+  it('should seat waiting tickets in the free seats of upcoming slots first', async () => {
+    mockPrismaService.appointmentSlot.findMany.mockResolvedValue([
+      buildSlot('2030-01-01T09:00:00.000Z', {
+        capacity: 2,
+        holds: [{ expiresAt: new Date('2030-01-01T08:05:00.000Z') }],
+      }),
+    ]);
+
+    const estimates = await service.estimate(
+      [buildTicket('ticket1'), buildTicket('ticket2', { position: 2 })],
+      now,
+    );
+
+    expect(estimates.get('ticket1')).toEqual({
+      earliestAt: '2030-01-01T09:00:00.000Z',
+      latestAt: '2030-01-01T09:20:00.000Z',
+      basis: 'SLOTS',
+    });
+    expect(estimates.get('ticket2')).toEqual({
+      earliestAt: '2030-01-01T09:00:00.000Z',
+      latestAt: '2030-01-01T09:10:00.000Z',
+      basis: 'THROUGHPUT',
+    });
+  });
+
+  it('should not estimate tickets that left the waiting line', async () => {
+    const eta = await service.estimateOne(
+      buildTicket('ticket1', { status: QueueTicketStatus.NOTIFIED }),
+      now,
+    );
+
+    expect(eta).toBeNull();
+    expect(mockPrismaService.service.findUnique).not.toHaveBeenCalled();
+  });
+});
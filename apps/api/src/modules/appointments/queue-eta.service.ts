@@ -0,0 +1,222 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DateTime } from 'luxon';
+
+import { QueueTicketEtaDto } from '@modules/appointments/dto';
+import { toSlotAvailability } from '@modules/appointments/slot-availability';
+import {
+  AppointmentSlotStatus,
+  AppointmentStatusEventType,
+  QueueTicket,
+  QueueTicketStatus,
+} from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+/** Most recent served appointments used to learn how long a service takes. */
+export const QUEUE_ETA_SAMPLE_SIZE = 50;
+
+/** Below this many served appointments the configured service duration is used. */
+export const QUEUE_ETA_MIN_SAMPLES = 5;
+
+/** How far ahead free seats of upcoming slots are counted. */
+export const QUEUE_ETA_HORIZON_DAYS = 14;
+
+const HISTORY_WINDOW_DAYS = 90;
+const MAX_UPCOMING_SLOTS = 200;
+
+/** What the estimate of every waiting ticket of a service is derived from. */
+interface ServiceQueueProfile {
+  /** Identifiers of the WAITING tickets in queue order. */
+  waiting: string[];
+  /** Start of each free seat of the upcoming slots, one entry per seat. */
+  seatStarts: Date[];
+  /** Usual and slow service times, in minutes. */
+  lowMinutes: number;
+  highMinutes: number;
+  /** Clients served side by side, taken from the slot capacity. */
+  counters: number;
+}
+
+const percentile = (sorted: number[], ratio: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * ratio)))];
+
+const toMinute = (value: DateTime): string =>
+  (value.second || value.millisecond ? value.startOf('minute').plus({ minutes: 1 }) : value)
+    .toUTC()
+    .toISO() as string;
+
+/**
+ * Estimates when waiting queue tickets will be served. Tickets ahead first
+ * take the free seats of upcoming slots; past the last one, each ticket ahead
+ * is assumed to take one service time, learned from the STARTED and
+ * COMPLETED events of recent appointments. Estimates are computed on read,
+ * so they follow every change of the queue.
+ */
+@Injectable()
+export class QueueEtaService {
+  private readonly logger = new Logger(QueueEtaService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async estimateOne(
+    ticket: QueueTicket,
+    now: Date = new Date(),
+  ): Promise<QueueTicketEtaDto | null> {
+    const estimates = await this.estimate([ticket], now);
+    return estimates.get(ticket.id) ?? null;
+  }
+
+  /** Returns the estimate of every WAITING ticket given, keyed by ticket id. */
+  async estimate(
+    tickets: QueueTicket[],
+    now: Date = new Date(),
+  ): Promise<Map<string, QueueTicketEtaDto>> {
+    const estimates = new Map<string, QueueTicketEtaDto>();
+    const waiting = tickets.filter((ticket) => ticket.status === QueueTicketStatus.WAITING);
+
+    for (const serviceId of new Set(waiting.map((ticket) => ticket.serviceId))) {
+      const profile = await this.loadProfile(serviceId, now);
+
+      if (!profile) {
+        continue;
+      }
+
+      for (const ticket of waiting.filter((candidate) => candidate.serviceId === serviceId)) {
+        const ahead = profile.waiting.indexOf(ticket.id);
+        estimates.set(ticket.id, this.estimateAt(Math.max(ahead, 0), profile, now));
+      }
+    }
+
+    return estimates;
+  }
+
+  private estimateAt(ahead: number, profile: ServiceQueueProfile, now: Date): QueueTicketEtaDto {
+    const start = DateTime.fromJSDate(now);
+    const seatStart = profile.seatStarts[Math.min(ahead, profile.seatStarts.length - 1)];
+    const seated =
+      seatStart && DateTime.fromJSDate(seatStart) > start ? DateTime.fromJSDate(seatStart) : start;
+
+    if (ahead < profile.seatStarts.length) {
+      return {
+        earliestAt: toMinute(seated),
+        latestAt: toMinute(seated.plus({ minutes: profile.highMinutes })),
+        basis: 'SLOTS',
+      };
+    }
+
+    // Past the last free seat, tickets are served one service time after another.
+    const overflow = ahead - profile.seatStarts.length;
+
+    return {
+      earliestAt: toMinute(
+        seated.plus({ minutes: (overflow * profile.lowMinutes) / profile.counters }),
+      ),
+      latestAt: toMinute(
+        seated.plus({ minutes: ((overflow + 1) * profile.highMinutes) / profile.counters }),
+      ),
+      basis: 'THROUGHPUT',
+    };
+  }
+
+  private async loadProfile(serviceId: string, now: Date): Promise<ServiceQueueProfile | null> {
+    const service = await this.prisma.service.findUnique({
+      where: { id: serviceId },
+      select: { durationMinutes: true },
+    });
+
+    if (!service) {
+      return null;
+    }
+
+    const [waiting, slots, served] = await Promise.all([
+      this.prisma.queueTicket.findMany({
+        where: { serviceId, status: QueueTicketStatus.WAITING },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+        select: { id: true },
+      }),
+      this.prisma.appointmentSlot.findMany({
+        where: {
+          serviceId,
+          status: AppointmentSlotStatus.AVAILABLE,
+          startAt: {
+            gt: now,
+            lt: DateTime.fromJSDate(now).plus({ days: QUEUE_ETA_HORIZON_DAYS }).toJSDate(),
+          },
+        },
+        orderBy: { startAt: 'asc' },
+        take: MAX_UPCOMING_SLOTS,
+        include: {
+          appointments: true,
+          queueTickets: true,
+          holds: { where: { expiresAt: { gt: now } } },
+        },
+      }),
+      this.loadServedMinutes(serviceId, now),
+    ]);
+
+    const seatStarts: Date[] = [];
+
+    for (const slot of slots) {
+      const { available } = toSlotAvailability(slot, now);
+
+      for (let seat = 0; seat < available && seatStarts.length < waiting.length; seat++) {
+        seatStarts.push(slot.startAt);
+      }
+    }
+
+    const sorted = served.sort((left, right) => left - right);
+    const hasHistory = sorted.length >= QUEUE_ETA_MIN_SAMPLES;
+
+    return {
+      waiting: waiting.map((ticket) => ticket.id),
+      seatStarts,
+      lowMinutes: hasHistory ? percentile(sorted, 0.25) : service.durationMinutes,
+      highMinutes: hasHistory ? percentile(sorted, 0.75) : service.durationMinutes,
+      counters: Math.max(1, ...slots.map((slot) => slot.capacity)),
+    };
+  }
+
+  /** Minutes between the STARTED and COMPLETED events of recently served appointments. */
+  private async loadServedMinutes(serviceId: string, now: Date): Promise<number[]> {
+    const events = await this.prisma.appointmentStatusHistory.findMany({
+      where: {
+        event: { in: [AppointmentStatusEventType.STARTED, AppointmentStatusEventType.COMPLETED] },
+        appointment: { serviceId },
+        createdAt: {
+          gte: DateTime.fromJSDate(now).minus({ days: HISTORY_WINDOW_DAYS }).toJSDate(),
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: QUEUE_ETA_SAMPLE_SIZE * 2,
+      select: { appointmentId: true, event: true, createdAt: true },
+    });
+
+    const started = new Map<string, Date>();
+    const completed = new Map<string, Date>();
+
+    for (const event of events) {
+      const target = event.event === AppointmentStatusEventType.STARTED ? started : completed;
+
+      if (!target.has(event.appointmentId)) {
+        target.set(event.appointmentId, event.createdAt);
+      }
+    }
+
+    const minutes: number[] = [];
+
+    for (const [appointmentId, completedAt] of completed) {
+      const startedAt = started.get(appointmentId);
+
+      if (startedAt && completedAt > startedAt) {
+        minutes.push((completedAt.getTime() - startedAt.getTime()) / 60_000);
+      }
+    }
+
+    if (minutes.length < QUEUE_ETA_MIN_SAMPLES) {
+      this.logger.verbose(
+        `Only ${minutes.length} served appointment(s) for service=${serviceId}; using its configured duration`,
+      );
+    }
+
+    return minutes;
+  }
+}
@@ -0,0 +1,237 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import {
+  DocumentUploadStatus,
+  Prisma,
+  QueuePriorityClass,
+  QueueTicketStatus,
+} from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+import { QueuePriorityService } from './queue-priority.service';
+
+describe('QueuePriorityService', () => {
+  let service: QueuePriorityService;
+
+  const buildTicket = (id: string, createdAt: string, position: number, overrides = {}) => ({
+    id,
+    userId: 'user1',
+    serviceId: 'service1',
+    slotId: null,
+    status: QueueTicketStatus.WAITING,
+    position,
+    desiredFrom: null,
+    desiredTo: null,
+    timezone: 'Africa/Algiers',
+    notifiedAt: null,
+    expiresAt: null,
+    notes: null,
+    metadata: null,
+    priorityClass: QueuePriorityClass.STANDARD,
+    requestedPriorityClass: null,
+    priorityProofId: null,
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(createdAt),
+    ...overrides,
+  });
+
+  const mockPrismaService = {
+    queuePriorityRule: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    queueTicket: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    queueTicketPriorityHistory: {
+      create: jest.fn(),
+    },
+    documentUpload: {
+      findUnique: jest.fn(),
+    },
+    documentTemplate: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [QueuePriorityService, { provide: PrismaService, useValue: mockPrismaService }],
+    }).compile();
+
+    service = module.get<QueuePriorityService>(QueuePriorityService);
+
+    jest.clearAllMocks();
+    mockPrismaService.queuePriorityRule.findMany.mockResolvedValue([]);
+  });
+
+  describe('resolveClaim', () => {
+    it('should grant classes that need no proof at once', async () => {
+      mockPrismaService.queuePriorityRule.findMany.mockResolvedValue([
+        {
+          priorityClass: QueuePriorityClass.PREGNANCY,
+          leadMinutes: 20,
+          requiresProof: false,
+          proofTemplateId: null,
+          isActive: true,
+        },
+      ]);
+
+      await expect(
+        service.resolveClaim('user1', QueuePriorityClass.PREGNANCY, undefined),
+      ).resolves.toEqual({
+        priorityClass: QueuePriorityClass.PREGNANCY,
+        requestedPriorityClass: null,
+        priorityProofId: null,
+      });
+    });
+
+    it('should leave claims without proof for an administrator to verify', async () => {
+      await expect(
+        service.resolveClaim('user1', QueuePriorityClass.ELDERLY, undefined),
+      ).resolves.toEqual({
+        priorityClass: QueuePriorityClass.STANDARD,
+        requestedPriorityClass: QueuePriorityClass.ELDERLY,
+        priorityProofId: null,
+      });
+    });
+
+    it('should grant claims backed by a validated proof', async () => {
+      mockPrismaService.documentUpload.findUnique.mockResolvedValue({
+        id: 'upload1',
+        userId: 'user1',
+        templateId: null,
+        status: DocumentUploadStatus.VALIDATED,
+      });
+
+      await expect(
+        service.resolveClaim('user1', QueuePriorityClass.DISABILITY, 'upload1'),
+      ).resolves.toEqual({
+        priorityClass: QueuePriorityClass.DISABILITY,
+        requestedPriorityClass: null,
+        priorityProofId: 'upload1',
+      });
+    });
+
+    it('should refuse a proof filed under another template', async () => {
+      mockPrismaService.queuePriorityRule.findMany.mockResolvedValue([
+        {
+          priorityClass: QueuePriorityClass.DISABILITY,
+          leadMinutes: 30,
+          requiresProof: true,
+          proofTemplateId: 'template-disability-card',
+          isActive: true,
+        },
+      ]);
+      mockPrismaService.documentUpload.findUnique.mockResolvedValue({
+        id: 'upload1',
+        userId: 'user1',
+        templateId: 'template-passport',
+        status: DocumentUploadStatus.VALIDATED,
+      });
+
+      await expect(
+        service.resolveClaim('user1', QueuePriorityClass.DISABILITY, 'upload1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should hide the uploads of other users', async () => {
+      mockPrismaService.documentUpload.findUnique.mockResolvedValue({
+        id: 'upload1',
+        userId: 'user2',
+        templateId: null,
+        status: DocumentUploadStatus.VALIDATED,
+      });
+
+      await expect(
+        service.resolveClaim('user1', QueuePriorityClass.ELDERLY, 'upload1'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('placeTicket', () => {
+    it('should only pass the tickets that arrived within the lead of the class', async () => {
+      mockPrismaService.queueTicket.findMany.mockResolvedValue([
+        buildTicket('standard1', '2030-01-01T09:00:00.000Z', 1),
+        buildTicket('standard2', '2030-01-01T09:20:00.000Z', 2),
+        buildTicket('standard3', '2030-01-01T09:40:00.000Z', 3),
+      ]);
+      const elderly = buildTicket('elderly', '2030-01-01T10:00:00.000Z', 4, {
+        priorityClass: QueuePriorityClass.ELDERLY,
+      });
+
+      const position = await service.placeTicket(elderly);
+
+      expect(position).toBe(3);
+      expect(mockPrismaService.queueTicket.update).toHaveBeenCalledTimes(2);
+      expect(mockPrismaService.queueTicket.update).toHaveBeenCalledWith({
+        where: { id: 'elderly' },
+        data: { position: 3 },
+      });
+      expect(mockPrismaService.queueTicket.update).toHaveBeenCalledWith({
+        where: { id: 'standard3' },
+        data: { position: 4 },
+      });
+    });
+
+    it('should keep a priority ticket behind earlier priority tickets', async () => {
+      mockPrismaService.queueTicket.findMany.mockResolvedValue([
+        buildTicket('pregnancy', '2030-01-01T09:50:00.000Z', 1, {
+          priorityClass: QueuePriorityClass.PREGNANCY,
+        }),
+        buildTicket('standard1', '2030-01-01T09:40:00.000Z', 2),
+      ]);
+      const elderly = buildTicket('elderly', '2030-01-01T10:00:00.000Z', 3, {
+        priorityClass: QueuePriorityClass.ELDERLY,
+      });
+
+      await expect(service.placeTicket(elderly)).resolves.toBe(2);
+    });
+  });
+
+  describe('changePriority', () => {
+    it('should record a revocation and move the ticket back', async () => {
+      const ticket = buildTicket('elderly', '2030-01-01T10:00:00.000Z', 1, {
+        priorityClass: QueuePriorityClass.ELDERLY,
+      });
+      mockPrismaService.queueTicket.findUnique.mockResolvedValue(ticket);
+      mockPrismaService.queueTicket.update.mockResolvedValueOnce({
+        ...ticket,
+        priorityClass: QueuePriorityClass.STANDARD,
+      });
+      mockPrismaService.queueTicket.findMany.mockResolvedValue([
+        buildTicket('standard1', '2030-01-01T09:45:00.000Z', 2),
+      ]);
+
+      const updated = await service.changePriority('elderly', {
+        priorityClass: QueuePriorityClass.STANDARD,
+        changedById: 'admin1',
+        reason: 'No proof presented at the desk',
+      });
+
+      expect(updated.position).toBe(2);
+      expect(mockPrismaService.queueTicketPriorityHistory.create).toHaveBeenCalledWith({
+        data: {
+          ticketId: 'elderly',
+          changedById: 'admin1',
+          fromClass: QueuePriorityClass.ELDERLY,
+          toClass: QueuePriorityClass.STANDARD,
+          reason: 'No proof presented at the desk',
+          metadata: Prisma.JsonNull,
+        },
+      });
+    });
+  });
+
+  describe('updateRule', () => {
+    it('should not configure the standard lane', async () => {
+      await expect(
+        service.updateRule(QueuePriorityClass.STANDARD, { leadMinutes: 10 }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockPrismaService.queuePriorityRule.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+
+import {
+  QueuePriorityRuleDto,
+  QueuePriorityRuleListResponseDto,
+  QueueTicketPriorityChangeDto,
+} from '@modules/appointments/dto';
+import {
+  DocumentUploadStatus,
+  Prisma,
+  QueuePriorityClass,
+  QueueTicket,
+  QueueTicketStatus,
+} from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+export type QueuePriorityRuleSettings = Omit<QueuePriorityRuleDto, 'priorityClass'>;
+
+/**
+ * Rules applied to classes an administrator has not configured yet. Priority
+ * classes need a proof by default; STANDARD is the plain FIFO lane.
+ */
+export const DEFAULT_QUEUE_PRIORITY_RULES: Record<QueuePriorityClass, QueuePriorityRuleSettings> = {
+  [QueuePriorityClass.STANDARD]: {
+    leadMinutes: 0,
+    requiresProof: false,
+    proofTemplateId: null,
+    isActive: true,
+  },
+  [QueuePriorityClass.ELDERLY]: {
+    leadMinutes: 30,
+    requiresProof: true,
+    proofTemplateId: null,
+    isActive: true,
+  },
+  [QueuePriorityClass.DISABILITY]: {
+    leadMinutes: 30,
+    requiresProof: true,
+    proofTemplateId: null,
+    isActive: true,
+  },
+  [QueuePriorityClass.PREGNANCY]: {
+    leadMinutes: 30,
+    requiresProof: true,
+    proofTemplateId: null,
+    isActive: true,
+  },
+};
+
+const UNUSABLE_PROOF_STATUSES: DocumentUploadStatus[] = [
+  DocumentUploadStatus.REJECTED,
+  DocumentUploadStatus.CANCELLED,
+  DocumentUploadStatus.EXPIRED,
+];
+
+export interface QueuePriorityClaim {
+  /** Lane the ticket is served in right away. */
+  priorityClass: QueuePriorityClass;
+  /** Lane claimed but left for an administrator to verify. */
+  requestedPriorityClass: QueuePriorityClass | null;
+  priorityProofId: string | null;
+}
+
+export interface QueuePriorityChange {
+  priorityClass: QueuePriorityClass;
+  changedById: string | null;
+  reason?: string | null;
+}
+
+/**
+ * Priority lanes of the queue. Each class is queued as if its tickets had
+ * arrived `leadMinutes` earlier than they did: a priority ticket passes the
+ * tickets that arrived less than its lead before it and no others, so a
+ * STANDARD ticket is never overtaken by priority tickets arriving more than
+ * the largest lead after it. Positions are only ever assigned when a ticket
+ * joins the queue or changes class; resequencing keeps the resulting order.
+ */
+@Injectable()
+export class QueuePriorityService {
+  private readonly logger = new Logger(QueuePriorityService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async listRules(client: Prisma.TransactionClient = this.prisma): Promise<QueuePriorityRuleDto[]> {
+    const rules = await this.getRules(client);
+
+    return Object.values(QueuePriorityClass)
+      .filter((priorityClass) => priorityClass !== QueuePriorityClass.STANDARD)
+      .map((priorityClass) => ({ priorityClass, ...rules[priorityClass] }));
+  }
+
+  /** Priority classes clients can currently claim when joining a queue. */
+  async listClaimableRules(): Promise<QueuePriorityRuleListResponseDto> {
+    const rules = await this.listRules();
+    return { data: rules.filter((rule) => rule.isActive) };
+  }
+
+  async updateRule(
+    priorityClass: QueuePriorityClass,
+    settings: Partial<QueuePriorityRuleSettings>,
+  ): Promise<QueuePriorityRuleDto> {
+    if (priorityClass === QueuePriorityClass.STANDARD) {
+      throw new BadRequestException('The standard lane cannot be configured.');
+    }
+
+    if (settings.proofTemplateId) {
+      const template = await this.prisma.documentTemplate.findUnique({
+        where: { id: settings.proofTemplateId },
+        select: { id: true },
+      });
+
+      if (!template) {
+        throw new NotFoundException('Document template not found.');
+      }
+    }
+
+    const rule = await this.prisma.queuePriorityRule.upsert({
+      where: { priorityClass },
+      create: { priorityClass, ...DEFAULT_QUEUE_PRIORITY_RULES[priorityClass], ...settings },
+      update: settings,
+    });
+
+    this.logger.log(`Queue priority rule for ${priorityClass} updated`);
+
+    return {
+      priorityClass: rule.priorityClass,
+      leadMinutes: rule.leadMinutes,
+      requiresProof: rule.requiresProof,
+      proofTemplateId: rule.proofTemplateId,
+      isActive: rule.isActive,
+    };
+  }
+
+  /**
+   * Checks a priority claimed by a client when joining the queue. Classes
+   * without a proof requirement are granted at once, as are claims backed by
+   * a validated proof. Claims whose proof is missing or still under review
+   * stay in the STANDARD lane until an administrator grants them.
+   */
+  async resolveClaim(
+    userId: string,
+    requested: QueuePriorityClass | undefined,
+    proofUploadId: string | undefined,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<QueuePriorityClaim> {
+    if (!requested || requested === QueuePriorityClass.STANDARD) {
+      return {
+        priorityClass: QueuePriorityClass.STANDARD,
+        requestedPriorityClass: null,
+        priorityProofId: null,
+      };
+    }
+
+    const rule = (await this.getRules(client))[requested];
+
+    if (!rule.isActive) {
+      throw new BadRequestException('The requested priority class is not available.');
+    }
+
+    if (!rule.requiresProof) {
+      return { priorityClass: requested, requestedPriorityClass: null, priorityProofId: null };
+    }
+
+    if (!proofUploadId) {
+      return {
+        priorityClass: QueuePriorityClass.STANDARD,
+        requestedPriorityClass: requested,
+        priorityProofId: null,
+      };
+    }
+
+    const proof = await client.documentUpload.findUnique({
+      where: { id: proofUploadId },
+      select: { id: true, userId: true, templateId: true, status: true },
+    });
+
+    if (!proof || proof.userId !== userId) {
+      throw new NotFoundException('Document upload not found.');
+    }
+
+    if (
+      UNUSABLE_PROOF_STATUSES.includes(proof.status) ||
+      (rule.proofTemplateId && proof.templateId !== rule.proofTemplateId)
+    ) {
+      throw new BadRequestException('The document does not prove the requested priority.');
+    }
+
+    return proof.status === DocumentUploadStatus.VALIDATED
+      ? { priorityClass: requested, requestedPriorityClass: null, priorityProofId: proof.id }
+      : {
+          priorityClass: QueuePriorityClass.STANDARD,
+          requestedPriorityClass: requested,
+          priorityProofId: proof.id,
+        };
+  }
+
+  /**
+   * Moves a WAITING ticket to the place its lane entitles it to and shifts
+   * the tickets behind it. Returns the resulting position.
+   */
+  async placeTicket(
+    ticket: QueueTicket,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<number> {
+    const rules = await this.getRules(client);
+    const queuedAt = (candidate: QueueTicket) =>
+      candidate.createdAt.getTime() - rules[candidate.priorityClass].leadMinutes * 60_000;
+
+    const others = await client.queueTicket.findMany({
+      where: {
+        serviceId: ticket.serviceId,
+        status: QueueTicketStatus.WAITING,
+        id: { not: ticket.id },
+      },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const behind = others.findIndex((other) => queuedAt(other) > queuedAt(ticket));
+    const ordered = [...others];
+    ordered.splice(behind === -1 ? others.length : behind, 0, ticket);
+
+    for (let index = 0; index < ordered.length; index++) {
+      if (ordered[index].position !== index + 1) {
+        await client.queueTicket.update({
+          where: { id: ordered[index].id },
+          data: { position: index + 1 },
+        });
+      }
+    }
+
+    return ordered.indexOf(ticket) + 1;
+  }
+
+  /**
+   * Grants or revokes priority on a ticket, records the change in its audit
+   * trail and re-places the ticket when it is still waiting. Settles any
+   * pending claim either way.
+   */
+  async changePriority(
+    ticketId: string,
+    change: QueuePriorityChange,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<QueueTicket> {
+    const ticket = await client.queueTicket.findUnique({ where: { id: ticketId } });
+
+    if (!ticket) {
+      throw new NotFoundException('Queue ticket not found.');
+    }
+
+    const updated = await client.queueTicket.update({
+      where: { id: ticketId },
+      data: { priorityClass: change.priorityClass, requestedPriorityClass: null },
+    });
+
+    await client.queueTicketPriorityHistory.create({
+      data: {
+        ticketId,
+        changedById: change.changedById,
+        fromClass: ticket.priorityClass,
+        toClass: change.priorityClass,
+        reason: change.reason ?? null,
+        metadata: ticket.requestedPriorityClass
+          ? { requestedPriorityClass: ticket.requestedPriorityClass }
+          : Prisma.JsonNull,
+      },
+    });
+
+    if (
+      updated.status !== QueueTicketStatus.WAITING ||
+      ticket.priorityClass === change.priorityClass
+    ) {
+      return updated;
+    }
+
+    return { ...updated, position: await this.placeTicket(updated, client) };
+  }
+
+  /** Records a priority granted when the ticket was created. */
+  async recordGrant(
+    ticket: QueueTicket,
+    reason: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    await client.queueTicketPriorityHistory.create({
+      data: {
+        ticketId: ticket.id,
+        changedById: null,
+        fromClass: QueuePriorityClass.STANDARD,
+        toClass: ticket.priorityClass,
+        reason,
+        metadata: ticket.priorityProofId
+          ? { proofUploadId: ticket.priorityProofId }
+          : Prisma.JsonNull,
+      },
+    });
+  }
+
+  async listHistory(ticketId: string): Promise<QueueTicketPriorityChangeDto[]> {
+    const history = await this.prisma.queueTicketPriorityHistory.findMany({
+      where: { ticketId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return history.map((entry) => ({
+      id: entry.id,
+      fromClass: entry.fromClass,
+      toClass: entry.toClass,
+      changedById: entry.changedById,
+      reason: entry.reason,
+      createdAt: entry.createdAt.toISOString(),
+    }));
+  }
+
+  private async getRules(
+    client: Prisma.TransactionClient,
+  ): Promise<Record<QueuePriorityClass, QueuePriorityRuleSettings>> {
+    const rules = { ...DEFAULT_QUEUE_PRIORITY_RULES };
+
+    for (const rule of await client.queuePriorityRule.findMany()) {
+      rules[rule.priorityClass] = {
+        leadMinutes: rule.leadMinutes,
+        requiresProof: rule.requiresProof,
+        proofTemplateId: rule.proofTemplateId,
+        isActive: rule.isActive,
+      };
+    }
+
+    return rules;
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  AppointmentSlotStatus,
+  AppointmentStatus,
+  Prisma,
+  QueueTicketStatus,
+} from '@prisma/client';
+
+import { AppointmentSlotAvailabilityDto } from '@modules/appointments/dto';
+
+export type SlotWithOccupancy = Prisma.AppointmentSlotGetPayload<{
+  include: {
+    appointments: true;
+    queueTickets: true;
+    holds: true;
+  };
+}>;
+
+/**
+ * Summarises how many seats of the slot can still be booked. Seats taken by
+ * active appointments, offered to the waitlist or held in the booking wizard
+ * all count against the capacity.
+ */
+export const toSlotAvailability = (
+  slot: SlotWithOccupancy,
+  now: Date = new Date(),
+): AppointmentSlotAvailabilityDto => {
+  const activeAppointments = slot.appointments.filter(
+    (appointment) => appointment.status !== AppointmentStatus.CANCELLED,
+  );
+  const waitingTickets = slot.queueTickets.filter(
+    (ticket) => ticket.status === QueueTicketStatus.WAITING,
+  );
+  const heldSeats = slot.queueTickets.filter(
+    (ticket) =>
+      ticket.status === QueueTicketStatus.NOTIFIED && !!ticket.expiresAt && ticket.expiresAt > now,
+  );
+  const wizardHolds = slot.holds.filter((hold) => hold.expiresAt > now);
+  const available = Math.max(
+    slot.capacity - activeAppointments.length - heldSeats.length - wizardHolds.length,
+    0,
+  );
+
+  let status = slot.status;
+  if (slot.status !== AppointmentSlotStatus.CANCELLED) {
+    status = available > 0 ? AppointmentSlotStatus.AVAILABLE : AppointmentSlotStatus.FULL;
+  }
+
+  return {
+    id: slot.id,
+    serviceId: slot.serviceId,
+    officeId: slot.officeId ?? null,
+    startAt: slot.startAt.toISOString(),
+    endAt: slot.endAt.toISOString(),
+    timezone: slot.timezone,
+    capacity: slot.capacity,
+    available,
+    status,
+    bufferBeforeMinutes: slot.bufferBeforeMinutes,
+    bufferAfterMinutes: slot.bufferAfterMinutes,
+    queueLength: waitingTickets.length,
+    notes: slot.notes ?? null,
+  };
+};
+
+/**
+ * Flips a slot between AVAILABLE and FULL after its bookings changed.
+ * Cancelled slots are left untouched.
+ */
+export const updateSlotOccupancyStatus = async (
+  tx: Prisma.TransactionClient,
+  slotId: string,
+): Promise<void> => {
+  const slot = await tx.appointmentSlot.findUnique({ where: { id: slotId } });
+
+  if (!slot || slot.status === AppointmentSlotStatus.CANCELLED) {
+    return;
+  }
+
+  const activeCount = await tx.appointment.count({
+    where: {
+      slotId,
+      status: { not: AppointmentStatus.CANCELLED },
+    },
+  });
+
+  const nextStatus =
+    activeCount >= slot.capacity ? AppointmentSlotStatus.FULL : AppointmentSlotStatus.AVAILABLE;
+
+  if (nextStatus !== slot.status) {
+    await tx.appointmentSlot.update({
+      where: { id: slotId },
+      data: { status: nextStatus },
+    });
+  }
+};
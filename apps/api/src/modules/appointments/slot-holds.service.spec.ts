@@ -0,0 +1,201 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { ROLE } from '@common/constants/role.constants';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
+import { AppointmentSlotStatus } from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+import { SlotHoldsService } from './slot-holds.service';
+
+describe('SlotHoldsService', () => {
+  let service: SlotHoldsService;
+
+  const now = new Date('2030-01-01T08:00:00.000Z');
+
+  const client: AuthenticatedUser = {
+    id: 'user1',
+    email: 'client@example.com',
+    role: ROLE.CLIENT,
+    firstName: 'Amina',
+    lastName: 'Bensaid',
+    phoneNumber: null,
+    locale: 'fr',
+  };
+
+  const mockSlot = {
+    id: 'slot1',
+    serviceId: 'service1',
+    startAt: new Date('2030-01-01T10:00:00.000Z'),
+    endAt: new Date('2030-01-01T10:30:00.000Z'),
+    timezone: 'Africa/Algiers',
+    capacity: 1,
+    bufferBeforeMinutes: 0,
+    bufferAfterMinutes: 0,
+    status: AppointmentSlotStatus.AVAILABLE,
+    notes: null,
+    metadata: null,
+    templateId: null,
+    officeId: null,
+    specialistId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const mockPrismaService = {
+    slotHold: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  const mockWaitlist = {
+    offerFreedSeats: jest.fn(),
+    publishBoards: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SlotHoldsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: WaitlistPromotionService, useValue: mockWaitlist },
+      ],
+    }).compile();
+
+    service = module.get<SlotHoldsService>(SlotHoldsService);
+
+    jest.clearAllMocks();
+    mockWaitlist.offerFreedSeats.mockResolvedValue([]);
+    mockPrismaService.slotHold.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'hold1', createdAt: now, ...data }),
+    );
+  });
+
+  describe('countActive', () => {
+    it('should leave out the holds of the booking user', async () => {
+      mockPrismaService.slotHold.count.mockResolvedValue(2);
+
+      await expect(
+        service.countActive('slot1', mockPrismaService as never, 'user1', now),
+      ).resolves.toBe(2);
+
+      expect(mockPrismaService.slotHold.count).toHaveBeenCalledWith({
+        where: { slotId: 'slot1', expiresAt: { gt: now }, userId: { not: 'user1' } },
+      });
+    });
+  });
+
+  describe('place', () => {
+    it('should replace the previous hold of the user and free its seat', async () => {
+      mockPrismaService.slotHold.findMany.mockResolvedValue([
+        { id: 'hold0', slotId: 'slot0', userId: 'user1' },
+      ]);
+      mockWaitlist.offerFreedSeats.mockResolvedValue([{ id: 'ticket1', serviceId: 'service1' }]);
+
+      const { hold, offered } = await service.place(
+        'user1',
+        mockSlot,
+        mockPrismaService as never,
+        now,
+      );
+
+      expect(mockPrismaService.slotHold.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user1' },
+      });
+      expect(mockPrismaService.slotHold.create).toHaveBeenCalledWith({
+        data: {
+          slotId: 'slot1',
+          userId: 'user1',
+          expiresAt: new Date('2030-01-01T08:10:00.000Z'),
+        },
+      });
+      expect(hold.id).toBe('hold1');
+      expect(mockWaitlist.offerFreedSeats).toHaveBeenCalledWith('slot0', mockPrismaService, now);
+      expect(offered).toEqual([{ id: 'ticket1', serviceId: 'service1' }]);
+    });
+
+    it('should end the hold at the booking cutoff of the slot', async () => {
+      mockPrismaService.slotHold.findMany.mockResolvedValue([]);
+
+      const { hold, offered } = await service.place(
+        'user1',
+        { ...mockSlot, startAt: new Date('2030-01-01T08:20:00.000Z'), bufferBeforeMinutes: 15 },
+        mockPrismaService as never,
+        now,
+      );
+
+      expect(hold.expiresAt).toEqual(new Date('2030-01-01T08:05:00.000Z'));
+      expect(mockPrismaService.slotHold.deleteMany).not.toHaveBeenCalled();
+      expect(mockWaitlist.offerFreedSeats).not.toHaveBeenCalled();
+      expect(offered).toEqual([]);
+    });
+  });
+
+  describe('release', () => {
+    it('should delete the hold and offer its seat to the waitlist', async () => {
+      mockPrismaService.slotHold.findUnique.mockResolvedValue({
+        id: 'hold1',
+        slotId: 'slot1',
+        userId: 'user1',
+        expiresAt: new Date('2030-01-01T08:10:00.000Z'),
+      });
+
+      mockWaitlist.offerFreedSeats.mockResolvedValue([{ id: 'ticket1', serviceId: 'service1' }]);
+
+      await service.release('hold1', client, now);
+
+      expect(mockPrismaService.slotHold.delete).toHaveBeenCalledWith({ where: { id: 'hold1' } });
+      expect(mockWaitlist.offerFreedSeats).toHaveBeenCalledWith('slot1', mockPrismaService, now);
+      expect(mockWaitlist.publishBoards).toHaveBeenCalledWith(['service1']);
+    });
+
+    it('should not release the hold of another user', async () => {
+      mockPrismaService.slotHold.findUnique.mockResolvedValue({
+        id: 'hold1',
+        slotId: 'slot1',
+        userId: 'user2',
+        expiresAt: new Date('2030-01-01T08:10:00.000Z'),
+      });
+
+      await expect(service.release('hold1', client, now)).rejects.toBeInstanceOf(NotFoundException);
+      expect(mockPrismaService.slotHold.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseExpired', () => {
+    it('should delete lapsed holds and offer each freed slot once', async () => {
+      mockPrismaService.slotHold.findMany.mockResolvedValue([
+        { id: 'hold1', slotId: 'slot1' },
+        { id: 'hold2', slotId: 'slot1' },
+        { id: 'hold3', slotId: 'slot2' },
+      ]);
+      mockPrismaService.slotHold.deleteMany.mockResolvedValue({ count: 3 });
+
+      await expect(service.releaseExpired(now)).resolves.toBe(3);
+
+      expect(mockPrismaService.slotHold.findMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lte: now } },
+        select: { id: true, slotId: true },
+      });
+      expect(mockPrismaService.slotHold.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['hold1', 'hold2', 'hold3'] } },
+      });
+      expect(mockWaitlist.offerFreedSeats).toHaveBeenCalledTimes(2);
+      expect(mockWaitlist.offerFreedSeats).toHaveBeenCalledWith('slot2', mockPrismaService, now);
+    });
+
+    it('should do nothing when no hold has lapsed', async () => {
+      mockPrismaService.slotHold.findMany.mockResolvedValue([]);
+
+      await expect(service.releaseExpired(now)).resolves.toBe(0);
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
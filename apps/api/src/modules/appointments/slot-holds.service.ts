@@ -0,0 +1,155 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { DateTime } from 'luxon';
+
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
+import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { AppointmentSlot, Prisma, QueueTicket, SlotHold } from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+export const SLOT_HOLD_MINUTES = 10;
+
+export interface PlacedSlotHold {
+  hold: SlotHold;
+  offered: QueueTicket[];
+}
+
+/**
+ * Seats reserved while a booking is being confirmed. A user holds at most one
+ * seat at a time; the hold counts against the slot capacity until it is
+ * consumed by the booking, released, or lapses after `SLOT_HOLD_MINUTES`.
+ */
+@Injectable()
+export class SlotHoldsService {
+  private readonly logger = new Logger(SlotHoldsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly waitlist: WaitlistPromotionService,
+  ) {}
+
+  /**
+   * Counts the unexpired holds of a slot. The holds of `excludeUserId` are
+   * left out so users can confirm the seat they hold themselves.
+   */
+  async countActive(
+    slotId: string,
+    client: Prisma.TransactionClient = this.prisma,
+    excludeUserId?: string,
+    now: Date = new Date(),
+  ): Promise<number> {
+    return client.slotHold.count({
+      where: {
+        slotId,
+        expiresAt: { gt: now },
+        ...(excludeUserId ? { userId: { not: excludeUserId } } : {}),
+      },
+    });
+  }
+
+  /**
+   * Holds a seat of the slot for the user, replacing any hold they had. The
+   * hold never outlives the booking cutoff of the slot. Capacity must have
+   * been checked by the caller within the same transaction. Also returns the
+   * tickets the seat given up was offered to, so the caller can publish them.
+   */
+  async place(
+    userId: string,
+    slot: AppointmentSlot,
+    client: Prisma.TransactionClient,
+    now: Date = new Date(),
+  ): Promise<PlacedSlotHold> {
+    const previous = await client.slotHold.findMany({ where: { userId } });
+
+    if (previous.length) {
+      await client.slotHold.deleteMany({ where: { userId } });
+    }
+
+    const bookingCutoff = DateTime.fromJSDate(slot.startAt).minus({
+      minutes: slot.bufferBeforeMinutes,
+    });
+    const holdEnd = DateTime.fromJSDate(now).plus({ minutes: SLOT_HOLD_MINUTES });
+
+    const hold = await client.slotHold.create({
+      data: {
+        slotId: slot.id,
+        userId,
+        expiresAt: (holdEnd < bookingCutoff ? holdEnd : bookingCutoff).toJSDate(),
+      },
+    });
+
+    const offered: QueueTicket[] = [];
+    for (const slotId of new Set(previous.map((held) => held.slotId))) {
+      if (slotId !== slot.id) {
+        offered.push(...(await this.waitlist.offerFreedSeats(slotId, client, now)));
+      }
+    }
+
+    return { hold, offered };
+  }
+
+  /**
+   * Drops the holds of the user on a slot once their booking has taken the
+   * seat.
+   */
+  async consume(
+    userId: string,
+    slotId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    await client.slotHold.deleteMany({ where: { userId, slotId } });
+  }
+
+  /**
+   * Releases a hold of the user before it lapses, typically when they leave
+   * the booking wizard, and offers the seat to the waitlist.
+   */
+  async release(id: string, user: AuthenticatedUser, now: Date = new Date()): Promise<void> {
+    const offered = await this.prisma.$transaction(async (tx) => {
+      const hold = await tx.slotHold.findUnique({ where: { id } });
+
+      if (!hold || hold.userId !== user.id) {
+        throw new NotFoundException('Slot hold not found.');
+      }
+
+      await tx.slotHold.delete({ where: { id } });
+
+      return hold.expiresAt > now ? this.waitlist.offerFreedSeats(hold.slotId, tx, now) : [];
+    });
+
+    this.waitlist.publishBoards(offered.map((ticket) => ticket.serviceId));
+  }
+
+  /**
+   * Deletes lapsed holds and offers the seats they kept to the waitlist.
+   * Returns the number of holds removed.
+   */
+  async releaseExpired(now: Date = new Date()): Promise<number> {
+    const lapsed = await this.prisma.slotHold.findMany({
+      where: { expiresAt: { lte: now } },
+      select: { id: true, slotId: true },
+    });
+
+    if (!lapsed.length) {
+      return 0;
+    }
+
+    this.logger.verbose(`Releasing ${lapsed.length} lapsed slot hold(s)`);
+
+    const { count, offered } = await this.prisma.$transaction(async (tx) => {
+      const deleted = await tx.slotHold.deleteMany({
+        where: { id: { in: lapsed.map((hold) => hold.id) } },
+      });
+
+      const offeredTickets: QueueTicket[] = [];
+      for (const slotId of new Set(lapsed.map((hold) => hold.slotId))) {
+        offeredTickets.push(...(await this.waitlist.offerFreedSeats(slotId, tx, now)));
+      }
+
+      return { count: deleted.count, offered: offeredTickets };
+    });
+
+    this.waitlist.publishBoards(offered.map((ticket) => ticket.serviceId));
+
+    return count;
+  }
+}
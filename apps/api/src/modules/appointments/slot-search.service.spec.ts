@@ -0,0 +1,186 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
+import { ClosuresService } from '@modules/scheduling/closures.service';
+import { AppointmentSlotStatus, AppointmentStatus } from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+import { decodeSlotCursor, encodeSlotCursor, SlotSearchService } from './slot-search.service';
+
+describe('SlotSearchService', () => {
+  let service: SlotSearchService;
+
+  const now = new Date('2030-01-01T08:00:00.000Z');
+  const serviceA = '00000000-0000-4000-8000-00000000000a';
+  const serviceB = '00000000-0000-4000-8000-00000000000b';
+
+  const slotId = (index: number) => `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`;
+
+  const buildSlot = (index: number, serviceId: string, startAt: string, overrides = {}) => ({
+    id: slotId(index),
+    serviceId,
+    startAt: new Date(startAt),
+    endAt: new Date(new Date(startAt).getTime() + 30 * 60 * 1000),
+    timezone: 'Africa/Algiers',
+    capacity: 1,
+    bufferBeforeMinutes: 0,
+    bufferAfterMinutes: 0,
+    status: AppointmentSlotStatus.AVAILABLE,
+    notes: null,
+    metadata: null,
+    templateId: null,
+    officeId: null,
+    specialistId: null,
+    createdAt: now,
+    updatedAt: now,
+    appointments: [],
+    queueTickets: [],
+    holds: [],
+    ...overrides,
+  });
+
+  const mockPrismaService = {
+    appointmentSlot: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockClosures = {
+    getClosedDates: jest.fn(),
+    isClosedOn: jest.fn(),
+  };
+
+  const mockWaitlist = {
+    releaseExpiredHolds: jest.fn(),
+  };
+
+  /** Serves the slots of each service the way the database would. */
+  const serveSlots = (slots: ReturnType<typeof buildSlot>[]) => {
+    mockPrismaService.appointmentSlot.findMany.mockImplementation(({ where, take }) => {
+      const after = where.OR?.[1];
+
+      return Promise.resolve(
+        slots
+          .filter((slot) => slot.serviceId === where.serviceId)
+          .filter(
+            (slot) =>
+              !after ||
+              slot.startAt > after.startAt ||
+              (slot.startAt.getTime() === after.startAt.getTime() && slot.id > after.id.gt),
+          )
+          .slice(0, take),
+      );
+    });
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SlotSearchService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ClosuresService, useValue: mockClosures },
+        { provide: WaitlistPromotionService, useValue: mockWaitlist },
+      ],
+    }).compile();
+
+    service = module.get<SlotSearchService>(SlotSearchService);
+
+    jest.clearAllMocks();
+    mockClosures.getClosedDates.mockResolvedValue(new Map());
+    mockClosures.isClosedOn.mockReturnValue(false);
+  });
+
+  it('should merge the earliest slots of several services in start order', async () => {
+    serveSlots([
+      buildSlot(1, serviceA, '2030-01-03T09:00:00.000Z'),
+      buildSlot(2, serviceA, '2030-01-05T09:00:00.000Z'),
+      buildSlot(3, serviceB, '2030-01-02T09:00:00.000Z'),
+      buildSlot(4, serviceB, '2030-01-04T09:00:00.000Z'),
+    ]);
+
+    const result = await service.findNextAvailable(
+      { serviceIds: [serviceA, serviceB], limit: 3 },
+      now,
+    );
+
+    expect(result.data.map((slot) => slot.id)).toEqual([slotId(3), slotId(1), slotId(4)]);
+    expect(result.meta.nextCursor).toBe(
+      encodeSlotCursor({ startAt: new Date('2030-01-04T09:00:00.000Z'), id: slotId(4) }),
+    );
+    expect(mockPrismaService.appointmentSlot.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          serviceId: serviceA,
+          startAt: { gt: now, lt: new Date('2030-04-01T08:00:00.000Z') },
+          status: AppointmentSlotStatus.AVAILABLE,
+        },
+        orderBy: [{ startAt: 'asc' }, { id: 'asc' }],
+      }),
+    );
+  });
+
+  it('should resume after the cursor and end the last page', async () => {
+    serveSlots([
+      buildSlot(1, serviceA, '2030-01-03T09:00:00.000Z'),
+      buildSlot(2, serviceA, '2030-01-05T09:00:00.000Z'),
+    ]);
+
+    const result = await service.findNextAvailable(
+      {
+        serviceIds: [serviceA],
+        limit: 5,
+        cursor: encodeSlotCursor({ startAt: new Date('2030-01-03T09:00:00.000Z'), id: slotId(1) }),
+      },
+      now,
+    );
+
+    expect(result.data.map((slot) => slot.id)).toEqual([slotId(2)]);
+    expect(result.meta.nextCursor).toBeNull();
+  });
+
+  it('should skip full, closed, past-cutoff and non-preferred slots', async () => {
+    serveSlots([
+      // Wednesday 10:00 local, but fully booked.
+      buildSlot(1, serviceA, '2030-01-02T09:00:00.000Z', {
+        appointments: [{ status: AppointmentStatus.SCHEDULED }],
+      }),
+      // Starts too soon to be booked.
+      buildSlot(2, serviceA, '2030-01-01T08:10:00.000Z', { bufferBeforeMinutes: 15 }),
+      // Thursday 10:00 local, on a closed day.
+      buildSlot(3, serviceA, '2030-01-03T09:00:00.000Z'),
+      // Wednesday 15:00 local, after the preferred hours.
+      buildSlot(4, serviceA, '2030-01-09T14:00:00.000Z'),
+      // Monday 10:00 local, not a preferred day.
+      buildSlot(5, serviceA, '2030-01-07T09:00:00.000Z'),
+      // Thursday 11:00 local.
+      buildSlot(6, serviceA, '2030-01-10T10:00:00.000Z'),
+    ]);
+    mockClosures.isClosedOn.mockImplementation((startAt: Date) => startAt.getUTCDate() === 3);
+
+    const result = await service.findNextAvailable(
+      { serviceIds: [serviceA], daysOfWeek: [3, 4], fromTime: '08:00', toTime: '12:00' },
+      now,
+    );
+
+    expect(result.data.map((slot) => slot.id)).toEqual([slotId(6)]);
+  });
+
+  it('should read further batches until enough slots match', async () => {
+    const slots = Array.from({ length: 60 }, (_, index) =>
+      buildSlot(index + 1, serviceA, new Date(Date.UTC(2030, 0, 2, 9, index)).toISOString(), {
+        holds: index < 55 ? [{ expiresAt: new Date('2030-01-01T08:05:00.000Z') }] : [],
+      }),
+    );
+    serveSlots(slots);
+
+    const result = await service.findNextAvailable({ serviceIds: [serviceA], limit: 2 }, now);
+
+    expect(result.data.map((slot) => slot.id)).toEqual([slotId(56), slotId(57)]);
+    expect(mockPrismaService.appointmentSlot.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeSlotCursor('not-a-cursor')).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,218 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { DateTime, IANAZone } from 'luxon';
+
+import {
+  AppointmentSlotAvailabilityDto,
+  NextAvailableSlotsQueryDto,
+  NextAvailableSlotsResponseDto,
+} from '@modules/appointments/dto';
+import { SlotWithOccupancy, toSlotAvailability } from '@modules/appointments/slot-availability';
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
+import { ClosedDateIndex, ClosuresService } from '@modules/scheduling/closures.service';
+import { AppointmentSlotStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+export const NEXT_AVAILABLE_DEFAULT_LIMIT = 10;
+export const NEXT_AVAILABLE_DEFAULT_HORIZON_DAYS = 90;
+
+const SEARCH_BATCH_SIZE = 50;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface SlotKey {
+  startAt: Date;
+  id: string;
+}
+
+/** Slots of one service read in start order, a batch at a time. */
+interface ServiceSlotStream {
+  serviceId: string;
+  closedDates: ClosedDateIndex;
+  buffer: SlotWithOccupancy[];
+  after: SlotKey | null;
+  exhausted: boolean;
+}
+
+const compareSlotKeys = (left: SlotKey, right: SlotKey): number =>
+  left.startAt.getTime() - right.startAt.getTime() || left.id.localeCompare(right.id);
+
+export const encodeSlotCursor = (key: SlotKey): string =>
+  Buffer.from(`${key.startAt.toISOString()}|${key.id}`).toString('base64url');
+
+export const decodeSlotCursor = (cursor: string): SlotKey => {
+  const [startAt, id, ...rest] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const date = DateTime.fromISO(startAt ?? '', { zone: 'utc' });
+
+  if (rest.length || !date.isValid || !UUID_PATTERN.test(id ?? '')) {
+    throw new BadRequestException('The pagination cursor is invalid.');
+  }
+
+  return { startAt: date.toJSDate(), id };
+};
+
+/**
+ * Finds the earliest bookable slots across one or more services. Each service
+ * is read in `[serviceId, startAt]` order a batch at a time and the streams
+ * are merged, so only the slots up to the last match are ever loaded however
+ * long the horizon is.
+ */
+@Injectable()
+export class SlotSearchService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly closures: ClosuresService,
+    private readonly waitlist: WaitlistPromotionService,
+  ) {}
+
+  async findNextAvailable(
+    query: NextAvailableSlotsQueryDto,
+    now: Date = new Date(),
+  ): Promise<NextAvailableSlotsResponseDto> {
+    if (query.timezone && !IANAZone.isValidZone(query.timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${query.timezone}`);
+    }
+
+    if (query.fromTime && query.toTime && query.toTime < query.fromTime) {
+      throw new BadRequestException('The preferred end time must not be before the start time.');
+    }
+
+    const limit = query.limit ?? NEXT_AVAILABLE_DEFAULT_LIMIT;
+    const horizon = DateTime.fromJSDate(now)
+      .plus({ days: query.horizonDays ?? NEXT_AVAILABLE_DEFAULT_HORIZON_DAYS })
+      .toJSDate();
+    const after = query.cursor ? decodeSlotCursor(query.cursor) : null;
+
+    const streams: ServiceSlotStream[] = [];
+
+    for (const serviceId of query.serviceIds) {
+      await this.waitlist.releaseExpiredHolds({ serviceId }, now);
+
+      streams.push({
+        serviceId,
+        closedDates: await this.closures.getClosedDates(now, horizon, serviceId, query.officeId),
+        buffer: [],
+        after,
+        exhausted: false,
+      });
+    }
+
+    // One match past the page tells whether a next page exists.
+    const matches: AppointmentSlotAvailabilityDto[] = [];
+
+    while (matches.length <= limit) {
+      for (const stream of streams) {
+        if (!stream.buffer.length && !stream.exhausted) {
+          await this.readBatch(stream, query.officeId, horizon, now);
+        }
+      }
+
+      const next = streams
+        .filter((stream) => stream.buffer.length)
+        .reduce<ServiceSlotStream | null>(
+          (earliest, stream) =>
+            !earliest || compareSlotKeys(stream.buffer[0], earliest.buffer[0]) < 0
+              ? stream
+              : earliest,
+          null,
+        );
+
+      if (!next) {
+        break;
+      }
+
+      const slot = next.buffer.shift() as SlotWithOccupancy;
+
+      if (!this.matchesPreferences(slot, next.closedDates, query, now)) {
+        continue;
+      }
+
+      const availability = toSlotAvailability(slot, now);
+
+      if (availability.available > 0) {
+        matches.push(availability);
+      }
+    }
+
+    const page = matches.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      data: page,
+      meta: {
+        limit,
+        searchedUntil: horizon.toISOString(),
+        nextCursor:
+          matches.length > limit && last
+            ? encodeSlotCursor({ startAt: new Date(last.startAt), id: last.id })
+            : null,
+      },
+    };
+  }
+
+  private async readBatch(
+    stream: ServiceSlotStream,
+    officeId: string | undefined,
+    horizon: Date,
+    now: Date,
+  ): Promise<void> {
+    const where: Prisma.AppointmentSlotWhereInput = {
+      serviceId: stream.serviceId,
+      startAt: { gt: now, lt: horizon },
+      status: AppointmentSlotStatus.AVAILABLE,
+      ...(officeId ? { officeId } : {}),
+    };
+
+    if (stream.after) {
+      where.OR = [
+        { startAt: { gt: stream.after.startAt } },
+        { startAt: stream.after.startAt, id: { gt: stream.after.id } },
+      ];
+    }
+
+    const batch = await this.prisma.appointmentSlot.findMany({
+      where,
+      orderBy: [{ startAt: 'asc' }, { id: 'asc' }],
+      take: SEARCH_BATCH_SIZE,
+      include: {
+        appointments: true,
+        queueTickets: true,
+        holds: { where: { expiresAt: { gt: now } } },
+      },
+    });
+
+    stream.buffer = batch;
+    stream.exhausted = batch.length < SEARCH_BATCH_SIZE;
+
+    if (batch.length) {
+      const last = batch[batch.length - 1];
+      stream.after = { startAt: last.startAt, id: last.id };
+    }
+  }
+
+  private matchesPreferences(
+    slot: SlotWithOccupancy,
+    closedDates: ClosedDateIndex,
+    query: NextAvailableSlotsQueryDto,
+    now: Date,
+  ): boolean {
+    const start = DateTime.fromJSDate(slot.startAt, { zone: query.timezone ?? slot.timezone });
+    const bookingCutoff = DateTime.fromJSDate(slot.startAt).minus({
+      minutes: slot.bufferBeforeMinutes,
+    });
+
+    if (bookingCutoff.toJSDate() <= now) {
+      return false;
+    }
+
+    if (query.daysOfWeek?.length && !query.daysOfWeek.includes(start.weekday)) {
+      return false;
+    }
+
+    const time = start.toFormat('HH:mm');
+
+    if ((query.fromTime && time < query.fromTime) || (query.toTime && time > query.toTime)) {
+      return false;
+    }
+
+    return !this.closures.isClosedOn(slot.startAt, slot.timezone, closedDates, slot.officeId);
+  }
+}
@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+
+import { PrismaService } from '@prisma/prisma.service';
+
+import { SpecialistAssignmentsService } from './specialist-assignments.service';
+
+describe('SpecialistAssignmentsService', () => {
+  let service: SpecialistAssignmentsService;
+
+  const mockPrismaService = {
+    user: {
+      findUnique: jest.fn(),
+    },
+    appointment: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const window = {
+    specialistId: 'specialist1',
+    startAt: new Date('2030-01-01T09:00:00.000Z'),
+    endAt: new Date('2030-01-01T09:30:00.000Z'),
+    slotId: 'slot1',
+  };
+
+  const buildAppointment = (
+    id: string,
+    slotId: string | null,
+    startAt: string,
+    endAt: string | null,
+    durationMinutes = 30,
+  ) => ({
+    id,
+    serviceId: `service-${id}`,
+    slotId,
+    scheduledAt: new Date(startAt),
+    slot: slotId && endAt ? { startAt: new Date(startAt), endAt: new Date(endAt) } : null,
+    service: { durationMinutes },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SpecialistAssignmentsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SpecialistAssignmentsService>(SpecialistAssignmentsService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('assertSpecialist', () => {
+    it('should return users holding the specialist role', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'specialist1',
+        role: { name: 'specialist' },
+      });
+
+      await expect(service.assertSpecialist('specialist1')).resolves.toMatchObject({
+        id: 'specialist1',
+      });
+    });
+
+    it('should reject users with another role', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user1',
+        role: { name: 'client' },
+      });
+
+      await expect(service.assertSpecialist('user1')).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException for unknown users', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.assertSpecialist('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findConflicts', () => {
+    it('should report overlapping appointments of other services', async () => {
+      mockPrismaService.appointment.findMany.mockResolvedValue([
+        buildAppointment('a1', 'slot2', '2030-01-01T08:45:00.000Z', '2030-01-01T09:15:00.000Z'),
+        buildAppointment('a2', 'slot3', '2030-01-01T08:00:00.000Z', '2030-01-01T09:00:00.000Z'),
+      ]);
+
+      const conflicts = await service.findConflicts(window);
+
+      expect(conflicts).toEqual([expect.objectContaining({ appointmentId: 'a1' })]);
+    });
+
+    it('should ignore other seats of the same slot', async () => {
+      mockPrismaService.appointment.findMany.mockResolvedValue([
+        buildAppointment('a1', 'slot1', '2030-01-01T09:00:00.000Z', '2030-01-01T09:30:00.000Z'),
+      ]);
+
+      await expect(service.findConflicts(window)).resolves.toEqual([]);
+    });
+
+    it('should use the service duration for appointments without a slot', async () => {
+      mockPrismaService.appointment.findMany.mockResolvedValue([
+        buildAppointment('a1', null, '2030-01-01T08:00:00.000Z', null, 90),
+      ]);
+
+      const conflicts = await service.findConflicts(window);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].endAt).toEqual(new Date('2030-01-01T09:30:00.000Z'));
+    });
+
+    it('should exclude the appointment being moved', async () => {
+      mockPrismaService.appointment.findMany.mockResolvedValue([]);
+
+      await service.findConflicts({ ...window, appointmentId: 'a1' });
+
+      expect(mockPrismaService.appointment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            specialistId: 'specialist1',
+            id: { not: 'a1' },
+          }),
+        }),
+      );
+    });
+  });
+
+  describe('assertNoConflict', () => {
+    it('should throw ConflictException when the specialist is busy', async () => {
+      mockPrismaService.appointment.findMany.mockResolvedValue([
+        buildAppointment('a1', 'slot2', '2030-01-01T09:00:00.000Z', '2030-01-01T09:30:00.000Z'),
+      ]);
+
+      await expect(service.assertNoConflict(window)).rejects.toThrow(ConflictException);
+    });
+  });
+});
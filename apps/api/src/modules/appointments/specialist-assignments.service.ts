@@ -0,0 +1,122 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { DateTime } from 'luxon';
+
+import { ROLE } from '@common/constants/role.constants';
+import { AppointmentStatus, Prisma, User } from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+const INACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.CANCELLED,
+  AppointmentStatus.COMPLETED,
+];
+
+// Appointments never last longer than a day, so looking back that far is
+// enough to find every booking that could still be running at `startAt`.
+const CONFLICT_LOOKBACK_HOURS = 24;
+
+export interface SpecialistBookingWindow {
+  specialistId: string;
+  startAt: Date;
+  endAt: Date;
+  /** Appointment being moved or reassigned, ignored when looking for conflicts. */
+  appointmentId?: string;
+  /** Slot being booked; other seats of a shared slot are not conflicts. */
+  slotId?: string | null;
+}
+
+export interface SpecialistConflict {
+  appointmentId: string;
+  serviceId: string;
+  startAt: Date;
+  endAt: Date;
+}
+
+@Injectable()
+export class SpecialistAssignmentsService {
+  private readonly logger = new Logger(SpecialistAssignmentsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async assertSpecialist(
+    userId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<User> {
+    const user = await client.user.findUnique({
+      where: { id: userId },
+      include: { role: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Specialist not found.');
+    }
+
+    if (user.role?.name !== ROLE.SPECIALIST) {
+      throw new BadRequestException('The selected user is not a specialist.');
+    }
+
+    return user;
+  }
+
+  /**
+   * Lists the active appointments of a specialist overlapping the given
+   * window, whatever service they were booked for.
+   */
+  async findConflicts(
+    window: SpecialistBookingWindow,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<SpecialistConflict[]> {
+    this.logger.verbose(
+      `Checking specialist ${window.specialistId} between ${window.startAt.toISOString()} and ${window.endAt.toISOString()}`,
+    );
+
+    const candidates = await client.appointment.findMany({
+      where: {
+        specialistId: window.specialistId,
+        status: { notIn: INACTIVE_APPOINTMENT_STATUSES },
+        scheduledAt: {
+          gte: DateTime.fromJSDate(window.startAt)
+            .minus({ hours: CONFLICT_LOOKBACK_HOURS })
+            .toJSDate(),
+          lt: window.endAt,
+        },
+        ...(window.appointmentId ? { id: { not: window.appointmentId } } : {}),
+      },
+      include: {
+        slot: true,
+        service: true,
+      },
+      orderBy: { scheduledAt: 'asc' },
+    });
+
+    return candidates
+      .filter((appointment) => !window.slotId || appointment.slotId !== window.slotId)
+      .map((appointment) => ({
+        appointmentId: appointment.id,
+        serviceId: appointment.serviceId,
+        startAt: appointment.slot?.startAt ?? appointment.scheduledAt,
+        endAt:
+          appointment.slot?.endAt ??
+          DateTime.fromJSDate(appointment.scheduledAt)
+            .plus({ minutes: appointment.service.durationMinutes })
+            .toJSDate(),
+      }))
+      .filter((conflict) => conflict.startAt < window.endAt && conflict.endAt > window.startAt);
+  }
+
+  async assertNoConflict(
+    window: SpecialistBookingWindow,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    const conflicts = await this.findConflicts(window, client);
+
+    if (conflicts.length) {
+      throw new ConflictException('The specialist already has an appointment at this time.');
+    }
+  }
+}
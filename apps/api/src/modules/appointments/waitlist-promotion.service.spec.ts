@@ -0,0 +1,255 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { AppointmentNotificationsService } from '@modules/appointments/appointment-notifications.service';
+import { QueueBoardService } from '@modules/appointments/queue-board.service';
+import { AppointmentSlotStatus, QueueTicketStatus } from '@prisma/client';
+
+import { WaitlistPromotionService } from './waitlist-promotion.service';
+
+describe('WaitlistPromotionService', () => {
+  let service: WaitlistPromotionService;
+
+  const now = new Date('2030-01-01T08:00:00.000Z');
+
+  const mockSlot = {
+    id: 'slot1',
+    serviceId: 'service1',
+    startAt: new Date('2030-01-01T10:00:00.000Z'),
+    endAt: new Date('2030-01-01T10:30:00.000Z'),
+    capacity: 1,
+    bufferBeforeMinutes: 0,
+    status: AppointmentSlotStatus.AVAILABLE,
+  };
+
+  const buildTicket = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    userId: `user-${id}`,
+    serviceId: 'service1',
+    slotId: null,
+    status: QueueTicketStatus.WAITING,
+    position: 1,
+    desiredFrom: null,
+    desiredTo: null,
+    notifiedAt: null,
+    expiresAt: null,
+    ...overrides,
+  });
+
+  const mockPrismaService = {
+    appointmentSlot: {
+      findUnique: jest.fn(),
+    },
+    appointment: {
+      count: jest.fn(),
+    },
+    queueTicket: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    slotHold: {
+      count: jest.fn(),
+    },
+    queueTicketStatusHistory: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  const mockNotifications = {
+    queueTicketNotified: jest.fn(),
+    queueTicketUpdated: jest.fn(),
+  };
+
+  const mockQueueBoard = {
+    publish: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WaitlistPromotionService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: AppointmentNotificationsService,
+          useValue: mockNotifications,
+        },
+        {
+          provide: QueueBoardService,
+          useValue: mockQueueBoard,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WaitlistPromotionService>(WaitlistPromotionService);
+
+    jest.clearAllMocks();
+    mockPrismaService.slotHold.count.mockResolvedValue(0);
+    mockPrismaService.queueTicket.update.mockImplementation(({ where, data }) =>
+      Promise.resolve({ ...buildTicket(where.id), ...data }),
+    );
+  });
+
+  describe('offerFreedSeats', () => {
+    it('should offer the seat to the first eligible waiting ticket', async () => {
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue(mockSlot);
+      mockPrismaService.appointment.count.mockResolvedValue(0);
+      mockPrismaService.queueTicket.count.mockResolvedValue(0);
+      mockPrismaService.queueTicket.findMany
+        .mockResolvedValueOnce([buildTicket('ticket1')])
+        .mockResolvedValueOnce([]);
+
+      const offered = await service.offerFreedSeats('slot1', mockPrismaService as never, now);
+
+      expect(mockPrismaService.queueTicket.findMany).toHaveBeenNthCalledWith(1, {
+        where: {
+          serviceId: 'service1',
+          status: QueueTicketStatus.WAITING,
+          AND: [
+            { OR: [{ slotId: null }, { slotId: 'slot1' }] },
+            { OR: [{ desiredFrom: null }, { desiredFrom: { lte: mockSlot.startAt } }] },
+            { OR: [{ desiredTo: null }, { desiredTo: { gte: mockSlot.endAt } }] },
+          ],
+        },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+        take: 1,
+      });
+      expect(mockPrismaService.queueTicket.update).toHaveBeenCalledWith({
+        where: { id: 'ticket1' },
+        data: {
+          status: QueueTicketStatus.NOTIFIED,
+          slotId: 'slot1',
+          notifiedAt: now,
+          expiresAt: new Date('2030-01-01T08:30:00.000Z'),
+        },
+      });
+      expect(offered).toHaveLength(1);
+      expect(mockNotifications.queueTicketNotified).toHaveBeenCalledWith(
+        {
+          ticketId: 'ticket1',
+          userId: 'user-ticket1',
+          serviceId: 'service1',
+          slotId: 'slot1',
+          expiresAt: new Date('2030-01-01T08:30:00.000Z'),
+        },
+        mockPrismaService,
+      );
+    });
+
+    it('should not offer seats that are booked or already held', async () => {
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue(mockSlot);
+      mockPrismaService.appointment.count.mockResolvedValue(0);
+      mockPrismaService.queueTicket.count.mockResolvedValue(1);
+
+      const offered = await service.offerFreedSeats('slot1', mockPrismaService as never, now);
+
+      expect(offered).toEqual([]);
+      expect(mockPrismaService.queueTicket.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should not offer seats held in the booking wizard', async () => {
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue(mockSlot);
+      mockPrismaService.appointment.count.mockResolvedValue(0);
+      mockPrismaService.queueTicket.count.mockResolvedValue(0);
+      mockPrismaService.slotHold.count.mockResolvedValue(1);
+
+      const offered = await service.offerFreedSeats('slot1', mockPrismaService as never, now);
+
+      expect(offered).toEqual([]);
+      expect(mockPrismaService.slotHold.count).toHaveBeenCalledWith({
+        where: { slotId: 'slot1', expiresAt: { gt: now } },
+      });
+      expect(mockPrismaService.queueTicket.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should end the hold at the booking cutoff of the slot', async () => {
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue({
+        ...mockSlot,
+        startAt: new Date('2030-01-01T08:30:00.000Z'),
+        bufferBeforeMinutes: 15,
+      });
+      mockPrismaService.appointment.count.mockResolvedValue(0);
+      mockPrismaService.queueTicket.count.mockResolvedValue(0);
+      mockPrismaService.queueTicket.findMany
+        .mockResolvedValueOnce([buildTicket('ticket1')])
+        .mockResolvedValueOnce([]);
+
+      const [offer] = await service.offerFreedSeats('slot1', mockPrismaService as never, now);
+
+      expect(offer.expiresAt).toEqual(new Date('2030-01-01T08:15:00.000Z'));
+    });
+
+    it('should skip slots past their booking cutoff', async () => {
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue({
+        ...mockSlot,
+        startAt: new Date('2030-01-01T08:10:00.000Z'),
+        bufferBeforeMinutes: 15,
+      });
+
+      await expect(
+        service.offerFreedSeats('slot1', mockPrismaService as never, now),
+      ).resolves.toEqual([]);
+      expect(mockPrismaService.appointment.count).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseExpiredHolds', () => {
+    it('should expire lapsed holds and pass the seat to the next ticket', async () => {
+      const lapsed = buildTicket('ticket1', {
+        slotId: 'slot1',
+        status: QueueTicketStatus.NOTIFIED,
+        expiresAt: new Date('2030-01-01T07:59:00.000Z'),
+      });
+      mockPrismaService.queueTicket.findMany
+        .mockResolvedValueOnce([lapsed])
+        .mockResolvedValueOnce([buildTicket('ticket2', { position: 1 })])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([]);
+      mockPrismaService.queueTicket.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.appointmentSlot.findUnique.mockResolvedValue(mockSlot);
+      mockPrismaService.appointment.count.mockResolvedValue(0);
+      mockPrismaService.queueTicket.count.mockResolvedValue(0);
+
+      const result = await service.releaseExpiredHolds({}, now);
+
+      expect(mockPrismaService.queueTicket.updateMany).toHaveBeenCalledWith({
+        where: { id: 'ticket1', status: QueueTicketStatus.NOTIFIED },
+        data: { status: QueueTicketStatus.EXPIRED },
+      });
+      expect(mockPrismaService.queueTicketStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          ticketId: 'ticket1',
+          fromStatus: QueueTicketStatus.NOTIFIED,
+          toStatus: QueueTicketStatus.EXPIRED,
+        }),
+      });
+      expect(result.expired.map((ticket) => ticket.id)).toEqual(['ticket1']);
+      expect(result.offered.map((ticket) => ticket.id)).toEqual(['ticket2']);
+      expect(mockNotifications.queueTicketUpdated).toHaveBeenCalledWith(
+        expect.objectContaining({ ticketId: 'ticket1', status: QueueTicketStatus.EXPIRED }),
+        mockPrismaService,
+      );
+      expect(mockNotifications.queueTicketNotified).toHaveBeenCalledWith(
+        expect.objectContaining({ ticketId: 'ticket2', slotId: 'slot1' }),
+        mockPrismaService,
+      );
+      expect(mockQueueBoard.publish).toHaveBeenCalledTimes(1);
+      expect(mockQueueBoard.publish).toHaveBeenCalledWith('service1');
+    });
+
+    it('should do nothing when no hold has lapsed', async () => {
+      mockPrismaService.queueTicket.findMany.mockResolvedValueOnce([]);
+
+      const result = await service.releaseExpiredHolds({ serviceId: 'service1' }, now);
+
+      expect(result).toEqual({ expired: [], offered: [] });
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+      expect(mockQueueBoard.publish).not.toHaveBeenCalled();
+    });
+  });
+});
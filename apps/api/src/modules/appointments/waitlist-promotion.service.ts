@@ -0,0 +1,277 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DateTime } from 'luxon';
+
+import { AppointmentNotificationsService } from '@modules/appointments/appointment-notifications.service';
+import { QueueBoardService } from '@modules/appointments/queue-board.service';
+import {
+  AppointmentSlotStatus,
+  AppointmentStatus,
+  Prisma,
+  QueueTicket,
+  QueueTicketStatus,
+} from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+export const QUEUE_HOLD_MINUTES = 30;
+
+export interface ExpiredHoldsResult {
+  expired: QueueTicket[];
+  offered: QueueTicket[];
+}
+
+@Injectable()
+export class WaitlistPromotionService {
+  private readonly logger = new Logger(WaitlistPromotionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notifications: AppointmentNotificationsService,
+    private readonly queueBoard: QueueBoardService,
+  ) {}
+
+  /**
+   * Refreshes the waiting-room boards of the given services once the
+   * transaction that promoted or expired their tickets has committed.
+   */
+  publishBoards(serviceIds: Iterable<string>): void {
+    for (const serviceId of new Set(serviceIds)) {
+      this.queueBoard.publish(serviceId);
+    }
+  }
+
+  /**
+   * Counts the seats of a slot held for NOTIFIED tickets whose hold has not
+   * lapsed yet. Those seats are not bookable by anyone but the ticket owner.
+   */
+  async countActiveHolds(
+    slotId: string,
+    client: Prisma.TransactionClient = this.prisma,
+    excludeTicketId?: string,
+    now: Date = new Date(),
+  ): Promise<number> {
+    return client.queueTicket.count({
+      where: {
+        slotId,
+        status: QueueTicketStatus.NOTIFIED,
+        expiresAt: { gt: now },
+        ...(excludeTicketId ? { id: { not: excludeTicketId } } : {}),
+      },
+    });
+  }
+
+  /**
+   * Offers every unclaimed seat of a slot to the next eligible WAITING
+   * tickets, in queue order. A ticket is eligible when it targets the slot's
+   * service, is not pinned to another slot and its desired window contains
+   * the slot. Offered tickets move to NOTIFIED and hold the seat until
+   * `expiresAt`. Their notifications go through the same client, so they are
+   * only published if the caller's transaction commits; the caller refreshes
+   * the boards with `publishBoards` afterwards.
+   */
+  async offerFreedSeats(
+    slotId: string,
+    client: Prisma.TransactionClient = this.prisma,
+    now: Date = new Date(),
+  ): Promise<QueueTicket[]> {
+    const slot = await client.appointmentSlot.findUnique({ where: { id: slotId } });
+
+    if (!slot || slot.status === AppointmentSlotStatus.CANCELLED) {
+      return [];
+    }
+
+    const bookingCutoff = DateTime.fromJSDate(slot.startAt).minus({
+      minutes: slot.bufferBeforeMinutes,
+    });
+
+    if (bookingCutoff.toJSDate() <= now) {
+      return [];
+    }
+
+    // Seats held in the booking wizard are not offered until they are released.
+    const [activeCount, heldCount, slotHoldCount] = await Promise.all([
+      client.appointment.count({
+        where: {
+          slotId,
+          status: { not: AppointmentStatus.CANCELLED },
+        },
+      }),
+      this.countActiveHolds(slotId, client, undefined, now),
+      client.slotHold.count({ where: { slotId, expiresAt: { gt: now } } }),
+    ]);
+
+    const freeSeats = slot.capacity - activeCount - heldCount - slotHoldCount;
+
+    if (freeSeats <= 0) {
+      return [];
+    }
+
+    const candidates = await client.queueTicket.findMany({
+      where: {
+        serviceId: slot.serviceId,
+        status: QueueTicketStatus.WAITING,
+        AND: [
+          { OR: [{ slotId: null }, { slotId }] },
+          { OR: [{ desiredFrom: null }, { desiredFrom: { lte: slot.startAt } }] },
+          { OR: [{ desiredTo: null }, { desiredTo: { gte: slot.endAt } }] },
+        ],
+      },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      take: freeSeats,
+    });
+
+    if (!candidates.length) {
+      return [];
+    }
+
+    const holdEnd = DateTime.fromJSDate(now).plus({ minutes: QUEUE_HOLD_MINUTES });
+    const expiresAt = (holdEnd < bookingCutoff ? holdEnd : bookingCutoff).toJSDate();
+
+    const offered: QueueTicket[] = [];
+    for (const candidate of candidates) {
+      const ticket = await client.queueTicket.update({
+        where: { id: candidate.id },
+        data: {
+          status: QueueTicketStatus.NOTIFIED,
+          slotId,
+          notifiedAt: now,
+          expiresAt,
+        },
+      });
+
+      await this.notifications.queueTicketNotified(
+        {
+          ticketId: ticket.id,
+          userId: ticket.userId,
+          serviceId: ticket.serviceId,
+          slotId,
+          expiresAt,
+        },
+        client,
+      );
+
+      offered.push(ticket);
+    }
+
+    await this.resequenceQueue(slot.serviceId, client);
+
+    this.logger.verbose(
+      `Offered ${offered.length} seat(s) of slot ${slotId} to queue tickets ${offered
+        .map((ticket) => ticket.id)
+        .join(', ')}`,
+    );
+
+    return offered;
+  }
+
+  /**
+   * Expires NOTIFIED tickets whose hold has lapsed, records the change in
+   * their status history, hands their seat to the next eligible ticket in line
+   * and re-sequences the affected queues.
+   */
+  async releaseExpiredHolds(
+    filter: { serviceId?: string } = {},
+    now: Date = new Date(),
+  ): Promise<ExpiredHoldsResult> {
+    const lapsed = await this.prisma.queueTicket.findMany({
+      where: {
+        status: QueueTicketStatus.NOTIFIED,
+        expiresAt: { lte: now },
+        ...(filter.serviceId ? { serviceId: filter.serviceId } : {}),
+      },
+      orderBy: { expiresAt: 'asc' },
+    });
+
+    if (!lapsed.length) {
+      return { expired: [], offered: [] };
+    }
+
+    this.logger.verbose(`Releasing ${lapsed.length} lapsed queue ticket hold(s)`);
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const expired: QueueTicket[] = [];
+      const freedSlotIds = new Set<string>();
+      const serviceIds = new Set<string>();
+
+      for (const ticket of lapsed) {
+        const { count } = await tx.queueTicket.updateMany({
+          where: { id: ticket.id, status: QueueTicketStatus.NOTIFIED },
+          data: { status: QueueTicketStatus.EXPIRED },
+        });
+
+        if (!count) {
+          continue;
+        }
+
+        await tx.queueTicketStatusHistory.create({
+          data: {
+            ticketId: ticket.id,
+            fromStatus: QueueTicketStatus.NOTIFIED,
+            toStatus: QueueTicketStatus.EXPIRED,
+            reason: 'Seat hold expired',
+            metadata: { slotId: ticket.slotId, expiresAt: ticket.expiresAt?.toISOString() ?? null },
+          },
+        });
+
+        await this.notifications.queueTicketUpdated(
+          {
+            ticketId: ticket.id,
+            userId: ticket.userId,
+            serviceId: ticket.serviceId,
+            status: QueueTicketStatus.EXPIRED,
+          },
+          tx,
+        );
+
+        expired.push({ ...ticket, status: QueueTicketStatus.EXPIRED });
+        serviceIds.add(ticket.serviceId);
+        if (ticket.slotId) {
+          freedSlotIds.add(ticket.slotId);
+        }
+      }
+
+      const offered: QueueTicket[] = [];
+      for (const slotId of freedSlotIds) {
+        offered.push(...(await this.offerFreedSeats(slotId, tx, now)));
+      }
+
+      for (const serviceId of serviceIds) {
+        await this.resequenceQueue(serviceId, tx);
+      }
+
+      return { expired, offered };
+    });
+
+    this.publishBoards([...result.expired, ...result.offered].map((ticket) => ticket.serviceId));
+
+    return result;
+  }
+
+  async resequenceQueue(
+    serviceId: string,
+    client: Prisma.TransactionClient = this.prisma,
+    excludeTicketId?: string,
+  ): Promise<void> {
+    const waitingTickets = await client.queueTicket.findMany({
+      where: {
+        serviceId,
+        status: QueueTicketStatus.WAITING,
+        ...(excludeTicketId ? { id: { not: excludeTicketId } } : {}),
+      },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    await Promise.all(
+      waitingTickets.map((ticket, index) => {
+        const desiredPosition = index + 1;
+        if (ticket.position === desiredPosition) {
+          return Promise.resolve();
+        }
+
+        return client.queueTicket.update({
+          where: { id: ticket.id },
+          data: { position: desiredPosition },
+        });
+      }),
+    );
+  }
+}
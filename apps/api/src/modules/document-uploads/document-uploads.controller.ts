@@ -93,6 +93,7 @@ export class DocumentUploadsController {
       appointmentId: dto.appointmentId,
       templateId: dto.templateId,
       templateVersionId: dto.templateVersionId,
+      dependentId: dto.dependentId,
     });
   }
 
@@ -1,11 +1,14 @@
 import { Module } from '@nestjs/common';
 
+import { UsersModule } from '@modules/users/users.module';
+
 import { DocumentUploadsController } from './document-uploads.controller';
 import { DocumentUploadsService } from './document-uploads.service';
 import { FileStorageService } from './file-storage.service';
 import { ValidationService } from './validation.service';
 
 @Module({
+  imports: [UsersModule],
   controllers: [DocumentUploadsController],
   providers: [DocumentUploadsService, FileStorageService, ValidationService],
   exports: [DocumentUploadsService, FileStorageService, ValidationService],
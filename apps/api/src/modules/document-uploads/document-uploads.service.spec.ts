@@ -2,6 +2,7 @@ import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { DocumentUploadStatus, Prisma } from '@prisma/client';
 
+import { DependentsService } from '@modules/users/dependents.service';
 import { PrismaService } from '@prisma/prisma.service';
 
 import { CreateDocumentUploadDto } from './dto/create-document-upload.dto';
@@ -18,6 +19,7 @@ describe('DocumentUploadsService', () => {
   let prisma: jest.Mocked<PrismaService>;
   let fileStorageService: jest.Mocked<FileStorageService>;
   let validationService: jest.Mocked<ValidationService>;
+  let dependentsService: jest.Mocked<DependentsService>;
 
   const uploadId = 'upload-1';
   const userId = 'user-1';
@@ -77,6 +79,7 @@ describe('DocumentUploadsService', () => {
         findUnique: jest.fn(),
         findFirst: jest.fn(),
         update: jest.fn(),
+        updateMany: jest.fn(),
         delete: jest.fn(),
         deleteMany: jest.fn(),
       },
@@ -100,6 +103,10 @@ describe('DocumentUploadsService', () => {
       validateDocument: jest.fn(),
     } as unknown as jest.Mocked<ValidationService>;
 
+    dependentsService = {
+      findOwnedOrThrow: jest.fn(),
+    } as unknown as jest.Mocked<DependentsService>;
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         DocumentUploadsService,
@@ -115,6 +122,10 @@ describe('DocumentUploadsService', () => {
           provide: ValidationService,
           useValue: validationService,
         },
+        {
+          provide: DependentsService,
+          useValue: dependentsService,
+        },
       ],
     }).compile();
 
@@ -183,6 +194,29 @@ describe('DocumentUploadsService', () => {
       expect(validationService.validateDocument).toHaveBeenCalled();
       expect(prisma.documentUpload.update).toHaveBeenCalledTimes(3);
     });
+
+    it('should refuse dependents of other users', async () => {
+      const file = {
+        originalname: 'birth-certificate.pdf',
+        mimetype: 'application/pdf',
+        buffer: fileBuffer,
+        size: fileBuffer.byteLength,
+      } as Express.Multer.File;
+
+      (dependentsService.findOwnedOrThrow as jest.Mock).mockRejectedValue(
+        new NotFoundException('Dependent not found.'),
+      );
+
+      await expect(
+        service.createUploadForUser(userId, {
+          serviceId: 'service-1',
+          file,
+          dependentId: 'dependent-1',
+        }),
+      ).rejects.toThrow(NotFoundException);
+      expect(dependentsService.findOwnedOrThrow).toHaveBeenCalledWith(userId, 'dependent-1');
+      expect(prisma.documentUpload.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('uploadDocumentFile', () => {
@@ -234,6 +268,31 @@ describe('DocumentUploadsService', () => {
       expect(prisma.documentUpload.update).toHaveBeenCalledTimes(3);
       expect(prisma.documentUploadStatusHistory.create).toHaveBeenCalledTimes(2);
     });
+
+    it('should leave uploads with warnings pending for review', async () => {
+      (prisma.documentUpload.findUnique as jest.Mock).mockResolvedValue(mockUpload);
+      (fileStorageService.uploadFile as jest.Mock).mockResolvedValue({
+        fileId: 'file-1',
+        url: 'https://storage/file-1',
+      });
+      (validationService.validateDocument as jest.Mock).mockResolvedValue({
+        isValid: true,
+        requiresReview: true,
+        message: 'The document must remain valid for at least 90 day(s)',
+      });
+
+      const result = await service.uploadDocumentFile(uploadId, fileBuffer, 'test.pdf');
+
+      expect(result.status).toBe(DocumentUploadStatus.PENDING);
+      expect(prisma.documentUploadStatusHistory.create).toHaveBeenLastCalledWith({
+        data: {
+          uploadId,
+          fromStatus: DocumentUploadStatus.PROCESSING,
+          toStatus: DocumentUploadStatus.PENDING,
+          reason: 'The document must remain valid for at least 90 day(s)',
+        },
+      });
+    });
   });
 
   describe('getDocumentFileUrl', () => {
@@ -470,4 +529,50 @@ describe('DocumentUploadsService', () => {
       );
     });
   });
+
+  describe('expireStaleUploads', () => {
+    const now = new Date('2024-02-01T00:00:00.000Z');
+
+    it('should expire uploads past their expiry date and record history', async () => {
+      (prisma.documentUpload.findMany as jest.Mock).mockResolvedValue([
+        { id: uploadId, status: DocumentUploadStatus.VALIDATED },
+      ]);
+      (prisma.documentUpload.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const expired = await service.expireStaleUploads(now);
+
+      expect(expired).toBe(1);
+      expect(prisma.documentUpload.findMany).toHaveBeenCalledWith({
+        where: {
+          expiresAt: { lte: now },
+          status: {
+            in: [
+              DocumentUploadStatus.PENDING,
+              DocumentUploadStatus.PROCESSING,
+              DocumentUploadStatus.VALIDATED,
+            ],
+          },
+        },
+        select: { id: true, status: true },
+      });
+      expect(prisma.documentUploadStatusHistory.create).toHaveBeenCalledWith({
+        data: {
+          uploadId,
+          fromStatus: DocumentUploadStatus.VALIDATED,
+          toStatus: DocumentUploadStatus.EXPIRED,
+          reason: 'Upload expired',
+        },
+      });
+    });
+
+    it('should skip uploads whose status changed in the meantime', async () => {
+      (prisma.documentUpload.findMany as jest.Mock).mockResolvedValue([
+        { id: uploadId, status: DocumentUploadStatus.PENDING },
+      ]);
+      (prisma.documentUpload.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(service.expireStaleUploads(now)).resolves.toBe(0);
+      expect(prisma.documentUploadStatusHistory.create).not.toHaveBeenCalled();
+    });
+  });
 });
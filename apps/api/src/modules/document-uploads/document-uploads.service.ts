@@ -3,6 +3,7 @@ import { Prisma, DocumentUploadStatus, DocumentUpload } from '@prisma/client';
 import type { Express } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 
+import { DependentsService } from '@modules/users/dependents.service';
 import { PrismaService } from '@prisma/prisma.service';
 
 import { CreateDocumentUploadDto } from './dto/create-document-upload.dto';
@@ -11,6 +12,12 @@ import { UpdateDocumentUploadDto } from './dto/update-document-upload.dto';
 import { FileStorageService } from './file-storage.service';
 import { ValidationService } from './validation.service';
 
+const EXPIRABLE_UPLOAD_STATUSES: DocumentUploadStatus[] = [
+  DocumentUploadStatus.PENDING,
+  DocumentUploadStatus.PROCESSING,
+  DocumentUploadStatus.VALIDATED,
+];
+
 @Injectable()
 export class DocumentUploadsService {
   private readonly logger = new Logger(DocumentUploadsService.name);
@@ -19,6 +26,7 @@ export class DocumentUploadsService {
     private readonly prisma: PrismaService,
     private readonly fileStorageService: FileStorageService,
     private readonly validationService: ValidationService,
+    private readonly dependents: DependentsService,
   ) {}
 
   async createUploadForUser(
@@ -29,9 +37,10 @@ export class DocumentUploadsService {
       appointmentId?: string;
       templateId?: string;
       templateVersionId?: string;
+      dependentId?: string;
     },
   ): Promise<DocumentUpload> {
-    const { serviceId, file, appointmentId, templateId, templateVersionId } = params;
+    const { serviceId, file, appointmentId, templateId, templateVersionId, dependentId } = params;
 
     this.logger.verbose(
       `Creating document upload for user=${userId} service=${serviceId} filename=${file?.originalname}`,
@@ -41,11 +50,16 @@ export class DocumentUploadsService {
       throw new BadRequestException('Uploaded file is empty or missing.');
     }
 
+    if (dependentId) {
+      await this.dependents.findOwnedOrThrow(userId, dependentId);
+    }
+
     const placeholderStoragePath = `pending/${uuidv4()}`;
 
     const upload = await this.prisma.documentUpload.create({
       data: {
         userId,
+        dependentId,
         serviceId,
         appointmentId,
         templateId,
@@ -121,9 +135,11 @@ export class DocumentUploadsService {
       originalFilename: upload.originalFilename,
     });
 
-    const newStatus = validationResult.isValid
-      ? DocumentUploadStatus.VALIDATED
-      : DocumentUploadStatus.REJECTED;
+    const newStatus = !validationResult.isValid
+      ? DocumentUploadStatus.REJECTED
+      : validationResult.requiresReview
+        ? DocumentUploadStatus.PENDING
+        : DocumentUploadStatus.VALIDATED;
 
     await this.updateUploadStatus(
       uploadId,
@@ -325,6 +341,57 @@ export class DocumentUploadsService {
     }
   }
 
+  /**
+   * Moves uploads whose `expiresAt` has passed to EXPIRED and records the
+   * transition in their status history. Returns the number of uploads expired.
+   */
+  async expireStaleUploads(now: Date = new Date()): Promise<number> {
+    const staleUploads = await this.prisma.documentUpload.findMany({
+      where: {
+        expiresAt: { lte: now },
+        status: { in: EXPIRABLE_UPLOAD_STATUSES },
+      },
+      select: { id: true, status: true },
+    });
+
+    let expired = 0;
+
+    for (const upload of staleUploads) {
+      const changed = await this.prisma.$transaction(async (tx) => {
+        // Guard on the previous status so a concurrent review is not overwritten.
+        const { count } = await tx.documentUpload.updateMany({
+          where: { id: upload.id, status: upload.status },
+          data: { status: DocumentUploadStatus.EXPIRED },
+        });
+
+        if (count === 0) {
+          return false;
+        }
+
+        await tx.documentUploadStatusHistory.create({
+          data: {
+            uploadId: upload.id,
+            fromStatus: upload.status,
+            toStatus: DocumentUploadStatus.EXPIRED,
+            reason: 'Upload expired',
+          },
+        });
+
+        return true;
+      });
+
+      if (changed) {
+        expired += 1;
+      }
+    }
+
+    if (expired > 0) {
+      this.logger.log(`Expired ${expired} stale document upload(s)`);
+    }
+
+    return expired;
+  }
+
   private extractMetadata(metadata: Prisma.JsonValue | null): Prisma.JsonObject {
     if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
       return { ...(metadata as Prisma.JsonObject) };
@@ -22,6 +22,11 @@ export class UploadDocumentDto {
   @IsUUID()
   templateVersionId?: string;
 
+  @ApiPropertyOptional({ description: 'The dependent of the user this document belongs to' })
+  @IsOptional()
+  @IsUUID()
+  dependentId?: string;
+
   @ApiProperty({ type: 'string', format: 'binary', description: 'The document file to upload' })
   file!: unknown;
 }
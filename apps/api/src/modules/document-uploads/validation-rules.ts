@@ -0,0 +1,265 @@
+import { Prisma, ValidationRuleType } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** What a template validation rule can inspect about an upload. */
+export interface ValidationRuleContext {
+  mimeType: string;
+  fileSize?: number;
+  originalFilename: string;
+  expiresAt: Date | null;
+  metadata: Record<string, unknown>;
+  /** Uploads the person holds for the template, this one included. */
+  uploadCount: number;
+  now: Date;
+}
+
+/**
+ * Outcome of a single rule. `satisfied` is null when the rule could not be
+ * evaluated, e.g. because its config is malformed.
+ */
+export interface ValidationRuleEvaluation {
+  satisfied: boolean | null;
+  message: string;
+  metadata?: Record<string, unknown>;
+}
+
+type RuleConfig = Record<string, unknown>;
+
+const skipped = (message: string): ValidationRuleEvaluation => ({ satisfied: null, message });
+
+const toConfig = (config: Prisma.JsonValue): RuleConfig =>
+  config && typeof config === 'object' && !Array.isArray(config) ? (config as RuleConfig) : {};
+
+const numberOf = (config: RuleConfig, key: string): number | undefined =>
+  typeof config[key] === 'number' && Number.isFinite(config[key])
+    ? (config[key] as number)
+    : undefined;
+
+const stringsOf = (config: RuleConfig, key: string): string[] | undefined =>
+  Array.isArray(config[key]) && (config[key] as unknown[]).every((item) => typeof item === 'string')
+    ? (config[key] as string[])
+    : undefined;
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const fieldValue = (context: ValidationRuleContext, field: string): unknown => {
+  switch (field) {
+    case 'originalFilename':
+      return context.originalFilename;
+    case 'mimeType':
+      return context.mimeType;
+    case 'expiresAt':
+      return context.expiresAt?.toISOString();
+    default:
+      return context.metadata[field];
+  }
+};
+
+/** `{ fields: string[] }` — upload metadata keys that must be filled in. */
+const evaluateRequired = (
+  config: RuleConfig,
+  context: ValidationRuleContext,
+): ValidationRuleEvaluation => {
+  const fields = stringsOf(config, 'fields');
+
+  if (!fields) {
+    return skipped('Rule config must list the required fields');
+  }
+
+  const missing = fields.filter((field) => isBlank(fieldValue(context, field)));
+
+  return missing.length
+    ? {
+        satisfied: false,
+        message: `Missing required field(s): ${missing.join(', ')}`,
+        metadata: { missing },
+      }
+    : { satisfied: true, message: 'All required fields are present' };
+};
+
+/** `{ mimeTypes?: string[], extensions?: string[] }`; MIME types accept `image/*` wildcards. */
+const evaluateFileType = (
+  config: RuleConfig,
+  context: ValidationRuleContext,
+): ValidationRuleEvaluation => {
+  const mimeTypes = stringsOf(config, 'mimeTypes');
+  const extensions = stringsOf(config, 'extensions');
+
+  if (!mimeTypes && !extensions) {
+    return skipped('Rule config must list MIME types or extensions');
+  }
+
+  const extension = context.originalFilename.split('.').pop()?.toLowerCase() ?? '';
+  const mimeAllowed =
+    !mimeTypes ||
+    mimeTypes.some((allowed) =>
+      allowed.endsWith('/*')
+        ? context.mimeType.startsWith(allowed.slice(0, -1))
+        : allowed === context.mimeType,
+    );
+  const extensionAllowed =
+    !extensions ||
+    extensions.some((allowed) => allowed.replace(/^\./, '').toLowerCase() === extension);
+
+  return mimeAllowed && extensionAllowed
+    ? { satisfied: true, message: 'File type is valid', metadata: { mimeType: context.mimeType } }
+    : {
+        satisfied: false,
+        message: `File type '${context.mimeType}' is not allowed`,
+        metadata: { mimeType: context.mimeType, mimeTypes, extensions },
+      };
+};
+
+/** `{ minBytes?: number, maxBytes?: number }`. */
+const evaluateFileSize = (
+  config: RuleConfig,
+  context: ValidationRuleContext,
+): ValidationRuleEvaluation => {
+  const minBytes = numberOf(config, 'minBytes');
+  const maxBytes = numberOf(config, 'maxBytes');
+
+  if (minBytes === undefined && maxBytes === undefined) {
+    return skipped('Rule config must set minBytes or maxBytes');
+  }
+
+  if (context.fileSize === undefined) {
+    return skipped('File size is unknown');
+  }
+
+  const metadata = { fileSize: context.fileSize, minBytes, maxBytes };
+
+  if (maxBytes !== undefined && context.fileSize > maxBytes) {
+    return {
+      satisfied: false,
+      message: `File size ${context.fileSize} bytes exceeds ${maxBytes} bytes`,
+      metadata,
+    };
+  }
+
+  if (minBytes !== undefined && context.fileSize < minBytes) {
+    return {
+      satisfied: false,
+      message: `File size ${context.fileSize} bytes is below ${minBytes} bytes`,
+      metadata,
+    };
+  }
+
+  return { satisfied: true, message: 'File size is within allowed limits', metadata };
+};
+
+/** `{ min?: number, max?: number }` — uploads held for the template, this one included. */
+const evaluateFileCount = (
+  config: RuleConfig,
+  context: ValidationRuleContext,
+): ValidationRuleEvaluation => {
+  const min = numberOf(config, 'min');
+  const max = numberOf(config, 'max');
+
+  if (min === undefined && max === undefined) {
+    return skipped('Rule config must set min or max');
+  }
+
+  const metadata = { uploadCount: context.uploadCount, min, max };
+
+  if (max !== undefined && context.uploadCount > max) {
+    return {
+      satisfied: false,
+      message: `At most ${max} file(s) can be uploaded for this document`,
+      metadata,
+    };
+  }
+
+  if (min !== undefined && context.uploadCount < min) {
+    return {
+      satisfied: false,
+      message: `At least ${min} file(s) must be uploaded for this document`,
+      metadata,
+    };
+  }
+
+  return { satisfied: true, message: 'File count is within allowed limits', metadata };
+};
+
+/**
+ * `{ required?: boolean, minValidDays?: number }` — the document must not be
+ * expired, and must stay valid for `minValidDays` when set. Documents without
+ * an expiry date pass unless `required` is true.
+ */
+const evaluateExpiryDate = (
+  config: RuleConfig,
+  context: ValidationRuleContext,
+): ValidationRuleEvaluation => {
+  const minValidDays = numberOf(config, 'minValidDays') ?? 0;
+
+  if (!context.expiresAt) {
+    return config.required === true
+      ? { satisfied: false, message: 'The document expiry date is missing' }
+      : { satisfied: true, message: 'The document does not expire' };
+  }
+
+  const validUntil = new Date(context.now.getTime() + minValidDays * DAY_MS);
+  const metadata = { expiresAt: context.expiresAt.toISOString(), minValidDays };
+
+  if (context.expiresAt <= context.now) {
+    return { satisfied: false, message: 'The document has expired', metadata };
+  }
+
+  if (context.expiresAt < validUntil) {
+    return {
+      satisfied: false,
+      message: `The document must remain valid for at least ${minValidDays} day(s)`,
+      metadata,
+    };
+  }
+
+  return { satisfied: true, message: 'The document is valid', metadata };
+};
+
+/** `{ field: string, pattern: string, flags?: string }` — a field must match a pattern. */
+const evaluateCustom = (
+  config: RuleConfig,
+  context: ValidationRuleContext,
+): ValidationRuleEvaluation => {
+  if (typeof config.field !== 'string' || typeof config.pattern !== 'string') {
+    return skipped('Rule config must set a field and a pattern');
+  }
+
+  let pattern: RegExp;
+
+  try {
+    pattern = new RegExp(config.pattern, typeof config.flags === 'string' ? config.flags : '');
+  } catch {
+    return skipped('Rule pattern is not a valid regular expression');
+  }
+
+  const value = fieldValue(context, config.field);
+  const metadata = { field: config.field };
+
+  return typeof value === 'string' && pattern.test(value)
+    ? { satisfied: true, message: `Field '${config.field}' is valid`, metadata }
+    : {
+        satisfied: false,
+        message: `Field '${config.field}' does not match the expected format`,
+        metadata,
+      };
+};
+
+const EVALUATORS: Record<
+  ValidationRuleType,
+  (config: RuleConfig, context: ValidationRuleContext) => ValidationRuleEvaluation
+> = {
+  [ValidationRuleType.REQUIRED]: evaluateRequired,
+  [ValidationRuleType.FILE_TYPE]: evaluateFileType,
+  [ValidationRuleType.FILE_SIZE]: evaluateFileSize,
+  [ValidationRuleType.FILE_COUNT]: evaluateFileCount,
+  [ValidationRuleType.EXPIRY_DATE]: evaluateExpiryDate,
+  [ValidationRuleType.CUSTOM]: evaluateCustom,
+};
+
+export const evaluateValidationRule = (
+  type: ValidationRuleType,
+  config: Prisma.JsonValue,
+  context: ValidationRuleContext,
+): ValidationRuleEvaluation => EVALUATORS[type](toConfig(config), context);
@@ -0,0 +1,240 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import {
+  DocumentValidationStatus,
+  ValidationRuleSeverity,
+  ValidationRuleType,
+} from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+import { ValidationService } from './validation.service';
+
+describe('ValidationService', () => {
+  let service: ValidationService;
+
+  const now = new Date('2030-01-01T09:00:00.000Z');
+  const file = {
+    mimeType: 'application/pdf',
+    fileSize: 2048,
+    originalFilename: 'passport.pdf',
+  };
+
+  const buildRule = (
+    id: string,
+    type: ValidationRuleType,
+    config: Record<string, unknown>,
+    severity: ValidationRuleSeverity = ValidationRuleSeverity.ERROR,
+  ) => ({
+    id,
+    templateVersionId: 'version1',
+    type,
+    severity,
+    config,
+    message: null,
+    isActive: true,
+    order: 0,
+  });
+
+  const mockPrismaService = {
+    documentUpload: {
+      findUnique: jest.fn(),
+      count: jest.fn(),
+    },
+    documentTemplateVersion: {
+      findFirst: jest.fn(),
+    },
+    validationRule: {
+      findMany: jest.fn(),
+    },
+    documentUploadValidation: {
+      createMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ValidationService, { provide: PrismaService, useValue: mockPrismaService }],
+    }).compile();
+
+    service = module.get<ValidationService>(ValidationService);
+
+    jest.clearAllMocks();
+    mockPrismaService.documentUpload.findUnique.mockResolvedValue({
+      userId: 'user1',
+      dependentId: null,
+      templateId: 'template1',
+      templateVersionId: 'version1',
+      expiresAt: null,
+      metadata: {},
+    });
+    mockPrismaService.validationRule.findMany.mockResolvedValue([]);
+  });
+
+  it('should only run the built-in checks for uploads without rules', async () => {
+    const result = await service.validateDocument('upload1', file, now);
+
+    expect(result.status).toBe(DocumentValidationStatus.PASSED);
+    expect(mockPrismaService.documentUploadValidation.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ ruleId: null, status: DocumentValidationStatus.PASSED }),
+        expect.objectContaining({ ruleId: null, status: DocumentValidationStatus.PASSED }),
+      ],
+    });
+  });
+
+  it('should record each rule result and reject uploads failing an ERROR rule', async () => {
+    mockPrismaService.validationRule.findMany.mockResolvedValue([
+      buildRule('type', ValidationRuleType.FILE_TYPE, { mimeTypes: ['image/*'] }),
+      buildRule('expiry', ValidationRuleType.EXPIRY_DATE, { required: false }),
+    ]);
+
+    const result = await service.validateDocument('upload1', file, now);
+
+    expect(mockPrismaService.validationRule.findMany).toHaveBeenCalledWith({
+      where: { templateVersionId: 'version1', isActive: true },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+    });
+    expect(result.isValid).toBe(false);
+    expect(result.message).toBe("File type 'application/pdf' is not allowed");
+    expect(mockPrismaService.documentUploadValidation.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ ruleId: null, status: DocumentValidationStatus.PASSED }),
+        expect.objectContaining({ ruleId: null, status: DocumentValidationStatus.PASSED }),
+        expect.objectContaining({ ruleId: 'type', status: DocumentValidationStatus.FAILED }),
+        expect.objectContaining({ ruleId: 'expiry', status: DocumentValidationStatus.PASSED }),
+      ],
+    });
+  });
+
+  it('should hold uploads failing a WARNING rule for review', async () => {
+    mockPrismaService.documentUpload.findUnique.mockResolvedValue({
+      userId: 'user1',
+      dependentId: null,
+      templateId: 'template1',
+      templateVersionId: 'version1',
+      expiresAt: new Date('2030-01-20T00:00:00.000Z'),
+      metadata: {},
+    });
+    mockPrismaService.validationRule.findMany.mockResolvedValue([
+      buildRule(
+        'expiry',
+        ValidationRuleType.EXPIRY_DATE,
+        { minValidDays: 90 },
+        ValidationRuleSeverity.WARNING,
+      ),
+    ]);
+
+    const result = await service.validateDocument('upload1', file, now);
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        isValid: true,
+        requiresReview: true,
+        status: DocumentValidationStatus.WARNING,
+        message: 'The document must remain valid for at least 90 day(s)',
+      }),
+    );
+  });
+
+  it('should only record failed INFO rules', async () => {
+    mockPrismaService.validationRule.findMany.mockResolvedValue([
+      buildRule(
+        'number',
+        ValidationRuleType.REQUIRED,
+        { fields: ['documentNumber'] },
+        ValidationRuleSeverity.INFO,
+      ),
+    ]);
+
+    const result = await service.validateDocument('upload1', file, now);
+
+    expect(result.status).toBe(DocumentValidationStatus.PASSED);
+    expect(mockPrismaService.documentUploadValidation.createMany).toHaveBeenCalledWith({
+      data: expect.arrayContaining([
+        expect.objectContaining({
+          ruleId: 'number',
+          status: DocumentValidationStatus.PASSED,
+          message: 'Missing required field(s): documentNumber',
+        }),
+      ]),
+    });
+  });
+
+  it('should keep the built-in checks when template rules are lenient or skipped', async () => {
+    mockPrismaService.validationRule.findMany.mockResolvedValue([
+      buildRule('type', ValidationRuleType.FILE_TYPE, { mimeTypes: 'not-a-list' }),
+      buildRule('size', ValidationRuleType.FILE_SIZE, { minBytes: 1 }),
+      buildRule(
+        'warning',
+        ValidationRuleType.FILE_TYPE,
+        { mimeTypes: ['application/pdf'] },
+        ValidationRuleSeverity.WARNING,
+      ),
+    ]);
+
+    const result = await service.validateDocument(
+      'upload1',
+      {
+        mimeType: 'application/x-msdownload',
+        fileSize: 50 * 1024 * 1024,
+        originalFilename: 'a.exe',
+      },
+      now,
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(mockPrismaService.documentUploadValidation.createMany).toHaveBeenCalledWith({
+      data: expect.arrayContaining([
+        expect.objectContaining({ ruleId: null, status: DocumentValidationStatus.FAILED }),
+        expect.objectContaining({ ruleId: 'type', status: DocumentValidationStatus.SKIPPED }),
+      ]),
+    });
+  });
+
+  it('should count the uploads already held for the template', async () => {
+    mockPrismaService.documentUpload.count.mockResolvedValue(3);
+    mockPrismaService.validationRule.findMany.mockResolvedValue([
+      buildRule('count', ValidationRuleType.FILE_COUNT, { max: 2 }),
+    ]);
+
+    const result = await service.validateDocument('upload1', file, now);
+
+    expect(result.isValid).toBe(false);
+    expect(mockPrismaService.documentUpload.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({ userId: 'user1', templateId: 'template1' }),
+    });
+  });
+
+  it('should skip rules whose config cannot be evaluated', async () => {
+    mockPrismaService.validationRule.findMany.mockResolvedValue([
+      buildRule('custom', ValidationRuleType.CUSTOM, { field: 'documentNumber', pattern: '(' }),
+    ]);
+
+    const result = await service.validateDocument('upload1', file, now);
+
+    expect(result.isValid).toBe(true);
+    expect(mockPrismaService.documentUploadValidation.createMany).toHaveBeenCalledWith({
+      data: expect.arrayContaining([
+        expect.objectContaining({ ruleId: 'custom', status: DocumentValidationStatus.SKIPPED }),
+      ]),
+    });
+  });
+
+  it('should use the active version of the template when the upload names none', async () => {
+    mockPrismaService.documentUpload.findUnique.mockResolvedValue({
+      userId: 'user1',
+      dependentId: null,
+      templateId: 'template1',
+      templateVersionId: null,
+      expiresAt: null,
+      metadata: {},
+    });
+    mockPrismaService.documentTemplateVersion.findFirst.mockResolvedValue({ id: 'version2' });
+
+    await service.validateDocument('upload1', file, now);
+
+    expect(mockPrismaService.validationRule.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { templateVersionId: 'version2', isActive: true } }),
+    );
+  });
+});
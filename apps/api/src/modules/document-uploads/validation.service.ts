@@ -1,13 +1,28 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { DocumentValidationStatus, Prisma } from '@prisma/client';
+import {
+  DocumentTemplateVersionStatus,
+  DocumentUpload,
+  DocumentUploadStatus,
+  DocumentValidationStatus,
+  Prisma,
+  ValidationRule,
+  ValidationRuleSeverity,
+  ValidationRuleType,
+} from '@prisma/client';
 
 import { PrismaService } from '@prisma/prisma.service';
 
+import { ValidationRuleContext, evaluateValidationRule } from './validation-rules';
+
 export interface ValidationResult {
   isValid: boolean;
   status: DocumentValidationStatus;
   message?: string;
   metadata?: Record<string, unknown>;
+  /** Template rule that produced the result; empty for the built-in checks. */
+  ruleId?: string | null;
+  /** Set when WARNING rules failed: the upload waits for a reviewer instead of being validated. */
+  requiresReview?: boolean;
 }
 
 export interface FileMetadata {
@@ -16,6 +31,28 @@ export interface FileMetadata {
   originalFilename: string;
 }
 
+/**
+ * How a failed rule affects the upload: ERROR rejects it, WARNING holds it
+ * for review and INFO is only recorded.
+ */
+const FAILED_RULE_STATUSES: Record<ValidationRuleSeverity, DocumentValidationStatus> = {
+  [ValidationRuleSeverity.ERROR]: DocumentValidationStatus.FAILED,
+  [ValidationRuleSeverity.WARNING]: DocumentValidationStatus.WARNING,
+  [ValidationRuleSeverity.INFO]: DocumentValidationStatus.PASSED,
+};
+
+/** Uploads that no longer count towards the FILE_COUNT rules of their template. */
+const DISCARDED_UPLOAD_STATUSES: DocumentUploadStatus[] = [
+  DocumentUploadStatus.REJECTED,
+  DocumentUploadStatus.CANCELLED,
+  DocumentUploadStatus.EXPIRED,
+];
+
+type ValidatedUpload = Pick<
+  DocumentUpload,
+  'userId' | 'dependentId' | 'templateId' | 'templateVersionId' | 'expiresAt' | 'metadata'
+>;
+
 @Injectable()
 export class ValidationService {
   private readonly logger = new Logger(ValidationService.name);
@@ -35,22 +72,62 @@ export class ValidationService {
 
   constructor(private readonly prisma: PrismaService) {}
 
-  async validateDocument(uploadId: string, fileMetadata: FileMetadata): Promise<ValidationResult> {
+  /**
+   * Runs the built-in type and size checks, then the active rules of the
+   * upload's template version in order. The built-in checks are a floor:
+   * template rules can only narrow what they accept.
+   */
+  async validateDocument(
+    uploadId: string,
+    fileMetadata: FileMetadata,
+    now: Date = new Date(),
+  ): Promise<ValidationResult> {
     this.logger.verbose(`Validating document upload ${uploadId}`);
 
-    const validations: ValidationResult[] = [];
+    const upload = await this.prisma.documentUpload.findUnique({
+      where: { id: uploadId },
+      select: {
+        userId: true,
+        dependentId: true,
+        templateId: true,
+        templateVersionId: true,
+        expiresAt: true,
+        metadata: true,
+      },
+    });
+    const rules = upload ? await this.loadRules(upload) : [];
+    const hasRule = (type: ValidationRuleType) => rules.some((rule) => rule.type === type);
 
-    validations.push(this.validateFileType(fileMetadata.mimeType));
+    const validations: ValidationResult[] = [this.validateFileType(fileMetadata.mimeType)];
 
     if (fileMetadata.fileSize !== undefined) {
       validations.push(this.validateFileSize(fileMetadata.fileSize));
     }
 
+    if (upload && rules.length > 0) {
+      const context: ValidationRuleContext = {
+        ...fileMetadata,
+        expiresAt: upload.expiresAt,
+        metadata:
+          upload.metadata && typeof upload.metadata === 'object' && !Array.isArray(upload.metadata)
+            ? (upload.metadata as Record<string, unknown>)
+            : {},
+        uploadCount: hasRule(ValidationRuleType.FILE_COUNT)
+          ? await this.countTemplateUploads(upload)
+          : 1,
+        now,
+      };
+
+      for (const rule of rules) {
+        validations.push(this.executeRule(rule, context));
+      }
+    }
+
     const failedValidations = validations.filter(
       (v) => v.status === DocumentValidationStatus.FAILED,
     );
 
-    const hasWarnings = validations.some((v) => v.status === DocumentValidationStatus.WARNING);
+    const warnings = validations.filter((v) => v.status === DocumentValidationStatus.WARNING);
 
     let overallResult: ValidationResult;
 
@@ -64,13 +141,14 @@ export class ValidationService {
           totalValidations: validations.length,
         },
       };
-    } else if (hasWarnings) {
+    } else if (warnings.length > 0) {
       overallResult = {
         isValid: true,
+        requiresReview: true,
         status: DocumentValidationStatus.WARNING,
-        message: 'Document passed validation with warnings',
+        message: warnings.map((v) => v.message).join('; '),
         metadata: {
-          warnings: validations.filter((v) => v.status === DocumentValidationStatus.WARNING).length,
+          warnings: warnings.length,
           totalValidations: validations.length,
         },
       };
@@ -90,6 +168,67 @@ export class ValidationService {
     return overallResult;
   }
 
+  private async loadRules(upload: ValidatedUpload): Promise<ValidationRule[]> {
+    let templateVersionId = upload.templateVersionId;
+
+    if (!templateVersionId && upload.templateId) {
+      const version = await this.prisma.documentTemplateVersion.findFirst({
+        where: { templateId: upload.templateId, status: DocumentTemplateVersionStatus.ACTIVE },
+        orderBy: { versionNumber: 'desc' },
+        select: { id: true },
+      });
+      templateVersionId = version?.id ?? null;
+    }
+
+    if (!templateVersionId) {
+      return [];
+    }
+
+    return this.prisma.validationRule.findMany({
+      where: { templateVersionId, isActive: true },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  private async countTemplateUploads(upload: ValidatedUpload): Promise<number> {
+    if (!upload.templateId) {
+      return 1;
+    }
+
+    return this.prisma.documentUpload.count({
+      where: {
+        userId: upload.userId,
+        dependentId: upload.dependentId,
+        templateId: upload.templateId,
+        status: { notIn: DISCARDED_UPLOAD_STATUSES },
+      },
+    });
+  }
+
+  private executeRule(rule: ValidationRule, context: ValidationRuleContext): ValidationResult {
+    const evaluation = evaluateValidationRule(rule.type, rule.config, context);
+    const status =
+      evaluation.satisfied === null
+        ? DocumentValidationStatus.SKIPPED
+        : evaluation.satisfied
+          ? DocumentValidationStatus.PASSED
+          : FAILED_RULE_STATUSES[rule.severity];
+
+    return {
+      isValid: status !== DocumentValidationStatus.FAILED,
+      status,
+      message:
+        evaluation.satisfied === false ? (rule.message ?? evaluation.message) : evaluation.message,
+      metadata: {
+        ...evaluation.metadata,
+        ruleType: rule.type,
+        severity: rule.severity,
+        satisfied: evaluation.satisfied,
+      },
+      ruleId: rule.id,
+    };
+  }
+
   private validateFileType(mimeType: string): ValidationResult {
     const isAllowed = this.allowedMimeTypes.includes(mimeType);
 
@@ -147,6 +286,7 @@ export class ValidationService {
       await this.prisma.documentUploadValidation.createMany({
         data: validations.map((validation) => ({
           uploadId,
+          ruleId: validation.ruleId ?? null,
           status: validation.status,
           message: validation.message,
           metadata: validation.metadata as Prisma.InputJsonValue,
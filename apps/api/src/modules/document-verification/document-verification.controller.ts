@@ -3,6 +3,8 @@ import {
   Body,
   Controller,
   Get,
+  HttpCode,
+  HttpStatus,
   Param,
   Post,
   Req,
@@ -46,7 +48,7 @@ export class DocumentVerificationController {
     @Body() dto: UploadDocumentVerificationDto,
     @UploadedFile() file: Express.Multer.File,
     @Req() request: Request,
-  ): DocumentVerificationResponseDto {
+  ): Promise<DocumentVerificationResponseDto> {
     if (!file) {
       throw new BadRequestException('File is required');
     }
@@ -59,6 +61,7 @@ export class DocumentVerificationController {
       dto.docType,
       metadata,
       file,
+      dto.uploadId,
     );
   }
 
@@ -69,7 +72,7 @@ export class DocumentVerificationController {
     description: 'Verification status retrieved',
     type: DocumentVerificationResponseDto,
   })
-  getStatus(@Param('id') id: string): DocumentVerificationResponseDto {
+  getStatus(@Param('id') id: string): Promise<DocumentVerificationResponseDto> {
     return this.documentVerificationService.getStatus(id);
   }
 
@@ -81,12 +84,13 @@ export class DocumentVerificationController {
     type: DocumentVerificationLogDto,
     isArray: true,
   })
-  getLogs(@Param('id') id: string): DocumentVerificationLogDto[] {
+  getLogs(@Param('id') id: string): Promise<DocumentVerificationLogDto[]> {
     return this.documentVerificationService.getLogs(id);
   }
 
   @Post(':id/review')
   @Public()
+  @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Submit a manual review decision for a verification request' })
   @ApiOkResponse({
     description: 'Manual review decision applied',
@@ -95,7 +99,7 @@ export class DocumentVerificationController {
   submitReview(
     @Param('id') id: string,
     @Body() dto: ReviewDocumentDto,
-  ): DocumentVerificationResponseDto {
+  ): Promise<DocumentVerificationResponseDto> {
     return this.documentVerificationService.submitReview(id, dto.decision, dto.reviewer, dto.notes);
   }
 
@@ -0,0 +1,290 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import type { Express } from 'express';
+
+import {
+  DocumentVerificationLogLevel,
+  DocumentVerificationStage,
+  DocumentVerificationState,
+} from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
+
+import { DocumentVerificationStatus } from './document-verification.constants';
+import { DocumentVerificationService } from './document-verification.service';
+import { ReviewDecision } from './dto/review-document.dto';
+import { PrivacyService } from './privacy.service';
+import { RateLimiterService } from './rate-limiter.service';
+import { RulesEngineService } from './rules-engine.service';
+import { DocumentScannerService } from './scanning.service';
+
+describe('DocumentVerificationService', () => {
+  let service: DocumentVerificationService;
+
+  const now = new Date('2030-01-01T09:00:00.000Z');
+  const file = {
+    buffer: Buffer.from('%PDF-1.4'),
+    originalname: 'passport.pdf',
+    mimetype: 'application/pdf',
+  } as Express.Multer.File;
+
+  const storedVerification = (overrides = {}) => ({
+    id: 'verification1',
+    uploadId: null,
+    docType: 'passport',
+    originalFilename: 'passport.pdf',
+    mimeType: 'application/pdf',
+    fileSize: 8,
+    fileChecksum: 'checksum',
+    status: DocumentVerificationState.APPROVED,
+    reasons: [],
+    warnings: [],
+    metadata: { number: 'P12***' },
+    reviewedBy: null,
+    reviewedAt: null,
+    reviewNotes: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  });
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    documentUpload: {
+      findUnique: jest.fn(),
+    },
+    documentVerification: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    documentVerificationLog: {
+      findFirst: jest.fn(),
+    },
+  };
+
+  const mockScanner = {
+    scanForViruses: jest.fn(),
+    analyzeWithAi: jest.fn(),
+  };
+
+  const mockRulesEngine = {
+    evaluate: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentVerificationService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: DocumentScannerService, useValue: mockScanner },
+        { provide: RulesEngineService, useValue: mockRulesEngine },
+        { provide: PrivacyService, useValue: { sanitizeMetadata: () => ({ number: 'P12***' }) } },
+        { provide: RateLimiterService, useValue: { assertWithinLimit: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<DocumentVerificationService>(DocumentVerificationService);
+
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation((callback) => callback(mockPrismaService));
+    mockPrismaService.documentVerification.create.mockImplementation(({ data }) =>
+      Promise.resolve(
+        storedVerification({ id: data.id, uploadId: data.uploadId, status: data.status }),
+      ),
+    );
+    mockScanner.scanForViruses.mockReturnValue({ passed: true, message: 'No threats detected' });
+    mockScanner.analyzeWithAi.mockReturnValue({
+      verdict: 'approved',
+      message: 'Document looks authentic',
+      confidence: 0.98,
+    });
+    mockRulesEngine.evaluate.mockReturnValue({ isValid: true, reasons: [], warnings: [] });
+  });
+
+  describe('uploadDocument', () => {
+    it('should persist the record with its stage results, logs and sanitized metadata', async () => {
+      const result = await service.uploadDocument('key', 'Passport', { number: 'P1234567' }, file);
+
+      const { data } = mockPrismaService.documentVerification.create.mock.calls[0][0];
+      expect(data).toEqual(
+        expect.objectContaining({
+          docType: 'passport',
+          status: DocumentVerificationState.APPROVED,
+          metadata: { number: 'P12***' },
+        }),
+      );
+      expect(data.stageResults.create.map((stage: { stage: string }) => stage.stage)).toEqual([
+        DocumentVerificationStage.ANTIVIRUS,
+        DocumentVerificationStage.AI,
+        DocumentVerificationStage.RULES,
+      ]);
+      expect(data.logs.create.map((entry: { sequence: number }) => entry.sequence)).toEqual([
+        0, 1, 2, 3, 4,
+      ]);
+      expect(result.status).toBe(DocumentVerificationStatus.APPROVED);
+    });
+
+    it('should write the stage results and logs as nested rows', async () => {
+      mockRulesEngine.evaluate.mockReturnValue({
+        isValid: false,
+        reasons: ['Document has expired'],
+        warnings: [],
+      });
+
+      await service.uploadDocument('key', 'passport', { number: 'P1234567' }, file);
+
+      const { data } = mockPrismaService.documentVerification.create.mock.calls[0][0];
+      expect(data.stageResults.create).toEqual([
+        {
+          stage: DocumentVerificationStage.ANTIVIRUS,
+          passed: true,
+          message: 'No threats detected',
+          details: { reason: undefined },
+        },
+        expect.objectContaining({
+          stage: DocumentVerificationStage.AI,
+          passed: true,
+          details: expect.objectContaining({ verdict: 'approved', confidence: 0.98 }),
+        }),
+        {
+          stage: DocumentVerificationStage.RULES,
+          passed: false,
+          message: 'Document rejected by business rules validation',
+          details: { reasons: ['Document has expired'], warnings: [] },
+        },
+      ]);
+      expect(data.logs.create[data.logs.create.length - 1]).toEqual({
+        sequence: data.logs.create.length - 1,
+        stage: 'rules',
+        severity: DocumentVerificationLogLevel.ERROR,
+        message: 'Document rejected by business rules validation',
+        metadata: { reasons: ['Document has expired'], warnings: [] },
+        createdAt: expect.any(Date),
+      });
+      expect(
+        data.logs.create.every(
+          (entry: { severity: string }) => entry.severity in DocumentVerificationLogLevel,
+        ),
+      ).toBe(true);
+    });
+
+    it('should stop after a failed antivirus scan', async () => {
+      mockScanner.scanForViruses.mockReturnValue({
+        passed: false,
+        message: 'Threat detected',
+        reason: 'EICAR signature',
+      });
+
+      const result = await service.uploadDocument('key', 'passport', {}, file);
+
+      const { data } = mockPrismaService.documentVerification.create.mock.calls[0][0];
+      expect(data.reasons).toEqual(['EICAR signature']);
+      expect(data.stageResults.create).toEqual([
+        expect.objectContaining({ stage: DocumentVerificationStage.ANTIVIRUS, passed: false }),
+      ]);
+      expect(mockScanner.analyzeWithAi).not.toHaveBeenCalled();
+      expect(result.status).toBe(DocumentVerificationStatus.REJECTED);
+    });
+
+    it('should link the verification to an existing document upload', async () => {
+      mockPrismaService.documentUpload.findUnique.mockResolvedValue({ id: 'upload1' });
+
+      const result = await service.uploadDocument('key', 'passport', {}, file, 'upload1');
+
+      expect(result.uploadId).toBe('upload1');
+    });
+
+    it('should throw NotFoundException for unknown document uploads', async () => {
+      mockPrismaService.documentUpload.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.uploadDocument('key', 'passport', {}, file, 'missing'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(mockPrismaService.documentVerification.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLogs', () => {
+    it('should read the logs from the database in sequence order', async () => {
+      mockPrismaService.documentVerification.findUnique.mockResolvedValue({
+        ...storedVerification(),
+        logs: [
+          {
+            stage: 'antivirus',
+            severity: DocumentVerificationLogLevel.WARNING,
+            message: 'Suspicious macro',
+            metadata: null,
+            createdAt: now,
+          },
+        ],
+      });
+
+      await expect(service.getLogs('verification1')).resolves.toEqual([
+        {
+          timestamp: now.toISOString(),
+          stage: 'antivirus',
+          severity: 'warning',
+          message: 'Suspicious macro',
+          metadata: undefined,
+        },
+      ]);
+      expect(mockPrismaService.documentVerification.findUnique).toHaveBeenCalledWith({
+        where: { id: 'verification1' },
+        include: { logs: { orderBy: { sequence: 'asc' } } },
+      });
+    });
+
+    it('should throw NotFoundException for unknown verifications', async () => {
+      mockPrismaService.documentVerification.findUnique.mockResolvedValue(null);
+
+      await expect(service.getStatus('missing')).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('submitReview', () => {
+    it('should store the decision and append a review log', async () => {
+      mockPrismaService.documentVerification.findUnique.mockResolvedValue(
+        storedVerification({ status: DocumentVerificationState.MANUAL_REVIEW }),
+      );
+      mockPrismaService.documentVerificationLog.findFirst.mockResolvedValue({ sequence: 3 });
+      mockPrismaService.documentVerification.update.mockResolvedValue(
+        storedVerification({ status: DocumentVerificationState.REJECTED }),
+      );
+
+      const result = await service.submitReview(
+        'verification1',
+        ReviewDecision.REJECTED,
+        'analyst',
+        'Photo does not match',
+        now,
+      );
+
+      expect(mockPrismaService.documentVerification.update).toHaveBeenCalledWith({
+        where: { id: 'verification1' },
+        data: expect.objectContaining({
+          status: DocumentVerificationState.REJECTED,
+          reasons: ['Photo does not match'],
+          reviewedBy: 'analyst',
+          reviewedAt: now,
+          logs: {
+            create: expect.objectContaining({
+              sequence: 4,
+              stage: 'manual-review',
+              message: 'Document rejected by reviewer',
+            }),
+          },
+        }),
+      });
+      expect(result.status).toBe(DocumentVerificationStatus.REJECTED);
+    });
+
+    it('should refuse documents that are not awaiting review', async () => {
+      mockPrismaService.documentVerification.findUnique.mockResolvedValue(storedVerification());
+
+      await expect(
+        service.submitReview('verification1', ReviewDecision.APPROVED, 'analyst'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockPrismaService.documentVerification.update).not.toHaveBeenCalled();
+    });
+  });
+});
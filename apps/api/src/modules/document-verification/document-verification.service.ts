@@ -1,8 +1,16 @@
-import { createHash } from 'crypto';
+import { createHash, randomUUID } from 'crypto';
 
 import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import type { Express } from 'express';
-import { v4 as uuidv4 } from 'uuid';
+
+import {
+  DocumentVerification,
+  DocumentVerificationLogLevel,
+  DocumentVerificationStage,
+  DocumentVerificationState,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '@prisma/prisma.service';
 
 import {
   DocumentVerificationLogSeverity,
@@ -23,6 +31,7 @@ import { DocumentScannerService } from './scanning.service';
 
 interface DocumentVerificationResponse {
   id: string;
+  uploadId: string | null;
   docType: string;
   status: DocumentVerificationStatus;
   createdAt: string;
@@ -34,41 +43,155 @@ interface DocumentVerificationResponse {
   metadata: Record<string, unknown>;
 }
 
+/** The API exposes lowercase statuses and severities; the database stores Prisma's enums. */
+const toState = (status: DocumentVerificationStatus): DocumentVerificationState =>
+  status.toUpperCase() as DocumentVerificationState;
+
+const toStatus = (state: DocumentVerificationState): DocumentVerificationStatus =>
+  state.toLowerCase() as DocumentVerificationStatus;
+
+const toLogLevel = (severity: DocumentVerificationLogSeverity): DocumentVerificationLogLevel =>
+  severity.toUpperCase() as DocumentVerificationLogLevel;
+
+const toSeverity = (level: DocumentVerificationLogLevel): DocumentVerificationLogSeverity =>
+  level.toLowerCase() as DocumentVerificationLogSeverity;
+
+/**
+ * Runs uploaded documents through antivirus, AI heuristics and business rules.
+ * The pipeline works on an in-memory record which is persisted, with its
+ * stage results and logs, once a verdict is reached.
+ */
 @Injectable()
 export class DocumentVerificationService {
   private readonly logger = new Logger(DocumentVerificationService.name);
-  private readonly records = new Map<string, DocumentVerificationRecord>();
 
   constructor(
+    private readonly prisma: PrismaService,
     private readonly scanner: DocumentScannerService,
     private readonly rulesEngine: RulesEngineService,
     private readonly privacyService: PrivacyService,
     private readonly rateLimiter: RateLimiterService,
   ) {}
 
-  uploadDocument(
+  async uploadDocument(
     rateLimitKey: string,
     docType: string,
     metadata: Record<string, unknown>,
     file: Express.Multer.File,
-  ): DocumentVerificationResponse {
+    uploadId?: string,
+  ): Promise<DocumentVerificationResponse> {
     this.rateLimiter.assertWithinLimit(rateLimitKey);
 
     if (!file || !file.buffer) {
       throw new BadRequestException('File payload is required');
     }
 
-    const record = this.createRecord(docType, metadata, file);
+    if (uploadId) {
+      await this.assertUploadExists(uploadId);
+    }
+
+    const record = this.createRecord(docType, metadata, file, uploadId ?? null);
 
     this.appendLog(record, 'upload', 'Document received for verification', {
       mimeType: record.mimeType,
       fileSize: record.fileSize,
     });
 
+    this.runPipeline(record, metadata, file);
+
+    return this.toResponse(await this.persist(record));
+  }
+
+  async getStatus(id: string): Promise<DocumentVerificationResponse> {
+    const verification = await this.prisma.documentVerification.findUnique({ where: { id } });
+
+    if (!verification) {
+      throw this.notFound(id);
+    }
+
+    return this.toResponse(verification);
+  }
+
+  async getLogs(id: string): Promise<DocumentVerificationLogEntry[]> {
+    const verification = await this.prisma.documentVerification.findUnique({
+      where: { id },
+      include: { logs: { orderBy: { sequence: 'asc' } } },
+    });
+
+    if (!verification) {
+      throw this.notFound(id);
+    }
+
+    return verification.logs.map((entry) => ({
+      timestamp: entry.createdAt.toISOString(),
+      stage: entry.stage,
+      severity: toSeverity(entry.severity),
+      message: entry.message,
+      metadata: (entry.metadata as Record<string, unknown> | null) ?? undefined,
+    }));
+  }
+
+  async submitReview(
+    id: string,
+    decision: ReviewDecision,
+    reviewer: string,
+    notes?: string,
+    now: Date = new Date(),
+  ): Promise<DocumentVerificationResponse> {
+    return this.prisma.$transaction(async (tx) => {
+      const verification = await tx.documentVerification.findUnique({ where: { id } });
+
+      if (!verification) {
+        throw this.notFound(id);
+      }
+
+      if (verification.status !== DocumentVerificationState.MANUAL_REVIEW) {
+        throw new BadRequestException('Document is not awaiting manual review');
+      }
+
+      const lastLog = await tx.documentVerificationLog.findFirst({
+        where: { verificationId: id },
+        orderBy: { sequence: 'desc' },
+        select: { sequence: true },
+      });
+      const approved = decision === ReviewDecision.APPROVED;
+
+      const updated = await tx.documentVerification.update({
+        where: { id },
+        data: {
+          status: approved
+            ? DocumentVerificationState.APPROVED
+            : DocumentVerificationState.REJECTED,
+          reasons: approved ? [] : notes ? [notes] : ['Rejected during manual review'],
+          reviewedBy: reviewer,
+          reviewedAt: now,
+          reviewNotes: notes ?? null,
+          logs: {
+            create: {
+              sequence: (lastLog?.sequence ?? -1) + 1,
+              stage: 'manual-review',
+              severity: DocumentVerificationLogLevel.INFO,
+              message: approved ? 'Document approved by reviewer' : 'Document rejected by reviewer',
+              metadata: { reviewer, notes } as Prisma.InputJsonValue,
+              createdAt: now,
+            },
+          },
+        },
+      });
+
+      return this.toResponse(updated);
+    });
+  }
+
+  private runPipeline(
+    record: DocumentVerificationRecord,
+    metadata: Record<string, unknown>,
+    file: Express.Multer.File,
+  ): void {
     const antivirusResult = this.scanner.scanForViruses(file.buffer);
     this.handleAntivirusResult(record, antivirusResult);
     if (record.status === DocumentVerificationStatus.REJECTED) {
-      return this.toResponse(record);
+      return;
     }
 
     const aiResult = this.scanner.analyzeWithAi(file.buffer, metadata);
@@ -79,78 +202,78 @@ export class DocumentVerificationService {
       statusAfterAi === DocumentVerificationStatus.REJECTED ||
       statusAfterAi === DocumentVerificationStatus.MANUAL_REVIEW
     ) {
-      return this.toResponse(record);
+      return;
     }
 
-    const rulesResult = this.rulesEngine.evaluate(docType, metadata);
+    const rulesResult = this.rulesEngine.evaluate(record.docType, metadata);
     this.handleRulesResult(record, rulesResult);
     if (record.status !== DocumentVerificationStatus.APPROVED) {
-      return this.toResponse(record);
+      return;
     }
 
     this.appendLog(record, 'verification', 'Document approved automatically', {
       warnings: record.warnings,
     });
-
-    return this.toResponse(record);
-  }
-
-  getStatus(id: string): DocumentVerificationResponse {
-    const record = this.getRecordOrFail(id);
-    return this.toResponse(record);
   }
 
-  getLogs(id: string): DocumentVerificationLogEntry[] {
-    const record = this.getRecordOrFail(id);
-    return record.logs.map((entry) => ({ ...entry }));
-  }
-
-  submitReview(
-    id: string,
-    decision: ReviewDecision,
-    reviewer: string,
-    notes?: string,
-  ): DocumentVerificationResponse {
-    const record = this.getRecordOrFail(id);
-
-    if (record.status !== DocumentVerificationStatus.MANUAL_REVIEW) {
-      throw new BadRequestException('Document is not awaiting manual review');
-    }
-
-    record.updatedAt = new Date();
-    record.reviewNotes = notes;
+  /** Only the sanitized metadata is stored; raw values never leave the pipeline. */
+  private async persist(record: DocumentVerificationRecord): Promise<DocumentVerification> {
+    const verification = await this.prisma.documentVerification.create({
+      data: {
+        id: record.id,
+        uploadId: record.uploadId,
+        docType: record.docType,
+        originalFilename: record.originalFilename,
+        mimeType: record.mimeType,
+        fileSize: record.fileSize,
+        fileChecksum: record.fileChecksum,
+        status: toState(record.status),
+        reasons: record.reasons,
+        warnings: record.warnings,
+        metadata: record.sanitizedMetadata as Prisma.InputJsonValue,
+        createdAt: record.createdAt,
+        stageResults: {
+          create: record.stageResults.map((result) => ({
+            stage: result.stage,
+            passed: result.passed,
+            message: result.message,
+            details: result.details as Prisma.InputJsonValue | undefined,
+          })),
+        },
+        logs: {
+          create: record.logs.map((entry, index) => ({
+            sequence: index,
+            stage: entry.stage,
+            severity: toLogLevel(entry.severity),
+            message: entry.message,
+            metadata: entry.metadata as Prisma.InputJsonValue | undefined,
+            createdAt: new Date(entry.timestamp),
+          })),
+        },
+      },
+    });
 
-    if (decision === ReviewDecision.APPROVED) {
-      record.status = DocumentVerificationStatus.APPROVED;
-      record.reasons = [];
-      this.appendLog(record, 'manual-review', 'Document approved by reviewer', {
-        reviewer,
-        notes,
-      });
-    } else {
-      record.status = DocumentVerificationStatus.REJECTED;
-      record.reasons = notes ? [notes] : ['Rejected during manual review'];
-      this.appendLog(record, 'manual-review', 'Document rejected by reviewer', {
-        reviewer,
-        notes,
-      });
-    }
+    this.logger.verbose(
+      `Stored document verification record ${record.id} (${record.docType}) for file ${record.originalFilename}`,
+    );
 
-    return this.toResponse(record);
+    return verification;
   }
 
   private createRecord(
     docType: string,
     metadata: Record<string, unknown>,
     file: Express.Multer.File,
+    uploadId: string | null,
   ): DocumentVerificationRecord {
     const now = new Date();
-    const id = uuidv4();
+    const id = randomUUID();
     const checksum = createHash('sha256').update(file.buffer).digest('hex');
     const normalizedDocType = docType?.trim().toLowerCase() ?? docType;
 
     const record: DocumentVerificationRecord = {
       id,
+      uploadId,
       docType: normalizedDocType,
       originalFilename: file.originalname ?? 'document',
       mimeType: file.mimetype ?? 'application/octet-stream',
@@ -163,18 +286,20 @@ export class DocumentVerificationService {
       warnings: [],
       metadata: { ...metadata },
       sanitizedMetadata: this.privacyService.sanitizeMetadata(metadata),
+      stageResults: [],
       logs: [],
     };
 
-    this.records.set(id, record);
-    this.logger.verbose(
-      `Stored document verification record ${id} (${docType}) for file ${record.originalFilename}`,
-    );
-
     return record;
   }
 
   private handleAntivirusResult(record: DocumentVerificationRecord, result: ScanStageResult): void {
+    record.stageResults.push({
+      stage: DocumentVerificationStage.ANTIVIRUS,
+      passed: result.passed,
+      message: result.message,
+      details: { reason: result.reason },
+    });
     this.appendLog(record, 'antivirus', result.message, {
       passed: result.passed,
     });
@@ -198,6 +323,13 @@ export class DocumentVerificationService {
   }
 
   private handleAiResult(record: DocumentVerificationRecord, result: AiScanResult): void {
+    record.stageResults.push({
+      stage: DocumentVerificationStage.AI,
+      passed: result.verdict === 'approved',
+      message: result.message,
+      details: { verdict: result.verdict, confidence: result.confidence, reason: result.reason },
+    });
+
     const severity =
       result.verdict === 'approved'
         ? DocumentVerificationLogSeverity.INFO
@@ -236,6 +368,15 @@ export class DocumentVerificationService {
     record: DocumentVerificationRecord,
     result: RulesEvaluationResult,
   ): void {
+    record.stageResults.push({
+      stage: DocumentVerificationStage.RULES,
+      passed: result.isValid,
+      message: result.isValid
+        ? 'Document passed business rules validation'
+        : 'Document rejected by business rules validation',
+      details: { reasons: result.reasons, warnings: result.warnings },
+    });
+
     if (result.isValid) {
       record.status = DocumentVerificationStatus.APPROVED;
       record.warnings = result.warnings;
@@ -280,27 +421,34 @@ export class DocumentVerificationService {
     record.logs.push(logEntry);
   }
 
-  private getRecordOrFail(id: string): DocumentVerificationRecord {
-    const record = this.records.get(id);
-    if (!record) {
-      throw new NotFoundException(`Document verification request ${id} not found`);
+  private async assertUploadExists(uploadId: string): Promise<void> {
+    const upload = await this.prisma.documentUpload.findUnique({
+      where: { id: uploadId },
+      select: { id: true },
+    });
+
+    if (!upload) {
+      throw new NotFoundException(`Document upload ${uploadId} not found`);
     }
+  }
 
-    return record;
+  private notFound(id: string): NotFoundException {
+    return new NotFoundException(`Document verification request ${id} not found`);
   }
 
-  private toResponse(record: DocumentVerificationRecord): DocumentVerificationResponse {
+  private toResponse(verification: DocumentVerification): DocumentVerificationResponse {
     return {
-      id: record.id,
-      docType: record.docType,
-      status: record.status,
-      createdAt: record.createdAt.toISOString(),
-      updatedAt: record.updatedAt.toISOString(),
-      originalFilename: record.originalFilename,
-      fileSize: record.fileSize,
-      reasons: [...record.reasons],
-      warnings: [...record.warnings],
-      metadata: { ...record.sanitizedMetadata },
+      id: verification.id,
+      uploadId: verification.uploadId,
+      docType: verification.docType,
+      status: toStatus(verification.status),
+      createdAt: verification.createdAt.toISOString(),
+      updatedAt: verification.updatedAt.toISOString(),
+      originalFilename: verification.originalFilename,
+      fileSize: verification.fileSize,
+      reasons: [...verification.reasons],
+      warnings: [...verification.warnings],
+      metadata: { ...(verification.metadata as Record<string, unknown>) },
     };
   }
 }
@@ -6,6 +6,13 @@ export class DocumentVerificationResponseDto {
   @ApiProperty({ description: 'Unique identifier for the verification request' })
   id!: string;
 
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'Document upload the verification was performed for, when linked',
+  })
+  uploadId!: string | null;
+
   @ApiProperty({ description: 'Document type associated with the verification request' })
   docType!: string;
 
@@ -1,9 +1,10 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
 
 export class UploadDocumentVerificationDto {
   @ApiProperty({
-    description: 'Type of the document to verify (e.g. passport, driver_license, utility_bill)',
+    description:
+      'Type of the document to verify (e.g. passport, cnibe, birth_certificate_s12, residence_certificate)',
     example: 'passport',
   })
   @IsString()
@@ -32,4 +33,12 @@ export class UploadDocumentVerificationDto {
   @IsString()
   @MaxLength(128)
   referenceId?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Document upload the verification is performed for, when applicable',
+  })
+  @IsOptional()
+  @IsUUID()
+  uploadId?: string;
 }
@@ -1,3 +1,5 @@
+import { DocumentVerificationStage } from '@prisma/client';
+
 import {
   DocumentVerificationLogSeverity,
   DocumentVerificationStatus,
@@ -5,6 +7,7 @@ import {
 
 export interface DocumentVerificationRecord {
   id: string;
+  uploadId: string | null;
   docType: string;
   originalFilename: string;
   mimeType: string;
@@ -17,8 +20,15 @@ export interface DocumentVerificationRecord {
   warnings: string[];
   metadata: Record<string, unknown>;
   sanitizedMetadata: Record<string, unknown>;
+  stageResults: DocumentVerificationStageResultEntry[];
   logs: DocumentVerificationLogEntry[];
-  reviewNotes?: string;
+}
+
+export interface DocumentVerificationStageResultEntry {
+  stage: DocumentVerificationStage;
+  passed: boolean;
+  message: string;
+  details?: Record<string, unknown>;
 }
 
 export interface DocumentVerificationLogEntry {
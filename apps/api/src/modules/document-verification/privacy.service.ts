@@ -10,6 +10,8 @@ export class PrivacyService {
     /address/i,
     /account/i,
     /identifier/i,
+    /^nin$/i,
+    /^vin$/i,
   ];
 
   sanitizeMetadata(metadata: Record<string, unknown>): Record<string, unknown> {
@@ -0,0 +1,141 @@
+import { DateTime } from 'luxon';
+
+import { RulesEngineService } from './rules-engine.service';
+
+describe('RulesEngineService', () => {
+  const service = new RulesEngineService();
+
+  const isoDate = (offset: { days?: number; years?: number }) =>
+    DateTime.utc().plus(offset).toISODate() as string;
+
+  const cnibe = (overrides: Record<string, unknown> = {}) => ({
+    nin: '109870160012345678',
+    cardNumber: '123456789',
+    lastName: 'Benali',
+    firstName: 'Amina',
+    birthDate: '1987-03-14',
+    issueDate: isoDate({ years: -2 }),
+    expirationDate: isoDate({ years: 8 }),
+    issuingWilayaCode: '16',
+    issuingCommuneCode: '1601',
+    ...overrides,
+  });
+
+  describe('cnibe', () => {
+    it('should accept a valid national ID card', () => {
+      expect(service.evaluate('cnibe', cnibe())).toEqual({
+        isValid: true,
+        reasons: [],
+        warnings: [],
+      });
+    });
+
+    it('should reject malformed NINs and validity windows longer than 10 years', () => {
+      const result = service.evaluate(
+        'cnibe',
+        cnibe({
+          nin: '12345',
+          issueDate: isoDate({ years: -2 }),
+          expirationDate: isoDate({ years: 9 }),
+        }),
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.reasons).toEqual([
+        'NIN must be 18 digits',
+        'CNIBE cannot be valid for more than 10 years',
+      ]);
+    });
+
+    it('should reject commune codes outside the issuing wilaya', () => {
+      const result = service.evaluate('cnibe', cnibe({ issuingCommuneCode: '3101' }));
+
+      expect(result.reasons).toEqual(['issuingCommuneCode does not belong to wilaya 16']);
+    });
+
+    it('should accept wilaya codes up to the last wilaya only', () => {
+      expect(
+        service.evaluate('cnibe', cnibe({ issuingWilayaCode: '58', issuingCommuneCode: '5801' }))
+          .isValid,
+      ).toBe(true);
+      expect(
+        service.evaluate('cnibe', cnibe({ issuingWilayaCode: '59', issuingCommuneCode: '5901' }))
+          .reasons,
+      ).toEqual([
+        'Issuing wilaya must be a two-digit wilaya code',
+        'issuingCommuneCode must be a four-digit commune code',
+      ]);
+      expect(
+        service.evaluate('cnibe', cnibe({ issuingWilayaCode: '00', issuingCommuneCode: '0001' }))
+          .isValid,
+      ).toBe(false);
+    });
+
+    it('should compare declared names regardless of order, case and accents', () => {
+      expect(service.evaluate('cnibe', cnibe({ declaredFullName: 'BENALI Amína' })).isValid).toBe(
+        true,
+      );
+      expect(
+        service.evaluate('cnibe', cnibe({ declaredFullName: 'Amina Benaissa' })).reasons,
+      ).toEqual(['declaredFullName does not match the first and last name on the document']);
+    });
+  });
+
+  it('should reject residence certificates older than 90 days', () => {
+    const result = service.evaluate('residence_certificate', {
+      lastName: 'Benali',
+      firstName: 'Amina',
+      address: '12 rue Didouche Mourad',
+      communeCode: '1601',
+      issueDate: isoDate({ days: -120 }),
+    });
+
+    expect(result.reasons).toEqual([
+      'Residence certificate must be issued within the last 90 days',
+    ]);
+  });
+
+  it('should only accept bulletin n°3 of the criminal record', () => {
+    const result = service.evaluate('criminal_record_b3', {
+      lastName: 'Benali',
+      firstName: 'Amina',
+      birthDate: '1987-03-14',
+      bulletinNumber: 2,
+      issueDate: isoDate({ days: -5 }),
+    });
+
+    expect(result.reasons).toEqual(['Only bulletin n°3 of the criminal record is accepted']);
+    expect(result.warnings).toEqual(['Optional field nin is missing']);
+  });
+
+  it('should check vehicle registrations against the issuing wilaya', () => {
+    const result = service.evaluate('vehicle_registration', {
+      registrationNumber: '12345 116 16',
+      vin: 'VF1RFB00X56789012',
+      lastName: 'Benali',
+      firstName: 'Amina',
+      firstRegistrationDate: '2016-06-01',
+      issuingWilayaCode: '31',
+    });
+
+    expect(result.reasons).toEqual(['Registration number does not match issuing wilaya 31']);
+  });
+
+  it('should reject registrations from a wilaya past the last one', () => {
+    const vehicle = (registrationNumber: string, issuingWilayaCode: string) => ({
+      registrationNumber,
+      vin: 'VF1RFB00X56789012',
+      lastName: 'Benali',
+      firstName: 'Amina',
+      firstRegistrationDate: '2016-06-01',
+      issuingWilayaCode,
+    });
+
+    expect(service.evaluate('vehicle_registration', vehicle('12345 116 58', '58')).isValid).toBe(
+      true,
+    );
+    expect(service.evaluate('vehicle_registration', vehicle('12345 116 59', '59')).reasons).toEqual(
+      ['Registration number must follow the serial, category-year, wilaya format'],
+    );
+  });
+});
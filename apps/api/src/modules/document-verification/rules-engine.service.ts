@@ -3,6 +3,22 @@ import { DateTime } from 'luxon';
 
 import { RulesEvaluationResult } from './interfaces/document-verification.interface';
 
+/** Numéro d'identification national, printed on the CNIBE, S12 and casier judiciaire. */
+const NIN_PATTERN = /^\d{18}$/;
+
+/** Wilayas are numbered 01 to `WILAYA_COUNT`; the patterns below capture the code as `wilaya`. */
+const WILAYA_COUNT = 58;
+
+const WILAYA_CODE_PATTERN = /^(?<wilaya>\d{2})$/;
+
+/** Commune codes are the two-digit wilaya code followed by the commune's own two digits. */
+const COMMUNE_CODE_PATTERN = /^(?<wilaya>\d{2})\d{2}$/;
+
+/** Serial, category and year of first registration, then the wilaya code, e.g. `12345 116 16`. */
+const VEHICLE_REGISTRATION_PATTERN = /^\d{5,6} ?\d{3} ?(?<wilaya>\d{2})$/;
+
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
 interface RuleContext {
   metadata: Record<string, unknown>;
 }
@@ -89,6 +105,193 @@ export class RulesEngineService {
       ],
       warnings: [({ metadata }) => this.warnIfMissing(metadata, 'customerName')],
     },
+    cnibe: {
+      requiredFields: [
+        'nin',
+        'cardNumber',
+        'lastName',
+        'firstName',
+        'birthDate',
+        'issueDate',
+        'expirationDate',
+        'issuingWilayaCode',
+      ],
+      rules: [
+        ({ metadata }) => this.assertPattern(metadata, 'nin', NIN_PATTERN, 'NIN must be 18 digits'),
+        ({ metadata }) =>
+          this.assertPattern(
+            metadata,
+            'cardNumber',
+            /^\d{9}$/,
+            'CNIBE card number must be 9 digits',
+          ),
+        ({ metadata }) =>
+          this.assertFutureDate(
+            metadata,
+            'expirationDate',
+            'CNIBE expiration date must be in the future',
+          ),
+        ({ metadata }) =>
+          this.assertValidityWindow(
+            metadata,
+            'issueDate',
+            'expirationDate',
+            10,
+            'CNIBE cannot be valid for more than 10 years',
+          ),
+        ({ metadata }) =>
+          this.assertWilayaPattern(
+            metadata,
+            'issuingWilayaCode',
+            WILAYA_CODE_PATTERN,
+            'Issuing wilaya must be a two-digit wilaya code',
+          ),
+        ({ metadata }) =>
+          this.assertCommuneCode(metadata, 'issuingCommuneCode', 'issuingWilayaCode'),
+        ({ metadata }) => this.assertNameConsistency(metadata),
+      ],
+      warnings: [({ metadata }) => this.warnIfMissing(metadata, 'issuingCommuneCode')],
+    },
+    birth_certificate_s12: {
+      requiredFields: [
+        'nin',
+        'actNumber',
+        'lastName',
+        'firstName',
+        'birthDate',
+        'birthCommuneCode',
+        'issueDate',
+      ],
+      rules: [
+        ({ metadata }) => this.assertPattern(metadata, 'nin', NIN_PATTERN, 'NIN must be 18 digits'),
+        ({ metadata }) =>
+          this.assertPattern(
+            metadata,
+            'actNumber',
+            /^\d{1,6}$/,
+            'Birth certificate act number must be 1 to 6 digits',
+          ),
+        ({ metadata }) =>
+          this.assertPastDate(metadata, 'birthDate', 'Birth date cannot be in the future'),
+        ({ metadata }) =>
+          this.assertPastDate(
+            metadata,
+            'issueDate',
+            'Birth certificate issue date cannot be in the future',
+          ),
+        ({ metadata }) => this.assertCommuneCode(metadata, 'birthCommuneCode'),
+        ({ metadata }) => this.assertNameConsistency(metadata),
+      ],
+      warnings: [
+        ({ metadata }) => this.warnIfMissing(metadata, 'fatherName'),
+        ({ metadata }) => this.warnIfMissing(metadata, 'motherName'),
+      ],
+    },
+    residence_certificate: {
+      requiredFields: ['lastName', 'firstName', 'address', 'communeCode', 'issueDate'],
+      rules: [
+        ({ metadata }) =>
+          this.assertPastDate(
+            metadata,
+            'issueDate',
+            'Residence certificate issue date cannot be in the future',
+          ),
+        ({ metadata }) =>
+          this.assertRecentDate(
+            metadata,
+            'issueDate',
+            90,
+            'Residence certificate must be issued within the last 90 days',
+          ),
+        ({ metadata }) => this.assertCommuneCode(metadata, 'communeCode'),
+        ({ metadata }) => this.assertNameConsistency(metadata),
+      ],
+      warnings: [({ metadata }) => this.warnIfMissing(metadata, 'nin')],
+    },
+    criminal_record_b3: {
+      requiredFields: ['lastName', 'firstName', 'birthDate', 'bulletinNumber', 'issueDate'],
+      rules: [
+        ({ metadata }) =>
+          String(metadata.bulletinNumber) === '3'
+            ? null
+            : 'Only bulletin n°3 of the criminal record is accepted',
+        ({ metadata }) =>
+          this.assertPastDate(
+            metadata,
+            'issueDate',
+            'Criminal record issue date cannot be in the future',
+          ),
+        ({ metadata }) =>
+          this.assertRecentDate(
+            metadata,
+            'issueDate',
+            90,
+            'Criminal record must be issued within the last 90 days',
+          ),
+        ({ metadata }) =>
+          this.hasValue(metadata, 'nin')
+            ? this.assertPattern(metadata, 'nin', NIN_PATTERN, 'NIN must be 18 digits')
+            : null,
+        ({ metadata }) => this.assertNameConsistency(metadata),
+      ],
+      warnings: [({ metadata }) => this.warnIfMissing(metadata, 'nin')],
+    },
+    chifa_card: {
+      requiredFields: ['socialSecurityNumber', 'lastName', 'firstName'],
+      rules: [
+        ({ metadata }) =>
+          this.assertPattern(
+            metadata,
+            'socialSecurityNumber',
+            /^\d{12}$/,
+            'Social security number must be 12 digits',
+          ),
+        ({ metadata }) =>
+          this.hasValue(metadata, 'rightsValidUntil')
+            ? this.assertFutureDate(
+                metadata,
+                'rightsValidUntil',
+                'Chifa card insurance rights have expired',
+              )
+            : null,
+        ({ metadata }) => this.assertNameConsistency(metadata),
+      ],
+      warnings: [({ metadata }) => this.warnIfMissing(metadata, 'rightsValidUntil')],
+    },
+    vehicle_registration: {
+      requiredFields: [
+        'registrationNumber',
+        'vin',
+        'lastName',
+        'firstName',
+        'firstRegistrationDate',
+      ],
+      rules: [
+        ({ metadata }) =>
+          this.assertWilayaPattern(
+            metadata,
+            'registrationNumber',
+            VEHICLE_REGISTRATION_PATTERN,
+            'Registration number must follow the serial, category-year, wilaya format',
+          ),
+        ({ metadata }) =>
+          this.assertPattern(
+            metadata,
+            'vin',
+            VIN_PATTERN,
+            'VIN must be 17 characters without I, O or Q',
+          ),
+        ({ metadata }) =>
+          this.assertPastDate(
+            metadata,
+            'firstRegistrationDate',
+            'First registration date cannot be in the future',
+          ),
+        ({ metadata }) => this.assertRegistrationWilaya(metadata),
+        ({ metadata }) => this.assertNameConsistency(metadata),
+      ],
+      warnings: [({ metadata }) => this.warnIfMissing(metadata, 'issuingWilayaCode')],
+    },
   };
 
   evaluate(docType: string, metadata: Record<string, unknown>): RulesEvaluationResult {
@@ -192,6 +395,139 @@ export class RulesEngineService {
     return null;
   }
 
+  private assertPastDate(
+    metadata: Record<string, unknown>,
+    field: string,
+    message: string,
+  ): string | null {
+    const date = this.parseDate(metadata, field);
+    if (!date) {
+      return `${field} must be a valid ISO date string`;
+    }
+
+    if (date.startOf('day') > DateTime.utc().startOf('day')) {
+      return message;
+    }
+
+    return null;
+  }
+
+  /** The document may not stay valid longer than `years` after it was issued. */
+  private assertValidityWindow(
+    metadata: Record<string, unknown>,
+    fromField: string,
+    toField: string,
+    years: number,
+    message: string,
+  ): string | null {
+    const from = this.parseDate(metadata, fromField);
+    const to = this.parseDate(metadata, toField);
+    if (!from || !to) {
+      return `${fromField} and ${toField} must be valid ISO date strings`;
+    }
+
+    if (to <= from) {
+      return `${toField} must be after ${fromField}`;
+    }
+
+    if (to > from.plus({ years })) {
+      return message;
+    }
+
+    return null;
+  }
+
+  /**
+   * Commune codes must start with a valid wilaya code, and with the wilaya
+   * named in `wilayaField` when the document carries one. Absent codes are
+   * left to `requiredFields`.
+   */
+  private assertCommuneCode(
+    metadata: Record<string, unknown>,
+    field: string,
+    wilayaField?: string,
+  ): string | null {
+    if (!this.hasValue(metadata, field)) {
+      return null;
+    }
+
+    const invalid = this.assertWilayaPattern(
+      metadata,
+      field,
+      COMMUNE_CODE_PATTERN,
+      `${field} must be a four-digit commune code`,
+    );
+    if (invalid) {
+      return invalid;
+    }
+
+    const wilayaCode = wilayaField ? metadata[wilayaField] : undefined;
+    if (typeof wilayaCode === 'string' && !(metadata[field] as string).startsWith(wilayaCode)) {
+      return `${field} does not belong to wilaya ${wilayaCode}`;
+    }
+
+    return null;
+  }
+
+  /** The plate ends with the wilaya the vehicle was registered in. */
+  private assertRegistrationWilaya(metadata: Record<string, unknown>): string | null {
+    const registrationNumber = metadata.registrationNumber;
+    const wilayaCode = metadata.issuingWilayaCode;
+
+    if (typeof registrationNumber !== 'string' || typeof wilayaCode !== 'string') {
+      return null;
+    }
+
+    if (!registrationNumber.endsWith(wilayaCode)) {
+      return `Registration number does not match issuing wilaya ${wilayaCode}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Any full name on the document, and the name the applicant declared, must
+   * hold the same words as the first and last name fields. Order, case,
+   * accents and Arabic diacritics are ignored.
+   */
+  private assertNameConsistency(metadata: Record<string, unknown>): string | null {
+    const { firstName, lastName } = metadata;
+    if (typeof firstName !== 'string' || typeof lastName !== 'string') {
+      return 'firstName and lastName must be strings';
+    }
+
+    const expected = this.nameTokens(`${firstName} ${lastName}`).join(' ');
+
+    for (const field of ['fullName', 'declaredFullName']) {
+      const value = metadata[field];
+      if (typeof value === 'string' && this.nameTokens(value).join(' ') !== expected) {
+        return `${field} does not match the first and last name on the document`;
+      }
+    }
+
+    return null;
+  }
+
+  private nameTokens(value: string): string[] {
+    return value
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .split(/[^\p{L}]+/u)
+      .filter(Boolean)
+      .sort();
+  }
+
+  private parseDate(metadata: Record<string, unknown>, field: string): DateTime | null {
+    const raw = metadata?.[field];
+    if (typeof raw !== 'string') {
+      return null;
+    }
+
+    const date = DateTime.fromISO(raw, { zone: 'utc' });
+    return date.isValid ? date : null;
+  }
+
   private assertLength(
     metadata: Record<string, unknown>,
     field: string,
@@ -230,6 +566,26 @@ export class RulesEngineService {
     return null;
   }
 
+  /** Like `assertPattern`, with the captured `wilaya` group also between 01 and `WILAYA_COUNT`. */
+  private assertWilayaPattern(
+    metadata: Record<string, unknown>,
+    field: string,
+    pattern: RegExp,
+    message: string,
+  ): string | null {
+    const invalid = this.assertPattern(metadata, field, pattern, message);
+    if (invalid) {
+      return invalid;
+    }
+
+    const wilaya = Number((metadata[field] as string).match(pattern)?.groups?.wilaya);
+    if (!(wilaya >= 1 && wilaya <= WILAYA_COUNT)) {
+      return message;
+    }
+
+    return null;
+  }
+
   private warnIfMissing(metadata: Record<string, unknown>, field: string): string | null {
     if (!this.hasValue(metadata, field)) {
       return `Optional field ${field} is missing`;
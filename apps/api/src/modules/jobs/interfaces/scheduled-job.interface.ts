@@ -0,0 +1,6 @@
+export interface ScheduledJob {
+  /** Unique name, also used as the key of the job's database lock. */
+  name: string;
+  intervalSeconds: number;
+  run(now: Date): Promise<unknown>;
+}
@@ -0,0 +1,71 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { PrismaService } from '@prisma/prisma.service';
+
+import { JobLockService } from './job-lock.service';
+
+describe('JobLockService', () => {
+  let service: JobLockService;
+
+  const mockPrismaService = {
+    $executeRaw: jest.fn(),
+    jobLock: {
+      updateMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobLockService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<JobLockService>(JobLockService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('runExclusive', () => {
+    it('should run the task and release the lease when the lock is acquired', async () => {
+      mockPrismaService.$executeRaw.mockResolvedValue(1);
+      const task = jest.fn().mockResolvedValue(3);
+
+      const result = await service.runExclusive('queue-ticket-expiry', 60, task);
+
+      expect(result).toEqual({ acquired: true, result: 3 });
+      expect(task).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.jobLock.updateMany).toHaveBeenCalledWith({
+        where: { name: 'queue-ticket-expiry', lockedBy: service.instanceId },
+        data: expect.objectContaining({ lockedBy: null, lastError: null }),
+      });
+    });
+
+    it('should skip the task while another instance holds the lease', async () => {
+      mockPrismaService.$executeRaw.mockResolvedValue(0);
+      const task = jest.fn();
+
+      const result = await service.runExclusive('queue-ticket-expiry', 60, task);
+
+      expect(result).toEqual({ acquired: false });
+      expect(task).not.toHaveBeenCalled();
+      expect(mockPrismaService.jobLock.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should record the error and release the lease when the task fails', async () => {
+      mockPrismaService.$executeRaw.mockResolvedValue(1);
+
+      await expect(
+        service.runExclusive('queue-ticket-expiry', 60, () => Promise.reject(new Error('boom'))),
+      ).rejects.toThrow('boom');
+      expect(mockPrismaService.jobLock.updateMany).toHaveBeenCalledWith({
+        where: { name: 'queue-ticket-expiry', lockedBy: service.instanceId },
+        data: expect.objectContaining({ lockedBy: null, lastError: 'boom' }),
+      });
+    });
+  });
+});
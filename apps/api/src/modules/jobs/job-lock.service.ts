@@ -0,0 +1,73 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+
+import { PrismaService } from '@prisma/prisma.service';
+
+export interface ExclusiveRunResult<T> {
+  acquired: boolean;
+  result?: T;
+}
+
+/**
+ * Lease-based locks stored in `job_locks`. A lease is taken atomically with a
+ * single upsert, so only one API instance can run a given job at a time, and
+ * a crashed holder only blocks the job until its lease runs out.
+ */
+@Injectable()
+export class JobLockService {
+  private readonly logger = new Logger(JobLockService.name);
+
+  readonly instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async acquire(name: string, ttlSeconds: number, now: Date = new Date()): Promise<boolean> {
+    const lockedUntil = new Date(now.getTime() + ttlSeconds * 1000);
+
+    const affected = await this.prisma.$executeRaw`
+      INSERT INTO "job_locks" ("name", "locked_by", "locked_until", "last_started_at", "updated_at")
+      VALUES (${name}, ${this.instanceId}, ${lockedUntil}, ${now}, ${now})
+      ON CONFLICT ("name") DO UPDATE
+        SET "locked_by" = EXCLUDED."locked_by",
+            "locked_until" = EXCLUDED."locked_until",
+            "last_started_at" = EXCLUDED."last_started_at",
+            "updated_at" = EXCLUDED."updated_at"
+        WHERE "job_locks"."locked_until" <= ${now}
+    `;
+
+    return affected > 0;
+  }
+
+  async release(name: string, error?: unknown, now: Date = new Date()): Promise<void> {
+    await this.prisma.jobLock.updateMany({
+      where: { name, lockedBy: this.instanceId },
+      data: {
+        lockedBy: null,
+        lockedUntil: now,
+        lastFinishedAt: now,
+        lastError: error ? (error instanceof Error ? error.message : String(error)) : null,
+      },
+    });
+  }
+
+  async runExclusive<T>(
+    name: string,
+    ttlSeconds: number,
+    task: () => Promise<T>,
+  ): Promise<ExclusiveRunResult<T>> {
+    if (!(await this.acquire(name, ttlSeconds))) {
+      this.logger.verbose(`Skipping job ${name}: lock held by another instance`);
+      return { acquired: false };
+    }
+
+    try {
+      const result = await task();
+      await this.release(name);
+      return { acquired: true, result };
+    } catch (error) {
+      await this.release(name, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+
+import { AppointmentAttendanceService } from '@modules/appointments/appointment-attendance.service';
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
+import { IdempotencyService } from '@modules/appointments/idempotency.service';
+import { SlotHoldsService } from '@modules/appointments/slot-holds.service';
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
+import { DocumentUploadsService } from '@modules/document-uploads/document-uploads.service';
+import { NotificationDispatcherService } from '@modules/notifications/notification-dispatcher.service';
+import { SlotGenerationService } from '@modules/scheduling/slot-generation.service';
+
+import { JobLockService } from './job-lock.service';
+import { JobSchedulerService } from './job-scheduler.service';
+import { JOB_NAME } from './jobs.constants';
+
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'mock-uuid') }));
+
+describe('JobSchedulerService', () => {
+  let service: JobSchedulerService;
+
+  const now = new Date('2030-01-01T08:00:00.000Z');
+
+  const mockJobLocks = {
+    runExclusive: jest.fn((_name: string, _ttl: number, task: () => Promise<unknown>) =>
+      task().then((result) => ({ acquired: true, result })),
+    ),
+  };
+
+  const mockWaitlist = {
+    releaseExpiredHolds: jest.fn(),
+  };
+
+  const mockDocumentUploads = {
+    expireStaleUploads: jest.fn(),
+  };
+
+  const mockSlotGeneration = {
+    regenerateActiveTemplates: jest.fn(),
+  };
+
+  const mockNotificationDispatcher = {
+    dispatchPending: jest.fn(),
+  };
+
+  const mockAppointmentReminders = {
+    sendDue: jest.fn(),
+  };
+
+  const mockAppointmentAttendance = {
+    markNoShows: jest.fn(),
+  };
+
+  const mockSlotHolds = {
+    releaseExpired: jest.fn(),
+  };
+
+  const mockIdempotency = {
+    purgeExpired: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(() => ({
+      enabled: false,
+      lockTtlSeconds: 120,
+      queueExpiryIntervalSeconds: 60,
+      slotHoldExpiryIntervalSeconds: 60,
+      uploadExpiryIntervalSeconds: 3600,
+      slotGenerationIntervalSeconds: 21600,
+      notificationDispatchIntervalSeconds: 15,
+      appointmentReminderIntervalSeconds: 60,
+      noShowIntervalSeconds: 300,
+      noShowGraceMinutes: 20,
+      idempotencyExpiryIntervalSeconds: 3600,
+    })),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobSchedulerService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: JobLockService, useValue: mockJobLocks },
+        { provide: WaitlistPromotionService, useValue: mockWaitlist },
+        { provide: DocumentUploadsService, useValue: mockDocumentUploads },
+        { provide: SlotGenerationService, useValue: mockSlotGeneration },
+        { provide: NotificationDispatcherService, useValue: mockNotificationDispatcher },
+        { provide: AppointmentRemindersService, useValue: mockAppointmentReminders },
+        { provide: AppointmentAttendanceService, useValue: mockAppointmentAttendance },
+        { provide: SlotHoldsService, useValue: mockSlotHolds },
+        { provide: IdempotencyService, useValue: mockIdempotency },
+      ],
+    }).compile();
+
+    service = module.get<JobSchedulerService>(JobSchedulerService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should register the expiry, slot generation, notification, reminder and no-show jobs', () => {
+    expect(service.getJobs().map((job) => job.name)).toEqual([
+      JOB_NAME.QUEUE_TICKET_EXPIRY,
+      JOB_NAME.SLOT_HOLD_EXPIRY,
+      JOB_NAME.DOCUMENT_UPLOAD_EXPIRY,
+      JOB_NAME.SLOT_GENERATION,
+      JOB_NAME.NOTIFICATION_DISPATCH,
+      JOB_NAME.APPOINTMENT_REMINDERS,
+      JOB_NAME.APPOINTMENT_NO_SHOWS,
+      JOB_NAME.IDEMPOTENCY_KEY_EXPIRY,
+    ]);
+  });
+
+  describe('runJob', () => {
+    it('should run the queue expiry under the job lock', async () => {
+      mockWaitlist.releaseExpiredHolds.mockResolvedValue({ expired: [], offered: [] });
+
+      await expect(service.runJob(JOB_NAME.QUEUE_TICKET_EXPIRY, now)).resolves.toBe(true);
+
+      expect(mockJobLocks.runExclusive).toHaveBeenCalledWith(
+        JOB_NAME.QUEUE_TICKET_EXPIRY,
+        120,
+        expect.any(Function),
+      );
+      expect(mockWaitlist.releaseExpiredHolds).toHaveBeenCalledWith({}, now);
+    });
+
+    it('should release lapsed slot holds', async () => {
+      mockSlotHolds.releaseExpired.mockResolvedValue(1);
+
+      await service.runJob(JOB_NAME.SLOT_HOLD_EXPIRY, now);
+
+      expect(mockSlotHolds.releaseExpired).toHaveBeenCalledWith(now);
+    });
+
+    it('should expire stale uploads', async () => {
+      mockDocumentUploads.expireStaleUploads.mockResolvedValue(2);
+
+      await service.runJob(JOB_NAME.DOCUMENT_UPLOAD_EXPIRY, now);
+
+      expect(mockDocumentUploads.expireStaleUploads).toHaveBeenCalledWith(now);
+    });
+
+    it('should dispatch pending notifications', async () => {
+      mockNotificationDispatcher.dispatchPending.mockResolvedValue({
+        dispatched: 1,
+        retried: 0,
+        failed: 0,
+      });
+
+      await service.runJob(JOB_NAME.NOTIFICATION_DISPATCH, now);
+
+      expect(mockNotificationDispatcher.dispatchPending).toHaveBeenCalledWith(now);
+    });
+
+    it('should send due appointment reminders', async () => {
+      mockAppointmentReminders.sendDue.mockResolvedValue({ sent: 2, skipped: 0 });
+
+      await service.runJob(JOB_NAME.APPOINTMENT_REMINDERS, now);
+
+      expect(mockAppointmentReminders.sendDue).toHaveBeenCalledWith(now);
+    });
+
+    it('should mark no-shows with the configured grace period', async () => {
+      mockAppointmentAttendance.markNoShows.mockResolvedValue({ marked: 1 });
+
+      await service.runJob(JOB_NAME.APPOINTMENT_NO_SHOWS, now);
+
+      expect(mockAppointmentAttendance.markNoShows).toHaveBeenCalledWith(now, 20);
+    });
+
+    it('should purge expired idempotency keys', async () => {
+      mockIdempotency.purgeExpired.mockResolvedValue(3);
+
+      await service.runJob(JOB_NAME.IDEMPOTENCY_KEY_EXPIRY, now);
+
+      expect(mockIdempotency.purgeExpired).toHaveBeenCalledWith(now);
+    });
+
+    it('should report failures without throwing', async () => {
+      mockSlotGeneration.regenerateActiveTemplates.mockRejectedValue(new Error('boom'));
+
+      await expect(service.runJob(JOB_NAME.SLOT_GENERATION, now)).resolves.toBe(false);
+    });
+
+    it('should not overlap runs of the same job', async () => {
+      let finish: () => void = () => undefined;
+      mockWaitlist.releaseExpiredHolds.mockReturnValue(
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        }),
+      );
+
+      const first = service.runJob(JOB_NAME.QUEUE_TICKET_EXPIRY, now);
+      await expect(service.runJob(JOB_NAME.QUEUE_TICKET_EXPIRY, now)).resolves.toBe(false);
+
+      finish();
+      await expect(first).resolves.toBe(true);
+      expect(mockWaitlist.releaseExpiredHolds).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject unknown jobs', async () => {
+      await expect(service.runJob('unknown')).rejects.toThrow('Unknown scheduled job unknown');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { JobsConfig } from '@config/jobs.config';
+import { AppointmentAttendanceService } from '@modules/appointments/appointment-attendance.service';
+import { AppointmentRemindersService } from '@modules/appointments/appointment-reminders.service';
+import { IdempotencyService } from '@modules/appointments/idempotency.service';
+import { SlotHoldsService } from '@modules/appointments/slot-holds.service';
+import { WaitlistPromotionService } from '@modules/appointments/waitlist-promotion.service';
+import { DocumentUploadsService } from '@modules/document-uploads/document-uploads.service';
+import { ScheduledJob } from '@modules/jobs/interfaces/scheduled-job.interface';
+import { JobLockService } from '@modules/jobs/job-lock.service';
+import { JOB_NAME } from '@modules/jobs/jobs.constants';
+import { NotificationDispatcherService } from '@modules/notifications/notification-dispatcher.service';
+import { SlotGenerationService } from '@modules/scheduling/slot-generation.service';
+
+@Injectable()
+export class JobSchedulerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(JobSchedulerService.name);
+
+  private readonly timers: NodeJS.Timeout[] = [];
+
+  private readonly running = new Set<string>();
+
+  private readonly jobs: ScheduledJob[];
+
+  private readonly config: JobsConfig | undefined;
+
+  constructor(
+    configService: ConfigService,
+    private readonly jobLocks: JobLockService,
+    private readonly waitlist: WaitlistPromotionService,
+    private readonly documentUploads: DocumentUploadsService,
+    private readonly slotGeneration: SlotGenerationService,
+    private readonly notificationDispatcher: NotificationDispatcherService,
+    private readonly appointmentReminders: AppointmentRemindersService,
+    private readonly appointmentAttendance: AppointmentAttendanceService,
+    private readonly slotHolds: SlotHoldsService,
+    private readonly idempotency: IdempotencyService,
+  ) {
+    this.config = configService.get<JobsConfig>('jobs', { infer: true });
+
+    this.jobs = [
+      {
+        name: JOB_NAME.QUEUE_TICKET_EXPIRY,
+        intervalSeconds: this.config?.queueExpiryIntervalSeconds ?? 60,
+        run: (now) => this.waitlist.releaseExpiredHolds({}, now),
+      },
+      {
+        name: JOB_NAME.SLOT_HOLD_EXPIRY,
+        intervalSeconds: this.config?.slotHoldExpiryIntervalSeconds ?? 60,
+        run: (now) => this.slotHolds.releaseExpired(now),
+      },
+      {
+        name: JOB_NAME.DOCUMENT_UPLOAD_EXPIRY,
+        intervalSeconds: this.config?.uploadExpiryIntervalSeconds ?? 3600,
+        run: (now) => this.documentUploads.expireStaleUploads(now),
+      },
+      {
+        name: JOB_NAME.SLOT_GENERATION,
+        intervalSeconds: this.config?.slotGenerationIntervalSeconds ?? 21600,
+        run: (now) => this.slotGeneration.regenerateActiveTemplates(now),
+      },
+      {
+        name: JOB_NAME.NOTIFICATION_DISPATCH,
+        intervalSeconds: this.config?.notificationDispatchIntervalSeconds ?? 15,
+        run: (now) => this.notificationDispatcher.dispatchPending(now),
+      },
+      {
+        name: JOB_NAME.APPOINTMENT_REMINDERS,
+        intervalSeconds: this.config?.appointmentReminderIntervalSeconds ?? 60,
+        run: (now) => this.appointmentReminders.sendDue(now),
+      },
+      {
+        name: JOB_NAME.APPOINTMENT_NO_SHOWS,
+        intervalSeconds: this.config?.noShowIntervalSeconds ?? 300,
+        run: (now) =>
+          this.appointmentAttendance.markNoShows(now, this.config?.noShowGraceMinutes ?? 30),
+      },
+      {
+        name: JOB_NAME.IDEMPOTENCY_KEY_EXPIRY,
+        intervalSeconds: this.config?.idempotencyExpiryIntervalSeconds ?? 3600,
+        run: (now) => this.idempotency.purgeExpired(now),
+      },
+    ];
+  }
+
+  onApplicationBootstrap(): void {
+    if (!this.config?.enabled) {
+      this.logger.log('Background jobs are disabled');
+      return;
+    }
+
+    for (const job of this.jobs) {
+      const timer = setInterval(() => void this.runJob(job.name), job.intervalSeconds * 1000);
+      // Never keep the process alive just for the scheduler.
+      timer.unref();
+      this.timers.push(timer);
+    }
+
+    this.logger.log(
+      `Scheduled ${this.jobs.map((job) => `${job.name} every ${job.intervalSeconds}s`).join(', ')}`,
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers.length = 0;
+  }
+
+  getJobs(): ScheduledJob[] {
+    return [...this.jobs];
+  }
+
+  /**
+   * Runs a job once if no other run is in progress, in this process or on
+   * another instance. Failures are logged and stored on the job lock rather
+   * than thrown, so one failing run does not stop later ones.
+   */
+  async runJob(name: string, now: Date = new Date()): Promise<boolean> {
+    const job = this.jobs.find((candidate) => candidate.name === name);
+
+    if (!job) {
+      throw new Error(`Unknown scheduled job ${name}`);
+    }
+
+    if (this.running.has(name)) {
+      this.logger.verbose(`Skipping job ${name}: previous run still in progress`);
+      return false;
+    }
+
+    this.running.add(name);
+
+    try {
+      const { acquired } = await this.jobLocks.runExclusive(
+        name,
+        this.config?.lockTtlSeconds ?? 300,
+        () => job.run(now),
+      );
+
+      return acquired;
+    } catch (error) {
+      this.logger.error(
+        `Scheduled job ${name} failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      return false;
+    } finally {
+      this.running.delete(name);
+    }
+  }
+}
@@ -0,0 +1,12 @@
+export const JOB_NAME = {
+  QUEUE_TICKET_EXPIRY: 'queue-ticket-expiry',
+  SLOT_HOLD_EXPIRY: 'slot-hold-expiry',
+  DOCUMENT_UPLOAD_EXPIRY: 'document-upload-expiry',
+  SLOT_GENERATION: 'slot-generation',
+  NOTIFICATION_DISPATCH: 'notification-dispatch',
+  APPOINTMENT_REMINDERS: 'appointment-reminders',
+  APPOINTMENT_NO_SHOWS: 'appointment-no-shows',
+  IDEMPOTENCY_KEY_EXPIRY: 'idempotency-key-expiry',
+} as const;
+
+export type JobName = (typeof JOB_NAME)[keyof typeof JOB_NAME];
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+
+import { AppointmentsModule } from '@modules/appointments/appointments.module';
+import { DocumentUploadsModule } from '@modules/document-uploads/document-uploads.module';
+import { JobLockService } from '@modules/jobs/job-lock.service';
+import { JobSchedulerService } from '@modules/jobs/job-scheduler.service';
+import { NotificationsModule } from '@modules/notifications/notifications.module';
+import { SchedulingModule } from '@modules/scheduling/scheduling.module';
+
+@Module({
+  imports: [AppointmentsModule, DocumentUploadsModule, NotificationsModule, SchedulingModule],
+  providers: [JobLockService, JobSchedulerService],
+  exports: [JobLockService, JobSchedulerService],
+})
+export class JobsModule {}
@@ -0,0 +1,50 @@
+import { NotificationMessage } from '@modules/notifications/channels/notification-channel.interface';
+
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+const encodeBase64 = (value: string): string =>
+  (
+    Buffer.from(value)
+      .toString('base64')
+      .match(/.{1,76}/g) ?? []
+  ).join('\r\n');
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Builds a multipart/alternative email: a plain-text part and an HTML part
+ * carrying the language and text direction so Arabic renders right-to-left.
+ */
+export const buildEmailMime = (
+  message: NotificationMessage,
+  headers: { from: string; messageId: string; date?: Date },
+): string => {
+  const boundary = `=_${headers.messageId.replace(/[^a-zA-Z0-9]/g, '')}`;
+  const text = message.body.replace(/\r?\n/g, '\r\n');
+  const html = `<!DOCTYPE html><html lang="${message.locale}" dir="${message.direction}"><body><div dir="${message.direction}" style="white-space: pre-line">${escapeHtml(message.body)}</div></body></html>`;
+
+  return [
+    `From: ${headers.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject ?? '')}`,
+    `Date: ${(headers.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${headers.messageId}`,
+    `Content-Language: ${message.locale}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64(text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64(html),
+    `--${boundary}--`,
+  ].join('\r\n');
+};
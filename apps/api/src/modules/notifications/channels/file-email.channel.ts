@@ -0,0 +1,43 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { Logger } from '@nestjs/common';
+import { NotificationChannel } from '@prisma/client';
+
+import { buildEmailMime } from '@modules/notifications/channels/email-mime';
+import {
+  NotificationChannelAdapter,
+  NotificationMessage,
+  NotificationSendResult,
+} from '@modules/notifications/channels/notification-channel.interface';
+
+/**
+ * Development stand-in for the SMTP channel: every email is written to
+ * `<outputDir>/email` as an .eml file instead of leaving the machine.
+ */
+export class FileEmailChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.EMAIL;
+
+  private readonly logger = new Logger(FileEmailChannel.name);
+
+  constructor(
+    private readonly outputDir: string,
+    private readonly from: string,
+  ) {}
+
+  async send(message: NotificationMessage): Promise<NotificationSendResult> {
+    const directory = join(this.outputDir, 'email');
+    const fileName = `${Date.now()}-${message.outboxId}.eml`;
+
+    await mkdir(directory, { recursive: true });
+    await writeFile(
+      join(directory, fileName),
+      buildEmailMime(message, { from: this.from, messageId: `<${fileName}>` }),
+      'utf8',
+    );
+
+    this.logger.debug(`Email for ${message.to} written to ${fileName}`);
+
+    return { providerMessageId: fileName };
+  }
+}
@@ -0,0 +1,57 @@
+import { Logger } from '@nestjs/common';
+import { NotificationChannel } from '@prisma/client';
+
+import {
+  NotificationChannelAdapter,
+  NotificationMessage,
+  NotificationSendResult,
+} from '@modules/notifications/channels/notification-channel.interface';
+
+export interface HttpSmsChannelOptions {
+  gatewayUrl: string;
+  apiKey?: string;
+  sender: string;
+}
+
+/**
+ * Posts messages to an HTTP SMS gateway as JSON. Any non-2xx answer is
+ * treated as a failed delivery so the dispatcher can retry it.
+ */
+export class HttpSmsChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.SMS;
+
+  private readonly logger = new Logger(HttpSmsChannel.name);
+
+  constructor(private readonly options: HttpSmsChannelOptions) {}
+
+  async send(message: NotificationMessage): Promise<NotificationSendResult> {
+    if (!this.options.gatewayUrl) {
+      throw new Error('SMS gateway URL is not configured.');
+    }
+
+    const response = await fetch(this.options.gatewayUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        from: this.options.sender,
+        to: message.to,
+        message: message.body,
+        reference: message.outboxId,
+      }),
+      signal: AbortSignal.timeout(15000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS gateway responded with status ${response.status}.`);
+    }
+
+    const data = (await response.json().catch(() => ({}))) as { id?: string; messageId?: string };
+
+    this.logger.verbose(`SMS for outbox ${message.outboxId} accepted by gateway`);
+
+    return { providerMessageId: data.id ?? data.messageId ?? null };
+  }
+}
@@ -0,0 +1,23 @@
+import { Logger } from '@nestjs/common';
+import { NotificationChannel } from '@prisma/client';
+
+import {
+  NotificationChannelAdapter,
+  NotificationMessage,
+  NotificationSendResult,
+} from '@modules/notifications/channels/notification-channel.interface';
+
+/**
+ * Development stand-in for the SMS gateway: messages are only logged.
+ */
+export class LogSmsChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.SMS;
+
+  private readonly logger = new Logger(LogSmsChannel.name);
+
+  async send(message: NotificationMessage): Promise<NotificationSendResult> {
+    this.logger.log(`SMS to ${message.to}: ${message.body}`);
+
+    return { providerMessageId: `log-${message.outboxId}` };
+  }
+}
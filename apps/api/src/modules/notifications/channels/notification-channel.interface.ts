@@ -0,0 +1,19 @@
+import { NotificationChannel } from '@prisma/client';
+
+export interface NotificationMessage {
+  outboxId: string;
+  to: string;
+  subject: string | null;
+  body: string;
+  locale: string;
+  direction: 'ltr' | 'rtl';
+}
+
+export interface NotificationSendResult {
+  providerMessageId?: string | null;
+}
+
+export interface NotificationChannelAdapter {
+  readonly channel: NotificationChannel;
+  send(message: NotificationMessage): Promise<NotificationSendResult>;
+}
@@ -0,0 +1,2 @@
+export const EMAIL_CHANNEL = Symbol('EMAIL_CHANNEL');
+export const SMS_CHANNEL = Symbol('SMS_CHANNEL');
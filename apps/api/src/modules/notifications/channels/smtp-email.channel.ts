@@ -0,0 +1,65 @@
+import { randomUUID } from 'node:crypto';
+
+import { Logger } from '@nestjs/common';
+import { NotificationChannel } from '@prisma/client';
+import { Transporter, createTransport } from 'nodemailer';
+
+import { buildEmailMime } from '@modules/notifications/channels/email-mime';
+import {
+  NotificationChannelAdapter,
+  NotificationMessage,
+  NotificationSendResult,
+} from '@modules/notifications/channels/notification-channel.interface';
+
+export interface SmtpEmailChannelOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Delivers emails over SMTP with nodemailer, using implicit TLS or STARTTLS
+ * when the server offers it. The message itself is built by `buildEmailMime`
+ * so every email channel sends the same MIME body.
+ */
+export class SmtpEmailChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.EMAIL;
+
+  private readonly logger = new Logger(SmtpEmailChannel.name);
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpEmailChannelOptions) {
+    const timeoutMs = options.timeoutMs ?? 30000;
+
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth:
+        options.user && options.password
+          ? { user: options.user, pass: options.password }
+          : undefined,
+      connectionTimeout: timeoutMs,
+      greetingTimeout: timeoutMs,
+      socketTimeout: timeoutMs,
+    });
+  }
+
+  async send(message: NotificationMessage): Promise<NotificationSendResult> {
+    const { host, from } = this.options;
+    const messageId = `<${randomUUID()}@${from.split('@')[1] ?? host}>`;
+
+    await this.transporter.sendMail({
+      envelope: { from, to: message.to },
+      raw: buildEmailMime(message, { from, messageId }),
+    });
+
+    this.logger.verbose(`Email ${messageId} accepted by ${host}`);
+
+    return { providerMessageId: messageId };
+  }
+}
@@ -0,0 +1,226 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma, QueueTicketStatus } from '@prisma/client';
+import { DateTime } from 'luxon';
+
+import { toAppointmentReference } from '@modules/appointments/appointment-reference';
+import { NotificationLocale } from '@modules/notifications/notification-placeholders';
+import { PrismaService } from '@prisma/prisma.service';
+
+const serviceInclude = {
+  translations: {
+    select: {
+      locale: true,
+      name: true,
+      metadata: true,
+    },
+  },
+} satisfies Prisma.ServiceInclude;
+
+const recipientSelect = {
+  firstName: true,
+  lastName: true,
+} satisfies Prisma.UserSelect;
+
+type ServiceWithTranslations = Prisma.ServiceGetPayload<{ include: typeof serviceInclude }>;
+
+type OfficeSummary = { name: string; address: string; timezone: string } | null;
+
+const NO_DOCUMENTS_LABEL: Record<NotificationLocale, string> = {
+  en: 'No documents are required.',
+  fr: "Aucun document n'est requis.",
+  ar: 'لا توجد وثائق مطلوبة.',
+};
+
+const QUEUE_STATUS_LABELS: Record<NotificationLocale, Record<QueueTicketStatus, string>> = {
+  en: {
+    WAITING: 'waiting',
+    NOTIFIED: 'offered a slot',
+    COMPLETED: 'completed',
+    CANCELLED: 'cancelled',
+    EXPIRED: 'expired',
+  },
+  fr: {
+    WAITING: 'en attente',
+    NOTIFIED: 'en attente de confirmation',
+    COMPLETED: 'terminé',
+    CANCELLED: 'annulé',
+    EXPIRED: 'expiré',
+  },
+  ar: {
+    WAITING: 'في الانتظار',
+    NOTIFIED: 'بانتظار التأكيد',
+    COMPLETED: 'مكتملة',
+    CANCELLED: 'ملغاة',
+    EXPIRED: 'منتهية الصلاحية',
+  },
+};
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length ? value : undefined;
+
+/**
+ * Resolves the placeholder values of an outbox event from the appointment or
+ * queue ticket it refers to, in the recipient's locale. Dates are rendered in
+ * the timezone of the appointment (or of its slot for queue tickets).
+ */
+@Injectable()
+export class NotificationContextService {
+  private readonly logger = new Logger(NotificationContextService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async build(
+    payload: Record<string, unknown>,
+    locale: NotificationLocale,
+  ): Promise<Record<string, string>> {
+    const values: Record<string, string> = {};
+    const appointmentId = asString(payload.appointmentId);
+    const ticketId = asString(payload.ticketId);
+
+    if (appointmentId) {
+      const appointment = await this.prisma.appointment.findUnique({
+        where: { id: appointmentId },
+        include: {
+          user: { select: recipientSelect },
+          service: { include: serviceInclude },
+          slot: { include: { office: true } },
+        },
+      });
+
+      if (appointment) {
+        Object.assign(
+          values,
+          this.describeRecipient(appointment.user, appointment.service, locale),
+          this.describeSchedule(
+            appointment.scheduledAt,
+            appointment.timezone || appointment.slot?.timezone || 'UTC',
+            appointment.slot?.office ?? null,
+            locale,
+          ),
+          {
+            reference: toAppointmentReference(appointment.id),
+            requiredDocuments: this.describeRequiredDocuments(appointment.service, locale),
+          },
+        );
+      } else {
+        this.logger.warn(`Appointment ${appointmentId} referenced by a notification is gone`);
+      }
+    } else if (ticketId) {
+      const ticket = await this.prisma.queueTicket.findUnique({
+        where: { id: ticketId },
+        include: {
+          user: { select: recipientSelect },
+          service: { include: serviceInclude },
+          slot: { include: { office: true } },
+        },
+      });
+
+      if (ticket) {
+        Object.assign(
+          values,
+          this.describeRecipient(ticket.user, ticket.service, locale),
+          { reference: toAppointmentReference(ticket.id), position: String(ticket.position) },
+          ticket.slot
+            ? this.describeSchedule(
+                ticket.slot.startAt,
+                ticket.slot.timezone,
+                ticket.slot.office ?? null,
+                locale,
+              )
+            : {},
+        );
+
+        if (ticket.expiresAt) {
+          values.expiresAt = DateTime.fromJSDate(ticket.expiresAt)
+            .setZone(ticket.slot?.timezone ?? ticket.timezone)
+            .setLocale(locale)
+            .toLocaleString(DateTime.DATETIME_MED);
+        }
+      } else {
+        this.logger.warn(`Queue ticket ${ticketId} referenced by a notification is gone`);
+      }
+    }
+
+    const reason = asString(payload.reason);
+    if (reason) {
+      values.reason = reason;
+    }
+
+    const position = payload.position;
+    if (typeof position === 'number') {
+      values.position = String(position);
+    }
+
+    const confirmUrl = asString(payload.confirmUrl);
+    if (confirmUrl) {
+      values.confirmUrl = confirmUrl;
+    }
+
+    const status = asString(payload.status);
+    if (status) {
+      values.status = QUEUE_STATUS_LABELS[locale][status as QueueTicketStatus] ?? status;
+    }
+
+    return values;
+  }
+
+  private describeRecipient(
+    user: { firstName: string; lastName: string },
+    service: ServiceWithTranslations,
+    locale: NotificationLocale,
+  ): Record<string, string> {
+    return {
+      firstName: user.firstName,
+      lastName: user.lastName,
+      serviceName: this.pickTranslation(service, locale)?.name ?? service.slug,
+    };
+  }
+
+  private describeSchedule(
+    startAt: Date,
+    timezone: string,
+    office: OfficeSummary,
+    locale: NotificationLocale,
+  ): Record<string, string> {
+    const local = DateTime.fromJSDate(startAt).setZone(timezone).setLocale(locale);
+
+    return {
+      date: local.toLocaleString(DateTime.DATE_HUGE),
+      time: local.toFormat('HH:mm'),
+      timezone,
+      officeName: office?.name ?? '',
+      officeAddress: office?.address ?? '',
+    };
+  }
+
+  private describeRequiredDocuments(
+    service: ServiceWithTranslations,
+    locale: NotificationLocale,
+  ): string {
+    const readList = (metadata: Prisma.JsonValue | null | undefined): string[] | null => {
+      if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+        return null;
+      }
+
+      const list = (metadata as Prisma.JsonObject).requiredDocuments;
+      return Array.isArray(list)
+        ? list.filter((item): item is string => typeof item === 'string')
+        : null;
+    };
+
+    const documents =
+      readList(this.pickTranslation(service, locale)?.metadata) ?? readList(service.metadata) ?? [];
+
+    return documents.length
+      ? documents.map((document) => `- ${document}`).join('\n')
+      : NO_DOCUMENTS_LABEL[locale];
+  }
+
+  private pickTranslation(service: ServiceWithTranslations, locale: NotificationLocale) {
+    return (
+      service.translations.find((translation) => translation.locale === locale) ??
+      service.translations.find((translation) => translation.locale === 'en') ??
+      service.translations[0]
+    );
+  }
+}
@@ -0,0 +1,179 @@
+import { NotificationChannel } from '@prisma/client';
+
+import {
+  NotificationEventType,
+  NotificationLocale,
+} from '@modules/notifications/notification-placeholders';
+
+export interface NotificationTemplateContent {
+  subject: string | null;
+  body: string;
+}
+
+interface DefaultTemplateSet {
+  subject: string;
+  email: string;
+  sms: string;
+}
+
+/**
+ * Built-in wording used until an administrator publishes a template for the
+ * event, channel and locale.
+ */
+const DEFAULT_TEMPLATES: Record<
+  NotificationEventType,
+  Record<NotificationLocale, DefaultTemplateSet>
+> = {
+  'appointment.booked': {
+    en: {
+      subject: 'Appointment confirmed: {{serviceName}}',
+      email:
+        'Hello {{firstName}},\n\nYour appointment for {{serviceName}} is booked on {{date}} at {{time}} ({{timezone}}).\nOffice: {{officeName}}, {{officeAddress}}\nReference: {{reference}}\n\nPlease bring:\n{{requiredDocuments}}',
+      sms: '{{serviceName}}: appointment on {{date}} at {{time}}, {{officeName}}. Ref {{reference}}.',
+    },
+    fr: {
+      subject: 'Rendez-vous confirmé : {{serviceName}}',
+      email:
+        'Bonjour {{firstName}},\n\nVotre rendez-vous pour {{serviceName}} est fixé le {{date}} à {{time}} ({{timezone}}).\nBureau : {{officeName}}, {{officeAddress}}\nRéférence : {{reference}}\n\nMerci de vous munir de :\n{{requiredDocuments}}',
+      sms: '{{serviceName}} : rendez-vous le {{date}} à {{time}}, {{officeName}}. Réf {{reference}}.',
+    },
+    ar: {
+      subject: 'تأكيد الموعد: {{serviceName}}',
+      email:
+        'مرحبًا {{firstName}}،\n\nتم حجز موعدك لخدمة {{serviceName}} يوم {{date}} على الساعة {{time}} ({{timezone}}).\nالمكتب: {{officeName}}، {{officeAddress}}\nالمرجع: {{reference}}\n\nيرجى إحضار:\n{{requiredDocuments}}',
+      sms: '{{serviceName}}: موعدك يوم {{date}} على الساعة {{time}}، {{officeName}}. المرجع {{reference}}.',
+    },
+  },
+  'appointment.rescheduled': {
+    en: {
+      subject: 'Appointment rescheduled: {{serviceName}}',
+      email:
+        'Hello {{firstName}},\n\nYour appointment for {{serviceName}} has been moved to {{date}} at {{time}} ({{timezone}}).\nOffice: {{officeName}}, {{officeAddress}}\nReference: {{reference}}\n\nPlease bring:\n{{requiredDocuments}}',
+      sms: '{{serviceName}}: appointment moved to {{date}} at {{time}}, {{officeName}}. Ref {{reference}}.',
+    },
+    fr: {
+      subject: 'Rendez-vous déplacé : {{serviceName}}',
+      email:
+        'Bonjour {{firstName}},\n\nVotre rendez-vous pour {{serviceName}} a été déplacé au {{date}} à {{time}} ({{timezone}}).\nBureau : {{officeName}}, {{officeAddress}}\nRéférence : {{reference}}\n\nMerci de vous munir de :\n{{requiredDocuments}}',
+      sms: '{{serviceName}} : rendez-vous déplacé au {{date}} à {{time}}, {{officeName}}. Réf {{reference}}.',
+    },
+    ar: {
+      subject: 'تغيير الموعد: {{serviceName}}',
+      email:
+        'مرحبًا {{firstName}}،\n\nتم نقل موعدك لخدمة {{serviceName}} إلى يوم {{date}} على الساعة {{time}} ({{timezone}}).\nالمكتب: {{officeName}}، {{officeAddress}}\nالمرجع: {{reference}}\n\nيرجى إحضار:\n{{requiredDocuments}}',
+      sms: '{{serviceName}}: تم نقل موعدك إلى {{date}} على الساعة {{time}}، {{officeName}}. المرجع {{reference}}.',
+    },
+  },
+  'appointment.cancelled': {
+    en: {
+      subject: 'Appointment cancelled: {{serviceName}}',
+      email:
+        'Hello {{firstName}},\n\nYour appointment for {{serviceName}} on {{date}} at {{time}} has been cancelled.\n{{reason}}\nReference: {{reference}}',
+      sms: '{{serviceName}}: your appointment on {{date}} at {{time}} is cancelled. {{reason}}',
+    },
+    fr: {
+      subject: 'Rendez-vous annulé : {{serviceName}}',
+      email:
+        'Bonjour {{firstName}},\n\nVotre rendez-vous pour {{serviceName}} du {{date}} à {{time}} a été annulé.\n{{reason}}\nRéférence : {{reference}}',
+      sms: '{{serviceName}} : votre rendez-vous du {{date}} à {{time}} est annulé. {{reason}}',
+    },
+    ar: {
+      subject: 'إلغاء الموعد: {{serviceName}}',
+      email:
+        'مرحبًا {{firstName}}،\n\nتم إلغاء موعدك لخدمة {{serviceName}} يوم {{date}} على الساعة {{time}}.\n{{reason}}\nالمرجع: {{reference}}',
+      sms: '{{serviceName}}: تم إلغاء موعدك يوم {{date}} على الساعة {{time}}. {{reason}}',
+    },
+  },
+  'appointment.reminder': {
+    en: {
+      subject: 'Reminder: {{serviceName}} on {{date}}',
+      email:
+        'Hello {{firstName}},\n\nThis is a reminder of your appointment for {{serviceName}} on {{date}} at {{time}} ({{timezone}}).\nOffice: {{officeName}}, {{officeAddress}}\nReference: {{reference}}\n\nPlease bring:\n{{requiredDocuments}}\n\nConfirm that you will attend: {{confirmUrl}}',
+      sms: '{{serviceName}}: reminder of your appointment on {{date}} at {{time}}, {{officeName}}. Confirm: {{confirmUrl}}',
+    },
+    fr: {
+      subject: 'Rappel : {{serviceName}} le {{date}}',
+      email:
+        'Bonjour {{firstName}},\n\nNous vous rappelons votre rendez-vous pour {{serviceName}} le {{date}} à {{time}} ({{timezone}}).\nBureau : {{officeName}}, {{officeAddress}}\nRéférence : {{reference}}\n\nMerci de vous munir de :\n{{requiredDocuments}}\n\nConfirmez votre présence : {{confirmUrl}}',
+      sms: '{{serviceName}} : rappel de votre rendez-vous le {{date}} à {{time}}, {{officeName}}. Confirmez : {{confirmUrl}}',
+    },
+    ar: {
+      subject: 'تذكير: {{serviceName}} يوم {{date}}',
+      email:
+        'مرحبًا {{firstName}}،\n\nنذكركم بموعدكم لخدمة {{serviceName}} يوم {{date}} على الساعة {{time}} ({{timezone}}).\nالمكتب: {{officeName}}، {{officeAddress}}\nالمرجع: {{reference}}\n\nيرجى إحضار:\n{{requiredDocuments}}\n\nأكدوا حضوركم: {{confirmUrl}}',
+      sms: '{{serviceName}}: تذكير بموعدكم يوم {{date}} على الساعة {{time}}، {{officeName}}. للتأكيد: {{confirmUrl}}',
+    },
+  },
+  'queue.ticket.created': {
+    en: {
+      subject: 'You joined the queue for {{serviceName}}',
+      email:
+        'Hello {{firstName}},\n\nYou are number {{position}} in the queue for {{serviceName}}. We will let you know as soon as a slot frees up.\nReference: {{reference}}',
+      sms: '{{serviceName}}: you are number {{position}} in the queue. Ref {{reference}}.',
+    },
+    fr: {
+      subject: "Vous êtes dans la file d'attente : {{serviceName}}",
+      email:
+        "Bonjour {{firstName}},\n\nVous êtes numéro {{position}} dans la file d'attente pour {{serviceName}}. Nous vous préviendrons dès qu'un créneau se libère.\nRéférence : {{reference}}",
+      sms: "{{serviceName}} : vous êtes numéro {{position}} dans la file d'attente. Réf {{reference}}.",
+    },
+    ar: {
+      subject: 'تم تسجيلك في قائمة الانتظار: {{serviceName}}',
+      email:
+        'مرحبًا {{firstName}}،\n\nترتيبك في قائمة الانتظار لخدمة {{serviceName}} هو {{position}}. سنعلمك فور توفر موعد.\nالمرجع: {{reference}}',
+      sms: '{{serviceName}}: ترتيبك في قائمة الانتظار {{position}}. المرجع {{reference}}.',
+    },
+  },
+  'queue.ticket.updated': {
+    en: {
+      subject: 'Queue ticket update: {{serviceName}}',
+      email:
+        'Hello {{firstName}},\n\nYour queue ticket for {{serviceName}} is now {{status}}.\nReference: {{reference}}',
+      sms: '{{serviceName}}: your queue ticket is now {{status}}. Ref {{reference}}.',
+    },
+    fr: {
+      subject: 'Mise à jour de votre ticket : {{serviceName}}',
+      email:
+        "Bonjour {{firstName}},\n\nVotre ticket de file d'attente pour {{serviceName}} est désormais {{status}}.\nRéférence : {{reference}}",
+      sms: '{{serviceName}} : votre ticket est désormais {{status}}. Réf {{reference}}.',
+    },
+    ar: {
+      subject: 'تحديث تذكرة الانتظار: {{serviceName}}',
+      email:
+        'مرحبًا {{firstName}}،\n\nحالة تذكرة الانتظار الخاصة بك لخدمة {{serviceName}} الآن: {{status}}.\nالمرجع: {{reference}}',
+      sms: '{{serviceName}}: حالة تذكرتك الآن {{status}}. المرجع {{reference}}.',
+    },
+  },
+  'queue.ticket.notified': {
+    en: {
+      subject: 'A slot is available: {{serviceName}}',
+      email:
+        'Hello {{firstName}},\n\nA slot for {{serviceName}} on {{date}} at {{time}} ({{timezone}}) at {{officeName}} is held for you. Book it before {{expiresAt}}.\nReference: {{reference}}',
+      sms: '{{serviceName}}: a slot on {{date}} at {{time}} is held for you until {{expiresAt}}. Ref {{reference}}.',
+    },
+    fr: {
+      subject: 'Un créneau est disponible : {{serviceName}}',
+      email:
+        'Bonjour {{firstName}},\n\nUn créneau pour {{serviceName}} le {{date}} à {{time}} ({{timezone}}) à {{officeName}} vous est réservé. Confirmez-le avant {{expiresAt}}.\nRéférence : {{reference}}',
+      sms: "{{serviceName}} : un créneau le {{date}} à {{time}} vous est réservé jusqu'à {{expiresAt}}. Réf {{reference}}.",
+    },
+    ar: {
+      subject: 'يتوفر موعد: {{serviceName}}',
+      email:
+        'مرحبًا {{firstName}}،\n\nتم حجز موعد لك مؤقتًا لخدمة {{serviceName}} يوم {{date}} على الساعة {{time}} ({{timezone}}) في {{officeName}}. يرجى تأكيده قبل {{expiresAt}}.\nالمرجع: {{reference}}',
+      sms: '{{serviceName}}: موعد يوم {{date}} على الساعة {{time}} محجوز لك حتى {{expiresAt}}. المرجع {{reference}}.',
+    },
+  },
+};
+
+export const getDefaultNotificationTemplate = (
+  type: NotificationEventType,
+  channel: NotificationChannel,
+  locale: NotificationLocale,
+): NotificationTemplateContent => {
+  const template = DEFAULT_TEMPLATES[type][locale];
+
+  return channel === NotificationChannel.EMAIL
+    ? { subject: template.subject, body: template.email }
+    : { subject: null, body: template.sms };
+};
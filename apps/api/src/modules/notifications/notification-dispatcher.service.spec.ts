@@ -0,0 +1,252 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  NotificationOutboxStatus,
+} from '@prisma/client';
+
+import { PrismaService } from '@prisma/prisma.service';
+
+import { EMAIL_CHANNEL, SMS_CHANNEL } from './channels/notification-channel.tokens';
+import { NotificationContextService } from './notification-context.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationTemplatesService } from './notification-templates.service';
+
+describe('NotificationDispatcherService', () => {
+  let service: NotificationDispatcherService;
+
+  const now = new Date('2030-01-01T08:00:00.000Z');
+
+  const buildEvent = (overrides: Record<string, unknown> = {}) => ({
+    id: 'event1',
+    type: 'appointment.booked',
+    userId: 'user1',
+    payload: {
+      appointmentId: 'appointment1',
+      scheduledAt: '2030-01-02T09:00:00.000Z',
+      timezone: 'Africa/Algiers',
+    },
+    status: NotificationOutboxStatus.PENDING,
+    attempts: 0,
+    availableAt: new Date('2030-01-01T07:59:00.000Z'),
+    user: { email: 'client@example.com', phoneNumber: '+213555000000', locale: 'fr' },
+    deliveries: [
+      {
+        id: 'email1',
+        channel: NotificationChannel.EMAIL,
+        status: NotificationDeliveryStatus.PENDING,
+      },
+      { id: 'sms1', channel: NotificationChannel.SMS, status: NotificationDeliveryStatus.PENDING },
+    ],
+    ...overrides,
+  });
+
+  const mockPrismaService = {
+    notificationOutbox: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+    },
+    notificationDelivery: {
+      update: jest.fn(),
+    },
+    notificationTemplateVersion: {
+      findFirst: jest.fn(),
+    },
+  };
+
+  const mockContextService = {
+    build: jest.fn(),
+  };
+
+  const mockEmailChannel = {
+    channel: NotificationChannel.EMAIL,
+    send: jest.fn(),
+  };
+
+  const mockSmsChannel = {
+    channel: NotificationChannel.SMS,
+    send: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(() => ({
+      batchSize: 10,
+      maxAttempts: 3,
+      retryBaseSeconds: 60,
+    })),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationDispatcherService,
+        NotificationTemplatesService,
+        { provide: NotificationContextService, useValue: mockContextService },
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: EMAIL_CHANNEL, useValue: mockEmailChannel },
+        { provide: SMS_CHANNEL, useValue: mockSmsChannel },
+      ],
+    }).compile();
+
+    service = module.get<NotificationDispatcherService>(NotificationDispatcherService);
+
+    jest.clearAllMocks();
+    mockPrismaService.notificationOutbox.updateMany.mockResolvedValue({ count: 1 });
+    mockEmailChannel.send.mockResolvedValue({ providerMessageId: 'email-id' });
+    mockSmsChannel.send.mockResolvedValue({ providerMessageId: 'sms-id' });
+    mockPrismaService.notificationTemplateVersion.findFirst.mockResolvedValue(null);
+    mockContextService.build.mockResolvedValue({
+      firstName: 'Amina',
+      serviceName: 'Passeport biométrique',
+      date: 'mercredi 2 janvier 2030',
+      time: '10:00',
+      reference: 'APPOINTM',
+    });
+  });
+
+  it('should deliver every channel in the recipient locale and mark the event dispatched', async () => {
+    mockPrismaService.notificationOutbox.findMany.mockResolvedValue([buildEvent()]);
+
+    const result = await service.dispatchPending(now);
+
+    expect(result).toEqual({ dispatched: 1, retried: 0, failed: 0 });
+    expect(mockEmailChannel.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'client@example.com',
+        locale: 'fr',
+        direction: 'ltr',
+        subject: 'Rendez-vous confirmé : Passeport biométrique',
+      }),
+    );
+    expect(mockSmsChannel.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: '+213555000000',
+        subject: null,
+        body: expect.stringContaining('rendez-vous le mercredi 2 janvier 2030 à 10:00'),
+      }),
+    );
+    expect(mockContextService.build).toHaveBeenCalledWith(
+      expect.objectContaining({ appointmentId: 'appointment1' }),
+      'fr',
+    );
+    expect(mockPrismaService.notificationDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'email1' },
+      data: expect.objectContaining({
+        status: NotificationDeliveryStatus.SENT,
+        providerMessageId: 'email-id',
+        sentAt: now,
+      }),
+    });
+    expect(mockPrismaService.notificationOutbox.update).toHaveBeenCalledWith({
+      where: { id: 'event1' },
+      data: { status: NotificationOutboxStatus.DISPATCHED, processedAt: now, lastError: null },
+    });
+  });
+
+  it('should use the published template and mark Arabic messages right-to-left', async () => {
+    mockPrismaService.notificationOutbox.findMany.mockResolvedValue([
+      buildEvent({ user: { email: 'client@example.com', phoneNumber: null, locale: 'ar-DZ' } }),
+    ]);
+    mockPrismaService.notificationTemplateVersion.findFirst.mockResolvedValue({
+      id: 'version1',
+      subject: 'موعدكم: {{serviceName}}',
+      body: 'مرحبًا {{firstName}}',
+    });
+
+    await service.dispatchPending(now);
+
+    expect(mockPrismaService.notificationTemplateVersion.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          template: {
+            type: 'appointment.booked',
+            channel: NotificationChannel.EMAIL,
+            locale: 'ar',
+          },
+        }),
+      }),
+    );
+    expect(mockEmailChannel.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        locale: 'ar',
+        direction: 'rtl',
+        subject: 'موعدكم: Passeport biométrique',
+        body: 'مرحبًا Amina',
+      }),
+    );
+  });
+
+  it('should skip channels without a recipient', async () => {
+    mockPrismaService.notificationOutbox.findMany.mockResolvedValue([
+      buildEvent({ user: { email: 'client@example.com', phoneNumber: null, locale: 'en' } }),
+    ]);
+
+    await service.dispatchPending(now);
+
+    expect(mockSmsChannel.send).not.toHaveBeenCalled();
+    expect(mockPrismaService.notificationDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'sms1' },
+      data: expect.objectContaining({ status: NotificationDeliveryStatus.SKIPPED }),
+    });
+  });
+
+  it('should retry failed channels with a backoff and not resend delivered ones', async () => {
+    mockPrismaService.notificationOutbox.findMany.mockResolvedValue([
+      buildEvent({
+        attempts: 1,
+        deliveries: [
+          {
+            id: 'email1',
+            channel: NotificationChannel.EMAIL,
+            status: NotificationDeliveryStatus.SENT,
+          },
+          {
+            id: 'sms1',
+            channel: NotificationChannel.SMS,
+            status: NotificationDeliveryStatus.FAILED,
+          },
+        ],
+      }),
+    ]);
+    mockSmsChannel.send.mockRejectedValue(new Error('gateway down'));
+
+    const result = await service.dispatchPending(now);
+
+    expect(result).toEqual({ dispatched: 0, retried: 1, failed: 0 });
+    expect(mockEmailChannel.send).not.toHaveBeenCalled();
+    expect(mockPrismaService.notificationOutbox.update).toHaveBeenCalledWith({
+      where: { id: 'event1' },
+      data: {
+        status: NotificationOutboxStatus.PENDING,
+        availableAt: new Date('2030-01-01T08:02:00.000Z'),
+        lastError: 'SMS: gateway down',
+      },
+    });
+  });
+
+  it('should fail the event once the last attempt fails', async () => {
+    mockPrismaService.notificationOutbox.findMany.mockResolvedValue([buildEvent({ attempts: 2 })]);
+    mockEmailChannel.send.mockRejectedValue(new Error('smtp refused'));
+
+    const result = await service.dispatchPending(now);
+
+    expect(result).toEqual({ dispatched: 0, retried: 0, failed: 1 });
+    expect(mockPrismaService.notificationOutbox.update).toHaveBeenCalledWith({
+      where: { id: 'event1' },
+      data: expect.objectContaining({ status: NotificationOutboxStatus.FAILED, processedAt: now }),
+    });
+  });
+
+  it('should leave events claimed by another run alone', async () => {
+    mockPrismaService.notificationOutbox.findMany.mockResolvedValue([buildEvent()]);
+    mockPrismaService.notificationOutbox.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await service.dispatchPending(now);
+
+    expect(result).toEqual({ dispatched: 0, retried: 0, failed: 0 });
+    expect(mockEmailChannel.send).not.toHaveBeenCalled();
+  });
+});
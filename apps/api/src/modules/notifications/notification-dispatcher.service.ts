@@ -0,0 +1,240 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationDeliveryStatus,
+  NotificationOutboxStatus,
+  Prisma,
+} from '@prisma/client';
+
+import { NotificationsConfig } from '@config/notifications.config';
+import { NotificationChannelAdapter } from '@modules/notifications/channels/notification-channel.interface';
+import {
+  EMAIL_CHANNEL,
+  SMS_CHANNEL,
+} from '@modules/notifications/channels/notification-channel.tokens';
+import { NotificationContextService } from '@modules/notifications/notification-context.service';
+import {
+  isNotificationEventType,
+  resolveNotificationLocale,
+} from '@modules/notifications/notification-placeholders';
+import { NotificationTemplatesService } from '@modules/notifications/notification-templates.service';
+import { PrismaService } from '@prisma/prisma.service';
+
+export interface NotificationDispatchResult {
+  dispatched: number;
+  retried: number;
+  failed: number;
+}
+
+// How long a claimed event stays invisible to other dispatch runs. A run
+// that dies mid-batch leaves PROCESSING rows that are picked up again after it.
+const CLAIM_LEASE_SECONDS = 300;
+
+const RETRYABLE_DELIVERY_STATUSES: NotificationDeliveryStatus[] = [
+  NotificationDeliveryStatus.PENDING,
+  NotificationDeliveryStatus.FAILED,
+];
+
+const outboxInclude = {
+  deliveries: true,
+  user: {
+    select: {
+      email: true,
+      phoneNumber: true,
+      locale: true,
+    },
+  },
+} satisfies Prisma.NotificationOutboxInclude;
+
+type OutboxWithRecipient = Prisma.NotificationOutboxGetPayload<{ include: typeof outboxInclude }>;
+
+@Injectable()
+export class NotificationDispatcherService {
+  private readonly logger = new Logger(NotificationDispatcherService.name);
+
+  private readonly config: NotificationsConfig | undefined;
+
+  private readonly channels: Record<NotificationChannel, NotificationChannelAdapter>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly context: NotificationContextService,
+    private readonly templates: NotificationTemplatesService,
+    configService: ConfigService,
+    @Inject(EMAIL_CHANNEL) emailChannel: NotificationChannelAdapter,
+    @Inject(SMS_CHANNEL) smsChannel: NotificationChannelAdapter,
+  ) {
+    this.config = configService.get<NotificationsConfig>('notifications', { infer: true });
+    this.channels = {
+      [NotificationChannel.EMAIL]: emailChannel,
+      [NotificationChannel.SMS]: smsChannel,
+    };
+  }
+
+  /**
+   * Delivers a batch of due outbox events. Each event is claimed first so
+   * concurrent runs never send it twice. Failed channels are retried with an
+   * exponential backoff until `maxAttempts`, after which the event is FAILED;
+   * channels that already succeeded are not sent again.
+   */
+  async dispatchPending(now: Date = new Date()): Promise<NotificationDispatchResult> {
+    const result: NotificationDispatchResult = { dispatched: 0, retried: 0, failed: 0 };
+
+    const due = await this.prisma.notificationOutbox.findMany({
+      where: {
+        status: { in: [NotificationOutboxStatus.PENDING, NotificationOutboxStatus.PROCESSING] },
+        availableAt: { lte: now },
+      },
+      orderBy: { availableAt: 'asc' },
+      take: this.config?.batchSize ?? 25,
+      include: outboxInclude,
+    });
+
+    for (const event of due) {
+      const { count } = await this.prisma.notificationOutbox.updateMany({
+        where: { id: event.id, status: event.status, availableAt: event.availableAt },
+        data: {
+          status: NotificationOutboxStatus.PROCESSING,
+          attempts: { increment: 1 },
+          availableAt: new Date(now.getTime() + CLAIM_LEASE_SECONDS * 1000),
+        },
+      });
+
+      if (!count) {
+        continue;
+      }
+
+      const outcome = await this.deliver(event, event.attempts + 1, now);
+      result[outcome] += 1;
+    }
+
+    if (due.length) {
+      this.logger.verbose(
+        `Notification dispatch: ${result.dispatched} dispatched, ${result.retried} retried, ${result.failed} failed`,
+      );
+    }
+
+    return result;
+  }
+
+  private async deliver(
+    event: OutboxWithRecipient,
+    attempt: number,
+    now: Date,
+  ): Promise<keyof NotificationDispatchResult> {
+    const payload = (event.payload ?? {}) as Record<string, unknown>;
+    const locale = resolveNotificationLocale(event.user?.locale);
+    const values = await this.context.build(payload, locale);
+    const errors: string[] = [];
+
+    for (const delivery of event.deliveries) {
+      if (!RETRYABLE_DELIVERY_STATUSES.includes(delivery.status)) {
+        continue;
+      }
+
+      const recipient = this.resolveRecipient(delivery, event);
+
+      if (!recipient) {
+        await this.prisma.notificationDelivery.update({
+          where: { id: delivery.id },
+          data: {
+            status: NotificationDeliveryStatus.SKIPPED,
+            lastError: `No ${delivery.channel.toLowerCase()} recipient available.`,
+          },
+        });
+        continue;
+      }
+
+      try {
+        if (!isNotificationEventType(event.type)) {
+          throw new Error(`No template for notification type ${event.type}.`);
+        }
+
+        const template = await this.templates.resolve(event.type, delivery.channel, locale);
+        const message = this.templates.render(template, values, locale);
+        const sent = await this.channels[delivery.channel].send({
+          outboxId: event.id,
+          to: recipient,
+          ...message,
+        });
+
+        await this.prisma.notificationDelivery.update({
+          where: { id: delivery.id },
+          data: {
+            status: NotificationDeliveryStatus.SENT,
+            recipient,
+            attempts: { increment: 1 },
+            providerMessageId: sent.providerMessageId ?? null,
+            lastError: null,
+            sentAt: now,
+          },
+        });
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        errors.push(`${delivery.channel}: ${reason}`);
+
+        await this.prisma.notificationDelivery.update({
+          where: { id: delivery.id },
+          data: {
+            status: NotificationDeliveryStatus.FAILED,
+            recipient,
+            attempts: { increment: 1 },
+            lastError: reason,
+          },
+        });
+      }
+    }
+
+    if (!errors.length) {
+      await this.prisma.notificationOutbox.update({
+        where: { id: event.id },
+        data: {
+          status: NotificationOutboxStatus.DISPATCHED,
+          processedAt: now,
+          lastError: null,
+        },
+      });
+      return 'dispatched';
+    }
+
+    const lastError = errors.join('; ');
+    const maxAttempts = this.config?.maxAttempts ?? 5;
+
+    if (attempt >= maxAttempts) {
+      this.logger.warn(`Notification ${event.id} failed after ${attempt} attempt(s): ${lastError}`);
+      await this.prisma.notificationOutbox.update({
+        where: { id: event.id },
+        data: {
+          status: NotificationOutboxStatus.FAILED,
+          processedAt: now,
+          lastError,
+        },
+      });
+      return 'failed';
+    }
+
+    const delaySeconds = (this.config?.retryBaseSeconds ?? 30) * 2 ** (attempt - 1);
+    await this.prisma.notificationOutbox.update({
+      where: { id: event.id },
+      data: {
+        status: NotificationOutboxStatus.PENDING,
+        availableAt: new Date(now.getTime() + delaySeconds * 1000),
+        lastError,
+      },
+    });
+    return 'retried';
+  }
+
+  private resolveRecipient(
+    delivery: NotificationDelivery,
+    event: OutboxWithRecipient,
+  ): string | null {
+    if (delivery.channel === NotificationChannel.EMAIL) {
+      return event.user?.email ?? null;
+    }
+
+    return event.user?.phoneNumber ?? null;
+  }
+}
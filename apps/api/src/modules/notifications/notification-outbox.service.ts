@@ -0,0 +1,51 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotificationChannel, NotificationOutbox, Prisma } from '@prisma/client';
+
+import { PrismaService } from '@prisma/prisma.service';
+
+export interface NotificationOutboxEvent {
+  type: string;
+  userId?: string | null;
+  payload: Record<string, unknown>;
+  availableAt?: Date;
+  // Defaults to every delivery channel.
+  channels?: NotificationChannel[];
+}
+
+const DELIVERY_CHANNELS: NotificationChannel[] = [
+  NotificationChannel.EMAIL,
+  NotificationChannel.SMS,
+];
+
+@Injectable()
+export class NotificationOutboxService {
+  private readonly logger = new Logger(NotificationOutboxService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Stores an event together with one pending delivery per channel. Pass the
+   * transaction client of the business change so the event is only published
+   * when that change commits.
+   */
+  async enqueue(
+    event: NotificationOutboxEvent,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<NotificationOutbox> {
+    const entry = await client.notificationOutbox.create({
+      data: {
+        type: event.type,
+        userId: event.userId ?? null,
+        payload: event.payload as Prisma.InputJsonValue,
+        ...(event.availableAt ? { availableAt: event.availableAt } : {}),
+        deliveries: {
+          create: (event.channels ?? DELIVERY_CHANNELS).map((channel) => ({ channel })),
+        },
+      },
+    });
+
+    this.logger.verbose(`Enqueued ${event.type} notification ${entry.id}`);
+
+    return entry;
+  }
+}
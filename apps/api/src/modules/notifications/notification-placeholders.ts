@@ -0,0 +1,132 @@
+export const NOTIFICATION_EVENT_TYPES = [
+  'appointment.booked',
+  'appointment.rescheduled',
+  'appointment.cancelled',
+  'appointment.reminder',
+  'queue.ticket.created',
+  'queue.ticket.updated',
+  'queue.ticket.notified',
+] as const;
+
+export type NotificationEventType = (typeof NOTIFICATION_EVENT_TYPES)[number];
+
+export const NOTIFICATION_LOCALES = ['en', 'fr', 'ar'] as const;
+
+export type NotificationLocale = (typeof NOTIFICATION_LOCALES)[number];
+
+export const DEFAULT_NOTIFICATION_LOCALE: NotificationLocale = 'en';
+
+const RECIPIENT_PLACEHOLDERS = ['firstName', 'lastName', 'serviceName', 'reference'];
+
+const SCHEDULE_PLACEHOLDERS = ['date', 'time', 'timezone', 'officeName', 'officeAddress'];
+
+export const NOTIFICATION_PLACEHOLDERS: Record<NotificationEventType, string[]> = {
+  'appointment.booked': [...RECIPIENT_PLACEHOLDERS, ...SCHEDULE_PLACEHOLDERS, 'requiredDocuments'],
+  'appointment.rescheduled': [
+    ...RECIPIENT_PLACEHOLDERS,
+    ...SCHEDULE_PLACEHOLDERS,
+    'requiredDocuments',
+  ],
+  'appointment.cancelled': [...RECIPIENT_PLACEHOLDERS, ...SCHEDULE_PLACEHOLDERS, 'reason'],
+  'appointment.reminder': [
+    ...RECIPIENT_PLACEHOLDERS,
+    ...SCHEDULE_PLACEHOLDERS,
+    'requiredDocuments',
+    'confirmUrl',
+  ],
+  'queue.ticket.created': [...RECIPIENT_PLACEHOLDERS, 'position'],
+  'queue.ticket.updated': [...RECIPIENT_PLACEHOLDERS, 'status'],
+  'queue.ticket.notified': [...RECIPIENT_PLACEHOLDERS, ...SCHEDULE_PLACEHOLDERS, 'expiresAt'],
+};
+
+export const NOTIFICATION_SAMPLE_VALUES: Record<NotificationLocale, Record<string, string>> = {
+  en: {
+    firstName: 'Yacine',
+    lastName: 'Benali',
+    serviceName: 'Biometric National ID Card',
+    reference: 'A1B2C3D4',
+    date: 'Tuesday, March 4, 2025',
+    time: '09:30',
+    timezone: 'Africa/Algiers',
+    officeName: 'Daïra of Bab El Oued',
+    officeAddress: '12 Rue des Frères Bouadou, Algiers',
+    requiredDocuments: '- Special birth certificate (S12)\n- Proof of residence',
+    reason: 'The office is closed.',
+    position: '3',
+    status: 'cancelled',
+    expiresAt: '10:00',
+    confirmUrl: 'https://example.com/appointments/confirm?token=sample',
+  },
+  fr: {
+    firstName: 'Yacine',
+    lastName: 'Benali',
+    serviceName: "Carte nationale d'identité biométrique",
+    reference: 'A1B2C3D4',
+    date: 'mardi 4 mars 2025',
+    time: '09:30',
+    timezone: 'Africa/Algiers',
+    officeName: 'Daïra de Bab El Oued',
+    officeAddress: '12 Rue des Frères Bouadou, Alger',
+    requiredDocuments: "- Extrait d'acte de naissance S12\n- Certificat de résidence",
+    reason: 'Le bureau est fermé.',
+    position: '3',
+    status: 'annulé',
+    expiresAt: '10:00',
+    confirmUrl: 'https://example.com/appointments/confirm?token=sample',
+  },
+  ar: {
+    firstName: 'ياسين',
+    lastName: 'بن علي',
+    serviceName: 'بطاقة التعريف الوطنية البيومترية',
+    reference: 'A1B2C3D4',
+    date: 'الثلاثاء 4 مارس 2025',
+    time: '09:30',
+    timezone: 'Africa/Algiers',
+    officeName: 'دائرة باب الوادي',
+    officeAddress: '12 شارع الإخوة بوعدو، الجزائر',
+    requiredDocuments: '- شهادة الميلاد الخاصة S12\n- شهادة الإقامة',
+    reason: 'المكتب مغلق.',
+    position: '3',
+    status: 'ملغاة',
+    expiresAt: '10:00',
+    confirmUrl: 'https://example.com/appointments/confirm?token=sample',
+  },
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9]*)\s*\}\}/g;
+
+export const isNotificationEventType = (type: string): type is NotificationEventType =>
+  (NOTIFICATION_EVENT_TYPES as readonly string[]).includes(type);
+
+export const resolveNotificationLocale = (
+  locale: string | null | undefined,
+): NotificationLocale => {
+  const base = (locale ?? '').trim().toLowerCase().split('-')[0];
+  return (NOTIFICATION_LOCALES as readonly string[]).includes(base)
+    ? (base as NotificationLocale)
+    : DEFAULT_NOTIFICATION_LOCALE;
+};
+
+export const extractPlaceholders = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => match[1])));
+
+/**
+ * Returns the problems found in a template text: placeholders the event does
+ * not provide and braces that do not form a `{{placeholder}}`.
+ */
+export const findTemplateErrors = (type: NotificationEventType, text: string): string[] => {
+  const allowed = NOTIFICATION_PLACEHOLDERS[type];
+  const errors = extractPlaceholders(text)
+    .filter((placeholder) => !allowed.includes(placeholder))
+    .map((placeholder) => `Unknown placeholder {{${placeholder}}}.`);
+
+  const leftover = text.replace(PLACEHOLDER_PATTERN, '');
+  if (leftover.includes('{{') || leftover.includes('}}')) {
+    errors.push('Malformed placeholder: use {{name}} with a letter-first alphanumeric name.');
+  }
+
+  return errors;
+};
+
+export const fillPlaceholders = (text: string, values: Record<string, string>): string =>
+  text.replace(PLACEHOLDER_PATTERN, (_, key: string) => values[key] ?? '');
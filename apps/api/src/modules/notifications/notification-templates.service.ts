@@ -0,0 +1,111 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { NotificationChannel, NotificationTemplateVersionStatus, Prisma } from '@prisma/client';
+
+import {
+  NotificationTemplateContent,
+  getDefaultNotificationTemplate,
+} from '@modules/notifications/notification-default-templates';
+import {
+  NOTIFICATION_SAMPLE_VALUES,
+  NotificationEventType,
+  NotificationLocale,
+  fillPlaceholders,
+  findTemplateErrors,
+  isNotificationEventType,
+} from '@modules/notifications/notification-placeholders';
+import { PrismaService } from '@prisma/prisma.service';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface ResolvedNotificationTemplate extends NotificationTemplateContent {
+  versionId: string | null;
+}
+
+export interface RenderedNotification {
+  locale: NotificationLocale;
+  direction: TextDirection;
+  subject: string | null;
+  body: string;
+}
+
+@Injectable()
+export class NotificationTemplatesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Returns the published template for an event, channel and locale, or the
+   * built-in wording when no version has been published yet.
+   */
+  async resolve(
+    type: NotificationEventType,
+    channel: NotificationChannel,
+    locale: NotificationLocale,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<ResolvedNotificationTemplate> {
+    const version = await client.notificationTemplateVersion.findFirst({
+      where: {
+        status: NotificationTemplateVersionStatus.ACTIVE,
+        template: { type, channel, locale },
+      },
+      orderBy: { versionNumber: 'desc' },
+    });
+
+    if (version) {
+      return { versionId: version.id, subject: version.subject, body: version.body };
+    }
+
+    return { versionId: null, ...getDefaultNotificationTemplate(type, channel, locale) };
+  }
+
+  render(
+    content: NotificationTemplateContent,
+    values: Record<string, string>,
+    locale: NotificationLocale,
+  ): RenderedNotification {
+    return {
+      locale,
+      direction: locale === 'ar' ? 'rtl' : 'ltr',
+      subject: content.subject ? fillPlaceholders(content.subject, values).trim() : null,
+      body: fillPlaceholders(content.body, values).trim(),
+    };
+  }
+
+  /**
+   * Rejects template content referencing placeholders the event type does not
+   * provide, malformed placeholders and email templates without a subject.
+   */
+  assertValid(
+    type: string,
+    channel: NotificationChannel,
+    content: NotificationTemplateContent,
+  ): asserts type is NotificationEventType {
+    if (!isNotificationEventType(type)) {
+      throw new BadRequestException(`Unknown notification type ${type}.`);
+    }
+
+    if (channel === NotificationChannel.EMAIL && !content.subject?.trim()) {
+      throw new BadRequestException('Email templates require a subject.');
+    }
+
+    const errors = [
+      ...findTemplateErrors(type, content.subject ?? ''),
+      ...findTemplateErrors(type, content.body),
+    ];
+
+    if (errors.length) {
+      throw new BadRequestException(Array.from(new Set(errors)));
+    }
+  }
+
+  preview(
+    type: string,
+    channel: NotificationChannel,
+    locale: NotificationLocale,
+    content: NotificationTemplateContent,
+    values: Record<string, string> = {},
+  ): RenderedNotification {
+    this.assertValid(type, channel, content);
+
+    return this.render(content, { ...NOTIFICATION_SAMPLE_VALUES[locale], ...values }, locale);
+  }
+}
@@ -0,0 +1,69 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import {
+  EmailTransportType,
+  NotificationsConfig,
+  SmsTransportType,
+} from '@config/notifications.config';
+import { FileEmailChannel } from '@modules/notifications/channels/file-email.channel';
+import { HttpSmsChannel } from '@modules/notifications/channels/http-sms.channel';
+import { LogSmsChannel } from '@modules/notifications/channels/log-sms.channel';
+import {
+  EMAIL_CHANNEL,
+  SMS_CHANNEL,
+} from '@modules/notifications/channels/notification-channel.tokens';
+import { SmtpEmailChannel } from '@modules/notifications/channels/smtp-email.channel';
+import { NotificationContextService } from '@modules/notifications/notification-context.service';
+import { NotificationDispatcherService } from '@modules/notifications/notification-dispatcher.service';
+import { NotificationOutboxService } from '@modules/notifications/notification-outbox.service';
+import { NotificationTemplatesService } from '@modules/notifications/notification-templates.service';
+
+const requireConfig = (configService: ConfigService): NotificationsConfig => {
+  const config = configService.get<NotificationsConfig>('notifications', { infer: true });
+
+  if (!config) {
+    throw new Error(
+      'Notifications configuration is required to bootstrap the notifications module.',
+    );
+  }
+
+  return config;
+};
+
+@Module({
+  providers: [
+    NotificationOutboxService,
+    NotificationDispatcherService,
+    NotificationContextService,
+    NotificationTemplatesService,
+    {
+      provide: EMAIL_CHANNEL,
+      useFactory: (configService: ConfigService) => {
+        const config = requireConfig(configService);
+
+        if (config.email.transport === EmailTransportType.SMTP) {
+          return new SmtpEmailChannel({ ...config.email.smtp, from: config.email.from });
+        }
+
+        return new FileEmailChannel(config.outputDir, config.email.from);
+      },
+      inject: [ConfigService],
+    },
+    {
+      provide: SMS_CHANNEL,
+      useFactory: (configService: ConfigService) => {
+        const config = requireConfig(configService);
+
+        if (config.sms.transport === SmsTransportType.HTTP) {
+          return new HttpSmsChannel(config.sms);
+        }
+
+        return new LogSmsChannel();
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [NotificationOutboxService, NotificationDispatcherService, NotificationTemplatesService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,115 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const WILAYA_CODE_PATTERN = /^(0[1-9]|[1-5]\d)$/;
+
+export class OfficeOpeningHoursDto {
+  @ApiProperty({ description: 'ISO day of week (1 = Monday, 7 = Sunday)', example: 7 })
+  @IsInt()
+  @Min(1)
+  @Max(7)
+  dayOfWeek!: number;
+
+  @ApiProperty({ example: '08:00' })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'openTime must use the HH:mm format' })
+  openTime!: string;
+
+  @ApiProperty({ example: '16:30' })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'closeTime must use the HH:mm format' })
+  closeTime!: string;
+}
+
+export class CreateOfficeDto {
+  @ApiProperty({ example: 'daira-bab-el-oued' })
+  @IsString()
+  @IsNotEmpty()
+  slug!: string;
+
+  @ApiProperty({ example: 'Daïra de Bab El Oued' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name!: string;
+
+  @ApiProperty({ description: 'Two-digit wilaya code', example: '16' })
+  @Matches(WILAYA_CODE_PATTERN, { message: 'wilayaCode must be a two-digit wilaya code' })
+  wilayaCode!: string;
+
+  @ApiProperty({ example: 'Bab El Oued' })
+  @IsString()
+  @IsNotEmpty()
+  commune!: string;
+
+  @ApiProperty({ example: '12 Boulevard Colonel Lotfi' })
+  @IsString()
+  @IsNotEmpty()
+  address!: string;
+
+  @ApiPropertyOptional({ example: 36.7906 })
+  @IsOptional()
+  @IsLatitude()
+  latitude?: number;
+
+  @ApiPropertyOptional({ example: 3.0517 })
+  @IsOptional()
+  @IsLongitude()
+  longitude?: number;
+
+  @ApiPropertyOptional({ default: 'Africa/Algiers' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  timezone?: string;
+
+  @ApiPropertyOptional({ example: '+213 21 00 00 00' })
+  @IsOptional()
+  @IsString()
+  phoneNumber?: string;
+
+  @ApiPropertyOptional({ type: [OfficeOpeningHoursDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => OfficeOpeningHoursDto)
+  openingHours?: OfficeOpeningHoursDto[];
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({ type: 'object' })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    description: 'Services delivered at the office',
+    type: [String],
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('4', { each: true })
+  serviceIds?: string[];
+}
@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+import { OfficeOpeningHoursDto } from './create-office.dto';
+
+export class OfficeDto {
+  @ApiProperty({ format: 'uuid' })
+  id!: string;
+
+  @ApiProperty({ example: 'daira-bab-el-oued' })
+  slug!: string;
+
+  @ApiProperty({ example: 'Daïra de Bab El Oued' })
+  name!: string;
+
+  @ApiProperty({ example: '16' })
+  wilayaCode!: string;
+
+  @ApiProperty({ example: 'Bab El Oued' })
+  commune!: string;
+
+  @ApiProperty({ example: '12 Boulevard Colonel Lotfi' })
+  address!: string;
+
+  @ApiPropertyOptional({ example: 36.7906 })
+  latitude!: number | null;
+
+  @ApiPropertyOptional({ example: 3.0517 })
+  longitude!: number | null;
+
+  @ApiProperty({ example: 'Africa/Algiers' })
+  timezone!: string;
+
+  @ApiPropertyOptional()
+  phoneNumber!: string | null;
+
+  @ApiProperty({ type: () => [OfficeOpeningHoursDto] })
+  @Type(() => OfficeOpeningHoursDto)
+  openingHours!: OfficeOpeningHoursDto[];
+
+  @ApiProperty({ example: true })
+  isActive!: boolean;
+
+  @ApiPropertyOptional({ type: 'object' })
+  metadata!: Record<string, unknown> | null;
+
+  @ApiProperty({ type: [String], format: 'uuid' })
+  serviceIds!: string[];
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  createdAt!: string;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  updatedAt!: string;
+}
+
+export class OfficePaginationMetaDto {
+  @ApiProperty({ example: 1 })
+  page!: number;
+
+  @ApiProperty({ example: 25 })
+  limit!: number;
+
+  @ApiProperty({ example: 2 })
+  total!: number;
+}
+
+export class OfficeListResponseDto {
+  @ApiProperty({ type: () => [OfficeDto] })
+  @Type(() => OfficeDto)
+  data!: OfficeDto[];
+
+  @ApiProperty({ type: () => OfficePaginationMetaDto })
+  @Type(() => OfficePaginationMetaDto)
+  meta!: OfficePaginationMetaDto;
+}
+
+export class OfficeDetailResponseDto {
+  @ApiProperty({ type: () => OfficeDto })
+  @Type(() => OfficeDto)
+  data!: OfficeDto;
+}
@@ -0,0 +1,39 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional, IsString, IsUUID } from 'class-validator';
+
+import { PaginationQueryDto } from '@acme/shared-dto';
+
+export class OfficesQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Only offices delivering this service' })
+  @IsOptional()
+  @IsUUID('4')
+  serviceId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by two-digit wilaya code', example: '16' })
+  @IsOptional()
+  @IsString()
+  wilayaCode?: string;
+
+  @ApiPropertyOptional({ description: 'Search by name, commune or address' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      const normalized = value.trim().toLowerCase();
+      if (normalized === 'true') {
+        return true;
+      }
+      if (normalized === 'false') {
+        return false;
+      }
+    }
+    return value;
+  })
+  @IsBoolean()
+  isActive?: boolean;
+}
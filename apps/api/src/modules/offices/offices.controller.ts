@@ -0,0 +1,31 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+
+import { Public } from '@common/decorators/public.decorator';
+import { ResourceIdParamDto } from '@acme/shared-dto';
+
+import { OfficesQueryDto } from './dto/offices-query.dto';
+import { OfficeDetailResponseDto, OfficeListResponseDto } from './dto/office-responses.dto';
+import { OfficesService } from './offices.service';
+
+@ApiTags('offices')
+@Controller({ path: 'offices', version: '1' })
+export class OfficesController {
+  constructor(private readonly officesService: OfficesService) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({ summary: 'List offices, optionally filtered by service or wilaya' })
+  @ApiOkResponse({ description: 'Offices retrieved', type: OfficeListResponseDto })
+  list(@Query() query: OfficesQueryDto): Promise<OfficeListResponseDto> {
+    return this.officesService.listOffices(query);
+  }
+
+  @Get(':id')
+  @Public()
+  @ApiOperation({ summary: 'Get an office by id' })
+  @ApiOkResponse({ description: 'Office retrieved', type: OfficeDetailResponseDto })
+  getById(@Param() params: ResourceIdParamDto): Promise<OfficeDetailResponseDto> {
+    return this.officesService.getOfficeById(params.id);
+  }
+}
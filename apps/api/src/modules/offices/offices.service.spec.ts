@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+import { PrismaService } from '@prisma/prisma.service';
+
+import { OfficesService } from './offices.service';
+
+describe('OfficesService', () => {
+  let service: OfficesService;
+
+  const mockOffice = {
+    id: 'office1',
+    slug: 'daira-bab-el-oued',
+    name: 'Daïra de Bab El Oued',
+    wilayaCode: '16',
+    commune: 'Bab El Oued',
+    address: '12 Boulevard Colonel Lotfi',
+    latitude: 36.7906,
+    longitude: 3.0517,
+    timezone: 'Africa/Algiers',
+    phoneNumber: null,
+    openingHours: [{ dayOfWeek: 7, openTime: '08:00', closeTime: '16:30' }],
+    isActive: true,
+    metadata: null,
+    createdAt: new Date('2030-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2030-01-01T00:00:00.000Z'),
+    services: [{ id: 'assignment1', officeId: 'office1', serviceId: 'service1' }],
+  };
+
+  const createDto = {
+    slug: 'daira-bab-el-oued',
+    name: 'Daïra de Bab El Oued',
+    wilayaCode: '16',
+    commune: 'Bab El Oued',
+    address: '12 Boulevard Colonel Lotfi',
+    serviceIds: ['service1'],
+  };
+
+  const mockPrismaService = {
+    office: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    officeService: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    service: {
+      count: jest.fn(),
+    },
+    appointment: {
+      count: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OfficesService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OfficesService>(OfficesService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('listOffices', () => {
+    it('should filter by service and wilaya', async () => {
+      mockPrismaService.$transaction.mockResolvedValueOnce([[mockOffice], 1]);
+
+      const result = await service.listOffices({ serviceId: 'service1', wilayaCode: '16' });
+
+      expect(mockPrismaService.office.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            services: { some: { serviceId: 'service1' } },
+            wilayaCode: '16',
+          },
+        }),
+      );
+      expect(result.data[0]).toMatchObject({ id: 'office1', serviceIds: ['service1'] });
+      expect(result.meta).toEqual({ page: 1, limit: 25, total: 1 });
+    });
+  });
+
+  describe('createOffice', () => {
+    it('should create the office with its services', async () => {
+      mockPrismaService.service.count.mockResolvedValue(1);
+      mockPrismaService.office.create.mockResolvedValue(mockOffice);
+      mockPrismaService.office.findUnique.mockResolvedValue(mockOffice);
+
+      const result = await service.createOffice(createDto);
+
+      expect(mockPrismaService.office.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          timezone: 'Africa/Algiers',
+          services: { create: [{ serviceId: 'service1' }] },
+        }),
+      });
+      expect(result.data.openingHours).toHaveLength(1);
+    });
+
+    it('should reject unknown services', async () => {
+      mockPrismaService.service.count.mockResolvedValue(0);
+
+      await expect(service.createOffice(createDto)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject opening hours closing before they open', async () => {
+      await expect(
+        service.createOffice({
+          ...createDto,
+          openingHours: [{ dayOfWeek: 1, openTime: '16:00', closeTime: '08:00' }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should map duplicate slugs to a conflict', async () => {
+      mockPrismaService.service.count.mockResolvedValue(1);
+      mockPrismaService.office.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(service.createOffice(createDto)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('deleteOffice', () => {
+    it('should refuse to delete offices with upcoming appointments', async () => {
+      mockPrismaService.office.findUnique.mockResolvedValue(mockOffice);
+      mockPrismaService.appointment.count.mockResolvedValue(2);
+
+      await expect(service.deleteOffice('office1')).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.office.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertOfficeServesService', () => {
+    it('should reject services the office does not deliver', async () => {
+      mockPrismaService.office.findUnique.mockResolvedValue(mockOffice);
+
+      await expect(service.assertOfficeServesService('office1', 'service2')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
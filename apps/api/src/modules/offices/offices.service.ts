@@ -0,0 +1,338 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { IANAZone } from 'luxon';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { AppointmentStatus, Office, OfficeService, Prisma } from '@prisma/client';
+
+import { CreateOfficeDto, OfficeOpeningHoursDto } from './dto/create-office.dto';
+import { OfficesQueryDto } from './dto/offices-query.dto';
+import {
+  OfficeDetailResponseDto,
+  OfficeDto,
+  OfficeListResponseDto,
+} from './dto/office-responses.dto';
+import { UpdateOfficeDto } from './dto/update-office.dto';
+
+const MAX_PAGE_SIZE = 100;
+
+type OfficeWithServices = Office & { services: OfficeService[] };
+
+@Injectable()
+export class OfficesService {
+  private readonly logger = new Logger(OfficesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async listOffices(query: OfficesQueryDto): Promise<OfficeListResponseDto> {
+    const page = query.page && query.page > 0 ? query.page : 1;
+    const limit = query.limit && query.limit > 0 ? Math.min(query.limit, MAX_PAGE_SIZE) : 25;
+    const skip = (page - 1) * limit;
+    const search = query.search?.trim();
+
+    this.logger.verbose(
+      `Listing offices page=${page} limit=${limit} filters=${JSON.stringify(query)}`,
+    );
+
+    const where: Prisma.OfficeWhereInput = {};
+
+    if (query.serviceId) {
+      where.services = { some: { serviceId: query.serviceId } };
+    }
+
+    if (query.wilayaCode) {
+      where.wilayaCode = query.wilayaCode;
+    }
+
+    if (query.isActive !== undefined) {
+      where.isActive = query.isActive;
+    }
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: Prisma.QueryMode.insensitive } },
+        { commune: { contains: search, mode: Prisma.QueryMode.insensitive } },
+        { address: { contains: search, mode: Prisma.QueryMode.insensitive } },
+      ];
+    }
+
+    const [offices, total] = await this.prisma.$transaction([
+      this.prisma.office.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ wilayaCode: 'asc' }, { name: 'asc' }],
+        include: { services: true },
+      }),
+      this.prisma.office.count({ where }),
+    ]);
+
+    return {
+      data: offices.map((office) => this.mapOffice(office)),
+      meta: {
+        page,
+        limit,
+        total,
+      },
+    };
+  }
+
+  async getOfficeById(id: string): Promise<OfficeDetailResponseDto> {
+    this.logger.verbose(`Retrieving office ${id}`);
+
+    const office = await this.prisma.office.findUnique({
+      where: { id },
+      include: { services: true },
+    });
+
+    if (!office) {
+      throw new NotFoundException('Office not found.');
+    }
+
+    return {
+      data: this.mapOffice(office),
+    };
+  }
+
+  async createOffice(dto: CreateOfficeDto): Promise<OfficeDetailResponseDto> {
+    this.logger.verbose(`Creating office ${dto.slug}`);
+
+    const timezone = dto.timezone ?? 'Africa/Algiers';
+    this.assertValidTimezone(timezone);
+    this.assertValidOpeningHours(dto.openingHours);
+
+    const serviceIds = dto.serviceIds ?? [];
+    await this.assertServicesExist(serviceIds);
+
+    try {
+      const office = await this.prisma.office.create({
+        data: {
+          slug: dto.slug,
+          name: dto.name,
+          wilayaCode: dto.wilayaCode,
+          commune: dto.commune,
+          address: dto.address,
+          latitude: dto.latitude ?? null,
+          longitude: dto.longitude ?? null,
+          timezone,
+          phoneNumber: dto.phoneNumber ?? null,
+          openingHours: this.toOpeningHoursJson(dto.openingHours),
+          isActive: dto.isActive ?? true,
+          metadata: dto.metadata as Prisma.InputJsonValue,
+          services: {
+            create: serviceIds.map((serviceId) => ({ serviceId })),
+          },
+        },
+      });
+
+      return this.getOfficeById(office.id);
+    } catch (error) {
+      this.handleKnownErrors(error);
+      throw error;
+    }
+  }
+
+  async updateOffice(id: string, dto: UpdateOfficeDto): Promise<OfficeDetailResponseDto> {
+    this.logger.verbose(`Updating office ${id}`);
+
+    const office = await this.prisma.office.findUnique({ where: { id } });
+
+    if (!office) {
+      throw new NotFoundException('Office not found.');
+    }
+
+    if (dto.timezone !== undefined) {
+      this.assertValidTimezone(dto.timezone);
+    }
+
+    this.assertValidOpeningHours(dto.openingHours);
+
+    if (dto.serviceIds) {
+      await this.assertServicesExist(dto.serviceIds);
+    }
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.office.update({
+          where: { id },
+          data: {
+            ...(dto.slug !== undefined ? { slug: dto.slug } : {}),
+            ...(dto.name !== undefined ? { name: dto.name } : {}),
+            ...(dto.wilayaCode !== undefined ? { wilayaCode: dto.wilayaCode } : {}),
+            ...(dto.commune !== undefined ? { commune: dto.commune } : {}),
+            ...(dto.address !== undefined ? { address: dto.address } : {}),
+            ...(dto.latitude !== undefined ? { latitude: dto.latitude } : {}),
+            ...(dto.longitude !== undefined ? { longitude: dto.longitude } : {}),
+            ...(dto.timezone !== undefined ? { timezone: dto.timezone } : {}),
+            ...(dto.phoneNumber !== undefined ? { phoneNumber: dto.phoneNumber } : {}),
+            ...(dto.openingHours !== undefined
+              ? { openingHours: this.toOpeningHoursJson(dto.openingHours) }
+              : {}),
+            ...(dto.isActive !== undefined ? { isActive: dto.isActive } : {}),
+            ...(dto.metadata !== undefined
+              ? { metadata: dto.metadata as Prisma.InputJsonValue }
+              : {}),
+          },
+        });
+
+        if (dto.serviceIds) {
+          await tx.officeService.deleteMany({
+            where: { officeId: id, serviceId: { notIn: dto.serviceIds } },
+          });
+          await tx.officeService.createMany({
+            data: dto.serviceIds.map((serviceId) => ({ officeId: id, serviceId })),
+            skipDuplicates: true,
+          });
+        }
+      });
+    } catch (error) {
+      this.handleKnownErrors(error);
+      throw error;
+    }
+
+    return this.getOfficeById(id);
+  }
+
+  async deleteOffice(id: string): Promise<void> {
+    this.logger.verbose(`Deleting office ${id}`);
+
+    const office = await this.prisma.office.findUnique({ where: { id } });
+
+    if (!office) {
+      throw new NotFoundException('Office not found.');
+    }
+
+    const upcomingAppointments = await this.prisma.appointment.count({
+      where: {
+        slot: { officeId: id },
+        scheduledAt: { gte: new Date() },
+        status: {
+          notIn: [
+            AppointmentStatus.CANCELLED,
+            AppointmentStatus.COMPLETED,
+            AppointmentStatus.NO_SHOW,
+          ],
+        },
+      },
+    });
+
+    if (upcomingAppointments > 0) {
+      throw new ConflictException(
+        'The office has upcoming appointments. Deactivate it or cancel them first.',
+      );
+    }
+
+    await this.prisma.office.delete({ where: { id } });
+  }
+
+  /**
+   * Ensures a slot may be attached to the office: the office must exist and,
+   * once it lists the services it delivers, deliver the slot's service.
+   */
+  async assertOfficeServesService(
+    officeId: string,
+    serviceId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<Office> {
+    const office = await client.office.findUnique({
+      where: { id: officeId },
+      include: { services: true },
+    });
+
+    if (!office) {
+      throw new NotFoundException('Office not found.');
+    }
+
+    if (
+      office.services.length > 0 &&
+      !office.services.some((assignment) => assignment.serviceId === serviceId)
+    ) {
+      throw new BadRequestException('The selected office does not deliver this service.');
+    }
+
+    return office;
+  }
+
+  private async assertServicesExist(serviceIds: string[]): Promise<void> {
+    if (!serviceIds.length) {
+      return;
+    }
+
+    const found = await this.prisma.service.count({ where: { id: { in: serviceIds } } });
+
+    if (found !== serviceIds.length) {
+      throw new NotFoundException('One or more services were not found.');
+    }
+  }
+
+  private assertValidTimezone(timezone: string): void {
+    if (!IANAZone.isValidZone(timezone)) {
+      throw new BadRequestException('Invalid timezone provided.');
+    }
+  }
+
+  private assertValidOpeningHours(openingHours?: OfficeOpeningHoursDto[]): void {
+    if (!openingHours) {
+      return;
+    }
+
+    for (const entry of openingHours) {
+      if (entry.closeTime <= entry.openTime) {
+        throw new BadRequestException('The closing time must be after the opening time.');
+      }
+    }
+  }
+
+  private toOpeningHoursJson(
+    openingHours?: OfficeOpeningHoursDto[],
+  ): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+    if (!openingHours) {
+      return Prisma.JsonNull;
+    }
+
+    return [...openingHours]
+      .sort(
+        (left, right) =>
+          left.dayOfWeek - right.dayOfWeek || left.openTime.localeCompare(right.openTime),
+      )
+      .map((entry) => ({
+        dayOfWeek: entry.dayOfWeek,
+        openTime: entry.openTime,
+        closeTime: entry.closeTime,
+      }));
+  }
+
+  private handleKnownErrors(error: unknown): void {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictException('An office with this slug already exists.');
+    }
+  }
+
+  private mapOffice(office: OfficeWithServices): OfficeDto {
+    return {
+      id: office.id,
+      slug: office.slug,
+      name: office.name,
+      wilayaCode: office.wilayaCode,
+      commune: office.commune,
+      address: office.address,
+      latitude: office.latitude ?? null,
+      longitude: office.longitude ?? null,
+      timezone: office.timezone,
+      phoneNumber: office.phoneNumber ?? null,
+      openingHours: Array.isArray(office.openingHours)
+        ? (office.openingHours as unknown as OfficeOpeningHoursDto[])
+        : [],
+      isActive: office.isActive,
+      metadata: (office.metadata as Record<string, unknown> | null) ?? null,
+      serviceIds: office.services.map((assignment) => assignment.serviceId),
+      createdAt: office.createdAt.toISOString(),
+      updatedAt: office.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DateTime } from 'luxon';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { ClosureType, Prisma } from '@prisma/client';
+
+import { ALGERIAN_FIXED_HOLIDAYS } from './constants/fixed-holidays.constants';
+
+export interface ClosedDay {
+  date: string;
+  name: string;
+  type: ClosureType;
+  closureId: string | null;
+  serviceId: string | null;
+  officeId: string | null;
+}
+
+/** Closed calendar dates mapped to the offices they apply to (`null` for every office). */
+export type ClosedDateIndex = Map<string, Array<string | null>>;
+
+@Injectable()
+export class ClosuresService {
+  private readonly logger = new Logger(ClosuresService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Resolves the calendar days that are closed between `from` and `to`,
+   * combining the fixed civil holidays with the closures stored by admins.
+   * When a service is given only closures for every service or for that
+   * service are returned; otherwise all stored closures are included. The
+   * office filter works the same way.
+   */
+  async listClosedDays(
+    from: Date,
+    to: Date,
+    serviceId?: string,
+    officeId?: string,
+  ): Promise<ClosedDay[]> {
+    // Closures are calendar days, so widen the range by a day on each side to
+    // cover slots whose local date differs from their UTC date.
+    const rangeStart = DateTime.fromJSDate(from, { zone: 'utc' }).minus({ days: 1 }).startOf('day');
+    const rangeEnd = DateTime.fromJSDate(to, { zone: 'utc' }).plus({ days: 1 }).startOf('day');
+
+    this.logger.verbose(
+      `Resolving closed days between ${rangeStart.toISODate()} and ${rangeEnd.toISODate()}`,
+    );
+
+    const where: Prisma.ClosureWhereInput = {
+      startDate: { lte: rangeEnd.toJSDate() },
+      endDate: { gte: rangeStart.toJSDate() },
+    };
+
+    const scopes: Prisma.ClosureWhereInput[] = [];
+
+    if (serviceId) {
+      scopes.push({ OR: [{ serviceId: null }, { serviceId }] });
+    }
+
+    if (officeId) {
+      scopes.push({ OR: [{ officeId: null }, { officeId }] });
+    }
+
+    if (scopes.length) {
+      where.AND = scopes;
+    }
+
+    const closures = await this.prisma.closure.findMany({
+      where,
+      orderBy: { startDate: 'asc' },
+    });
+
+    const days: ClosedDay[] = [];
+
+    for (let year = rangeStart.year; year <= rangeEnd.year; year++) {
+      for (const holiday of ALGERIAN_FIXED_HOLIDAYS) {
+        const date = DateTime.utc(year, holiday.month, holiday.day);
+
+        if (date >= rangeStart && date <= rangeEnd) {
+          days.push({
+            date: date.toISODate() as string,
+            name: holiday.name,
+            type: ClosureType.PUBLIC_HOLIDAY,
+            closureId: null,
+            serviceId: null,
+            officeId: null,
+          });
+        }
+      }
+    }
+
+    for (const closure of closures) {
+      let cursor = DateTime.fromJSDate(closure.startDate, { zone: 'utc' });
+      const last = DateTime.fromJSDate(closure.endDate, { zone: 'utc' });
+
+      while (cursor <= last) {
+        if (cursor >= rangeStart && cursor <= rangeEnd) {
+          days.push({
+            date: cursor.toISODate() as string,
+            name: closure.name,
+            type: closure.type,
+            closureId: closure.id,
+            serviceId: closure.serviceId ?? null,
+            officeId: closure.officeId ?? null,
+          });
+        }
+
+        cursor = cursor.plus({ days: 1 });
+      }
+    }
+
+    return days.sort((left, right) => left.date.localeCompare(right.date));
+  }
+
+  async getClosedDates(
+    from: Date,
+    to: Date,
+    serviceId: string,
+    officeId?: string,
+  ): Promise<ClosedDateIndex> {
+    const days = await this.listClosedDays(from, to, serviceId, officeId);
+    const index: ClosedDateIndex = new Map();
+
+    for (const day of days) {
+      const offices = index.get(day.date) ?? [];
+      offices.push(day.officeId);
+      index.set(day.date, offices);
+    }
+
+    return index;
+  }
+
+  isClosedOn(
+    instant: Date,
+    timezone: string,
+    closedDates: ClosedDateIndex,
+    officeId: string | null = null,
+  ): boolean {
+    if (!closedDates.size) {
+      return false;
+    }
+
+    const localDate = DateTime.fromJSDate(instant, { zone: timezone }).toISODate();
+    const offices = localDate ? closedDates.get(localDate) : undefined;
+
+    return Boolean(
+      offices?.some((closedOffice) => closedOffice === null || closedOffice === officeId),
+    );
+  }
+}
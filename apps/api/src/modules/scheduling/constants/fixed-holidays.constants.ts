@@ -0,0 +1,17 @@
+export interface FixedHoliday {
+  month: number;
+  day: number;
+  name: string;
+}
+
+/**
+ * Civil public holidays observed in Algeria on the same Gregorian date every
+ * year. Islamic holidays follow the Hijri calendar and are entered by admins.
+ */
+export const ALGERIAN_FIXED_HOLIDAYS: FixedHoliday[] = [
+  { month: 1, day: 1, name: "Nouvel An / New Year's Day" },
+  { month: 1, day: 12, name: 'Yennayer (Nouvel An amazigh)' },
+  { month: 5, day: 1, name: 'Fête du Travail / Labour Day' },
+  { month: 7, day: 5, name: "Fête de l'Indépendance / Independence Day" },
+  { month: 11, day: 1, name: 'Anniversaire de la Révolution / Revolution Day' },
+];
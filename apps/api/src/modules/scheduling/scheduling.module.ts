@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+
+import { ClosuresService } from '@modules/scheduling/closures.service';
+import { SlotGenerationService } from '@modules/scheduling/slot-generation.service';
+
+@Module({
+  providers: [SlotGenerationService, ClosuresService],
+  exports: [SlotGenerationService, ClosuresService],
+})
+export class SchedulingModule {}
@@ -0,0 +1,324 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+
+import { PrismaService } from '@prisma/prisma.service';
+import { AppointmentSlotStatus, ClosureType } from '@prisma/client';
+
+import { ClosuresService } from './closures.service';
+import { SlotGenerationService } from './slot-generation.service';
+import { buildScheduleWindows } from './utils/schedule-windows.utils';
+
+describe('SlotGenerationService', () => {
+  let service: SlotGenerationService;
+
+  // Monday 2030-01-07 00:00 in Africa/Algiers (UTC+1)
+  const now = new Date('2030-01-06T23:00:00.000Z');
+
+  const template = {
+    id: 'template1',
+    serviceId: 'service1',
+    officeId: 'office1',
+    specialistId: null,
+    name: 'Weekdays',
+    timezone: 'Africa/Algiers',
+    daysOfWeek: [1],
+    openTime: '08:00',
+    closeTime: '10:00',
+    breakStartTime: '09:00',
+    breakEndTime: '09:30',
+    intervalMinutes: null,
+    capacity: 2,
+    bufferBeforeMinutes: 0,
+    bufferAfterMinutes: 0,
+    horizonDays: 1,
+    validFrom: null,
+    validTo: null,
+    isActive: true,
+    lastGeneratedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    service: { id: 'service1', durationMinutes: 30, isActive: true },
+  };
+
+  const buildExistingSlot = (startAt: string, endAt: string, appointments = 0) => ({
+    id: `slot-${startAt}`,
+    serviceId: 'service1',
+    templateId: 'template1',
+    officeId: 'office1',
+    specialistId: null,
+    startAt: new Date(startAt),
+    endAt: new Date(endAt),
+    timezone: 'Africa/Algiers',
+    capacity: 2,
+    bufferBeforeMinutes: 0,
+    bufferAfterMinutes: 0,
+    status: AppointmentSlotStatus.AVAILABLE,
+    _count: { appointments, queueTickets: 0 },
+  });
+
+  const mockPrismaService = {
+    scheduleTemplate: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    closure: {
+      findMany: jest.fn(),
+    },
+    appointmentSlot: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SlotGenerationService,
+        ClosuresService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SlotGenerationService>(SlotGenerationService);
+
+    jest.clearAllMocks();
+    mockPrismaService.closure.findMany.mockResolvedValue([]);
+  });
+
+  describe('buildScheduleWindows', () => {
+    it('should skip the lunch break and closed days', () => {
+      const windows = buildScheduleWindows(template, 30, now, new Date('2030-01-08T23:00:00.000Z'));
+
+      expect(windows.map((window) => window.startAt.toISOString())).toEqual([
+        '2030-01-07T07:00:00.000Z',
+        '2030-01-07T07:30:00.000Z',
+        '2030-01-07T08:30:00.000Z',
+      ]);
+    });
+
+    it('should keep buffers around every slot', () => {
+      const windows = buildScheduleWindows(
+        {
+          ...template,
+          breakStartTime: null,
+          breakEndTime: null,
+          bufferBeforeMinutes: 5,
+          bufferAfterMinutes: 10,
+        },
+        30,
+        now,
+        new Date('2030-01-07T22:00:00.000Z'),
+      );
+
+      expect(windows.map((window) => window.startAt.toISOString())).toEqual([
+        '2030-01-07T07:05:00.000Z',
+        '2030-01-07T07:50:00.000Z',
+      ]);
+    });
+
+    it('should keep wall-clock opening times on a spring-forward day', () => {
+      // Clocks in Paris jump from 02:00 to 03:00 on Sunday 2030-03-31
+      const windows = buildScheduleWindows(
+        {
+          ...template,
+          timezone: 'Europe/Paris',
+          daysOfWeek: [7],
+          breakStartTime: null,
+          breakEndTime: null,
+        },
+        30,
+        new Date('2030-03-30T23:00:00.000Z'),
+        new Date('2030-03-31T21:00:00.000Z'),
+      );
+
+      expect(windows.map((window) => window.startAt.toISOString())).toEqual([
+        '2030-03-31T06:00:00.000Z',
+        '2030-03-31T06:30:00.000Z',
+        '2030-03-31T07:00:00.000Z',
+        '2030-03-31T07:30:00.000Z',
+      ]);
+      expect(windows[0].endAt.toISOString()).toBe('2030-03-31T06:30:00.000Z');
+    });
+  });
+
+  describe('regenerateTemplate', () => {
+    it('should create missing slots for the horizon', async () => {
+      mockPrismaService.scheduleTemplate.findUnique.mockResolvedValue(template);
+      mockPrismaService.appointmentSlot.findMany.mockResolvedValue([]);
+      mockPrismaService.appointmentSlot.createMany.mockResolvedValue({ count: 3 });
+
+      const result = await service.regenerateTemplate('template1', now);
+
+      expect(mockPrismaService.appointmentSlot.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([
+          expect.objectContaining({
+            templateId: 'template1',
+            startAt: new Date('2030-01-07T07:00:00.000Z'),
+            capacity: 2,
+          }),
+        ]),
+        skipDuplicates: true,
+      });
+      expect(result.created).toBe(3);
+    });
+
+    it('should be a no-op when slots already match the template', async () => {
+      mockPrismaService.scheduleTemplate.findUnique.mockResolvedValue(template);
+      mockPrismaService.appointmentSlot.findMany.mockResolvedValue([
+        buildExistingSlot('2030-01-07T07:00:00.000Z', '2030-01-07T07:30:00.000Z'),
+        buildExistingSlot('2030-01-07T07:30:00.000Z', '2030-01-07T08:00:00.000Z'),
+        buildExistingSlot('2030-01-07T08:30:00.000Z', '2030-01-07T09:00:00.000Z'),
+      ]);
+
+      const result = await service.regenerateTemplate('template1', now);
+
+      expect(mockPrismaService.appointmentSlot.createMany).not.toHaveBeenCalled();
+      expect(mockPrismaService.appointmentSlot.update).not.toHaveBeenCalled();
+      expect(mockPrismaService.appointmentSlot.deleteMany).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ created: 0, updated: 0, removed: 0 });
+    });
+
+    it('should never touch slots that hold appointments', async () => {
+      mockPrismaService.scheduleTemplate.findUnique.mockResolvedValue({
+        ...template,
+        capacity: 5,
+        daysOfWeek: [2],
+      });
+      mockPrismaService.appointmentSlot.findMany.mockResolvedValue([
+        buildExistingSlot('2030-01-07T07:00:00.000Z', '2030-01-07T07:30:00.000Z', 1),
+        buildExistingSlot('2030-01-07T07:30:00.000Z', '2030-01-07T08:00:00.000Z'),
+      ]);
+      mockPrismaService.appointmentSlot.deleteMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.regenerateTemplate('template1', now);
+
+      expect(mockPrismaService.appointmentSlot.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['slot-2030-01-07T07:30:00.000Z'] } },
+      });
+      expect(mockPrismaService.appointmentSlot.update).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ removed: 1, preserved: 1 });
+    });
+
+    it('should not generate slots on closure days', async () => {
+      mockPrismaService.scheduleTemplate.findUnique.mockResolvedValue(template);
+      mockPrismaService.closure.findMany.mockResolvedValue([
+        {
+          id: 'closure1',
+          type: ClosureType.RELIGIOUS_HOLIDAY,
+          name: 'Aïd el-Fitr',
+          startDate: new Date('2030-01-07T00:00:00.000Z'),
+          endDate: new Date('2030-01-07T00:00:00.000Z'),
+          serviceId: null,
+          officeId: null,
+        },
+      ]);
+      mockPrismaService.appointmentSlot.findMany.mockResolvedValue([]);
+
+      const result = await service.regenerateTemplate('template1', now);
+
+      expect(mockPrismaService.appointmentSlot.createMany).not.toHaveBeenCalled();
+      expect(result.created).toBe(0);
+    });
+
+    it('should ignore closures of other offices', async () => {
+      mockPrismaService.scheduleTemplate.findUnique.mockResolvedValue(template);
+      mockPrismaService.closure.findMany.mockResolvedValue([
+        {
+          id: 'closure1',
+          type: ClosureType.OFFICE_CLOSURE,
+          name: 'Travaux',
+          startDate: new Date('2030-01-07T00:00:00.000Z'),
+          endDate: new Date('2030-01-07T00:00:00.000Z'),
+          serviceId: null,
+          officeId: 'office2',
+        },
+      ]);
+      mockPrismaService.appointmentSlot.findMany.mockResolvedValue([]);
+      mockPrismaService.appointmentSlot.createMany.mockResolvedValue({ count: 3 });
+
+      const result = await service.regenerateTemplate('template1', now);
+
+      expect(mockPrismaService.appointmentSlot.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([expect.objectContaining({ officeId: 'office1' })]),
+        skipDuplicates: true,
+      });
+      expect(result.created).toBe(3);
+    });
+
+    it('should throw NotFoundException for unknown templates', async () => {
+      mockPrismaService.scheduleTemplate.findUnique.mockResolvedValue(null);
+
+      await expect(service.regenerateTemplate('missing', now)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('regenerateForScope', () => {
+    it('should only regenerate matching templates within the closure days', async () => {
+      mockPrismaService.scheduleTemplate.findMany.mockResolvedValue([{ id: 'template1' }]);
+      mockPrismaService.scheduleTemplate.findUnique.mockResolvedValue({
+        ...template,
+        horizonDays: 30,
+      });
+      mockPrismaService.appointmentSlot.findMany.mockResolvedValue([]);
+      mockPrismaService.appointmentSlot.createMany.mockResolvedValue({ count: 3 });
+
+      await service.regenerateForScope(
+        {
+          serviceId: 'service1',
+          officeId: null,
+          startDate: new Date('2030-01-14T00:00:00.000Z'),
+          endDate: new Date('2030-01-14T00:00:00.000Z'),
+        },
+        now,
+      );
+
+      expect(mockPrismaService.scheduleTemplate.findMany).toHaveBeenCalledWith({
+        where: { isActive: true, serviceId: 'service1' },
+        select: { id: true },
+      });
+      expect(mockPrismaService.appointmentSlot.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            templateId: 'template1',
+            startAt: {
+              gte: new Date('2030-01-13T00:00:00.000Z'),
+              lte: new Date('2030-01-16T00:00:00.000Z'),
+            },
+          },
+        }),
+      );
+      expect(mockPrismaService.appointmentSlot.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ startAt: new Date('2030-01-14T07:00:00.000Z') }),
+          expect.objectContaining({ startAt: new Date('2030-01-14T07:30:00.000Z') }),
+          expect.objectContaining({ startAt: new Date('2030-01-14T08:30:00.000Z') }),
+        ],
+        skipDuplicates: true,
+      });
+      expect(mockPrismaService.scheduleTemplate.update).not.toHaveBeenCalled();
+    });
+
+    it('should skip templates whose horizon ends before the closure', async () => {
+      mockPrismaService.scheduleTemplate.findMany.mockResolvedValue([{ id: 'template1' }]);
+      mockPrismaService.scheduleTemplate.findUnique.mockResolvedValue(template);
+
+      const [result] = await service.regenerateForScope(
+        {
+          startDate: new Date('2030-06-01T00:00:00.000Z'),
+          endDate: new Date('2030-06-02T00:00:00.000Z'),
+        },
+        now,
+      );
+
+      expect(mockPrismaService.appointmentSlot.findMany).not.toHaveBeenCalled();
+      expect(result.created).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { DateTime } from 'luxon';
+
+import { PrismaService } from '@prisma/prisma.service';
+import {
+  AppointmentSlotStatus,
+  AppointmentStatus,
+  Prisma,
+  QueueTicketStatus,
+  ScheduleTemplate,
+} from '@prisma/client';
+
+import { ClosuresService } from './closures.service';
+import { buildScheduleWindows } from './utils/schedule-windows.utils';
+
+export interface SlotGenerationRange {
+  from: Date;
+  to: Date;
+}
+
+export interface SlotGenerationScope {
+  serviceId?: string | null;
+  officeId?: string | null;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface SlotGenerationResult {
+  templateId: string;
+  created: number;
+  updated: number;
+  removed: number;
+  preserved: number;
+}
+
+@Injectable()
+export class SlotGenerationService {
+  private readonly logger = new Logger(SlotGenerationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly closures: ClosuresService,
+  ) {}
+
+  async regenerateActiveTemplates(now: Date = new Date()): Promise<SlotGenerationResult[]> {
+    const templates = await this.prisma.scheduleTemplate.findMany({
+      where: { isActive: true },
+      select: { id: true },
+    });
+
+    const results: SlotGenerationResult[] = [];
+
+    for (const template of templates) {
+      results.push(await this.regenerateTemplate(template.id, now));
+    }
+
+    return results;
+  }
+
+  /**
+   * Regenerates only the templates a closure can touch (same service and
+   * office, or every template when the closure is global), limited to the
+   * closure's days. The range is padded by a day on each side because the
+   * closure dates are calendar days in the template's time zone.
+   */
+  async regenerateForScope(
+    scope: SlotGenerationScope,
+    now: Date = new Date(),
+  ): Promise<SlotGenerationResult[]> {
+    const templates = await this.prisma.scheduleTemplate.findMany({
+      where: {
+        isActive: true,
+        ...(scope.serviceId ? { serviceId: scope.serviceId } : {}),
+        ...(scope.officeId ? { officeId: scope.officeId } : {}),
+      },
+      select: { id: true },
+    });
+
+    const range: SlotGenerationRange = {
+      from: DateTime.fromJSDate(scope.startDate, { zone: 'utc' }).minus({ days: 1 }).toJSDate(),
+      to: DateTime.fromJSDate(scope.endDate, { zone: 'utc' }).plus({ days: 2 }).toJSDate(),
+    };
+    const results: SlotGenerationResult[] = [];
+
+    for (const template of templates) {
+      results.push(await this.regenerateTemplate(template.id, now, range));
+    }
+
+    return results;
+  }
+
+  /**
+   * Brings the generated slots of a template in line with its rule for the
+   * rolling horizon. Running it twice in a row is a no-op, and slots holding
+   * active appointments are never modified or removed. Passing a `range`
+   * limits the work to the part of the horizon inside it.
+   */
+  async regenerateTemplate(
+    templateId: string,
+    now: Date = new Date(),
+    range?: SlotGenerationRange,
+  ): Promise<SlotGenerationResult> {
+    this.logger.verbose(`Regenerating slots for schedule template ${templateId}`);
+
+    return this.prisma.$transaction(async (tx) => {
+      const template = await tx.scheduleTemplate.findUnique({
+        where: { id: templateId },
+        include: { service: true },
+      });
+
+      if (!template) {
+        throw new NotFoundException('Schedule template not found.');
+      }
+
+      const horizonEnd = DateTime.fromJSDate(now).plus({ days: template.horizonDays }).toJSDate();
+      const from = range && range.from > now ? range.from : now;
+      const to = range && range.to < horizonEnd ? range.to : horizonEnd;
+      const result: SlotGenerationResult = {
+        templateId,
+        created: 0,
+        updated: 0,
+        removed: 0,
+        preserved: 0,
+      };
+
+      if (from > to) {
+        return result;
+      }
+
+      const closedDates = await this.closures.getClosedDates(
+        from,
+        to,
+        template.serviceId,
+        template.officeId ?? undefined,
+      );
+      const windows =
+        template.isActive && template.service.isActive
+          ? buildScheduleWindows(template, template.service.durationMinutes, from, to).filter(
+              (window) =>
+                !this.closures.isClosedOn(
+                  window.startAt,
+                  template.timezone,
+                  closedDates,
+                  template.officeId,
+                ),
+            )
+          : [];
+
+      const existingSlots = await tx.appointmentSlot.findMany({
+        where: {
+          templateId,
+          startAt: range ? { gte: from, lte: to } : { gte: now },
+        },
+        include: {
+          _count: {
+            select: {
+              appointments: { where: { status: { not: AppointmentStatus.CANCELLED } } },
+              queueTickets: {
+                where: {
+                  status: { in: [QueueTicketStatus.WAITING, QueueTicketStatus.NOTIFIED] },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      const existingByStart = new Map(existingSlots.map((slot) => [slot.startAt.getTime(), slot]));
+      const desiredStarts = new Set(windows.map((window) => window.startAt.getTime()));
+
+      const toCreate: Prisma.AppointmentSlotCreateManyInput[] = [];
+
+      for (const window of windows) {
+        const existing = existingByStart.get(window.startAt.getTime());
+
+        if (!existing) {
+          toCreate.push(this.buildSlotData(template, window.startAt, window.endAt));
+          continue;
+        }
+
+        if (existing.status === AppointmentSlotStatus.CANCELLED) {
+          continue;
+        }
+
+        if (existing._count.appointments > 0) {
+          result.preserved += 1;
+          continue;
+        }
+
+        const needsUpdate =
+          existing.endAt.getTime() !== window.endAt.getTime() ||
+          existing.timezone !== template.timezone ||
+          existing.officeId !== template.officeId ||
+          existing.specialistId !== template.specialistId ||
+          existing.capacity !== template.capacity ||
+          existing.bufferBeforeMinutes !== template.bufferBeforeMinutes ||
+          existing.bufferAfterMinutes !== template.bufferAfterMinutes;
+
+        if (needsUpdate) {
+          await tx.appointmentSlot.update({
+            where: { id: existing.id },
+            data: {
+              endAt: window.endAt,
+              timezone: template.timezone,
+              officeId: template.officeId,
+              specialistId: template.specialistId,
+              capacity: template.capacity,
+              bufferBeforeMinutes: template.bufferBeforeMinutes,
+              bufferAfterMinutes: template.bufferAfterMinutes,
+              status: AppointmentSlotStatus.AVAILABLE,
+            },
+          });
+          result.updated += 1;
+        }
+      }
+
+      if (toCreate.length) {
+        const created = await tx.appointmentSlot.createMany({
+          data: toCreate,
+          skipDuplicates: true,
+        });
+        result.created = created.count;
+      }
+
+      const removable = existingSlots.filter(
+        (slot) =>
+          !desiredStarts.has(slot.startAt.getTime()) &&
+          slot._count.appointments === 0 &&
+          slot._count.queueTickets === 0,
+      );
+
+      result.preserved += existingSlots.filter(
+        (slot) => !desiredStarts.has(slot.startAt.getTime()) && !removable.includes(slot),
+      ).length;
+
+      if (removable.length) {
+        const removed = await tx.appointmentSlot.deleteMany({
+          where: { id: { in: removable.map((slot) => slot.id) } },
+        });
+        result.removed = removed.count;
+      }
+
+      if (!range) {
+        await tx.scheduleTemplate.update({
+          where: { id: templateId },
+          data: { lastGeneratedAt: now },
+        });
+      }
+
+      this.logger.log(
+        `Template ${templateId}: created=${result.created} updated=${result.updated} removed=${result.removed} preserved=${result.preserved}`,
+      );
+
+      return result;
+    });
+  }
+
+  private buildSlotData(
+    template: ScheduleTemplate,
+    startAt: Date,
+    endAt: Date,
+  ): Prisma.AppointmentSlotCreateManyInput {
+    return {
+      serviceId: template.serviceId,
+      templateId: template.id,
+      officeId: template.officeId,
+      specialistId: template.specialistId,
+      startAt,
+      endAt,
+      timezone: template.timezone,
+      capacity: template.capacity,
+      bufferBeforeMinutes: template.bufferBeforeMinutes,
+      bufferAfterMinutes: template.bufferAfterMinutes,
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { DateTime } from 'luxon';
+
+export interface ScheduleRule {
+  timezone: string;
+  daysOfWeek: number[];
+  openTime: string;
+  closeTime: string;
+  breakStartTime?: string | null;
+  breakEndTime?: string | null;
+  intervalMinutes?: number | null;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  validFrom?: Date | null;
+  validTo?: Date | null;
+}
+
+export interface ScheduleWindow {
+  startAt: Date;
+  endAt: Date;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const parseTimeOfDay = (value: string): number => {
+  const match = TIME_PATTERN.exec(value);
+
+  if (!match) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+
+  return Number.parseInt(match[1], 10) * 60 + Number.parseInt(match[2], 10);
+};
+
+/**
+ * Expands a weekly rule into concrete slot windows between `from` and `to`.
+ * Days of week follow ISO numbering (1 = Monday, 7 = Sunday) and times are
+ * interpreted in the rule timezone.
+ */
+export const buildScheduleWindows = (
+  rule: ScheduleRule,
+  durationMinutes: number,
+  from: Date,
+  to: Date,
+): ScheduleWindow[] => {
+  const openMinutes = parseTimeOfDay(rule.openTime);
+  const closeMinutes = parseTimeOfDay(rule.closeTime);
+  const breakStart = rule.breakStartTime ? parseTimeOfDay(rule.breakStartTime) : null;
+  const breakEnd = rule.breakEndTime ? parseTimeOfDay(rule.breakEndTime) : null;
+  const step =
+    rule.intervalMinutes ?? rule.bufferBeforeMinutes + durationMinutes + rule.bufferAfterMinutes;
+
+  if (step <= 0 || durationMinutes <= 0) {
+    return [];
+  }
+
+  const windows: ScheduleWindow[] = [];
+  const lastDay = DateTime.fromJSDate(to, { zone: rule.timezone }).startOf('day');
+  let day = DateTime.fromJSDate(from, { zone: rule.timezone }).startOf('day');
+
+  while (day <= lastDay) {
+    if (rule.daysOfWeek.includes(day.weekday)) {
+      let cursor = openMinutes + rule.bufferBeforeMinutes;
+
+      while (cursor + durationMinutes + rule.bufferAfterMinutes <= closeMinutes) {
+        const slotEnd = cursor + durationMinutes;
+        const overlapsBreak =
+          breakStart !== null &&
+          breakEnd !== null &&
+          cursor - rule.bufferBeforeMinutes < breakEnd &&
+          slotEnd + rule.bufferAfterMinutes > breakStart;
+
+        if (overlapsBreak) {
+          cursor = Math.max(cursor + step, (breakEnd as number) + rule.bufferBeforeMinutes);
+          continue;
+        }
+
+        // Wall-clock times, so slots keep their opening hours on DST change days.
+        const startAt = day.set({ hour: Math.floor(cursor / 60), minute: cursor % 60 }).toJSDate();
+        const endAt = day.set({ hour: Math.floor(slotEnd / 60), minute: slotEnd % 60 }).toJSDate();
+
+        const withinRange = startAt >= from && startAt <= to;
+        const withinValidity =
+          (!rule.validFrom || startAt >= rule.validFrom) &&
+          (!rule.validTo || startAt <= rule.validTo);
+
+        if (withinRange && withinValidity) {
+          windows.push({ startAt, endAt });
+        }
+
+        cursor += step;
+      }
+    }
+
+    day = day.plus({ days: 1 });
+  }
+
+  return windows;
+};
@@ -16,6 +16,7 @@ import {
   ValidateNested,
 } from 'class-validator';
 
+import { ServiceBookingPolicyDto } from './service-booking-policy.dto';
 import { ServiceTranslationDto } from './service-translation.dto';
 
 const PRICE_PATTERN = /^\d+(?:\.\d{1,2})?$/;
@@ -54,6 +55,12 @@ export class CreateServiceDto {
   @IsObject()
   metadata?: Record<string, unknown>;
 
+  @ApiPropertyOptional({ type: () => ServiceBookingPolicyDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ServiceBookingPolicyDto)
+  bookingPolicy?: ServiceBookingPolicyDto;
+
   @ApiProperty({ type: [ServiceTranslationDto] })
   @IsArray()
   @ArrayMinSize(1)
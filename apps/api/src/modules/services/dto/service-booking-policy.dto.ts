@@ -0,0 +1,85 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class ServiceBookingPolicyDto {
+  @ApiPropertyOptional({
+    example: 120,
+    nullable: true,
+    description: 'Minimum delay between booking and the start of the appointment, in minutes',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(43200)
+  minLeadMinutes?: number | null;
+
+  @ApiPropertyOptional({
+    example: 60,
+    nullable: true,
+    description: 'How many days ahead appointments can be booked',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(730)
+  maxAdvanceDays?: number | null;
+
+  @ApiPropertyOptional({
+    example: 1440,
+    nullable: true,
+    description: 'Minutes before the start after which clients can no longer cancel or reschedule',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(43200)
+  changeCutoffMinutes?: number | null;
+
+  @ApiPropertyOptional({
+    example: 1,
+    nullable: true,
+    description: 'Upcoming appointments a user may hold for the service at once',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  maxActivePerUser?: number | null;
+
+  @ApiPropertyOptional({
+    example: 1,
+    nullable: true,
+    description:
+      'Upcoming appointments each dependent of a user may hold for the service at once; defaults to the per-user limit',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  maxActivePerDependent?: number | null;
+
+  @ApiPropertyOptional({
+    example: 2,
+    nullable: true,
+    description: 'No-shows within the window that trigger a booking cooldown',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  noShowLimit?: number | null;
+
+  @ApiPropertyOptional({ example: 90, default: 90 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(730)
+  noShowWindowDays?: number;
+
+  @ApiPropertyOptional({ example: 30, default: 30 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  noShowCooldownDays?: number;
+}
@@ -100,6 +100,32 @@ export class ServiceTranslationResponseDto {
   updatedAt!: string;
 }
 
+export class ServiceBookingPolicyResponseDto {
+  @ApiProperty({ type: Number, nullable: true, example: 120 })
+  minLeadMinutes!: number | null;
+
+  @ApiProperty({ type: Number, nullable: true, example: 60 })
+  maxAdvanceDays!: number | null;
+
+  @ApiProperty({ type: Number, nullable: true, example: 1440 })
+  changeCutoffMinutes!: number | null;
+
+  @ApiProperty({ type: Number, nullable: true, example: 1 })
+  maxActivePerUser!: number | null;
+
+  @ApiProperty({ type: Number, nullable: true, example: 1 })
+  maxActivePerDependent!: number | null;
+
+  @ApiProperty({ type: Number, nullable: true, example: 2 })
+  noShowLimit!: number | null;
+
+  @ApiProperty({ example: 90 })
+  noShowWindowDays!: number;
+
+  @ApiProperty({ example: 30 })
+  noShowCooldownDays!: number;
+}
+
 export class ServiceResponseDto {
   @ApiProperty()
   id!: string;
@@ -119,6 +145,10 @@ export class ServiceResponseDto {
   @ApiPropertyOptional({ type: 'object', example: { channel: 'virtual' } })
   metadata?: Record<string, unknown> | null;
 
+  @ApiPropertyOptional({ type: () => ServiceBookingPolicyResponseDto, nullable: true })
+  @Type(() => ServiceBookingPolicyResponseDto)
+  bookingPolicy?: ServiceBookingPolicyResponseDto | null;
+
   @ApiProperty({ type: String, format: 'date-time' })
   createdAt!: string;
 
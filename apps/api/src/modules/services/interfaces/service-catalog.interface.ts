@@ -30,6 +30,17 @@ export interface ServiceTranslationViewModel {
   updatedAt: Date;
 }
 
+export interface ServiceBookingPolicyViewModel {
+  minLeadMinutes: number | null;
+  maxAdvanceDays: number | null;
+  changeCutoffMinutes: number | null;
+  maxActivePerUser: number | null;
+  maxActivePerDependent: number | null;
+  noShowLimit: number | null;
+  noShowWindowDays: number;
+  noShowCooldownDays: number;
+}
+
 export interface ServiceViewModel {
   id: string;
   slug: string;
@@ -37,6 +48,7 @@ export interface ServiceViewModel {
   price: string;
   isActive: boolean;
   metadata?: Record<string, unknown> | null;
+  bookingPolicy: ServiceBookingPolicyViewModel | null;
   createdAt: Date;
   updatedAt: Date;
   translation: ServiceTranslationViewModel | null;
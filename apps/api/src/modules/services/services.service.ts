@@ -21,6 +21,7 @@ import { PrismaService } from '@prisma/prisma.service';
 
 const serviceInclude = {
   translations: true,
+  bookingPolicy: true,
   category: {
     include: {
       translations: true,
@@ -192,6 +193,7 @@ export class ServicesService {
           price: new Prisma.Decimal(dto.price),
           isActive: dto.isActive ?? true,
           metadata: this.toJsonValue(dto.metadata),
+          bookingPolicy: dto.bookingPolicy ? { create: dto.bookingPolicy } : undefined,
           category: {
             connect: {
               id: dto.categoryId,
@@ -241,6 +243,11 @@ export class ServicesService {
     if (dto.metadata !== undefined) {
       data.metadata = this.toJsonValue(dto.metadata);
     }
+    if (dto.bookingPolicy) {
+      data.bookingPolicy = {
+        upsert: { create: dto.bookingPolicy, update: dto.bookingPolicy },
+      };
+    }
     if (dto.categoryId !== undefined) {
       data.category = {
         connect: {
@@ -512,6 +519,18 @@ export class ServicesService {
       price: service.price.toFixed(2),
       isActive: service.isActive,
       metadata: this.normalizeMetadata(service.metadata),
+      bookingPolicy: service.bookingPolicy
+        ? {
+            minLeadMinutes: service.bookingPolicy.minLeadMinutes,
+            maxAdvanceDays: service.bookingPolicy.maxAdvanceDays,
+            changeCutoffMinutes: service.bookingPolicy.changeCutoffMinutes,
+            maxActivePerUser: service.bookingPolicy.maxActivePerUser,
+            maxActivePerDependent: service.bookingPolicy.maxActivePerDependent,
+            noShowLimit: service.bookingPolicy.noShowLimit,
+            noShowWindowDays: service.bookingPolicy.noShowWindowDays,
+            noShowCooldownDays: service.bookingPolicy.noShowCooldownDays,
+          }
+        : null,
       createdAt: service.createdAt,
       updatedAt: service.updatedAt,
       translations,
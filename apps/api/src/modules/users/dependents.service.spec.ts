@@ -0,0 +1,134 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DependentRelationship, Prisma } from '@prisma/client';
+
+import { PrismaService } from '@prisma/prisma.service';
+
+import { DependentsService, MAX_DEPENDENTS_PER_USER } from './dependents.service';
+
+describe('DependentsService', () => {
+  let service: DependentsService;
+
+  const dependent = {
+    id: 'dependent1',
+    userId: 'user1',
+    firstName: 'Yacine',
+    lastName: 'Benali',
+    birthDate: new Date('2015-03-21T00:00:00.000Z'),
+    relationship: DependentRelationship.CHILD,
+    nationalId: '109990123456789012',
+    createdAt: new Date('2030-01-01T08:00:00.000Z'),
+    updatedAt: new Date('2030-01-01T08:00:00.000Z'),
+  };
+
+  const mockPrismaService = {
+    dependent: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    appointment: {
+      count: jest.fn(),
+    },
+    queueTicket: {
+      count: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [DependentsService, { provide: PrismaService, useValue: mockPrismaService }],
+    }).compile();
+
+    service = module.get<DependentsService>(DependentsService);
+
+    jest.clearAllMocks();
+    mockPrismaService.dependent.count.mockResolvedValue(0);
+    mockPrismaService.dependent.findUnique.mockResolvedValue(dependent);
+    mockPrismaService.appointment.count.mockResolvedValue(0);
+    mockPrismaService.queueTicket.count.mockResolvedValue(0);
+  });
+
+  describe('create', () => {
+    it('should store the birth date as a calendar date', async () => {
+      mockPrismaService.dependent.create.mockResolvedValue(dependent);
+
+      const result = await service.create('user1', {
+        firstName: 'Yacine',
+        lastName: 'Benali',
+        birthDate: '2015-03-21',
+        relationship: DependentRelationship.CHILD,
+        nationalId: '109990123456789012',
+      });
+
+      expect(mockPrismaService.dependent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user1',
+          birthDate: new Date('2015-03-21T00:00:00.000Z'),
+        }),
+      });
+      expect(result.birthDate).toBe('2015-03-21');
+    });
+
+    it('should cap the number of dependents per account', async () => {
+      mockPrismaService.dependent.count.mockResolvedValue(MAX_DEPENDENTS_PER_USER);
+
+      await expect(
+        service.create('user1', {
+          firstName: 'Yacine',
+          lastName: 'Benali',
+          birthDate: '2015-03-21',
+          relationship: DependentRelationship.CHILD,
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockPrismaService.dependent.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a national ID already registered on the account', async () => {
+      mockPrismaService.dependent.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(
+        service.create('user1', {
+          firstName: 'Yacine',
+          lastName: 'Benali',
+          birthDate: '2015-03-21',
+          relationship: DependentRelationship.CHILD,
+          nationalId: '109990123456789012',
+        }),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+  });
+
+  describe('findOwnedOrThrow', () => {
+    it('should hide the dependents of other users', async () => {
+      await expect(service.findOwnedOrThrow('user2', 'dependent1')).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should keep dependents that still have upcoming appointments', async () => {
+      mockPrismaService.appointment.count.mockResolvedValue(1);
+
+      await expect(service.remove('user1', 'dependent1')).rejects.toBeInstanceOf(ConflictException);
+      expect(mockPrismaService.dependent.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete dependents with nothing pending', async () => {
+      await service.remove('user1', 'dependent1');
+
+      expect(mockPrismaService.dependent.delete).toHaveBeenCalledWith({
+        where: { id: 'dependent1' },
+      });
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Dependent, Prisma, QueueTicketStatus } from '@prisma/client';
+
+import { AWAITED_APPOINTMENT_STATUSES } from '@modules/appointments/appointment-attendance.service';
+import {
+  CreateDependentDto,
+  DependentListResponseDto,
+  DependentResponseDto,
+  UpdateDependentDto,
+} from '@modules/users/dto/dependent.dto';
+import { PrismaService } from '@prisma/prisma.service';
+
+export const MAX_DEPENDENTS_PER_USER = 10;
+
+/** Queue ticket statuses of dependents still waiting to be served. */
+const ACTIVE_QUEUE_TICKET_STATUSES: QueueTicketStatus[] = [
+  QueueTicketStatus.WAITING,
+  QueueTicketStatus.NOTIFIED,
+];
+
+/**
+ * Family members an account holder books, queues and files documents for.
+ * Appointments, tickets and uploads stay owned by the account holder and
+ * reference the dependent they are for.
+ */
+@Injectable()
+export class DependentsService {
+  private readonly logger = new Logger(DependentsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async listForUser(userId: string): Promise<DependentListResponseDto> {
+    const dependents = await this.prisma.dependent.findMany({
+      where: { userId },
+      orderBy: [{ birthDate: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return { data: dependents.map((dependent) => this.mapDependent(dependent)) };
+  }
+
+  async create(userId: string, dto: CreateDependentDto): Promise<DependentResponseDto> {
+    const count = await this.prisma.dependent.count({ where: { userId } });
+
+    if (count >= MAX_DEPENDENTS_PER_USER) {
+      throw new BadRequestException(
+        `An account cannot hold more than ${MAX_DEPENDENTS_PER_USER} dependents.`,
+      );
+    }
+
+    const dependent = await this.persist(() =>
+      this.prisma.dependent.create({
+        data: {
+          userId,
+          firstName: dto.firstName,
+          lastName: dto.lastName,
+          birthDate: this.parseBirthDate(dto.birthDate),
+          relationship: dto.relationship,
+          nationalId: dto.nationalId ?? null,
+        },
+      }),
+    );
+
+    this.logger.log(`Dependent ${dependent.id} added for user ${userId}`);
+
+    return this.mapDependent(dependent);
+  }
+
+  async update(
+    userId: string,
+    dependentId: string,
+    dto: UpdateDependentDto,
+  ): Promise<DependentResponseDto> {
+    await this.findOwnedOrThrow(userId, dependentId);
+
+    const dependent = await this.persist(() =>
+      this.prisma.dependent.update({
+        where: { id: dependentId },
+        data: {
+          firstName: dto.firstName,
+          lastName: dto.lastName,
+          birthDate: dto.birthDate ? this.parseBirthDate(dto.birthDate) : undefined,
+          relationship: dto.relationship,
+          nationalId: dto.nationalId,
+        },
+      }),
+    );
+
+    return this.mapDependent(dependent);
+  }
+
+  /**
+   * Removes a dependent. Refused while they still have an upcoming
+   * appointment or a ticket in a queue, which would otherwise silently fall
+   * back to the account holder.
+   */
+  async remove(userId: string, dependentId: string, now: Date = new Date()): Promise<void> {
+    await this.findOwnedOrThrow(userId, dependentId);
+
+    const [appointments, queueTickets] = await Promise.all([
+      this.prisma.appointment.count({
+        where: {
+          dependentId,
+          status: { in: AWAITED_APPOINTMENT_STATUSES },
+          scheduledAt: { gte: now },
+        },
+      }),
+      this.prisma.queueTicket.count({
+        where: { dependentId, status: { in: ACTIVE_QUEUE_TICKET_STATUSES } },
+      }),
+    ]);
+
+    if (appointments > 0 || queueTickets > 0) {
+      throw new ConflictException(
+        'The dependent still has upcoming appointments or queue tickets.',
+      );
+    }
+
+    await this.prisma.dependent.delete({ where: { id: dependentId } });
+
+    this.logger.log(`Dependent ${dependentId} removed for user ${userId}`);
+  }
+
+  /** Loads a dependent of the given account holder, hiding those of others. */
+  async findOwnedOrThrow(
+    userId: string,
+    dependentId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<Dependent> {
+    const dependent = await client.dependent.findUnique({ where: { id: dependentId } });
+
+    if (!dependent || dependent.userId !== userId) {
+      throw new NotFoundException('Dependent not found.');
+    }
+
+    return dependent;
+  }
+
+  private parseBirthDate(value: string): Date {
+    const birthDate = new Date(`${value.slice(0, 10)}T00:00:00.000Z`);
+
+    if (Number.isNaN(birthDate.getTime()) || birthDate.getTime() > Date.now()) {
+      throw new BadRequestException('The birth date must be in the past.');
+    }
+
+    return birthDate;
+  }
+
+  private async persist(write: () => Promise<Dependent>): Promise<Dependent> {
+    try {
+      return await write();
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException('A dependent with this national ID already exists.');
+      }
+
+      throw error;
+    }
+  }
+
+  private mapDependent(dependent: Dependent): DependentResponseDto {
+    return {
+      id: dependent.id,
+      firstName: dependent.firstName,
+      lastName: dependent.lastName,
+      birthDate: dependent.birthDate.toISOString().slice(0, 10),
+      relationship: dependent.relationship,
+      nationalId: dependent.nationalId,
+      createdAt: dependent.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { DependentRelationship } from '@prisma/client';
+import { Transform } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+/** Algerian national identification numbers (NIN) have 18 digits. */
+export const NATIONAL_ID_PATTERN = /^\d{18}$/;
+
+export class CreateDependentDto {
+  @ApiProperty({ example: 'Yacine' })
+  @Transform(({ value }) => value?.trim())
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  firstName!: string;
+
+  @ApiProperty({ example: 'Benali' })
+  @Transform(({ value }) => value?.trim())
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  lastName!: string;
+
+  @ApiProperty({ type: String, format: 'date', example: '2015-03-21' })
+  @IsDateString({ strict: true })
+  birthDate!: string;
+
+  @ApiProperty({ enum: DependentRelationship, example: DependentRelationship.CHILD })
+  @IsEnum(DependentRelationship)
+  relationship!: DependentRelationship;
+
+  @ApiPropertyOptional({
+    description: 'National identification number',
+    example: '109990123456789012',
+  })
+  @Transform(({ value }) => value?.trim())
+  @IsOptional()
+  @Matches(NATIONAL_ID_PATTERN, { message: 'nationalId must contain 18 digits' })
+  nationalId?: string;
+}
+
+export class UpdateDependentDto extends PartialType(CreateDependentDto) {}
+
+export class DependentResponseDto {
+  @ApiProperty({ format: 'uuid' })
+  id!: string;
+
+  @ApiProperty()
+  firstName!: string;
+
+  @ApiProperty()
+  lastName!: string;
+
+  @ApiProperty({ type: String, format: 'date' })
+  birthDate!: string;
+
+  @ApiProperty({ enum: DependentRelationship })
+  relationship!: DependentRelationship;
+
+  @ApiPropertyOptional({ type: String, nullable: true })
+  nationalId!: string | null;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  createdAt!: string;
+}
+
+export class DependentListResponseDto {
+  @ApiProperty({ type: [DependentResponseDto] })
+  data!: DependentResponseDto[];
+}
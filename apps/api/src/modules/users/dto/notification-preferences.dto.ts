@@ -0,0 +1,22 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class UpdateNotificationPreferencesDto {
+  @ApiPropertyOptional({ description: 'Receive appointment reminders by email' })
+  @IsOptional()
+  @IsBoolean()
+  emailReminders?: boolean;
+
+  @ApiPropertyOptional({ description: 'Receive appointment reminders by SMS' })
+  @IsOptional()
+  @IsBoolean()
+  smsReminders?: boolean;
+}
+
+export class NotificationPreferencesResponseDto {
+  @ApiProperty()
+  emailReminders!: boolean;
+
+  @ApiProperty()
+  smsReminders!: boolean;
+}
@@ -1,5 +1,23 @@
-import { Body, Controller, Get, Param, Patch, Query } from '@nestjs/common';
-import { ApiBearerAuth, ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
 
 import { ROLE } from '@common/constants/role.constants';
 import { CurrentUser } from '@common/decorators/current-user.decorator';
@@ -7,6 +25,17 @@ import { Roles } from '@common/decorators/roles.decorator';
 import { PaginationQueryDto, ResourceIdParamDto } from '@acme/shared-dto';
 import { AuthenticatedUserDto } from '@modules/auth/dto/auth-tokens-response.dto';
 import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
+import { DependentsService } from '@modules/users/dependents.service';
+import {
+  CreateDependentDto,
+  DependentListResponseDto,
+  DependentResponseDto,
+  UpdateDependentDto,
+} from '@modules/users/dto/dependent.dto';
+import {
+  NotificationPreferencesResponseDto,
+  UpdateNotificationPreferencesDto,
+} from '@modules/users/dto/notification-preferences.dto';
 import { UpdateProfileDto } from '@modules/users/dto/update-profile.dto';
 import { UsersService } from '@modules/users/users.service';
 
@@ -14,7 +43,10 @@ import { UsersService } from '@modules/users/users.service';
 @ApiBearerAuth()
 @Controller({ path: 'users', version: '1' })
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly dependentsService: DependentsService,
+  ) {}
 
   @Get()
   @Roles(ROLE.ADMIN)
@@ -41,6 +73,65 @@ export class UsersController {
     return this.usersService.updateProfile(user.id, updateProfileDto);
   }
 
+  @Get('me/notification-preferences')
+  @ApiOperation({ summary: 'Retrieve the reminder channels of the authenticated user' })
+  @ApiOkResponse({
+    description: 'Notification preferences retrieved',
+    type: NotificationPreferencesResponseDto,
+  })
+  getNotificationPreferences(@CurrentUser() user: AuthenticatedUser) {
+    return this.usersService.getNotificationPreferences(user.id);
+  }
+
+  @Patch('me/notification-preferences')
+  @ApiOperation({ summary: 'Opt in or out of appointment reminders per channel' })
+  @ApiOkResponse({
+    description: 'Notification preferences updated',
+    type: NotificationPreferencesResponseDto,
+  })
+  updateNotificationPreferences(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: UpdateNotificationPreferencesDto,
+  ) {
+    return this.usersService.updateNotificationPreferences(user.id, dto);
+  }
+
+  @Get('me/dependents')
+  @ApiOperation({ summary: 'List the dependents of the authenticated user' })
+  @ApiOkResponse({ description: 'Dependents retrieved', type: DependentListResponseDto })
+  listDependents(@CurrentUser() user: AuthenticatedUser) {
+    return this.dependentsService.listForUser(user.id);
+  }
+
+  @Post('me/dependents')
+  @ApiOperation({ summary: 'Add a dependent the authenticated user books for' })
+  @ApiCreatedResponse({ description: 'Dependent added', type: DependentResponseDto })
+  createDependent(@CurrentUser() user: AuthenticatedUser, @Body() dto: CreateDependentDto) {
+    return this.dependentsService.create(user.id, dto);
+  }
+
+  @Patch('me/dependents/:id')
+  @ApiOperation({ summary: 'Update a dependent of the authenticated user' })
+  @ApiOkResponse({ description: 'Dependent updated', type: DependentResponseDto })
+  updateDependent(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param() params: ResourceIdParamDto,
+    @Body() dto: UpdateDependentDto,
+  ) {
+    return this.dependentsService.update(user.id, params.id, dto);
+  }
+
+  @Delete('me/dependents/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a dependent of the authenticated user' })
+  @ApiNoContentResponse({ description: 'Dependent removed' })
+  async removeDependent(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param() params: ResourceIdParamDto,
+  ) {
+    await this.dependentsService.remove(user.id, params.id);
+  }
+
   @Get(':id')
   @Roles(ROLE.ADMIN)
   @ApiOperation({ summary: 'Get a single user' })
@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 
+import { DependentsService } from '@modules/users/dependents.service';
 import { UsersController } from '@modules/users/users.controller';
 import { UsersService } from '@modules/users/users.service';
 
 @Module({
   controllers: [UsersController],
-  providers: [UsersService],
-  exports: [UsersService],
+  providers: [UsersService, DependentsService],
+  exports: [UsersService, DependentsService],
 })
 export class UsersModule {}
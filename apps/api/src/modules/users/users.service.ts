@@ -1,9 +1,13 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
-import { Prisma } from '@prisma/client';
+import { NotificationChannel, Prisma } from '@prisma/client';
 
 import { PaginationQueryDto } from '@acme/shared-dto';
 import { AuthenticatedUser } from '@modules/auth/interfaces/authenticated-user.interface';
 import { mapToAuthenticatedUser } from '@modules/auth/utils/auth.utils';
+import {
+  NotificationPreferencesResponseDto,
+  UpdateNotificationPreferencesDto,
+} from '@modules/users/dto/notification-preferences.dto';
 import { UpdateProfileDto } from '@modules/users/dto/update-profile.dto';
 import { PrismaService } from '@prisma/prisma.service';
 
@@ -176,4 +180,50 @@ export class UsersService {
       throw error;
     }
   }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferencesResponseDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { reminderOptOuts: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    return this.mapNotificationPreferences(user.reminderOptOuts);
+  }
+
+  async updateNotificationPreferences(
+    userId: string,
+    dto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferencesResponseDto> {
+    this.logger.verbose(`Updating notification preferences for user ${userId}`);
+
+    const current = await this.getNotificationPreferences(userId);
+    const emailReminders = dto.emailReminders ?? current.emailReminders;
+    const smsReminders = dto.smsReminders ?? current.smsReminders;
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        reminderOptOuts: [
+          ...(emailReminders ? [] : [NotificationChannel.EMAIL]),
+          ...(smsReminders ? [] : [NotificationChannel.SMS]),
+        ],
+      },
+      select: { reminderOptOuts: true },
+    });
+
+    return this.mapNotificationPreferences(user.reminderOptOuts);
+  }
+
+  private mapNotificationPreferences(
+    optOuts: NotificationChannel[],
+  ): NotificationPreferencesResponseDto {
+    return {
+      emailReminders: !optOuts.includes(NotificationChannel.EMAIL),
+      smsReminders: !optOuts.includes(NotificationChannel.SMS),
+    };
+  }
 }
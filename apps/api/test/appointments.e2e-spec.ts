@@ -7,7 +7,6 @@ import { AppModule } from '@app/app.module';
 import { AppConfig } from '@config/app.config';
 import { HttpExceptionFilter } from '@common/filters/http-exception.filter';
 import { LoggingInterceptor } from '@common/interceptors/logging.interceptor';
-import { AppointmentNotificationsService } from '@modules/appointments/appointment-notifications.service';
 import { PrismaService } from '@prisma/prisma.service';
 import { AppointmentSlotStatus, AppointmentStatus, QueueTicketStatus } from '@prisma/client';
 
@@ -18,7 +17,6 @@ const API_PREFIX = '/api/v1';
 describe('Appointments management (e2e)', () => {
   let app: INestApplication;
   let prisma: PrismaService;
-  let notifications: AppointmentNotificationsService;
   let seedData: SeedData;
 
   beforeAll(async () => {
@@ -54,13 +52,11 @@ describe('Appointments management (e2e)', () => {
     await app.init();
 
     prisma = app.get(PrismaService);
-    notifications = app.get(AppointmentNotificationsService);
   });
 
   beforeEach(async () => {
     await resetDatabase(prisma);
     seedData = await seedBaseData(prisma);
-    notifications.clear();
   });
 
   afterAll(async () => {
@@ -197,7 +193,7 @@ describe('Appointments management (e2e)', () => {
     expect(bookingResponse.body.data.slot.id).toBe(originalSlot.id);
     expect(bookingResponse.body.data.status).toBe(AppointmentStatus.SCHEDULED);
 
-    expect(notifications.getEvents()).toEqual(
+    expect(await getOutboxEvents()).toEqual(
       expect.arrayContaining([
         expect.objectContaining({ type: 'appointment.booked', payload: expect.any(Object) }),
       ]),
@@ -235,7 +231,7 @@ describe('Appointments management (e2e)', () => {
       'CANCELLED',
     ]);
 
-    const eventTypes = notifications.getEvents().map((event) => event.type);
+    const eventTypes = (await getOutboxEvents()).map((event) => event.type);
     expect(eventTypes).toEqual(
       expect.arrayContaining([
         'appointment.booked',
@@ -299,14 +295,14 @@ describe('Appointments management (e2e)', () => {
     expect(updatedTicket.notifiedAt).not.toBeNull();
     expect(updatedTicket.expiresAt).not.toBeNull();
 
-    const notificationTypes = notifications.getEvents().map((event) => event.type);
+    const notificationTypes = (await getOutboxEvents()).map((event) => event.type);
     expect(notificationTypes).toEqual(
       expect.arrayContaining(['appointment.cancelled', 'queue.ticket.notified']),
     );
 
-    const queueEvents = notifications
-      .getEvents()
-      .filter((event) => event.type === 'queue.ticket.notified');
+    const queueEvents = (await getOutboxEvents()).filter(
+      (event) => event.type === 'queue.ticket.notified',
+    );
     expect(queueEvents[0].payload.ticketId).toBe(queueTicketId);
     expect(queueEvents[0].payload.userId).toBe(queuedUser.id);
   });
@@ -380,13 +376,21 @@ describe('Appointments management (e2e)', () => {
     });
     expect(finalTicketState.status).toBe(QueueTicketStatus.COMPLETED);
 
-    const queueUpdateEvents = notifications
-      .getEvents()
-      .filter((event) => event.type === 'queue.ticket.updated');
+    const queueUpdateEvents = (await getOutboxEvents()).filter(
+      (event) => event.type === 'queue.ticket.updated',
+    );
     expect(queueUpdateEvents.length).toBeGreaterThanOrEqual(2);
     expect(queueUpdateEvents.map((event) => event.payload.ticketId)).toContain(remainingTicket.id);
   });
 
+  const getOutboxEvents = async () => {
+    const entries = await prisma.notificationOutbox.findMany({ orderBy: { createdAt: 'asc' } });
+    return entries.map((entry) => ({
+      type: entry.type,
+      payload: entry.payload as Record<string, unknown>,
+    }));
+  };
+
   const registerClient = async (email: string, password: string) => {
     const response = await request(app.getHttpServer())
       .post(`${API_PREFIX}/auth/register`)
@@ -1,5 +1,6 @@
 import { INestApplication, ValidationPipe, VersioningType } from '@nestjs/common';
 import { Test } from '@nestjs/testing';
+import { LoggerModule, PinoLogger } from 'nestjs-pino';
 import request from 'supertest';
 
 import { DocumentVerificationStatus } from '@modules/document-verification/document-verification.constants';
@@ -7,16 +8,25 @@ import { DocumentVerificationModule } from '@modules/document-verification/docum
 import { RateLimiterService } from '@modules/document-verification/rate-limiter.service';
 import { HttpExceptionFilter } from '@common/filters/http-exception.filter';
 import { LoggingInterceptor } from '@common/interceptors/logging.interceptor';
+import { PrismaModule } from '@prisma/prisma.module';
+import { PrismaService } from '@prisma/prisma.service';
+
+import { resetDatabase } from './helpers/database';
 
 const API_PREFIX = '/api/v1';
 
 describe('Document Verification (e2e)', () => {
   let app: INestApplication;
   let rateLimiter: RateLimiterService;
+  let prisma: PrismaService;
 
   beforeAll(async () => {
     const moduleRef = await Test.createTestingModule({
-      imports: [DocumentVerificationModule],
+      imports: [
+        LoggerModule.forRoot({ pinoHttp: { level: 'silent' } }),
+        PrismaModule,
+        DocumentVerificationModule,
+      ],
     }).compile();
 
     app = moduleRef.createNestApplication();
@@ -31,7 +41,7 @@ describe('Document Verification (e2e)', () => {
         },
       }),
     );
-    app.useGlobalFilters(new HttpExceptionFilter());
+    app.useGlobalFilters(new HttpExceptionFilter(await app.resolve(PinoLogger)));
     app.useGlobalInterceptors(new LoggingInterceptor());
 
     app.enableVersioning({
@@ -44,14 +54,16 @@ describe('Document Verification (e2e)', () => {
     await app.init();
 
     rateLimiter = app.get(RateLimiterService);
+    prisma = app.get(PrismaService);
   });
 
   afterAll(async () => {
     await app.close();
   });
 
-  beforeEach(() => {
+  beforeEach(async () => {
     rateLimiter.reset();
+    await resetDatabase(prisma);
   });
 
   it('approves a valid passport document automatically', async () => {
@@ -86,6 +98,13 @@ describe('Document Verification (e2e)', () => {
 
     expect(statusResponse.body.status).toBe(DocumentVerificationStatus.APPROVED);
     expect(statusResponse.body.id).toBe(response.body.id);
+
+    const stored = await prisma.documentVerification.findUniqueOrThrow({
+      where: { id: response.body.id },
+      include: { stageResults: true },
+    });
+    expect(stored.metadata).toEqual(response.body.metadata);
+    expect(stored.stageResults).toHaveLength(3);
   });
 
   it('rejects documents that fail business rules', async () => {
@@ -135,6 +154,11 @@ describe('Document Verification (e2e)', () => {
 
     expect(reviewResponse.body.status).toBe(DocumentVerificationStatus.APPROVED);
     expect(reviewResponse.body.reasons).toEqual([]);
+
+    const stored = await prisma.documentVerification.findUniqueOrThrow({
+      where: { id: documentId },
+    });
+    expect(stored.reviewedBy).toBe('qa-analyst');
   });
 
   it('enforces rate limiting per API key', async () => {
@@ -185,5 +209,13 @@ describe('Document Verification (e2e)', () => {
     expect(logsResponse.body.map((entry: { stage: string }) => entry.stage)).toEqual(
       expect.arrayContaining(['upload', 'antivirus', 'rules']),
     );
+
+    const storedLogs = await prisma.documentVerificationLog.findMany({
+      where: { verificationId: uploadResponse.body.id },
+      orderBy: { sequence: 'asc' },
+    });
+    expect(storedLogs.map((entry) => entry.message)).toEqual(
+      logsResponse.body.map((entry: { message: string }) => entry.message),
+    );
   });
 });
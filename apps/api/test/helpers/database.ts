@@ -14,9 +14,15 @@ export interface SeedData {
 }
 
 export const resetDatabase = async (prisma: PrismaService): Promise<void> => {
+  await prisma.jobLock.deleteMany();
+  await prisma.notificationDelivery.deleteMany();
+  await prisma.notificationOutbox.deleteMany();
+  await prisma.notificationTemplateVersion.deleteMany();
+  await prisma.notificationTemplate.deleteMany();
   await prisma.refreshToken.deleteMany();
   await prisma.conversationLog.deleteMany();
   await prisma.document.deleteMany();
+  await prisma.documentVerification.deleteMany();
   await prisma.documentUploadValidation.deleteMany();
   await prisma.documentUploadStatusHistory.deleteMany();
   await prisma.documentUpload.deleteMany();
@@ -25,9 +31,14 @@ export const resetDatabase = async (prisma: PrismaService): Promise<void> => {
   await prisma.documentTemplateService.deleteMany();
   await prisma.documentTemplate.deleteMany();
   await prisma.queueTicket.deleteMany();
+  await prisma.appointmentReminder.deleteMany();
   await prisma.appointmentStatusHistory.deleteMany();
   await prisma.appointment.deleteMany();
   await prisma.appointmentSlot.deleteMany();
+  await prisma.scheduleTemplate.deleteMany();
+  await prisma.closure.deleteMany();
+  await prisma.officeService.deleteMany();
+  await prisma.office.deleteMany();
   await prisma.serviceTranslation.deleteMany();
   await prisma.serviceCategoryTranslation.deleteMany();
   await prisma.service.deleteMany();
@@ -0,0 +1,27 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+
+import { FlaggedBookingsPage } from '@/components/admin/FlaggedBookingsPage';
+
+interface PageProps {
+  params: {
+    locale: string;
+  };
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const t = await getTranslations({
+    locale: params.locale,
+    namespace: 'Admin.BookingProtection.meta',
+  });
+
+  return {
+    title: t('title'),
+    description: t('description'),
+  };
+}
+
+export default function AdminBookingProtectionPage({ params: { locale } }: PageProps) {
+  setRequestLocale(locale);
+
+  return <FlaggedBookingsPage />;
+}
@@ -62,6 +62,12 @@ export default async function AdminLayout({ children, params }: AdminLayoutProps
               >
                 {t('appointmentsLink')}
               </Link>
+              <Link
+                href="/admin/booking-protection"
+                className="text-sm font-medium text-foreground/80 transition hover:text-foreground"
+              >
+                {t('bookingProtectionLink')}
+              </Link>
               <Link
                 href="/admin/document-templates"
                 className="text-sm font-medium text-foreground/80 transition hover:text-foreground"
@@ -0,0 +1,48 @@
+import { getTranslations } from 'next-intl/server';
+
+import { ConfirmAttendance } from '@/components/appointments/ConfirmAttendance';
+import { Section } from '@/components/layout/Section';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Text } from '@/components/ui/typography';
+
+interface PageProps {
+  params: {
+    locale: string;
+  };
+  searchParams: {
+    token?: string;
+  };
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const t = await getTranslations({
+    locale: params.locale,
+    namespace: 'Booking.confirmAttendance.meta',
+  });
+
+  return {
+    title: t('title'),
+    description: t('description'),
+  };
+}
+
+export default async function ConfirmAttendancePage({ params, searchParams }: PageProps) {
+  const t = await getTranslations({
+    locale: params.locale,
+    namespace: 'Booking.confirmAttendance',
+  });
+
+  return (
+    <Section className="py-12 sm:py-16 lg:py-20">
+      <Card className="mx-auto w-full max-w-lg">
+        <CardHeader>
+          <CardTitle>{t('title')}</CardTitle>
+          <Text muted>{t('subtitle')}</Text>
+        </CardHeader>
+        <CardContent>
+          <ConfirmAttendance token={searchParams?.token} />
+        </CardContent>
+      </Card>
+    </Section>
+  );
+}
@@ -0,0 +1,49 @@
+import { getTranslations } from 'next-intl/server';
+
+import { QueueBoard } from '@/components/appointments/QueueBoard';
+import { Section } from '@/components/layout/Section';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Text } from '@/components/ui/typography';
+
+interface PageProps {
+  params: {
+    locale: string;
+  };
+  searchParams: {
+    serviceId?: string;
+    officeId?: string;
+  };
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const t = await getTranslations({
+    locale: params.locale,
+    namespace: 'Booking.queueBoard.meta',
+  });
+
+  return {
+    title: t('title'),
+    description: t('description'),
+  };
+}
+
+export default async function QueueBoardPage({ params, searchParams }: PageProps) {
+  const t = await getTranslations({
+    locale: params.locale,
+    namespace: 'Booking.queueBoard',
+  });
+
+  return (
+    <Section className="py-12 sm:py-16 lg:py-20">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <CardTitle>{t('title')}</CardTitle>
+          <Text muted>{t('subtitle')}</Text>
+        </CardHeader>
+        <CardContent>
+          <QueueBoard serviceId={searchParams?.serviceId} officeId={searchParams?.officeId} />
+        </CardContent>
+      </Card>
+    </Section>
+  );
+}
@@ -97,6 +97,13 @@ export function AdminMobileNav() {
                 >
                   {t('appointmentsLink')}
                 </Link>
+                <Link
+                  href="/admin/booking-protection"
+                  onClick={() => setIsOpen(false)}
+                  className="block rounded-md px-4 py-3 text-sm font-medium text-foreground/80 transition hover:bg-accent hover:text-foreground"
+                >
+                  {t('bookingProtectionLink')}
+                </Link>
                 <Link
                   href="/admin/document-templates"
                   onClick={() => setIsOpen(false)}
@@ -31,6 +31,8 @@ import {
   fetchAdminAppointment,
   updateAdminAppointment,
   deleteAdminAppointment,
+  overrideAdminAppointmentDocuments,
+  clearAdminAppointmentDocumentsOverride,
 } from '@/lib/api/admin-appointments';
 import { adminAppointmentKeys } from '@/lib/react-query/keys';
 import { isApiError } from '@/lib/api/client';
@@ -52,6 +54,7 @@ export function AppointmentsManagementPage() {
   const [updatingAppointment, setUpdatingAppointment] = useState<AppointmentDetails | null>(null);
   const [updatingStatus, setUpdatingStatus] = useState<AppointmentStatus | ''>('');
   const [updatingNotes, setUpdatingNotes] = useState('');
+  const [overrideReason, setOverrideReason] = useState('');
   const [deletingAppointment, setDeletingAppointment] = useState<AppointmentDetails | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -117,6 +120,36 @@ export function AppointmentsManagementPage() {
     },
   });
 
+  const overrideMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      overrideAdminAppointmentDocuments(id, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: adminAppointmentKeys.all });
+      setOverrideReason('');
+      setSuccessMessage(t('messages.overrideSuccess'));
+      setTimeout(() => setSuccessMessage(null), 3000);
+    },
+    onError: (err) => {
+      const message = isApiError(err) ? err.message : t('messages.error');
+      setErrorMessage(message);
+      setTimeout(() => setErrorMessage(null), 5000);
+    },
+  });
+
+  const clearOverrideMutation = useMutation({
+    mutationFn: clearAdminAppointmentDocumentsOverride,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: adminAppointmentKeys.all });
+      setSuccessMessage(t('messages.overrideCleared'));
+      setTimeout(() => setSuccessMessage(null), 3000);
+    },
+    onError: (err) => {
+      const message = isApiError(err) ? err.message : t('messages.error');
+      setErrorMessage(message);
+      setTimeout(() => setErrorMessage(null), 5000);
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: deleteAdminAppointment,
     onSuccess: () => {
@@ -182,10 +215,16 @@ export function AppointmentsManagementPage() {
         return 'bg-blue-100 text-blue-800';
       case 'CONFIRMED':
         return 'bg-green-100 text-green-800';
+      case 'CHECKED_IN':
+        return 'bg-teal-100 text-teal-800';
+      case 'IN_PROGRESS':
+        return 'bg-indigo-100 text-indigo-800';
       case 'COMPLETED':
         return 'bg-gray-100 text-gray-800';
       case 'CANCELLED':
         return 'bg-red-100 text-red-800';
+      case 'NO_SHOW':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -293,8 +332,11 @@ export function AppointmentsManagementPage() {
               <option value="">{t('filters.allStatuses')}</option>
               <option value="SCHEDULED">{t('status.scheduled')}</option>
               <option value="CONFIRMED">{t('status.confirmed')}</option>
+              <option value="CHECKED_IN">{t('status.checked_in')}</option>
+              <option value="IN_PROGRESS">{t('status.in_progress')}</option>
               <option value="COMPLETED">{t('status.completed')}</option>
               <option value="CANCELLED">{t('status.cancelled')}</option>
+              <option value="NO_SHOW">{t('status.no_show')}</option>
             </Select>
           </div>
           <div>
@@ -363,6 +405,16 @@ export function AppointmentsManagementPage() {
                         <TableCell>
                           <div className="min-w-[150px] text-xs">
                             <code className="block text-foreground/60">{appointment.userId}</code>
+                            {appointment.dependent ? (
+                              <span className="mt-1 block text-foreground/80">
+                                {t('table.dependent', {
+                                  name: `${appointment.dependent.firstName} ${appointment.dependent.lastName}`,
+                                  relationship: t(
+                                    `relationships.${appointment.dependent.relationship}`,
+                                  ),
+                                })}
+                              </span>
+                            ) : null}
                           </div>
                         </TableCell>
                         <TableCell>
@@ -495,6 +547,32 @@ export function AppointmentsManagementPage() {
                 <h3 className="text-sm font-medium text-foreground/70">{t('detail.userId')}</h3>
                 <code className="mt-1 block text-sm">{appointmentDetailData.data.userId}</code>
               </div>
+              {appointmentDetailData.data.dependent && (
+                <div>
+                  <h3 className="text-sm font-medium text-foreground/70">
+                    {t('detail.dependent')}
+                  </h3>
+                  <p className="mt-1 text-sm">
+                    {appointmentDetailData.data.dependent.firstName}{' '}
+                    {appointmentDetailData.data.dependent.lastName}
+                  </p>
+                  <p className="text-xs text-foreground/60">
+                    {t('detail.dependentDetails', {
+                      relationship: t(
+                        `relationships.${appointmentDetailData.data.dependent.relationship}`,
+                      ),
+                      birthDate: appointmentDetailData.data.dependent.birthDate,
+                    })}
+                  </p>
+                  {appointmentDetailData.data.dependent.nationalId && (
+                    <p className="text-xs text-foreground/60">
+                      {t('detail.nationalId', {
+                        nationalId: appointmentDetailData.data.dependent.nationalId,
+                      })}
+                    </p>
+                  )}
+                </div>
+              )}
               <div>
                 <h3 className="text-sm font-medium text-foreground/70">{t('detail.service')}</h3>
                 <p className="mt-1 text-sm">{appointmentDetailData.data.service.slug}</p>
@@ -572,6 +650,82 @@ export function AppointmentsManagementPage() {
                   </div>
                 </div>
               )}
+              {appointmentDetailData.data.documentChecklist && (
+                <div data-testid="appointment-document-checklist">
+                  <h3 className="text-sm font-medium text-foreground/70">
+                    {t('detail.documents.title')}
+                  </h3>
+                  {appointmentDetailData.data.documentChecklist.items.length === 0 ? (
+                    <p className="mt-1 text-sm text-foreground/60">{t('detail.documents.none')}</p>
+                  ) : (
+                    <ul className="mt-1 space-y-1 text-sm">
+                      {appointmentDetailData.data.documentChecklist.items.map((item) => (
+                        <li
+                          key={item.templateId}
+                          className="flex items-center justify-between gap-3"
+                        >
+                          <span>{item.name}</span>
+                          <span
+                            className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                              item.status === 'VALIDATED'
+                                ? 'bg-green-100 text-green-800'
+                                : 'bg-yellow-100 text-yellow-800'
+                            }`}
+                          >
+                            {t(`detail.documents.status.${item.status}`)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {appointmentDetailData.data.documentChecklist.override ? (
+                    <div className="mt-2 space-y-1 text-xs text-foreground/70">
+                      <p>
+                        {t('detail.documents.overridden', {
+                          date: formatDateTime(
+                            appointmentDetailData.data.documentChecklist.override.overriddenAt,
+                          ),
+                        })}
+                      </p>
+                      {appointmentDetailData.data.documentChecklist.override.reason && (
+                        <p>{appointmentDetailData.data.documentChecklist.override.reason}</p>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => clearOverrideMutation.mutate(appointmentDetailData.data.id)}
+                        disabled={clearOverrideMutation.isPending}
+                      >
+                        {t('detail.documents.clearOverride')}
+                      </Button>
+                    </div>
+                  ) : !appointmentDetailData.data.documentChecklist.complete ? (
+                    <div className="mt-2 space-y-2">
+                      <p className="text-xs text-foreground/60">
+                        {t('detail.documents.incomplete')}
+                      </p>
+                      <Textarea
+                        value={overrideReason}
+                        onChange={(e) => setOverrideReason(e.target.value)}
+                        placeholder={t('detail.documents.overridePlaceholder')}
+                        rows={2}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() =>
+                          overrideMutation.mutate({
+                            id: appointmentDetailData.data.id,
+                            reason: overrideReason.trim(),
+                          })
+                        }
+                        disabled={overrideMutation.isPending || !overrideReason.trim()}
+                      >
+                        {t('detail.documents.override')}
+                      </Button>
+                    </div>
+                  ) : null}
+                </div>
+              )}
               {appointmentDetailData.data.notes && (
                 <div>
                   <h3 className="text-sm font-medium text-foreground/70">{t('detail.notes')}</h3>
@@ -632,8 +786,11 @@ export function AppointmentsManagementPage() {
                 <option value="">{t('update.selectStatus')}</option>
                 <option value="SCHEDULED">{t('status.scheduled')}</option>
                 <option value="CONFIRMED">{t('status.confirmed')}</option>
+                <option value="CHECKED_IN">{t('status.checked_in')}</option>
+                <option value="IN_PROGRESS">{t('status.in_progress')}</option>
                 <option value="COMPLETED">{t('status.completed')}</option>
                 <option value="CANCELLED">{t('status.cancelled')}</option>
+                <option value="NO_SHOW">{t('status.no_show')}</option>
               </Select>
             </div>
             <div>
@@ -0,0 +1,477 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { Section } from '@/components/layout/Section';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select } from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableHeaderCell,
+  TableCell,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+  DialogFooter,
+  DialogCloseButton,
+} from '@/components/ui/dialog';
+import {
+  cancelAdminFlaggedBookings,
+  dismissAdminFlaggedBookings,
+  fetchAdminFlaggedBookings,
+} from '@/lib/api/admin-booking-protection';
+import { adminBookingProtectionKeys } from '@/lib/react-query/keys';
+import { isApiError } from '@/lib/api/client';
+import type { AdminFlaggedBooking, BookingAttemptKind, BookingRiskFlag } from '@/types/admin';
+
+const RISK_FLAGS: BookingRiskFlag[] = ['SHARED_DEVICE', 'SHARED_IP', 'RAPID_BOOKINGS'];
+
+export function FlaggedBookingsPage() {
+  const locale = useLocale();
+  const t = useTranslations('Admin.BookingProtection');
+  const statusT = useTranslations('Admin.Appointments');
+  const commonT = useTranslations('Common');
+  const queryClient = useQueryClient();
+
+  const [flagFilter, setFlagFilter] = useState<BookingRiskFlag | ''>('');
+  const [kindFilter, setKindFilter] = useState<BookingAttemptKind | ''>('');
+  const [includeReviewed, setIncludeReviewed] = useState(false);
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const limit = 25;
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: adminBookingProtectionKeys.flagged({
+      flag: flagFilter || undefined,
+      kind: kindFilter || undefined,
+      includeReviewed,
+      page,
+      limit,
+    }),
+    queryFn: () =>
+      fetchAdminFlaggedBookings({
+        flag: flagFilter || undefined,
+        kind: kindFilter || undefined,
+        includeReviewed,
+        page,
+        limit,
+      }),
+    placeholderData: keepPreviousData,
+  });
+
+  const showError = (err: unknown) => {
+    setErrorMessage(isApiError(err) ? err.message : t('messages.error'));
+    setTimeout(() => setErrorMessage(null), 5000);
+  };
+
+  const showSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: adminBookingProtectionKeys.all });
+    setSelectedIds([]);
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: ({ ids, reason }: { ids: string[]; reason?: string }) =>
+      cancelAdminFlaggedBookings(ids, reason),
+    onSuccess: (result) => {
+      setIsCancelling(false);
+      setCancelReason('');
+      showSuccess(
+        t('messages.cancelSuccess', {
+          appointments: result.cancelledAppointments,
+          tickets: result.cancelledQueueTickets,
+        }),
+      );
+    },
+    onError: showError,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: dismissAdminFlaggedBookings,
+    onSuccess: (result) => showSuccess(t('messages.dismissSuccess', { count: result.reviewed })),
+    onError: showError,
+  });
+
+  const bookings = data?.data ?? [];
+  const totalPages = data?.meta ? Math.ceil(data.meta.total / data.meta.limit) : 1;
+  const allSelected =
+    bookings.length > 0 && bookings.every((booking) => selectedIds.includes(booking.id));
+  const isMutating = cancelMutation.isPending || dismissMutation.isPending;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) =>
+      current.includes(id) ? current.filter((selected) => selected !== id) : [...current, id],
+    );
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : bookings.map((booking) => booking.id));
+  };
+
+  const resetSelection = () => {
+    setSelectedIds([]);
+    setPage(1);
+  };
+
+  const formatDateTime = (dateString: string) => {
+    const date = new Date(dateString);
+
+    if (Number.isNaN(date.getTime())) {
+      return dateString;
+    }
+
+    return date.toLocaleString(locale, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  const getFlagBadgeClasses = (flag: BookingRiskFlag) => {
+    switch (flag) {
+      case 'SHARED_DEVICE':
+        return 'bg-red-100 text-red-800';
+      case 'SHARED_IP':
+        return 'bg-orange-100 text-orange-800';
+      case 'RAPID_BOOKINGS':
+        return 'bg-purple-100 text-purple-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const describeBooking = (booking: AdminFlaggedBooking) => {
+    if (booking.appointment) {
+      return (
+        <>
+          <div>{formatDateTime(booking.appointment.scheduledAt)}</div>
+          <div className="text-xs text-foreground/60">
+            {statusT(`status.${booking.appointment.status.toLowerCase()}`)}
+          </div>
+        </>
+      );
+    }
+
+    if (booking.queueTicket) {
+      return (
+        <>
+          <div>{t('table.queuePosition', { position: booking.queueTicket.position })}</div>
+          <div className="text-xs text-foreground/60">
+            {statusT(`queueStatus.${booking.queueTicket.status.toLowerCase()}`)}
+          </div>
+        </>
+      );
+    }
+
+    return <span className="text-xs text-foreground/40">—</span>;
+  };
+
+  return (
+    <Section>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold sm:text-3xl">{t('title')}</h1>
+            <p className="mt-2 text-foreground/70">{t('description')}</p>
+          </div>
+          <div className="flex w-full flex-col gap-2 sm:w-auto sm:flex-row sm:items-center md:self-auto">
+            <Button
+              variant="secondary"
+              onClick={() =>
+                queryClient.invalidateQueries({ queryKey: adminBookingProtectionKeys.all })
+              }
+              className="w-full sm:w-auto"
+            >
+              {t('actions.refresh')}
+            </Button>
+          </div>
+        </div>
+
+        {(successMessage || errorMessage) && (
+          <div
+            className={`rounded-lg border p-4 ${
+              successMessage
+                ? 'border-green-500 bg-green-50 text-green-900'
+                : 'border-red-500 bg-red-50 text-red-900'
+            }`}
+          >
+            {successMessage || errorMessage}
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div>
+            <label htmlFor="flag-filter" className="mb-2 block text-sm font-medium">
+              {t('filters.flagLabel')}
+            </label>
+            <Select
+              id="flag-filter"
+              value={flagFilter}
+              onChange={(e) => {
+                setFlagFilter(e.target.value as BookingRiskFlag | '');
+                resetSelection();
+              }}
+            >
+              <option value="">{t('filters.allFlags')}</option>
+              {RISK_FLAGS.map((flag) => (
+                <option key={flag} value={flag}>
+                  {t(`flags.${flag}`)}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <label htmlFor="kind-filter" className="mb-2 block text-sm font-medium">
+              {t('filters.kindLabel')}
+            </label>
+            <Select
+              id="kind-filter"
+              value={kindFilter}
+              onChange={(e) => {
+                setKindFilter(e.target.value as BookingAttemptKind | '');
+                resetSelection();
+              }}
+            >
+              <option value="">{t('filters.allKinds')}</option>
+              <option value="APPOINTMENT">{t('kinds.APPOINTMENT')}</option>
+              <option value="QUEUE_TICKET">{t('kinds.QUEUE_TICKET')}</option>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 self-end pb-2 text-sm font-medium">
+            <Checkbox
+              checked={includeReviewed}
+              onChange={(e) => {
+                setIncludeReviewed(e.target.checked);
+                resetSelection();
+              }}
+            />
+            {t('filters.includeReviewed')}
+          </label>
+        </div>
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <p className="text-sm text-foreground/70">
+            {t('selection.count', { count: selectedIds.length })}
+          </p>
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Button
+              variant="secondary"
+              onClick={() => dismissMutation.mutate(selectedIds)}
+              disabled={!selectedIds.length || isMutating}
+            >
+              {t('actions.dismiss')}
+            </Button>
+            <Button
+              onClick={() => setIsCancelling(true)}
+              disabled={!selectedIds.length || isMutating}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {t('actions.cancel')}
+            </Button>
+          </div>
+        </div>
+
+        <div className="overflow-hidden rounded-lg border border-border bg-card">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Spinner />
+              <span className="ms-3 text-sm text-foreground/70">{t('table.loading')}</span>
+            </div>
+          ) : isError ? (
+            <div className="py-12 text-center">
+              <p className="text-sm text-red-600">
+                {isApiError(error) ? error.message : t('messages.error')}
+              </p>
+            </div>
+          ) : bookings.length === 0 ? (
+            <div className="py-12 text-center">
+              <p className="text-sm text-foreground/60">{t('table.empty')}</p>
+            </div>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHead>
+                    <TableRow>
+                      <TableHeaderCell>
+                        <Checkbox
+                          checked={allSelected}
+                          onChange={toggleAll}
+                          aria-label={t('selection.all')}
+                        />
+                      </TableHeaderCell>
+                      <TableHeaderCell>{t('table.user')}</TableHeaderCell>
+                      <TableHeaderCell>{t('table.service')}</TableHeaderCell>
+                      <TableHeaderCell>{t('table.booking')}</TableHeaderCell>
+                      <TableHeaderCell>{t('table.flags')}</TableHeaderCell>
+                      <TableHeaderCell>{t('table.origin')}</TableHeaderCell>
+                      <TableHeaderCell>{t('table.createdAt')}</TableHeaderCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {bookings.map((booking) => (
+                      <TableRow key={booking.id} hover>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(booking.id)}
+                            onChange={() => toggleSelected(booking.id)}
+                            aria-label={t('selection.one')}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="min-w-[160px]">
+                            <span className="block text-sm font-medium">
+                              {booking.user.firstName} {booking.user.lastName}
+                            </span>
+                            <span className="text-xs text-foreground/60">{booking.user.email}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="min-w-[120px]">
+                            <span className="block text-sm">{booking.service?.slug ?? '—'}</span>
+                            <span className="text-xs text-foreground/60">
+                              {t(`kinds.${booking.kind}`)}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="min-w-[150px] text-sm">{describeBooking(booking)}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex min-w-[140px] flex-wrap gap-1">
+                            {booking.flags.map((flag) => (
+                              <span
+                                key={flag}
+                                className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-medium ${getFlagBadgeClasses(flag)}`}
+                              >
+                                {t(`flags.${flag}`)}
+                              </span>
+                            ))}
+                            {booking.reviewedAt && (
+                              <span className="inline-flex rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-800">
+                                {t('table.reviewed')}
+                              </span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="min-w-[140px] text-xs">
+                            <code className="block">{booking.ipAddress ?? '—'}</code>
+                            <code className="block text-foreground/60">
+                              {booking.fingerprint?.slice(0, 8) ?? '—'}
+                            </code>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="min-w-[150px] text-sm">
+                            {formatDateTime(booking.createdAt)}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between border-t border-border px-4 py-3">
+                  <div className="text-sm text-foreground/70">
+                    {commonT('pagination.page')} {page} {commonT('pagination.of')} {totalPages}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => setPage((p) => Math.max(1, p - 1))}
+                      disabled={page === 1}
+                    >
+                      {commonT('pagination.previous')}
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                      disabled={page === totalPages}
+                    >
+                      {commonT('pagination.next')}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={isCancelling} onClose={() => setIsCancelling(false)}>
+        <DialogHeader>
+          <DialogTitle>{t('cancel.title')}</DialogTitle>
+          <DialogCloseButton onClick={() => setIsCancelling(false)}>
+            {commonT('actions.close')}
+          </DialogCloseButton>
+        </DialogHeader>
+        <DialogBody>
+          <div className="space-y-4">
+            <p className="text-sm text-foreground/80">
+              {t('cancel.message', { count: selectedIds.length })}
+            </p>
+            <div>
+              <label htmlFor="cancel-reason" className="mb-2 block text-sm font-medium">
+                {t('cancel.reasonLabel')}
+              </label>
+              <Textarea
+                id="cancel-reason"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                placeholder={t('cancel.reasonPlaceholder')}
+                rows={3}
+                maxLength={500}
+              />
+            </div>
+          </div>
+        </DialogBody>
+        <DialogFooter>
+          <Button
+            variant="secondary"
+            onClick={() => setIsCancelling(false)}
+            disabled={cancelMutation.isPending}
+          >
+            {t('cancel.back')}
+          </Button>
+          <Button
+            onClick={() =>
+              cancelMutation.mutate({
+                ids: selectedIds,
+                reason: cancelReason.trim() || undefined,
+              })
+            }
+            disabled={cancelMutation.isPending}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            {cancelMutation.isPending ? commonT('actions.saving') : t('cancel.confirm')}
+          </Button>
+        </DialogFooter>
+      </Dialog>
+    </Section>
+  );
+}
@@ -42,7 +42,7 @@ export function ModerationLogsPage() {
   const [createdFrom, setCreatedFrom] = useState('');
   const [createdTo, setCreatedTo] = useState('');
   const [participant, setParticipant] = useState<ConversationParticipant | ''>('');
-  const [logType, setLogType] = useState<'status' | 'validation' | ''>('');
+  const [logType, setLogType] = useState<'status' | 'validation' | 'verification' | ''>('');
   const [uploadId, setUploadId] = useState('');
   const [localeFilter, setLocaleFilter] = useState('');
 
@@ -244,13 +244,14 @@ export function ModerationLogsPage() {
                   id="logType"
                   value={logType}
                   onChange={(e) => {
-                    setLogType(e.target.value as 'status' | 'validation' | '');
+                    setLogType(e.target.value as 'status' | 'validation' | 'verification' | '');
                     setPage(1);
                   }}
                 >
                   <option value="">{t('filters.allTypes')}</option>
                   <option value="status">{t('filters.logTypes.status')}</option>
                   <option value="validation">{t('filters.logTypes.validation')}</option>
+                  <option value="verification">{t('filters.logTypes.verification')}</option>
                 </Select>
               </div>
             </>
@@ -464,7 +465,7 @@ function DocumentVerificationLogsTable({ logs, t }: DocumentVerificationLogsTabl
           </TableHead>
           <TableBody>
             {logs.map((log) => {
-              const timestamp = log.type === 'status' ? log.createdAt : log.executedAt;
+              const timestamp = log.type === 'validation' ? log.executedAt : log.createdAt;
 
               return (
                 <TableRow key={log.id} hover>
@@ -473,7 +474,7 @@ function DocumentVerificationLogsTable({ logs, t }: DocumentVerificationLogsTabl
                   </TableCell>
                   <TableCell>
                     <span
-                      className={`inline-flex rounded-full px-2 py-1 text-xs font-medium ${log.type === 'status' ? 'bg-blue-100 text-blue-800' : 'bg-purple-100 text-purple-800'}`}
+                      className={`inline-flex rounded-full px-2 py-1 text-xs font-medium ${LOG_TYPE_COLORS[log.type]}`}
                     >
                       {t(`filters.logTypes.${log.type}`)}
                     </span>
@@ -495,6 +496,19 @@ function DocumentVerificationLogsTable({ logs, t }: DocumentVerificationLogsTabl
                             </div>
                           )}
                         </>
+                      ) : log.type === 'verification' ? (
+                        <>
+                          <div>
+                            <span className="font-medium">{log.docType}</span>
+                            {' · '}
+                            <span className="text-foreground/60">{log.stage}</span>
+                            {' · '}
+                            <span className="font-medium">{log.severity}</span>
+                          </div>
+                          <div className="text-xs text-foreground/60" title={log.message}>
+                            {log.message}
+                          </div>
+                        </>
                       ) : (
                         <>
                           <div>
@@ -512,7 +526,7 @@ function DocumentVerificationLogsTable({ logs, t }: DocumentVerificationLogsTabl
                   <TableCell>
                     <div
                       className="min-w-[180px] text-xs font-mono text-foreground/60"
-                      title={log.uploadId}
+                      title={log.uploadId ?? undefined}
                     >
                       {formatIdentifier(log.uploadId)}
                     </div>
@@ -535,6 +549,12 @@ function DocumentVerificationLogsTable({ logs, t }: DocumentVerificationLogsTabl
   );
 }
 
+const LOG_TYPE_COLORS: Record<AdminDocumentVerificationLogEntry['type'], string> = {
+  status: 'bg-blue-100 text-blue-800',
+  validation: 'bg-purple-100 text-purple-800',
+  verification: 'bg-amber-100 text-amber-800',
+};
+
 function formatTimestamp(timestamp: string): string {
   return new Date(timestamp).toLocaleString(undefined, {
     year: 'numeric',
@@ -10,9 +10,57 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { supportedLocales } from '@/i18n/config';
-import type { ServiceCategory, ServiceItem } from '@/types';
+import type { ServiceBookingPolicy, ServiceCategory, ServiceItem } from '@/types';
 import type { AdminServiceFormData, ServiceTranslationInput } from '@/types/admin';
 
+type PolicyField = keyof ServiceBookingPolicy;
+
+// Bounds mirror the API validation; empty optional fields mean "no limit".
+const POLICY_FIELDS: Array<{ field: PolicyField; min: number; max: number; optional: boolean }> = [
+  { field: 'minLeadMinutes', min: 0, max: 43200, optional: true },
+  { field: 'maxAdvanceDays', min: 1, max: 730, optional: true },
+  { field: 'changeCutoffMinutes', min: 0, max: 43200, optional: true },
+  { field: 'maxActivePerUser', min: 1, max: 50, optional: true },
+  { field: 'maxActivePerDependent', min: 1, max: 50, optional: true },
+  { field: 'noShowLimit', min: 1, max: 50, optional: true },
+  { field: 'noShowWindowDays', min: 1, max: 730, optional: false },
+  { field: 'noShowCooldownDays', min: 1, max: 365, optional: false },
+];
+
+const DEFAULT_POLICY: ServiceBookingPolicy = {
+  minLeadMinutes: null,
+  maxAdvanceDays: null,
+  changeCutoffMinutes: null,
+  maxActivePerUser: null,
+  maxActivePerDependent: null,
+  noShowLimit: null,
+  noShowWindowDays: 90,
+  noShowCooldownDays: 30,
+};
+
+const toPolicyInputs = (policy?: ServiceBookingPolicy | null) =>
+  Object.fromEntries(
+    POLICY_FIELDS.map(({ field }) => {
+      const value = (policy ?? DEFAULT_POLICY)[field];
+      return [field, value === null ? '' : String(value)];
+    }),
+  ) as Record<PolicyField, string>;
+
+const toPolicyPayload = (inputs: Record<PolicyField, string>): ServiceBookingPolicy => {
+  const limit = (field: PolicyField) => (inputs[field].trim() ? Number(inputs[field]) : null);
+
+  return {
+    minLeadMinutes: limit('minLeadMinutes'),
+    maxAdvanceDays: limit('maxAdvanceDays'),
+    changeCutoffMinutes: limit('changeCutoffMinutes'),
+    maxActivePerUser: limit('maxActivePerUser'),
+    maxActivePerDependent: limit('maxActivePerDependent'),
+    noShowLimit: limit('noShowLimit'),
+    noShowWindowDays: Number(inputs.noShowWindowDays),
+    noShowCooldownDays: Number(inputs.noShowCooldownDays),
+  };
+};
+
 interface ServiceFormProps {
   categories: ServiceCategory[];
   initialData?: ServiceItem;
@@ -73,6 +121,7 @@ export function ServiceForm({
   const [price, setPrice] = useState(initialData?.price ?? '');
   const [isActive, setIsActive] = useState(initialData?.isActive ?? true);
   const [translations, setTranslations] = useState<ServiceTranslationInput[]>(prepareTranslations);
+  const [policy, setPolicy] = useState(() => toPolicyInputs(initialData?.bookingPolicy));
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
@@ -93,6 +142,10 @@ export function ServiceForm({
     setTranslations(prepareTranslations);
   }, [prepareTranslations]);
 
+  useEffect(() => {
+    setPolicy(toPolicyInputs(initialData?.bookingPolicy));
+  }, [initialData?.bookingPolicy]);
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -119,6 +172,19 @@ export function ServiceForm({
       newErrors.price = t('errors.priceInvalid');
     }
 
+    POLICY_FIELDS.forEach(({ field, min, max, optional }) => {
+      const raw = policy[field].trim();
+      const value = Number(raw);
+
+      if (!raw) {
+        if (!optional) {
+          newErrors[`policy-${field}`] = t('errors.policyRequired');
+        }
+      } else if (!Number.isInteger(value) || value < min || value > max) {
+        newErrors[`policy-${field}`] = t('errors.policyInvalid', { min, max });
+      }
+    });
+
     translations.forEach((translation, index) => {
       if (!translation.name.trim()) {
         newErrors[`translation-${index}-name`] = t('errors.nameRequired');
@@ -155,6 +221,7 @@ export function ServiceForm({
       durationMinutes: Number(durationMinutes),
       price,
       isActive,
+      bookingPolicy: toPolicyPayload(policy),
       translations: translations.filter((translation) => translation.name.trim()),
     };
 
@@ -251,6 +318,38 @@ export function ServiceForm({
         </Label>
       </div>
 
+      <div className="space-y-4 border-t border-border pt-4">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">{t('bookingPolicy.heading')}</h3>
+          <p className="mt-1 text-xs text-foreground/60">{t('bookingPolicy.hint')}</p>
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          {POLICY_FIELDS.map(({ field, min, max, optional }) => (
+            <div key={field}>
+              <Label htmlFor={`service-policy-${field}`} required={!optional}>
+                {t(`bookingPolicy.${field}`)}
+              </Label>
+              <Input
+                id={`service-policy-${field}`}
+                type="number"
+                min={min}
+                max={max}
+                value={policy[field]}
+                onChange={(event) =>
+                  setPolicy((current) => ({ ...current, [field]: event.target.value }))
+                }
+                placeholder={optional ? t('bookingPolicy.unlimited') : undefined}
+                disabled={isSubmitting}
+                error={!!errors[`policy-${field}`]}
+              />
+              {errors[`policy-${field}`] && (
+                <p className="mt-1 text-sm text-red-500">{errors[`policy-${field}`]}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
       <div className="space-y-4 border-t border-border pt-4">
         <h3 className="text-sm font-semibold text-foreground">{t('translations.heading')}</h3>
 
@@ -13,6 +13,7 @@ import {
 import { useLocale, useTranslations } from 'next-intl';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 
+import { QueueTicketPosition } from '@/components/appointments/QueueTicketPosition';
 import { Section } from '@/components/layout/Section';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -21,16 +22,24 @@ import { Spinner } from '@/components/ui/spinner';
 import { Heading, Text } from '@/components/ui/typography';
 import {
   bookAppointment,
+  buildAppointmentCalendarUrl,
   cancelAppointment,
   createQueueTicket,
+  createSlotHold,
   fetchAppointmentAvailability,
+  fetchNextAvailableSlots,
   fetchAppointments,
+  fetchQueuePriorityClasses,
+  getBookingPolicyViolation,
+  releaseSlotHold,
   rescheduleAppointment,
   updateQueueTicketStatus,
 } from '@/lib/api/appointments';
 import { isApiError } from '@/lib/api/client';
+import { fetchOffices } from '@/lib/api/offices';
+import { fetchDependents } from '@/lib/api/profile';
 import { fetchServices } from '@/lib/api/services';
-import { bookingKeys, serviceKeys } from '@/lib/react-query/keys';
+import { bookingKeys, officeKeys, profileKeys, serviceKeys } from '@/lib/react-query/keys';
 import {
   addOfflineAction,
   loadOfflineActions,
@@ -44,12 +53,18 @@ import type {
   AppointmentDetails,
   AppointmentSlotAvailability,
   AppointmentStatus,
+  Dependent,
+  Office,
+  QueuePriorityClass,
   QueueTicket,
+  QueueTicketPosition as QueueTicketPositionUpdate,
   QueueTicketStatus,
   ServiceItem,
+  SlotHold,
 } from '@/types';
 
 const SERVICE_FETCH_LIMIT = 200;
+const OFFICE_FETCH_LIMIT = 100;
 const DEFAULT_AVAILABILITY_RANGE_DAYS = 21;
 
 type WizardStep = 'service' | 'slots' | 'confirm' | 'manage';
@@ -60,6 +75,8 @@ type PendingQueueForm = {
   desiredFrom: string;
   desiredTo: string;
   notes: string;
+  priorityClass: QueuePriorityClass | '';
+  dependentId: string;
 };
 
 interface AvailabilityGrouping {
@@ -92,6 +109,12 @@ function toISODateTime(value: string | null | undefined): string | undefined {
   return instance.toISOString();
 }
 
+function formatCountdown(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return `${minutes}:${seconds}`;
+}
+
 function shouldQueueOffline(error: unknown): boolean {
   if (typeof window !== 'undefined' && !window.navigator.onLine) {
     return true;
@@ -147,8 +170,15 @@ export function BookingWizard() {
   const [mode, setMode] = useState<WizardMode>('new');
   const [selectedService, setSelectedService] = useState<ServiceItem | null>(null);
   const [selectedSlot, setSelectedSlot] = useState<AppointmentSlotAvailability | null>(null);
+  const [selectedOfficeId, setSelectedOfficeId] = useState('');
   const [targetAppointment, setTargetAppointment] = useState<AppointmentDetails | null>(null);
   const [notes, setNotes] = useState('');
+  // Empty when booking for the account holder.
+  const [dependentId, setDependentId] = useState('');
+  const [slotHold, setSlotHold] = useState<SlotHold | null>(null);
+  const [holdClock, setHoldClock] = useState(() => Date.now());
+  const [isHolding, setIsHolding] = useState(false);
+  const [isFindingFirst, setIsFindingFirst] = useState(false);
 
   const defaultTimezone = useMemo(() => {
     if (typeof Intl !== 'undefined') {
@@ -178,6 +208,8 @@ export function BookingWizard() {
     desiredFrom: '',
     desiredTo: '',
     notes: '',
+    priorityClass: '',
+    dependentId: '',
   });
 
   const [offlineActions, setOfflineActions] = useState<OfflineBookingAction[]>(() =>
@@ -204,7 +236,18 @@ export function BookingWizard() {
     };
   }, []);
 
+  // Ticks once a second while a seat is held, to drive the countdown.
+  useEffect(() => {
+    if (!slotHold) return;
+
+    setHoldClock(Date.now());
+    const timer = window.setInterval(() => setHoldClock(Date.now()), 1000);
+
+    return () => window.clearInterval(timer);
+  }, [slotHold]);
+
   const timezoneSelectId = useId();
+  const officeSelectId = useId();
   const dateFromId = useId();
   const dateToId = useId();
   const notesInputId = useId();
@@ -238,6 +281,36 @@ export function BookingWizard() {
 
   const services = servicesQuery.data?.data ?? [];
 
+  const priorityClassesQuery = useQuery({
+    queryKey: bookingKeys.queuePriorityClasses(locale),
+    queryFn: () => fetchQueuePriorityClasses(locale),
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const priorityRules = priorityClassesQuery.data?.data ?? [];
+
+  const dependentsQuery = useQuery({
+    queryKey: profileKeys.dependents(locale),
+    queryFn: () => fetchDependents(locale),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const dependents = dependentsQuery.data?.data ?? [];
+  const dependentsById = useMemo(() => {
+    const map = new Map<string, Dependent>();
+    dependents.forEach((dependent) => map.set(dependent.id, dependent));
+    return map;
+  }, [dependents]);
+
+  const dependentName = useCallback(
+    (dependent: Pick<Dependent, 'firstName' | 'lastName'>) =>
+      `${dependent.firstName} ${dependent.lastName}`,
+    [],
+  );
+  const selectedPriorityRule = priorityRules.find(
+    (rule) => rule.priorityClass === queueForm.priorityClass,
+  );
+
   const servicesById = useMemo(() => {
     const map = new Map<string, ServiceItem>();
     services.forEach((service) => map.set(service.id, service));
@@ -258,6 +331,31 @@ export function BookingWizard() {
     });
   }, [services, searchTerm]);
 
+  const officesQuery = useQuery({
+    queryKey: officeKeys.list({ serviceId: selectedService?.id, isActive: true }),
+    queryFn: () =>
+      fetchOffices({
+        serviceId: selectedService?.id,
+        isActive: true,
+        limit: OFFICE_FETCH_LIMIT,
+      }),
+    enabled: Boolean(selectedService),
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+
+  const offices = officesQuery.data?.data ?? [];
+
+  const officesById = useMemo(() => {
+    const map = new Map<string, Office>();
+    offices.forEach((office) => map.set(office.id, office));
+    return map;
+  }, [offices]);
+
+  useEffect(() => {
+    setSelectedOfficeId('');
+  }, [selectedService?.id]);
+
   const fromIso = useMemo(() => toISODateTime(`${dateFrom}T00:00:00`), [dateFrom]);
   const toIso = useMemo(() => toISODateTime(`${dateTo}T23:59:59`), [dateTo]);
 
@@ -266,11 +364,12 @@ export function BookingWizard() {
 
     return {
       serviceId: selectedService.id,
+      officeId: selectedOfficeId || undefined,
       from: fromIso,
       to: toIso,
       timezone: timezone || undefined,
     };
-  }, [fromIso, selectedService, timezone, toIso]);
+  }, [fromIso, selectedOfficeId, selectedService, timezone, toIso]);
 
   const availabilityQuery = useQuery({
     queryKey: availabilityParams
@@ -398,6 +497,26 @@ export function BookingWizard() {
     [t],
   );
 
+  const describeError = useCallback(
+    (error: unknown) => {
+      const violation = getBookingPolicyViolation(error);
+
+      if (violation) {
+        const { until, ...values } = violation.details;
+        return t(`policyErrors.${violation.code}`, {
+          ...values,
+          until: until ? dateTimeFormatter.format(new Date(until)) : '',
+        });
+      }
+
+      return isApiError(error)
+        ? error.message
+        : ((error as Error | undefined)?.message ??
+            t('notifications.error', { message: 'Unknown' }));
+    },
+    [dateTimeFormatter, t],
+  );
+
   const resetFeedback = () => {
     setFeedback(null);
     setErrorMessage(null);
@@ -417,13 +536,99 @@ export function BookingWizard() {
     }
   };
 
-  const handleSlotSelect = (slot: AppointmentSlotAvailability) => {
+  /**
+   * Holds a seat of the slot so it is still free on the confirmation step.
+   * Offline, the booking is queued anyway, so the wizard carries on unheld.
+   */
+  const holdSlot = async (slot: AppointmentSlotAvailability): Promise<boolean> => {
+    if (!selectedService) return false;
+
+    setIsHolding(true);
+    try {
+      const result = await createSlotHold(
+        {
+          serviceId: selectedService.id,
+          slotId: slot.id,
+          appointmentId: mode === 'reschedule' ? targetAppointment?.id : undefined,
+          dependentId:
+            mode === 'reschedule'
+              ? (targetAppointment?.dependent?.id ?? undefined)
+              : dependentId || undefined,
+        },
+        locale,
+      );
+      setSlotHold(result.data);
+      return true;
+    } catch (error) {
+      setSlotHold(null);
+      if (shouldQueueOffline(error)) {
+        return true;
+      }
+
+      const message = describeError(error);
+      setErrorMessage(
+        t('notifications.error', {
+          message,
+        }),
+      );
+      refreshAvailability();
+      return false;
+    } finally {
+      setIsHolding(false);
+    }
+  };
+
+  const releaseHold = () => {
+    if (!slotHold) return;
+    void releaseSlotHold(slotHold.id, locale).catch(() => undefined);
+    setSlotHold(null);
+  };
+
+  const handleSlotSelect = async (slot: AppointmentSlotAvailability) => {
+    resetFeedback();
+    if (!(await holdSlot(slot))) return;
+
     setSelectedSlot(slot);
     setStep('confirm');
+  };
+
+  /** Books towards the earliest open slot, whatever the selected date range. */
+  const handleFirstAvailable = async () => {
+    if (!selectedService) return;
+
     resetFeedback();
+    setIsFindingFirst(true);
+    try {
+      const result = await fetchNextAvailableSlots(
+        {
+          serviceIds: [selectedService.id],
+          officeId: selectedOfficeId || undefined,
+          timezone: timezone || undefined,
+          limit: 1,
+        },
+        locale,
+      );
+      const [slot] = result.data;
+
+      if (!slot) {
+        setErrorMessage(t('status.noUpcomingSlots'));
+        return;
+      }
+
+      await handleSlotSelect(slot);
+    } catch (error) {
+      setErrorMessage(
+        t('notifications.error', {
+          message: describeError(error),
+        }),
+      );
+    } finally {
+      setIsFindingFirst(false);
+    }
   };
 
   const handleBackToService = () => {
+    releaseHold();
     setStep('service');
     setSelectedService(null);
     setSelectedSlot(null);
@@ -434,6 +639,7 @@ export function BookingWizard() {
   };
 
   const handleBackToSlots = () => {
+    releaseHold();
     setStep('slots');
     setSelectedSlot(null);
     resetFeedback();
@@ -463,19 +669,19 @@ export function BookingWizard() {
     try {
       switch (action.type) {
         case 'book': {
-          await bookAppointment(action.data, action.locale);
+          await bookAppointment(action.data, action.locale, action.id);
           break;
         }
         case 'reschedule': {
-          await rescheduleAppointment(action.appointmentId, action.data, action.locale);
+          await rescheduleAppointment(action.appointmentId, action.data, action.locale, action.id);
           break;
         }
         case 'cancel': {
-          await cancelAppointment(action.appointmentId, action.data, action.locale);
+          await cancelAppointment(action.appointmentId, action.data, action.locale, action.id);
           break;
         }
         case 'joinQueue': {
-          const result = await createQueueTicket(action.data, action.locale);
+          const result = await createQueueTicket(action.data, action.locale, action.id);
           const ticket = result.data;
           setQueueTickets((prev) => {
             const map = new Map(prev.map((item) => [item.id, item]));
@@ -487,7 +693,12 @@ export function BookingWizard() {
           break;
         }
         case 'updateQueueStatus': {
-          const result = await updateQueueTicketStatus(action.ticketId, action.data, action.locale);
+          const result = await updateQueueTicketStatus(
+            action.ticketId,
+            action.data,
+            action.locale,
+            action.id,
+          );
           const ticket = result.data;
           setQueueTickets((prev) => {
             const map = new Map(prev.map((item) => [item.id, item]));
@@ -512,10 +723,7 @@ export function BookingWizard() {
         return;
       }
 
-      const message = isApiError(error)
-        ? error.message
-        : ((error as Error | undefined)?.message ??
-          t('notifications.error', { message: 'Unknown' }));
+      const message = describeError(error);
       setErrorMessage(
         t('notifications.offlineSyncError', {
           message,
@@ -525,43 +733,59 @@ export function BookingWizard() {
   };
 
   const bookMutation = useMutation({
-    mutationFn: ({ payload }: { payload: Parameters<typeof bookAppointment>[0] }) =>
-      bookAppointment(payload, locale),
+    mutationFn: ({
+      payload,
+      idempotencyKey,
+    }: {
+      payload: Parameters<typeof bookAppointment>[0];
+      idempotencyKey: string;
+    }) => bookAppointment(payload, locale, idempotencyKey),
   });
 
   const rescheduleMutation = useMutation({
     mutationFn: ({
       appointmentId,
       payload,
+      idempotencyKey,
     }: {
       appointmentId: string;
       payload: Parameters<typeof rescheduleAppointment>[1];
-    }) => rescheduleAppointment(appointmentId, payload, locale),
+      idempotencyKey: string;
+    }) => rescheduleAppointment(appointmentId, payload, locale, idempotencyKey),
   });
 
   const cancelMutation = useMutation({
     mutationFn: ({
       appointmentId,
       payload,
+      idempotencyKey,
     }: {
       appointmentId: string;
       payload: Parameters<typeof cancelAppointment>[1];
-    }) => cancelAppointment(appointmentId, payload, locale),
+      idempotencyKey: string;
+    }) => cancelAppointment(appointmentId, payload, locale, idempotencyKey),
   });
 
   const queueMutation = useMutation({
-    mutationFn: ({ payload }: { payload: Parameters<typeof createQueueTicket>[0] }) =>
-      createQueueTicket(payload, locale),
+    mutationFn: ({
+      payload,
+      idempotencyKey,
+    }: {
+      payload: Parameters<typeof createQueueTicket>[0];
+      idempotencyKey: string;
+    }) => createQueueTicket(payload, locale, idempotencyKey),
   });
 
   const queueCancelMutation = useMutation({
     mutationFn: ({
       ticketId,
       payload,
+      idempotencyKey,
     }: {
       ticketId: string;
       payload: Parameters<typeof updateQueueTicketStatus>[1];
-    }) => updateQueueTicketStatus(ticketId, payload, locale),
+      idempotencyKey: string;
+    }) => updateQueueTicketStatus(ticketId, payload, locale, idempotencyKey),
   });
 
   const handleConfirm = async () => {
@@ -572,26 +796,34 @@ export function BookingWizard() {
     const basePayload = {
       serviceId: selectedService.id,
       slotId: selectedSlot.id,
+      dependentId: dependentId || undefined,
       locale,
       timezone,
       notes: notes.trim() || undefined,
     } as Parameters<typeof bookAppointment>[0];
+    // The same key goes with the offline replay, so a booking is never made twice.
+    const actionId = generateId();
 
     if (mode === 'new') {
       try {
-        const result = await bookMutation.mutateAsync({ payload: basePayload });
+        const result = await bookMutation.mutateAsync({
+          payload: basePayload,
+          idempotencyKey: actionId,
+        });
         refreshAppointments();
         refreshAvailability();
         setFeedback(t('notifications.bookingSuccess'));
         setStep('manage');
         setSelectedService(null);
         setSelectedSlot(null);
+        setSlotHold(null);
         setTargetAppointment(result.data);
         setNotes('');
+        setDependentId('');
       } catch (error) {
         if (shouldQueueOffline(error)) {
           handleOfflineActionAdd({
-            id: generateId(),
+            id: actionId,
             type: 'book',
             locale,
             data: basePayload,
@@ -602,10 +834,7 @@ export function BookingWizard() {
           return;
         }
 
-        const message = isApiError(error)
-          ? error.message
-          : ((error as Error | undefined)?.message ??
-            t('notifications.error', { message: 'Unknown' }));
+        const message = describeError(error);
         setErrorMessage(
           t('notifications.error', {
             message,
@@ -617,34 +846,35 @@ export function BookingWizard() {
 
     if (!targetAppointment) return;
 
-    try {
-      const payload = {
-        slotId: selectedSlot.id,
-        timezone,
-        notes: notes.trim() || undefined,
-      } as Parameters<typeof rescheduleAppointment>[1];
+    const payload = {
+      slotId: selectedSlot.id,
+      timezone,
+      notes: notes.trim() || undefined,
+    } as Parameters<typeof rescheduleAppointment>[1];
 
-      await rescheduleMutation.mutateAsync({ appointmentId: targetAppointment.id, payload });
+    try {
+      await rescheduleMutation.mutateAsync({
+        appointmentId: targetAppointment.id,
+        payload,
+        idempotencyKey: actionId,
+      });
       refreshAppointments();
       refreshAvailability();
       setFeedback(t('notifications.rescheduleSuccess'));
       setStep('manage');
       setSelectedService(null);
       setSelectedSlot(null);
+      setSlotHold(null);
       setTargetAppointment(null);
       setNotes('');
     } catch (error) {
       if (shouldQueueOffline(error)) {
         handleOfflineActionAdd({
-          id: generateId(),
+          id: actionId,
           type: 'reschedule',
           locale,
           appointmentId: targetAppointment.id,
-          data: {
-            slotId: selectedSlot.id,
-            timezone,
-            notes: notes.trim() || undefined,
-          },
+          data: payload,
           createdAt: Date.now(),
         });
         setFeedback(t('notifications.offlineQueued'));
@@ -652,10 +882,7 @@ export function BookingWizard() {
         return;
       }
 
-      const message = isApiError(error)
-        ? error.message
-        : ((error as Error | undefined)?.message ??
-          t('notifications.error', { message: 'Unknown' }));
+      const message = describeError(error);
       setErrorMessage(
         t('notifications.error', {
           message,
@@ -699,16 +926,21 @@ export function BookingWizard() {
     const payload = { reason: notes.trim() || undefined } as Parameters<
       typeof cancelAppointment
     >[1];
+    const actionId = generateId();
 
     try {
-      await cancelMutation.mutateAsync({ appointmentId: appointment.id, payload });
+      await cancelMutation.mutateAsync({
+        appointmentId: appointment.id,
+        payload,
+        idempotencyKey: actionId,
+      });
       refreshAppointments();
       refreshAvailability();
       setFeedback(t('notifications.cancelSuccess'));
     } catch (error) {
       if (shouldQueueOffline(error)) {
         handleOfflineActionAdd({
-          id: generateId(),
+          id: actionId,
           type: 'cancel',
           locale,
           appointmentId: appointment.id,
@@ -719,10 +951,7 @@ export function BookingWizard() {
         return;
       }
 
-      const message = isApiError(error)
-        ? error.message
-        : ((error as Error | undefined)?.message ??
-          t('notifications.error', { message: 'Unknown' }));
+      const message = describeError(error);
       setErrorMessage(
         t('notifications.error', {
           message,
@@ -754,10 +983,13 @@ export function BookingWizard() {
       desiredTo: toISODateTime(queueForm.desiredTo),
       timezone,
       notes: queueForm.notes.trim() || undefined,
+      priorityClass: queueForm.priorityClass || undefined,
+      dependentId: queueForm.dependentId || undefined,
     } as Parameters<typeof createQueueTicket>[0];
+    const actionId = generateId();
 
     try {
-      const result = await queueMutation.mutateAsync({ payload });
+      const result = await queueMutation.mutateAsync({ payload, idempotencyKey: actionId });
       const ticket = result.data;
       setQueueTickets((prev) => {
         const map = new Map(prev.map((item) => [item.id, item]));
@@ -767,11 +999,17 @@ export function BookingWizard() {
         return merged;
       });
       setFeedback(t('notifications.queueSuccess'));
-      setQueueForm((current) => ({ ...current, notes: '', desiredFrom: '', desiredTo: '' }));
+      setQueueForm((current) => ({
+        ...current,
+        notes: '',
+        desiredFrom: '',
+        desiredTo: '',
+        priorityClass: '',
+      }));
     } catch (error) {
       if (shouldQueueOffline(error)) {
         handleOfflineActionAdd({
-          id: generateId(),
+          id: actionId,
           type: 'joinQueue',
           locale,
           data: payload,
@@ -781,10 +1019,7 @@ export function BookingWizard() {
         return;
       }
 
-      const message = isApiError(error)
-        ? error.message
-        : ((error as Error | undefined)?.message ??
-          t('notifications.error', { message: 'Unknown' }));
+      const message = describeError(error);
       setErrorMessage(
         t('notifications.error', {
           message,
@@ -793,13 +1028,48 @@ export function BookingWizard() {
     }
   };
 
+  const handleQueuePositionUpdate = useCallback((update: QueueTicketPositionUpdate) => {
+    setQueueTickets((prev) => {
+      const current = prev.find((ticket) => ticket.id === update.ticketId);
+      if (
+        !current ||
+        (current.status === update.status &&
+          current.position === (update.position ?? current.position) &&
+          (current.expiresAt ?? null) === update.expiresAt &&
+          JSON.stringify(current.eta ?? null) === JSON.stringify(update.eta))
+      ) {
+        return prev;
+      }
+
+      const next = prev.map((ticket) =>
+        ticket.id === update.ticketId
+          ? {
+              ...ticket,
+              number: update.number,
+              status: update.status,
+              position: update.position ?? ticket.position,
+              expiresAt: update.expiresAt,
+              eta: update.eta,
+            }
+          : ticket,
+      );
+      saveQueueTickets(next);
+      return next;
+    });
+  }, []);
+
   const handleCancelQueueTicket = async (ticket: QueueTicket) => {
     resetFeedback();
 
     const payload = { status: 'CANCELLED' as QueueTicketStatus };
+    const actionId = generateId();
 
     try {
-      const result = await queueCancelMutation.mutateAsync({ ticketId: ticket.id, payload });
+      const result = await queueCancelMutation.mutateAsync({
+        ticketId: ticket.id,
+        payload,
+        idempotencyKey: actionId,
+      });
       const updated = result.data;
       setQueueTickets((prev) => {
         const map = new Map(prev.map((item) => [item.id, item]));
@@ -812,7 +1082,7 @@ export function BookingWizard() {
     } catch (error) {
       if (shouldQueueOffline(error)) {
         handleOfflineActionAdd({
-          id: generateId(),
+          id: actionId,
           type: 'updateQueueStatus',
           locale,
           ticketId: ticket.id,
@@ -823,10 +1093,7 @@ export function BookingWizard() {
         return;
       }
 
-      const message = isApiError(error)
-        ? error.message
-        : ((error as Error | undefined)?.message ??
-          t('notifications.error', { message: 'Unknown' }));
+      const message = describeError(error);
       setErrorMessage(
         t('notifications.error', {
           message,
@@ -961,6 +1228,50 @@ export function BookingWizard() {
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
+          {mode === 'new' && dependents.length > 0 ? (
+            <label className="flex flex-col gap-2 text-sm font-medium">
+              <span>{t('dependents.label')}</span>
+              <select
+                className="h-10 rounded-md border border-border/60 bg-background px-3 text-sm text-foreground/80 transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/40"
+                value={dependentId}
+                onChange={(event) => setDependentId(event.target.value)}
+                data-testid="booking-dependent-select"
+              >
+                <option value="">{t('dependents.self')}</option>
+                {dependents.map((dependent) => (
+                  <option key={dependent.id} value={dependent.id}>
+                    {dependentName(dependent)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
+          {offices.length > 0 ? (
+            <label className="flex flex-col gap-2 text-sm font-medium" htmlFor={officeSelectId}>
+              <span>{t('labels.office')}</span>
+              <select
+                id={officeSelectId}
+                className="h-10 rounded-md border border-border/60 bg-background px-3 text-sm text-foreground/80 transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/40"
+                value={selectedOfficeId}
+                onChange={(event) => setSelectedOfficeId(event.target.value)}
+                data-testid="office-select"
+              >
+                <option value="">{t('labels.allOffices')}</option>
+                {offices.map((office) => (
+                  <option key={office.id} value={office.id}>
+                    {t('labels.officeOption', { name: office.name, commune: office.commune })}
+                  </option>
+                ))}
+              </select>
+              {selectedOfficeId && officesById.get(selectedOfficeId) ? (
+                <span className="text-xs font-normal text-foreground/60">
+                  {officesById.get(selectedOfficeId)?.address}
+                </span>
+              ) : null}
+            </label>
+          ) : null}
+
           <div className="grid gap-4 sm:grid-cols-3">
             <label className="flex flex-col gap-2 text-sm font-medium" htmlFor={timezoneSelectId}>
               <span>{t('labels.timezone')}</span>
@@ -1007,11 +1318,23 @@ export function BookingWizard() {
             <Button variant="ghost" onClick={handleBackToService}>
               {t('actions.back')}
             </Button>
-            <Button variant="secondary" onClick={refreshAvailability}>
-              {t('actions.retry')}
-            </Button>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant="secondary"
+                onClick={() => void handleFirstAvailable()}
+                disabled={isFindingFirst || isHolding || isOffline}
+                data-testid="first-available-button"
+              >
+                {t('actions.firstAvailable')}
+              </Button>
+              <Button variant="secondary" onClick={refreshAvailability}>
+                {t('actions.retry')}
+              </Button>
+            </div>
           </div>
 
+          {errorMessage ? <Text className="text-sm text-red-500">{errorMessage}</Text> : null}
+
           {availabilityQuery.isLoading ? (
             <div className="flex flex-col items-center gap-3 py-12 text-sm text-foreground/60">
               <Spinner />
@@ -1038,13 +1361,14 @@ export function BookingWizard() {
                     const startLabel = dateTimeFormatter.format(new Date(slot.startAt));
                     const endLabel = dateTimeFormatter.format(new Date(slot.endAt));
                     const isDisabled = slot.available <= 0 || slot.status === 'FULL';
+                    const slotOffice = slot.officeId ? officesById.get(slot.officeId) : undefined;
 
                     return (
                       <button
                         key={slot.id}
                         type="button"
-                        onClick={() => handleSlotSelect(slot)}
-                        disabled={isDisabled}
+                        onClick={() => void handleSlotSelect(slot)}
+                        disabled={isDisabled || isHolding}
                         className={cn(
                           'flex flex-col gap-2 rounded-2xl border border-border/60 bg-background/60 p-4 text-left transition hover:border-primary/40 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/40',
                           isDisabled && 'cursor-not-allowed opacity-60',
@@ -1054,6 +1378,9 @@ export function BookingWizard() {
                       >
                         <span className="text-sm font-semibold text-foreground">{startLabel}</span>
                         <span className="text-xs text-foreground/70">{endLabel}</span>
+                        {slotOffice && !selectedOfficeId ? (
+                          <span className="text-xs text-foreground/70">{slotOffice.name}</span>
+                        ) : null}
                         <div className="mt-2 flex flex-wrap items-center gap-2 text-xs uppercase tracking-[0.25em] text-foreground/60">
                           <span>{availableSpotsLabel(slot.available)}</span>
                           <span>{queueLengthLabel(slot.queueLength)}</span>
@@ -1076,6 +1403,12 @@ export function BookingWizard() {
     const serviceName = selectedService.translation?.name ?? selectedService.slug;
     const slotStart = dateTimeFormatter.format(new Date(selectedSlot.startAt));
     const slotEnd = dateTimeFormatter.format(new Date(selectedSlot.endAt));
+    const slotOffice = selectedSlot.officeId ? officesById.get(selectedSlot.officeId) : undefined;
+    const bookingDependent =
+      mode === 'reschedule' ? targetAppointment?.dependent : dependentsById.get(dependentId);
+    const holdSecondsLeft = slotHold
+      ? Math.max(Math.ceil((new Date(slotHold.expiresAt).getTime() - holdClock) / 1000), 0)
+      : null;
 
     return (
       <Card data-testid="booking-step-confirm">
@@ -1101,6 +1434,30 @@ export function BookingWizard() {
               <span className="font-semibold">{slotStart}</span>
               <span className="text-xs text-foreground/60">{slotEnd}</span>
             </div>
+            {bookingDependent ? (
+              <div className="flex flex-col gap-2 rounded-2xl border border-border/60 bg-background/80 p-4 text-sm text-foreground sm:col-span-2">
+                <span className="text-xs uppercase tracking-[0.3em] text-foreground/60">
+                  {t('dependents.label')}
+                </span>
+                <span className="font-semibold" data-testid="booking-dependent">
+                  {dependentName(bookingDependent)}
+                </span>
+              </div>
+            ) : null}
+            {slotOffice ? (
+              <div className="flex flex-col gap-2 rounded-2xl border border-border/60 bg-background/80 p-4 text-sm text-foreground sm:col-span-2">
+                <span className="text-xs uppercase tracking-[0.3em] text-foreground/60">
+                  {t('labels.office')}
+                </span>
+                <span className="font-semibold">{slotOffice.name}</span>
+                <span className="text-xs text-foreground/60">
+                  {t('labels.officeAddress', {
+                    address: slotOffice.address,
+                    commune: slotOffice.commune,
+                  })}
+                </span>
+              </div>
+            ) : null}
           </div>
 
           <label className="flex flex-col gap-2 text-sm font-medium" htmlFor={notesInputId}>
@@ -1114,6 +1471,24 @@ export function BookingWizard() {
             />
           </label>
 
+          {holdSecondsLeft !== null && holdSecondsLeft > 0 ? (
+            <Text className="text-sm text-foreground/70" data-testid="slot-hold-countdown">
+              {t('hold.active', { time: formatCountdown(holdSecondsLeft) })}
+            </Text>
+          ) : null}
+          {holdSecondsLeft === 0 ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <Text className="text-sm text-amber-600">{t('hold.expired')}</Text>
+              <Button
+                variant="ghost"
+                onClick={() => void holdSlot(selectedSlot)}
+                disabled={isHolding}
+              >
+                {t('hold.renew')}
+              </Button>
+            </div>
+          ) : null}
+
           {feedback ? <Text className="text-sm text-primary">{feedback}</Text> : null}
           {errorMessage ? <Text className="text-sm text-red-500">{errorMessage}</Text> : null}
 
@@ -1228,6 +1603,14 @@ export function BookingWizard() {
                     <span className="text-xs text-foreground/60">
                       {t('labels.appointmentScheduled', { date: scheduledLabel })}
                     </span>
+                    <span className="text-xs text-foreground/60">
+                      {t('labels.appointmentReference', { reference: appointment.reference })}
+                    </span>
+                    {appointment.dependent ? (
+                      <span className="text-xs text-foreground/70">
+                        {t('dependents.bookedFor', { name: dependentName(appointment.dependent) })}
+                      </span>
+                    ) : null}
                     <span className="text-xs font-semibold uppercase tracking-[0.25em] text-primary">
                       {statusLabel}
                     </span>
@@ -1249,6 +1632,14 @@ export function BookingWizard() {
                     >
                       {t('actions.cancel')}
                     </Button>
+                    <a
+                      href={buildAppointmentCalendarUrl(appointment.id)}
+                      download
+                      className="px-3 py-1.5 text-xs font-medium text-primary underline-offset-4 hover:underline"
+                      data-testid={`appointment-calendar-${appointment.id}`}
+                    >
+                      {t('actions.addToCalendar')}
+                    </a>
                   </div>
                 </li>
               );
@@ -1309,6 +1700,49 @@ export function BookingWizard() {
                 data-testid="queue-desired-to"
               />
             </label>
+            {dependents.length > 0 ? (
+              <label className="flex flex-col gap-2 text-sm font-medium">
+                <span>{t('dependents.label')}</span>
+                <select
+                  name="dependentId"
+                  value={queueForm.dependentId}
+                  onChange={handleQueueFormChange}
+                  className="h-10 rounded-md border border-border/60 bg-background px-3 text-sm text-foreground/80 transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/40"
+                  data-testid="queue-dependent-select"
+                >
+                  <option value="">{t('dependents.self')}</option>
+                  {dependents.map((dependent) => (
+                    <option key={dependent.id} value={dependent.id}>
+                      {dependentName(dependent)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            {priorityRules.length > 0 ? (
+              <label className="flex flex-col gap-2 text-sm font-medium">
+                <span>{t('queue.priority.label')}</span>
+                <select
+                  name="priorityClass"
+                  value={queueForm.priorityClass}
+                  onChange={handleQueueFormChange}
+                  className="h-10 rounded-md border border-border/60 bg-background px-3 text-sm text-foreground/80 transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/40"
+                  data-testid="queue-priority-select"
+                >
+                  <option value="">{t('queue.priority.none')}</option>
+                  {priorityRules.map((rule) => (
+                    <option key={rule.priorityClass} value={rule.priorityClass}>
+                      {t(`queue.priority.classes.${rule.priorityClass}`)}
+                    </option>
+                  ))}
+                </select>
+                {selectedPriorityRule?.requiresProof ? (
+                  <span className="text-xs font-normal text-foreground/60">
+                    {t('queue.priority.proofRequired')}
+                  </span>
+                ) : null}
+              </label>
+            ) : null}
             <label className="flex flex-col gap-2 text-sm font-medium" htmlFor={queueNotesId}>
               <span>{t('labels.notes')}</span>
               <textarea
@@ -1359,6 +1793,13 @@ export function BookingWizard() {
                     >
                       <div className="space-y-1">
                         <p className="text-base font-semibold text-foreground">{serviceName}</p>
+                        {ticket.dependentId && dependentsById.get(ticket.dependentId) ? (
+                          <p className="text-xs text-foreground/70">
+                            {t('dependents.bookedFor', {
+                              name: dependentName(dependentsById.get(ticket.dependentId)!),
+                            })}
+                          </p>
+                        ) : null}
                         <p className="text-xs text-foreground/60">
                           {t('labels.queueWindow', {
                             from: fromLabel ?? '—',
@@ -1368,11 +1809,23 @@ export function BookingWizard() {
                         <p className="text-xs uppercase tracking-[0.25em] text-primary">
                           {statusLabel}
                         </p>
+                        {ticket.priorityClass && ticket.priorityClass !== 'STANDARD' ? (
+                          <p className="text-xs font-semibold text-emerald-700">
+                            {t(`queue.priority.classes.${ticket.priorityClass}`)}
+                          </p>
+                        ) : null}
+                        {ticket.requestedPriorityClass ? (
+                          <p className="text-xs text-amber-600">
+                            {t('queue.priority.pending', {
+                              priority: t(
+                                `queue.priority.classes.${ticket.requestedPriorityClass}`,
+                              ),
+                            })}
+                          </p>
+                        ) : null}
                       </div>
                       <div className="flex flex-wrap items-center gap-2">
-                        <span className="inline-flex items-center justify-center rounded-full bg-primary/10 px-3 py-1 text-xs font-semibold text-primary">
-                          #{ticket.position}
-                        </span>
+                        <QueueTicketPosition ticket={ticket} onUpdate={handleQueuePositionUpdate} />
                         {ticket.status === 'WAITING' ? (
                           <Button
                             variant="ghost"
@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+import { useLocale, useTranslations } from 'next-intl';
+import { useMutation } from '@tanstack/react-query';
+
+import { Link } from '@/i18n/navigation';
+import { Spinner } from '@/components/ui/spinner';
+import { Text } from '@/components/ui/typography';
+import { confirmAttendance, getOutstandingDocuments } from '@/lib/api/appointments';
+import { isApiError } from '@/lib/api/client';
+
+interface ConfirmAttendanceProps {
+  token?: string | null;
+}
+
+export function ConfirmAttendance({ token }: ConfirmAttendanceProps) {
+  const t = useTranslations('Booking.confirmAttendance');
+  const locale = useLocale();
+  const submitted = useRef(false);
+
+  const mutation = useMutation({
+    mutationFn: (value: string) => confirmAttendance({ token: value }, locale),
+  });
+
+  useEffect(() => {
+    // The link is single-purpose: confirm as soon as the page opens.
+    if (!token || submitted.current) return;
+
+    submitted.current = true;
+    mutation.mutate(token);
+  }, [mutation, token]);
+
+  const renderState = () => {
+    if (!token) {
+      return <Text className="text-sm text-red-500">{t('missingToken')}</Text>;
+    }
+
+    if (mutation.isError) {
+      const outstanding = getOutstandingDocuments(mutation.error);
+
+      if (outstanding !== null) {
+        return (
+          <Text className="text-sm text-red-500">{t('documentsIncomplete', { outstanding })}</Text>
+        );
+      }
+
+      return (
+        <Text className="text-sm text-red-500">
+          {isApiError(mutation.error) ? mutation.error.message : t('error')}
+        </Text>
+      );
+    }
+
+    if (mutation.isSuccess) {
+      return <Text className="text-sm font-medium text-primary">{t('success')}</Text>;
+    }
+
+    return (
+      <div className="flex items-center gap-3 text-sm text-foreground/70 rtl:space-x-reverse">
+        <Spinner size="sm" />
+        <span>{t('loading')}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {renderState()}
+      <Link
+        href="/appointments"
+        className="text-sm font-medium text-primary underline-offset-4 hover:underline"
+      >
+        {t('backToAppointments')}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useTranslations } from 'next-intl';
+
+import { Spinner } from '@/components/ui/spinner';
+import { Text } from '@/components/ui/typography';
+import { buildQueueBoardStreamUrl } from '@/lib/api/appointments';
+import type { QueueBoard as QueueBoardSnapshot } from '@/types';
+
+interface QueueBoardProps {
+  serviceId?: string | null;
+  officeId?: string | null;
+}
+
+/** Public waiting-room display, kept up to date by the board event stream. */
+export function QueueBoard({ serviceId, officeId }: QueueBoardProps) {
+  const t = useTranslations('Booking.queueBoard');
+  const [board, setBoard] = useState<QueueBoardSnapshot | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!serviceId || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(buildQueueBoardStreamUrl(serviceId, officeId ?? undefined));
+
+    source.onopen = () => setIsConnected(true);
+    source.onmessage = (event: MessageEvent<string>) => {
+      setBoard(JSON.parse(event.data) as QueueBoardSnapshot);
+    };
+    // The browser reconnects on its own; only flag the board as stale meanwhile.
+    source.onerror = () => setIsConnected(false);
+
+    return () => source.close();
+  }, [officeId, serviceId]);
+
+  if (!serviceId) {
+    return <Text className="text-sm text-red-500">{t('missingService')}</Text>;
+  }
+
+  if (!board) {
+    return (
+      <div className="flex items-center gap-3 text-sm text-foreground/70 rtl:space-x-reverse">
+        <Spinner size="sm" />
+        <span>{t('connecting')}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8" data-testid="queue-board">
+      {!isConnected ? <Text className="text-sm text-amber-600">{t('reconnecting')}</Text> : null}
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-[0.3em] text-foreground/60">
+          {t('serving')}
+        </h2>
+        {board.serving.length === 0 ? (
+          <Text muted>{t('servingEmpty')}</Text>
+        ) : (
+          <ul className="flex flex-wrap gap-3">
+            {board.serving.map((ticket) => (
+              <li
+                key={ticket.number}
+                className="rounded-2xl bg-primary px-6 py-4 font-mono text-3xl font-bold text-primary-foreground"
+              >
+                {ticket.number}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-[0.3em] text-foreground/60">
+          {t('next')}
+        </h2>
+        {board.next.length === 0 ? (
+          <Text muted>{t('nextEmpty')}</Text>
+        ) : (
+          <ol className="grid gap-2 sm:grid-cols-2">
+            {board.next.map((ticket) => (
+              <li
+                key={ticket.number}
+                className="flex items-center justify-between rounded-xl border border-border/60 px-4 py-3"
+              >
+                <span className="text-xs text-foreground/60">#{ticket.position}</span>
+                <span className="font-mono text-xl font-semibold text-foreground">
+                  {ticket.number}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+        <Text muted>{t('waiting', { count: board.waitingCount })}</Text>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useMemo, useRef } from 'react';
+
+import { useLocale, useTranslations } from 'next-intl';
+
+import { buildQueuePositionStreamUrl } from '@/lib/api/appointments';
+import type { QueueTicket, QueueTicketPosition as QueueTicketPositionUpdate } from '@/types';
+
+const LIVE_STATUSES: QueueTicket['status'][] = ['WAITING', 'NOTIFIED'];
+
+interface QueueTicketPositionProps {
+  ticket: QueueTicket;
+  onUpdate: (update: QueueTicketPositionUpdate) => void;
+}
+
+/**
+ * Shows the number, rank and estimated wait of a queue ticket, following the
+ * live position stream while the ticket is still in the queue.
+ */
+export function QueueTicketPosition({ ticket, onUpdate }: QueueTicketPositionProps) {
+  const t = useTranslations('Booking.queue');
+  const locale = useLocale();
+  const onUpdateRef = useRef(onUpdate);
+  const isLive = LIVE_STATUSES.includes(ticket.status);
+
+  useEffect(() => {
+    onUpdateRef.current = onUpdate;
+  }, [onUpdate]);
+
+  useEffect(() => {
+    if (!isLive || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(buildQueuePositionStreamUrl(ticket.id), {
+      withCredentials: true,
+    });
+
+    source.onmessage = (event: MessageEvent<string>) => {
+      const update = JSON.parse(event.data) as QueueTicketPositionUpdate;
+      onUpdateRef.current(update);
+
+      // The server ends the stream once the ticket leaves the queue; do not reconnect.
+      if (!LIVE_STATUSES.includes(update.status)) {
+        source.close();
+      }
+    };
+
+    // Errors sent by the server (such as an unknown ticket) are final.
+    source.addEventListener('error', (event) => {
+      if (event instanceof MessageEvent) {
+        source.close();
+      }
+    });
+
+    return () => source.close();
+  }, [isLive, ticket.id]);
+
+  const dateTimeFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }),
+    [locale],
+  );
+
+  return (
+    <span
+      className="inline-flex flex-wrap items-center gap-2"
+      data-testid={`queue-position-${ticket.id}`}
+    >
+      {ticket.number ? (
+        <span className="text-xs font-semibold uppercase tracking-[0.2em] text-foreground/70">
+          {t('ticketNumber', { number: ticket.number })}
+        </span>
+      ) : null}
+      {ticket.status === 'WAITING' ? (
+        <span className="inline-flex items-center justify-center rounded-full bg-primary/10 px-3 py-1 text-xs font-semibold text-primary">
+          #{ticket.position}
+        </span>
+      ) : null}
+      {ticket.status === 'WAITING' && ticket.eta ? (
+        <span className="text-xs text-foreground/60" data-testid={`queue-eta-${ticket.id}`}>
+          {t('eta', {
+            from: dateTimeFormatter.format(new Date(ticket.eta.earliestAt)),
+            to: dateTimeFormatter.format(new Date(ticket.eta.latestAt)),
+          })}
+        </span>
+      ) : null}
+    </span>
+  );
+}
@@ -0,0 +1,271 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { FormEvent } from 'react';
+
+import { useLocale, useTranslations } from 'next-intl';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { Text } from '@/components/ui/typography';
+import { isApiError } from '@/lib/api/client';
+import {
+  createDependent,
+  deleteDependent,
+  fetchDependents,
+  updateDependent,
+} from '@/lib/api/profile';
+import { profileKeys } from '@/lib/react-query/keys';
+import type { Dependent, DependentPayload, DependentRelationship } from '@/types';
+
+const RELATIONSHIPS: DependentRelationship[] = [
+  'CHILD',
+  'SPOUSE',
+  'PARENT',
+  'SIBLING',
+  'WARD',
+  'OTHER',
+];
+
+const EMPTY_FORM: DependentPayload = {
+  firstName: '',
+  lastName: '',
+  birthDate: '',
+  relationship: 'CHILD',
+  nationalId: '',
+};
+
+export function DependentsCard() {
+  const locale = useLocale();
+  const t = useTranslations('Profile.dependents');
+  const queryClient = useQueryClient();
+
+  const [form, setForm] = useState<DependentPayload>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const dependentsQuery = useQuery({
+    queryKey: profileKeys.dependents(locale),
+    queryFn: () => fetchDependents(locale),
+  });
+
+  const dateFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: 'UTC' }),
+    [locale],
+  );
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const onError = (error: unknown) =>
+    setErrorMessage(isApiError(error) ? error.message : t('error'));
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: DependentPayload) =>
+      editingId ? updateDependent(editingId, payload, locale) : createDependent(payload, locale),
+    onSuccess: async () => {
+      resetForm();
+      await queryClient.invalidateQueries({ queryKey: profileKeys.dependents(locale) });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => deleteDependent(id, locale),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: profileKeys.dependents(locale) });
+    },
+    onError,
+  });
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setErrorMessage(null);
+
+    saveMutation.mutate({
+      firstName: form.firstName.trim(),
+      lastName: form.lastName.trim(),
+      birthDate: form.birthDate,
+      relationship: form.relationship,
+      nationalId: form.nationalId?.trim() || undefined,
+    });
+  };
+
+  const handleEdit = (dependent: Dependent) => {
+    setErrorMessage(null);
+    setEditingId(dependent.id);
+    setForm({
+      firstName: dependent.firstName,
+      lastName: dependent.lastName,
+      birthDate: dependent.birthDate,
+      relationship: dependent.relationship,
+      nationalId: dependent.nationalId ?? '',
+    });
+  };
+
+  const handleRemove = (dependent: Dependent) => {
+    setErrorMessage(null);
+
+    if (window.confirm(t('confirmRemove', { name: dependent.firstName }))) {
+      removeMutation.mutate(dependent.id);
+    }
+  };
+
+  const dependents = dependentsQuery.data?.data ?? [];
+  const isSaving = saveMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('title')}</CardTitle>
+        <Text muted>{t('description')}</Text>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {dependentsQuery.isError ? (
+          <Text className="text-sm text-red-500">{t('loadError')}</Text>
+        ) : dependentsQuery.isLoading ? (
+          <div className="flex items-center gap-3 text-sm text-foreground/70">
+            <Spinner />
+            <span>{t('loading')}</span>
+          </div>
+        ) : dependents.length === 0 ? (
+          <Text muted>{t('empty')}</Text>
+        ) : (
+          <ul className="space-y-3">
+            {dependents.map((dependent) => (
+              <li
+                key={dependent.id}
+                data-testid={`dependent-${dependent.id}`}
+                className="flex flex-col gap-3 rounded-2xl border border-border/60 px-5 py-4 text-sm rtl:text-right sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="space-y-1">
+                  <p className="font-semibold text-foreground">
+                    {dependent.firstName} {dependent.lastName}
+                  </p>
+                  <p className="text-xs text-foreground/60">
+                    {t('summary', {
+                      relationship: t(`relationships.${dependent.relationship}`),
+                      birthDate: dateFormatter.format(new Date(dependent.birthDate)),
+                    })}
+                  </p>
+                  {dependent.nationalId ? (
+                    <p className="text-xs text-foreground/60">
+                      {t('nationalIdValue', { nationalId: dependent.nationalId })}
+                    </p>
+                  ) : null}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => handleEdit(dependent)}>
+                    {t('edit')}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(dependent)}
+                    disabled={removeMutation.isPending}
+                  >
+                    {t('remove')}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form className="grid gap-4 sm:grid-cols-2" onSubmit={handleSubmit}>
+          <div>
+            <Label htmlFor="dependentFirstName" required>
+              {t('fields.firstName')}
+            </Label>
+            <Input
+              id="dependentFirstName"
+              value={form.firstName}
+              onChange={(event) => setForm((prev) => ({ ...prev, firstName: event.target.value }))}
+              required
+              minLength={2}
+              maxLength={100}
+            />
+          </div>
+          <div>
+            <Label htmlFor="dependentLastName" required>
+              {t('fields.lastName')}
+            </Label>
+            <Input
+              id="dependentLastName"
+              value={form.lastName}
+              onChange={(event) => setForm((prev) => ({ ...prev, lastName: event.target.value }))}
+              required
+              minLength={2}
+              maxLength={100}
+            />
+          </div>
+          <div>
+            <Label htmlFor="dependentBirthDate" required>
+              {t('fields.birthDate')}
+            </Label>
+            <Input
+              id="dependentBirthDate"
+              type="date"
+              value={form.birthDate}
+              max={new Date().toISOString().slice(0, 10)}
+              onChange={(event) => setForm((prev) => ({ ...prev, birthDate: event.target.value }))}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="dependentRelationship" required>
+              {t('fields.relationship')}
+            </Label>
+            <Select
+              id="dependentRelationship"
+              value={form.relationship}
+              onChange={(event) =>
+                setForm((prev) => ({
+                  ...prev,
+                  relationship: event.target.value as DependentRelationship,
+                }))
+              }
+            >
+              {RELATIONSHIPS.map((relationship) => (
+                <option key={relationship} value={relationship}>
+                  {t(`relationships.${relationship}`)}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div className="sm:col-span-2">
+            <Label htmlFor="dependentNationalId">{t('fields.nationalId')}</Label>
+            <Input
+              id="dependentNationalId"
+              inputMode="numeric"
+              pattern="\d{18}"
+              value={form.nationalId ?? ''}
+              onChange={(event) => setForm((prev) => ({ ...prev, nationalId: event.target.value }))}
+            />
+            <Text className="mt-1 text-xs text-foreground/60">{t('nationalIdHint')}</Text>
+          </div>
+          {errorMessage ? (
+            <Text className="text-sm text-red-500 sm:col-span-2">{errorMessage}</Text>
+          ) : null}
+          <div className="flex flex-wrap items-center gap-3 sm:col-span-2">
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {editingId ? t('save') : t('add')}
+            </Button>
+            {editingId ? (
+              <Button type="button" variant="ghost" size="sm" onClick={resetForm}>
+                {t('cancel')}
+              </Button>
+            ) : null}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,17 +1,35 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 
 import { useLocale, useTranslations } from 'next-intl';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { DependentsCard } from '@/components/profile/DependentsCard';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import { Spinner } from '@/components/ui/spinner';
-import { fetchUserAppointments, fetchUserDocuments, fetchUserProfile } from '@/lib/api/profile';
+import {
+  createCalendarFeed,
+  fetchNotificationPreferences,
+  fetchUserAppointments,
+  fetchUserDocuments,
+  fetchUserProfile,
+  revokeCalendarFeed,
+  updateNotificationPreferences,
+} from '@/lib/api/profile';
 import { appointmentKeys, documentKeys, profileKeys } from '@/lib/react-query/keys';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { localeLabels } from '@/i18n/config';
-import type { AppointmentItem, DocumentItem, DocumentStatus, UserProfile } from '@/types';
+import type {
+  AppointmentItem,
+  DocumentItem,
+  DocumentStatus,
+  NotificationPreferences,
+  UserProfile,
+} from '@/types';
 import { Section } from '@/components/layout/Section';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Heading, Text } from '@/components/ui/typography';
@@ -23,6 +41,9 @@ export function ProfilePage() {
   const personalT = useTranslations('Profile.personal');
   const documentsT = useTranslations('Profile.documents');
   const appointmentsT = useTranslations('Profile.appointments');
+  const remindersT = useTranslations('Profile.reminders');
+  const calendarT = useTranslations('Profile.calendar');
+  const queryClient = useQueryClient();
 
   const profileQuery = useQuery({
     queryKey: profileKeys.details(locale),
@@ -39,6 +60,38 @@ export function ProfilePage() {
     queryFn: () => fetchUserAppointments(locale),
   });
 
+  const preferencesQuery = useQuery({
+    queryKey: profileKeys.notificationPreferences(),
+    queryFn: () => fetchNotificationPreferences(locale),
+  });
+
+  const preferencesMutation = useMutation({
+    mutationFn: (payload: Partial<NotificationPreferences>) =>
+      updateNotificationPreferences(payload, locale),
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(profileKeys.notificationPreferences(), preferences);
+    },
+  });
+
+  const [calendarFeedUrl, setCalendarFeedUrl] = useState<string | null>(null);
+
+  const createFeedMutation = useMutation({
+    mutationFn: () => createCalendarFeed(locale),
+    onSuccess: (response) => setCalendarFeedUrl(response.data.url),
+  });
+
+  const revokeFeedMutation = useMutation({
+    mutationFn: () => revokeCalendarFeed(locale),
+    onSuccess: () => setCalendarFeedUrl(null),
+  });
+
+  const isCalendarPending = createFeedMutation.isPending || revokeFeedMutation.isPending;
+
+  const reminderChannels = [
+    { key: 'emailReminders', label: remindersT('email') },
+    { key: 'smsReminders', label: remindersT('sms') },
+  ] as const;
+
   const profile = (profileQuery.data ?? user ?? null) as UserProfile | null;
 
   const missingValue = personalT('missing');
@@ -279,6 +332,85 @@ export function ProfilePage() {
             </CardContent>
           </Card>
 
+          <DependentsCard />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{remindersT('title')}</CardTitle>
+              <Text muted>{remindersT('description')}</Text>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {preferencesQuery.isError ? (
+                <Text className="text-sm text-red-500">{remindersT('error')}</Text>
+              ) : (
+                reminderChannels.map(({ key, label }) => (
+                  <label
+                    key={key}
+                    className="flex items-center gap-3 text-sm text-foreground/90 rtl:space-x-reverse"
+                  >
+                    <Checkbox
+                      checked={preferencesQuery.data?.[key] ?? true}
+                      disabled={preferencesQuery.isLoading || preferencesMutation.isPending}
+                      onChange={(event) =>
+                        preferencesMutation.mutate({ [key]: event.target.checked })
+                      }
+                    />
+                    <span>{label}</span>
+                  </label>
+                ))
+              )}
+              {preferencesMutation.isError ? (
+                <Text className="text-sm text-red-500">{remindersT('saveError')}</Text>
+              ) : null}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{calendarT('title')}</CardTitle>
+              <Text muted>{calendarT('description')}</Text>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {calendarFeedUrl ? (
+                <div className="space-y-2 text-sm">
+                  <label className="block font-medium text-foreground" htmlFor="calendarFeedUrl">
+                    {calendarT('urlLabel')}
+                  </label>
+                  <Input
+                    id="calendarFeedUrl"
+                    readOnly
+                    value={calendarFeedUrl}
+                    onFocus={(event) => event.target.select()}
+                  />
+                  <Text className="text-xs text-foreground/70">{calendarT('warning')}</Text>
+                </div>
+              ) : null}
+              {revokeFeedMutation.isSuccess && !calendarFeedUrl ? (
+                <Text className="text-sm text-primary">{calendarT('revoked')}</Text>
+              ) : null}
+              {createFeedMutation.isError || revokeFeedMutation.isError ? (
+                <Text className="text-sm text-red-500">{calendarT('error')}</Text>
+              ) : null}
+              <div className="flex flex-wrap items-center gap-3">
+                <Button
+                  size="sm"
+                  onClick={() => createFeedMutation.mutate()}
+                  disabled={isCalendarPending}
+                >
+                  {calendarFeedUrl ? calendarT('regenerate') : calendarT('generate')}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => revokeFeedMutation.mutate()}
+                  disabled={isCalendarPending}
+                >
+                  {calendarT('revoke')}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
           <div className="grid gap-6 lg:grid-cols-2">
             <Card>
               <CardHeader>
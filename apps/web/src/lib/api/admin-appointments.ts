@@ -5,12 +5,13 @@ import type {
   AdminAppointmentResponse,
   AdminUpdateAppointmentData,
 } from '@/types/admin';
+import type { AppointmentStatus } from '@/types/appointments';
 
 export interface AdminAppointmentListParams {
   locale?: string;
   userId?: string;
   serviceId?: string;
-  status?: 'SCHEDULED' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED';
+  status?: AppointmentStatus;
   scheduledFrom?: string;
   scheduledTo?: string;
   page?: number;
@@ -52,6 +53,22 @@ export async function updateAdminAppointment(
   });
 }
 
+export async function overrideAdminAppointmentDocuments(
+  id: string,
+  reason: string,
+): Promise<AdminAppointmentResponse> {
+  return apiFetch<AdminAppointmentResponse>(`/v1/admin/appointments/${id}/documents-override`, {
+    method: 'PUT',
+    body: JSON.stringify({ reason }),
+  });
+}
+
+export async function clearAdminAppointmentDocumentsOverride(id: string): Promise<void> {
+  return apiFetch<void>(`/v1/admin/appointments/${id}/documents-override`, {
+    method: 'DELETE',
+  });
+}
+
 export async function deleteAdminAppointment(id: string): Promise<void> {
   return apiFetch<void>(`/v1/admin/appointments/${id}`, {
     method: 'DELETE',
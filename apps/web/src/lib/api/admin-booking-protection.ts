@@ -0,0 +1,55 @@
+import { apiFetch } from '@/lib/api/client';
+import { buildQuery } from '@/lib/api/query';
+import type {
+  AdminCancelFlaggedBookingsResult,
+  AdminDismissFlaggedBookingsResult,
+  AdminFlaggedBookingListResponse,
+  BookingAttemptKind,
+  BookingRiskFlag,
+} from '@/types/admin';
+
+export interface AdminFlaggedBookingsParams {
+  flag?: BookingRiskFlag;
+  kind?: BookingAttemptKind;
+  serviceId?: string;
+  includeReviewed?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export async function fetchAdminFlaggedBookings(
+  params: AdminFlaggedBookingsParams = {},
+): Promise<AdminFlaggedBookingListResponse> {
+  const query = buildQuery({
+    flag: params.flag,
+    kind: params.kind,
+    serviceId: params.serviceId,
+    includeReviewed: params.includeReviewed ? 'true' : undefined,
+    page: params.page ? String(params.page) : undefined,
+    limit: params.limit ? String(params.limit) : undefined,
+  });
+
+  return apiFetch<AdminFlaggedBookingListResponse>(`/v1/admin/booking-protection/flagged${query}`);
+}
+
+export async function cancelAdminFlaggedBookings(
+  attemptIds: string[],
+  reason?: string,
+): Promise<AdminCancelFlaggedBookingsResult> {
+  return apiFetch<AdminCancelFlaggedBookingsResult>('/v1/admin/booking-protection/flagged/cancel', {
+    method: 'POST',
+    body: JSON.stringify({ attemptIds, reason }),
+  });
+}
+
+export async function dismissAdminFlaggedBookings(
+  attemptIds: string[],
+): Promise<AdminDismissFlaggedBookingsResult> {
+  return apiFetch<AdminDismissFlaggedBookingsResult>(
+    '/v1/admin/booking-protection/flagged/dismiss',
+    {
+      method: 'POST',
+      body: JSON.stringify({ attemptIds }),
+    },
+  );
+}
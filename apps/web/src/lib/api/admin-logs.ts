@@ -23,7 +23,7 @@ export interface AdminDocumentVerificationLogsParams {
   uploadId?: string;
   createdFrom?: string;
   createdTo?: string;
-  logType?: 'status' | 'validation';
+  logType?: 'status' | 'validation' | 'verification';
   page?: number;
   limit?: number;
 }
@@ -1,7 +1,9 @@
-import { apiFetch } from '@/lib/api/client';
+import { buildBookingProtectionHeaders } from '@/lib/api/booking-protection';
+import { apiFetch, isApiError } from '@/lib/api/client';
 import { persistCache, readCache } from '@/lib/api/cache';
 import { buildQuery } from '@/lib/api/query';
-import { buildLocaleHeaders } from '@/lib/api/shared';
+import { buildIdempotencyHeaders, buildLocaleHeaders } from '@/lib/api/shared';
+import { config } from '@/lib/config';
 import type {
   AppointmentAvailabilityParams,
   AppointmentAvailabilityResponse,
@@ -9,13 +11,35 @@ import type {
   AppointmentListParams,
   AppointmentListResponse,
   BookAppointmentPayload,
+  BookingChallengeCode,
+  BookingPolicyCode,
+  BookingPolicyViolation,
   CancelAppointmentPayload,
+  ConfirmAttendancePayload,
   CreateQueueTicketPayload,
+  CreateSlotHoldPayload,
+  NextAvailableSlotsParams,
+  NextAvailableSlotsResponse,
+  QueuePriorityRuleListResponse,
   QueueTicketDetailResponse,
   RescheduleAppointmentPayload,
+  SlotHoldResponse,
   UpdateQueueTicketStatusPayload,
 } from '@/types/appointments';
 
+const BOOKING_POLICY_CODES: Array<BookingPolicyCode | BookingChallengeCode> = [
+  'BOOKING_LEAD_TIME',
+  'BOOKING_TOO_FAR_AHEAD',
+  'BOOKING_CHANGE_CUTOFF',
+  'BOOKING_ACTIVE_LIMIT',
+  'BOOKING_DEPENDENT_ACTIVE_LIMIT',
+  'BOOKING_NO_SHOW_COOLDOWN',
+  'BOOKING_CHALLENGE_REQUIRED',
+  'BOOKING_CHALLENGE_INVALID',
+  'BOOKING_CHALLENGE_EXPIRED',
+  'BOOKING_CHALLENGE_REUSED',
+];
+
 const AVAILABILITY_CACHE_PREFIX = 'appointments:availability';
 const APPOINTMENTS_CACHE_PREFIX = 'appointments:list';
 
@@ -23,11 +47,13 @@ function buildAvailabilityCacheKey(params: AppointmentAvailabilityParams, locale
   const from = params.from ?? 'default';
   const to = params.to ?? 'default';
   const timezone = params.timezone ?? 'default';
+  const office = params.officeId ?? 'all';
   const localeKey = (locale ?? 'default').toLowerCase();
 
   return [
     AVAILABILITY_CACHE_PREFIX,
     params.serviceId,
+    office,
     localeKey,
     encodeURIComponent(from),
     encodeURIComponent(to),
@@ -50,6 +76,7 @@ export async function fetchAppointmentAvailability(
   const cacheKey = buildAvailabilityCacheKey(params, locale);
   const query = buildQuery({
     serviceId: params.serviceId,
+    officeId: params.officeId,
     from: params.from,
     to: params.to,
     timezone: params.timezone,
@@ -73,6 +100,27 @@ export async function fetchAppointmentAvailability(
   }
 }
 
+export async function fetchNextAvailableSlots(
+  params: NextAvailableSlotsParams,
+  locale?: string,
+): Promise<NextAvailableSlotsResponse> {
+  const query = buildQuery({
+    serviceIds: params.serviceIds.join(','),
+    officeId: params.officeId,
+    daysOfWeek: params.daysOfWeek?.join(','),
+    fromTime: params.fromTime,
+    toTime: params.toTime,
+    timezone: params.timezone,
+    limit: params.limit ? String(params.limit) : undefined,
+    horizonDays: params.horizonDays ? String(params.horizonDays) : undefined,
+    cursor: params.cursor,
+  });
+
+  return apiFetch<NextAvailableSlotsResponse>(`/appointments/availability/next${query}`, {
+    headers: buildLocaleHeaders(locale),
+  });
+}
+
 export async function fetchAppointments(
   params: AppointmentListParams = {},
 ): Promise<AppointmentListResponse> {
@@ -100,22 +148,48 @@ export async function fetchAppointments(
 export async function bookAppointment(
   payload: BookAppointmentPayload,
   locale?: string,
+  idempotencyKey?: string,
 ): Promise<AppointmentDetailResponse> {
+  const protectionHeaders = await buildBookingProtectionHeaders();
+
   return apiFetch<AppointmentDetailResponse>('/appointments', {
+    method: 'POST',
+    headers: {
+      ...buildLocaleHeaders(locale),
+      ...buildIdempotencyHeaders(idempotencyKey),
+      ...protectionHeaders,
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function createSlotHold(
+  payload: CreateSlotHoldPayload,
+  locale?: string,
+): Promise<SlotHoldResponse> {
+  return apiFetch<SlotHoldResponse>('/appointments/holds', {
     method: 'POST',
     headers: buildLocaleHeaders(locale),
     body: JSON.stringify(payload),
   });
 }
 
+export async function releaseSlotHold(holdId: string, locale?: string): Promise<void> {
+  await apiFetch<void>(`/appointments/holds/${holdId}`, {
+    method: 'DELETE',
+    headers: buildLocaleHeaders(locale),
+  });
+}
+
 export async function rescheduleAppointment(
   appointmentId: string,
   payload: RescheduleAppointmentPayload,
   locale?: string,
+  idempotencyKey?: string,
 ): Promise<AppointmentDetailResponse> {
   return apiFetch<AppointmentDetailResponse>(`/appointments/${appointmentId}/reschedule`, {
     method: 'PATCH',
-    headers: buildLocaleHeaders(locale),
+    headers: { ...buildLocaleHeaders(locale), ...buildIdempotencyHeaders(idempotencyKey) },
     body: JSON.stringify(payload),
   });
 }
@@ -124,21 +198,101 @@ export async function cancelAppointment(
   appointmentId: string,
   payload: CancelAppointmentPayload,
   locale?: string,
+  idempotencyKey?: string,
 ): Promise<AppointmentDetailResponse> {
   return apiFetch<AppointmentDetailResponse>(`/appointments/${appointmentId}/cancel`, {
     method: 'PATCH',
+    headers: { ...buildLocaleHeaders(locale), ...buildIdempotencyHeaders(idempotencyKey) },
+    body: JSON.stringify(payload),
+  });
+}
+
+/**
+ * Extracts the booking policy rule or rejected booking challenge an API error
+ * reports, if any, so the violation can be explained in the user's language.
+ */
+export function getBookingPolicyViolation(error: unknown): BookingPolicyViolation | null {
+  if (!isApiError(error) || !error.details || typeof error.details !== 'object') {
+    return null;
+  }
+
+  const { code, details } = error.details as { code?: unknown; details?: unknown };
+
+  if (!BOOKING_POLICY_CODES.includes(code as BookingPolicyViolation['code'])) {
+    return null;
+  }
+
+  return {
+    code: code as BookingPolicyViolation['code'],
+    details: (details ?? {}) as BookingPolicyViolation['details'],
+  };
+}
+
+/**
+ * Number of required documents still awaiting validation when an API error
+ * reports that the appointment cannot be confirmed yet, or null otherwise.
+ */
+export function getOutstandingDocuments(error: unknown): number | null {
+  if (!isApiError(error) || !error.details || typeof error.details !== 'object') {
+    return null;
+  }
+
+  const { code, details } = error.details as {
+    code?: unknown;
+    details?: { outstanding?: number };
+  };
+
+  return code === 'APPOINTMENT_DOCUMENTS_INCOMPLETE' ? (details?.outstanding ?? 0) : null;
+}
+
+export function buildAppointmentCalendarUrl(appointmentId: string): string {
+  return `${config.publicApiBaseUrl}/appointments/${appointmentId}/ics`;
+}
+
+/** Server-sent events stream of the public waiting-room board of a service. */
+export function buildQueueBoardStreamUrl(serviceId: string, officeId?: string): string {
+  const query = buildQuery({ serviceId, officeId });
+  return `${config.publicApiBaseUrl}/appointments/queue/board${query}`;
+}
+
+/** Server-sent events stream of the position of a queue ticket of the signed-in user. */
+export function buildQueuePositionStreamUrl(ticketId: string): string {
+  return `${config.publicApiBaseUrl}/appointments/queue/${ticketId}/position`;
+}
+
+export async function confirmAttendance(
+  payload: ConfirmAttendancePayload,
+  locale?: string,
+): Promise<AppointmentDetailResponse> {
+  return apiFetch<AppointmentDetailResponse>('/appointments/confirm-attendance', {
+    method: 'POST',
     headers: buildLocaleHeaders(locale),
     body: JSON.stringify(payload),
   });
 }
 
+export async function fetchQueuePriorityClasses(
+  locale?: string,
+): Promise<QueuePriorityRuleListResponse> {
+  return apiFetch<QueuePriorityRuleListResponse>('/appointments/queue/priority-classes', {
+    headers: buildLocaleHeaders(locale),
+  });
+}
+
 export async function createQueueTicket(
   payload: CreateQueueTicketPayload,
   locale?: string,
+  idempotencyKey?: string,
 ): Promise<QueueTicketDetailResponse> {
+  const protectionHeaders = await buildBookingProtectionHeaders();
+
   return apiFetch<QueueTicketDetailResponse>('/appointments/queue', {
     method: 'POST',
-    headers: buildLocaleHeaders(locale),
+    headers: {
+      ...buildLocaleHeaders(locale),
+      ...buildIdempotencyHeaders(idempotencyKey),
+      ...protectionHeaders,
+    },
     body: JSON.stringify(payload),
   });
 }
@@ -147,10 +301,11 @@ export async function updateQueueTicketStatus(
   ticketId: string,
   payload: UpdateQueueTicketStatusPayload,
   locale?: string,
+  idempotencyKey?: string,
 ): Promise<QueueTicketDetailResponse> {
   return apiFetch<QueueTicketDetailResponse>(`/appointments/queue/${ticketId}/status`, {
     method: 'PATCH',
-    headers: buildLocaleHeaders(locale),
+    headers: { ...buildLocaleHeaders(locale), ...buildIdempotencyHeaders(idempotencyKey) },
     body: JSON.stringify(payload),
   });
 }
@@ -0,0 +1,71 @@
+import { apiFetch } from '@/lib/api/client';
+import { loadDeviceId } from '@/lib/storage/deviceId';
+import type { BookingChallengeResponse } from '@/types/appointments';
+
+const SOLVE_BATCH_SIZE = 256;
+
+export async function fetchBookingChallenge(): Promise<BookingChallengeResponse> {
+  return apiFetch<BookingChallengeResponse>('/appointments/booking-challenge');
+}
+
+function leadingZeroBits(digest: ArrayBuffer): number {
+  let bits = 0;
+
+  for (const byte of new Uint8Array(digest)) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+
+    return bits + Math.clz32(byte) - 24;
+  }
+
+  return bits;
+}
+
+/**
+ * Finds a counter such that SHA-256(`challenge:counter`) starts with
+ * `difficulty` zero bits. Hashes are computed in batches to keep the page
+ * responsive.
+ */
+export async function solveBookingChallenge(
+  challenge: string,
+  difficulty: number,
+): Promise<string> {
+  const encoder = new TextEncoder();
+
+  for (let start = 0; ; start += SOLVE_BATCH_SIZE) {
+    const counters = Array.from({ length: SOLVE_BATCH_SIZE }, (_, index) => start + index);
+    const digests = await Promise.all(
+      counters.map((counter) =>
+        window.crypto.subtle.digest('SHA-256', encoder.encode(`${challenge}:${counter}`)),
+      ),
+    );
+    const solved = digests.findIndex((digest) => leadingZeroBits(digest) >= difficulty);
+
+    if (solved !== -1) {
+      return String(counters[solved]);
+    }
+  }
+}
+
+/**
+ * Headers required by the booking endpoints: a freshly solved challenge and
+ * the device identifier. Outside the browser no headers are added and the
+ * API rejects the booking.
+ */
+export async function buildBookingProtectionHeaders(): Promise<Record<string, string>> {
+  if (typeof window === 'undefined' || !window.crypto?.subtle) {
+    return {};
+  }
+
+  const { data } = await fetchBookingChallenge();
+  const solution = await solveBookingChallenge(data.challenge, data.difficulty);
+  const deviceId = loadDeviceId();
+
+  return {
+    'X-Booking-Challenge': data.challenge,
+    'X-Booking-Solution': solution,
+    ...(deviceId ? { 'X-Device-Fingerprint': deviceId } : {}),
+  };
+}
@@ -0,0 +1,53 @@
+import { apiFetch } from '@/lib/api/client';
+import { persistCache, readCache } from '@/lib/api/cache';
+import { buildQuery } from '@/lib/api/query';
+import type { OfficeListResponse } from '@/types';
+
+const OFFICES_CACHE_PREFIX = 'offices:list';
+
+export interface OfficeListParams {
+  serviceId?: string;
+  wilayaCode?: string;
+  isActive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+function buildOfficesCacheKey(params: OfficeListParams): string {
+  const activeState =
+    params.isActive === undefined ? 'any' : params.isActive ? 'active' : 'inactive';
+
+  return [
+    OFFICES_CACHE_PREFIX,
+    params.serviceId ?? 'all',
+    params.wilayaCode ?? 'all',
+    activeState,
+    params.limit ?? 'default',
+    params.page ?? 1,
+  ].join(':');
+}
+
+export async function fetchOffices(params: OfficeListParams = {}): Promise<OfficeListResponse> {
+  const cacheKey = buildOfficesCacheKey(params);
+  const query = buildQuery({
+    serviceId: params.serviceId,
+    wilayaCode: params.wilayaCode,
+    isActive: typeof params.isActive === 'boolean' ? String(params.isActive) : undefined,
+    page: params.page ? String(params.page) : undefined,
+    limit: params.limit ? String(params.limit) : undefined,
+  });
+
+  try {
+    const result = await apiFetch<OfficeListResponse>(`/offices${query}`);
+    persistCache(cacheKey, result);
+    return result;
+  } catch (error) {
+    const cached = readCache<OfficeListResponse>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+export type { Office } from '@/types';
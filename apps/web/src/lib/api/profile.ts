@@ -1,6 +1,15 @@
 import { apiFetch } from '@/lib/api/client';
 import { buildLocaleHeaders } from '@/lib/api/shared';
-import type { AppointmentItem, DocumentItem, UserProfile } from '@/types';
+import type {
+  AppointmentItem,
+  CalendarFeedResponse,
+  Dependent,
+  DependentListResponse,
+  DependentPayload,
+  DocumentItem,
+  NotificationPreferences,
+  UserProfile,
+} from '@/types';
 
 export async function fetchUserProfile(locale?: string): Promise<UserProfile> {
   return apiFetch<UserProfile>('/profile', {
@@ -19,3 +28,72 @@ export async function fetchUserAppointments(locale?: string): Promise<Appointmen
     headers: buildLocaleHeaders(locale),
   });
 }
+
+export async function fetchNotificationPreferences(
+  locale?: string,
+): Promise<NotificationPreferences> {
+  return apiFetch<NotificationPreferences>('/users/me/notification-preferences', {
+    headers: buildLocaleHeaders(locale),
+  });
+}
+
+export async function updateNotificationPreferences(
+  payload: Partial<NotificationPreferences>,
+  locale?: string,
+): Promise<NotificationPreferences> {
+  return apiFetch<NotificationPreferences>('/users/me/notification-preferences', {
+    method: 'PATCH',
+    headers: buildLocaleHeaders(locale),
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function fetchDependents(locale?: string): Promise<DependentListResponse> {
+  return apiFetch<DependentListResponse>('/users/me/dependents', {
+    headers: buildLocaleHeaders(locale),
+  });
+}
+
+export async function createDependent(
+  payload: DependentPayload,
+  locale?: string,
+): Promise<Dependent> {
+  return apiFetch<Dependent>('/users/me/dependents', {
+    method: 'POST',
+    headers: buildLocaleHeaders(locale),
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function updateDependent(
+  id: string,
+  payload: Partial<DependentPayload>,
+  locale?: string,
+): Promise<Dependent> {
+  return apiFetch<Dependent>(`/users/me/dependents/${id}`, {
+    method: 'PATCH',
+    headers: buildLocaleHeaders(locale),
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function deleteDependent(id: string, locale?: string): Promise<void> {
+  await apiFetch<void>(`/users/me/dependents/${id}`, {
+    method: 'DELETE',
+    headers: buildLocaleHeaders(locale),
+  });
+}
+
+export async function createCalendarFeed(locale?: string): Promise<CalendarFeedResponse> {
+  return apiFetch<CalendarFeedResponse>('/appointments/calendar-feed', {
+    method: 'POST',
+    headers: buildLocaleHeaders(locale),
+  });
+}
+
+export async function revokeCalendarFeed(locale?: string): Promise<void> {
+  await apiFetch<void>('/appointments/calendar-feed', {
+    method: 'DELETE',
+    headers: buildLocaleHeaders(locale),
+  });
+}
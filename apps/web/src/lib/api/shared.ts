@@ -5,3 +5,15 @@ export function buildLocaleHeaders(locale?: string): HeadersInit | undefined {
     'Accept-Language': locale,
   } satisfies HeadersInit;
 }
+
+/**
+ * Lets the API recognise a retried mutation, so replaying it after a lost
+ * response does not apply it twice.
+ */
+export function buildIdempotencyHeaders(idempotencyKey?: string): HeadersInit | undefined {
+  if (!idempotencyKey) return undefined;
+
+  return {
+    'Idempotency-Key': idempotencyKey,
+  } satisfies HeadersInit;
+}
@@ -6,6 +6,8 @@ export const authKeys = {
 export const profileKeys = {
   all: ['profile'] as const,
   details: (locale?: string) => [...profileKeys.all, 'details', locale ?? 'default'] as const,
+  notificationPreferences: () => [...profileKeys.all, 'notification-preferences'] as const,
+  dependents: (locale?: string) => [...profileKeys.all, 'dependents', locale ?? 'default'] as const,
 };
 
 export const documentKeys = {
@@ -33,6 +35,12 @@ export const serviceKeys = {
   }) => [...serviceKeys.all, 'list', params] as const,
 };
 
+export const officeKeys = {
+  all: ['offices'] as const,
+  list: (params: { serviceId?: string; wilayaCode?: string; isActive?: boolean }) =>
+    [...officeKeys.all, 'list', params] as const,
+};
+
 export const adminServiceKeys = {
   all: ['admin', 'services'] as const,
   list: (params: {
@@ -113,10 +121,22 @@ export const adminLogKeys = {
   }) => [...adminLogKeys.all, 'document-verifications', params] as const,
 };
 
+export const adminBookingProtectionKeys = {
+  all: ['admin', 'booking-protection'] as const,
+  flagged: (params: {
+    flag?: string;
+    kind?: string;
+    includeReviewed?: boolean;
+    page?: number;
+    limit?: number;
+  }) => [...adminBookingProtectionKeys.all, 'flagged', params] as const,
+};
+
 export const bookingKeys = {
   all: ['booking'] as const,
   availability: (params: {
     serviceId: string;
+    officeId?: string;
     from?: string;
     to?: string;
     timezone?: string;
@@ -131,4 +151,6 @@ export const bookingKeys = {
       params.limit ?? 'default',
     ] as const,
   queue: (locale?: string) => [...bookingKeys.all, 'queue', locale ?? 'default'] as const,
+  queuePriorityClasses: (locale?: string) =>
+    [...bookingKeys.all, 'queue-priority-classes', locale ?? 'default'] as const,
 };
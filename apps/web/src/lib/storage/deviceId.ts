@@ -0,0 +1,35 @@
+const STORAGE_KEY = 'booking:device-id';
+
+function getStorage(): Storage | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  try {
+    return window.localStorage;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Random identifier of this browser, sent with bookings so the API can spot
+ * several accounts booking from the same device.
+ */
+export function loadDeviceId(): string | null {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  const existing = storage.getItem(STORAGE_KEY);
+  if (existing) return existing;
+
+  const deviceId = window.crypto.randomUUID();
+
+  try {
+    storage.setItem(STORAGE_KEY, deviceId);
+  } catch {
+    // ignore write errors
+  }
+
+  return deviceId;
+}
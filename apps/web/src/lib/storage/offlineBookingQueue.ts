@@ -6,6 +6,10 @@ import type {
   UpdateQueueTicketStatusPayload,
 } from '@/types/appointments';
 
+/**
+ * A mutation waiting to be replayed. Its `id` is sent as the Idempotency-Key
+ * of every attempt, the first one included.
+ */
 export type OfflineBookingAction =
   | {
       id: string;
@@ -1,5 +1,16 @@
-import type { CacheMetadata, PaginatedMeta, ServiceCategory, ServiceItem } from './services';
-import type { AppointmentDetails, AppointmentStatus, PaginationMeta } from './appointments';
+import type {
+  CacheMetadata,
+  PaginatedMeta,
+  ServiceBookingPolicy,
+  ServiceCategory,
+  ServiceItem,
+} from './services';
+import type {
+  AppointmentDetails,
+  AppointmentStatus,
+  PaginationMeta,
+  QueueTicketStatus,
+} from './appointments';
 
 export interface ServiceTranslationInput {
   locale: string;
@@ -23,6 +34,7 @@ export interface AdminServiceFormData {
   price: string;
   isActive?: boolean;
   metadata?: Record<string, unknown>;
+  bookingPolicy?: ServiceBookingPolicy;
   translations: ServiceTranslationInput[];
 }
 
@@ -187,11 +199,76 @@ export interface AdminDocumentValidationLogEntry {
   type: 'validation';
 }
 
+export type DocumentVerificationLogLevel = 'INFO' | 'WARNING' | 'ERROR';
+
+export interface AdminDocumentPipelineLogEntry {
+  id: string;
+  verificationId: string;
+  uploadId: string | null;
+  userId: string | null;
+  docType: string;
+  stage: string;
+  severity: DocumentVerificationLogLevel;
+  message: string;
+  metadata: unknown | null;
+  createdAt: string;
+  type: 'verification';
+}
+
 export type AdminDocumentVerificationLogEntry =
   | AdminDocumentStatusLogEntry
-  | AdminDocumentValidationLogEntry;
+  | AdminDocumentValidationLogEntry
+  | AdminDocumentPipelineLogEntry;
 
 export interface AdminDocumentVerificationLogsResponse {
   data: AdminDocumentVerificationLogEntry[];
   meta: PaginationMeta;
 }
+
+export type BookingAttemptKind = 'APPOINTMENT' | 'QUEUE_TICKET';
+
+export type BookingRiskFlag = 'SHARED_DEVICE' | 'SHARED_IP' | 'RAPID_BOOKINGS';
+
+export interface AdminFlaggedBooking {
+  id: string;
+  kind: BookingAttemptKind;
+  flags: BookingRiskFlag[];
+  ipAddress: string | null;
+  fingerprint: string | null;
+  createdAt: string;
+  reviewedAt: string | null;
+  user: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+  };
+  service: {
+    id: string;
+    slug: string;
+  } | null;
+  appointment: {
+    id: string;
+    status: AppointmentStatus;
+    scheduledAt: string;
+  } | null;
+  queueTicket: {
+    id: string;
+    status: QueueTicketStatus;
+    position: number;
+  } | null;
+}
+
+export interface AdminFlaggedBookingListResponse {
+  data: AdminFlaggedBooking[];
+  meta: PaginationMeta;
+}
+
+export interface AdminCancelFlaggedBookingsResult {
+  cancelledAppointments: number;
+  cancelledQueueTickets: number;
+}
+
+export interface AdminDismissFlaggedBookingsResult {
+  reviewed: number;
+}
@@ -1,8 +1,12 @@
+import type { DocumentUploadStatus } from '@/types/admin';
+import type { DependentRelationship } from '@/types/profile';
+
 export type AppointmentSlotStatus = 'AVAILABLE' | 'FULL' | 'CANCELLED';
 
 export interface AppointmentSlotAvailability {
   id: string;
   serviceId: string;
+  officeId?: string | null;
   startAt: string;
   endAt: string;
   timezone: string;
@@ -17,23 +21,83 @@ export interface AppointmentSlotAvailability {
 
 export type QueueTicketStatus = 'WAITING' | 'NOTIFIED' | 'COMPLETED' | 'CANCELLED' | 'EXPIRED';
 
+export type QueuePriorityClass = 'STANDARD' | 'ELDERLY' | 'DISABILITY' | 'PREGNANCY';
+
+export interface QueuePriorityRule {
+  priorityClass: QueuePriorityClass;
+  leadMinutes: number;
+  requiresProof: boolean;
+  proofTemplateId: string | null;
+  isActive: boolean;
+}
+
+export interface QueuePriorityRuleListResponse {
+  data: QueuePriorityRule[];
+}
+
+/** Estimated wait of a waiting ticket, from free slot seats or the usual service time. */
+export interface QueueTicketEta {
+  earliestAt: string;
+  latestAt: string;
+  basis: 'SLOTS' | 'THROUGHPUT';
+}
+
 export interface QueueTicket {
   id: string;
+  /** Number shown on the waiting-room board; missing on tickets saved before it existed. */
+  number?: string;
   serviceId: string;
   slotId?: string | null;
+  /** Dependent waiting in the queue; absent when the ticket is for the account holder. */
+  dependentId?: string | null;
   status: QueueTicketStatus;
   position: number;
+  priorityClass?: QueuePriorityClass;
+  /** Priority claimed when joining and awaiting verification by an agent. */
+  requestedPriorityClass?: QueuePriorityClass | null;
   desiredFrom?: string | null;
   desiredTo?: string | null;
   timezone: string;
   notifiedAt?: string | null;
   expiresAt?: string | null;
   notes?: string | null;
+  eta?: QueueTicketEta | null;
   createdAt: string;
   updatedAt: string;
 }
 
-export type AppointmentStatus = 'SCHEDULED' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED';
+export interface QueueBoardTicket {
+  number: string;
+  status: QueueTicketStatus;
+  position: number | null;
+}
+
+export interface QueueBoard {
+  serviceId: string;
+  officeId: string | null;
+  serving: QueueBoardTicket[];
+  next: QueueBoardTicket[];
+  waitingCount: number;
+}
+
+export interface QueueTicketPosition {
+  ticketId: string;
+  number: string;
+  serviceId: string;
+  status: QueueTicketStatus;
+  position: number | null;
+  expiresAt: string | null;
+  eta: QueueTicketEta | null;
+}
+
+export type AppointmentStatus =
+  | 'SCHEDULED'
+  | 'CONFIRMED'
+  | 'CHECKED_IN'
+  | 'IN_PROGRESS'
+  | 'COMPLETED'
+  | 'CANCELLED'
+  | 'NO_SHOW';
 
 export interface ServiceSummary {
   id: string;
@@ -52,22 +116,67 @@ export interface AppointmentSlotSummary {
   bufferAfterMinutes: number;
 }
 
+export interface AppointmentDependentSummary {
+  id: string;
+  firstName: string;
+  lastName: string;
+  birthDate: string;
+  relationship: DependentRelationship;
+  nationalId?: string | null;
+}
+
+export type AppointmentDocumentStatus = DocumentUploadStatus | 'MISSING';
+
+export interface AppointmentDocumentChecklistItem {
+  templateId: string;
+  slug: string;
+  name: string;
+  /** Status of the best matching upload; MISSING when nothing was uploaded. */
+  status: AppointmentDocumentStatus;
+  uploadId: string | null;
+  rejectionReason: string | null;
+}
+
+export interface AppointmentDocumentOverride {
+  overriddenById: string | null;
+  overriddenAt: string;
+  reason: string | null;
+}
+
+export interface AppointmentDocumentChecklist {
+  /** Whether the appointment can be confirmed as far as documents are concerned. */
+  complete: boolean;
+  items: AppointmentDocumentChecklistItem[];
+  override: AppointmentDocumentOverride | null;
+}
+
 export interface AppointmentDetails {
   id: string;
   userId: string;
   serviceId: string;
   slotId?: string | null;
   queueTicketId?: string | null;
+  specialistId?: string | null;
   status: AppointmentStatus;
   scheduledAt: string;
   timezone: string;
   locale: string;
   notes?: string | null;
+  reference: string;
+  checkInCode: string;
+  checkedInAt?: string | null;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  noShowAt?: string | null;
   createdAt: string;
   updatedAt: string;
   service: ServiceSummary;
   slot?: AppointmentSlotSummary | null;
   queueTicket?: QueueTicket | null;
+  /** Dependent the appointment was booked for; null when it is for the account holder. */
+  dependent?: AppointmentDependentSummary | null;
+  /** Documents required by the service; only returned on appointment details. */
+  documentChecklist?: AppointmentDocumentChecklist;
 }
 
 export interface PaginationMeta {
@@ -93,13 +202,38 @@ export interface QueueTicketDetailResponse {
   data: QueueTicket;
 }
 
+export interface NextAvailableSlotsMeta {
+  limit: number;
+  searchedUntil: string;
+  nextCursor: string | null;
+}
+
+export interface NextAvailableSlotsResponse {
+  data: AppointmentSlotAvailability[];
+  meta: NextAvailableSlotsMeta;
+}
+
 export interface AppointmentAvailabilityParams {
   serviceId: string;
+  officeId?: string;
   from?: string;
   to?: string;
   timezone?: string;
 }
 
+export interface NextAvailableSlotsParams {
+  serviceIds: string[];
+  officeId?: string;
+  /** ISO days of week, 1 = Monday to 7 = Sunday. */
+  daysOfWeek?: number[];
+  fromTime?: string;
+  toTime?: string;
+  timezone?: string;
+  limit?: number;
+  horizonDays?: number;
+  cursor?: string;
+}
+
 export interface AppointmentListParams {
   locale?: string;
   page?: number;
@@ -110,6 +244,7 @@ export interface BookAppointmentPayload {
   serviceId: string;
   slotId: string;
   queueTicketId?: string;
+  dependentId?: string;
   locale?: string;
   timezone?: string;
   notes?: string;
@@ -121,10 +256,31 @@ export interface RescheduleAppointmentPayload {
   notes?: string;
 }
 
+export interface CreateSlotHoldPayload {
+  serviceId: string;
+  slotId: string;
+  appointmentId?: string;
+  dependentId?: string;
+}
+
+export interface SlotHold {
+  id: string;
+  slotId: string;
+  expiresAt: string;
+}
+
+export interface SlotHoldResponse {
+  data: SlotHold;
+}
+
 export interface CancelAppointmentPayload {
   reason?: string;
 }
 
+export interface ConfirmAttendancePayload {
+  token: string;
+}
+
 export interface CreateQueueTicketPayload {
   serviceId: string;
   slotId?: string;
@@ -132,9 +288,41 @@ export interface CreateQueueTicketPayload {
   desiredTo?: string;
   timezone?: string;
   notes?: string;
+  priorityClass?: QueuePriorityClass;
+  priorityProofUploadId?: string;
+  dependentId?: string;
 }
 
 export interface UpdateQueueTicketStatusPayload {
   status: QueueTicketStatus;
   notes?: string;
 }
+
+export type BookingPolicyCode =
+  | 'BOOKING_LEAD_TIME'
+  | 'BOOKING_TOO_FAR_AHEAD'
+  | 'BOOKING_CHANGE_CUTOFF'
+  | 'BOOKING_ACTIVE_LIMIT'
+  | 'BOOKING_DEPENDENT_ACTIVE_LIMIT'
+  | 'BOOKING_NO_SHOW_COOLDOWN';
+
+export type BookingChallengeCode =
+  | 'BOOKING_CHALLENGE_REQUIRED'
+  | 'BOOKING_CHALLENGE_INVALID'
+  | 'BOOKING_CHALLENGE_EXPIRED'
+  | 'BOOKING_CHALLENGE_REUSED';
+
+export interface BookingPolicyViolation {
+  code: BookingPolicyCode | BookingChallengeCode;
+  details: Record<string, string | number>;
+}
+
+export interface BookingChallenge {
+  challenge: string;
+  difficulty: number;
+  expiresAt: string;
+}
+
+export interface BookingChallengeResponse {
+  data: BookingChallenge;
+}
@@ -1,5 +1,6 @@
 export * from './auth';
 export * from './profile';
 export * from './services';
+export * from './offices';
 export * from './appointments';
 export * from './admin';
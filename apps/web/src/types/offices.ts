@@ -0,0 +1,31 @@
+import type { PaginatedMeta } from './services';
+
+export interface OfficeOpeningHours {
+  dayOfWeek: number;
+  openTime: string;
+  closeTime: string;
+}
+
+export interface Office {
+  id: string;
+  slug: string;
+  name: string;
+  wilayaCode: string;
+  commune: string;
+  address: string;
+  latitude: number | null;
+  longitude: number | null;
+  timezone: string;
+  phoneNumber: string | null;
+  openingHours: OfficeOpeningHours[];
+  isActive: boolean;
+  metadata: Record<string, unknown> | null;
+  serviceIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OfficeListResponse {
+  data: Office[];
+  meta: PaginatedMeta;
+}
@@ -9,6 +9,42 @@ export interface UserProfile extends AuthUser {
   preferredLanguage?: string | null;
 }
 
+export interface NotificationPreferences {
+  emailReminders: boolean;
+  smsReminders: boolean;
+}
+
+export type DependentRelationship = 'CHILD' | 'SPOUSE' | 'PARENT' | 'SIBLING' | 'WARD' | 'OTHER';
+
+export interface Dependent {
+  id: string;
+  firstName: string;
+  lastName: string;
+  /** Calendar date (YYYY-MM-DD). */
+  birthDate: string;
+  relationship: DependentRelationship;
+  nationalId: string | null;
+  createdAt: string;
+}
+
+export interface DependentListResponse {
+  data: Dependent[];
+}
+
+export interface DependentPayload {
+  firstName: string;
+  lastName: string;
+  birthDate: string;
+  relationship: DependentRelationship;
+  nationalId?: string;
+}
+
+export interface CalendarFeedResponse {
+  data: {
+    url: string;
+  };
+}
+
 export interface UserAddress {
   line1?: string | null;
   line2?: string | null;
@@ -42,6 +42,17 @@ export interface ServiceTranslation {
   updatedAt: string;
 }
 
+export interface ServiceBookingPolicy {
+  minLeadMinutes: number | null;
+  maxAdvanceDays: number | null;
+  changeCutoffMinutes: number | null;
+  maxActivePerUser: number | null;
+  maxActivePerDependent: number | null;
+  noShowLimit: number | null;
+  noShowWindowDays: number;
+  noShowCooldownDays: number;
+}
+
 export interface ServiceItem {
   id: string;
   slug: string;
@@ -49,6 +60,7 @@ export interface ServiceItem {
   price: string;
   isActive: boolean;
   metadata: Record<string, unknown> | null;
+  bookingPolicy?: ServiceBookingPolicy | null;
   createdAt: string;
   updatedAt: string;
   translation: ServiceTranslation | null;
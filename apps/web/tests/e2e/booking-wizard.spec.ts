@@ -103,6 +103,47 @@ test.describe('booking wizard', () => {
       });
     });
 
+    await page.route('**/appointments/availability/next?**', async (route) => {
+      await route.fulfill({
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          data: availabilityResponse.data.slice(0, 1),
+          meta: { limit: 1, searchedUntil: '2025-03-01T00:00:00.000Z', nextCursor: null },
+        }),
+      });
+    });
+
+    await page.route('**/appointments/booking-challenge', async (route) => {
+      await route.fulfill({
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          data: {
+            challenge: 'test-challenge',
+            difficulty: 0,
+            expiresAt: '2099-01-01T00:00:00.000Z',
+          },
+        }),
+      });
+    });
+
+    await page.route('**/appointments/holds', async (route) => {
+      const payload = await route.request().postDataJSON();
+
+      await route.fulfill({
+        status: 201,
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          data: {
+            id: 'hold-1',
+            slotId: payload.slotId,
+            expiresAt: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+          },
+        }),
+      });
+    });
+
     await page.route('**/appointments', async (route) => {
       const method = route.request().method();
 
@@ -135,6 +176,8 @@ test.describe('booking wizard', () => {
         timezone: payload.timezone ?? 'Europe/Paris',
         locale: payload.locale ?? 'fr',
         notes: payload.notes ?? null,
+        reference: 'APPOINTM',
+        checkInCode: 'appointment:appointment-1',
         createdAt: '2024-11-01T00:00:00.000Z',
         updatedAt: '2024-11-01T00:00:00.000Z',
         service: {
@@ -189,6 +232,7 @@ test.describe('booking wizard', () => {
     await page.getByTestId('slot-option-slot-1').click();
 
     await expect(page.getByTestId('booking-step-confirm')).toBeVisible();
+    await expect(page.getByTestId('slot-hold-countdown')).toBeVisible();
 
     await page.getByTestId('confirm-booking-button').click();
 
@@ -196,4 +240,18 @@ test.describe('booking wizard', () => {
     await expect(page.getByTestId('appointments-panel')).toBeVisible();
     await expect(page.getByTestId('queue-panel')).toBeVisible();
   });
+
+  test('jumps to the first available slot', async ({ page }, testInfo) => {
+    const localePath = testInfo.project.name === 'rtl' ? '/ar/appointments' : '/fr/appointments';
+
+    await page.goto(localePath);
+
+    await page.getByTestId('service-card-service-1').click();
+    await expect(page.getByTestId('booking-step-slots')).toBeVisible();
+
+    await page.getByTestId('first-available-button').click();
+
+    await expect(page.getByTestId('booking-step-confirm')).toBeVisible();
+    await expect(page.getByTestId('slot-hold-countdown')).toBeVisible();
+  });
 });